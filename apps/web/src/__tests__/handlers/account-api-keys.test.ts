@@ -0,0 +1,189 @@
+// ABOUTME: Tests for self-service API keys on the account page.
+// ABOUTME: Covers creating keys with scopes and expiry, showing the raw key once, rotation, revocation and ownership.
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { handleAccount } from '../../pages/account';
+import {
+  handleAccountApiKeyCreate,
+  handleAccountApiKeyRevoke,
+  handleAccountApiKeyRotate,
+} from '../../pages/account/api-keys';
+import { generateCsrfToken } from '../../utils/csrf';
+import { createMockKV } from '../utils/mocks';
+
+const SECRET = 'test-secret';
+
+const mockUser = {
+  id: 'user-123',
+  username: 'testuser',
+  lastfm_username: 'testuser',
+  listenbrainz_username: null,
+  listening_source: 'lastfm' as const,
+  discogs_username: null,
+  display_name: 'Test User',
+  bio: null,
+  profile_visibility: 'public' as const,
+};
+
+const existingKey = {
+  id: 'key-1',
+  user_id: 'user-123',
+  key_prefix: 'ltm_abc1',
+  name: 'Discord bot',
+  tier: 'standard' as const,
+  scopes: ['read', 'ai'],
+  rate_limit_rpm: null,
+  request_count: 1234,
+  last_used_at: '2026-10-18 09:00:00',
+  created_at: '2026-09-01 09:00:00',
+  expires_at: null,
+  revoked_at: null,
+};
+
+function createMockDb() {
+  return {
+    getSpotifyImports: vi.fn().mockResolvedValue([]),
+    getSessionsByUser: vi.fn().mockResolvedValue([]),
+    listApiKeys: vi.fn().mockResolvedValue([existingKey]),
+    listOAuthAuthorizations: vi.fn().mockResolvedValue([]),
+    listWebhooks: vi.fn().mockResolvedValue([]),
+    getApiKey: vi.fn().mockResolvedValue(existingKey),
+    createApiKey: vi.fn().mockResolvedValue({ key: 'ltm_0123456789abcdef0123456789abcdef', record: { id: 'key-2' } }),
+    revokeApiKey: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+type TestVariables = {
+  currentUser: typeof mockUser | null;
+  sessionId: string | null;
+  internalToken: string;
+  db: ReturnType<typeof createMockDb>;
+};
+
+describe('Account API keys', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let env: { INTERNAL_API_SECRET: string; CACHE: KVNamespace };
+  let csrfToken: string;
+
+  function createApp() {
+    const app = new Hono<{ Variables: TestVariables }>();
+    app.use('*', async (c, next) => {
+      c.set('currentUser', mockUser);
+      c.set('sessionId', 'session-1');
+      c.set('internalToken', 'token');
+      c.set('db', mockDb);
+      await next();
+    });
+    app.get('/account', handleAccount);
+    app.post('/account/api-keys', handleAccountApiKeyCreate);
+    app.post('/account/api-keys/rotate', handleAccountApiKeyRotate);
+    app.post('/account/api-keys/revoke', handleAccountApiKeyRevoke);
+    return app;
+  }
+
+  function post(path: string, fields: Array<[string, string]>) {
+    const formData = new FormData();
+    for (const [key, value] of fields) formData.append(key, value);
+    return createApp().request(path, { method: 'POST', body: formData }, env);
+  }
+
+  beforeEach(async () => {
+    mockDb = createMockDb();
+    env = { INTERNAL_API_SECRET: SECRET, CACHE: createMockKV() };
+    csrfToken = await generateCsrfToken(SECRET, 'session-1');
+  });
+
+  it('lists keys by prefix with usage', async () => {
+    const html = await (await createApp().request('/account', {}, env)).text();
+
+    expect(html).toContain('Discord bot');
+    expect(html).toContain('ltm_abc1');
+    expect(html).toContain('1,234 requests');
+    expect(html).toContain('Last used Oct 18, 2026');
+  });
+
+  it('creates a standard key with the chosen scopes and shows it exactly once', async () => {
+    const res = await post('/account/api-keys', [
+      ['csrf_token', csrfToken],
+      ['name', 'Scripts'],
+      ['scopes', 'read'],
+      ['scopes', 'write'],
+      ['scopes', 'admin'],
+      ['expires_in_days', '30'],
+    ]);
+
+    expect(res.status).toBe(302);
+    expect(res.headers.get('Location')).toBe('/account#api-keys');
+    expect(mockDb.createApiKey).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-123', name: 'Scripts', tier: 'standard', scopes: ['read', 'write'] })
+    );
+    expect(mockDb.createApiKey.mock.calls[0][0].expiresAt).toMatch(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/);
+
+    const first = await (await createApp().request('/account', {}, env)).text();
+    const second = await (await createApp().request('/account', {}, env)).text();
+    expect(first).toContain('ltm_0123456789abcdef0123456789abcdef');
+    expect(second).not.toContain('ltm_0123456789abcdef0123456789abcdef');
+  });
+
+  it('requires a name and at least one scope', async () => {
+    const res = await post('/account/api-keys', [
+      ['csrf_token', csrfToken],
+      ['name', 'Scripts'],
+      ['expires_in_days', ''],
+    ]);
+
+    expect(res.status).toBe(400);
+    expect(mockDb.createApiKey).not.toHaveBeenCalled();
+  });
+
+  it('rotates a key onto the same settings and revokes the old one', async () => {
+    const res = await post('/account/api-keys/rotate', [
+      ['csrf_token', csrfToken],
+      ['key_id', 'key-1'],
+    ]);
+
+    expect(res.status).toBe(302);
+    expect(mockDb.createApiKey).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-123', name: 'Discord bot', scopes: ['read', 'ai'] })
+    );
+    expect(mockDb.revokeApiKey).toHaveBeenCalledWith('key-1');
+  });
+
+  it('refuses to rotate an expired key and only offers to revoke it', async () => {
+    const expiredKey = { ...existingKey, expires_at: '2026-01-01 00:00:00' };
+    mockDb.getApiKey.mockResolvedValue(expiredKey);
+    mockDb.listApiKeys.mockResolvedValue([expiredKey]);
+
+    const res = await post('/account/api-keys/rotate', [
+      ['csrf_token', csrfToken],
+      ['key_id', 'key-1'],
+    ]);
+    const html = await (await createApp().request('/account', {}, env)).text();
+
+    expect(res.status).toBe(400);
+    expect(mockDb.createApiKey).not.toHaveBeenCalled();
+    expect(mockDb.revokeApiKey).not.toHaveBeenCalled();
+    expect(html).toContain('Expired');
+    expect(html).not.toContain('/account/api-keys/rotate');
+    expect(html).toContain('/account/api-keys/revoke');
+  });
+
+  it("ignores other users' keys", async () => {
+    mockDb.getApiKey.mockResolvedValue({ ...existingKey, user_id: 'someone-else' });
+
+    await post('/account/api-keys/revoke', [
+      ['csrf_token', csrfToken],
+      ['key_id', 'key-1'],
+    ]);
+
+    expect(mockDb.revokeApiKey).not.toHaveBeenCalled();
+  });
+
+  it('rejects requests without a valid CSRF token', async () => {
+    const res = await post('/account/api-keys/revoke', [['key_id', 'key-1']]);
+
+    expect(res.status).toBe(403);
+    expect(mockDb.revokeApiKey).not.toHaveBeenCalled();
+  });
+});
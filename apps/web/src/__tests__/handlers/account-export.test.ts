@@ -0,0 +1,135 @@
+// ABOUTME: Tests for the account data export downloads.
+// ABOUTME: Covers secret stripping, CSV escaping, cached AI insights, unknown tables and the hourly rate limit.
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { handleAccountExportCsv, handleAccountExportJson } from '../../pages/account/export';
+import { toCsv } from '../../utils/account-export';
+import { createMockKV } from '../utils/mocks';
+
+const mockUser = {
+  id: 'user-123',
+  username: 'testuser',
+  lastfm_username: 'TestUser',
+  lastfm_session_key: 'secret-session-key',
+  discogs_oauth_token: 'secret-token',
+  discogs_oauth_token_secret: 'secret-token-secret',
+  display_name: 'Test User',
+  profile_visibility: 'public' as const,
+};
+
+function createMockDb() {
+  return {
+    getSessionsByUser: vi.fn().mockResolvedValue([
+      { id: 'session-1', user_id: 'user-123', token_hash: 'hash', user_agent: 'Firefox', created_at: '2026-10-01 10:00:00' },
+    ]),
+    getApiKeysForExport: vi.fn().mockResolvedValue([{ id: 'key-1', key_prefix: 'ltm_abc1', scopes: '["read"]' }]),
+    getApiUsageForUser: vi.fn().mockResolvedValue([]),
+    listWebhooks: vi.fn().mockResolvedValue([
+      { id: 'hook-1', url: 'https://example.com/hook', secret: 'whsec_abc', events: ['insights.weekly'] },
+    ]),
+    getAllReleases: vi.fn().mockResolvedValue([{ id: 1, title: 'Kid A, Deluxe', artist: 'Radiohead' }]),
+    getAllWeeklyInsights: vi.fn().mockResolvedValue([]),
+    getSpotifyImports: vi.fn().mockResolvedValue([]),
+  };
+}
+
+type TestVariables = {
+  currentUser: typeof mockUser | null;
+  db: ReturnType<typeof createMockDb>;
+};
+
+describe('toCsv', () => {
+  it('quotes cells with commas, quotes and newlines and writes nested values as JSON', () => {
+    const csv = toCsv([
+      { name: 'Say "hi", then\nleave', tags: ['a', 'b'], empty: null },
+      { name: 'plain', extra: 1 },
+    ]);
+
+    expect(csv).toBe(
+      'name,tags,empty,extra\r\n' + '"Say ""hi"", then\nleave","[""a"",""b""]",,\r\n' + 'plain,,,1\r\n'
+    );
+  });
+});
+
+describe('Account export handlers', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let currentUser: typeof mockUser | null;
+  let env: { CACHE: KVNamespace };
+
+  function createApp() {
+    const app = new Hono<{ Variables: TestVariables }>();
+    app.use('*', async (c, next) => {
+      c.set('currentUser', currentUser);
+      c.set('db', mockDb);
+      await next();
+    });
+    app.get('/account/export/json', handleAccountExportJson);
+    app.get('/account/export/csv/:table', handleAccountExportCsv);
+    return app;
+  }
+
+  beforeEach(() => {
+    mockDb = createMockDb();
+    currentUser = mockUser;
+    env = { CACHE: createMockKV() };
+  });
+
+  it('exports the account without secrets, with cached AI insights', async () => {
+    await env.CACHE.put('ai:userInsightsSummary:testuser:7day:v2', JSON.stringify({ content: 'A big week.' }));
+    await env.CACHE.put('ai:userInsightsSummary:otheruser:7day:v2', JSON.stringify({ content: 'Not yours.' }));
+
+    const res = await createApp().request('/account/export/json', {}, env);
+    const body = await res.text();
+    const data = JSON.parse(body);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Disposition')).toMatch(/attachment; filename="listentomore-testuser-.*\.json"/);
+    expect(body).not.toContain('secret');
+    expect(data.profile[0]).toMatchObject({ id: 'user-123', display_name: 'Test User' });
+    expect(data.sessions[0]).not.toHaveProperty('token_hash');
+    expect(data.webhooks).toEqual([{ id: 'hook-1', url: 'https://example.com/hook', events: ['insights.weekly'] }]);
+    expect(data.ai_insights).toEqual([
+      {
+        task: 'userInsightsSummary',
+        key: 'ai:userInsightsSummary:testuser:7day:v2',
+        result: { content: 'A big week.' },
+      },
+    ]);
+  });
+
+  it('downloads a single table as CSV', async () => {
+    const res = await createApp().request('/account/export/csv/discogs_releases', {}, env);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toContain('text/csv');
+    expect(await res.text()).toBe('id,title,artist\r\n1,"Kid A, Deluxe",Radiohead\r\n');
+  });
+
+  it('returns 404 for unknown tables', async () => {
+    const res = await createApp().request('/account/export/csv/users', {}, env);
+
+    expect(res.status).toBe(404);
+    expect(mockDb.getSessionsByUser).not.toHaveBeenCalled();
+  });
+
+  it('redirects signed-out visitors to login', async () => {
+    currentUser = null;
+
+    const res = await createApp().request('/account/export/json', {}, env);
+
+    expect(res.status).toBe(302);
+    expect(res.headers.get('Location')).toBe('/login?next=/account');
+  });
+
+  it('limits exports per hour', async () => {
+    const windowStart = Math.floor(Date.now() / (60 * 60 * 1000));
+    await env.CACHE.put(`ratelimit:export:user-123:${windowStart}`, '20');
+
+    const res = await createApp().request('/account/export/json', {}, env);
+
+    expect(res.status).toBe(429);
+    expect(res.headers.get('Retry-After')).toBeTruthy();
+    expect(mockDb.getSessionsByUser).not.toHaveBeenCalled();
+  });
+});
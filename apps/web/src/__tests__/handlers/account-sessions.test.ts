@@ -0,0 +1,183 @@
+// ABOUTME: Tests for the account page's active sessions list and sign-out actions.
+// ABOUTME: Covers device labels, CSRF token checks and signing out one device or everywhere else.
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { handleAccount, handleAccountSessionRevoke, handleAccountSessionsRevokeOthers } from '../../pages/account';
+import { generateCsrfToken } from '../../utils/csrf';
+import { describeUserAgent } from '../../utils/user-agent';
+import { destroySession } from '../../utils/session';
+import { createMockKV } from '../utils/mocks';
+
+vi.mock('../../utils/session', () => ({
+  destroySession: vi.fn().mockResolvedValue(undefined),
+}));
+
+const SECRET = 'test-secret';
+
+const mockUser = {
+  id: 'user-123',
+  username: 'testuser',
+  lastfm_username: 'testuser',
+  listenbrainz_username: null,
+  listening_source: 'lastfm' as const,
+  discogs_username: null,
+  display_name: 'Test User',
+  bio: null,
+  profile_visibility: 'public' as const,
+};
+
+const FIREFOX_MAC = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14.5; rv:131.0) Gecko/20100101 Firefox/131.0';
+const CHROME_ANDROID =
+  'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Mobile Safari/537.36';
+
+function createMockDb() {
+  return {
+    getSpotifyImports: vi.fn().mockResolvedValue([]),
+    getSessionsByUser: vi.fn().mockResolvedValue([
+      {
+        id: 'session-current',
+        user_id: 'user-123',
+        token_hash: 'hash-1',
+        user_agent: FIREFOX_MAC,
+        ip_address: '203.0.113.5',
+        created_at: '2026-10-01 10:00:00',
+        expires_at: '2099-01-01T00:00:00.000Z',
+        last_active_at: '2026-10-19 08:00:00',
+      },
+      {
+        id: 'session-library',
+        user_id: 'user-123',
+        token_hash: 'hash-2',
+        user_agent: CHROME_ANDROID,
+        ip_address: null,
+        created_at: '2026-09-02 10:00:00',
+        expires_at: '2099-01-01T00:00:00.000Z',
+        last_active_at: '2026-09-14 12:00:00',
+      },
+      {
+        id: 'session-expired',
+        user_id: 'user-123',
+        token_hash: 'hash-3',
+        user_agent: null,
+        ip_address: null,
+        created_at: '2026-01-01 10:00:00',
+        expires_at: '2026-02-01T00:00:00.000Z',
+        last_active_at: '2026-01-05 12:00:00',
+      },
+    ]),
+    listApiKeys: vi.fn().mockResolvedValue([]),
+    listOAuthAuthorizations: vi.fn().mockResolvedValue([]),
+    listWebhooks: vi.fn().mockResolvedValue([]),
+    deleteUserSession: vi.fn().mockResolvedValue(undefined),
+    deleteOtherUserSessions: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+type TestVariables = {
+  currentUser: typeof mockUser | null;
+  sessionId: string | null;
+  internalToken: string;
+  db: ReturnType<typeof createMockDb>;
+};
+
+describe('describeUserAgent', () => {
+  it('labels browser and operating system', () => {
+    expect(describeUserAgent(FIREFOX_MAC)).toBe('Firefox on macOS');
+    expect(describeUserAgent(CHROME_ANDROID)).toBe('Chrome on Android');
+    expect(
+      describeUserAgent(
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36 Edg/129.0.0.0'
+      )
+    ).toBe('Edge on Windows');
+    expect(describeUserAgent(null)).toBe('Unknown device');
+  });
+});
+
+describe('Account sessions', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  const env = { INTERNAL_API_SECRET: SECRET, DISCOGS_CONSUMER_KEY: '', DISCOGS_CONSUMER_SECRET: '', CACHE: createMockKV() };
+
+  function createApp() {
+    const app = new Hono<{ Variables: TestVariables }>();
+    app.use('*', async (c, next) => {
+      c.set('currentUser', mockUser);
+      c.set('sessionId', 'session-current');
+      c.set('internalToken', 'token');
+      c.set('db', mockDb);
+      await next();
+    });
+    app.get('/account', handleAccount);
+    app.post('/account/sessions/revoke', handleAccountSessionRevoke);
+    app.post('/account/sessions/revoke-others', handleAccountSessionsRevokeOthers);
+    return app;
+  }
+
+  function post(path: string, fields: Record<string, string>) {
+    const formData = new FormData();
+    for (const [key, value] of Object.entries(fields)) formData.append(key, value);
+    return createApp().request(path, { method: 'POST', body: formData }, env);
+  }
+
+  beforeEach(() => {
+    mockDb = createMockDb();
+    vi.mocked(destroySession).mockClear();
+  });
+
+  it('lists unexpired sessions with device labels and a CSRF token', async () => {
+    const html = await (await createApp().request('/account', {}, env)).text();
+    const csrfToken = await generateCsrfToken(SECRET, 'session-current');
+
+    expect(html).toContain('Active Sessions');
+    expect(html).toContain('Firefox on macOS');
+    expect(html).toContain('This device');
+    expect(html).toContain('Chrome on Android');
+    expect(html).toContain('Last active Sep 14, 2026');
+    expect(html).not.toContain('session-expired');
+    expect(html).toContain(`value="${csrfToken}"`);
+  });
+
+  it('signs out another device', async () => {
+    const res = await post('/account/sessions/revoke', {
+      csrf_token: await generateCsrfToken(SECRET, 'session-current'),
+      session_id: 'session-library',
+    });
+
+    expect(res.status).toBe(302);
+    expect(res.headers.get('Location')).toBe('/account');
+    expect(mockDb.deleteUserSession).toHaveBeenCalledWith('user-123', 'session-library');
+  });
+
+  it('signs out this device through the regular sign out', async () => {
+    const res = await post('/account/sessions/revoke', {
+      csrf_token: await generateCsrfToken(SECRET, 'session-current'),
+      session_id: 'session-current',
+    });
+
+    expect(res.headers.get('Location')).toBe('/');
+    expect(destroySession).toHaveBeenCalled();
+    expect(mockDb.deleteUserSession).not.toHaveBeenCalled();
+  });
+
+  it('signs out everywhere else, keeping this device', async () => {
+    const res = await post('/account/sessions/revoke-others', {
+      csrf_token: await generateCsrfToken(SECRET, 'session-current'),
+    });
+
+    expect(res.status).toBe(302);
+    expect(mockDb.deleteOtherUserSessions).toHaveBeenCalledWith('user-123', 'session-current');
+  });
+
+  it('rejects missing or foreign CSRF tokens', async () => {
+    const missing = await post('/account/sessions/revoke-others', {});
+    const foreign = await post('/account/sessions/revoke', {
+      csrf_token: await generateCsrfToken(SECRET, 'session-library'),
+      session_id: 'session-library',
+    });
+
+    expect(missing.status).toBe(403);
+    expect(foreign.status).toBe(403);
+    expect(mockDb.deleteOtherUserSessions).not.toHaveBeenCalled();
+    expect(mockDb.deleteUserSession).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,154 @@
+// ABOUTME: Tests for "I just listened to this" album scrobbling.
+// ABOUTME: Covers back-dated timestamps, the preview/confirm endpoints and finish time validation.
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { trackInternalRoutes } from '../../api/internal/tracks';
+import { buildAlbumScrobbles, parseFinishedAt } from '../../utils/album-scrobble';
+import { createMockKV, setupFetchMock } from '../utils/mocks';
+
+const album = {
+  id: 'album-1',
+  name: 'In Rainbows',
+  artist: 'Radiohead',
+  trackList: [
+    { number: 1, name: '15 Step', duration: 237000, preview: null, artists: ['Radiohead'] },
+    { number: 2, name: 'Interlude', duration: 20000, preview: null, artists: ['Radiohead'] },
+    { number: 3, name: 'Reckoner', duration: 290000, preview: null, artists: ['Radiohead', 'Guest'] },
+  ],
+};
+
+const signedInUser = {
+  id: 'user-123',
+  username: 'testuser',
+  lastfm_username: 'testuser',
+  lastfm_session_key: 'session-key',
+};
+
+type TestVariables = {
+  currentUser: typeof signedInUser | null;
+  isAuthenticated: boolean;
+  db: { updateUser: ReturnType<typeof vi.fn> };
+  spotify: { getAlbum: ReturnType<typeof vi.fn> };
+};
+
+describe('buildAlbumScrobbles', () => {
+  it('back-dates each track so the album ends at the finish time', () => {
+    const finishedAt = new Date('2026-10-19T20:00:00Z');
+    const end = finishedAt.getTime() / 1000;
+
+    const scrobbles = buildAlbumScrobbles(album, finishedAt);
+
+    expect(scrobbles.map((s) => s.track)).toEqual(['15 Step', 'Reckoner']);
+    expect(scrobbles[1]).toMatchObject({ timestamp: end - 290, duration: 290, trackNumber: 3, albumArtist: 'Radiohead' });
+    // The skipped interlude still takes up time in the timeline
+    expect(scrobbles[0].timestamp).toBe(end - 290 - 20 - 237);
+  });
+});
+
+describe('parseFinishedAt', () => {
+  const now = new Date('2026-10-19T20:00:00Z');
+
+  it('accepts recent finish times and rejects stale, future or invalid ones', () => {
+    expect(parseFinishedAt('2026-10-19T19:30:00Z', now)).toEqual(new Date('2026-10-19T19:30:00Z'));
+    expect(parseFinishedAt('2026-10-17T19:30:00Z', now)).toBeNull();
+    expect(parseFinishedAt('2026-10-19T21:00:00Z', now)).toBeNull();
+    expect(parseFinishedAt('yesterday', now)).toBeNull();
+    expect(parseFinishedAt(1760900000, now)).toBeNull();
+  });
+});
+
+describe('Album scrobble endpoints', () => {
+  let currentUser: typeof signedInUser | null;
+  let mockDb: { updateUser: ReturnType<typeof vi.fn> };
+  let mockSpotify: { getAlbum: ReturnType<typeof vi.fn> };
+  let env: { LASTFM_API_KEY: string; LASTFM_SHARED_SECRET?: string; CACHE: KVNamespace };
+
+  function createApp() {
+    const app = new Hono<{ Variables: TestVariables }>();
+    app.use('*', async (c, next) => {
+      c.set('currentUser', currentUser);
+      c.set('isAuthenticated', !!currentUser);
+      c.set('db', mockDb);
+      c.set('spotify', mockSpotify);
+      await next();
+    });
+    app.route('/', trackInternalRoutes as unknown as Hono<{ Variables: TestVariables }>);
+    return app;
+  }
+
+  function confirm(body: unknown) {
+    return createApp().request(
+      '/album-scrobble',
+      { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) },
+      env
+    );
+  }
+
+  beforeEach(() => {
+    currentUser = { ...signedInUser };
+    mockDb = { updateUser: vi.fn().mockResolvedValue(undefined) };
+    mockSpotify = { getAlbum: vi.fn().mockResolvedValue(album) };
+    env = { LASTFM_API_KEY: 'test-key', LASTFM_SHARED_SECRET: 'secret', CACHE: createMockKV() };
+  });
+
+  it('previews the scrobbles without writing to Last.fm', async () => {
+    const mockFetch = setupFetchMock([]);
+
+    const res = await createApp().request('/album-scrobble-preview?albumId=album-1', {}, env);
+    const data = (await res.json()) as { data: { finishedAt: string; scrobbles: Array<{ track: string }> } };
+
+    expect(res.status).toBe(200);
+    expect(data.data.scrobbles.map((s) => s.track)).toEqual(['15 Step', 'Reckoner']);
+    expect(parseFinishedAt(data.data.finishedAt)).not.toBeNull();
+    expect(mockSpotify.getAlbum).toHaveBeenCalledWith('album-1');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('requires a signed-in user for the preview', async () => {
+    currentUser = null;
+
+    const res = await createApp().request('/album-scrobble-preview?albumId=album-1', {}, env);
+
+    expect(res.status).toBe(401);
+  });
+
+  it('scrobbles the album ending at the previewed finish time', async () => {
+    const mockFetch = setupFetchMock([
+      { pattern: /ws\.audioscrobbler\.com/, response: { scrobbles: { '@attr': { accepted: 2, ignored: 0 } } } },
+    ]);
+    const finishedAt = new Date(Date.now() - 60 * 1000);
+
+    const res = await confirm({ albumId: 'album-1', finishedAt: finishedAt.toISOString() });
+    const data = (await res.json()) as { data: { accepted: number; ignored: number } };
+
+    expect(res.status).toBe(200);
+    expect(data.data).toEqual({ accepted: 2, ignored: 0 });
+    const body = new URLSearchParams(mockFetch.mock.calls[0][1]?.body as string);
+    expect(body.get('method')).toBe('track.scrobble');
+    expect(body.get('track[1]')).toBe('Reckoner');
+    expect(body.get('timestamp[1]')).toBe(String(Math.floor(finishedAt.getTime() / 1000) - 290));
+  });
+
+  it('rejects expired previews', async () => {
+    const mockFetch = setupFetchMock([]);
+
+    const res = await confirm({ albumId: 'album-1', finishedAt: '2020-01-01T00:00:00Z' });
+
+    expect(res.status).toBe(400);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('clears a revoked session key and asks for re-auth', async () => {
+    setupFetchMock([
+      { pattern: /ws\.audioscrobbler\.com/, response: { error: 9, message: 'Invalid session key' }, options: { status: 403, ok: false } },
+    ]);
+
+    const res = await confirm({ albumId: 'album-1', finishedAt: new Date().toISOString() });
+    const data = (await res.json()) as { reauth?: boolean };
+
+    expect(res.status).toBe(401);
+    expect(data.reauth).toBe(true);
+    expect(mockDb.updateUser).toHaveBeenCalledWith('user-123', { lastfm_session_key: null });
+  });
+});
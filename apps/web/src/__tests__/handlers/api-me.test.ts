@@ -0,0 +1,135 @@
+// ABOUTME: Tests for the /api/v1/me write endpoints acting on the API key owner's account.
+// ABOUTME: Covers write-scope gating, profile validation and updates, Last.fm love/unlove and usage logging.
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import type { ApiKeyScope } from '@listentomore/db';
+import { meRoutes } from '../../api/v1/me';
+import { apiLoggingMiddleware } from '../../middleware/auth';
+import { createMockKV, setupFetchMock } from '../utils/mocks';
+
+const owner = {
+  id: 'user-123',
+  username: 'testuser',
+  lastfm_username: 'testuser',
+  lastfm_session_key: 'session-key',
+  display_name: 'Test User',
+  bio: null,
+  profile_visibility: 'public',
+};
+
+describe('/api/v1/me', () => {
+  let scopes: ApiKeyScope[];
+  let userId: string | null;
+  let mockDb: {
+    getUser: ReturnType<typeof vi.fn>;
+    updateUser: ReturnType<typeof vi.fn>;
+    logApiUsage: ReturnType<typeof vi.fn>;
+  };
+  let env: { LASTFM_API_KEY: string; LASTFM_SHARED_SECRET: string; CACHE: KVNamespace };
+
+  function request(method: string, path: string, body?: unknown) {
+    const app = new Hono();
+    app.use('*', async (c, next) => {
+      c.set('db' as never, mockDb as never);
+      c.set('apiKey' as never, { id: 'key-1', user_id: userId, tier: 'standard', scopes } as never);
+      await next();
+    });
+    app.use('*', apiLoggingMiddleware());
+    app.route('/api/v1/me', meRoutes as unknown as Hono);
+    return app.request(
+      path,
+      { method, headers: { 'Content-Type': 'application/json' }, body: body === undefined ? undefined : JSON.stringify(body) },
+      env
+    );
+  }
+
+  beforeEach(() => {
+    scopes = ['read', 'write'];
+    userId = owner.id;
+    mockDb = {
+      getUser: vi.fn().mockImplementation(async (id: string) => (id === owner.id ? { ...owner } : null)),
+      updateUser: vi.fn().mockResolvedValue(undefined),
+      logApiUsage: vi.fn().mockResolvedValue(undefined),
+    };
+    env = { LASTFM_API_KEY: 'test-key', LASTFM_SHARED_SECRET: 'secret', CACHE: createMockKV() };
+  });
+
+  it('returns the key owner profile with read scope', async () => {
+    scopes = ['read'];
+
+    const res = await request('GET', '/api/v1/me');
+    const { data } = (await res.json()) as { data: Record<string, unknown> };
+
+    expect(res.status).toBe(200);
+    expect(data).toMatchObject({ username: 'testuser', profile_visibility: 'public', url: 'https://listentomore.com/u/testuser' });
+  });
+
+  it('requires the write scope for writes and logs the rejected request', async () => {
+    scopes = ['read'];
+
+    const res = await request('PATCH', '/api/v1/me', { bio: 'Hi' });
+
+    expect(res.status).toBe(403);
+    expect(mockDb.updateUser).not.toHaveBeenCalled();
+    expect(mockDb.logApiUsage).toHaveBeenCalledWith(
+      expect.objectContaining({ apiKeyId: 'key-1', endpoint: '/api/v1/me', method: 'PATCH', statusCode: 403 })
+    );
+  });
+
+  it('rejects keys that are not linked to an account', async () => {
+    userId = null;
+
+    const res = await request('PATCH', '/api/v1/me', { bio: 'Hi' });
+
+    expect(res.status).toBe(403);
+  });
+
+  it('updates profile fields and visibility', async () => {
+    const res = await request('PATCH', '/api/v1/me', { display_name: '', bio: ' Crate digger ', profile_visibility: 'private' });
+    const { data } = (await res.json()) as { data: Record<string, unknown> };
+
+    expect(res.status).toBe(200);
+    expect(mockDb.updateUser).toHaveBeenCalledWith('user-123', {
+      display_name: 'testuser',
+      bio: 'Crate digger',
+      profile_visibility: 'private',
+    });
+    expect(data).toMatchObject({ display_name: 'testuser', bio: 'Crate digger', profile_visibility: 'private' });
+    expect(mockDb.logApiUsage).toHaveBeenCalledWith(expect.objectContaining({ method: 'PATCH', statusCode: 200 }));
+  });
+
+  it('validates profile updates', async () => {
+    const badVisibility = await request('PATCH', '/api/v1/me', { profile_visibility: 'friends' });
+    const empty = await request('PATCH', '/api/v1/me', { username: 'someone-else' });
+    const longBio = await request('PATCH', '/api/v1/me', { bio: 'x'.repeat(1001) });
+
+    expect(badVisibility.status).toBe(400);
+    expect(empty.status).toBe(400);
+    expect(longBio.status).toBe(400);
+    expect(mockDb.updateUser).not.toHaveBeenCalled();
+  });
+
+  it('loves and unloves tracks on Last.fm with the stored session key', async () => {
+    const mockFetch = setupFetchMock([{ pattern: /ws\.audioscrobbler\.com/, response: {} }]);
+
+    const loved = await request('POST', '/api/v1/me/loved-tracks', { artist: 'Radiohead', track: 'Reckoner' });
+    const unloved = await request('DELETE', '/api/v1/me/loved-tracks', { artist: 'Radiohead', track: 'Reckoner' });
+
+    expect(loved.status).toBe(200);
+    expect(await unloved.json()).toEqual({ data: { artist: 'Radiohead', track: 'Reckoner', loved: false } });
+    const methods = mockFetch.mock.calls.map((call) => new URLSearchParams(call[1]?.body as string).get('method'));
+    expect(methods).toEqual(['track.love', 'track.unlove']);
+    expect(new URLSearchParams(mockFetch.mock.calls[0][1]?.body as string).get('sk')).toBe('session-key');
+    expect(env.CACHE.delete).toHaveBeenCalledWith('lastfm:lovedtracks:testuser:5');
+  });
+
+  it('asks for a Last.fm re-auth when the owner has no session key', async () => {
+    mockDb.getUser.mockResolvedValue({ ...owner, lastfm_session_key: null });
+
+    const res = await request('POST', '/api/v1/me/loved-tracks', { artist: 'Radiohead', track: 'Reckoner' });
+
+    expect(res.status).toBe(401);
+    expect(await res.json()).toMatchObject({ reauth: true });
+  });
+});
@@ -0,0 +1,124 @@
+// ABOUTME: Tests for GET /api/v1/usage and the usage summaries behind it.
+// ABOUTME: Covers per-day and per-endpoint stats, percentile weighting, the premium-only all-keys view and the retention cutoff.
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import type { ApiUsageBucket } from '@listentomore/db';
+import { usageRoutes } from '../../api/v1/usage';
+import { rollupApiUsageLog, summarizeApiUsage } from '../../utils/api-usage';
+
+function bucket(overrides: Partial<ApiUsageBucket>): ApiUsageBucket {
+  return {
+    day: '2026-10-18',
+    api_key_id: 'key-1',
+    endpoint: '/api/v1/album',
+    method: 'GET',
+    request_count: 10,
+    error_count: 0,
+    total_response_time_ms: 1000,
+    p50_response_time_ms: 80,
+    p95_response_time_ms: 200,
+    ...overrides,
+  };
+}
+
+const buckets = [
+  bucket({}),
+  bucket({ day: '2026-10-17', request_count: 30, error_count: 3, total_response_time_ms: 3000, p50_response_time_ms: 40, p95_response_time_ms: 100 }),
+  bucket({ endpoint: '/api/v1/artist', request_count: 5, error_count: 5, total_response_time_ms: 50, p50_response_time_ms: 10, p95_response_time_ms: 10 }),
+  bucket({ api_key_id: null, endpoint: '/api/v1/artist', request_count: 2, error_count: 2, total_response_time_ms: 2, p50_response_time_ms: 1, p95_response_time_ms: 1 }),
+];
+
+const standardKey = { id: 'key-1', key_prefix: 'ltm_abc1', name: 'Discord bot', tier: 'standard', user_id: 'user-1', revoked_at: null };
+
+describe('summarizeApiUsage', () => {
+  it('groups buckets by day and endpoint with error rates', () => {
+    const summary = summarizeApiUsage(buckets.slice(0, 3));
+
+    expect(summary.totals).toMatchObject({ requests: 45, errors: 8, avgResponseTimeMs: 90 });
+    expect(summary.daily.map((d) => [d.date, d.requests])).toEqual([
+      ['2026-10-17', 30],
+      ['2026-10-18', 15],
+    ]);
+    expect(summary.endpoints[0]).toMatchObject({ endpoint: '/api/v1/album', requests: 40, errors: 3, errorRate: 0.075 });
+    expect(summary.endpoints[1]).toMatchObject({ endpoint: '/api/v1/artist', errorRate: 1 });
+  });
+
+  it('weights percentiles across buckets by request count', () => {
+    const summary = summarizeApiUsage(buckets.slice(0, 2));
+
+    // (80 * 10 + 40 * 30) / 40 and (200 * 10 + 100 * 30) / 40
+    expect(summary.totals.p50ResponseTimeMs).toBe(50);
+    expect(summary.totals.p95ResponseTimeMs).toBe(125);
+  });
+});
+
+describe('rollupApiUsageLog', () => {
+  it('rolls up whole days older than the 30-day retention window', async () => {
+    const db = { rollupApiUsage: vi.fn().mockResolvedValue(12) };
+
+    const rolled = await rollupApiUsageLog(db as never, new Date('2026-10-19T03:01:00Z'));
+
+    expect(rolled).toBe(12);
+    expect(db.rollupApiUsage).toHaveBeenCalledWith('2026-09-20');
+  });
+});
+
+describe('GET /api/v1/usage', () => {
+  let mockDb: { getApiUsageBuckets: ReturnType<typeof vi.fn>; getApiKeysByIds: ReturnType<typeof vi.fn> };
+
+  function createApp(apiKey: typeof standardKey) {
+    const app = new Hono<{ Variables: { apiKey: typeof standardKey; db: typeof mockDb } }>();
+    app.use('*', async (c, next) => {
+      c.set('apiKey', apiKey);
+      c.set('db', mockDb);
+      await next();
+    });
+    app.route('/api/v1/usage', usageRoutes);
+    return app;
+  }
+
+  beforeEach(() => {
+    mockDb = {
+      getApiUsageBuckets: vi.fn().mockResolvedValue(buckets.slice(0, 3)),
+      getApiKeysByIds: vi.fn().mockResolvedValue([standardKey]),
+    };
+  });
+
+  it("reports the calling key's own usage", async () => {
+    const res = await createApp(standardKey).request('/api/v1/usage?days=30');
+    const body = (await res.json()) as { data: { scope: string; key: { prefix: string }; period: { days: number } } };
+
+    expect(res.status).toBe(200);
+    expect(mockDb.getApiUsageBuckets).toHaveBeenCalledWith({ since: expect.any(String), apiKeyId: 'key-1' });
+    expect(body.data.scope).toBe('key');
+    expect(body.data.key.prefix).toBe('ltm_abc1');
+    expect(body.data.period.days).toBe(30);
+  });
+
+  it('rejects out-of-range days', async () => {
+    const res = await createApp(standardKey).request('/api/v1/usage?days=365');
+
+    expect(res.status).toBe(400);
+  });
+
+  it('limits the all-keys view to premium keys', async () => {
+    const res = await createApp(standardKey).request('/api/v1/usage?scope=all');
+
+    expect(res.status).toBe(403);
+    expect(mockDb.getApiUsageBuckets).not.toHaveBeenCalled();
+  });
+
+  it('breaks the all-keys view down by key for premium keys', async () => {
+    mockDb.getApiUsageBuckets.mockResolvedValue(buckets);
+    const res = await createApp({ ...standardKey, id: 'admin-key', tier: 'premium' }).request('/api/v1/usage?scope=all');
+    const body = (await res.json()) as { data: { keys: Array<{ id: string | null; name: string; requests: number }> } };
+
+    expect(mockDb.getApiUsageBuckets).toHaveBeenCalledWith({ since: expect.any(String), apiKeyId: undefined });
+    expect(mockDb.getApiKeysByIds).toHaveBeenCalledWith(['key-1']);
+    expect(body.data.keys).toEqual([
+      expect.objectContaining({ id: 'key-1', name: 'Discord bot', requests: 45 }),
+      expect.objectContaining({ id: null, name: 'Unauthenticated', requests: 2 }),
+    ]);
+  });
+});
@@ -0,0 +1,161 @@
+// ABOUTME: Tests for the Discogs collection page handler.
+// ABOUTME: Covers privacy checks, filtering, sorting and the stats header.
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { handleUserCollection } from '../../pages/user/collection';
+import { createMockKV } from '../utils/mocks';
+
+const mockUser = {
+  id: 'user-123',
+  username: 'testuser',
+  lastfm_username: 'testuser',
+  bio: null,
+  profile_visibility: 'public' as 'public' | 'private',
+};
+
+function release(overrides: Record<string, unknown>) {
+  return {
+    id: 1,
+    user_id: 'user-123',
+    instance_id: 1,
+    title: 'Untitled',
+    artist: 'Unknown',
+    year: null,
+    original_year: null,
+    format: 'Vinyl',
+    label: null,
+    genres: '["Rock"]',
+    styles: '[]',
+    master_genres: null,
+    master_styles: null,
+    image_url: null,
+    discogs_url: null,
+    date_added: '2025-01-01T00:00:00Z',
+    rating: null,
+    master_id: null,
+    master_enriched: 0,
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const releases = [
+  release({ id: 1, title: 'In Rainbows', artist: 'Radiohead', year: 2007, genres: '["Rock"]', styles: '["Art Rock"]', date_added: '2025-03-01T00:00:00Z' }),
+  release({ id: 2, title: 'Kind of Blue', artist: 'Miles Davis', year: 1997, original_year: 1959, format: 'CD', genres: '["Jazz"]', styles: '["Modal"]', date_added: '2025-02-01T00:00:00Z' }),
+  release({ id: 3, title: 'OK Computer', artist: 'Radiohead', year: 1997, genres: '["Electronic"]', master_genres: '["Rock"]', master_enriched: 1, date_added: '2025-01-01T00:00:00Z', updated_at: '2025-04-01T00:00:00Z' }),
+];
+
+function createMockDb(user = mockUser) {
+  return {
+    getUserByLastfmUsername: vi.fn().mockResolvedValue(user),
+    getUserByUsername: vi.fn().mockResolvedValue(null),
+    getAllReleases: vi.fn().mockResolvedValue(releases),
+  };
+}
+
+type TestVariables = {
+  currentUser: { id: string } | null;
+  db: ReturnType<typeof createMockDb>;
+  internalToken: string;
+};
+
+describe('User Collection Handler', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let currentUser: { id: string } | null;
+  const env = { LASTFM_API_KEY: 'test-key', CACHE: createMockKV() };
+
+  function createApp() {
+    const app = new Hono<{ Variables: TestVariables }>();
+    app.use('*', async (c, next) => {
+      c.set('currentUser', currentUser);
+      c.set('db', mockDb);
+      c.set('internalToken', 'token');
+      await next();
+    });
+    app.get('/u/:username/collection', handleUserCollection);
+    return app;
+  }
+
+  beforeEach(() => {
+    mockDb = createMockDb();
+    currentUser = null;
+  });
+
+  it('returns 404 for unknown users', async () => {
+    mockDb.getUserByLastfmUsername.mockResolvedValue(null);
+
+    const res = await createApp().request('/u/nobody/collection', {}, env);
+
+    expect(res.status).toBe(404);
+    expect(mockDb.getAllReleases).not.toHaveBeenCalled();
+  });
+
+  it('hides private collections from other users', async () => {
+    mockDb = createMockDb({ ...mockUser, profile_visibility: 'private' });
+    currentUser = { id: 'someone-else' };
+
+    const res = await createApp().request('/u/testuser/collection', {}, env);
+    const html = await res.text();
+
+    expect(html).toContain('Private Profile');
+    expect(mockDb.getAllReleases).not.toHaveBeenCalled();
+  });
+
+  it('shows private collections to their owner', async () => {
+    mockDb = createMockDb({ ...mockUser, profile_visibility: 'private' });
+    currentUser = { id: 'user-123' };
+
+    const res = await createApp().request('/u/testuser/collection', {}, env);
+    const html = await res.text();
+
+    expect(html).toContain('Only you can see your profile');
+    expect(html).toContain('In Rainbows');
+  });
+
+  it('renders the stats header from the whole collection', async () => {
+    const res = await createApp().request('/u/testuser/collection', {}, env);
+    const html = await res.text();
+
+    expect(res.status).toBe(200);
+    expect(html).toContain('3 releases');
+    expect(html).toContain('Radiohead</a> (2)');
+    expect(html).toContain('1950s: 1');
+    expect(html).toContain('Last updated 2025-04-01T00:00:00Z');
+  });
+
+  it('filters by genre using master genres when enriched', async () => {
+    const res = await createApp().request('/u/testuser/collection?genre=Rock', {}, env);
+    const html = await res.text();
+
+    expect(html).toContain('2 of 3 releases match');
+    expect(html).toContain('OK Computer');
+    expect(html).not.toContain('Kind of Blue');
+  });
+
+  it('filters by decade using the original release year', async () => {
+    const res = await createApp().request('/u/testuser/collection?decade=1950s', {}, env);
+    const html = await res.text();
+
+    expect(html).toContain('1 of 3 releases match');
+    expect(html).toContain('Kind of Blue');
+    expect(html).not.toContain('OK Computer');
+  });
+
+  it('searches artist and title text', async () => {
+    const res = await createApp().request('/u/testuser/collection?q=computer', {}, env);
+    const html = await res.text();
+
+    expect(html).toContain('1 of 3 releases match');
+    expect(html).toContain('OK Computer');
+  });
+
+  it('sorts by artist', async () => {
+    const res = await createApp().request('/u/testuser/collection?sort=artist', {}, env);
+    const html = await res.text();
+
+    expect(html.indexOf('Kind of Blue')).toBeLessThan(html.indexOf('In Rainbows'));
+    expect(html.indexOf('In Rainbows')).toBeLessThan(html.indexOf('OK Computer'));
+  });
+});
@@ -0,0 +1,261 @@
+// ABOUTME: Tests for the weekly and monthly community charts.
+// ABOUTME: Covers ranking by listeners and plays, movement between periods, the cron build and the /charts page.
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import type { CommunityChartEntry } from '@listentomore/db';
+import type { TopAlbum, TopArtist } from '@listentomore/lastfm';
+import { handleCharts } from '../../pages/charts';
+import {
+  buildCommunityChart,
+  chartPeriodFor,
+  chartRange,
+  previousChartPeriod,
+  rankCommunityChart,
+  withMovement,
+} from '../../utils/community-charts';
+import { setupFetchMock } from '../utils/mocks';
+
+function artist(name: string, playcount: number): TopArtist {
+  return { name, playcount, url: '', image: '', tags: [], bio: '' };
+}
+
+function album(artistName: string, name: string, playcount: number): TopAlbum {
+  return { artist: artistName, artistUrl: '', name, playcount, albumUrl: '', image: `${name}.jpg` };
+}
+
+function entry(overrides: Partial<CommunityChartEntry>): CommunityChartEntry {
+  return {
+    chart: 'weekly',
+    period: '2026-W42',
+    kind: 'album',
+    rank: 1,
+    name: 'In Rainbows',
+    artist: 'Radiohead',
+    listeners: 2,
+    plays: 40,
+    score: 2.5,
+    spotify_id: null,
+    image_url: null,
+    created_at: '2026-10-19 04:00:00',
+    ...overrides,
+  };
+}
+
+describe('rankCommunityChart', () => {
+  it('ranks by unique listeners before plays', () => {
+    const ranked = rankCommunityChart([
+      { artists: [artist('Radiohead', 5), artist('Burial', 500)], albums: [] },
+      { artists: [artist('radiohead', 5)], albums: [] },
+    ]);
+
+    expect(ranked.map((e) => [e.rank, e.name, e.listeners, e.plays])).toEqual([
+      [1, 'Radiohead', 2, 10],
+      [2, 'Burial', 1, 500],
+    ]);
+  });
+
+  it('breaks ties between equally shared entries by each listener’s share of plays', () => {
+    const ranked = rankCommunityChart([
+      {
+        artists: [],
+        albums: [album('Radiohead', 'In Rainbows', 10), album('Burial', 'Untrue', 30)],
+      },
+      {
+        artists: [],
+        albums: [album('Radiohead', 'In Rainbows', 90), album('Burial', 'Untrue', 10)],
+      },
+    ]);
+
+    // In Rainbows: 2 + 0.25 + 0.9; Untrue: 2 + 0.75 + 0.1
+    expect(ranked.map((e) => [e.kind, e.name, e.artist, e.score])).toEqual([
+      ['album', 'In Rainbows', 'Radiohead', 3.15],
+      ['album', 'Untrue', 'Burial', 2.85],
+    ]);
+    expect(ranked[0].image_url).toBe('In Rainbows.jpg');
+  });
+
+  it('caps each list at the chart size', () => {
+    const artists = Array.from({ length: 10 }, (_, i) => artist(`Artist ${i}`, 10 - i));
+
+    const ranked = rankCommunityChart([{ artists, albums: [] }], 3);
+
+    expect(ranked.map((e) => e.name)).toEqual(['Artist 0', 'Artist 1', 'Artist 2']);
+  });
+});
+
+describe('chart periods', () => {
+  it('keys each chart by the period that has just ended', () => {
+    const monday = new Date('2026-10-19T04:00:00Z');
+    const firstOfMonth = new Date('2026-11-01T04:00:00Z');
+
+    expect(chartPeriodFor('weekly', monday)).toBe('2026-W42');
+    expect(chartPeriodFor('monthly', firstOfMonth)).toBe('2026-10');
+  });
+
+  it('bounds each period exactly, from its first day to the first day of the next', () => {
+    expect(chartRange('weekly', '2026-W42')).toEqual({ from: 1791763200, to: 1792368000 }); // Oct 12 – Oct 19
+    expect(chartRange('weekly', '2026-W01')).toEqual({ from: 1766966400, to: 1767571200 }); // Dec 29 – Jan 5
+    expect(chartRange('monthly', '2026-10')).toEqual({ from: 1790812800, to: 1793491200 }); // Oct 1 – Nov 1
+  });
+
+  it('finds the previous period across year boundaries', () => {
+    expect(previousChartPeriod('weekly', '2026-W01')).toBe('2025-W52');
+    expect(previousChartPeriod('monthly', '2026-01')).toBe('2025-12');
+  });
+});
+
+describe('withMovement', () => {
+  it('compares ranks with the previous chart', () => {
+    const rows = withMovement(
+      [
+        entry({ rank: 1, name: 'Untrue', artist: 'Burial' }),
+        entry({ rank: 2, name: 'In Rainbows' }),
+        entry({ rank: 3, name: 'Souvlaki', artist: 'Slowdive' }),
+        entry({ rank: 1, kind: 'artist', name: 'Radiohead', artist: null }),
+      ],
+      [
+        entry({ rank: 1, name: 'In Rainbows' }),
+        entry({ rank: 3, name: 'untrue', artist: 'Burial' }),
+        entry({ rank: 1, kind: 'artist', name: 'Radiohead', artist: null }),
+      ]
+    );
+
+    expect(rows.map((r) => r.movement)).toEqual([
+      { type: 'up', by: 2 },
+      { type: 'down', by: 1 },
+      { type: 'new' },
+      { type: 'same' },
+    ]);
+  });
+
+  it('leaves movement empty when there is no previous chart', () => {
+    const rows = withMovement([entry({})], []);
+
+    expect(rows[0].movement).toBeNull();
+  });
+});
+
+describe('buildCommunityChart', () => {
+  it('aggregates public users’ charts for the period, matches entries on Spotify and stores the chart', async () => {
+    const fetchMock = setupFetchMock([
+      {
+        pattern: /method=user\.getweeklyartistchart&user=alice&/,
+        response: { weeklyartistchart: { artist: [{ name: 'Radiohead', playcount: '30', url: '' }] } },
+      },
+      {
+        pattern: /method=user\.getweeklyalbumchart&user=alice&/,
+        response: { weeklyalbumchart: { album: [{ name: 'In Rainbows', playcount: '12', url: '', artist: { '#text': 'Radiohead' } }] } },
+      },
+      { pattern: /user=broken&/, response: { error: 6, message: 'User not found' }, options: { status: 500, ok: false } },
+    ]);
+    const db = {
+      getPublicUsersWithLastfm: vi.fn().mockResolvedValue([
+        { id: 'user-1', lastfm_username: 'alice' },
+        { id: 'user-2', lastfm_username: 'broken' },
+      ]),
+      saveCommunityChart: vi.fn().mockResolvedValue(undefined),
+    };
+    const spotify = {
+      searchArtist: vi.fn().mockResolvedValue({ id: 'artist-id', name: 'Radiohead', url: '', image: 'radiohead.jpg' }),
+      searchAlbumByArtist: vi.fn().mockRejectedValue(new Error('rate limited')),
+    };
+
+    const result = await buildCommunityChart(db as never, 'test-key', spotify as never, 'weekly', new Date('2026-10-19T04:00:00Z'));
+
+    expect(result).toEqual({ period: '2026-W42', listeners: 1, entries: 2 });
+    // The ISO week itself (Oct 12 – Oct 19), not the rolling seven days before the cron ran
+    expect(fetchMock.mock.calls.some(([url]) => String(url).includes('&from=1791763200&to=1792368000'))).toBe(true);
+    expect(db.saveCommunityChart).toHaveBeenCalledWith('weekly', '2026-W42', [
+      expect.objectContaining({ kind: 'artist', name: 'Radiohead', spotify_id: 'artist-id', image_url: 'radiohead.jpg' }),
+      expect.objectContaining({ kind: 'album', name: 'In Rainbows', artist: 'Radiohead', spotify_id: null }),
+    ]);
+  });
+
+  it('keeps the stored chart when no top lists could be read', async () => {
+    const db = {
+      getPublicUsersWithLastfm: vi.fn().mockResolvedValue([]),
+      saveCommunityChart: vi.fn(),
+    };
+
+    const result = await buildCommunityChart(db as never, 'test-key', {} as never, 'monthly');
+
+    expect(result).toBeNull();
+    expect(db.saveCommunityChart).not.toHaveBeenCalled();
+  });
+});
+
+describe('/charts page', () => {
+  let charts: Record<string, CommunityChartEntry[]>;
+
+  function request(path: string) {
+    const app = new Hono();
+    app.use('*', async (c, next) => {
+      c.set(
+        'db' as never,
+        {
+          getCommunityChartPeriods: vi.fn(async (chart: string) =>
+            Object.keys(charts)
+              .filter((key) => key.startsWith(`${chart}:`))
+              .map((key) => key.split(':')[1])
+              .sort()
+              .reverse()
+          ),
+          getCommunityChart: vi.fn(async (chart: string, period: string) => charts[`${chart}:${period}`] ?? []),
+        } as never
+      );
+      await next();
+    });
+    app.get('/charts', handleCharts);
+    return app.request(path);
+  }
+
+  beforeEach(() => {
+    charts = {
+      'weekly:2026-W42': [
+        entry({ rank: 1, name: 'Untrue', artist: 'Burial', spotify_id: 'untrue-id' }),
+        entry({ rank: 2, name: 'In Rainbows' }),
+        entry({ rank: 1, kind: 'artist', name: 'Slowdive', artist: null, spotify_id: 'slowdive-id' }),
+      ],
+      'weekly:2026-W41': [entry({ rank: 1, name: 'In Rainbows', period: '2026-W41' })],
+    };
+  });
+
+  it('renders the latest chart with movement and links to album and artist pages', async () => {
+    const res = await request('/charts');
+    const html = await res.text();
+
+    expect(res.status).toBe(200);
+    expect(html).toContain('Oct 12 – Oct 18, 2026');
+    expect(html).toContain('href="/album/untrue-id"');
+    expect(html).toContain('href="/artist/slowdive-id"');
+    expect(html).toContain('/album?q=Radiohead%20In%20Rainbows');
+    expect(html).toContain('NEW');
+    expect(html).toContain('▼ 1');
+    expect(html).toContain('href="/charts?period=2026-W41"');
+  });
+
+  it('shows a past chart without movement when the period before it was not stored', async () => {
+    const res = await request('/charts?period=2026-W41');
+    const html = await res.text();
+
+    expect(res.status).toBe(200);
+    expect(html).toContain('Oct 5 – Oct 11, 2026');
+    expect(html).not.toContain('NEW');
+  });
+
+  it('redirects unknown periods to the latest chart', async () => {
+    const malformed = await request('/charts?period=not-a-week');
+    const missing = await request('/charts?chart=monthly&period=2026-09');
+
+    expect(malformed.status).toBe(302);
+    expect(malformed.headers.get('Location')).toBe('/charts');
+    expect(missing.headers.get('Location')).toBe('/charts?chart=monthly');
+  });
+
+  it('explains the chart is on its way before the first one is built', async () => {
+    const res = await request('/charts?chart=monthly');
+
+    expect(await res.text()).toContain('The first monthly chart is still being tallied');
+  });
+});
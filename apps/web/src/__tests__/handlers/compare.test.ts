@@ -0,0 +1,226 @@
+// ABOUTME: Tests for taste compatibility between two users.
+// ABOUTME: Covers the overlap score, shared and unique picks, the internal endpoints and privacy on both profiles.
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import type { TopAlbum, TopArtist } from '@listentomore/lastfm';
+import { userInternalRoutes } from '../../api/internal/user';
+import { handleUserCompare } from '../../pages/user/compare';
+import { compareTopLists } from '../../utils/taste-compatibility';
+import { createMockKV, setupFetchMock } from '../utils/mocks';
+
+function artist(name: string, playcount: number): TopArtist {
+  return { name, playcount, url: '', image: `${name}.jpg`, tags: [], bio: '' };
+}
+
+function album(artistName: string, name: string, playcount: number): TopAlbum {
+  return { artist: artistName, artistUrl: '', name, playcount, albumUrl: '', image: `${name}.jpg` };
+}
+
+function profile(id: string, username: string, visibility: 'public' | 'private' = 'public') {
+  return {
+    id,
+    username,
+    lastfm_username: username,
+    listenbrainz_username: null,
+    listening_source: 'lastfm',
+    profile_visibility: visibility,
+  };
+}
+
+// Top artist and album responses for two Last.fm users
+function setupTopListsMock() {
+  return setupFetchMock([
+    {
+      pattern: /method=user\.gettopartists&user=alice&/,
+      response: { topartists: { artist: [{ name: 'Radiohead', playcount: '30', url: '' }, { name: 'Siiga', playcount: '10', url: '' }] } },
+    },
+    {
+      pattern: /method=user\.gettopartists&user=bob&/,
+      response: { topartists: { artist: [{ name: 'Radiohead', playcount: '20', url: '' }, { name: 'Burial', playcount: '20', url: '' }] } },
+    },
+    {
+      pattern: /method=user\.gettopalbums&user=alice&/,
+      response: { topalbums: { album: [{ name: 'In Rainbows', playcount: '12', url: '', artist: { name: 'Radiohead', url: '' }, image: [] }] } },
+    },
+    {
+      pattern: /method=user\.gettopalbums&user=bob&/,
+      response: { topalbums: { album: [{ name: 'Untrue', playcount: '12', url: '', artist: { name: 'Burial', url: '' }, image: [] }] } },
+    },
+  ]);
+}
+
+describe('compareTopLists', () => {
+  it('scores identical listening as a full match', () => {
+    const lists = [{ period: '1month' as const, artists: [artist('Radiohead', 10)], albums: [album('Radiohead', 'Kid A', 5)] }];
+
+    const comparison = compareTopLists(lists, lists);
+
+    expect(comparison.score).toBe(100);
+    expect(comparison.shared.artists).toEqual([{ name: 'Radiohead' }]);
+    expect(comparison.unique.user.artists).toEqual([]);
+  });
+
+  it('weights the overlap by each side’s share of plays', () => {
+    const comparison = compareTopLists(
+      [{ period: '1month', artists: [artist('Radiohead', 75), artist('Siiga', 25)], albums: [] }],
+      [{ period: '1month', artists: [artist('radiohead', 25), artist('Burial', 75)], albums: [] }]
+    );
+
+    // sqrt(0.75 * 0.25) = 0.433; albums have no data, so the artists decide the period
+    expect(comparison.periods).toEqual([{ period: '1month', score: 43, artists: 43, albums: null }]);
+    expect(comparison.score).toBe(43);
+    expect(comparison.unique.user.artists.map((a) => a.name)).toEqual(['Siiga']);
+    expect(comparison.unique.other.artists.map((a) => a.name)).toEqual(['Burial']);
+  });
+
+  it('ignores periods either user has no plays in and picks across all periods', () => {
+    const comparison = compareTopLists(
+      [
+        { period: '1month', artists: [], albums: [] },
+        { period: 'overall', artists: [artist('Slowdive', 50)], albums: [] },
+      ],
+      [
+        { period: '1month', artists: [artist('Slowdive', 5)], albums: [] },
+        { period: 'overall', artists: [artist('Slowdive', 10), artist('Low', 10)], albums: [] },
+      ]
+    );
+
+    expect(comparison.periods.map((p) => p.score)).toEqual([null, 71]);
+    expect(comparison.score).toBe(71);
+    expect(comparison.shared.artists.map((a) => a.name)).toEqual(['Slowdive']);
+  });
+});
+
+describe('Taste comparison endpoints', () => {
+  let users: Record<string, ReturnType<typeof profile>>;
+  let currentUser: { id: string } | null;
+  let ai: { getTasteCompatibilityBlurb: ReturnType<typeof vi.fn> };
+  let cache: KVNamespace;
+
+  function request(path: string) {
+    const app = new Hono();
+    app.use('*', async (c, next) => {
+      c.set('currentUser' as never, currentUser as never);
+      c.set('isAuthenticated' as never, !!currentUser as never);
+      c.set('ai' as never, ai as never);
+      c.set(
+        'db' as never,
+        {
+          getUserByLastfmUsername: vi.fn(async (name: string) => users[name] ?? null),
+          getUserByUsername: vi.fn().mockResolvedValue(null),
+          getTopScrobbledArtists: vi.fn().mockResolvedValue([]),
+          getTopScrobbledAlbums: vi.fn().mockResolvedValue([]),
+        } as never
+      );
+      await next();
+    });
+    app.route('/', userInternalRoutes as unknown as Hono);
+    app.get('/u/:username/compare/:other', handleUserCompare);
+    return app.request(path, {}, { LASTFM_API_KEY: 'test-key', CACHE: cache });
+  }
+
+  beforeEach(() => {
+    users = { alice: profile('user-1', 'alice'), bob: profile('user-2', 'bob') };
+    currentUser = null;
+    ai = { getTasteCompatibilityBlurb: vi.fn().mockResolvedValue({ content: 'You both live in Radiohead.' }) };
+    cache = createMockKV();
+  });
+
+  it('compares both users across periods and caches the result', async () => {
+    const fetchMock = setupTopListsMock();
+
+    const res = await request('/user-compare?username=alice&other=bob');
+    const { data } = (await res.json()) as {
+      data: { score: number; periods: Array<{ period: string }>; shared: { artists: Array<{ name: string }> } };
+    };
+
+    expect(res.status).toBe(200);
+    expect(data.periods.map((p) => p.period)).toEqual(['1month', '6month', 'overall']);
+    expect(data.shared.artists.map((a) => a.name)).toEqual(['Radiohead']);
+    expect(cache.put).toHaveBeenCalledWith('taste-compare:user-1:user-2', JSON.stringify(data), { expirationTtl: 6 * 3600 });
+    // Artists are compared by name only, so no per-artist detail lookups
+    expect(fetchMock.mock.calls.some(([url]) => String(url).includes('artist.getinfo'))).toBe(false);
+  });
+
+  it('does not cache a comparison when a top list fails to load', async () => {
+    setupFetchMock([
+      {
+        pattern: /method=user\.gettopartists&user=alice&/,
+        response: { topartists: { artist: [{ name: 'Radiohead', playcount: '30', url: '' }] } },
+      },
+      {
+        pattern: /method=user\.gettopartists&user=bob&/,
+        response: { topartists: { artist: [{ name: 'Radiohead', playcount: '20', url: '' }] } },
+      },
+      { pattern: /method=user\.gettopalbums&user=alice&/, response: { topalbums: { album: [] } } },
+      { pattern: /method=user\.gettopalbums&user=bob&/, response: { message: 'Rate limit exceeded' }, options: { status: 500, ok: false } },
+    ]);
+
+    const res = await request('/user-compare?username=alice&other=bob');
+
+    expect(res.status).toBe(200);
+    expect(cache.put).not.toHaveBeenCalledWith('taste-compare:user-1:user-2', expect.anything(), expect.anything());
+  });
+
+  it('requires both profiles to pass the privacy check', async () => {
+    users.bob = profile('user-2', 'bob', 'private');
+
+    const anonymous = await request('/user-compare?username=alice&other=bob');
+    const missing = await request('/user-compare?username=alice&other=nobody');
+    const self = await request('/user-compare?username=alice&other=alice');
+
+    expect(anonymous.status).toBe(403);
+    expect(missing.status).toBe(404);
+    expect(self.status).toBe(400);
+  });
+
+  it('lets the owner of a private profile compare themselves with others', async () => {
+    setupTopListsMock();
+    users.alice = profile('user-1', 'alice', 'private');
+    currentUser = { id: 'user-1' };
+
+    const res = await request('/user-compare?username=alice&other=bob');
+
+    expect(res.status).toBe(200);
+  });
+
+  it('writes the bond-over blurb for signed-in viewers only', async () => {
+    setupTopListsMock();
+
+    const anonymous = await request('/user-compare-blurb?username=alice&other=bob');
+    currentUser = { id: 'user-9' };
+    const signedIn = await request('/user-compare-blurb?username=alice&other=bob');
+
+    expect(anonymous.status).toBe(401);
+    expect(await signedIn.json()).toEqual({ data: { content: 'You both live in Radiohead.' } });
+    expect(ai.getTasteCompatibilityBlurb).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sharedArtists: ['Radiohead'],
+        user: expect.objectContaining({ username: 'alice', uniqueArtists: ['Siiga'] }),
+        other: expect.objectContaining({ username: 'bob', uniqueAlbums: [{ name: 'Untrue', artist: 'Burial' }] }),
+      })
+    );
+  });
+
+  it('renders the compare page without waiting on the comparison', async () => {
+    const fetchMock = setupTopListsMock();
+
+    const res = await request('/u/alice/compare/bob');
+    const html = await res.text();
+
+    expect(res.status).toBe(200);
+    expect(html).toContain('Shared Favorites');
+    expect(html).toContain('All time');
+    expect(html).toContain("internalFetch('/api/internal/user-compare?' + pairQuery)");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('shows the private profile page when either profile is hidden', async () => {
+    users.bob = profile('user-2', 'bob', 'private');
+
+    const res = await request('/u/alice/compare/bob');
+
+    expect(await res.text()).toContain('Private Profile');
+  });
+});
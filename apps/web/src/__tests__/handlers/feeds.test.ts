@@ -0,0 +1,223 @@
+// ABOUTME: Tests for the Atom and JSON Feed versions of a profile's listening, likes and weekly insights.
+// ABOUTME: Covers feed rendering, ETag/Last-Modified conditional requests and private profile handling.
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { handleUserFeed, handleUserInsightsFeed, handleUserLikesFeed } from '../../pages/user/feeds';
+import { createMockKV, setupFetchMock } from '../utils/mocks';
+
+const mockUser = {
+  id: 'user-123',
+  username: 'testuser',
+  lastfm_username: 'testuser',
+  listening_source: 'lastfm',
+  profile_visibility: 'public' as 'public' | 'private',
+};
+
+const recentTracksResponse = {
+  recenttracks: {
+    track: [
+      {
+        artist: { '#text': 'Radiohead' },
+        album: { '#text': 'In Rainbows' },
+        name: 'Nude',
+        url: 'https://www.last.fm/music/Radiohead/_/Nude',
+        image: [],
+        '@attr': { nowplaying: 'true' },
+      },
+      {
+        artist: { '#text': 'Radiohead' },
+        album: { '#text': 'In Rainbows' },
+        name: 'Reckoner',
+        url: 'https://www.last.fm/music/Radiohead/_/Reckoner',
+        image: [],
+        date: { uts: '1760868000' },
+      },
+      {
+        artist: { '#text': 'Tom & Jerry' },
+        album: { '#text': '' },
+        name: '<Hey>',
+        url: 'https://www.last.fm/music/Tom+%26+Jerry/_/%3CHey%3E',
+        image: [],
+        date: { uts: '1760864400' },
+      },
+    ],
+  },
+};
+
+function createMockDb(user = mockUser) {
+  return {
+    getUserByLastfmUsername: vi.fn().mockResolvedValue(user),
+    getUserByUsername: vi.fn().mockResolvedValue(null),
+    getAllWeeklyInsights: vi.fn().mockResolvedValue([
+      {
+        user_id: 'user-123',
+        week: '2026-W42',
+        summary: null,
+        recommendations: null,
+        created_at: '2026-10-13 10:00:00',
+        updated_at: '2026-10-13 10:00:00',
+      },
+      {
+        user_id: 'user-123',
+        week: '2026-W41',
+        summary: 'Siiga took the **top spot**.',
+        recommendations: JSON.stringify([
+          { albumName: 'Lux', artistName: 'Brian Eno', reason: 'More slow light.', spotifyId: null, albumArt: null },
+        ]),
+        created_at: '2026-10-06 10:00:00',
+        updated_at: '2026-10-06 10:00:00',
+      },
+    ]),
+  };
+}
+
+describe('User feeds', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let currentUser: { id: string } | null;
+  let env: { LASTFM_API_KEY: string; CACHE: KVNamespace };
+
+  function request(path: string, headers: Record<string, string> = {}) {
+    const app = new Hono();
+    app.use('*', async (c, next) => {
+      c.set('db' as never, mockDb as never);
+      c.set('currentUser' as never, currentUser as never);
+      await next();
+    });
+    app.get('/u/:username/feed.xml', handleUserFeed);
+    app.get('/u/:username/feed.json', handleUserFeed);
+    app.get('/u/:username/likes/feed.xml', handleUserLikesFeed);
+    app.get('/u/:username/insights/feed.xml', handleUserInsightsFeed);
+    app.get('/u/:username/insights/feed.json', handleUserInsightsFeed);
+    app.get('/u/:username/insights/:week', (c) => c.text('week page'));
+    return app.request(path, { headers }, env);
+  }
+
+  beforeEach(() => {
+    mockDb = createMockDb();
+    currentUser = null;
+    env = { LASTFM_API_KEY: 'test-key', CACHE: createMockKV() };
+  });
+
+  it('renders recent plays as an Atom feed, skipping the now-playing track', async () => {
+    setupFetchMock([{ pattern: /user\.getrecenttracks/, response: recentTracksResponse }]);
+
+    const res = await request('/u/testuser/feed.xml');
+    const xml = await res.text();
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toBe('application/atom+xml; charset=utf-8');
+    expect(res.headers.get('ETag')).toMatch(/^"[0-9a-f]{16}"$/);
+    expect(res.headers.get('Last-Modified')).toBe(new Date(1760868000 * 1000).toUTCString());
+    expect(xml).toContain('<link rel="self" type="application/atom+xml" href="https://listentomore.com/u/testuser/feed.xml"/>');
+    expect(xml).toContain('<title>Radiohead – Reckoner</title>');
+    expect(xml).toContain('<title>Tom &amp; Jerry – &lt;Hey&gt;</title>');
+    expect(xml).not.toContain('Nude');
+    expect(xml.match(/<entry>/g)).toHaveLength(2);
+  });
+
+  it('renders the same plays as JSON Feed 1.1', async () => {
+    setupFetchMock([{ pattern: /user\.getrecenttracks/, response: recentTracksResponse }]);
+
+    const res = await request('/u/testuser/feed.json');
+    const feed = (await res.json()) as { version: string; feed_url: string; items: Array<Record<string, string>> };
+
+    expect(res.headers.get('Content-Type')).toBe('application/feed+json; charset=utf-8');
+    expect(feed.version).toBe('https://jsonfeed.org/version/1.1');
+    expect(feed.feed_url).toBe('https://listentomore.com/u/testuser/feed.json');
+    expect(feed.items[0]).toMatchObject({
+      title: 'Radiohead – Reckoner',
+      url: 'https://www.last.fm/music/Radiohead/_/Reckoner',
+      date_published: '2025-10-19T10:00:00.000Z',
+    });
+  });
+
+  it('answers conditional requests with 304 Not Modified', async () => {
+    setupFetchMock([{ pattern: /user\.getrecenttracks/, response: recentTracksResponse }]);
+
+    const first = await request('/u/testuser/feed.xml');
+    const etag = first.headers.get('ETag')!;
+    const lastModified = first.headers.get('Last-Modified')!;
+
+    const byEtag = await request('/u/testuser/feed.xml', { 'If-None-Match': etag });
+    const byDate = await request('/u/testuser/feed.xml', { 'If-Modified-Since': lastModified });
+    const stale = await request('/u/testuser/feed.xml', { 'If-None-Match': '"0000000000000000"' });
+
+    expect(byEtag.status).toBe(304);
+    expect(byEtag.headers.get('ETag')).toBe(etag);
+    expect(await byEtag.text()).toBe('');
+    expect(byDate.status).toBe(304);
+    expect(stale.status).toBe(200);
+  });
+
+  it('builds the likes feed from loved tracks', async () => {
+    setupFetchMock([
+      {
+        pattern: /user\.getlovedtracks/,
+        response: {
+          lovedtracks: {
+            track: [
+              {
+                name: 'Reckoner',
+                artist: { name: 'Radiohead' },
+                date: { uts: '1760868000' },
+                image: [],
+                url: 'https://www.last.fm/music/Radiohead/_/Reckoner',
+              },
+            ],
+          },
+        },
+      },
+    ]);
+
+    const res = await request('/u/testuser/likes/feed.xml');
+    const xml = await res.text();
+
+    expect(res.status).toBe(200);
+    expect(xml).toContain('<title>testuser&apos;s likes</title>');
+    expect(xml).toContain('<content type="text">testuser loved Reckoner by Radiohead.</content>');
+    expect(xml).toContain('<updated>2025-10-19T10:00:00.000Z</updated>');
+  });
+
+  it('builds the insights feed from archived weekly summaries', async () => {
+    const res = await request('/u/testuser/insights/feed.json');
+    const feed = (await res.json()) as { items: Array<Record<string, string>> };
+
+    expect(res.status).toBe(200);
+    expect(feed.items).toHaveLength(1);
+    expect(feed.items[0]).toMatchObject({
+      id: 'https://listentomore.com/u/testuser/insights/2026-W41',
+      date_published: '2026-10-06T10:00:00.000Z',
+    });
+    expect(feed.items[0].content_text).toBe(
+      'Siiga took the **top spot**.\n\nAlbums to try:\n- Lux by Brian Eno: More slow light.'
+    );
+    expect(res.headers.get('Last-Modified')).toBe('Tue, 06 Oct 2026 10:00:00 GMT');
+  });
+
+  it('does not treat feed.xml as an insights week', async () => {
+    const res = await request('/u/testuser/insights/feed.xml');
+
+    expect(res.headers.get('Content-Type')).toBe('application/atom+xml; charset=utf-8');
+  });
+
+  it('hides private profiles from everyone but the owner', async () => {
+    mockDb = createMockDb({ ...mockUser, profile_visibility: 'private' });
+
+    const anonymous = await request('/u/testuser/insights/feed.xml');
+    currentUser = { id: 'user-123' };
+    const owner = await request('/u/testuser/insights/feed.xml');
+
+    expect(anonymous.status).toBe(403);
+    expect(owner.status).toBe(200);
+    expect(owner.headers.get('Cache-Control')).toBe('private, max-age=300');
+  });
+
+  it('returns 404 for unknown users', async () => {
+    mockDb.getUserByLastfmUsername.mockResolvedValue(null);
+
+    const res = await request('/u/nobody/feed.xml');
+
+    expect(res.status).toBe(404);
+  });
+});
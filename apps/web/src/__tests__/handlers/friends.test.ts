@@ -0,0 +1,146 @@
+// ABOUTME: Tests for the profile Friends tab backed by Last.fm user.getFriends.
+// ABOUTME: Covers ordering by recent activity, highlighting ListenToMore members, batching and privacy.
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { userInternalRoutes } from '../../api/internal/user';
+import { getFriendsActivity } from '../../utils/friends-activity';
+import { createMockKV, setupFetchMock } from '../utils/mocks';
+
+const mockUser = {
+  id: 'user-123',
+  username: 'testuser',
+  lastfm_username: 'testuser',
+  listenbrainz_username: null,
+  listening_source: 'lastfm',
+  profile_visibility: 'public' as 'public' | 'private',
+};
+
+function recentTrack(name: string, attrs: { uts?: string; nowPlaying?: boolean }) {
+  return {
+    recenttracks: {
+      track: [
+        {
+          artist: { '#text': 'Radiohead' },
+          album: { '#text': 'In Rainbows' },
+          name,
+          url: `https://www.last.fm/music/Radiohead/_/${name}`,
+          image: [],
+          ...(attrs.uts && { date: { uts: attrs.uts } }),
+          ...(attrs.nowPlaying && { '@attr': { nowplaying: 'true' } }),
+        },
+      ],
+    },
+  };
+}
+
+function friend(username: string) {
+  return { username, realname: '', url: `https://www.last.fm/user/${username}`, image: null };
+}
+
+describe('Internal user friends', () => {
+  let members: Record<string, unknown>;
+  let mockDb: { getUserByLastfmUsername: ReturnType<typeof vi.fn>; getUserByUsername: ReturnType<typeof vi.fn> };
+  let currentUser: { id: string } | null;
+  let cache: KVNamespace;
+
+  function request(path: string) {
+    const app = new Hono();
+    app.use('*', async (c, next) => {
+      c.set('currentUser' as never, currentUser as never);
+      c.set('db' as never, mockDb as never);
+      await next();
+    });
+    app.route('/', userInternalRoutes as unknown as Hono);
+    return app.request(path, {}, { LASTFM_API_KEY: 'test-key', CACHE: cache });
+  }
+
+  beforeEach(() => {
+    members = { testuser: mockUser };
+    mockDb = {
+      getUserByLastfmUsername: vi.fn(async (name: string) => members[name] ?? null),
+      getUserByUsername: vi.fn().mockResolvedValue(null),
+    };
+    currentUser = null;
+    cache = createMockKV();
+  });
+
+  it('lists friends by recent activity and highlights public members', async () => {
+    members.siiga = { id: 'user-2', username: 'siiga', lastfm_username: 'siiga', profile_visibility: 'public' };
+    members.hidden = { id: 'user-3', username: 'hidden', lastfm_username: 'hidden', profile_visibility: 'private' };
+    setupFetchMock([
+      {
+        pattern: /method=user\.getfriends/,
+        response: {
+          friends: {
+            user: [
+              { name: 'hidden', url: 'https://www.last.fm/user/hidden', image: [] },
+              { name: 'siiga', url: 'https://www.last.fm/user/siiga', image: [] },
+              { name: 'live', url: 'https://www.last.fm/user/live', image: [] },
+              { name: 'gone', url: 'https://www.last.fm/user/gone', image: [] },
+            ],
+          },
+        },
+      },
+      { pattern: /getrecenttracks&user=hidden&/, response: recentTrack('Nude', { uts: '1760860000' }) },
+      { pattern: /getrecenttracks&user=siiga&/, response: recentTrack('Reckoner', { uts: '1760868000' }) },
+      { pattern: /getrecenttracks&user=live&/, response: recentTrack('Videotape', { nowPlaying: true }) },
+    ]);
+
+    const res = await request('/user-friends?username=testuser');
+    const { data } = (await res.json()) as {
+      data: Array<{ username: string; profilePath: string | null; track: { name: string } | null }>;
+    };
+
+    expect(res.status).toBe(200);
+    expect(data.map((f) => [f.username, f.track?.name ?? null, f.profilePath])).toEqual([
+      ['live', 'Videotape', null],
+      ['siiga', 'Reckoner', '/u/siiga'],
+      ['hidden', 'Nude', null],
+      ['gone', null, null],
+    ]);
+    expect(cache.put).toHaveBeenCalledWith('friends-activity:user-123', JSON.stringify(data), { expirationTtl: 300 });
+  });
+
+  it('hides friends of private profiles from other viewers', async () => {
+    members.testuser = { ...mockUser, profile_visibility: 'private' };
+
+    const res = await request('/user-friends?username=testuser');
+
+    expect(res.status).toBe(403);
+  });
+
+  it('returns 500 when the friends list fails to load', async () => {
+    setupFetchMock([{ pattern: /method=user\.getfriends/, response: { error: 6, message: 'User not found' } }]);
+
+    const res = await request('/user-friends?username=testuser');
+
+    expect(res.status).toBe(500);
+  });
+});
+
+describe('getFriendsActivity', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('fetches friends in batches of four with a pause in between', async () => {
+    const mockFetch = setupFetchMock([{ pattern: /getrecenttracks/, response: recentTrack('Reckoner', { uts: '1760868000' }) }]);
+    const db = { getUserByLastfmUsername: vi.fn().mockResolvedValue(null) };
+    const friends = ['a', 'b', 'c', 'd', 'e'].map(friend);
+
+    const pending = getFriendsActivity(db as never, 'test-key', friends);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(mockFetch).toHaveBeenCalledTimes(4);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    const activity = await pending;
+
+    expect(mockFetch).toHaveBeenCalledTimes(5);
+    expect(activity).toHaveLength(5);
+  });
+});
@@ -0,0 +1,304 @@
+// ABOUTME: Tests for the insights page period selection, custom range parsing and weekly archive.
+// ABOUTME: Covers period headings, invalid period/week redirects, archived week permalinks, archive writes and ISO weeks.
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { insightsInternalRoutes } from '../../api/internal/insights';
+import { handleUserInsights, handleUserInsightsWeek } from '../../pages/user/insights';
+import { parseInsightsPeriod } from '../../utils/insights-period';
+import { getIsoWeek, parseIsoWeek } from '../../utils/iso-week';
+import { createMockKV, setupFetchMock } from '../utils/mocks';
+
+const mockUser = {
+  id: 'user-123',
+  username: 'testuser',
+  lastfm_username: 'testuser',
+  bio: null,
+  profile_visibility: 'public' as 'public' | 'private',
+};
+
+function createMockDb(user = mockUser) {
+  return {
+    getUserByLastfmUsername: vi.fn().mockResolvedValue(user),
+    getUserByUsername: vi.fn().mockResolvedValue(null),
+    getWeeklyInsightsHistory: vi.fn().mockResolvedValue([{ week: '2026-W41', updated_at: '2026-10-06 10:00:00' }]),
+    getWeeklyInsights: vi.fn().mockResolvedValue({
+      user_id: 'user-123',
+      week: '2026-W41',
+      summary: 'Siiga took the **top spot**.',
+      recommendations: JSON.stringify([
+        {
+          albumName: 'Lux',
+          artistName: 'Brian Eno',
+          reason: 'More slow light.',
+          spotifyId: 'abc123',
+          albumArt: null,
+          artistSpotifyId: null,
+        },
+      ]),
+      created_at: '2026-10-06 10:00:00',
+      updated_at: '2026-10-06 10:00:00',
+    }),
+  };
+}
+
+type TestVariables = {
+  currentUser: { id: string } | null;
+  db: ReturnType<typeof createMockDb>;
+  internalToken: string;
+};
+
+describe('User Insights Handler', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let env: { LASTFM_API_KEY: string; CACHE: KVNamespace };
+
+  function createApp() {
+    const app = new Hono<{ Variables: TestVariables }>();
+    app.use('*', async (c, next) => {
+      c.set('currentUser', { id: 'user-123' });
+      c.set('db', mockDb);
+      c.set('internalToken', 'token');
+      await next();
+    });
+    app.get('/u/:username/insights', handleUserInsights);
+    return app;
+  }
+
+  beforeEach(() => {
+    mockDb = createMockDb();
+    env = { LASTFM_API_KEY: 'test-key', CACHE: createMockKV() };
+    setupFetchMock([{ pattern: /user\.getinfo/, response: { user: { name: 'testuser', image: [], registered: { unixtime: '0' } } } }]);
+  });
+
+  it('defaults to the weekly view', async () => {
+    const html = await (await createApp().request('/u/testuser/insights', {}, env)).text();
+
+    expect(html).toContain('Your Week in Music');
+    expect(html).toContain('var periodParams = ""');
+  });
+
+  it('passes the selected preset period to the insights endpoints', async () => {
+    const html = await (await createApp().request('/u/testuser/insights?period=1month', {}, env)).text();
+
+    expect(html).toContain('Your Month in Music');
+    expect(html).toContain('var periodParams = "&period=1month"');
+  });
+
+  it('renders custom ranges with the date picker filled in', async () => {
+    const res = await createApp().request('/u/testuser/insights?period=custom&from=2024-01-01&to=2024-02-15', {}, env);
+    const html = await res.text();
+
+    expect(res.status).toBe(200);
+    expect(html).toContain('Jan 1, 2024 to Feb 15, 2024');
+    expect(html).toContain('value="2024-01-01"');
+    expect(html).toContain('var periodParams = "&period=custom&from=2024-01-01&to=2024-02-15"');
+  });
+
+  it('redirects invalid periods to the weekly view', async () => {
+    const res = await createApp().request('/u/testuser/insights?period=custom&from=2024-02-15&to=2024-01-01', {}, env);
+
+    expect(res.status).toBe(302);
+    expect(res.headers.get('Location')).toBe('/u/testuser/insights');
+  });
+});
+
+describe('Archived weekly insights', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let currentUser: { id: string } | null;
+  let env: { LASTFM_API_KEY: string; CACHE: KVNamespace };
+
+  function createApp() {
+    const app = new Hono<{ Variables: TestVariables }>();
+    app.use('*', async (c, next) => {
+      c.set('currentUser', currentUser);
+      c.set('db', mockDb);
+      c.set('internalToken', 'token');
+      await next();
+    });
+    app.get('/u/:username/insights', handleUserInsights);
+    app.get('/u/:username/insights/:week', handleUserInsightsWeek);
+    return app;
+  }
+
+  beforeEach(() => {
+    mockDb = createMockDb();
+    currentUser = null;
+    env = { LASTFM_API_KEY: 'test-key', CACHE: createMockKV() };
+    setupFetchMock([{ pattern: /user\.getinfo/, response: { user: { name: 'testuser', image: [], registered: { unixtime: '0' } } } }]);
+  });
+
+  it('lists archived weeks on the insights page', async () => {
+    const html = await (await createApp().request('/u/testuser/insights', {}, env)).text();
+
+    expect(html).toContain('Insights History');
+    expect(html).toContain('href="/u/testuser/insights/2026-W41"');
+    expect(html).toContain('Oct 5 – Oct 11, 2026');
+  });
+
+  it('renders the archived summary and recommendations for a week', async () => {
+    const res = await createApp().request('/u/testuser/insights/2026-W41', {}, env);
+    const html = await res.text();
+
+    expect(res.status).toBe(200);
+    expect(html).toContain('Siiga took the **top spot**.');
+    expect(html).toContain('Lux');
+    expect(html).toContain('href="/album/abc123"');
+    expect(mockDb.getWeeklyInsights).toHaveBeenCalledWith('user-123', '2026-W41');
+  });
+
+  it('returns 404 for weeks without an archived summary', async () => {
+    mockDb.getWeeklyInsights.mockResolvedValue(null);
+
+    const res = await createApp().request('/u/testuser/insights/2026-W30', {}, env);
+
+    expect(res.status).toBe(404);
+    expect(await res.text()).toContain('No insights were saved for this week.');
+  });
+
+  it('redirects malformed weeks to the insights page', async () => {
+    const res = await createApp().request('/u/testuser/insights/2026-W60', {}, env);
+
+    expect(res.status).toBe(302);
+    expect(res.headers.get('Location')).toBe('/u/testuser/insights');
+  });
+
+  it('hides private profiles from other users', async () => {
+    mockDb = createMockDb({ ...mockUser, profile_visibility: 'private' });
+    currentUser = { id: 'someone-else' };
+
+    const html = await (await createApp().request('/u/testuser/insights/2026-W41', {}, env)).text();
+
+    expect(html).toContain('Private Profile');
+    expect(mockDb.getWeeklyInsights).not.toHaveBeenCalled();
+  });
+});
+
+describe('Weekly insights summary archive', () => {
+  let mockDb: ReturnType<typeof createMockDb> & {
+    getTopScrobbledArtists: ReturnType<typeof vi.fn>;
+    getTopScrobbledAlbums: ReturnType<typeof vi.fn>;
+    saveWeeklyInsightsSummary: ReturnType<typeof vi.fn>;
+    getWebhooksForEvent: ReturnType<typeof vi.fn>;
+  };
+  let getUserInsightsSummary: ReturnType<typeof vi.fn>;
+  let pending: Promise<unknown>[];
+
+  async function requestSummary() {
+    const app = new Hono();
+    app.use('*', async (c, next) => {
+      c.set('isAuthenticated' as never, true as never);
+      c.set('currentUser' as never, { id: 'user-123' } as never);
+      c.set('db' as never, mockDb as never);
+      c.set('ai' as never, { getUserInsightsSummary } as never);
+      await next();
+    });
+    app.route('/', insightsInternalRoutes as unknown as Hono);
+    const executionCtx = { waitUntil: (promise: Promise<unknown>) => pending.push(promise), passThroughOnException() {} };
+    const res = await app.request(
+      '/user-insights-summary?username=testuser',
+      {},
+      { LASTFM_API_KEY: 'test-key', CACHE: createMockKV() },
+      executionCtx as unknown as ExecutionContext
+    );
+    await Promise.all(pending);
+    return res;
+  }
+
+  beforeEach(() => {
+    // Monday of 2026-W43
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+    mockDb = {
+      ...createMockDb(),
+      getTopScrobbledArtists: vi.fn().mockResolvedValue([]),
+      getTopScrobbledAlbums: vi.fn().mockResolvedValue([]),
+      saveWeeklyInsightsSummary: vi.fn().mockResolvedValue(true),
+      getWebhooksForEvent: vi.fn().mockResolvedValue([]),
+    };
+    getUserInsightsSummary = vi.fn().mockResolvedValue({
+      content: 'Siiga took the top spot.',
+      generatedAt: '2026-10-19T08:00:00.000Z',
+    });
+    pending = [];
+    setupFetchMock([
+      {
+        pattern: /method=user\.gettopartists/,
+        response: { topartists: { artist: [{ name: 'Siiga', playcount: '12', url: '' }] } },
+      },
+      { pattern: /method=user\.gettopalbums/, response: { topalbums: { album: [] } } },
+      { pattern: /method=user\.getrecenttracks/, response: { recenttracks: { track: [] } } },
+    ]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('notifies webhook subscribers only when the write stored the week’s first summary', async () => {
+    expect((await requestSummary()).status).toBe(200);
+    expect(mockDb.saveWeeklyInsightsSummary).toHaveBeenCalledWith('user-123', '2026-W43', 'Siiga took the top spot.');
+    expect(mockDb.getWebhooksForEvent).toHaveBeenCalledTimes(1);
+    expect(mockDb.getWebhooksForEvent).toHaveBeenCalledWith('user-123', 'insights.weekly');
+
+    mockDb.saveWeeklyInsightsSummary.mockResolvedValue(false);
+    await requestSummary();
+
+    expect(mockDb.saveWeeklyInsightsSummary).toHaveBeenCalledTimes(2);
+    expect(mockDb.getWebhooksForEvent).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not archive a cached summary generated before the week started', async () => {
+    getUserInsightsSummary.mockResolvedValue({ content: 'Last week’s summary.', generatedAt: '2026-10-18T20:00:00.000Z' });
+
+    const res = await requestSummary();
+
+    expect(res.status).toBe(200);
+    expect(((await res.json()) as { data: { content: string } }).data.content).toBe('Last week’s summary.');
+    expect(mockDb.saveWeeklyInsightsSummary).not.toHaveBeenCalled();
+    expect(mockDb.getWebhooksForEvent).not.toHaveBeenCalled();
+  });
+});
+
+describe('ISO weeks', () => {
+  it('assigns dates around new year to the right ISO year', () => {
+    expect(getIsoWeek(new Date('2026-10-12T08:00:00Z'))).toBe('2026-W42');
+    expect(getIsoWeek(new Date('2021-01-03T12:00:00Z'))).toBe('2020-W53');
+    expect(getIsoWeek(new Date('2024-12-30T12:00:00Z'))).toBe('2025-W01');
+  });
+
+  it('parses weeks into Monday to Sunday and rejects weeks the year lacks', () => {
+    expect(parseIsoWeek('2026-W41')).toEqual({
+      start: new Date('2026-10-05T00:00:00Z'),
+      end: new Date('2026-10-11T00:00:00Z'),
+    });
+    expect(parseIsoWeek('2020-W53')).not.toBeNull();
+    expect(parseIsoWeek('2021-W53')).toBeNull();
+    expect(parseIsoWeek('2026-41')).toBeNull();
+  });
+});
+
+describe('parseInsightsPeriod', () => {
+  const now = new Date('2026-06-01T12:00:00Z');
+
+  it('maps presets onto Last.fm periods', () => {
+    const period = parseInsightsPeriod({ period: '3month' }, now);
+    expect(period).toMatchObject({ key: '3month', source: 'lastfm', lastfmPeriod: '3month' });
+  });
+
+  it('turns inclusive custom dates into an exclusive ISO range', () => {
+    const period = parseInsightsPeriod({ period: 'custom', from: '2026-01-01', to: '2026-01-31' }, now);
+    expect(period).toMatchObject({
+      key: '2026-01-01_2026-01-31',
+      source: 'archive',
+      from: '2026-01-01T00:00:00.000Z',
+      to: '2026-02-01T00:00:00.000Z',
+    });
+  });
+
+  it('rejects impossible, future and over-long ranges', () => {
+    expect(parseInsightsPeriod({ period: 'custom', from: '2026-02-31', to: '2026-03-01' }, now)).toHaveProperty('error');
+    expect(parseInsightsPeriod({ period: 'custom', from: '2026-05-01', to: '2026-07-01' }, now)).toHaveProperty('error');
+    expect(parseInsightsPeriod({ period: 'custom', from: '2024-01-01', to: '2025-06-01' }, now)).toHaveProperty('error');
+    expect(parseInsightsPeriod({ period: 'yearly' }, now)).toHaveProperty('error');
+  });
+});
@@ -0,0 +1,131 @@
+// ABOUTME: Tests for ListenBrainz as an alternate listening source.
+// ABOUTME: Covers linking via token on /account, choosing the source, and provider selection in the internal API.
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { handleAccountListenBrainzConnect, handleAccountListeningSource } from '../../pages/account';
+import { userInternalRoutes } from '../../api/internal/user';
+import { getListeningSource } from '../../utils/listening-provider';
+import { createMockKV, setupFetchMock } from '../utils/mocks';
+
+const mockUser = {
+  id: 'user-123',
+  username: 'testuser',
+  lastfm_username: 'testuser',
+  listenbrainz_username: null as string | null,
+  listening_source: 'lastfm' as 'lastfm' | 'listenbrainz',
+  profile_visibility: 'public' as const,
+};
+
+function createMockDb(user = mockUser) {
+  return {
+    updateUser: vi.fn().mockResolvedValue(undefined),
+    getUserByLastfmUsername: vi.fn().mockResolvedValue(user),
+    getUserByUsername: vi.fn().mockResolvedValue(null),
+  };
+}
+
+type TestVariables = {
+  currentUser: typeof mockUser | null;
+  db: ReturnType<typeof createMockDb>;
+};
+
+function form(fields: Record<string, string>) {
+  const body = new FormData();
+  for (const [key, value] of Object.entries(fields)) body.append(key, value);
+  return { method: 'POST', body };
+}
+
+describe('getListeningSource', () => {
+  it('uses ListenBrainz only when chosen and linked', () => {
+    expect(getListeningSource({ ...mockUser, listenbrainz_username: 'lb', listening_source: 'listenbrainz' })).toEqual({
+      source: 'listenbrainz',
+      username: 'lb',
+    });
+    expect(getListeningSource({ ...mockUser, listenbrainz_username: 'lb' })).toEqual({ source: 'lastfm', username: 'testuser' });
+    expect(getListeningSource({ ...mockUser, listening_source: 'listenbrainz' })).toEqual({ source: 'lastfm', username: 'testuser' });
+  });
+});
+
+describe('Account ListenBrainz handlers', () => {
+  let currentUser: typeof mockUser;
+  let mockDb: ReturnType<typeof createMockDb>;
+
+  function createApp() {
+    const app = new Hono<{ Variables: TestVariables }>();
+    app.use('*', async (c, next) => {
+      c.set('currentUser', currentUser);
+      c.set('db', mockDb);
+      await next();
+    });
+    app.post('/account/listenbrainz', handleAccountListenBrainzConnect);
+    app.post('/account/listening-source', handleAccountListeningSource);
+    return app;
+  }
+
+  beforeEach(() => {
+    currentUser = { ...mockUser };
+    mockDb = createMockDb();
+  });
+
+  it('links the account the token belongs to', async () => {
+    const mockFetch = setupFetchMock([
+      { pattern: /validate-token/, response: { code: 200, valid: true, user_name: 'lb-user' } },
+    ]);
+
+    const res = await createApp().request('/account/listenbrainz', form({ token: 'abc-123' }));
+
+    expect(res.status).toBe(302);
+    expect(res.headers.get('Location')).toBe('/account');
+    expect(mockDb.updateUser).toHaveBeenCalledWith('user-123', { listenbrainz_username: 'lb-user' });
+    expect((mockFetch.mock.calls[0][1]?.headers as Record<string, string>).Authorization).toBe('Token abc-123');
+  });
+
+  it('rejects tokens ListenBrainz does not accept', async () => {
+    setupFetchMock([{ pattern: /validate-token/, response: { code: 200, valid: false } }]);
+
+    const res = await createApp().request('/account/listenbrainz', form({ token: 'nope' }));
+
+    expect(res.headers.get('Location')).toBe('/account?listenbrainz=invalid');
+    expect(mockDb.updateUser).not.toHaveBeenCalled();
+  });
+
+  it('only switches to ListenBrainz once an account is linked', async () => {
+    await createApp().request('/account/listening-source', form({ listening_source: 'listenbrainz' }));
+    expect(mockDb.updateUser).not.toHaveBeenCalled();
+
+    currentUser = { ...mockUser, listenbrainz_username: 'lb-user' };
+    await createApp().request('/account/listening-source', form({ listening_source: 'listenbrainz' }));
+    expect(mockDb.updateUser).toHaveBeenCalledWith('user-123', { listening_source: 'listenbrainz' });
+  });
+});
+
+describe('Internal user API with ListenBrainz', () => {
+  it('reads top artists from ListenBrainz stats when it is the listening source', async () => {
+    const user = { ...mockUser, listenbrainz_username: 'lb-user', listening_source: 'listenbrainz' as const };
+    const mockDb = createMockDb(user);
+    const app = new Hono<{ Variables: TestVariables }>();
+    app.use('*', async (c, next) => {
+      c.set('currentUser', null);
+      c.set('db', mockDb);
+      await next();
+    });
+    app.route('/', userInternalRoutes as unknown as Hono<{ Variables: TestVariables }>);
+    const mockFetch = setupFetchMock([
+      {
+        pattern: /api\.listenbrainz\.org\/1\/stats\/user\/lb-user\/artists\?range=month/,
+        response: { payload: { artists: [{ artist_name: 'Siiga', artist_mbid: 'mbid-1', listen_count: 42 }] } },
+      },
+    ]);
+
+    const res = await app.request(
+      '/user-top-artists?username=testuser&period=1month',
+      {},
+      { LASTFM_API_KEY: 'test-key', CACHE: createMockKV() }
+    );
+    const data = (await res.json()) as { data: Array<{ name: string; playcount: number }> };
+
+    expect(data.data).toEqual([expect.objectContaining({ name: 'Siiga', playcount: 42 })]);
+    expect(mockFetch.mock.calls.every(([url]) => !String(url).includes('audioscrobbler'))).toBe(true);
+  });
+});
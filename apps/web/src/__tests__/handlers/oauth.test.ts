@@ -0,0 +1,391 @@
+// ABOUTME: Tests for the OAuth 2.0 authorization server (authorization code + PKCE).
+// ABOUTME: Covers client registration, the consent page, code and refresh token exchange, and bearer tokens in authMiddleware.
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+import type { ApiKeyScope } from '@listentomore/db';
+import { handleOAuthAuthorize, handleOAuthAuthorizeDecision } from '../../pages/oauth/authorize';
+import { handleOAuthRegister, handleOAuthRevoke, handleOAuthToken } from '../../pages/oauth/token';
+import { authMiddleware } from '../../middleware/auth';
+import { generateCsrfToken } from '../../utils/csrf';
+
+const SECRET = 'test-secret';
+const REDIRECT_URI = 'https://mcp.example.com/callback';
+const VERIFIER = 'dBjftJeZ4CVP-mJ92K27uhbUJU1p1r_wW1gFWFOEjXk-verifier';
+
+const mockUser = {
+  id: 'user-123',
+  username: 'testuser',
+  lastfm_username: 'testuser',
+  display_name: 'Test User',
+  profile_visibility: 'public' as const,
+};
+
+async function challengeFor(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return btoa(String.fromCharCode(...new Uint8Array(digest)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+// In-memory stand-in for the OAuth parts of Database
+function createFakeDb() {
+  const clients = new Map<string, { id: string; name: string; redirect_uris: string[]; client_secret_hash: string | null }>();
+  const apiKeys = new Map<string, { id: string; user_id: string; oauth_client_id: string; tier: string; scopes: ApiKeyScope[]; revoked_at: string | null; rate_limit_rpm: null }>();
+  const codes = new Map<string, Record<string, string>>();
+  const tokens: Array<Record<string, string>> = [];
+  let nextId = 1;
+
+  return {
+    clients,
+    apiKeys,
+    tokens,
+    async createOAuthClient(data: { name: string; redirectUris: string[]; clientSecretHash?: string }) {
+      const client = { id: `client-${nextId++}`, name: data.name, redirect_uris: data.redirectUris, client_secret_hash: data.clientSecretHash ?? null };
+      clients.set(client.id, client);
+      return client;
+    },
+    async getOAuthClient(id: string) {
+      return clients.get(id) ?? null;
+    },
+    async getOAuthApiKey(userId: string, clientId: string) {
+      return [...apiKeys.values()].find((k) => k.user_id === userId && k.oauth_client_id === clientId && !k.revoked_at) ?? null;
+    },
+    async updateApiKeyScopes(id: string, scopes: ApiKeyScope[]) {
+      apiKeys.get(id)!.scopes = scopes;
+    },
+    async createApiKey(data: { userId: string; tier: string; scopes: ApiKeyScope[]; oauthClientId: string }) {
+      const record = { id: `key-${nextId++}`, user_id: data.userId, oauth_client_id: data.oauthClientId, tier: data.tier, scopes: data.scopes, revoked_at: null, rate_limit_rpm: null };
+      apiKeys.set(record.id, record);
+      return { key: 'ltm_unused', record };
+    },
+    async getApiKey(id: string) {
+      return apiKeys.get(id) ?? null;
+    },
+    async createOAuthCode(data: Record<string, unknown>) {
+      codes.set(data.codeHash as string, {
+        client_id: data.clientId as string,
+        api_key_id: data.apiKeyId as string,
+        redirect_uri: data.redirectUri as string,
+        scopes: JSON.stringify(data.scopes),
+        code_challenge: data.codeChallenge as string,
+        expires_at: data.expiresAt as string,
+      });
+    },
+    async consumeOAuthCode(codeHash: string, clientId: string) {
+      const code = codes.get(codeHash);
+      if (!code || code.client_id !== clientId) return null;
+      codes.delete(codeHash);
+      return code;
+    },
+    async createOAuthTokens(data: Record<string, unknown>) {
+      tokens.push({
+        client_id: data.clientId as string,
+        api_key_id: data.apiKeyId as string,
+        access_token_hash: data.accessTokenHash as string,
+        refresh_token_hash: data.refreshTokenHash as string,
+        scopes: JSON.stringify(data.scopes),
+        access_expires_at: data.accessExpiresAt as string,
+        refresh_expires_at: data.refreshExpiresAt as string,
+      });
+    },
+    async consumeOAuthRefreshToken(hash: string, clientId: string) {
+      const index = tokens.findIndex((t) => t.refresh_token_hash === hash && t.client_id === clientId);
+      return index === -1 ? null : tokens.splice(index, 1)[0];
+    },
+    async revokeOAuthToken(hash: string, clientId: string) {
+      const index = tokens.findIndex((t) => (t.access_token_hash === hash || t.refresh_token_hash === hash) && t.client_id === clientId);
+      if (index !== -1) tokens.splice(index, 1);
+    },
+    async validateOAuthAccessToken(hash: string) {
+      const token = tokens.find((t) => t.access_token_hash === hash);
+      const apiKey = token ? apiKeys.get(token.api_key_id) : undefined;
+      if (!token || !apiKey || apiKey.revoked_at) return null;
+      const granted: ApiKeyScope[] = JSON.parse(token.scopes);
+      return { ...apiKey, scopes: apiKey.scopes.filter((s) => granted.includes(s)) };
+    },
+  };
+}
+
+type FakeDb = ReturnType<typeof createFakeDb>;
+
+describe('OAuth authorization server', () => {
+  let db: FakeDb;
+  let signedIn: boolean;
+  const env = { INTERNAL_API_SECRET: SECRET };
+
+  function createApp() {
+    const app = new Hono<{ Variables: { db: FakeDb; currentUser: typeof mockUser | null; sessionId: string | null } }>();
+    app.use('*', async (c, next) => {
+      c.set('db', db);
+      c.set('currentUser', signedIn ? mockUser : null);
+      c.set('sessionId', signedIn ? 'session-1' : null);
+      await next();
+    });
+    app.get('/oauth/authorize', handleOAuthAuthorize);
+    app.post('/oauth/authorize', handleOAuthAuthorizeDecision);
+    app.post('/oauth/register', handleOAuthRegister);
+    app.post('/oauth/token', handleOAuthToken);
+    app.post('/oauth/revoke', handleOAuthRevoke);
+    app.use('/api/*', authMiddleware());
+    app.get('/api/whoami', (c) => c.json({ apiKey: c.get('apiKey' as never) }));
+    return app;
+  }
+
+  function postForm(path: string, fields: Record<string, string>) {
+    return createApp().request(path, { method: 'POST', body: new URLSearchParams(fields) }, env);
+  }
+
+  async function registerPublicClient(): Promise<string> {
+    const res = await createApp().request(
+      '/oauth/register',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ client_name: 'Last.fm MCP', redirect_uris: [REDIRECT_URI], token_endpoint_auth_method: 'none' }),
+      },
+      env
+    );
+    return ((await res.json()) as { client_id: string }).client_id;
+  }
+
+  async function authorize(clientId: string, scope = 'read ai'): Promise<URL> {
+    const res = await postForm('/oauth/authorize', {
+      csrf_token: await generateCsrfToken(SECRET, 'session-1'),
+      response_type: 'code',
+      client_id: clientId,
+      redirect_uri: REDIRECT_URI,
+      scope,
+      state: 'xyz',
+      code_challenge: await challengeFor(VERIFIER),
+      code_challenge_method: 'S256',
+      decision: 'allow',
+    });
+    return new URL(res.headers.get('Location')!);
+  }
+
+  beforeEach(() => {
+    db = createFakeDb();
+    signedIn = true;
+  });
+
+  it('registers public and confidential clients', async () => {
+    const app = createApp();
+    const register = (body: object) =>
+      app.request('/oauth/register', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) }, env);
+
+    const publicRes = await register({ client_name: 'CLI', redirect_uris: ['http://localhost:3000/cb'], token_endpoint_auth_method: 'none' });
+    const confidentialRes = await register({ client_name: 'Web app', redirect_uris: [REDIRECT_URI] });
+    const badRes = await register({ client_name: 'Bad', redirect_uris: ['http://example.com/cb'] });
+
+    expect(publicRes.status).toBe(201);
+    expect(await publicRes.json()).not.toHaveProperty('client_secret');
+    expect(((await confidentialRes.json()) as { client_secret: string }).client_secret).toMatch(/^ltmcs_/);
+    expect(badRes.status).toBe(400);
+    expect(await badRes.json()).toMatchObject({ error: 'invalid_redirect_uri' });
+  });
+
+  it('sends signed-out users to log in, then shows the consent page', async () => {
+    const clientId = await registerPublicClient();
+    const query = `?response_type=code&client_id=${clientId}&redirect_uri=${encodeURIComponent(REDIRECT_URI)}&scope=read%20write&state=xyz&code_challenge=${await challengeFor(VERIFIER)}&code_challenge_method=S256`;
+
+    signedIn = false;
+    const loggedOut = await createApp().request(`/oauth/authorize${query}`, {}, env);
+    expect(loggedOut.headers.get('Location')).toBe(`/login?next=${encodeURIComponent(`/oauth/authorize${query}`)}`);
+
+    signedIn = true;
+    const html = await (await createApp().request(`/oauth/authorize${query}`, {}, env)).text();
+    expect(html).toContain('Authorize Last.fm MCP');
+    expect(html).toContain('Write – endpoints that change data for your account');
+    expect(html).not.toContain('AI – summaries');
+    expect(html).toContain(`value="${await generateCsrfToken(SECRET, 'session-1')}"`);
+  });
+
+  it('rejects unknown clients and mismatched redirect URIs without redirecting', async () => {
+    const clientId = await registerPublicClient();
+
+    const unknown = await createApp().request('/oauth/authorize?response_type=code&client_id=nope', {}, env);
+    const mismatch = await createApp().request(
+      `/oauth/authorize?response_type=code&client_id=${clientId}&redirect_uri=${encodeURIComponent('https://evil.example/cb')}`,
+      {},
+      env
+    );
+
+    expect(unknown.status).toBe(400);
+    expect(mismatch.status).toBe(400);
+  });
+
+  it('requires PKCE', async () => {
+    const clientId = await registerPublicClient();
+
+    const res = await createApp().request(`/oauth/authorize?response_type=code&client_id=${clientId}&state=abc`, {}, env);
+    const location = new URL(res.headers.get('Location')!);
+
+    expect(location.origin + location.pathname).toBe(REDIRECT_URI);
+    expect(location.searchParams.get('error')).toBe('invalid_request');
+    expect(location.searchParams.get('state')).toBe('abc');
+  });
+
+  it('exchanges a code once for tokens that authenticate API requests with the granted scopes', async () => {
+    const clientId = await registerPublicClient();
+    const redirect = await authorize(clientId);
+    const code = redirect.searchParams.get('code')!;
+    expect(redirect.searchParams.get('state')).toBe('xyz');
+
+    const wrongVerifier = await postForm('/oauth/token', {
+      grant_type: 'authorization_code',
+      client_id: clientId,
+      code,
+      code_verifier: 'x'.repeat(43),
+      redirect_uri: REDIRECT_URI,
+    });
+    expect(wrongVerifier.status).toBe(400);
+
+    // The failed attempt used up the code
+    const second = await authorize(clientId);
+    const res = await postForm('/oauth/token', {
+      grant_type: 'authorization_code',
+      client_id: clientId,
+      code: second.searchParams.get('code')!,
+      code_verifier: VERIFIER,
+      redirect_uri: REDIRECT_URI,
+    });
+    const tokens = (await res.json()) as { access_token: string; refresh_token: string; scope: string; token_type: string };
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Cache-Control')).toBe('no-store');
+    expect(tokens).toMatchObject({ token_type: 'Bearer', scope: 'read ai' });
+    expect([...db.apiKeys.values()]).toHaveLength(1);
+
+    const whoami = await createApp().request('/api/whoami', { headers: { Authorization: `Bearer ${tokens.access_token}` } }, env);
+    const { apiKey } = (await whoami.json()) as { apiKey: { user_id: string; scopes: string[] } };
+    expect(apiKey.user_id).toBe('user-123');
+    expect(apiKey.scopes).toEqual(['read', 'ai']);
+  });
+
+  it('requires the redirect_uri from the authorization request when exchanging a code', async () => {
+    const clientId = await registerPublicClient();
+    const fields = { grant_type: 'authorization_code', client_id: clientId, code_verifier: VERIFIER };
+
+    const missing = await postForm('/oauth/token', { ...fields, code: (await authorize(clientId)).searchParams.get('code')! });
+    const mismatched = await postForm('/oauth/token', {
+      ...fields,
+      code: (await authorize(clientId)).searchParams.get('code')!,
+      redirect_uri: 'https://mcp.example.com/other-callback',
+    });
+
+    expect(missing.status).toBe(400);
+    expect(await missing.json()).toMatchObject({ error: 'invalid_request' });
+    expect(mismatched.status).toBe(400);
+    expect(await mismatched.json()).toMatchObject({ error: 'invalid_grant' });
+  });
+
+  it('rotates refresh tokens and only allows narrowing scopes', async () => {
+    const clientId = await registerPublicClient();
+    const redirect = await authorize(clientId);
+    const first = (await (
+      await postForm('/oauth/token', {
+        grant_type: 'authorization_code',
+        client_id: clientId,
+        code: redirect.searchParams.get('code')!,
+        code_verifier: VERIFIER,
+        redirect_uri: REDIRECT_URI,
+      })
+    ).json()) as { refresh_token: string };
+
+    const widened = await postForm('/oauth/token', {
+      grant_type: 'refresh_token',
+      client_id: clientId,
+      refresh_token: first.refresh_token,
+      scope: 'read write',
+    });
+    expect(widened.status).toBe(400);
+    expect(await widened.json()).toMatchObject({ error: 'invalid_scope' });
+
+    const secondRedirect = await authorize(clientId);
+    const second = (await (
+      await postForm('/oauth/token', {
+        grant_type: 'authorization_code',
+        client_id: clientId,
+        code: secondRedirect.searchParams.get('code')!,
+        code_verifier: VERIFIER,
+        redirect_uri: REDIRECT_URI,
+      })
+    ).json()) as { refresh_token: string };
+
+    const refreshed = await postForm('/oauth/token', { grant_type: 'refresh_token', client_id: clientId, refresh_token: second.refresh_token, scope: 'read' });
+    const reused = await postForm('/oauth/token', { grant_type: 'refresh_token', client_id: clientId, refresh_token: second.refresh_token });
+
+    expect(refreshed.status).toBe(200);
+    expect(await refreshed.json()).toMatchObject({ scope: 'read' });
+    expect(reused.status).toBe(400);
+  });
+
+  it('leaves codes and refresh tokens intact when another client presents them', async () => {
+    const clientId = await registerPublicClient();
+    const otherClientId = await registerPublicClient();
+    const exchange = (client: string, code: string) =>
+      postForm('/oauth/token', { grant_type: 'authorization_code', client_id: client, code, code_verifier: VERIFIER, redirect_uri: REDIRECT_URI });
+
+    const code = (await authorize(clientId)).searchParams.get('code')!;
+    const stolenCode = await exchange(otherClientId, code);
+    const issued = await exchange(clientId, code);
+    const { refresh_token } = (await issued.json()) as { refresh_token: string };
+
+    const stolenRefresh = await postForm('/oauth/token', { grant_type: 'refresh_token', client_id: otherClientId, refresh_token });
+    const refreshed = await postForm('/oauth/token', { grant_type: 'refresh_token', client_id: clientId, refresh_token });
+
+    expect(stolenCode.status).toBe(400);
+    expect(issued.status).toBe(200);
+    expect(stolenRefresh.status).toBe(400);
+    expect(refreshed.status).toBe(200);
+  });
+
+  it('redirects with access_denied when the user denies', async () => {
+    const clientId = await registerPublicClient();
+
+    const res = await postForm('/oauth/authorize', {
+      csrf_token: await generateCsrfToken(SECRET, 'session-1'),
+      response_type: 'code',
+      client_id: clientId,
+      redirect_uri: REDIRECT_URI,
+      state: 'xyz',
+      code_challenge: await challengeFor(VERIFIER),
+      code_challenge_method: 'S256',
+      decision: 'deny',
+    });
+    const location = new URL(res.headers.get('Location')!);
+
+    expect(location.searchParams.get('error')).toBe('access_denied');
+    expect(db.apiKeys.size).toBe(0);
+  });
+
+  it('requires the secret for confidential clients and revokes tokens', async () => {
+    const registered = (await (
+      await createApp().request(
+        '/oauth/register',
+        { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ client_name: 'Web app', redirect_uris: [REDIRECT_URI] }) },
+        env
+      )
+    ).json()) as { client_id: string; client_secret: string };
+    const redirect = await authorize(registered.client_id);
+    const fields = { grant_type: 'authorization_code', code: redirect.searchParams.get('code')!, code_verifier: VERIFIER, redirect_uri: REDIRECT_URI };
+
+    const noSecret = await postForm('/oauth/token', { ...fields, client_id: registered.client_id });
+    expect(noSecret.status).toBe(401);
+
+    const retry = await authorize(registered.client_id);
+    const basic = `Basic ${btoa(`${registered.client_id}:${registered.client_secret}`)}`;
+    const res = await createApp().request(
+      '/oauth/token',
+      { method: 'POST', headers: { Authorization: basic }, body: new URLSearchParams({ ...fields, code: retry.searchParams.get('code')! }) },
+      env
+    );
+    const tokens = (await res.json()) as { access_token: string };
+    expect(res.status).toBe(200);
+
+    await postForm('/oauth/revoke', { token: tokens.access_token, client_id: registered.client_id, client_secret: registered.client_secret });
+    expect(db.tokens).toHaveLength(0);
+  });
+});
@@ -0,0 +1,166 @@
+// ABOUTME: Tests for the incremental Last.fm scrobble history sync run by the cron.
+// ABOUTME: Covers a backfill resuming across runs inside a frozen window, completion, and the incremental window after it.
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { ScrobbleSyncState } from '@listentomore/db';
+import { syncUserScrobbles } from '../../utils/scrobble-sync';
+import { setupFetchMock } from '../utils/mocks';
+
+const user = { id: 'user-123', lastfm_username: 'testuser' };
+
+// Unix seconds for a play, newest first like Last.fm returns them
+function play(name: string, uts: number) {
+  return {
+    artist: { '#text': 'Radiohead' },
+    album: { '#text': 'In Rainbows' },
+    name,
+    url: `https://www.last.fm/music/Radiohead/_/${name}`,
+    image: [],
+    date: { uts: String(uts) },
+  };
+}
+
+function recentTracksPage(page: number, totalPages: number, tracks: ReturnType<typeof play>[]) {
+  return {
+    recenttracks: {
+      track: tracks,
+      '@attr': { page: String(page), totalPages: String(totalPages), total: String(totalPages * 2) },
+    },
+  };
+}
+
+// In-memory stand-in for the scrobble sync parts of Database
+function createMockDb() {
+  let state: ScrobbleSyncState = {
+    user_id: user.id,
+    status: 'pending',
+    window_from: null,
+    window_to: null,
+    cursor_page: 1,
+    total_pages: 0,
+    oldest_played_at: null,
+    newest_played_at: null,
+    backfill_completed_at: null,
+    last_sync_at: null,
+    error_message: null,
+    updated_at: '2026-10-01 00:00:00',
+  };
+  const stored = new Set<string>();
+
+  return {
+    get state() {
+      return state;
+    },
+    stored,
+    ensureScrobbleSyncState: vi.fn(async () => ({ ...state })),
+    updateScrobbleSyncState: vi.fn(async (_userId: string, update: Partial<ScrobbleSyncState>) => {
+      state = { ...state, ...update };
+    }),
+    insertScrobbles: vi.fn(async (_userId: string, scrobbles: Array<{ track: string; played_at: string }>) => {
+      const before = stored.size;
+      for (const s of scrobbles) stored.add(`${s.track}|${s.played_at}`);
+      return stored.size - before;
+    }),
+  };
+}
+
+function requestedPages(fetchMock: ReturnType<typeof setupFetchMock>) {
+  return fetchMock.mock.calls.map(([url]) => {
+    const params = new URL(String(url)).searchParams;
+    return { page: params.get('page'), from: params.get('from'), to: params.get('to') };
+  });
+}
+
+describe('syncUserScrobbles', () => {
+  let db: ReturnType<typeof createMockDb>;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    db = createMockDb();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('backfills across runs inside a frozen window, then syncs incrementally from the newest play', async () => {
+    // First run: 3 pages of history, 2 pages per run
+    vi.setSystemTime(new Date('2026-10-01T00:00:00Z'));
+    const backfillTo = String(Date.parse('2026-10-01T00:00:00Z') / 1000);
+    let fetchMock = setupFetchMock([
+      { pattern: /&page=1&/, response: recentTracksPage(1, 3, [play('Reckoner', 1759000000), play('Nude', 1758990000)]) },
+      { pattern: /&page=2&/, response: recentTracksPage(2, 3, [play('Videotape', 1758000000)]) },
+      { pattern: /&page=3&/, response: recentTracksPage(3, 3, [play('Creep', 1500000000)]) },
+    ]);
+
+    const first = await syncUserScrobbles(db as never, user as never, 'test-key', 2);
+
+    expect(first).toEqual({ userId: user.id, pagesFetched: 2, inserted: 3, status: 'backfilling' });
+    expect(requestedPages(fetchMock)).toEqual([
+      { page: '1', from: null, to: backfillTo },
+      { page: '2', from: null, to: backfillTo },
+    ]);
+    expect(db.state).toMatchObject({
+      status: 'backfilling',
+      window_from: null,
+      window_to: Number(backfillTo),
+      cursor_page: 3,
+      total_pages: 3,
+      backfill_completed_at: null,
+    });
+
+    // Second run, a day later: resumes from the cursor in the same window
+    vi.setSystemTime(new Date('2026-10-02T00:00:00Z'));
+    fetchMock = setupFetchMock([
+      { pattern: /&page=3&/, response: recentTracksPage(3, 3, [play('Creep', 1500000000)]) },
+    ]);
+
+    const second = await syncUserScrobbles(db as never, user as never, 'test-key', 2);
+
+    expect(second).toEqual({ userId: user.id, pagesFetched: 1, inserted: 1, status: 'synced' });
+    expect(requestedPages(fetchMock)).toEqual([{ page: '3', from: null, to: backfillTo }]);
+    expect(db.state).toMatchObject({
+      status: 'synced',
+      window_from: null,
+      window_to: null,
+      cursor_page: 1,
+      total_pages: 0,
+      newest_played_at: new Date(1759000000 * 1000).toISOString(),
+      oldest_played_at: new Date(1500000000 * 1000).toISOString(),
+      backfill_completed_at: '2026-10-02T00:00:00.000Z',
+    });
+
+    // Later run: a new window from the newest stored play up to now
+    vi.setSystemTime(new Date('2026-10-03T00:00:00Z'));
+    fetchMock = setupFetchMock([
+      {
+        pattern: /&page=1&/,
+        response: recentTracksPage(1, 1, [play('Weird Fishes', 1759400000), play('Reckoner', 1759000000)]),
+      },
+    ]);
+
+    const third = await syncUserScrobbles(db as never, user as never, 'test-key', 2);
+
+    expect(third).toEqual({ userId: user.id, pagesFetched: 1, inserted: 1, status: 'synced' });
+    expect(requestedPages(fetchMock)).toEqual([
+      { page: '1', from: '1759000000', to: String(Date.parse('2026-10-03T00:00:00Z') / 1000) },
+    ]);
+    expect(db.state).toMatchObject({
+      window_to: null,
+      newest_played_at: new Date(1759400000 * 1000).toISOString(),
+      backfill_completed_at: '2026-10-02T00:00:00.000Z',
+    });
+  });
+
+  it('keeps the cursor and records the error when a page fails', async () => {
+    vi.setSystemTime(new Date('2026-10-01T00:00:00Z'));
+    setupFetchMock([
+      { pattern: /&page=1&/, response: recentTracksPage(1, 3, [play('Reckoner', 1759000000)]) },
+      { pattern: /&page=2&/, response: { error: 8 }, options: { status: 500, ok: false } },
+    ]);
+
+    await expect(syncUserScrobbles(db as never, user as never, 'test-key', 2)).rejects.toThrow();
+
+    expect(db.state).toMatchObject({ status: 'error', cursor_page: 2, window_to: Date.parse('2026-10-01T00:00:00Z') / 1000 });
+  });
+});
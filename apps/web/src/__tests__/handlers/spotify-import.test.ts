@@ -0,0 +1,201 @@
+// ABOUTME: Tests for importing Spotify extended streaming history into the scrobble archive.
+// ABOUTME: Covers entry parsing, duplicate matching against stored plays, the chunk endpoint and top list merging.
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { spotifyImportInternalRoutes } from '../../api/internal/spotify-import';
+import {
+  isStreamingHistoryFileName,
+  mergeTopArtists,
+  normalizeStreamingHistory,
+  partitionDuplicatePlays,
+} from '../../utils/spotify-history';
+
+const signedInUser = { id: 'user-123', username: 'testuser', lastfm_username: 'testuser' };
+
+function entry(track: string, ts: string, msPlayed = 200000, artist = 'Radiohead') {
+  return {
+    ts,
+    ms_played: msPlayed,
+    master_metadata_track_name: track,
+    master_metadata_album_artist_name: artist,
+    master_metadata_album_album_name: 'In Rainbows',
+    spotify_track_uri: 'spotify:track:abc123',
+  };
+}
+
+function createMockDb() {
+  return {
+    getScrobbleSyncState: vi.fn().mockResolvedValue({
+      backfill_completed_at: '2026-01-01 00:00:00',
+      newest_played_at: '2026-10-01T00:00:00.000Z',
+    }),
+    createSpotifyImport: vi.fn().mockResolvedValue({ id: 'import-1' }),
+    getSpotifyImport: vi.fn().mockResolvedValue({ id: 'import-1', user_id: 'user-123' }),
+    getScrobbleKeys: vi.fn().mockResolvedValue([]),
+    insertScrobbles: vi.fn().mockImplementation(async (_userId: string, rows: unknown[]) => rows.length),
+    recordSpotifyImportChunk: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+type TestVariables = {
+  currentUser: typeof signedInUser | null;
+  isAuthenticated: boolean;
+  db: ReturnType<typeof createMockDb>;
+};
+
+describe('normalizeStreamingHistory', () => {
+  it('stores plays by start time and skips podcasts, short plays and repeats', () => {
+    const { plays, skipped } = normalizeStreamingHistory([
+      entry('Reckoner', '2024-03-01T10:05:00Z', 290000),
+      entry('Reckoner', '2024-03-01T10:05:00Z', 290000),
+      entry('Nude', '2024-03-01T10:06:00Z', 12000),
+      { ts: '2024-03-01T11:00:00Z', ms_played: 1800000, master_metadata_track_name: null },
+    ]);
+
+    expect(skipped).toBe(3);
+    expect(plays).toEqual([
+      {
+        artist: 'Radiohead',
+        album: 'In Rainbows',
+        track: 'Reckoner',
+        url: 'https://open.spotify.com/track/abc123',
+        image_url: null,
+        played_at: '2024-03-01T10:00:10.000Z',
+      },
+    ]);
+  });
+
+  it('recognises both export file formats', () => {
+    expect(isStreamingHistoryFileName('endsong_0.json')).toBe(true);
+    expect(isStreamingHistoryFileName('Streaming_History_Audio_2019-2021_0.json')).toBe(true);
+    expect(isStreamingHistoryFileName('Streaming_History_Video_2020.json')).toBe(false);
+  });
+});
+
+describe('partitionDuplicatePlays', () => {
+  it('matches each stored play to at most one nearby import of the same track', () => {
+    const { plays } = normalizeStreamingHistory([
+      entry('Reckoner', '2024-03-01T10:05:00Z'),
+      entry('Reckoner', '2024-03-01T10:08:30Z'),
+      entry('Weird Fishes', '2024-03-01T12:00:00Z'),
+    ]);
+
+    const { fresh, duplicates } = partitionDuplicatePlays(plays, [
+      { artist: 'radiohead', track: 'reckoner', played_at: '2024-03-01T10:01:40.000Z' },
+      { artist: 'Radiohead', track: 'Weird Fishes', played_at: '2024-03-01T13:00:00.000Z' },
+    ]);
+
+    expect(duplicates).toBe(1);
+    expect(fresh.map((p) => `${p.track} ${p.played_at}`)).toEqual([
+      'Reckoner 2024-03-01T10:05:10.000Z',
+      'Weird Fishes 2024-03-01T11:56:40.000Z',
+    ]);
+  });
+});
+
+describe('mergeTopArtists', () => {
+  it('adds imported plays to matching artists and re-ranks', () => {
+    const lastfm = [
+      { name: 'Björk', playcount: 10, url: '', image: '', tags: [], bio: '' },
+      { name: 'Radiohead', playcount: 8, url: '', image: '', tags: [], bio: '' },
+    ];
+
+    const merged = mergeTopArtists(
+      lastfm,
+      [
+        { artist: 'radiohead', plays: 5 },
+        { artist: 'Portishead', plays: 9 },
+      ],
+      2
+    );
+
+    expect(merged.map((a) => [a.name, a.playcount])).toEqual([
+      ['Radiohead', 13],
+      ['Björk', 10],
+    ]);
+    expect(lastfm[1].playcount).toBe(8);
+  });
+});
+
+describe('Spotify import endpoints', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+
+  function createApp() {
+    const app = new Hono<{ Variables: TestVariables }>();
+    app.use('*', async (c, next) => {
+      c.set('currentUser', signedInUser);
+      c.set('isAuthenticated', true);
+      c.set('db', mockDb);
+      await next();
+    });
+    app.route('/', spotifyImportInternalRoutes);
+    return app;
+  }
+
+  function post(path: string, body: unknown) {
+    return createApp().request(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  }
+
+  beforeEach(() => {
+    mockDb = createMockDb();
+  });
+
+  it('waits for the Last.fm backfill before starting an import', async () => {
+    mockDb.getScrobbleSyncState.mockResolvedValue({ backfill_completed_at: null });
+
+    const res = await post('/spotify-import-start', { files: ['endsong_0.json'] });
+
+    expect(res.status).toBe(409);
+    expect(mockDb.createSpotifyImport).not.toHaveBeenCalled();
+  });
+
+  it('rejects files that are not streaming history', async () => {
+    const res = await post('/spotify-import-start', { files: ['Userdata.json'] });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('imports new plays and leaves recent and already-scrobbled plays alone', async () => {
+    mockDb.getScrobbleKeys.mockResolvedValue([
+      { artist: 'Radiohead', track: 'Reckoner', played_at: '2024-03-01T10:00:00.000Z' },
+    ]);
+
+    const res = await post('/spotify-import-chunk', {
+      importId: 'import-1',
+      entries: [
+        entry('Reckoner', '2024-03-01T10:05:00Z'),
+        entry('Nude', '2024-03-01T10:09:00Z'),
+        entry('Videotape', '2026-10-05T10:00:00Z'),
+      ],
+    });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ data: { imported: 1, duplicates: 1, skipped: 1 } });
+    expect(mockDb.insertScrobbles).toHaveBeenCalledWith(
+      'user-123',
+      [expect.objectContaining({ track: 'Nude', played_at: '2024-03-01T10:05:40.000Z' })],
+      'spotify'
+    );
+    expect(mockDb.recordSpotifyImportChunk).toHaveBeenCalledWith('import-1', {
+      imported: 1,
+      duplicates: 1,
+      skipped: 1,
+      oldest: '2024-03-01T10:05:40.000Z',
+      newest: '2024-03-01T10:05:40.000Z',
+    });
+  });
+
+  it('returns 404 for imports belonging to someone else', async () => {
+    mockDb.getSpotifyImport.mockResolvedValue(null);
+
+    const res = await post('/spotify-import-chunk', { importId: 'import-2', entries: [] });
+
+    expect(res.status).toBe(404);
+    expect(mockDb.insertScrobbles).not.toHaveBeenCalled();
+  });
+});
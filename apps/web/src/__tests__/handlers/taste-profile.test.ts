@@ -0,0 +1,161 @@
+// ABOUTME: Tests for the tag-based taste profile on the stats page.
+// ABOUTME: Covers tag to genre normalization, play-weighted genre shares and the internal API endpoint.
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { userInternalRoutes } from '../../api/internal/user';
+import { tagToGenreSlug } from '../../data/genres';
+import { buildTasteProfile } from '../../utils/taste-profile';
+import { createMockKV, setupFetchMock } from '../utils/mocks';
+
+const mockUser = {
+  id: 'user-123',
+  username: 'testuser',
+  lastfm_username: 'testuser',
+  listenbrainz_username: null as string | null,
+  listening_source: 'lastfm' as 'lastfm' | 'listenbrainz',
+  profile_visibility: 'public' as 'public' | 'private',
+};
+
+function createMockDb(user = mockUser) {
+  return {
+    getUserByLastfmUsername: vi.fn().mockResolvedValue(user),
+    getUserByUsername: vi.fn().mockResolvedValue(null),
+    getTopScrobbledArtists: vi.fn().mockResolvedValue([]),
+  };
+}
+
+describe('tagToGenreSlug', () => {
+  it('maps tags onto genre slugs', () => {
+    expect(tagToGenreSlug('Hip Hop')).toBe('hip-hop');
+    expect(tagToGenreSlug('post-rock')).toBe('post-rock');
+    expect(tagToGenreSlug('Drum & Bass')).toBe('drum-and-bass');
+    expect(tagToGenreSlug('Singer/Songwriter')).toBe('singer-songwriter');
+  });
+
+  it('maps common aliases', () => {
+    expect(tagToGenreSlug('R&B')).toBe('r-n-b');
+    expect(tagToGenreSlug('rnb')).toBe('r-n-b');
+    expect(tagToGenreSlug('alternative rock')).toBe('alt-rock');
+    expect(tagToGenreSlug('rap')).toBe('hip-hop');
+  });
+
+  it('returns null for tags that are not genres', () => {
+    expect(tagToGenreSlug('female vocalists')).toBeNull();
+    expect(tagToGenreSlug('british')).toBeNull();
+  });
+});
+
+describe('buildTasteProfile', () => {
+  it("splits each artist's plays across its genres by tag weight", () => {
+    const genres = buildTasteProfile([
+      {
+        name: 'Radiohead',
+        playcount: 60,
+        tags: [
+          { name: 'alternative rock', count: 100 },
+          { name: 'electronic', count: 50 },
+          { name: 'british', count: 40 },
+        ],
+      },
+      { name: 'Aphex Twin', playcount: 40, tags: [{ name: 'electronic', count: 100 }, { name: 'idm', count: 100 }] },
+    ]);
+
+    expect(genres).toEqual([
+      { slug: 'alt-rock', name: 'Alt Rock', share: 40, artists: ['Radiohead'] },
+      { slug: 'electronic', name: 'Electronic', share: 40, artists: ['Radiohead', 'Aphex Twin'] },
+      { slug: 'idm', name: 'Idm', share: 20, artists: ['Aphex Twin'] },
+    ]);
+  });
+
+  it('counts aliases of the same genre once, and skips artists without genre tags', () => {
+    const genres = buildTasteProfile([
+      { name: 'Kendrick Lamar', playcount: 10, tags: [{ name: 'hip hop', count: 100 }, { name: 'rap', count: 90 }] },
+      { name: 'Unknown', playcount: 500, tags: [{ name: 'favourites', count: 100 }] },
+    ]);
+
+    expect(genres).toEqual([{ slug: 'hip-hop', name: 'Hip Hop', share: 100, artists: ['Kendrick Lamar'] }]);
+  });
+});
+
+describe('Internal user taste profile', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let cache: KVNamespace;
+
+  function request(path: string) {
+    const app = new Hono();
+    app.use('*', async (c, next) => {
+      c.set('currentUser' as never, null as never);
+      c.set('db' as never, mockDb as never);
+      await next();
+    });
+    app.route('/', userInternalRoutes as unknown as Hono);
+    return app.request(path, {}, { LASTFM_API_KEY: 'test-key', CACHE: cache });
+  }
+
+  beforeEach(() => {
+    mockDb = createMockDb();
+    cache = createMockKV();
+  });
+
+  it('builds the genre breakdown from top artists and caches it', async () => {
+    setupFetchMock([
+      {
+        pattern: /method=user\.gettopartists/,
+        response: {
+          topartists: {
+            artist: [
+              { name: 'Radiohead', playcount: '30', url: 'a-url' },
+              { name: 'Burial', playcount: '10', url: 'b-url' },
+            ],
+          },
+        },
+      },
+      { pattern: /method=artist\.getinfo/, response: { error: 6, message: 'Not found' } },
+      {
+        pattern: /method=artist\.getTopTags&artist=Radiohead/,
+        response: { toptags: { tag: [{ name: 'alternative rock', count: 100 }] } },
+      },
+      {
+        pattern: /method=artist\.getTopTags&artist=Burial/,
+        response: { toptags: { tag: [{ name: 'dubstep', count: 100 }] } },
+      },
+    ]);
+
+    const res = await request('/user-taste-profile?username=testuser&period=1month');
+    const { data } = (await res.json()) as { data: Array<{ slug: string; share: number }> };
+
+    expect(res.status).toBe(200);
+    expect(data.map((g) => [g.slug, g.share])).toEqual([
+      ['alt-rock', 75],
+      ['dubstep', 25],
+    ]);
+    expect(cache.put).toHaveBeenCalledWith('taste-profile:user-123:1month', JSON.stringify(data), {
+      expirationTtl: 6 * 3600,
+    });
+  });
+
+  it('uses the weekly artist chart for custom date ranges', async () => {
+    const mockFetch = setupFetchMock([
+      {
+        pattern: /method=user\.getweeklyartistchart/,
+        response: { weeklyartistchart: { artist: [{ name: 'Burial', playcount: '8', url: 'b-url' }] } },
+      },
+      { pattern: /method=artist\.getTopTags/, response: { toptags: { tag: [{ name: 'dubstep', count: 100 }] } } },
+    ]);
+
+    const res = await request('/user-taste-profile?username=testuser&period=custom&from=2025-10-01&to=2025-10-07');
+    const { data } = (await res.json()) as { data: Array<{ slug: string }> };
+
+    expect(data.map((g) => g.slug)).toEqual(['dubstep']);
+    expect(mockFetch.mock.calls[0][0].toString()).toContain(`from=${Date.UTC(2025, 9, 1) / 1000}`);
+  });
+
+  it('hides private profiles', async () => {
+    mockDb = createMockDb({ ...mockUser, profile_visibility: 'private' });
+
+    const res = await request('/user-taste-profile?username=testuser&period=1month');
+
+    expect(res.status).toBe(404);
+  });
+});
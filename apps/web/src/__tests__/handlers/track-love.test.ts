@@ -0,0 +1,126 @@
+// ABOUTME: Tests for the internal love/unlove endpoints backed by the Last.fm write client.
+// ABOUTME: Covers signed writes, re-auth prompts for missing/revoked sessions and loved-state lookup.
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { trackInternalRoutes } from '../../api/internal/tracks';
+import { createMockKV, setupFetchMock } from '../utils/mocks';
+
+const signedInUser = {
+  id: 'user-123',
+  username: 'testuser',
+  lastfm_username: 'testuser',
+  lastfm_session_key: 'session-key',
+};
+
+type TestVariables = {
+  currentUser: typeof signedInUser | null;
+  isAuthenticated: boolean;
+  db: { updateUser: ReturnType<typeof vi.fn> };
+};
+
+describe('Track love endpoints', () => {
+  let currentUser: typeof signedInUser | null;
+  let mockDb: { updateUser: ReturnType<typeof vi.fn> };
+  let env: { LASTFM_API_KEY: string; LASTFM_SHARED_SECRET?: string; CACHE: KVNamespace };
+
+  function createApp() {
+    const app = new Hono<{ Variables: TestVariables }>();
+    app.use('*', async (c, next) => {
+      c.set('currentUser', currentUser);
+      c.set('isAuthenticated', !!currentUser);
+      c.set('db', mockDb);
+      await next();
+    });
+    app.route('/', trackInternalRoutes as unknown as Hono<{ Variables: TestVariables }>);
+    return app;
+  }
+
+  function post(path: string, body: unknown) {
+    return createApp().request(
+      path,
+      { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) },
+      env
+    );
+  }
+
+  beforeEach(() => {
+    currentUser = { ...signedInUser };
+    mockDb = { updateUser: vi.fn().mockResolvedValue(undefined) };
+    env = { LASTFM_API_KEY: 'test-key', LASTFM_SHARED_SECRET: 'secret', CACHE: createMockKV() };
+  });
+
+  it('requires a signed-in user', async () => {
+    currentUser = null;
+
+    const res = await post('/track-love', { artist: 'Radiohead', track: 'Reckoner', loved: true });
+
+    expect(res.status).toBe(401);
+  });
+
+  it('loves a track and clears the cached loved tracks', async () => {
+    const mockFetch = setupFetchMock([{ pattern: /ws\.audioscrobbler\.com/, response: {} }]);
+
+    const res = await post('/track-love', { artist: 'Radiohead', track: 'Reckoner', loved: true });
+
+    expect(res.status).toBe(200);
+    expect(new URLSearchParams(mockFetch.mock.calls[0][1]?.body as string).get('method')).toBe('track.love');
+    expect(env.CACHE.delete).toHaveBeenCalledWith('lastfm:lovedtracks:testuser:5');
+  });
+
+  it('asks for re-auth when no session key is stored', async () => {
+    currentUser = { ...signedInUser, lastfm_session_key: null as unknown as string };
+
+    const res = await post('/track-love', { artist: 'Radiohead', track: 'Reckoner', loved: false });
+    const data = (await res.json()) as { reauth?: boolean };
+
+    expect(res.status).toBe(401);
+    expect(data.reauth).toBe(true);
+  });
+
+  it('forgets a revoked session key and asks for re-auth', async () => {
+    setupFetchMock([
+      {
+        pattern: /ws\.audioscrobbler\.com/,
+        response: { error: 9, message: 'Invalid session key - Please re-authenticate' },
+        options: { status: 403, ok: false },
+      },
+    ]);
+
+    const res = await post('/track-love', { artist: 'Radiohead', track: 'Reckoner', loved: true });
+    const data = (await res.json()) as { reauth?: boolean };
+
+    expect(res.status).toBe(401);
+    expect(data.reauth).toBe(true);
+    expect(mockDb.updateUser).toHaveBeenCalledWith('user-123', { lastfm_session_key: null });
+  });
+
+  it('rejects requests without a loved flag', async () => {
+    const res = await post('/track-love', { artist: 'Radiohead', track: 'Reckoner' });
+
+    expect(res.status).toBe(400);
+  });
+
+  it("looks up the signed-in user's loved state", async () => {
+    setupFetchMock([
+      {
+        pattern: /user\.getlovedtracks/,
+        response: {
+          lovedtracks: {
+            track: [{ name: 'Reckoner', artist: { name: 'Radiohead' }, url: 'https://example.com', image: [] }],
+          },
+        },
+      },
+    ]);
+
+    const res = await post('/track-loved-status', {
+      tracks: [
+        { artist: 'radiohead', track: 'reckoner' },
+        { artist: 'Radiohead', track: 'Nude' },
+      ],
+    });
+    const data = (await res.json()) as { data: boolean[] };
+
+    expect(data.data).toEqual([true, false]);
+  });
+});
@@ -0,0 +1,168 @@
+// ABOUTME: Tests for the "owned but unplayed" internal endpoint.
+// ABOUTME: Covers privacy, fuzzy matching of Discogs releases to Last.fm albums, paging and caching.
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { userInternalRoutes } from '../../api/internal/user';
+import { createMockKV, setupFetchMock } from '../utils/mocks';
+
+const mockUser = {
+  id: 'user-123',
+  username: 'testuser',
+  lastfm_username: 'testuser',
+  discogs_username: 'testcollector',
+  profile_visibility: 'public' as 'public' | 'private',
+};
+
+function release(id: number, title: string, artist: string, dateAdded: string) {
+  return {
+    id,
+    user_id: 'user-123',
+    title,
+    artist,
+    year: 2000,
+    original_year: null,
+    format: 'Vinyl',
+    image_url: null,
+    discogs_url: null,
+    date_added: dateAdded,
+  };
+}
+
+const releases = [
+  release(1, 'In Rainbows', 'Radiohead', '2025-03-01T00:00:00Z'),
+  release(2, 'Kind Of Blue (Remastered)', 'Miles Davis', '2025-02-01T00:00:00Z'),
+  release(3, 'Lemonade', 'Beyoncé', '2025-01-15T00:00:00Z'),
+  release(4, 'Blue Train', 'John Coltrane', '2025-01-01T00:00:00Z'),
+  release(5, 'Remain In Light', 'Talking Heads', '2024-12-01T00:00:00Z'),
+];
+
+function topAlbum(artist: string, name: string, playcount: number) {
+  return {
+    artist: { name: artist, url: '' },
+    name,
+    playcount: String(playcount),
+    url: '',
+    image: [],
+  };
+}
+
+function topAlbumsPage(albums: ReturnType<typeof topAlbum>[], page: number, totalPages: number) {
+  return {
+    topalbums: {
+      album: albums,
+      '@attr': { page: String(page), perPage: '1000', totalPages: String(totalPages), total: '0' },
+    },
+  };
+}
+
+function createMockDb(user = mockUser) {
+  return {
+    getUserByLastfmUsername: vi.fn().mockResolvedValue(user),
+    getUserByUsername: vi.fn().mockResolvedValue(null),
+    getAllReleases: vi.fn().mockResolvedValue(releases),
+  };
+}
+
+type TestVariables = {
+  currentUser: { id: string } | null;
+  db: ReturnType<typeof createMockDb>;
+};
+
+describe('Unplayed Records Endpoint', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let currentUser: { id: string } | null;
+  let env: { LASTFM_API_KEY: string; CACHE: KVNamespace };
+
+  function createApp() {
+    const app = new Hono<{ Variables: TestVariables }>();
+    app.use('*', async (c, next) => {
+      c.set('currentUser', currentUser);
+      c.set('db', mockDb);
+      await next();
+    });
+    app.route('/', userInternalRoutes as unknown as Hono<{ Variables: TestVariables }>);
+    return app;
+  }
+
+  beforeEach(() => {
+    mockDb = createMockDb();
+    currentUser = null;
+    env = { LASTFM_API_KEY: 'test-key', CACHE: createMockKV() };
+    setupFetchMock([
+      {
+        pattern: 'page=1&',
+        response: topAlbumsPage(
+          [
+            topAlbum('Radiohead', 'In Rainbows', 120),
+            topAlbum('Miles Davis', 'Kind of Blue', 40),
+            topAlbum('Beyonce', 'Lemonade', 12),
+          ],
+          1,
+          2
+        ),
+      },
+      {
+        pattern: 'page=2&',
+        response: topAlbumsPage([topAlbum('The Talking Heads', 'Remain in Light (Deluxe Version)', 2)], 2, 2),
+      },
+    ]);
+  });
+
+  it('requires a username', async () => {
+    const res = await createApp().request('/user-unplayed-records', {}, env);
+    expect(res.status).toBe(400);
+  });
+
+  it('hides private profiles from other users', async () => {
+    mockDb = createMockDb({ ...mockUser, profile_visibility: 'private' });
+    currentUser = { id: 'someone-else' };
+
+    const res = await createApp().request('/user-unplayed-records?username=testuser', {}, env);
+
+    expect(res.status).toBe(403);
+    expect(mockDb.getAllReleases).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 when no Discogs collection is connected', async () => {
+    mockDb = createMockDb({ ...mockUser, discogs_username: null as unknown as string });
+
+    const res = await createApp().request('/user-unplayed-records?username=testuser', {}, env);
+
+    expect(res.status).toBe(404);
+  });
+
+  it('matches releases to Last.fm albums across all pages with fuzzy titles and artists', async () => {
+    const res = await createApp().request('/user-unplayed-records?username=testuser', {}, env);
+    const body = (await res.json()) as {
+      data: { totalReleases: number; playedReleases: number; unplayed: Array<{ id: number }>; albumsScanned: number; complete: boolean };
+    };
+
+    expect(res.status).toBe(200);
+    expect(body.data.totalReleases).toBe(5);
+    expect(body.data.playedReleases).toBe(4);
+    expect(body.data.unplayed.map((r) => r.id)).toEqual([4]);
+    expect(body.data.albumsScanned).toBe(4);
+    expect(body.data.complete).toBe(true);
+    expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(globalThis.fetch).mock.calls[0][0]).toContain('period=overall');
+  });
+
+  it('orders unplayed records by when they were added, oldest first', async () => {
+    setupFetchMock([{ pattern: 'user.gettopalbums', response: topAlbumsPage([], 1, 0) }]);
+
+    const res = await createApp().request('/user-unplayed-records?username=testuser', {}, env);
+    const body = (await res.json()) as { data: { unplayed: Array<{ id: number }> } };
+
+    expect(body.data.unplayed.map((r) => r.id)).toEqual([5, 4, 3, 2, 1]);
+  });
+
+  it('serves the report from cache on repeat requests', async () => {
+    await createApp().request('/user-unplayed-records?username=testuser', {}, env);
+    const res = await createApp().request('/user-unplayed-records?username=testuser', {}, env);
+    const body = (await res.json()) as { cached: boolean };
+
+    expect(body.cached).toBe(true);
+    expect(mockDb.getAllReleases).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,113 @@
+// ABOUTME: Tests for the stats page top lists in the internal user API.
+// ABOUTME: Covers top tracks, custom date ranges backed by Last.fm weekly charts and range validation.
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { userInternalRoutes } from '../../api/internal/user';
+import { createMockKV, setupFetchMock } from '../utils/mocks';
+
+const mockUser = {
+  id: 'user-123',
+  username: 'testuser',
+  lastfm_username: 'testuser',
+  listenbrainz_username: null as string | null,
+  listening_source: 'lastfm' as 'lastfm' | 'listenbrainz',
+  profile_visibility: 'public' as const,
+};
+
+function createMockDb(user = mockUser) {
+  return {
+    getUserByLastfmUsername: vi.fn().mockResolvedValue(user),
+    getUserByUsername: vi.fn().mockResolvedValue(null),
+    getTopScrobbledTracks: vi.fn().mockResolvedValue([]),
+    getTopScrobbledArtists: vi.fn().mockResolvedValue([]),
+  };
+}
+
+describe('Internal user top lists', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let spotifySearch: ReturnType<typeof vi.fn>;
+
+  function request(path: string) {
+    const app = new Hono();
+    app.use('*', async (c, next) => {
+      c.set('currentUser' as never, null as never);
+      c.set('db' as never, mockDb as never);
+      c.set('spotify' as never, { search: { search: spotifySearch } } as never);
+      await next();
+    });
+    app.route('/', userInternalRoutes as unknown as Hono);
+    return app.request(path, {}, { LASTFM_API_KEY: 'test-key', CACHE: createMockKV() });
+  }
+
+  beforeEach(() => {
+    mockDb = createMockDb();
+    spotifySearch = vi.fn().mockResolvedValue([{ id: 'album-1', image: 'https://i.scdn.co/cover.jpg' }]);
+  });
+
+  it('returns top tracks for a period, including imported Spotify plays', async () => {
+    setupFetchMock([
+      {
+        pattern: /method=user\.gettoptracks/,
+        response: {
+          toptracks: {
+            track: [{ name: 'Reckoner', playcount: '3', url: 'r-url', artist: { name: 'Radiohead', url: 'a-url' } }],
+          },
+        },
+      },
+    ]);
+    mockDb.getTopScrobbledTracks.mockResolvedValue([{ artist: 'Siiga', track: 'Lumo', plays: 5 }]);
+
+    const res = await request('/user-top-tracks?username=testuser&period=1month');
+    const { data } = (await res.json()) as { data: Array<{ name: string; playcount: number }> };
+
+    expect(res.status).toBe(200);
+    expect(data.map((t) => [t.name, t.playcount])).toEqual([
+      ['Lumo', 5],
+      ['Reckoner', 3],
+    ]);
+    expect(mockDb.getTopScrobbledTracks).toHaveBeenCalledWith('user-123', expect.any(Object), 10, 'spotify');
+  });
+
+  it('reads custom date ranges from the Last.fm weekly charts', async () => {
+    const mockFetch = setupFetchMock([
+      {
+        pattern: /method=user\.getweeklyalbumchart/,
+        response: {
+          weeklyalbumchart: {
+            album: [{ name: 'In Rainbows', artist: { '#text': 'Radiohead' }, playcount: '20', url: 'b-url', '@attr': { rank: '1' } }],
+          },
+        },
+      },
+    ]);
+
+    const res = await request('/user-top-albums?username=testuser&period=custom&from=2025-10-01&to=2025-10-07');
+    const { data } = (await res.json()) as { data: Array<Record<string, unknown>> };
+
+    // to is exclusive: the start of the day after the last date
+    expect(mockFetch.mock.calls[0][0].toString()).toContain(
+      `from=${Date.UTC(2025, 9, 1) / 1000}&to=${Date.UTC(2025, 9, 8) / 1000}`
+    );
+    expect(data).toEqual([
+      expect.objectContaining({ name: 'In Rainbows', artist: 'Radiohead', playcount: 20, image: 'https://i.scdn.co/cover.jpg' }),
+    ]);
+    expect(spotifySearch).toHaveBeenCalledWith('Radiohead In Rainbows', 'album', 1);
+  });
+
+  it('validates custom date ranges', async () => {
+    const reversed = await request('/user-top-artists?username=testuser&period=custom&from=2025-10-07&to=2025-10-01');
+    const missing = await request('/user-top-tracks?username=testuser&period=custom&from=2025-10-01');
+    const unknown = await request('/user-top-tracks?username=testuser&period=fortnight');
+
+    expect([reversed.status, missing.status, unknown.status]).toEqual([400, 400, 400]);
+    expect(await reversed.json()).toEqual({ error: 'The from date must be on or before the to date' });
+  });
+
+  it('only offers custom date ranges with Last.fm as the listening source', async () => {
+    mockDb = createMockDb({ ...mockUser, listenbrainz_username: 'lb-user', listening_source: 'listenbrainz' });
+
+    const res = await request('/user-top-tracks?username=testuser&period=custom&from=2025-10-01&to=2025-10-07');
+
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,245 @@
+// ABOUTME: Tests for webhook signing, delivery with retry backoff and auto-disable, and webhook management.
+// ABOUTME: Covers the delivery helpers, the /api/v1/webhooks routes and the account page form.
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import type { ApiKeyScope, ParsedWebhook, WebhookDelivery } from '@listentomore/db';
+import { webhookRoutes } from '../../api/v1/webhooks';
+import { handleAccountWebhookCreate } from '../../pages/account/webhooks';
+import { generateCsrfToken } from '../../utils/csrf';
+import {
+  WEBHOOK_DISABLE_AFTER_FAILURES,
+  WEBHOOK_MAX_ATTEMPTS,
+  attemptWebhookDelivery,
+  dispatchWebhookEvent,
+  nowPlayingChanged,
+  retryWebhookDeliveries,
+  signWebhookPayload,
+} from '../../utils/webhooks';
+import { createMockKV, setupFetchMock } from '../utils/mocks';
+
+const webhook: ParsedWebhook = {
+  id: 'hook-1',
+  user_id: 'user-123',
+  api_key_id: null,
+  url: 'https://example.com/hook',
+  secret: 'whsec_test',
+  events: ['now_playing.changed'],
+  enabled: true,
+  consecutive_failures: 0,
+  disabled_at: null,
+  last_delivery_at: null,
+  created_at: '2026-10-01 10:00:00',
+};
+
+function delivery(overrides: Partial<WebhookDelivery> = {}): WebhookDelivery {
+  return {
+    id: 'delivery-1',
+    webhook_id: 'hook-1',
+    event: 'now_playing.changed',
+    payload: '{"a":1}',
+    status: 'pending',
+    attempts: 0,
+    next_attempt_at: '2026-10-19 10:00:00',
+    response_status: null,
+    error: null,
+    created_at: '2026-10-19 10:00:00',
+    updated_at: '2026-10-19 10:00:00',
+    ...overrides,
+  };
+}
+
+function createMockDb() {
+  return {
+    recordWebhookAttempt: vi.fn().mockResolvedValue(undefined),
+    getWebhooksForEvent: vi.fn().mockResolvedValue([webhook]),
+    createWebhookDelivery: vi.fn().mockImplementation(async (data: { id: string; payload: string }) =>
+      delivery({ id: data.id, payload: data.payload })
+    ),
+    getDueWebhookDeliveries: vi.fn().mockResolvedValue([]),
+    getWebhook: vi.fn().mockResolvedValue(webhook),
+    listWebhooks: vi.fn().mockResolvedValue([]),
+    createWebhook: vi.fn().mockImplementation(async (data: { url: string; events: string[] }) => ({
+      ...webhook,
+      id: 'hook-new',
+      url: data.url,
+      events: data.events,
+    })),
+    listWebhookDeliveries: vi.fn().mockResolvedValue([delivery()]),
+  };
+}
+
+describe('webhook delivery', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+
+  beforeEach(() => {
+    mockDb = createMockDb();
+  });
+
+  it('signs the timestamp and body with HMAC-SHA256', async () => {
+    expect(await signWebhookPayload('whsec_test', 1700000000, '{"a":1}')).toBe(
+      '38877139021993b830af32feea6e18a8da83eb2f6e49ee50bd9e4cf4ca4d3789'
+    );
+  });
+
+  it('posts the signed payload and records a success', async () => {
+    const mockFetch = setupFetchMock([{ pattern: 'example.com/hook', response: { ok: true } }]);
+
+    expect(await attemptWebhookDelivery(mockDb as never, webhook, delivery())).toBe(true);
+
+    const [, init] = mockFetch.mock.calls[0];
+    const headers = init?.headers as Record<string, string>;
+    const [, timestamp, signature] = headers['X-ListenToMore-Signature'].match(/^t=(\d+),v1=([0-9a-f]{64})$/)!;
+    expect(signature).toBe(await signWebhookPayload('whsec_test', Number(timestamp), '{"a":1}'));
+    expect(headers['X-ListenToMore-Delivery']).toBe('delivery-1');
+    expect(mockDb.recordWebhookAttempt).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'delivery-1' }),
+      expect.objectContaining({ status: 'succeeded', attempts: 1, nextAttemptAt: null, responseStatus: 200 }),
+      WEBHOOK_DISABLE_AFTER_FAILURES
+    );
+  });
+
+  it('schedules a retry with backoff, then fails the delivery after the last attempt', async () => {
+    setupFetchMock([{ pattern: 'example.com/hook', response: {}, options: { status: 500, ok: false } }]);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T10:00:00Z'));
+
+    await attemptWebhookDelivery(mockDb as never, webhook, delivery());
+    await attemptWebhookDelivery(mockDb as never, webhook, delivery({ attempts: WEBHOOK_MAX_ATTEMPTS - 1 }));
+    vi.useRealTimers();
+
+    expect(mockDb.recordWebhookAttempt.mock.calls[0][1]).toEqual({
+      status: 'pending',
+      attempts: 1,
+      nextAttemptAt: '2026-10-19 10:05:00',
+      responseStatus: 500,
+      error: 'HTTP 500',
+    });
+    expect(mockDb.recordWebhookAttempt.mock.calls[1][1]).toMatchObject({
+      status: 'failed',
+      attempts: WEBHOOK_MAX_ATTEMPTS,
+      nextAttemptAt: null,
+    });
+  });
+
+  it('queues and sends an event to each subscribed webhook', async () => {
+    const mockFetch = setupFetchMock([{ pattern: 'example.com/hook', response: {} }]);
+
+    const sent = await dispatchWebhookEvent(mockDb as never, 'user-123', 'now_playing.changed', { username: 'testuser' });
+
+    expect(sent).toBe(1);
+    const payload = JSON.parse(mockFetch.mock.calls[0][1]?.body as string);
+    expect(payload).toMatchObject({ type: 'now_playing.changed', data: { username: 'testuser' } });
+    expect(mockDb.createWebhookDelivery).toHaveBeenCalledWith(expect.objectContaining({ id: payload.id, webhookId: 'hook-1' }));
+  });
+
+  it('skips retries for webhooks disabled since the delivery was queued', async () => {
+    const mockFetch = setupFetchMock([{ pattern: 'example.com/hook', response: {} }]);
+    mockDb.getDueWebhookDeliveries.mockResolvedValue([delivery({ attempts: 1 }), delivery({ id: 'delivery-2', attempts: 2 })]);
+    mockDb.getWebhook.mockResolvedValueOnce(webhook).mockResolvedValueOnce({ ...webhook, enabled: false });
+
+    const result = await retryWebhookDeliveries(mockDb as never);
+
+    expect(result).toEqual({ attempted: 2, succeeded: 1 });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('detects a new now-playing track', () => {
+    const track = { artist: 'Radiohead', album: 'In Rainbows', track: 'Reckoner', image: null };
+
+    expect(nowPlayingChanged(null, { ...track, nowPlaying: true })).toBe(true);
+    expect(nowPlayingChanged({ ...track, nowPlaying: true }, { ...track, nowPlaying: true })).toBe(false);
+    expect(nowPlayingChanged({ ...track, nowPlaying: true }, { ...track, track: 'Nude', nowPlaying: true })).toBe(true);
+    expect(nowPlayingChanged({ ...track, nowPlaying: false }, { ...track, nowPlaying: true })).toBe(true);
+    expect(nowPlayingChanged({ ...track, nowPlaying: true }, { ...track, track: 'Nude', nowPlaying: false })).toBe(false);
+  });
+});
+
+describe('/api/v1/webhooks', () => {
+  let mockDb: ReturnType<typeof createMockDb> & { getUser: ReturnType<typeof vi.fn> };
+  let scopes: ApiKeyScope[];
+
+  function request(method: string, path: string, body?: unknown) {
+    const app = new Hono();
+    app.use('*', async (c, next) => {
+      c.set('db' as never, mockDb as never);
+      c.set('apiKey' as never, { id: 'key-1', user_id: 'user-123', tier: 'standard', scopes } as never);
+      await next();
+    });
+    app.route('/api/v1/webhooks', webhookRoutes as unknown as Hono);
+    return app.request(path, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  }
+
+  beforeEach(() => {
+    mockDb = { ...createMockDb(), getUser: vi.fn().mockResolvedValue({ id: 'user-123', username: 'testuser' }) };
+    scopes = ['read', 'write'];
+  });
+
+  it('registers a webhook and returns its signing secret once', async () => {
+    const res = await request('POST', '/api/v1/webhooks', { url: 'https://example.com/hook', events: ['insights.weekly'] });
+    const { data } = (await res.json()) as { data: { id: string; secret: string } };
+
+    expect(res.status).toBe(201);
+    expect(data.secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+    expect(mockDb.createWebhook).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-123', apiKeyId: 'key-1', events: ['insights.weekly'], secret: data.secret })
+    );
+
+    const list = await request('GET', '/api/v1/webhooks');
+    expect(JSON.stringify(await list.json())).not.toContain('secret');
+  });
+
+  it('validates the URL, events and scope', async () => {
+    const insecure = await request('POST', '/api/v1/webhooks', { url: 'http://example.com/hook', events: ['insights.weekly'] });
+    const internal = await request('POST', '/api/v1/webhooks', { url: 'https://127.0.0.1/hook', events: ['insights.weekly'] });
+    const unknownEvent = await request('POST', '/api/v1/webhooks', { url: 'https://example.com/hook', events: ['insights.weekly', 'scrobble'] });
+    scopes = ['read'];
+    const readOnly = await request('POST', '/api/v1/webhooks', { url: 'https://example.com/hook', events: ['insights.weekly'] });
+
+    expect([insecure.status, internal.status, unknownEvent.status, readOnly.status]).toEqual([400, 400, 400, 403]);
+    expect(mockDb.createWebhook).not.toHaveBeenCalled();
+  });
+
+  it("only shows deliveries for the key owner's webhooks", async () => {
+    const own = await request('GET', '/api/v1/webhooks/hook-1/deliveries');
+    mockDb.getWebhook.mockResolvedValue({ ...webhook, user_id: 'someone-else' });
+    const other = await request('GET', '/api/v1/webhooks/hook-1/deliveries');
+
+    expect(own.status).toBe(200);
+    expect(await own.json()).toMatchObject({ data: [{ id: 'delivery-1', status: 'pending', payload: { a: 1 } }] });
+    expect(other.status).toBe(404);
+  });
+});
+
+describe('POST /account/webhooks', () => {
+  it('creates a webhook and holds its secret for the next account page view', async () => {
+    const mockDb = createMockDb();
+    const env = { INTERNAL_API_SECRET: 'test-secret', CACHE: createMockKV() };
+    const app = new Hono();
+    app.use('*', async (c, next) => {
+      c.set('db' as never, mockDb as never);
+      c.set('currentUser' as never, { id: 'user-123', username: 'testuser' } as never);
+      c.set('sessionId' as never, 'session-1' as never);
+      await next();
+    });
+    app.post('/account/webhooks', handleAccountWebhookCreate as never);
+
+    const form = new FormData();
+    form.set('csrf_token', await generateCsrfToken('test-secret', 'session-1'));
+    form.set('url', 'https://example.com/hook');
+    form.append('events', 'now_playing.changed');
+    form.append('events', 'insights.weekly');
+    const res = await app.request('/account/webhooks', { method: 'POST', body: form }, env);
+
+    expect(res.status).toBe(302);
+    expect(res.headers.get('Location')).toBe('/account#webhooks');
+    expect(mockDb.createWebhook).toHaveBeenCalledWith(
+      expect.objectContaining({ url: 'https://example.com/hook', events: ['now_playing.changed', 'insights.weekly'] })
+    );
+    expect(await env.CACHE.get('account:new-webhook-secret:session-1')).toMatch(/^whsec_/);
+  });
+});
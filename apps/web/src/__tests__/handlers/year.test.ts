@@ -0,0 +1,167 @@
+// ABOUTME: Tests for the year in review page handler and its stats helpers.
+// ABOUTME: Covers privacy, year validation, streak/busiest-month math and per-user/year caching.
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { handleUserYear } from '../../pages/user/year';
+import { findLongestStreak, isValidReviewYear } from '../../utils/year-in-review';
+import { createMockKV } from '../utils/mocks';
+
+const mockUser = {
+  id: 'user-123',
+  username: 'testuser',
+  lastfm_username: 'testuser',
+  bio: null,
+  profile_visibility: 'public' as 'public' | 'private',
+};
+
+function createMockDb(user = mockUser) {
+  return {
+    getUserByLastfmUsername: vi.fn().mockResolvedValue(user),
+    getUserByUsername: vi.fn().mockResolvedValue(null),
+    getScrobbleSyncState: vi.fn().mockResolvedValue({
+      oldest_played_at: '2019-06-01T00:00:00.000Z',
+      backfill_completed_at: null,
+    }),
+    getScrobbleCount: vi.fn().mockResolvedValue(1234),
+    getTopScrobbledArtists: vi.fn().mockResolvedValue([{ artist: 'Radiohead', plays: 300 }]),
+    getTopScrobbledAlbums: vi.fn().mockResolvedValue([
+      { artist: 'Radiohead', album: 'In Rainbows', plays: 120, image_url: null },
+    ]),
+    getTopScrobbledTracks: vi.fn().mockResolvedValue([{ artist: 'Radiohead', track: 'Reckoner', plays: 40 }]),
+    getScrobbleDailyCounts: vi.fn().mockResolvedValue([
+      { day: '2024-03-01', plays: 10 },
+      { day: '2024-03-02', plays: 20 },
+      { day: '2024-03-03', plays: 30 },
+      { day: '2024-07-10', plays: 5 },
+    ]),
+    getNewScrobbledArtists: vi.fn().mockResolvedValue({
+      total: 7,
+      artists: [{ artist: 'Slowdive', plays: 50, first_played_at: '2024-02-14T10:00:00.000Z' }],
+    }),
+  };
+}
+
+type TestVariables = {
+  currentUser: { id: string } | null;
+  db: ReturnType<typeof createMockDb>;
+  internalToken: string;
+};
+
+describe('User Year in Review Handler', () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+  let currentUser: { id: string } | null;
+  let env: { LASTFM_API_KEY: string; CACHE: KVNamespace };
+
+  function createApp() {
+    const app = new Hono<{ Variables: TestVariables }>();
+    app.use('*', async (c, next) => {
+      c.set('currentUser', currentUser);
+      c.set('db', mockDb);
+      c.set('internalToken', 'token');
+      await next();
+    });
+    app.get('/u/:username/year/:year', handleUserYear);
+    return app;
+  }
+
+  beforeEach(() => {
+    mockDb = createMockDb();
+    currentUser = null;
+    env = { LASTFM_API_KEY: 'test-key', CACHE: createMockKV() };
+  });
+
+  it('hides private profiles from other users', async () => {
+    mockDb = createMockDb({ ...mockUser, profile_visibility: 'private' });
+    currentUser = { id: 'someone-else' };
+
+    const res = await createApp().request('/u/testuser/year/2024', {}, env);
+    const html = await res.text();
+
+    expect(html).toContain('Private Profile');
+    expect(mockDb.getScrobbleCount).not.toHaveBeenCalled();
+  });
+
+  it('redirects invalid years to the current year', async () => {
+    const res = await createApp().request('/u/testuser/year/1999', {}, env);
+
+    expect(res.status).toBe(302);
+    expect(res.headers.get('Location')).toBe(`/u/testuser/year/${new Date().getUTCFullYear()}`);
+  });
+
+  it('renders totals, top lists, busiest month, streak and discoveries', async () => {
+    const res = await createApp().request('/u/testuser/year/2024', {}, env);
+    const html = await res.text();
+
+    expect(res.status).toBe(200);
+    expect(html).toContain('2024 in Music');
+    expect(html).toContain('1,234');
+    expect(html).toContain('Radiohead');
+    expect(html).toContain('In Rainbows');
+    expect(html).toContain('Reckoner');
+    expect(html).toContain('March'); // busiest month
+    expect(html).toContain('3 days'); // longest streak
+    expect(html).toContain('Slowdive');
+    expect(mockDb.getScrobbleCount).toHaveBeenCalledWith('user-123', {
+      from: '2024-01-01T00:00:00.000Z',
+      to: '2025-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('skips discoveries while the archive does not reach back before the year', async () => {
+    mockDb.getScrobbleSyncState.mockResolvedValue({
+      oldest_played_at: '2024-05-01T00:00:00.000Z',
+      backfill_completed_at: null,
+    });
+
+    const res = await createApp().request('/u/testuser/year/2024', {}, env);
+    const html = await res.text();
+
+    expect(html).toContain('still being imported');
+    expect(html).not.toContain('Discoveries');
+    expect(mockDb.getNewScrobbledArtists).not.toHaveBeenCalled();
+  });
+
+  it('gates the AI narrative behind sign-in', async () => {
+    const anonymous = await (await createApp().request('/u/testuser/year/2024', {}, env)).text();
+    expect(anonymous).not.toContain('id="year-narrative"');
+
+    currentUser = { id: 'someone-else' };
+    const signedIn = await (await createApp().request('/u/testuser/year/2024', {}, env)).text();
+    expect(signedIn).toContain('id="year-narrative"');
+  });
+
+  it('caches the review per user and year', async () => {
+    await createApp().request('/u/testuser/year/2024', {}, env);
+    await createApp().request('/u/testuser/year/2024', {}, env);
+    await createApp().request('/u/testuser/year/2023', {}, env);
+
+    expect(mockDb.getScrobbleCount).toHaveBeenCalledTimes(2);
+    expect(env.CACHE.put).toHaveBeenCalledWith('year-in-review:user-123:2024', expect.any(String), expect.any(Object));
+  });
+});
+
+describe('findLongestStreak', () => {
+  it('returns null without plays', () => {
+    expect(findLongestStreak([])).toBeNull();
+  });
+
+  it('finds the longest run of consecutive days, across month boundaries', () => {
+    expect(findLongestStreak(['2024-01-30', '2024-01-31', '2024-02-01', '2024-02-05', '2024-02-06'])).toEqual({
+      days: 3,
+      start: '2024-01-30',
+      end: '2024-02-01',
+    });
+  });
+});
+
+describe('isValidReviewYear', () => {
+  it('accepts years from 2002 through the current year', () => {
+    const now = new Date('2026-06-01T00:00:00Z');
+    expect(isValidReviewYear(2002, now)).toBe(true);
+    expect(isValidReviewYear(2026, now)).toBe(true);
+    expect(isValidReviewYear(2001, now)).toBe(false);
+    expect(isValidReviewYear(2027, now)).toBe(false);
+    expect(isValidReviewYear(NaN, now)).toBe(false);
+  });
+});
@@ -0,0 +1,166 @@
+// userRateLimitMiddleware and RateLimiter Durable Object tests
+// The middleware tests run the real RateLimiter in workerd through miniflare's RATE_LIMITER binding
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { Miniflare } from 'miniflare';
+import ts from 'typescript';
+import { Database } from '@listentomore/db';
+import { userRateLimitMiddleware } from '../../middleware/auth';
+import { SlidingWindowCounter } from '../../durable-objects/rate-limiter';
+
+// The Durable Object module has no imports, so transpiling it is enough for workerd.
+// Paths resolve from apps/web, where vitest runs.
+function rateLimiterWorker(): string {
+  const source = ts.sys.readFile('src/durable-objects/rate-limiter.ts');
+  if (!source) throw new Error('Could not read src/durable-objects/rate-limiter.ts');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+  });
+  return `${outputText}\nexport default { fetch: () => new Response(null, { status: 404 }) };`;
+}
+
+const standardKey: { id: string; tier: string; rate_limit_rpm: number | null } = {
+  id: 'key-1',
+  tier: 'standard',
+  rate_limit_rpm: null,
+};
+
+describe('SlidingWindowCounter', () => {
+  const config = { limit: 3, dailyQuota: 5 };
+  const start = Date.UTC(2026, 9, 19, 12, 0, 0);
+
+  it('frees slots as requests leave the sliding minute', () => {
+    const counter = new SlidingWindowCounter();
+    counter.consume(config, start);
+    counter.consume(config, start + 20_000);
+    counter.consume(config, start + 40_000);
+
+    const limited = counter.consume(config, start + 50_000);
+    expect(limited).toMatchObject({ allowed: false, exceeded: 'minute', remaining: 0, retryAfter: 10 });
+
+    // The first request expires at start + 60s
+    expect(counter.consume(config, start + 60_001).allowed).toBe(true);
+  });
+
+  it('enforces the daily quota until midnight UTC', () => {
+    const counter = new SlidingWindowCounter();
+    for (let i = 0; i < 5; i++) {
+      counter.consume(config, start + i * 61_000);
+    }
+
+    const limited = counter.consume(config, start + 10 * 61_000);
+    expect(limited).toMatchObject({ allowed: false, exceeded: 'daily', dailyRemaining: 0 });
+    expect(limited.retryAfter).toBe(Math.floor((Date.UTC(2026, 9, 20) - (start + 10 * 61_000)) / 1000));
+
+    expect(counter.consume(config, Date.UTC(2026, 9, 20, 0, 0, 1)).allowed).toBe(true);
+  });
+});
+
+describe('userRateLimitMiddleware', () => {
+  let mf: Miniflare;
+  let env: { RATE_LIMITER: unknown };
+  let db: Database;
+  let keyCount = 0;
+
+  // A fresh key id per test keeps each test on its own Durable Object instance
+  const uniqueKey = (overrides: Partial<typeof standardKey> = {}) => ({
+    ...standardKey,
+    id: `key-${++keyCount}`,
+    ...overrides,
+  });
+
+  function createApp(apiKey: typeof standardKey | null) {
+    const app = new Hono<{ Variables: { apiKey: typeof standardKey | null; db: Database } }>();
+    app.use('*', async (c, next) => {
+      c.set('apiKey', apiKey);
+      c.set('db', db);
+      await next();
+    });
+    app.use('*', userRateLimitMiddleware());
+    app.get('/api/v1/test', (c) => c.json({ ok: true }));
+    return app;
+  }
+
+  beforeAll(async () => {
+    mf = new Miniflare({
+      modules: true,
+      script: rateLimiterWorker(),
+      durableObjects: { RATE_LIMITER: 'RateLimiter' },
+    });
+    env = { RATE_LIMITER: await mf.getDurableObjectNamespace('RATE_LIMITER') };
+  });
+
+  afterAll(async () => {
+    await mf.dispose();
+  });
+
+  beforeEach(() => {
+    db = new Database({} as D1Database);
+    vi.spyOn(db, 'incrementApiKeyUsage').mockResolvedValue(undefined);
+  });
+
+  it('sets per-minute and daily headers', async () => {
+    const res = await createApp(uniqueKey()).request('/api/v1/test', {}, env);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('X-RateLimit-Limit')).toBe('60');
+    expect(res.headers.get('X-RateLimit-Remaining')).toBe('59');
+    expect(res.headers.get('X-RateLimit-Daily-Limit')).toBe('10000');
+    expect(res.headers.get('X-RateLimit-Daily-Remaining')).toBe('9999');
+    expect(Number(res.headers.get('X-RateLimit-Reset'))).toBeGreaterThan(Date.now() / 1000);
+    expect(res.headers.get('X-RateLimit-Tier')).toBe('standard');
+  });
+
+  it('allows exactly the limit under concurrent requests', async () => {
+    const app = createApp(uniqueKey());
+
+    const responses = await Promise.all(
+      Array.from({ length: 100 }, () => app.request('/api/v1/test', {}, env))
+    );
+    const allowed = responses.filter((res) => res.status === 200);
+    const limited = responses.filter((res) => res.status === 429);
+    const header = (list: Response[], name: string) => list.map((res) => res.headers.get(name));
+
+    expect(allowed).toHaveLength(60);
+    expect(limited).toHaveLength(40);
+    // Every allowed request took its own slot, so each remaining count appears exactly once
+    expect(header(allowed, 'X-RateLimit-Remaining').map(Number).sort((a, b) => a - b)).toEqual(
+      Array.from({ length: 60 }, (_, i) => i)
+    );
+    expect(header(allowed, 'X-RateLimit-Daily-Remaining').map(Number).sort((a, b) => a - b)).toEqual(
+      Array.from({ length: 60 }, (_, i) => 9940 + i)
+    );
+    expect(new Set(header(responses, 'X-RateLimit-Limit'))).toEqual(new Set(['60']));
+    expect(new Set(header(limited, 'X-RateLimit-Remaining'))).toEqual(new Set(['0']));
+    for (const retryAfter of header(limited, 'Retry-After').map(Number)) {
+      expect(retryAfter).toBeGreaterThan(0);
+      expect(retryAfter).toBeLessThanOrEqual(60);
+    }
+    expect(db.incrementApiKeyUsage).toHaveBeenCalledTimes(60);
+  });
+
+  it('honors a per-key rate_limit_rpm override', async () => {
+    const app = createApp(uniqueKey({ rate_limit_rpm: 2 }));
+
+    const statuses: number[] = [];
+    for (let i = 0; i < 3; i++) {
+      statuses.push((await app.request('/api/v1/test', {}, env)).status);
+    }
+
+    expect(statuses).toEqual([200, 200, 429]);
+  });
+
+  it('limits unauthenticated requests per client IP at the public tier', async () => {
+    const app = createApp(null);
+    const request = (ip: string) =>
+      app.request('/api/v1/test', { headers: { 'CF-Connecting-IP': ip } }, env);
+
+    for (let i = 0; i < 10; i++) {
+      await request('203.0.113.1');
+    }
+
+    expect((await request('203.0.113.1')).status).toBe(429);
+    expect((await request('203.0.113.2')).status).toBe(200);
+  });
+});
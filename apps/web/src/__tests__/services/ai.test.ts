@@ -1,7 +1,7 @@
 // AIService integration tests
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { OpenAIClient, AICache, AIRateLimiter, AnthropicClient, AIService, buildUserInsightsMessages, generateUserInsightsSummary, containsForbiddenConstruction, USER_INSIGHTS_PROMPT_VERSION, generateArtistSummary, generateArtistSentence } from '@listentomore/ai';
+import { OpenAIClient, AICache, AIRateLimiter, AnthropicClient, AIService, buildUserInsightsMessages, generateUserInsightsSummary, containsForbiddenConstruction, USER_INSIGHTS_PROMPT_VERSION, generateArtistSummary, generateArtistSentence, buildTasteCompatibilityMessages, generateTasteCompatibilityBlurb, type TasteCompatibilityData, generateYearInReviewNarrative, type YearInReviewData } from '@listentomore/ai';
 import { getTaskConfig } from '@listentomore/config';
 import { createMockKV, setupFetchMock } from '../utils/mocks';
 
@@ -422,7 +422,7 @@ describe('AIService.getClientForTask', () => {
 });
 
 const insightsSample = {
-  weeklyPlayCount: 73,
+  playCount: 73,
   topArtists: [
     { name: 'Siiga', playcount: 39 },
     { name: 'Celer', playcount: 39 },
@@ -499,6 +499,31 @@ describe('generateUserInsightsSummary cache key', () => {
       expect.any(Object)
     );
   });
+
+  it('keys non-weekly periods separately from the weekly summary', async () => {
+    const mockKV = createMockKV();
+    const cache = new AICache(mockKV);
+    setupFetchMock([
+      { pattern: /api\.anthropic\.com/, response: { model: 'claude-sonnet-4-6', content: [{ type: 'text', text: 'warm' }], usage: { input_tokens: 1, output_tokens: 1 } } },
+    ]);
+    const period = { key: '1month', label: 'in the past 30 days', span: 'the past 30 days', noun: 'month' };
+    await generateUserInsightsSummary('Bordesak', { ...insightsSample, period }, new AnthropicClient('k'), cache);
+    expect(mockKV.get).toHaveBeenCalledWith('ai:userInsightsSummary:bordesak:1month:v3', 'json');
+  });
+});
+
+describe('buildUserInsightsMessages — periods', () => {
+  it('keeps the weekly wording by default', () => {
+    const user = buildUserInsightsMessages(insightsSample)[1].content;
+    expect(user).toContain('Total plays this week: 73');
+  });
+
+  it('describes the requested period', () => {
+    const period = { key: '3month', label: 'in the past 3 months', span: 'the past 3 months', noun: 'three months' };
+    const user = buildUserInsightsMessages({ ...insightsSample, period })[1].content;
+    expect(user).toContain('Total plays in the past 3 months: 73');
+    expect(user).toContain('Top artists in the past 3 months:');
+  });
 });
 
 describe('containsForbiddenConstruction', () => {
@@ -578,3 +603,72 @@ describe('userInsightsSummary provider flip', () => {
     expect(ai.getClientForTask('userInsightsSummary')).toBe(ai.anthropic);
   });
 });
+
+describe('taste compatibility blurb', () => {
+  const data: TasteCompatibilityData = {
+    score: 42,
+    sharedArtists: ['Radiohead'],
+    sharedAlbums: [{ name: 'In Rainbows', artist: 'Radiohead' }],
+    user: { username: 'Bordesak', uniqueArtists: ['Siiga'], uniqueAlbums: [] },
+    other: { username: 'friend', uniqueArtists: ['Burial'], uniqueAlbums: [{ name: 'Untrue', artist: 'Burial' }] },
+  };
+
+  it('names both listeners and what each plays alone', () => {
+    const user = buildTasteCompatibilityMessages(data)[1].content;
+    expect(user).toContain('Bordesak and friend');
+    expect(user).toContain('- In Rainbows by Radiohead');
+    expect(user).toContain('Only friend listens to:\n- Burial\n- Untrue by Burial');
+  });
+
+  it('caches one blurb per pair, whichever side the comparison starts from', async () => {
+    const mockKV = createMockKV();
+    const cache = new AICache(mockKV);
+    const client = { chatCompletion: vi.fn().mockResolvedValue({ content: 'You two would get on.' }) };
+
+    await generateTasteCompatibilityBlurb(data, client, cache);
+    const reversed = await generateTasteCompatibilityBlurb({ ...data, user: data.other, other: data.user }, client, cache);
+
+    expect(client.chatCompletion).toHaveBeenCalledTimes(1);
+    expect(reversed.content).toBe('You two would get on.');
+    expect(mockKV.put).toHaveBeenCalledWith('ai:tasteCompatibility:bordesak:friend:v1', expect.any(String), {
+      expirationTtl: 7 * 86400,
+    });
+  });
+});
+
+describe('year in review narrative', () => {
+  const data: YearInReviewData = {
+    year: 2025,
+    totalPlays: 5000,
+    daysListened: 300,
+    topArtists: [{ name: 'Radiohead', playcount: 400 }],
+    topAlbums: [{ name: 'In Rainbows', artist: 'Radiohead', playcount: 120 }],
+    topTracks: [{ name: 'Reckoner', artist: 'Radiohead', playcount: 40 }],
+    newArtists: [{ name: 'Siiga', playcount: 60 }],
+    newArtistCount: 12,
+    busiestMonth: { month: 'March', playcount: 700 },
+    longestStreak: { days: 45, start: '2025-02-01', end: '2025-03-17' },
+    inProgress: false,
+    historyComplete: true,
+  };
+
+  async function cachedTtl(overrides: Partial<YearInReviewData>) {
+    const mockKV = createMockKV();
+    const client = { chatCompletion: vi.fn().mockResolvedValue({ content: 'What a year.' }) };
+
+    await generateYearInReviewNarrative('Bordesak', { ...data, ...overrides }, client, new AICache(mockKV));
+
+    return vi.mocked(mockKV.put).mock.calls[0][2];
+  }
+
+  it('caches a finished, fully imported year for the task TTL', async () => {
+    expect(await cachedTtl({})).toEqual({ expirationTtl: 365 * 86400 });
+  });
+
+  it('caches briefly while the year is running or its history is still being imported', async () => {
+    expect(await cachedTtl({ inProgress: true })).toEqual({ expirationTtl: 86400 });
+    expect(await cachedTtl({ historyComplete: false, newArtists: null, newArtistCount: null })).toEqual({
+      expirationTtl: 86400,
+    });
+  });
+});
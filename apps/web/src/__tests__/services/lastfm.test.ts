@@ -1,7 +1,19 @@
 // LastfmService integration tests
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { RecentTracks, TopAlbums, TopArtists, LovedTracks } from '@listentomore/lastfm';
+import {
+  RecentTracks,
+  TopAlbums,
+  TopArtists,
+  TopTracks,
+  WeeklyCharts,
+  ArtistDetails,
+  LovedTracks,
+  Friends,
+  LastfmWriteClient,
+  LastfmSessionError,
+  lastfmSignature,
+} from '@listentomore/lastfm';
 import { createMockKV, setupFetchMock } from '../utils/mocks';
 
 const mockConfig = { apiKey: 'test-api-key', username: 'testuser' };
@@ -80,6 +92,99 @@ describe('RecentTracks', () => {
     });
   });
 
+  describe('getRecentTracksPage', () => {
+    it('passes paging and time range params and returns page metadata', async () => {
+      const response = {
+        recenttracks: {
+          track: [
+            { name: 'Reckoner', artist: { '#text': 'Radiohead' }, album: { '#text': 'In Rainbows' }, url: 'url', image: [], date: { uts: '1700000000' } },
+          ],
+          '@attr': { page: '3', perPage: '200', totalPages: '12', total: '2345' },
+        },
+      };
+      const mockFetch = setupFetchMock([{ pattern: /ws\.audioscrobbler\.com/, response }]);
+
+      const result = await recentTracks.getRecentTracksPage({ page: 3, from: 1690000000, to: 1700000100 });
+
+      const url = mockFetch.mock.calls[0][0].toString();
+      expect(url).toContain('limit=200');
+      expect(url).toContain('page=3');
+      expect(url).toContain('from=1690000000');
+      expect(url).toContain('to=1700000100');
+      expect(result.page).toBe(3);
+      expect(result.totalPages).toBe(12);
+      expect(result.total).toBe(2345);
+      expect(result.tracks[0].playedAt).toBe('2023-11-14T22:13:20.000Z');
+    });
+
+    it('defaults to zero pages when Last.fm omits metadata', async () => {
+      setupFetchMock([{ pattern: /ws\.audioscrobbler\.com/, response: { recenttracks: { track: [] } } }]);
+
+      const result = await recentTracks.getRecentTracksPage();
+
+      expect(result.tracks).toEqual([]);
+      expect(result.totalPages).toBe(0);
+    });
+
+    it('caches pages of a range that has ended, but not live pages', async () => {
+      const cache = createMockKV();
+      const cachedTracks = new RecentTracks(mockConfig, cache);
+      const mockFetch = setupFetchMock([{ pattern: /ws\.audioscrobbler\.com/, response: { recenttracks: { track: [] } } }]);
+
+      await cachedTracks.getRecentTracksPage({ from: 1690000000, to: 1700000000 });
+      await cachedTracks.getRecentTracksPage({ from: 1690000000, to: 1700000000 });
+      await cachedTracks.getRecentTracksPage({ from: 1690000000 });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(cache.put).toHaveBeenCalledTimes(1);
+      expect(cache.put).toHaveBeenCalledWith(
+        'lastfm:recenttracks:testuser:1690000000-1700000000:200:page:1',
+        expect.any(String),
+        { expirationTtl: 86400 }
+      );
+    });
+  });
+
+  describe('getRecentTracksInRange', () => {
+    it('walks every page of the range and leaves out the now-playing track', async () => {
+      const page = (n: number, tracks: unknown[]) => ({
+        recenttracks: { track: tracks, '@attr': { page: String(n), perPage: '200', totalPages: '2', total: '3' } },
+      });
+      const track = (name: string, uts?: string) => ({
+        name,
+        artist: { '#text': 'Radiohead' },
+        album: { '#text': 'In Rainbows' },
+        url: 'url',
+        image: [],
+        ...(uts ? { date: { uts } } : { '@attr': { nowplaying: 'true' } }),
+      });
+      const mockFetch = setupFetchMock([
+        { pattern: /page=1&/, response: page(1, [track('Nude'), track('Reckoner', '1700000000'), track('Videotape', '1699999000')]) },
+        { pattern: /page=2&/, response: page(2, [track('Bodysnatchers', '1699998000')]) },
+      ]);
+
+      const result = await recentTracks.getRecentTracksInRange(1690000000, 1700000100);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(result.tracks.map((t) => t.name)).toEqual(['Reckoner', 'Videotape', 'Bodysnatchers']);
+      expect(result.total).toBe(3);
+      expect(result.complete).toBe(true);
+    });
+
+    it('stops at maxPages and reports the range as incomplete', async () => {
+      setupFetchMock([
+        {
+          pattern: /ws\.audioscrobbler\.com/,
+          response: { recenttracks: { track: [], '@attr': { page: '1', perPage: '200', totalPages: '5', total: '1000' } } },
+        },
+      ]);
+
+      const result = await recentTracks.getRecentTracksInRange(1690000000, 1700000100, 1);
+
+      expect(result.complete).toBe(false);
+    });
+  });
+
   describe('getMostRecentTrack', () => {
     it('returns the first track', async () => {
       const response = {
@@ -290,6 +395,156 @@ describe('TopArtists', () => {
   });
 });
 
+describe('TopTracks', () => {
+  it('fetches and caches top tracks for a period', async () => {
+    const cache = createMockKV();
+    const topTracks = new TopTracks(mockConfig, cache);
+    const mockFetch = setupFetchMock([
+      {
+        pattern: /method=user\.gettoptracks/,
+        response: {
+          toptracks: {
+            track: [
+              {
+                name: 'Reckoner',
+                playcount: '12',
+                url: 'https://www.last.fm/music/Radiohead/_/Reckoner',
+                artist: { name: 'Radiohead', url: 'https://www.last.fm/music/Radiohead' },
+              },
+            ],
+          },
+        },
+      },
+    ]);
+
+    const result = await topTracks.getTopTracks('1month', 5);
+    await topTracks.getTopTracks('1month', 5);
+
+    expect(result).toEqual([
+      {
+        artist: 'Radiohead',
+        artistUrl: 'https://www.last.fm/music/Radiohead',
+        name: 'Reckoner',
+        playcount: 12,
+        url: 'https://www.last.fm/music/Radiohead/_/Reckoner',
+      },
+    ]);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch.mock.calls[0][0].toString()).toContain('period=1month&limit=5');
+  });
+});
+
+describe('WeeklyCharts', () => {
+  it('lists the available chart weeks', async () => {
+    setupFetchMock([
+      {
+        pattern: /method=user\.getweeklychartlist/,
+        response: { weeklychartlist: { chart: [{ '#text': '', from: '1699790400', to: '1700395200' }] } },
+      },
+    ]);
+
+    const result = await new WeeklyCharts(mockConfig).getWeeklyChartList();
+
+    expect(result).toEqual([{ from: 1699790400, to: 1700395200 }]);
+  });
+
+  it('maps artist, album and track charts for a range', async () => {
+    const mockFetch = setupFetchMock([
+      {
+        pattern: /method=user\.getweeklyartistchart/,
+        response: { weeklyartistchart: { artist: [{ name: 'Radiohead', playcount: '30', url: 'a-url', '@attr': { rank: '1' } }] } },
+      },
+      {
+        pattern: /method=user\.getweeklyalbumchart/,
+        response: {
+          weeklyalbumchart: {
+            album: [
+              { name: 'In Rainbows', artist: { '#text': 'Radiohead' }, playcount: '20', url: 'b-url', '@attr': { rank: '1' } },
+              { name: 'Kid A', artist: { '#text': 'Radiohead' }, playcount: '10', url: 'c-url', '@attr': { rank: '2' } },
+            ],
+          },
+        },
+      },
+      {
+        pattern: /method=user\.getweeklytrackchart/,
+        response: { weeklytrackchart: { track: [{ name: 'Reckoner', artist: { '#text': 'Radiohead' }, playcount: '5', url: 'd-url' }] } },
+      },
+    ]);
+    const charts = new WeeklyCharts(mockConfig);
+    const range = { from: 1699790400, to: 1700395200 };
+
+    const artists = await charts.getWeeklyArtistChart(range);
+    const albums = await charts.getWeeklyAlbumChart(range, 1);
+    const tracks = await charts.getWeeklyTrackChart(range);
+
+    expect(mockFetch.mock.calls[0][0].toString()).toContain('from=1699790400&to=1700395200');
+    expect(artists).toEqual([{ rank: 1, name: 'Radiohead', playcount: 30, url: 'a-url' }]);
+    expect(albums).toEqual([{ rank: 1, artist: 'Radiohead', name: 'In Rainbows', playcount: 20, url: 'b-url' }]);
+    expect(tracks).toEqual([{ rank: 1, artist: 'Radiohead', name: 'Reckoner', playcount: 5, url: 'd-url' }]);
+  });
+
+  it('caches charts for ended ranges longer than the latest week', async () => {
+    const cache = createMockKV();
+    const charts = new WeeklyCharts(mockConfig, cache);
+    setupFetchMock([{ pattern: /method=user\.getweeklyartistchart/, response: { weeklyartistchart: { artist: [] } } }]);
+
+    await charts.getWeeklyArtistChart({ from: 1699790400, to: 1700395200 }, 6);
+    await charts.getWeeklyArtistChart(undefined, 6);
+
+    expect(cache.put).toHaveBeenCalledWith('lastfm:weeklyartistchart:testuser:1699790400-1700395200:6', '[]', {
+      expirationTtl: 30 * 86400,
+    });
+    expect(cache.put).toHaveBeenCalledWith('lastfm:weeklyartistchart:testuser:latest:6', '[]', { expirationTtl: 3600 });
+  });
+});
+
+describe('ArtistDetails', () => {
+  describe('getTopTags', () => {
+    it('lowercases tags, drops "seen live" and years, and caches per artist', async () => {
+      const cache = createMockKV();
+      const artistDetails = new ArtistDetails(mockConfig, cache);
+      const mockFetch = setupFetchMock([
+        {
+          pattern: /method=artist\.getTopTags/,
+          response: {
+            toptags: {
+              tag: [
+                { name: 'Alternative', count: 100 },
+                { name: 'seen live', count: 60 },
+                { name: '90s', count: 40 },
+                { name: 'Electronic', count: '35' },
+                { name: 'unused', count: 0 },
+              ],
+            },
+          },
+        },
+      ]);
+
+      const result = await artistDetails.getTopTags(' Radiohead ');
+      await artistDetails.getTopTags('radiohead');
+
+      expect(result).toEqual([
+        { name: 'alternative', count: 100 },
+        { name: 'electronic', count: 35 },
+      ]);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(cache.put).toHaveBeenCalledWith('lastfm:artistTopTags:radiohead:10', JSON.stringify(result), {
+        expirationTtl: 30 * 86400,
+      });
+    });
+
+    it('throws on Last.fm errors', async () => {
+      setupFetchMock([
+        { pattern: /method=artist\.getTopTags/, response: { error: 6, message: 'The artist you supplied could not be found' } },
+      ]);
+
+      await expect(new ArtistDetails(mockConfig).getTopTags('Nobody')).rejects.toThrow(
+        'The artist you supplied could not be found'
+      );
+    });
+  });
+});
+
 describe('LovedTracks', () => {
   let lovedTracks: LovedTracks;
 
@@ -343,7 +598,118 @@ describe('LovedTracks', () => {
       const result = await lovedTracks.getLovedTracks(10);
 
       expect(result[0].dateLiked).toBe('');
+      expect(result[0].likedAt).toBeNull();
       expect(result[0].image).toBeNull();
     });
   });
 });
+
+describe('Friends', () => {
+  it('maps and caches the friends list', async () => {
+    const cache = createMockKV();
+    const friends = new Friends(mockConfig, cache);
+    const mockFetch = setupFetchMock([
+      {
+        pattern: /method=user\.getfriends/,
+        response: {
+          friends: {
+            user: [
+              {
+                name: 'siiga',
+                realname: 'Siiga',
+                url: 'https://www.last.fm/user/siiga',
+                image: [{ '#text': 'https://img/siiga.png', size: 'extralarge' }],
+              },
+              { name: 'quiet', url: 'https://www.last.fm/user/quiet', image: [] },
+            ],
+          },
+        },
+      },
+    ]);
+
+    const result = await friends.getFriends(10);
+    await friends.getFriends(10);
+
+    expect(result).toEqual([
+      { username: 'siiga', realname: 'Siiga', url: 'https://www.last.fm/user/siiga', image: 'https://img/siiga.png' },
+      { username: 'quiet', realname: '', url: 'https://www.last.fm/user/quiet', image: null },
+    ]);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(cache.put).toHaveBeenCalledWith('lastfm:friends:testuser:10', JSON.stringify(result), { expirationTtl: 6 * 3600 });
+  });
+
+  it('throws on Last.fm errors', async () => {
+    setupFetchMock([{ pattern: /method=user\.getfriends/, response: { error: 6, message: 'User not found' } }]);
+
+    await expect(new Friends(mockConfig).getFriends()).rejects.toThrow('User not found');
+  });
+});
+
+describe('LastfmWriteClient', () => {
+  const writeConfig = { apiKey: 'test-api-key', sharedSecret: 'secret', sessionKey: 'session-key' };
+
+  it('POSTs a signed track.love call with the session key', async () => {
+    const mockFetch = setupFetchMock([{ pattern: /ws\.audioscrobbler\.com/, response: {} }]);
+
+    await new LastfmWriteClient(writeConfig).loveTrack('Radiohead', 'Reckoner');
+
+    const [, init] = mockFetch.mock.calls[0];
+    expect(init?.method).toBe('POST');
+    const body = new URLSearchParams(init?.body as string);
+    expect(body.get('method')).toBe('track.love');
+    expect(body.get('sk')).toBe('session-key');
+    expect(body.get('format')).toBe('json');
+    expect(body.get('api_sig')).toBe(
+      lastfmSignature(
+        { artist: 'Radiohead', track: 'Reckoner', method: 'track.love', api_key: 'test-api-key', sk: 'session-key' },
+        'secret'
+      )
+    );
+  });
+
+  it('throws LastfmSessionError for an invalid session key', async () => {
+    setupFetchMock([
+      {
+        pattern: /ws\.audioscrobbler\.com/,
+        response: { error: 9, message: 'Invalid session key - Please re-authenticate' },
+        options: { status: 403, ok: false },
+      },
+    ]);
+
+    await expect(new LastfmWriteClient(writeConfig).unloveTrack('Radiohead', 'Reckoner')).rejects.toBeInstanceOf(
+      LastfmSessionError
+    );
+  });
+
+  it('throws a regular API error for other failures', async () => {
+    setupFetchMock([
+      { pattern: /ws\.audioscrobbler\.com/, response: { error: 16, message: 'Temporarily unavailable' }, options: { status: 500, ok: false } },
+    ]);
+
+    const error = await new LastfmWriteClient(writeConfig).loveTrack('Radiohead', 'Reckoner').catch((e) => e);
+    expect(error).not.toBeInstanceOf(LastfmSessionError);
+    expect(error.message).toContain('Temporarily unavailable');
+  });
+
+  it('scrobbles in batches of 50 with indexed params and sums the results', async () => {
+    const mockFetch = setupFetchMock([
+      { pattern: /ws\.audioscrobbler\.com/, response: { scrobbles: { '@attr': { accepted: '50', ignored: '0' } } } },
+    ]);
+    const scrobbles = Array.from({ length: 60 }, (_, i) => ({
+      artist: 'Radiohead',
+      track: `Track ${i + 1}`,
+      timestamp: 1700000000 + i * 200,
+      album: 'In Rainbows',
+    }));
+
+    const result = await new LastfmWriteClient(writeConfig).scrobbleTracks(scrobbles);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    const second = new URLSearchParams(mockFetch.mock.calls[1][1]?.body as string);
+    expect(second.get('method')).toBe('track.scrobble');
+    expect(second.get('track[0]')).toBe('Track 51');
+    expect(second.get('timestamp[9]')).toBe(String(1700000000 + 59 * 200));
+    expect(second.has('track[10]')).toBe(false);
+    expect(result).toEqual({ accepted: 100, ignored: 0 });
+  });
+});
@@ -26,7 +26,11 @@ export function createMockKV(): KVNamespace {
     delete: vi.fn(async (key: string) => {
       store.delete(key);
     }),
-    list: vi.fn(async () => ({ keys: [], list_complete: true, cacheStatus: null })),
+    list: vi.fn(async (options?: { prefix?: string }) => ({
+      keys: [...store.keys()].filter((name) => name.startsWith(options?.prefix ?? '')).map((name) => ({ name })),
+      list_complete: true,
+      cacheStatus: null,
+    })),
     getWithMetadata: vi.fn(async (key: string) => {
       const entry = store.get(key);
       if (!entry) return { value: null, metadata: null };
@@ -22,8 +22,8 @@ app.get('/', (c) => {
       hint: 'Include X-API-Key header for authenticated access',
     },
     rateLimits: {
-      standard: '60 req/min',
-      premium: '300 req/min',
+      standard: '60 req/min, 10,000 req/day',
+      premium: '300 req/min, 100,000 req/day',
     },
     endpoints: {
       v1: {
@@ -59,6 +59,30 @@ app.get('/', (c) => {
           endpoint: 'GET /api/v1/random-fact',
           optional: 'exclude=hash1,hash2 (comma-separated hashes to skip)',
         },
+        usage: {
+          description: 'Requests per day and endpoint, error rates and latency for your API key',
+          endpoint: 'GET /api/v1/usage',
+          optional: 'days=1-90 (default: 7), scope=all (premium tier: every key)',
+        },
+        me: {
+          description: 'Profile of the account that owns your API key',
+          endpoint: 'GET /api/v1/me',
+        },
+        updateProfile: {
+          description: 'Update display_name, bio and profile_visibility (requires write scope)',
+          endpoint: 'PATCH /api/v1/me',
+          body: '{ "display_name": "...", "bio": "...", "profile_visibility": "public" | "private" }',
+        },
+        lovedTracks: {
+          description: 'Love or unlove a track on Last.fm (requires write scope)',
+          endpoint: 'POST|DELETE /api/v1/me/loved-tracks',
+          body: '{ "artist": "...", "track": "..." }',
+        },
+        webhooks: {
+          description: 'Signed POSTs when your now-playing track changes or a new weekly insight is ready',
+          endpoint: 'GET|POST /api/v1/webhooks, PATCH|DELETE /api/v1/webhooks/:id, GET /api/v1/webhooks/:id/deliveries',
+          body: '{ "url": "https://...", "events": ["now_playing.changed", "insights.weekly"] } (POST requires write scope)',
+        },
       },
       admin: {
         createKey: 'POST /api/auth/keys (requires X-Admin-Secret header)',
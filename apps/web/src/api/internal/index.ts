@@ -11,6 +11,8 @@ import { searchInternalRoutes } from './search';
 import { streamingInternalRoutes } from './streaming';
 import { userInternalRoutes } from './user';
 import { insightsInternalRoutes } from './insights';
+import { trackInternalRoutes } from './tracks';
+import { spotifyImportInternalRoutes } from './spotify-import';
 
 const app = new Hono<{ Bindings: Bindings; Variables: Variables }>();
 
@@ -23,5 +25,7 @@ app.route('/', searchInternalRoutes);
 app.route('/', streamingInternalRoutes);
 app.route('/', userInternalRoutes);
 app.route('/', insightsInternalRoutes);
+app.route('/', trackInternalRoutes);
+app.route('/', spotifyImportInternalRoutes);
 
 export const internalRoutes = app;
@@ -1,25 +1,31 @@
 // Internal insights API routes for progressive loading
 
 import { Hono, Context } from 'hono';
-import { CACHE_CONFIG, getTtlSeconds } from '@listentomore/config';
-import { LastfmService } from '@listentomore/lastfm';
-import type { User } from '@listentomore/db';
+import { CACHE_CONFIG, SITE_CONFIG, getTtlSeconds } from '@listentomore/config';
+import type { Database, User } from '@listentomore/db';
 import type { AIService } from '@listentomore/ai';
-import { USER_INSIGHTS_PROMPT_VERSION } from '@listentomore/ai';
+import { USER_INSIGHTS_PROMPT_VERSION, insightsPeriodCacheParams } from '@listentomore/ai';
 import type { SpotifyService } from '@listentomore/spotify';
 import type { Bindings, Variables } from '../../types';
 import { requireSessionAuth } from '../../middleware/require-session-auth';
+import { getYearInReview, isValidReviewYear } from '../../utils/year-in-review';
+import { parseInsightsPeriod, type ResolvedInsightsPeriod } from '../../utils/insights-period';
+import { getIsoWeek } from '../../utils/iso-week';
+import { getListeningProvider, type ListeningProvider } from '../../utils/listening-provider';
+import { dispatchWebhookEvent } from '../../utils/webhooks';
 
 const app = new Hono<{ Bindings: Bindings; Variables: Variables }>();
 
 // Minimum plays threshold for generating insights
 const MIN_PLAYS_THRESHOLD = 5;
 
+const HISTORY_WINDOW_MS = 180 * 24 * 60 * 60 * 1000; // "Rotation" context before a custom range
+
 // Helper to get user with privacy check - insights only visible to owner for private profiles
 async function getUserWithInsightsAccess(
   c: Context<{ Bindings: Bindings; Variables: Variables }>,
   username: string
-): Promise<{ user: User; lastfm: LastfmService; isOwner: boolean } | { error: string; status: number }> {
+): Promise<{ user: User; provider: ListeningProvider; isOwner: boolean } | { error: string; status: number }> {
   const db = c.get('db');
   const currentUser = c.get('currentUser');
 
@@ -40,21 +46,96 @@ async function getUserWithInsightsAccess(
     return { error: 'This profile is private', status: 403 };
   }
 
-  const lastfm = new LastfmService({
-    apiKey: c.env.LASTFM_API_KEY,
-    username: user.lastfm_username,
-    cache: c.env.CACHE,
+  const { provider } = getListeningProvider(user, c.env, db)!;
+
+  return { user, provider, isOwner };
+}
+
+function getPeriodFromQuery(c: Context<{ Bindings: Bindings; Variables: Variables }>) {
+  return parseInsightsPeriod({
+    period: c.req.query('period'),
+    from: c.req.query('from'),
+    to: c.req.query('to'),
   });
+}
+
+// Listening data for a period - the user's listening source (Last.fm or ListenBrainz) for presets,
+// the D1 scrobble archive for custom ranges
+async function getListeningData(
+  db: Database,
+  user: User,
+  provider: ListeningProvider,
+  period: ResolvedInsightsPeriod,
+  logPrefix: string
+) {
+  if (period.source === 'archive') {
+    const range = { from: period.from, to: period.to };
+    const history = {
+      from: new Date(Date.parse(period.from) - HISTORY_WINDOW_MS).toISOString(),
+      to: period.from,
+    };
+    const [topArtists, topAlbums, recentTracks, historicalArtists, playCount] = await Promise.all([
+      db.getTopScrobbledArtists(user.id, range, 5),
+      db.getTopScrobbledAlbums(user.id, range, 5),
+      db.getScrobbles(user.id, { ...range, limit: 30 }),
+      db.getTopScrobbledArtists(user.id, history, 20),
+      db.getScrobbleCount(user.id, range),
+    ]);
 
-  return { user, lastfm, isOwner };
+    return {
+      topArtists: topArtists.map((a) => ({ name: a.artist, playcount: a.plays })),
+      topAlbums: topAlbums.map((a) => ({ name: a.album, artist: a.artist, playcount: a.plays })),
+      recentTracks: recentTracks.map((t) => ({ name: t.track, artist: t.artist })),
+      historicalArtists: historicalArtists.map((a) => ({ name: a.artist })),
+      playCount,
+    };
+  }
+
+  const [topArtists, topAlbums, recentTracks, historicalArtists] = await Promise.all([
+    provider.getTopArtists(period.lastfmPeriod, 5).catch((e) => {
+      console.error(`${logPrefix} Failed to fetch top artists:`, e);
+      return [];
+    }),
+    provider.getTopAlbums(period.lastfmPeriod, 5).catch((e) => {
+      console.error(`${logPrefix} Failed to fetch top albums:`, e);
+      return [];
+    }),
+    provider.getRecentTracks(30).catch((e) => {
+      console.error(`${logPrefix} Failed to fetch recent tracks:`, e);
+      return [];
+    }),
+    provider.getTopArtists('6month', 20).catch((e) => {
+      console.error(`${logPrefix} Failed to fetch historical artists:`, e);
+      return [];
+    }),
+  ]);
+
+  return {
+    topArtists: topArtists.map((a) => ({ name: a.name, playcount: a.playcount })),
+    topAlbums: topAlbums.map((a) => ({ name: a.name, artist: a.artist, playcount: a.playcount })),
+    recentTracks: recentTracks.map((t) => ({ name: t.name, artist: t.artist })),
+    historicalArtists: historicalArtists.map((a) => ({ name: a.name })),
+    playCount: topArtists.reduce((sum, a) => sum + a.playcount, 0),
+  };
+}
+
+// Only the default weekly view is archived (by ISO week), custom periods are one-offs
+function isArchivedPeriod(period: ResolvedInsightsPeriod): boolean {
+  return period.source === 'lastfm' && period.lastfmPeriod === '7day';
 }
 
-// Check and enforce refresh rate limit
+// The AI cache outlives a week boundary, so only content generated this week is archived under it
+function generatedThisWeek(generatedAt: string | undefined, week: string): boolean {
+  return generatedAt !== undefined && getIsoWeek(new Date(generatedAt)) === week;
+}
+
+// Check and enforce refresh rate limit (each period has its own cooldown)
 async function checkRefreshRateLimit(
   c: Context<{ Bindings: Bindings; Variables: Variables }>,
-  username: string
+  username: string,
+  period: ResolvedInsightsPeriod
 ): Promise<{ allowed: boolean; cooldownSeconds?: number }> {
-  const cacheKey = `insights-refresh:${username.toLowerCase()}`;
+  const cacheKey = `insights-refresh:${username.toLowerCase()}:${period.key}`;
   const lastRefresh = await c.env.CACHE.get(cacheKey);
 
   if (lastRefresh) {
@@ -75,9 +156,10 @@ async function checkRefreshRateLimit(
 // Set refresh timestamp
 async function setRefreshTimestamp(
   c: Context<{ Bindings: Bindings; Variables: Variables }>,
-  username: string
+  username: string,
+  period: ResolvedInsightsPeriod
 ): Promise<void> {
-  const cacheKey = `insights-refresh:${username.toLowerCase()}`;
+  const cacheKey = `insights-refresh:${username.toLowerCase()}:${period.key}`;
   const ttl = getTtlSeconds(CACHE_CONFIG.userInsights.refreshCooldown);
   await c.env.CACHE.put(cacheKey, Date.now().toString(), { expirationTtl: ttl });
 }
@@ -96,7 +178,12 @@ app.get('/user-insights-summary', requireSessionAuth, async (c) => {
     return c.json({ error: accessResult.error }, accessResult.status as 403 | 404);
   }
 
-  const { user, lastfm, isOwner } = accessResult;
+  const period = getPeriodFromQuery(c);
+  if ('error' in period) {
+    return c.json({ error: period.error }, 400);
+  }
+
+  const { user, provider, isOwner } = accessResult;
 
   // Check refresh rate limit (only owner can refresh)
   if (refresh) {
@@ -104,7 +191,7 @@ app.get('/user-insights-summary', requireSessionAuth, async (c) => {
       return c.json({ error: 'Only the profile owner can refresh insights' }, 403);
     }
 
-    const rateLimit = await checkRefreshRateLimit(c, username);
+    const rateLimit = await checkRefreshRateLimit(c, username, period);
     if (!rateLimit.allowed) {
       return c.json(
         {
@@ -120,23 +207,18 @@ app.get('/user-insights-summary', requireSessionAuth, async (c) => {
     await ai.cache.delete(
       'userInsightsSummary',
       username.toLowerCase(),
+      ...insightsPeriodCacheParams(period),
       USER_INSIGHTS_PROMPT_VERSION
     );
-    await setRefreshTimestamp(c, username);
+    await setRefreshTimestamp(c, username, period);
   }
 
   try {
     // Fetch listening data — historical artists fetched in parallel for context
-    const [topArtists, topAlbums, recentTracks, historicalArtists] = await Promise.all([
-      lastfm.getTopArtists('7day', 5).catch(() => []),
-      lastfm.getTopAlbums('7day', 5).catch(() => []),
-      lastfm.recentTracks.getRecentTracks(30).catch(() => []),
-      lastfm.getTopArtists('6month', 20).catch(() => []),
-    ]);
+    const listening = await getListeningData(c.get('db'), user, provider, period, '[Insights Summary]');
 
     // Check for sparse listening data
-    const totalPlays = topArtists.reduce((sum, a) => sum + a.playcount, 0);
-    if (totalPlays < MIN_PLAYS_THRESHOLD) {
+    if (listening.playCount < MIN_PLAYS_THRESHOLD) {
       return c.json({
         data: null,
         sparse: true,
@@ -146,19 +228,33 @@ app.get('/user-insights-summary', requireSessionAuth, async (c) => {
     }
 
     // Generate summary (cache check happens inside getUserInsightsSummary)
-    console.log(`[Insights Summary] Generating summary for ${user.lastfm_username}...`);
+    console.log(`[Insights Summary] Generating ${period.key} summary for ${user.lastfm_username}...`);
     const ai = c.get('ai') as AIService;
-    const summary = await ai.getUserInsightsSummary(user.lastfm_username!, {
-      topArtists: topArtists.map((a) => ({ name: a.name, playcount: a.playcount })),
-      topAlbums: topAlbums.map((a) => ({
-        name: a.name,
-        artist: a.artist,
-        playcount: a.playcount,
-      })),
-      recentTracks: recentTracks.map((t) => ({ name: t.name, artist: t.artist })),
-      weeklyPlayCount: totalPlays,
-      historicalArtists: historicalArtists.map((a) => ({ name: a.name })),
-    });
+    const summary = await ai.getUserInsightsSummary(user.lastfm_username!, { ...listening, period });
+
+    // Keep this week's summary so it survives later refreshes
+    const week = getIsoWeek();
+    if (isArchivedPeriod(period) && generatedThisWeek(summary.generatedAt, week)) {
+      try {
+        const db = c.get('db');
+        const first = await db.saveWeeklyInsightsSummary(user.id, week, summary.content);
+
+        // The first summary of the week is a new insight for webhook subscribers
+        if (first) {
+          const username = user.username || user.lastfm_username!;
+          c.executionCtx.waitUntil(
+            dispatchWebhookEvent(db, user.id, 'insights.weekly', {
+              username,
+              week,
+              summary: summary.content,
+              url: `${SITE_CONFIG.url}/u/${username}/insights/${week}`,
+            }).catch((error) => console.error('[Insights Summary] Failed to dispatch webhooks:', error))
+          );
+        }
+      } catch (error) {
+        console.error('[Insights Summary] Failed to archive summary:', error);
+      }
+    }
 
     return c.json({ data: summary });
   } catch (error) {
@@ -183,42 +279,33 @@ app.get('/user-insights-recommendations', requireSessionAuth, async (c) => {
     return c.json({ error: accessResult.error }, accessResult.status as 403 | 404);
   }
 
-  const { user, lastfm, isOwner } = accessResult;
+  const period = getPeriodFromQuery(c);
+  if ('error' in period) {
+    return c.json({ error: period.error }, 400);
+  }
+
+  const { user, provider, isOwner } = accessResult;
 
   // If refresh, clear recommendations cache (rate limit already checked by summary endpoint)
   if (refresh && isOwner) {
     const ai = c.get('ai') as AIService;
-    await ai.cache.delete('userInsightsRecommendations', username.toLowerCase());
+    await ai.cache.delete(
+      'userInsightsRecommendations',
+      username.toLowerCase(),
+      ...insightsPeriodCacheParams(period)
+    );
     console.log(`[Insights Recs] Cache cleared for ${username}`);
   }
 
   try {
     // Fetch listening data
-    console.log(`[Insights Recs] Fetching Last.fm data...`);
-    const [topArtists, topAlbums, recentTracks, historicalArtists] = await Promise.all([
-      lastfm.getTopArtists('7day', 5).catch((e) => {
-        console.error(`[Insights Recs] Failed to fetch top artists:`, e);
-        return [];
-      }),
-      lastfm.getTopAlbums('7day', 5).catch((e) => {
-        console.error(`[Insights Recs] Failed to fetch top albums:`, e);
-        return [];
-      }),
-      lastfm.recentTracks.getRecentTracks(30).catch((e) => {
-        console.error(`[Insights Recs] Failed to fetch recent tracks:`, e);
-        return [];
-      }),
-      lastfm.getTopArtists('6month', 20).catch((e) => {
-        console.error(`[Insights Recs] Failed to fetch historical artists:`, e);
-        return [];
-      }),
-    ]);
-    console.log(`[Insights Recs] Got ${topArtists.length} artists, ${topAlbums.length} albums, ${recentTracks.length} recent tracks, ${historicalArtists.length} historical`);
+    console.log(`[Insights Recs] Fetching ${period.source} data for ${period.key}...`);
+    const listening = await getListeningData(c.get('db'), user, provider, period, '[Insights Recs]');
+    console.log(`[Insights Recs] Got ${listening.topArtists.length} artists, ${listening.topAlbums.length} albums, ${listening.recentTracks.length} recent tracks, ${listening.historicalArtists.length} historical`);
 
     // Check for sparse listening data
-    const totalPlays = topArtists.reduce((sum, a) => sum + a.playcount, 0);
-    if (totalPlays < MIN_PLAYS_THRESHOLD) {
-      console.log(`[Insights Recs] Sparse data (${totalPlays} plays), returning empty`);
+    if (listening.playCount < MIN_PLAYS_THRESHOLD) {
+      console.log(`[Insights Recs] Sparse data (${listening.playCount} plays), returning empty`);
       return c.json({
         data: [],
         sparse: true,
@@ -229,16 +316,7 @@ app.get('/user-insights-recommendations', requireSessionAuth, async (c) => {
     console.log(`[Insights Recs] Calling AI for recommendations...`);
     const startTime = Date.now();
     const ai = c.get('ai') as AIService;
-    const result = await ai.getUserInsightsRecommendations(user.lastfm_username!, {
-      topArtists: topArtists.map((a) => ({ name: a.name, playcount: a.playcount })),
-      topAlbums: topAlbums.map((a) => ({
-        name: a.name,
-        artist: a.artist,
-        playcount: a.playcount,
-      })),
-      recentTracks: recentTracks.map((t) => ({ name: t.name, artist: t.artist })),
-      historicalArtists: historicalArtists.map((a) => ({ name: a.name })),
-    });
+    const result = await ai.getUserInsightsRecommendations(user.lastfm_username!, { ...listening, period });
     console.log(`[Insights Recs] AI returned ${result.recommendations.length} recommendations in ${Date.now() - startTime}ms`);
 
     // Enrich recommendations with Spotify data (album art, IDs)
@@ -282,6 +360,15 @@ app.get('/user-insights-recommendations', requireSessionAuth, async (c) => {
       })
     );
 
+    const week = getIsoWeek();
+    if (isArchivedPeriod(period) && generatedThisWeek(result.generatedAt, week)) {
+      try {
+        await c.get('db').saveWeeklyInsightsRecommendations(user.id, week, enrichedRecommendations);
+      } catch (error) {
+        console.error('[Insights Recs] Failed to archive recommendations:', error);
+      }
+    }
+
     console.log(`[Insights Recs] Returning ${enrichedRecommendations.length} enriched recommendations`);
     return c.json({ data: enrichedRecommendations });
   } catch (error) {
@@ -291,6 +378,60 @@ app.get('/user-insights-recommendations', requireSessionAuth, async (c) => {
   }
 });
 
+app.get('/user-year-narrative', requireSessionAuth, async (c) => {
+  const username = c.req.query('username');
+  const year = parseInt(c.req.query('year') || '', 10);
+
+  if (!username) {
+    return c.json({ error: 'Missing username parameter' }, 400);
+  }
+
+  if (!isValidReviewYear(year)) {
+    return c.json({ error: 'Invalid year parameter' }, 400);
+  }
+
+  // Check access
+  const accessResult = await getUserWithInsightsAccess(c, username);
+  if ('error' in accessResult) {
+    return c.json({ error: accessResult.error }, accessResult.status as 403 | 404);
+  }
+
+  const { user } = accessResult;
+
+  try {
+    const review = await getYearInReview(c.get('db'), c.env.CACHE, user.id, year);
+
+    if (review.totalPlays < MIN_PLAYS_THRESHOLD) {
+      return c.json({ data: null, sparse: true, message: `Not enough listening in ${year} to tell its story.` });
+    }
+
+    // Cache check happens inside getYearInReviewNarrative
+    console.log(`[Year in Review] Generating narrative for ${user.lastfm_username} (${year})...`);
+    const ai = c.get('ai') as AIService;
+    const narrative = await ai.getYearInReviewNarrative(user.lastfm_username!, {
+      year,
+      totalPlays: review.totalPlays,
+      daysListened: review.daysListened,
+      topArtists: review.topArtists,
+      topAlbums: review.topAlbums.map((a) => ({ name: a.name, artist: a.artist, playcount: a.playcount })),
+      topTracks: review.topTracks,
+      newArtists: review.newArtists?.map((a) => ({ name: a.name, playcount: a.playcount })) ?? null,
+      newArtistCount: review.newArtistCount,
+      busiestMonth: review.busiestMonth
+        ? { month: review.busiestMonth.label, playcount: review.busiestMonth.playcount }
+        : null,
+      longestStreak: review.longestStreak,
+      inProgress: review.inProgress,
+      historyComplete: review.historyComplete,
+    });
+
+    return c.json({ data: narrative });
+  } catch (error) {
+    console.error('Internal user-year-narrative error:', error);
+    return c.json({ error: 'Failed to generate year in review' }, 500);
+  }
+});
+
 // Check refresh cooldown status
 // No requireSessionAuth — read-only rate limit check, no AI calls
 app.get('/user-insights-cooldown', async (c) => {
@@ -300,7 +441,12 @@ app.get('/user-insights-cooldown', async (c) => {
     return c.json({ error: 'Missing username parameter' }, 400);
   }
 
-  const rateLimit = await checkRefreshRateLimit(c, username);
+  const period = getPeriodFromQuery(c);
+  if ('error' in period) {
+    return c.json({ error: period.error }, 400);
+  }
+
+  const rateLimit = await checkRefreshRateLimit(c, username, period);
 
   return c.json({
     canRefresh: rateLimit.allowed,
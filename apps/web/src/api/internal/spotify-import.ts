@@ -0,0 +1,126 @@
+// Internal Spotify import API routes - the account page uploads streaming history in chunks
+// Plays already in the scrobble archive (from Last.fm or an earlier import) are skipped
+
+import { Hono } from 'hono';
+import type { Bindings, Variables } from '../../types';
+import { requireSessionAuth } from '../../middleware/require-session-auth';
+import {
+  DUPLICATE_WINDOW_MS,
+  MAX_IMPORT_CHUNK_SIZE,
+  isStreamingHistoryFileName,
+  normalizeStreamingHistory,
+  partitionDuplicatePlays,
+} from '../../utils/spotify-history';
+
+const app = new Hono<{ Bindings: Bindings; Variables: Variables }>();
+
+const MAX_IMPORT_FILES = 50;
+
+// Start an import for a set of files; chunks are then posted against the returned id
+app.post('/spotify-import-start', requireSessionAuth, async (c) => {
+  const currentUser = c.get('currentUser')!;
+
+  let body: { files?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const files = body.files;
+  if (
+    !Array.isArray(files) ||
+    files.length === 0 ||
+    files.length > MAX_IMPORT_FILES ||
+    !files.every((name) => typeof name === 'string' && isStreamingHistoryFileName(name))
+  ) {
+    return c.json(
+      { error: 'Choose the endsong_*.json or Streaming_History_Audio_*.json files from your Spotify export' },
+      400
+    );
+  }
+
+  // Duplicates are found by matching against stored Last.fm scrobbles, so the archive must be complete
+  const db = c.get('db');
+  const syncState = await db.getScrobbleSyncState(currentUser.id);
+  if (!syncState?.backfill_completed_at) {
+    return c.json(
+      { error: 'Your Last.fm history is still being imported. Please try again once it has finished.' },
+      409
+    );
+  }
+
+  try {
+    const spotifyImport = await db.createSpotifyImport(currentUser.id, files);
+    return c.json({ data: { id: spotifyImport.id } });
+  } catch (error) {
+    console.error('[Spotify Import] Failed to start import:', error);
+    return c.json({ error: 'Failed to start import' }, 500);
+  }
+});
+
+app.post('/spotify-import-chunk', requireSessionAuth, async (c) => {
+  const currentUser = c.get('currentUser')!;
+
+  let body: { importId?: unknown; entries?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  if (typeof body.importId !== 'string' || !body.importId) {
+    return c.json({ error: 'Missing importId' }, 400);
+  }
+  if (!Array.isArray(body.entries) || body.entries.length > MAX_IMPORT_CHUNK_SIZE) {
+    return c.json({ error: `Send between 0 and ${MAX_IMPORT_CHUNK_SIZE} entries per request` }, 400);
+  }
+
+  const db = c.get('db');
+  const spotifyImport = await db.getSpotifyImport(body.importId, currentUser.id);
+  if (!spotifyImport) {
+    return c.json({ error: 'Import not found' }, 404);
+  }
+
+  try {
+    const normalized = normalizeStreamingHistory(body.entries);
+    let skipped = normalized.skipped;
+
+    // Plays after the newest synced scrobble will still arrive from Last.fm, so leave those to the sync
+    const syncState = await db.getScrobbleSyncState(currentUser.id);
+    const cutoff = syncState?.newest_played_at ?? null;
+    const plays = cutoff ? normalized.plays.filter((p) => p.played_at < cutoff) : normalized.plays;
+    skipped += normalized.plays.length - plays.length;
+
+    let imported = 0;
+    let duplicates = 0;
+    let oldest: string | null = null;
+    let newest: string | null = null;
+
+    if (plays.length > 0) {
+      const times = plays.map((p) => Date.parse(p.played_at));
+      const existing = await db.getScrobbleKeys(currentUser.id, {
+        from: new Date(Math.min(...times) - DUPLICATE_WINDOW_MS).toISOString(),
+        to: new Date(Math.max(...times) + DUPLICATE_WINDOW_MS + 1000).toISOString(),
+      });
+      const { fresh, duplicates: matched } = partitionDuplicatePlays(plays, existing);
+
+      imported = await db.insertScrobbles(currentUser.id, fresh, 'spotify');
+      duplicates = matched + (fresh.length - imported);
+
+      for (const play of fresh) {
+        if (!oldest || play.played_at < oldest) oldest = play.played_at;
+        if (!newest || play.played_at > newest) newest = play.played_at;
+      }
+    }
+
+    await db.recordSpotifyImportChunk(spotifyImport.id, { imported, duplicates, skipped, oldest, newest });
+
+    return c.json({ data: { imported, duplicates, skipped } });
+  } catch (error) {
+    console.error('[Spotify Import] Failed to import chunk:', error);
+    return c.json({ error: 'Failed to import plays' }, 500);
+  }
+});
+
+export const spotifyImportInternalRoutes = app;
@@ -0,0 +1,160 @@
+// Internal track API routes - Last.fm writes (love/unlove, album scrobbles) for the signed-in user
+// Writes use the session key stored at sign-in; revoked keys ask the user to sign in again
+
+import { Hono } from 'hono';
+import type { SpotifyService } from '@listentomore/spotify';
+import type { Bindings, Variables } from '../../types';
+import { requireSessionAuth } from '../../middleware/require-session-auth';
+import { buildAlbumScrobbles, parseFinishedAt } from '../../utils/album-scrobble';
+import {
+  LOVED_LOOKUP_LIMIT,
+  getUserLastfm,
+  getWriteClient,
+  setTrackLoved,
+  writeErrorResponse,
+} from '../../utils/lastfm-write';
+
+const app = new Hono<{ Bindings: Bindings; Variables: Variables }>();
+
+const MAX_STATUS_TRACKS = 100;
+
+function trackKey(artist: string, track: string): string {
+  return `${artist.trim().toLowerCase()}|${track.trim().toLowerCase()}`;
+}
+
+app.post('/track-love', requireSessionAuth, async (c) => {
+  const currentUser = c.get('currentUser')!;
+
+  let body: { artist?: unknown; track?: unknown; loved?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const { artist, track, loved } = body;
+  if (typeof artist !== 'string' || typeof track !== 'string' || !artist.trim() || !track.trim()) {
+    return c.json({ error: 'Missing artist or track' }, 400);
+  }
+  if (typeof loved !== 'boolean') {
+    return c.json({ error: 'Missing loved flag' }, 400);
+  }
+
+  const error = await setTrackLoved(c, currentUser, { artist, track, loved }, '[Track Love]');
+  if (error) {
+    return error;
+  }
+
+  return c.json({ data: { artist, track, loved } });
+});
+
+app.post('/track-loved-status', requireSessionAuth, async (c) => {
+  const currentUser = c.get('currentUser')!;
+
+  let body: { tracks?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const tracks = Array.isArray(body.tracks) ? body.tracks.slice(0, MAX_STATUS_TRACKS) : null;
+  if (!tracks) {
+    return c.json({ error: 'Missing tracks' }, 400);
+  }
+
+  if (!currentUser.lastfm_username) {
+    return c.json({ data: tracks.map(() => false) });
+  }
+
+  try {
+    const lovedTracks = await getUserLastfm(c, currentUser).getLovedTracks(LOVED_LOOKUP_LIMIT);
+    const loved = new Set(lovedTracks.map((t) => trackKey(t.artist, t.title)));
+
+    return c.json({
+      data: tracks.map((t: { artist?: unknown; track?: unknown }) =>
+        typeof t?.artist === 'string' && typeof t?.track === 'string' ? loved.has(trackKey(t.artist, t.track)) : false
+      ),
+    });
+  } catch (error) {
+    console.error('[Track Love] Failed to look up loved tracks:', error);
+    return c.json({ error: 'Failed to load loved tracks' }, 500);
+  }
+});
+
+// Preview of the scrobbles "I just listened to this" would submit for an album
+app.get('/album-scrobble-preview', requireSessionAuth, async (c) => {
+  const albumId = c.req.query('albumId');
+  if (!albumId) {
+    return c.json({ error: 'Missing albumId parameter' }, 400);
+  }
+
+  try {
+    const album = await (c.get('spotify') as SpotifyService).getAlbum(albumId);
+    const finishedAt = new Date();
+    const scrobbles = buildAlbumScrobbles(album, finishedAt);
+
+    return c.json({
+      data: {
+        album: album.name,
+        artist: album.artist,
+        finishedAt: finishedAt.toISOString(),
+        scrobbles,
+      },
+    });
+  } catch (error) {
+    console.error('[Album Scrobble] Failed to load album for preview:', error);
+    return c.json({ error: 'Failed to load album' }, 500);
+  }
+});
+
+// Submit the previewed scrobbles; times are recomputed from the tracklist and the previewed finish time
+app.post('/album-scrobble', requireSessionAuth, async (c) => {
+  const currentUser = c.get('currentUser')!;
+
+  let body: { albumId?: unknown; finishedAt?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  if (typeof body.albumId !== 'string' || !body.albumId) {
+    return c.json({ error: 'Missing albumId' }, 400);
+  }
+
+  const finishedAt = parseFinishedAt(body.finishedAt);
+  if (!finishedAt) {
+    return c.json({ error: 'This preview has expired. Please start again.' }, 400);
+  }
+
+  const client = getWriteClient(c, currentUser);
+  if (client instanceof Response) {
+    return client;
+  }
+
+  let scrobbles;
+  try {
+    const album = await (c.get('spotify') as SpotifyService).getAlbum(body.albumId);
+    scrobbles = buildAlbumScrobbles(album, finishedAt);
+  } catch (error) {
+    console.error('[Album Scrobble] Failed to load album:', error);
+    return c.json({ error: 'Failed to load album' }, 500);
+  }
+
+  if (scrobbles.length === 0) {
+    return c.json({ error: 'This album has no tracks long enough to scrobble' }, 400);
+  }
+
+  try {
+    const result = await client.scrobbleTracks(scrobbles);
+    console.log(
+      `[Album Scrobble] ${currentUser.lastfm_username}: ${result.accepted} accepted, ${result.ignored} ignored`
+    );
+    return c.json({ data: result });
+  } catch (error) {
+    return writeErrorResponse(c, currentUser, error, '[Album Scrobble]');
+  }
+});
+
+export const trackInternalRoutes = app;
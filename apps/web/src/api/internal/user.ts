@@ -2,17 +2,34 @@
 
 import { Hono, Context } from 'hono';
 import { CACHE_CONFIG, getTtlSeconds } from '@listentomore/config';
-import { LastfmService } from '@listentomore/lastfm';
+import {
+  LastfmService,
+  type TimePeriod,
+  type TopAlbum,
+  type TopArtist,
+  type TopTrack,
+  type WeeklyChartRange,
+} from '@listentomore/lastfm';
 import type { User } from '@listentomore/db';
 import type { Bindings, Variables } from '../../types';
+import { requireSessionAuth } from '../../middleware/require-session-auth';
+import { parseCustomDateRange } from '../../utils/date-range';
+import { getFriendsActivity, MAX_FRIENDS } from '../../utils/friends-activity';
+import { getTasteProfile, TASTE_PROFILE_ARTIST_LIMIT } from '../../utils/taste-profile';
+import { getTasteComparison, tasteCompatibilityData } from '../../utils/taste-compatibility';
+import { fetchAllTopAlbums, buildUnplayedReport } from '../../utils/unplayed-records';
+import { getListeningProvider, getListeningSource, type ListeningProvider } from '../../utils/listening-provider';
 
 const app = new Hono<{ Bindings: Bindings; Variables: Variables }>();
 
+const BACKUP_IMAGE_URL = 'https://file.elezea.com/noun-no-image.png';
+const VALID_PERIODS: TimePeriod[] = ['7day', '1month', '3month', '6month', '12month', 'overall'];
+
 // Helper to get user and check privacy
 async function getUserWithPrivacyCheck(
   c: Context<{ Bindings: Bindings; Variables: Variables }>,
   username: string
-): Promise<{ user: User; lastfm: LastfmService } | { error: string; status: number }> {
+): Promise<{ user: User; lastfm: LastfmService; provider: ListeningProvider } | { error: string; status: number }> {
   const db = c.get('db');
   const currentUser = c.get('currentUser');
 
@@ -39,16 +56,105 @@ async function getUserWithPrivacyCheck(
     cache: c.env.CACHE,
   });
 
-  return { user, lastfm };
+  // Listening data (stats, recent track) comes from the user's chosen source;
+  // Last.fm is still used for artist metadata and the Last.fm-only reports
+  const { provider } = getListeningProvider(user, c.env, db)!;
+
+  return { user, lastfm, provider };
 }
 
-// Legacy helper for backwards compatibility
-async function getUserLastfm(c: Context<{ Bindings: Bindings; Variables: Variables }>, username: string) {
+// Listening provider for a user, or null if not found / private
+async function getUserListening(c: Context<{ Bindings: Bindings; Variables: Variables }>, username: string) {
   const result = await getUserWithPrivacyCheck(c, username);
   if ('error' in result) {
     return null;
   }
-  return result.lastfm;
+  return result.provider;
+}
+
+type ChartQuery = { period: TimePeriod } | { range: WeeklyChartRange };
+
+/**
+ * The `period` query parameter, or with `period=custom` a `from`/`to` date range
+ * (YYYY-MM-DD, inclusive) for the stats page date picker
+ */
+function readChartQuery(c: Context<{ Bindings: Bindings; Variables: Variables }>): ChartQuery | { error: string } {
+  const period = c.req.query('period') || '7day';
+
+  if (period === 'custom') {
+    const range = parseCustomDateRange(c.req.query('from'), c.req.query('to'));
+    if ('error' in range) {
+      return range;
+    }
+    return { range: { from: range.from / 1000, to: range.to / 1000 } };
+  }
+
+  if (!VALID_PERIODS.includes(period as TimePeriod)) {
+    return { error: 'Invalid period parameter. Must be one of: 7day, 1month, 3month, 6month, 12month, overall, custom' };
+  }
+  return { period: period as TimePeriod };
+}
+
+/**
+ * Resolve a user and chart query for the top-list endpoints. Custom ranges come
+ * from Last.fm's weekly charts, so they need Last.fm as the listening source.
+ */
+async function getChartRequest(
+  c: Context<{ Bindings: Bindings; Variables: Variables }>
+): Promise<{ user: User; query: ChartQuery; lastfm: LastfmService; provider: ListeningProvider } | Response> {
+  const username = c.req.query('username');
+  if (!username) {
+    return c.json({ error: 'Missing username parameter' }, 400);
+  }
+
+  const query = readChartQuery(c);
+  if ('error' in query) {
+    return c.json({ error: query.error }, 400);
+  }
+
+  const result = await getUserWithPrivacyCheck(c, username);
+  if ('error' in result) {
+    return c.json({ error: 'User not found' }, 404);
+  }
+
+  if ('range' in query && getListeningSource(result.user)?.source !== 'lastfm') {
+    return c.json({ error: 'Custom date ranges are only available with Last.fm as the listening source' }, 400);
+  }
+
+  return { user: result.user, query, lastfm: result.lastfm, provider: result.provider };
+}
+
+type ProfileAccess = { user: User; lastfm: LastfmService; provider: ListeningProvider };
+
+/**
+ * Both profiles in a taste comparison (`username` and `other`), each passing the
+ * same privacy check as a single profile
+ */
+async function getComparePair(
+  c: Context<{ Bindings: Bindings; Variables: Variables }>
+): Promise<{ user: ProfileAccess; other: ProfileAccess } | Response> {
+  const username = c.req.query('username');
+  const otherUsername = c.req.query('other');
+  if (!username || !otherUsername) {
+    return c.json({ error: 'Missing username or other parameter' }, 400);
+  }
+
+  const [user, other] = await Promise.all([
+    getUserWithPrivacyCheck(c, username),
+    getUserWithPrivacyCheck(c, otherUsername),
+  ]);
+  if ('error' in user) {
+    return c.json({ error: user.error }, user.status as 403 | 404);
+  }
+  if ('error' in other) {
+    return c.json({ error: other.error }, other.status as 403 | 404);
+  }
+
+  if (user.user.id === other.user.id) {
+    return c.json({ error: 'Cannot compare a profile with itself' }, 400);
+  }
+
+  return { user, other };
 }
 
 app.get('/user-recommendations', async (c) => {
@@ -64,7 +170,7 @@ app.get('/user-recommendations', async (c) => {
     return c.json({ error: result.error }, result.status as 403 | 404);
   }
 
-  const { lastfm: userLastfm } = result;
+  const { lastfm: userLastfm, provider } = result;
 
   const CACHE_KEY = `user-recommendations:${username}`;
   const CACHE_TTL_SECONDS = getTtlSeconds(CACHE_CONFIG.lastfm.userRecommendations);
@@ -79,7 +185,7 @@ app.get('/user-recommendations', async (c) => {
     }
 
     // Get user's top artists
-    const topArtists = await userLastfm.getTopArtists('7day', 5);
+    const topArtists = await provider.getTopArtists('7day', 5);
 
     if (topArtists.length === 0) {
       return c.json({ data: [], message: 'No listening data available' });
@@ -206,12 +312,12 @@ app.get('/user-recent-track', async (c) => {
   }
 
   try {
-    const userLastfm = await getUserLastfm(c, username);
-    if (!userLastfm) {
+    const provider = await getUserListening(c, username);
+    if (!provider) {
       return c.json({ error: 'User not found' }, 404);
     }
 
-    const recentTracks = await userLastfm.recentTracks.getRecentTracks(1).catch(() => []);
+    const recentTracks = await provider.getRecentTracks(1).catch(() => []);
     return c.json({ data: recentTracks[0] || null });
   } catch (error) {
     console.error('Internal user-recent-track error:', error);
@@ -219,27 +325,66 @@ app.get('/user-recent-track', async (c) => {
   }
 });
 
-app.get('/user-top-artists', async (c) => {
+app.get('/user-friends', async (c) => {
   const username = c.req.query('username');
   if (!username) {
     return c.json({ error: 'Missing username parameter' }, 400);
   }
 
-  // Get and validate period parameter
-  const periodParam = c.req.query('period') || '7day';
-  const validPeriods = ['7day', '1month', '3month', '6month', '12month', 'overall'] as const;
-  if (!validPeriods.includes(periodParam as any)) {
-    return c.json({ error: 'Invalid period parameter. Must be one of: 7day, 1month, 3month, 6month, 12month, overall' }, 400);
+  const result = await getUserWithPrivacyCheck(c, username);
+  if ('error' in result) {
+    return c.json({ error: result.error }, result.status as 403 | 404);
   }
-  const period = periodParam as typeof validPeriods[number];
+
+  const { user, lastfm: userLastfm } = result;
+  const CACHE_KEY = `friends-activity:${user.id}`;
 
   try {
-    const userLastfm = await getUserLastfm(c, username);
-    if (!userLastfm) {
-      return c.json({ error: 'User not found' }, 404);
+    const cached = await c.env.CACHE.get(CACHE_KEY, 'json');
+    if (cached) {
+      return c.json({ data: cached, cached: true });
+    }
+
+    const friends = await userLastfm.getFriends(MAX_FRIENDS);
+    const activity = await getFriendsActivity(c.get('db'), c.env.LASTFM_API_KEY, friends);
+
+    await c.env.CACHE.put(CACHE_KEY, JSON.stringify(activity), {
+      expirationTtl: getTtlSeconds(CACHE_CONFIG.lastfm.friendsActivity),
+    });
+
+    return c.json({ data: activity, cached: false });
+  } catch (error) {
+    console.error('Internal user-friends error:', error);
+    return c.json({ error: 'Failed to fetch friends' }, 500);
+  }
+});
+
+app.get('/user-top-artists', async (c) => {
+  const request = await getChartRequest(c);
+  if (request instanceof Response) return request;
+  const { query, lastfm, provider } = request;
+
+  try {
+    if ('period' in query) {
+      const topArtists = await provider.getTopArtists(query.period, 6).catch(() => []);
+      return c.json({ data: topArtists });
     }
 
-    const topArtists = await userLastfm.getTopArtists(period, 6).catch(() => []);
+    // Weekly charts carry no artwork or details; artist details are cached for 30 days
+    const chart = await lastfm.getWeeklyArtistChart(query.range, 6);
+    const topArtists: TopArtist[] = await Promise.all(
+      chart.map(async (entry) => {
+        const detail = await lastfm.getArtistDetail(entry.name).catch(() => null);
+        return {
+          name: entry.name,
+          playcount: entry.playcount,
+          url: entry.url,
+          image: detail?.image || BACKUP_IMAGE_URL,
+          tags: detail?.tags ?? [],
+          bio: detail?.bio ?? '',
+        };
+      })
+    );
     return c.json({ data: topArtists });
   } catch (error) {
     console.error('Internal user-top-artists error:', error);
@@ -248,30 +393,190 @@ app.get('/user-top-artists', async (c) => {
 });
 
 app.get('/user-top-albums', async (c) => {
+  const request = await getChartRequest(c);
+  if (request instanceof Response) return request;
+  const { query, lastfm, provider } = request;
+
+  try {
+    if ('period' in query) {
+      const topAlbums = await provider.getTopAlbums(query.period, 6).catch(() => []);
+      return c.json({ data: topAlbums });
+    }
+
+    // Weekly charts carry no artwork, so covers come from Spotify search (cached for 30 days)
+    const spotify = c.get('spotify');
+    const chart = await lastfm.getWeeklyAlbumChart(query.range, 6);
+    const topAlbums: TopAlbum[] = await Promise.all(
+      chart.map(async (entry) => {
+        const [match] = await spotify.search.search(`${entry.artist} ${entry.name}`, 'album', 1).catch(() => []);
+        return {
+          artist: entry.artist,
+          artistUrl: `https://www.last.fm/music/${encodeURIComponent(entry.artist)}`,
+          name: entry.name,
+          playcount: entry.playcount,
+          albumUrl: entry.url,
+          image: match?.image || BACKUP_IMAGE_URL,
+        };
+      })
+    );
+    return c.json({ data: topAlbums });
+  } catch (error) {
+    console.error('Internal user-top-albums error:', error);
+    return c.json({ error: 'Failed to fetch top albums' }, 500);
+  }
+});
+
+app.get('/user-top-tracks', async (c) => {
+  const request = await getChartRequest(c);
+  if (request instanceof Response) return request;
+  const { query, lastfm, provider } = request;
+
+  try {
+    if ('period' in query) {
+      const topTracks = await provider.getTopTracks(query.period, 10).catch(() => []);
+      return c.json({ data: topTracks });
+    }
+
+    const chart = await lastfm.getWeeklyTrackChart(query.range, 10);
+    const topTracks: TopTrack[] = chart.map((entry) => ({
+      artist: entry.artist,
+      artistUrl: `https://www.last.fm/music/${encodeURIComponent(entry.artist)}`,
+      name: entry.name,
+      playcount: entry.playcount,
+      url: entry.url,
+    }));
+    return c.json({ data: topTracks });
+  } catch (error) {
+    console.error('Internal user-top-tracks error:', error);
+    return c.json({ error: 'Failed to fetch top tracks' }, 500);
+  }
+});
+
+app.get('/user-taste-profile', async (c) => {
+  const request = await getChartRequest(c);
+  if (request instanceof Response) return request;
+  const { user, query, lastfm, provider } = request;
+
+  const CACHE_KEY = `taste-profile:${user.id}:${'period' in query ? query.period : `${query.range.from}-${query.range.to}`}`;
+
+  try {
+    const cached = await c.env.CACHE.get(CACHE_KEY, 'json');
+    if (cached) {
+      return c.json({ data: cached, cached: true });
+    }
+
+    // Tags always come from Last.fm, whichever source the plays come from
+    const artists = 'period' in query
+      ? await provider.getTopArtists(query.period, TASTE_PROFILE_ARTIST_LIMIT).catch(() => [])
+      : await lastfm.getWeeklyArtistChart(query.range, TASTE_PROFILE_ARTIST_LIMIT);
+    const genres = await getTasteProfile(lastfm, artists);
+
+    // Only cache if we found genres
+    if (genres.length > 0) {
+      await c.env.CACHE.put(CACHE_KEY, JSON.stringify(genres), {
+        expirationTtl: getTtlSeconds(CACHE_CONFIG.lastfm.tasteProfile),
+      });
+    }
+
+    return c.json({ data: genres, cached: false });
+  } catch (error) {
+    console.error('Internal user-taste-profile error:', error);
+    return c.json({ error: 'Failed to fetch taste profile' }, 500);
+  }
+});
+
+app.get('/user-compare', async (c) => {
+  const pair = await getComparePair(c);
+  if (pair instanceof Response) return pair;
+
+  try {
+    const comparison = await getTasteComparison(
+      c.env.CACHE,
+      { id: pair.user.user.id, provider: pair.user.provider },
+      { id: pair.other.user.id, provider: pair.other.provider }
+    );
+    return c.json({ data: comparison });
+  } catch (error) {
+    console.error('Internal user-compare error:', error);
+    return c.json({ error: 'Failed to compare profiles' }, 500);
+  }
+});
+
+app.get('/user-compare-blurb', requireSessionAuth, async (c) => {
+  const pair = await getComparePair(c);
+  if (pair instanceof Response) return pair;
+
+  const { user, other } = pair;
+
+  try {
+    const comparison = await getTasteComparison(
+      c.env.CACHE,
+      { id: user.user.id, provider: user.provider },
+      { id: other.user.id, provider: other.provider }
+    );
+
+    if (comparison.periods.every((p) => p.score === null)) {
+      return c.json({ data: null, sparse: true, message: 'Not enough listening to compare yet.' });
+    }
+
+    // Cache check happens inside getTasteCompatibilityBlurb
+    const ai = c.get('ai');
+    const blurb = await ai.getTasteCompatibilityBlurb(
+      tasteCompatibilityData(
+        comparison,
+        user.user.username || user.user.lastfm_username!,
+        other.user.username || other.user.lastfm_username!
+      )
+    );
+
+    return c.json({ data: blurb });
+  } catch (error) {
+    console.error('Internal user-compare-blurb error:', error);
+    return c.json({ error: 'Failed to write the comparison' }, 500);
+  }
+});
+
+app.get('/user-unplayed-records', async (c) => {
   const username = c.req.query('username');
   if (!username) {
     return c.json({ error: 'Missing username parameter' }, 400);
   }
 
-  // Get and validate period parameter
-  const periodParam = c.req.query('period') || '7day';
-  const validPeriods = ['7day', '1month', '3month', '6month', '12month', 'overall'] as const;
-  if (!validPeriods.includes(periodParam as any)) {
-    return c.json({ error: 'Invalid period parameter. Must be one of: 7day, 1month, 3month, 6month, 12month, overall' }, 400);
+  const result = await getUserWithPrivacyCheck(c, username);
+  if ('error' in result) {
+    return c.json({ error: result.error }, result.status as 403 | 404);
+  }
+
+  const { user, lastfm: userLastfm } = result;
+  if (!user.discogs_username) {
+    return c.json({ error: 'No Discogs collection connected' }, 404);
   }
-  const period = periodParam as typeof validPeriods[number];
+
+  const CACHE_KEY = `unplayed-records:${user.id}`;
 
   try {
-    const userLastfm = await getUserLastfm(c, username);
-    if (!userLastfm) {
-      return c.json({ error: 'User not found' }, 404);
+    const cached = await c.env.CACHE.get(CACHE_KEY, 'json');
+    if (cached) {
+      return c.json({ data: cached, cached: true });
     }
 
-    const topAlbums = await userLastfm.getTopAlbums(period, 6).catch(() => []);
-    return c.json({ data: topAlbums });
+    const db = c.get('db');
+    const releases = await db.getAllReleases(user.id);
+    if (releases.length === 0) {
+      return c.json({ data: null, message: 'Collection has not been synced yet' });
+    }
+
+    const { albums, complete } = await fetchAllTopAlbums(userLastfm);
+    const report = buildUnplayedReport(releases, albums, complete);
+
+    await c.env.CACHE.put(CACHE_KEY, JSON.stringify(report), {
+      expirationTtl: getTtlSeconds(CACHE_CONFIG.discogs.unplayedReport),
+    });
+
+    return c.json({ data: report, cached: false });
   } catch (error) {
-    console.error('Internal user-top-albums error:', error);
-    return c.json({ error: 'Failed to fetch top albums' }, 500);
+    console.error('Internal user-unplayed-records error:', error);
+    return c.json({ error: 'Failed to build unplayed records report' }, 500);
   }
 });
 
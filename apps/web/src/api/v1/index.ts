@@ -10,6 +10,9 @@ import { genreRoutes } from './genre';
 import { linksRoutes } from './links';
 import { askRoutes } from './ask';
 import { randomFactRoutes } from './random-fact';
+import { usageRoutes } from './usage';
+import { meRoutes } from './me';
+import { webhookRoutes } from './webhooks';
 
 const app = new Hono<{ Bindings: Bindings; Variables: Variables }>();
 
@@ -20,5 +23,8 @@ app.route('/genre', genreRoutes);
 app.route('/links', linksRoutes);
 app.route('/ask', askRoutes);
 app.route('/random-fact', randomFactRoutes);
+app.route('/usage', usageRoutes);
+app.route('/me', meRoutes);
+app.route('/webhooks', webhookRoutes);
 
 export const v1Routes = app;
@@ -0,0 +1,135 @@
+// /api/v1/me - The API key owner's account
+// GET /api/v1/me - Profile fields
+// PATCH /api/v1/me - Update display_name, bio and profile_visibility (write scope)
+// POST /api/v1/me/loved-tracks - Love a track on Last.fm (write scope)
+// DELETE /api/v1/me/loved-tracks - Unlove a track on Last.fm (write scope)
+
+import { Hono, Context } from 'hono';
+import { SITE_CONFIG } from '@listentomore/config';
+import type { User } from '@listentomore/db';
+import type { Bindings, Variables } from '../../types';
+import { requireAuth } from '../../middleware/auth';
+import { setTrackLoved } from '../../utils/lastfm-write';
+
+const app = new Hono<{ Bindings: Bindings; Variables: Variables }>();
+
+const MAX_DISPLAY_NAME_LENGTH = 100;
+const MAX_BIO_LENGTH = 1000;
+
+type AppContext = Context<{ Bindings: Bindings; Variables: Variables }>;
+
+// The account the calling key belongs to, or the JSON error to send back
+export async function getKeyOwner(c: AppContext): Promise<User | Response> {
+  const apiKey = c.get('apiKey')!;
+  const user = apiKey.user_id ? await c.get('db').getUser(apiKey.user_id) : null;
+  if (!user) {
+    return c.json({ error: 'Forbidden', message: 'This API key is not linked to a user account.' }, 403);
+  }
+  return user;
+}
+
+function profileResponse(user: User) {
+  return {
+    username: user.username,
+    display_name: user.display_name,
+    bio: user.bio,
+    profile_visibility: user.profile_visibility,
+    lastfm_username: user.lastfm_username,
+    url: user.username ? `${SITE_CONFIG.url}/u/${user.username}` : null,
+  };
+}
+
+async function readTrack(c: AppContext): Promise<{ artist: string; track: string } | Response> {
+  let body: { artist?: unknown; track?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const { artist, track } = body;
+  if (typeof artist !== 'string' || typeof track !== 'string' || !artist.trim() || !track.trim()) {
+    return c.json({ error: 'Missing required fields: artist and track' }, 400);
+  }
+  return { artist, track };
+}
+
+async function setLoved(c: AppContext, loved: boolean) {
+  const user = await getKeyOwner(c);
+  if (user instanceof Response) return user;
+
+  const track = await readTrack(c);
+  if (track instanceof Response) return track;
+
+  const error = await setTrackLoved(c, user, { ...track, loved }, '[v1 Loved Tracks]');
+  if (error) {
+    return error;
+  }
+
+  return c.json({ data: { ...track, loved } });
+}
+
+app.get('/', async (c) => {
+  const user = await getKeyOwner(c);
+  if (user instanceof Response) return user;
+
+  return c.json({ data: profileResponse(user) });
+});
+
+app.patch('/', requireAuth({ requiredScopes: ['write'] }), async (c) => {
+  const user = await getKeyOwner(c);
+  if (user instanceof Response) return user;
+
+  let body: Record<string, unknown>;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const updates: Partial<Pick<User, 'display_name' | 'bio' | 'profile_visibility'>> = {};
+
+  if ('display_name' in body) {
+    const { display_name } = body;
+    if (display_name !== null && typeof display_name !== 'string') {
+      return c.json({ error: 'display_name must be a string or null' }, 400);
+    }
+    if (display_name && display_name.length > MAX_DISPLAY_NAME_LENGTH) {
+      return c.json({ error: `display_name must be at most ${MAX_DISPLAY_NAME_LENGTH} characters` }, 400);
+    }
+    // Same as the account page: clearing the display name falls back to the Last.fm username
+    updates.display_name = display_name?.trim() || user.lastfm_username;
+  }
+
+  if ('bio' in body) {
+    const { bio } = body;
+    if (bio !== null && typeof bio !== 'string') {
+      return c.json({ error: 'bio must be a string or null' }, 400);
+    }
+    if (bio && bio.length > MAX_BIO_LENGTH) {
+      return c.json({ error: `bio must be at most ${MAX_BIO_LENGTH} characters` }, 400);
+    }
+    updates.bio = bio?.trim() || null;
+  }
+
+  if ('profile_visibility' in body) {
+    const visibility = body.profile_visibility;
+    if (visibility !== 'public' && visibility !== 'private') {
+      return c.json({ error: 'profile_visibility must be "public" or "private"' }, 400);
+    }
+    updates.profile_visibility = visibility;
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return c.json({ error: 'Provide at least one of: display_name, bio, profile_visibility' }, 400);
+  }
+
+  await c.get('db').updateUser(user.id, updates);
+
+  return c.json({ data: profileResponse({ ...user, ...updates }) });
+});
+
+app.post('/loved-tracks', requireAuth({ requiredScopes: ['write'] }), (c) => setLoved(c, true));
+app.delete('/loved-tracks', requireAuth({ requiredScopes: ['write'] }), (c) => setLoved(c, false));
+
+export const meRoutes = app;
@@ -0,0 +1,82 @@
+// GET /api/v1/usage - Request counts, error rates and latency for the calling API key
+// GET /api/v1/usage?scope=all - The same across every key, plus a per-key breakdown (premium tier only)
+
+import { Hono } from 'hono';
+import type { Bindings, Variables } from '../../types';
+import {
+  DEFAULT_USAGE_DAYS,
+  MAX_USAGE_DAYS,
+  summarizeApiUsage,
+  summarizeApiUsageByKey,
+  usageWindowStart,
+} from '../../utils/api-usage';
+
+const app = new Hono<{ Bindings: Bindings; Variables: Variables }>();
+
+app.get('/', async (c) => {
+  const apiKey = c.get('apiKey')!;
+  const scope = c.req.query('scope') || 'key';
+  const daysParam = c.req.query('days');
+  const days = daysParam ? parseInt(daysParam, 10) : DEFAULT_USAGE_DAYS;
+
+  if (!Number.isInteger(days) || days < 1 || days > MAX_USAGE_DAYS) {
+    return c.json({ error: `days must be a whole number from 1 to ${MAX_USAGE_DAYS}` }, 400);
+  }
+  if (scope !== 'key' && scope !== 'all') {
+    return c.json({ error: 'scope must be "key" or "all"' }, 400);
+  }
+  if (scope === 'all' && apiKey.tier !== 'premium') {
+    return c.json({ error: 'Forbidden', message: 'scope=all requires premium tier.' }, 403);
+  }
+
+  try {
+    const db = c.get('db');
+    const since = usageWindowStart(days);
+    const buckets = await db.getApiUsageBuckets({
+      since,
+      apiKeyId: scope === 'key' ? apiKey.id : undefined,
+    });
+    const period = { from: since, to: new Date().toISOString().slice(0, 10), days };
+
+    if (scope === 'key') {
+      return c.json({
+        data: {
+          scope,
+          key: { id: apiKey.id, prefix: apiKey.key_prefix, name: apiKey.name, tier: apiKey.tier },
+          period,
+          ...summarizeApiUsage(buckets),
+        },
+      });
+    }
+
+    const byKey = summarizeApiUsageByKey(buckets);
+    const keyIds = byKey.map((k) => k.keyId).filter((id): id is string => id !== null);
+    const keys = new Map((await db.getApiKeysByIds(keyIds)).map((k) => [k.id, k]));
+
+    return c.json({
+      data: {
+        scope,
+        period,
+        ...summarizeApiUsage(buckets),
+        keys: byKey.map(({ keyId, ...stats }) => {
+          const key = keyId ? keys.get(keyId) : undefined;
+          return {
+            id: keyId,
+            prefix: key?.key_prefix ?? null,
+            name: keyId ? (key?.name ?? null) : 'Unauthenticated',
+            tier: key?.tier ?? 'public',
+            userId: key?.user_id ?? null,
+            revoked: !!key?.revoked_at,
+            ...stats,
+          };
+        }),
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('v1 usage error:', errorMessage, error);
+    return c.json({ error: 'Failed to fetch usage', details: errorMessage }, 500);
+  }
+});
+
+export const usageRoutes = app;
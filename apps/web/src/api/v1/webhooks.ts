@@ -0,0 +1,175 @@
+// /api/v1/webhooks - Webhooks for the API key owner's account
+// GET /api/v1/webhooks - List webhooks
+// POST /api/v1/webhooks - Register a webhook; the response holds its signing secret (write scope)
+// PATCH /api/v1/webhooks/:id - Change events or re-enable (write scope)
+// DELETE /api/v1/webhooks/:id - Delete a webhook (write scope)
+// GET /api/v1/webhooks/:id/deliveries - Recent delivery attempts
+
+import { Hono, Context } from 'hono';
+import { WEBHOOK_EVENTS, type ParsedWebhook, type User, type WebhookDelivery, type WebhookEvent } from '@listentomore/db';
+import type { Bindings, Variables } from '../../types';
+import { requireAuth } from '../../middleware/auth';
+import {
+  MAX_WEBHOOKS_PER_USER,
+  generateWebhookSecret,
+  isValidWebhookUrl,
+  parseWebhookEvents,
+} from '../../utils/webhooks';
+import { getKeyOwner } from './me';
+
+const app = new Hono<{ Bindings: Bindings; Variables: Variables }>();
+
+const DEFAULT_DELIVERIES = 20;
+const MAX_DELIVERIES = 100;
+
+type AppContext = Context<{ Bindings: Bindings; Variables: Variables }>;
+
+function webhookResponse(webhook: ParsedWebhook) {
+  return {
+    id: webhook.id,
+    url: webhook.url,
+    events: webhook.events,
+    enabled: webhook.enabled,
+    consecutive_failures: webhook.consecutive_failures,
+    disabled_at: webhook.disabled_at,
+    last_delivery_at: webhook.last_delivery_at,
+    created_at: webhook.created_at,
+  };
+}
+
+function deliveryResponse(delivery: WebhookDelivery) {
+  return {
+    id: delivery.id,
+    event: delivery.event,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    next_attempt_at: delivery.next_attempt_at,
+    response_status: delivery.response_status,
+    error: delivery.error,
+    created_at: delivery.created_at,
+    payload: JSON.parse(delivery.payload),
+  };
+}
+
+// The owner and one of their webhooks, or the JSON error to send back
+async function getOwnWebhook(c: AppContext): Promise<{ user: User; webhook: ParsedWebhook } | Response> {
+  const user = await getKeyOwner(c);
+  if (user instanceof Response) return user;
+
+  const webhook = await c.get('db').getWebhook(c.req.param('id')!);
+  if (!webhook || webhook.user_id !== user.id) {
+    return c.json({ error: 'Webhook not found' }, 404);
+  }
+  return { user, webhook };
+}
+
+// Events from a JSON body; unlike the account form, unknown events are an error
+function readEvents(value: unknown): WebhookEvent[] | null {
+  if (!Array.isArray(value)) return null;
+  const events = parseWebhookEvents(value);
+  return events && events.length === new Set(value).size ? events : null;
+}
+
+const EVENTS_ERROR = `events must list one or more of: ${WEBHOOK_EVENTS.join(', ')}`;
+
+async function readJson(c: AppContext): Promise<Record<string, unknown> | Response> {
+  try {
+    const body = await c.req.json();
+    return body && typeof body === 'object' ? body : c.json({ error: 'Invalid JSON body' }, 400);
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+}
+
+app.get('/', async (c) => {
+  const user = await getKeyOwner(c);
+  if (user instanceof Response) return user;
+
+  const webhooks = await c.get('db').listWebhooks(user.id);
+  return c.json({ data: webhooks.map(webhookResponse) });
+});
+
+app.post('/', requireAuth({ requiredScopes: ['write'] }), async (c) => {
+  const user = await getKeyOwner(c);
+  if (user instanceof Response) return user;
+
+  const body = await readJson(c);
+  if (body instanceof Response) return body;
+
+  const url = typeof body.url === 'string' ? body.url.trim() : '';
+  if (!isValidWebhookUrl(url)) {
+    return c.json({ error: 'url must be a public https URL' }, 400);
+  }
+  const events = readEvents(body.events);
+  if (!events) {
+    return c.json({ error: EVENTS_ERROR }, 400);
+  }
+
+  const db = c.get('db');
+  const existing = await db.listWebhooks(user.id);
+  if (existing.length >= MAX_WEBHOOKS_PER_USER) {
+    return c.json({ error: `You can have up to ${MAX_WEBHOOKS_PER_USER} webhooks. Delete one first.` }, 409);
+  }
+
+  const secret = generateWebhookSecret();
+  const webhook = await db.createWebhook({ userId: user.id, apiKeyId: c.get('apiKey')!.id, url, secret, events });
+
+  // The signing secret is only returned here
+  return c.json({ data: { ...webhookResponse(webhook), secret } }, 201);
+});
+
+app.patch('/:id', requireAuth({ requiredScopes: ['write'] }), async (c) => {
+  const result = await getOwnWebhook(c);
+  if (result instanceof Response) return result;
+
+  const body = await readJson(c);
+  if (body instanceof Response) return body;
+
+  const updates: { events?: WebhookEvent[]; enabled?: boolean } = {};
+  if ('events' in body) {
+    const events = readEvents(body.events);
+    if (!events) {
+      return c.json({ error: EVENTS_ERROR }, 400);
+    }
+    updates.events = events;
+  }
+  if ('enabled' in body) {
+    if (typeof body.enabled !== 'boolean') {
+      return c.json({ error: 'enabled must be a boolean' }, 400);
+    }
+    updates.enabled = body.enabled;
+  }
+  if (Object.keys(updates).length === 0) {
+    return c.json({ error: 'Provide events and/or enabled' }, 400);
+  }
+
+  const db = c.get('db');
+  await db.updateWebhook(result.webhook.id, updates);
+  const updated = await db.getWebhook(result.webhook.id);
+
+  return c.json({ data: webhookResponse(updated!) });
+});
+
+app.delete('/:id', requireAuth({ requiredScopes: ['write'] }), async (c) => {
+  const result = await getOwnWebhook(c);
+  if (result instanceof Response) return result;
+
+  await c.get('db').deleteWebhook(result.user.id, result.webhook.id);
+  return c.body(null, 204);
+});
+
+app.get('/:id/deliveries', async (c) => {
+  const result = await getOwnWebhook(c);
+  if (result instanceof Response) return result;
+
+  const limitParam = c.req.query('limit');
+  const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_DELIVERIES;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_DELIVERIES) {
+    return c.json({ error: `limit must be a whole number from 1 to ${MAX_DELIVERIES}` }, 400);
+  }
+
+  const deliveries = await c.get('db').listWebhookDeliveries(result.webhook.id, limit);
+  return c.json({ data: deliveries.map(deliveryResponse) });
+});
+
+export const webhookRoutes = app;
@@ -5,6 +5,7 @@
 import type { Child } from 'hono/jsx';
 import { SITE_CONFIG } from '@listentomore/config';
 import type { User } from '@listentomore/db';
+import type { FeedLink } from '../../utils/feeds';
 import { globalStyles } from '../../styles/globals';
 import { NavBar } from './NavBar';
 import { Banner } from './Banner';
@@ -17,12 +18,14 @@ interface LayoutProps {
   url?: string;
   internalToken?: string;
   currentUser?: User | null;
+  /** Atom/JSON feeds advertised for autodiscovery */
+  feeds?: FeedLink[];
 }
 
 // Default fallback image for social sharing
 const DEFAULT_OG_IMAGE = 'https://file.elezea.com/listentomore-og.png';
 
-export function Layout({ children, title, description, image, url, internalToken, currentUser }: LayoutProps) {
+export function Layout({ children, title, description, image, url, internalToken, currentUser, feeds }: LayoutProps) {
   const pageTitle = title ? `${title} | ${SITE_CONFIG.name}` : SITE_CONFIG.name;
   const pageDescription = description || SITE_CONFIG.description;
   const ogImage = image || DEFAULT_OG_IMAGE;
@@ -58,6 +61,11 @@ export function Layout({ children, title, description, image, url, internalToken
         <link rel="icon" type="image/png" sizes="32x32" href="/favicon-32x32.png" />
         <link rel="icon" type="image/png" sizes="16x16" href="/favicon-16x16.png" />
 
+        {/* Feeds */}
+        {feeds?.map((feed) => (
+          <link rel="alternate" type={feed.type} title={feed.title} href={feed.href} />
+        ))}
+
         {/* PWA */}
         <link rel="manifest" href="/manifest.json" />
         <meta name="theme-color" content="#1DB954" />
@@ -21,6 +21,9 @@ export function NavBar({ currentUser }: NavBarProps) {
           <a href="/artist" class="nav-link">
             Artists
           </a>
+          <a href="/charts" class="nav-link">
+            Charts
+          </a>
           <a href="/tools" class="nav-link">
             Tools
           </a>
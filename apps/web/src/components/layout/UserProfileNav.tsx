@@ -3,7 +3,7 @@
 
 interface UserProfileNavProps {
   username: string;
-  activePage: 'stats' | 'likes' | 'insights';
+  activePage: 'stats' | 'likes' | 'insights' | 'friends' | 'collection' | 'year';
 }
 
 export function UserProfileNav({ username, activePage }: UserProfileNavProps) {
@@ -27,6 +27,24 @@ export function UserProfileNav({ username, activePage }: UserProfileNavProps) {
       >
         Insights
       </a>
+      <a
+        href={`/u/${username}/friends`}
+        class={`profile-nav-link${activePage === 'friends' ? ' active' : ''}`}
+      >
+        Friends
+      </a>
+      <a
+        href={`/u/${username}/collection`}
+        class={`profile-nav-link${activePage === 'collection' ? ' active' : ''}`}
+      >
+        Collection
+      </a>
+      <a
+        href={`/u/${username}/year/${new Date().getUTCFullYear()}`}
+        class={`profile-nav-link${activePage === 'year' ? ' active' : ''}`}
+      >
+        Year
+      </a>
     </nav>
   );
 }
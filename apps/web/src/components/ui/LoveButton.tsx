@@ -0,0 +1,26 @@
+// ABOUTME: Heart button for loving/unloving a track on Last.fm.
+// ABOUTME: Wired up client-side by loveButtonsScript (see utils/client-scripts.ts).
+
+interface LoveButtonProps {
+  artist: string;
+  track: string;
+  // Known loved state; when omitted the script looks it up for the signed-in user
+  loved?: boolean;
+}
+
+export function LoveButton({ artist, track, loved }: LoveButtonProps) {
+  return (
+    <button
+      type="button"
+      class={`love-btn${loved ? ' loved' : ''}`}
+      data-artist={artist}
+      data-track={track}
+      data-loved={loved === undefined ? undefined : String(loved)}
+      aria-pressed={loved ? 'true' : 'false'}
+      aria-label={`Love ${track} by ${artist} on Last.fm`}
+      title="Love on Last.fm"
+    >
+      {loved ? '♥' : '♡'}
+    </button>
+  );
+}
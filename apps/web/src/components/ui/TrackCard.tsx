@@ -1,5 +1,7 @@
 // Track/Album card component for displaying music items in a grid
 
+import { LoveButton } from './LoveButton';
+
 interface TrackCardProps {
   imageUrl?: string;
   artist: string;
@@ -8,6 +10,9 @@ interface TrackCardProps {
   playcount?: number;
   href?: string;
   subtitle?: string;
+  // Show a Last.fm love button for this track (`name` is the track title)
+  lovable?: boolean;
+  loved?: boolean;
 }
 
 export function TrackCard({
@@ -18,6 +23,8 @@ export function TrackCard({
   playcount,
   href,
   subtitle,
+  lovable,
+  loved,
 }: TrackCardProps) {
   const content = (
     <div class="track">
@@ -42,11 +49,19 @@ export function TrackCard({
     </div>
   );
 
-  if (href) {
-    return <a href={href}>{content}</a>;
+  const card = href ? <a href={href}>{content}</a> : content;
+
+  // The button sits outside the link so clicking it doesn't navigate
+  if (lovable) {
+    return (
+      <div class="track-card-lovable">
+        {card}
+        <LoveButton artist={artist} track={name} loved={loved} />
+      </div>
+    );
   }
 
-  return content;
+  return card;
 }
 
 export default TrackCard;
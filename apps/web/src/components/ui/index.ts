@@ -5,6 +5,7 @@ export { ErrorPage, RateLimitedPage } from './ErrorPage';
 export { FilterDropdown } from './FilterDropdown';
 export { Input } from './Input';
 export { LoadingSpinner } from './LoadingSpinner';
+export { LoveButton } from './LoveButton';
 export { SignInCTA } from './SignInCTA';
 export { SignInGate } from './SignInGate';
 export { TrackCard } from './TrackCard';
@@ -135,6 +135,46 @@ export function displayNameToSlug(name: string): string {
   return name.toLowerCase().replace(/\s+/g, '-');
 }
 
+// Common Last.fm tags that don't slugify to a genre slug on their own
+const TAG_ALIASES: Record<string, GenreSlug> = {
+  'alternative-rock': 'alt-rock',
+  'bossa-nova': 'bossanova',
+  dnb: 'drum-and-bass',
+  'drum-n-bass': 'drum-and-bass',
+  dreampop: 'dream-pop',
+  electronica: 'electronic',
+  experimental: 'avant-garde',
+  hiphop: 'hip-hop',
+  'indie-rock': 'indie',
+  'modern-classical': 'neoclassical',
+  'neo-soul': 'soul',
+  'prog-rock': 'progressive-rock',
+  psychedelic: 'psych-rock',
+  'psychedelic-rock': 'psych-rock',
+  'r-and-b': 'r-n-b',
+  rap: 'hip-hop',
+  rnb: 'r-n-b',
+  synthpop: 'synth-pop',
+  triphop: 'trip-hop',
+  world: 'world-music',
+};
+
+const GENRE_SLUGS = new Set<string>(GENRES);
+
+// Map a free-form tag to a genre slug (e.g., "Hip Hop" -> "hip-hop", "R&B" -> "r-n-b"), or null
+export function tagToGenreSlug(tag: string): GenreSlug | null {
+  const slug = tag
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+  if (GENRE_SLUGS.has(slug)) {
+    return slug as GenreSlug;
+  }
+  return TAG_ALIASES[slug] ?? null;
+}
+
 // Get a random genre
 export function getRandomGenre(): { slug: string; displayName: string } {
   const slug = GENRES[Math.floor(Math.random() * GENRES.length)];
@@ -0,0 +1,127 @@
+// Per-caller API rate limiter (Durable Object)
+// One instance per API key (or client IP for unauthenticated requests). A Durable
+// Object handles one event at a time, and the check-and-increment below never
+// awaits, so concurrent requests for the same caller can't both take the last slot.
+
+const WINDOW_MS = 60_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RateLimitConfig {
+  limit: number; // requests per sliding minute
+  dailyQuota: number; // requests per UTC day
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  reset: number; // Unix seconds when the oldest request in the window expires
+  dailyLimit: number;
+  dailyRemaining: number;
+  dailyReset: number; // Unix seconds at the next UTC midnight
+  retryAfter: number | null; // Seconds until a request would be allowed, when denied
+  exceeded: 'minute' | 'daily' | null;
+}
+
+export interface RateLimiterState {
+  timestamps: number[]; // Allowed requests in the last minute, oldest first
+  day: string; // YYYY-MM-DD (UTC) that dayCount belongs to
+  dayCount: number;
+}
+
+/**
+ * Sliding window log for the per-minute limit plus a fixed UTC-day counter for
+ * the daily quota. Only allowed requests are recorded, so a client that keeps
+ * hammering while limited doesn't push its own reset further out.
+ */
+export class SlidingWindowCounter {
+  private state: RateLimiterState;
+
+  constructor(state?: RateLimiterState) {
+    this.state = state ?? { timestamps: [], day: '', dayCount: 0 };
+  }
+
+  consume(config: RateLimitConfig, now: number): RateLimitResult {
+    const day = new Date(now).toISOString().slice(0, 10);
+    if (this.state.day !== day) {
+      this.state.day = day;
+      this.state.dayCount = 0;
+    }
+    const timestamps = this.state.timestamps.filter((t) => t > now - WINDOW_MS);
+    this.state.timestamps = timestamps;
+
+    const dailyReset = Math.ceil((Math.floor(now / DAY_MS) + 1) * DAY_MS / 1000);
+    let exceeded: RateLimitResult['exceeded'] = null;
+    let retryAfter: number | null = null;
+
+    if (this.state.dayCount >= config.dailyQuota) {
+      exceeded = 'daily';
+      retryAfter = Math.max(1, dailyReset - Math.floor(now / 1000));
+    } else if (timestamps.length >= config.limit) {
+      // Enough of the oldest requests must expire to bring the count below the limit
+      exceeded = 'minute';
+      const freesAt = timestamps[timestamps.length - config.limit] + WINDOW_MS;
+      retryAfter = Math.max(1, Math.ceil((freesAt - now) / 1000));
+    } else {
+      timestamps.push(now);
+      this.state.dayCount++;
+    }
+
+    return {
+      allowed: exceeded === null,
+      limit: config.limit,
+      remaining: Math.max(0, config.limit - timestamps.length),
+      reset: Math.ceil(((timestamps[0] ?? now) + WINDOW_MS) / 1000),
+      dailyLimit: config.dailyQuota,
+      dailyRemaining: Math.max(0, config.dailyQuota - this.state.dayCount),
+      dailyReset,
+      retryAfter,
+      exceeded,
+    };
+  }
+
+  snapshot(): RateLimiterState {
+    return this.state;
+  }
+}
+
+export class RateLimiter implements DurableObject {
+  private counter = new SlidingWindowCounter();
+
+  constructor(private ctx: DurableObjectState, _env: unknown) {
+    ctx.blockConcurrencyWhile(async () => {
+      const stored = await ctx.storage.get<RateLimiterState>('state');
+      if (stored) {
+        this.counter = new SlidingWindowCounter(stored);
+      }
+    });
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const config = await request.json<RateLimitConfig>();
+    const result = this.counter.consume(config, Date.now());
+    if (result.allowed) {
+      await this.ctx.storage.put('state', this.counter.snapshot());
+    }
+    return Response.json(result);
+  }
+}
+
+/**
+ * Consume one request from a caller's limiter
+ */
+export async function consumeRateLimit(
+  namespace: DurableObjectNamespace,
+  identifier: string,
+  config: RateLimitConfig
+): Promise<RateLimitResult> {
+  const stub = namespace.get(namespace.idFromName(identifier));
+  const response = await stub.fetch('https://rate-limiter/consume', {
+    method: 'POST',
+    body: JSON.stringify(config),
+  });
+  if (!response.ok) {
+    throw new Error(`Rate limiter returned ${response.status}`);
+  }
+  return response.json<RateLimitResult>();
+}
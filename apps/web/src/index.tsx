@@ -3,7 +3,7 @@
 
 import { Hono } from 'hono';
 import { SITE_CONFIG, CACHE_CONFIG, getTtlSeconds } from '@listentomore/config';
-import { Database } from '@listentomore/db';
+import { Database, type CommunityChartType } from '@listentomore/db';
 import { SpotifyService } from '@listentomore/spotify';
 import { LastfmService } from '@listentomore/lastfm';
 import { StreamingLinksService } from '@listentomore/streaming-links';
@@ -13,6 +13,7 @@ import { AIService } from '@listentomore/ai';
 import {
   corsMiddleware,
   originValidationMiddleware,
+  rateLimitMiddleware,
   securityHeadersMiddleware,
 } from './middleware/security';
 import {
@@ -25,6 +26,12 @@ import { internalAuthMiddleware } from './middleware/internal-auth';
 import { sessionMiddleware } from './middleware/session';
 import { crawlerLoggingMiddleware } from './middleware/crawler-logging';
 import { generateInternalToken } from './utils/internal-token';
+import { syncScrobbles } from './utils/scrobble-sync';
+import { syncDiscogs } from './utils/discogs-sync';
+import { rollupApiUsageLog } from './utils/api-usage';
+import { dispatchWebhookEvent, nowPlayingChanged, pruneWebhookDeliveryLog, retryWebhookDeliveries } from './utils/webhooks';
+import { getListeningProvider } from './utils/listening-provider';
+import { buildCommunityChart } from './utils/community-charts';
 import { Layout } from './components/layout';
 import { handleAlbumSearch } from './pages/album/search';
 import { handleAlbumDetail } from './pages/album/detail';
@@ -34,11 +41,44 @@ import { handleGenreDetail } from './pages/genre/detail';
 import { handleGenreSearch } from './pages/genre/search';
 import { handleUserStats } from './pages/user/stats';
 import { handleUserLikes } from './pages/user/likes';
-import { handleUserInsights } from './pages/user/insights';
+import { handleUserInsights, handleUserInsightsWeek } from './pages/user/insights';
+import { handleUserFriends } from './pages/user/friends';
+import { handleUserCompare } from './pages/user/compare';
+import { handleUserCollection } from './pages/user/collection';
+import { handleUserYear } from './pages/user/year';
+import { handleUserFeed, handleUserInsightsFeed, handleUserLikesFeed } from './pages/user/feeds';
 import { handleStatsLookup } from './pages/stats/entry';
+import { handleCharts } from './pages/charts';
 import { handleLogin } from './pages/auth/login';
 import { handleLastfmAuth, handleLastfmCallback, handleLogout } from './pages/auth/lastfm';
-import { handleAccount, handleAccountProfile, handleAccountPrivacy, handleAccountDelete } from './pages/account';
+import { handleDiscogsAuth, handleDiscogsCallback } from './pages/auth/discogs';
+import {
+  handleAccount,
+  handleAccountProfile,
+  handleAccountPrivacy,
+  handleAccountDiscogsDisconnect,
+  handleAccountListenBrainzConnect,
+  handleAccountListenBrainzDisconnect,
+  handleAccountListeningSource,
+  handleAccountSpotifyHistoryDelete,
+  handleAccountSessionRevoke,
+  handleAccountSessionsRevokeOthers,
+  handleAccountDelete,
+} from './pages/account';
+import { handleAccountExportJson, handleAccountExportCsv } from './pages/account/export';
+import {
+  handleAccountApiKeyCreate,
+  handleAccountApiKeyRotate,
+  handleAccountApiKeyRevoke,
+  handleAccountConnectedAppRevoke,
+} from './pages/account/api-keys';
+import {
+  handleAccountWebhookCreate,
+  handleAccountWebhookEnable,
+  handleAccountWebhookDelete,
+} from './pages/account/webhooks';
+import { handleOAuthAuthorize, handleOAuthAuthorizeDecision } from './pages/oauth/authorize';
+import { handleOAuthMetadata, handleOAuthRegister, handleOAuthRevoke, handleOAuthToken } from './pages/oauth/token';
 import { ToolsPage } from './pages/tools';
 import { PrivacyPage } from './pages/legal/privacy';
 import { TermsPage } from './pages/legal/terms';
@@ -143,6 +183,7 @@ app.use('*', async (c, next) => {
   // Initialize user session context (will be populated by session middleware)
   c.set('currentUser', null);
   c.set('isAuthenticated', false);
+  c.set('sessionId', null);
 
   await next();
 });
@@ -659,16 +700,45 @@ app.get('/artist/:id', handleArtistDetail);
 app.get('/genre', handleGenreSearch);
 app.get('/genre/:slug', handleGenreDetail);
 
+// Community charts
+app.get('/charts', handleCharts);
+
 // Auth routes
 app.get('/login', handleLogin);
 app.get('/auth/lastfm', handleLastfmAuth);
 app.get('/auth/lastfm/callback', handleLastfmCallback);
+app.get('/auth/discogs', handleDiscogsAuth);
+app.get('/auth/discogs/callback', handleDiscogsCallback);
 app.get('/auth/logout', handleLogout);
 
 // Account routes
 app.get('/account', handleAccount);
 app.post('/account/profile', handleAccountProfile);
 app.post('/account/privacy', handleAccountPrivacy);
+app.post('/account/discogs/disconnect', handleAccountDiscogsDisconnect);
+app.post('/account/listenbrainz', handleAccountListenBrainzConnect);
+app.post('/account/listenbrainz/disconnect', handleAccountListenBrainzDisconnect);
+app.post('/account/listening-source', handleAccountListeningSource);
+app.post('/account/spotify-history/delete', handleAccountSpotifyHistoryDelete);
+app.post('/account/sessions/revoke', handleAccountSessionRevoke);
+app.post('/account/sessions/revoke-others', handleAccountSessionsRevokeOthers);
+app.post('/account/api-keys', handleAccountApiKeyCreate);
+app.post('/account/api-keys/rotate', handleAccountApiKeyRotate);
+app.post('/account/api-keys/revoke', handleAccountApiKeyRevoke);
+app.post('/account/connected-apps/revoke', handleAccountConnectedAppRevoke);
+app.post('/account/webhooks', handleAccountWebhookCreate);
+app.post('/account/webhooks/enable', handleAccountWebhookEnable);
+app.post('/account/webhooks/delete', handleAccountWebhookDelete);
+
+// OAuth 2.0 authorization server (third-party apps acting for a user)
+app.get('/.well-known/oauth-authorization-server', handleOAuthMetadata);
+app.get('/oauth/authorize', handleOAuthAuthorize);
+app.post('/oauth/authorize', handleOAuthAuthorizeDecision);
+app.post('/oauth/register', rateLimitMiddleware({ maxRequests: 10, windowMs: 60 * 60_000, keyPrefix: 'ratelimit:oauth-register' }), handleOAuthRegister);
+app.post('/oauth/token', rateLimitMiddleware({ keyPrefix: 'ratelimit:oauth-token' }), handleOAuthToken);
+app.post('/oauth/revoke', handleOAuthRevoke);
+app.get('/account/export/json', handleAccountExportJson);
+app.get('/account/export/csv/:table', handleAccountExportCsv);
 app.post('/account/delete', handleAccountDelete);
 
 // Stats routes (legacy - redirect to login)
@@ -679,6 +749,18 @@ app.get('/stats/lookup', handleStatsLookup);
 app.get('/u/:username', handleUserStats);
 app.get('/u/:username/likes', handleUserLikes);
 app.get('/u/:username/insights', handleUserInsights);
+// Atom and JSON feeds (registered before /insights/:week so "feed.xml" isn't read as a week)
+app.get('/u/:username/feed.xml', handleUserFeed);
+app.get('/u/:username/feed.json', handleUserFeed);
+app.get('/u/:username/likes/feed.xml', handleUserLikesFeed);
+app.get('/u/:username/likes/feed.json', handleUserLikesFeed);
+app.get('/u/:username/insights/feed.xml', handleUserInsightsFeed);
+app.get('/u/:username/insights/feed.json', handleUserInsightsFeed);
+app.get('/u/:username/insights/:week', handleUserInsightsWeek);
+app.get('/u/:username/friends', handleUserFriends);
+app.get('/u/:username/compare/:other', handleUserCompare);
+app.get('/u/:username/collection', handleUserCollection);
+app.get('/u/:username/year/:year', handleUserYear);
 
 // About, Tools, Discord, and legal pages
 app.get('/about', (c) => c.html(<AboutPage currentUser={c.get('currentUser')} />));
@@ -825,7 +907,7 @@ async function scheduled(
     const users = await db.getPublicUsersWithLastfm();
     console.log(`[CRON] Found ${users.length} public users with Last.fm usernames`);
 
-    // ===== Fetch Last.fm data (batched, rate-limited) =====
+    // ===== Fetch recent tracks from each user's listening source (batched, rate-limited) =====
     const BATCH_SIZE = 4;
     const BATCH_DELAY_MS = 1000;
     const startTime = Date.now();
@@ -836,7 +918,11 @@ async function scheduled(
     const userTracks: (TrackData | null)[] = [];
     const totalBatches = Math.ceil(users.length / BATCH_SIZE);
 
-    console.log(`[CRON] Phase 1: Fetching Last.fm data for ${users.length} users in ${totalBatches} batches`);
+    // Users with now-playing webhooks get their track compared against the previous poll
+    const nowPlayingWebhookUsers = new Set(await db.getWebhookUserIds('now_playing.changed'));
+    const nowPlayingChanges: Array<{ userId: string; track: TrackData }> = [];
+
+    console.log(`[CRON] Phase 1: Fetching recent tracks for ${users.length} users in ${totalBatches} batches`);
 
     for (let batchIndex = 0; batchIndex < totalBatches; batchIndex++) {
       const batchStart = batchIndex * BATCH_SIZE;
@@ -846,12 +932,10 @@ async function scheduled(
       const batchResults = await Promise.all(
         batch.map(async (user) => {
           if (!user.lastfm_username) return null;
+          const listening = getListeningProvider(user, { LASTFM_API_KEY: env.LASTFM_API_KEY });
+          if (!listening) return null;
           try {
-            const userLastfm = new LastfmService({
-              apiKey: env.LASTFM_API_KEY,
-              username: user.lastfm_username,
-            });
-            const track = await userLastfm.getMostRecentTrack();
+            const track = await listening.provider.getMostRecentTrack();
             if (track) {
               lastfmSuccessCount++;
               const trackData = {
@@ -859,10 +943,16 @@ async function scheduled(
                 artist: track.artist,
                 album: track.album,
                 track: track.name,
-                image: track.image, // Last.fm image as fallback
+                image: track.image, // Last.fm / Cover Art Archive image as fallback
                 playedAt: track.playedAt,
                 nowPlaying: track.nowPlaying,
               };
+              if (nowPlayingWebhookUsers.has(user.id)) {
+                const previous = await env.CACHE.get<TrackData>(`widget:recent:${user.lastfm_username}`, 'json');
+                if (nowPlayingChanged(previous, trackData)) {
+                  nowPlayingChanges.push({ userId: user.id, track: trackData });
+                }
+              }
               // Persist for /widget/recent so the widget keeps working when Last.fm flakes.
               // 7-day TTL: if the CRON has been broken for a week, stale is no longer useful.
               await env.CACHE.put(
@@ -874,7 +964,7 @@ async function scheduled(
             }
           } catch (error) {
             lastfmErrorCount++;
-            console.error(`[CRON] Failed to fetch recent track for ${user.lastfm_username}:`, error);
+            console.error(`[CRON] Failed to fetch recent track for ${user.lastfm_username} (${listening.source}):`, error);
           }
           return null;
         })
@@ -883,7 +973,7 @@ async function scheduled(
       userTracks.push(...batchResults);
 
       const batchDuration = Date.now() - batchStartTime;
-      console.log(`[CRON] Last.fm batch ${batchIndex + 1}/${totalBatches} complete (${batchDuration}ms)`);
+      console.log(`[CRON] Recent tracks batch ${batchIndex + 1}/${totalBatches} complete (${batchDuration}ms)`);
 
       // Delay before next batch (except for the last one)
       if (batchIndex < totalBatches - 1) {
@@ -892,7 +982,22 @@ async function scheduled(
     }
 
     const totalDuration = Date.now() - startTime;
-    console.log(`[CRON] Last.fm fetch complete: ${lastfmSuccessCount} tracks, ${lastfmErrorCount} errors in ${totalDuration}ms`);
+    console.log(`[CRON] Recent tracks fetch complete: ${lastfmSuccessCount} tracks, ${lastfmErrorCount} errors in ${totalDuration}ms`);
+
+    // Notify now-playing webhooks (first attempt now, failures retried below with backoff)
+    for (const { userId, track } of nowPlayingChanges) {
+      try {
+        await dispatchWebhookEvent(db, userId, 'now_playing.changed', {
+          username: track.username,
+          track: { artist: track.artist, album: track.album, name: track.track, image: track.image },
+        });
+      } catch (error) {
+        console.error(`[CRON] Failed to dispatch now-playing webhooks for ${track.username}:`, error);
+      }
+    }
+    if (nowPlayingChanges.length > 0) {
+      console.log(`[CRON] Dispatched now-playing webhooks for ${nowPlayingChanges.length} users`);
+    }
 
     // Filter and sort
     const nullCount = userTracks.filter(t => t === null).length;
@@ -935,9 +1040,81 @@ async function scheduled(
   } catch (error) {
     console.error('[CRON] Failed to pre-warm user listens cache:', error);
   }
+
+  // Archive scrobble history into D1 (a few users per run, resumes from each user's cursor)
+  try {
+    await syncScrobbles(new Database(env.DB), env.LASTFM_API_KEY);
+  } catch (error) {
+    console.error('[CRON] Failed to sync scrobble history:', error);
+  }
+
+  // Retry failed webhook deliveries whose backoff has elapsed
+  try {
+    const retried = await retryWebhookDeliveries(new Database(env.DB));
+    if (retried.attempted > 0) {
+      console.log(`[CRON] Retried ${retried.attempted} webhook deliveries, ${retried.succeeded} succeeded`);
+    }
+  } catch (error) {
+    console.error('[CRON] Failed to retry webhook deliveries:', error);
+  }
+
+  // Daily cleanup (03:00 UTC): roll API usage logs past the retention window into daily
+  // aggregates and drop old webhook delivery logs
+  if (now.getUTCHours() === 3 && minute < 5) {
+    try {
+      const rolledUp = await rollupApiUsageLog(new Database(env.DB), now);
+      console.log(`[CRON] Rolled ${rolledUp} API usage log rows into daily aggregates`);
+    } catch (error) {
+      console.error('[CRON] Failed to roll up API usage logs:', error);
+    }
+
+    try {
+      const pruned = await pruneWebhookDeliveryLog(new Database(env.DB), now);
+      console.log(`[CRON] Pruned ${pruned} old webhook delivery logs`);
+    } catch (error) {
+      console.error('[CRON] Failed to prune webhook delivery logs:', error);
+    }
+  }
+
+  // Community charts (04:00 UTC): weekly on Mondays, monthly on the 1st, each for the period just ended
+  const dueCharts: CommunityChartType[] = [];
+  if (now.getUTCHours() === 4 && minute < 5) {
+    if (now.getUTCDay() === 1) dueCharts.push('weekly');
+    if (now.getUTCDate() === 1) dueCharts.push('monthly');
+  }
+  if (dueCharts.length > 0) {
+    const spotify = new SpotifyService({
+      clientId: env.SPOTIFY_CLIENT_ID,
+      clientSecret: env.SPOTIFY_CLIENT_SECRET,
+      cache: env.CACHE,
+    });
+    for (const chart of dueCharts) {
+      try {
+        const result = await buildCommunityChart(new Database(env.DB), env.LASTFM_API_KEY, spotify, chart, now);
+        if (result) {
+          console.log(`[CRON] Built ${chart} community chart ${result.period}: ${result.entries} entries from ${result.listeners} listeners`);
+        } else {
+          console.log(`[CRON] Skipped ${chart} community chart: no top lists available`);
+        }
+      } catch (error) {
+        console.error(`[CRON] Failed to build ${chart} community chart:`, error);
+      }
+    }
+  }
+
+  // Sync Discogs collections (daily per user) and enrich releases with master genres/years
+  if (env.DISCOGS_CONSUMER_KEY && env.DISCOGS_CONSUMER_SECRET) {
+    try {
+      await syncDiscogs(new Database(env.DB), env.DISCOGS_CONSUMER_KEY, env.DISCOGS_CONSUMER_SECRET);
+    } catch (error) {
+      console.error('[CRON] Failed to sync Discogs collections:', error);
+    }
+  }
 }
 
 export default {
   fetch: app.fetch,
   scheduled,
 };
+
+export { RateLimiter } from './durable-objects/rate-limiter';
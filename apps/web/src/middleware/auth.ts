@@ -3,26 +3,32 @@
 
 import { Context, MiddlewareHandler } from 'hono';
 import { ParsedApiKey, ApiKeyScope } from '@listentomore/db';
+import { consumeRateLimit } from '../durable-objects/rate-limiter';
+import { hashToken, isAccessToken } from '../utils/oauth';
 
 /**
  * Authentication middleware
- * Extracts and validates API key from X-API-Key header
+ * Extracts and validates API key from X-API-Key header, or an OAuth access token
+ * from an Authorization: Bearer header (resolved to the API key the app acts through)
  * Attaches parsed key to context for downstream use
  */
 export function authMiddleware(): MiddlewareHandler {
   return async (c, next) => {
     const apiKeyHeader = c.req.header('X-API-Key');
+    const bearerToken = c.req.header('Authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
     const db = c.get('db');
 
     let apiKey: ParsedApiKey | null = null;
 
-    if (apiKeyHeader) {
-      try {
+    try {
+      if (apiKeyHeader) {
         apiKey = await db.validateApiKey(apiKeyHeader);
-      } catch (error) {
-        console.error('API key validation error:', error);
-        // Don't fail the request, just treat as unauthenticated
+      } else if (bearerToken && isAccessToken(bearerToken)) {
+        apiKey = await db.validateOAuthAccessToken(await hashToken(bearerToken));
       }
+    } catch (error) {
+      console.error('API key validation error:', error);
+      // Don't fail the request, just treat as unauthenticated
     }
 
     // Set context variables
@@ -45,10 +51,11 @@ export function requireAuth(options?: {
     const apiKey = c.get('apiKey') as ParsedApiKey | null;
 
     if (!apiKey) {
+      c.header('WWW-Authenticate', 'Bearer realm="listentomore"');
       return c.json(
         {
           error: 'Unauthorized',
-          message: 'Valid API key required. Include X-API-Key header.',
+          message: 'Valid API key required. Include X-API-Key header or an OAuth access token as Authorization: Bearer.',
         },
         401
       );
@@ -90,61 +97,55 @@ export function requireAuth(options?: {
 
 /**
  * Per-user rate limiting middleware
- * Uses the authenticated user's tier to determine rate limits
- * Falls back to public tier limits for unauthenticated requests
+ * Uses the authenticated key's tier (or rate_limit_rpm override) for a sliding
+ * one-minute limit plus the tier's daily quota. Counting happens in the
+ * RateLimiter Durable Object, so the limit holds under concurrent requests.
+ * Falls back to public tier limits per client IP for unauthenticated requests.
  */
 export function userRateLimitMiddleware(): MiddlewareHandler {
   return async (c, next) => {
-    const cache = c.env.CACHE;
-    if (!cache) {
-      console.warn('User rate limiting skipped: CACHE KV not available');
+    const limiter = c.env.RATE_LIMITER;
+    if (!limiter) {
+      console.warn('User rate limiting skipped: RATE_LIMITER Durable Object not available');
       return next();
     }
 
     const apiKey = c.get('apiKey');
     const db = c.get('db');
-
-    // Determine rate limit and identifier
-    const rateLimit = db.getEffectiveRateLimit(apiKey);
-    const identifier = apiKey?.id ?? getClientIP(c);
-    const windowMs = 60_000; // 1 minute window
-
-    const windowStart = Math.floor(Date.now() / windowMs);
-    const key = `ratelimit:user:${identifier}:${windowStart}`;
+    const tier = apiKey?.tier ?? 'public';
+    const identifier = apiKey ? `key:${apiKey.id}` : `ip:${getClientIP(c)}`;
 
     try {
-      const currentCount = await cache.get(key);
-      const count = currentCount ? parseInt(currentCount, 10) : 0;
-
-      // Set rate limit headers
-      c.header('X-RateLimit-Limit', rateLimit.toString());
-      c.header('X-RateLimit-Remaining', Math.max(0, rateLimit - count - 1).toString());
-      c.header('X-RateLimit-Reset', ((windowStart + 1) * windowMs).toString());
-      c.header('X-RateLimit-Tier', apiKey?.tier ?? 'public');
+      const result = await consumeRateLimit(limiter, identifier, {
+        limit: db.getEffectiveRateLimit(apiKey),
+        dailyQuota: db.getEffectiveDailyQuota(apiKey),
+      });
 
-      if (count >= rateLimit) {
-        c.header('Retry-After', Math.ceil(windowMs / 1000).toString());
+      c.header('X-RateLimit-Limit', result.limit.toString());
+      c.header('X-RateLimit-Remaining', result.remaining.toString());
+      c.header('X-RateLimit-Reset', result.reset.toString());
+      c.header('X-RateLimit-Daily-Limit', result.dailyLimit.toString());
+      c.header('X-RateLimit-Daily-Remaining', result.dailyRemaining.toString());
+      c.header('X-RateLimit-Daily-Reset', result.dailyReset.toString());
+      c.header('X-RateLimit-Tier', tier);
+
+      if (!result.allowed) {
+        c.header('Retry-After', String(result.retryAfter ?? 60));
+        const message =
+          result.exceeded === 'daily'
+            ? `Daily quota exceeded (${result.dailyLimit} requests/day for ${tier} tier). Resets at midnight UTC.`
+            : `Rate limit exceeded (${result.limit} req/min for ${tier} tier). Please try again later.`;
         return c.json(
           {
             error: 'Too many requests',
-            message: `Rate limit exceeded (${rateLimit} req/min for ${apiKey?.tier ?? 'public'} tier). Please try again later.`,
-            tier: apiKey?.tier ?? 'public',
-            limit: rateLimit,
+            message,
+            tier,
+            limit: result.exceeded === 'daily' ? result.dailyLimit : result.limit,
           },
           429
         );
       }
 
-      // Increment counter.
-      // Note: KV does not support atomic compare-and-swap, so this read-then-write
-      // is inherently racy under concurrent requests. Parallel requests can read the
-      // same count and each write count+1, allowing a client to exceed their limit
-      // proportional to their concurrency. This is intentionally accepted as a soft
-      // limit. For a hard rate limit, migrate to Durable Objects.
-      await cache.put(key, (count + 1).toString(), {
-        expirationTtl: Math.ceil(windowMs / 1000) + 1,
-      });
-
       // Track usage in database (fire and forget)
       if (apiKey) {
         db.incrementApiKeyUsage(apiKey.id).catch((err: unknown) =>
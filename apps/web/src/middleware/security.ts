@@ -34,7 +34,7 @@ export function corsMiddleware(env: { ENVIRONMENT?: string }): MiddlewareHandler
 
   return cors({
     origin: origins,
-    allowMethods: ['GET', 'POST', 'OPTIONS'],
+    allowMethods: ['GET', 'POST', 'PATCH', 'DELETE', 'OPTIONS'],
     allowHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
     maxAge: 86400, // 24 hours
     credentials: false,
@@ -152,8 +152,9 @@ export function originValidationMiddleware(env: {
       //
       // API key authentication is sufficient for server-to-server calls (e.g. bots,
       // other Workers). Origin/referer checks are a browser-CSRF defence; an authenticated
-      // API key already provides equivalent protection for non-browser callers.
-      const hasApiKey = !!c.req.header('X-API-Key');
+      // API key (or OAuth bearer token) already provides equivalent protection for
+      // non-browser callers.
+      const hasApiKey = !!c.req.header('X-API-Key') || /^Bearer\s/i.test(c.req.header('Authorization') ?? '');
       if (!origin && !referer && !hasApiKey) {
         return c.json(
           {
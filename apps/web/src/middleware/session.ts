@@ -6,7 +6,7 @@ import type { Bindings, Variables } from '../types';
 
 /**
  * Session middleware that validates the session cookie and injects
- * currentUser and isAuthenticated into the context.
+ * currentUser, isAuthenticated and sessionId into the context.
  * 
  * This should be applied early in the middleware chain.
  */
@@ -15,10 +15,11 @@ export const sessionMiddleware = createMiddleware<{
   Variables: Variables;
 }>(async (c, next) => {
   const db = c.get('db');
-  const user = await validateSession(c, db);
+  const session = await validateSession(c, db);
 
-  c.set('currentUser', user);
-  c.set('isAuthenticated', !!user);
+  c.set('currentUser', session?.user ?? null);
+  c.set('isAuthenticated', !!session);
+  c.set('sessionId', session?.sessionId ?? null);
 
   await next();
 });
@@ -0,0 +1,386 @@
+// Self-service API keys and connected OAuth apps on the account page
+// URLs: POST /account/api-keys, /account/api-keys/rotate, /account/api-keys/revoke, /account/connected-apps/revoke
+
+import type { Context } from 'hono';
+import type { ApiKeyScope, OAuthAuthorization, ParsedApiKey, User } from '@listentomore/db';
+import { Layout } from '../../components/layout';
+import type { Bindings, Variables } from '../../types';
+import { verifyCsrfToken } from '../../utils/csrf';
+
+type AppContext = Context<{ Bindings: Bindings; Variables: Variables }>;
+
+export const API_KEY_SCOPES: Array<{ scope: ApiKeyScope; label: string }> = [
+  { scope: 'read', label: 'Read – albums, artists, users and links' },
+  { scope: 'write', label: 'Write – endpoints that change data for your account' },
+  { scope: 'ai', label: 'AI – summaries and recommendations' },
+];
+
+// Offered expiry choices, in days ('' = never expires)
+const EXPIRY_OPTIONS = ['', '30', '90', '365'];
+const MAX_ACTIVE_KEYS = 10;
+// A new raw key is held for one page view after creation, then dropped
+const NEW_KEY_TTL_SECONDS = 300;
+
+function newKeyCacheKey(sessionId: string): string {
+  return `account:new-api-key:${sessionId}`;
+}
+
+// SQLite datetime format, so expires_at compares correctly against datetime('now')
+function expiryFromDays(days: number): string {
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().replace('T', ' ').slice(0, 19);
+}
+
+// D1 dates are SQLite datetime values (UTC, no zone); admin-created keys may use ISO strings
+function parseKeyDate(value: string): Date {
+  return new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+}
+
+function formatKeyDate(value: string | null): string {
+  if (!value) return 'Never';
+  return parseKeyDate(value).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function isExpired(key: ParsedApiKey): boolean {
+  return !!key.expires_at && parseKeyDate(key.expires_at) < new Date();
+}
+
+interface ApiKeysSectionProps {
+  apiKeys: ParsedApiKey[];
+  newApiKey: string | null;
+  csrfToken: string;
+}
+
+export function ApiKeysSection({ apiKeys, newApiKey, csrfToken }: ApiKeysSectionProps) {
+  return (
+    <section id="api-keys" style={{ marginTop: '3rem' }}>
+      <h2 style={{ borderBottom: '1px solid rgba(var(--c-base-rgb), 0.1)', paddingBottom: '0.5rem' }}>
+        API Keys
+      </h2>
+
+      <p class="text-muted" style={{ fontSize: '0.9rem', marginTop: '1rem' }}>
+        Use the <a href="/api">ListenToMore API</a> from your own scripts and apps. Keys are standard tier.
+      </p>
+
+      {newApiKey && (
+        <div
+          style={{
+            margin: '1rem 0',
+            padding: '1rem',
+            borderRadius: '8px',
+            border: '1px solid var(--c-accent)',
+          }}
+        >
+          <strong>Your new API key</strong>
+          <p style={{ margin: '0.5rem 0', wordBreak: 'break-all' }}>
+            <code id="new-api-key">{newApiKey}</code>
+          </p>
+          <p class="text-muted" style={{ fontSize: '0.85rem', margin: 0 }}>
+            Copy it now. It won't be shown again.
+          </p>
+        </div>
+      )}
+
+      {apiKeys.length > 0 && (
+        <ul style={{ listStyle: 'none', padding: 0, margin: '1rem 0 0 0' }}>
+          {apiKeys.map((key) => (
+            <li style={{ padding: '0.75rem 0', borderBottom: '1px solid rgba(var(--c-base-rgb), 0.1)' }}>
+              <strong>{key.name}</strong> <code>{key.key_prefix}…</code>
+              {isExpired(key) && <span style={{ color: '#c00' }}> · Expired</span>}
+              <p class="text-muted" style={{ margin: '0.25rem 0 0.5rem 0', fontSize: '0.85rem' }}>
+                {key.scopes.join(', ')} · {key.request_count.toLocaleString('en-US')} requests · Last used{' '}
+                {key.last_used_at ? formatKeyDate(key.last_used_at) : 'never'} · Expires {formatKeyDate(key.expires_at)}
+              </p>
+              <div style={{ display: 'flex', gap: '0.5rem' }}>
+                {!isExpired(key) && (
+                  <form method="post" action="/account/api-keys/rotate" style={{ margin: 0 }}>
+                    <input type="hidden" name="csrf_token" value={csrfToken} />
+                    <input type="hidden" name="key_id" value={key.id} />
+                    <button type="submit" class="button button--small button--secondary">
+                      Rotate
+                    </button>
+                  </form>
+                )}
+                <form method="post" action="/account/api-keys/revoke" style={{ margin: 0 }}>
+                  <input type="hidden" name="csrf_token" value={csrfToken} />
+                  <input type="hidden" name="key_id" value={key.id} />
+                  <button type="submit" class="button button--small button--secondary">
+                    Revoke
+                  </button>
+                </form>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {apiKeys.length < MAX_ACTIVE_KEYS ? (
+        <form method="post" action="/account/api-keys" style={{ marginTop: '1.5rem' }}>
+          <input type="hidden" name="csrf_token" value={csrfToken} />
+          <label for="api-key-name" style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+            New key
+          </label>
+          <input
+            type="text"
+            id="api-key-name"
+            name="name"
+            placeholder="e.g. My Discord bot"
+            maxLength={50}
+            required
+            style={{
+              width: '100%',
+              padding: '0.75rem',
+              borderRadius: '8px',
+              border: '1px solid rgba(var(--c-base-rgb), 0.2)',
+              backgroundColor: 'var(--c-bg)',
+              color: 'var(--c-base)',
+              fontSize: '1rem',
+              marginBottom: '0.75rem',
+            }}
+          />
+          {API_KEY_SCOPES.map(({ scope, label }) => (
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem' }}>
+              <input type="checkbox" name="scopes" value={scope} checked={scope === 'read'} />
+              {label}
+            </label>
+          ))}
+          <label for="api-key-expiry" style={{ display: 'block', margin: '0.75rem 0 0.5rem 0' }}>
+            Expires
+          </label>
+          <select id="api-key-expiry" name="expires_in_days" style={{ marginBottom: '0.75rem', padding: '0.5rem' }}>
+            {EXPIRY_OPTIONS.map((days) => (
+              <option value={days}>{days ? `In ${days} days` : 'Never'}</option>
+            ))}
+          </select>
+          <div>
+            <button type="submit" class="button">
+              Create API Key
+            </button>
+          </div>
+        </form>
+      ) : (
+        <p class="text-muted" style={{ fontSize: '0.9rem', marginTop: '1rem' }}>
+          You have {MAX_ACTIVE_KEYS} keys. Revoke one to create another.
+        </p>
+      )}
+    </section>
+  );
+}
+
+interface ConnectedAppsSectionProps {
+  authorizations: OAuthAuthorization[];
+  csrfToken: string;
+}
+
+export function ConnectedAppsSection({ authorizations, csrfToken }: ConnectedAppsSectionProps) {
+  if (authorizations.length === 0) return null;
+
+  return (
+    <section id="connected-apps" style={{ marginTop: '3rem' }}>
+      <h2 style={{ borderBottom: '1px solid rgba(var(--c-base-rgb), 0.1)', paddingBottom: '0.5rem' }}>
+        Connected Apps
+      </h2>
+
+      <p class="text-muted" style={{ fontSize: '0.9rem', marginTop: '1rem' }}>
+        Apps you've allowed to use your account through the API.
+      </p>
+
+      <ul style={{ listStyle: 'none', padding: 0, margin: '1rem 0 0 0' }}>
+        {authorizations.map((app) => (
+          <li
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              gap: '1rem',
+              padding: '0.75rem 0',
+              borderBottom: '1px solid rgba(var(--c-base-rgb), 0.1)',
+            }}
+          >
+            <div>
+              <strong>{app.client_name}</strong>
+              <p class="text-muted" style={{ margin: '0.25rem 0 0 0', fontSize: '0.85rem' }}>
+                {app.scopes.join(', ')} · Authorized {formatKeyDate(app.authorized_at)} · Last used{' '}
+                {app.last_used_at ? formatKeyDate(app.last_used_at) : 'never'}
+              </p>
+            </div>
+            <form method="post" action="/account/connected-apps/revoke" style={{ margin: 0 }}>
+              <input type="hidden" name="csrf_token" value={csrfToken} />
+              <input type="hidden" name="key_id" value={app.api_key_id} />
+              <button type="submit" class="button button--small button--secondary">
+                Revoke Access
+              </button>
+            </form>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+/**
+ * Take the key created in this session, if any. It is deleted on read so the
+ * raw key is only ever shown once.
+ */
+export async function takeNewApiKey(c: AppContext): Promise<string | null> {
+  const sessionId = c.get('sessionId');
+  if (!sessionId) return null;
+
+  const cacheKey = newKeyCacheKey(sessionId);
+  const key = await c.env.CACHE.get(cacheKey);
+  if (key) {
+    await c.env.CACHE.delete(cacheKey);
+  }
+  return key;
+}
+
+async function holdNewApiKey(c: AppContext, key: string): Promise<void> {
+  await c.env.CACHE.put(newKeyCacheKey(c.get('sessionId')!), key, { expirationTtl: NEW_KEY_TTL_SECONDS });
+}
+
+function InvalidApiKeyRequest({ user, message }: { user: User; message: string }) {
+  return (
+    <Layout title="Error" currentUser={user}>
+      <div style={{ maxWidth: '600px', margin: '2rem auto', padding: '0 1rem' }}>
+        <h1 style={{ color: '#c00' }}>Invalid Request</h1>
+        <p>{message}</p>
+        <a href="/account#api-keys" class="button" style={{ marginTop: '1rem', display: 'inline-block' }}>
+          Back to Account Settings
+        </a>
+      </div>
+    </Layout>
+  );
+}
+
+/**
+ * Signed-in user and form data for a key action, or the response to send when
+ * the user is signed out or the CSRF token doesn't match
+ */
+async function readKeyForm(c: AppContext): Promise<{ user: User; form: FormData } | Response> {
+  const currentUser = c.get('currentUser');
+  if (!currentUser) {
+    return c.redirect('/login');
+  }
+
+  const form = await c.req.formData();
+  if (!(await verifyCsrfToken(form.get('csrf_token'), c.env.INTERNAL_API_SECRET, c.get('sessionId')))) {
+    return c.html(
+      <InvalidApiKeyRequest user={currentUser} message="This form has expired. Please manage keys from your account settings page." />,
+      403
+    );
+  }
+
+  return { user: currentUser, form };
+}
+
+// An active key belonging to the user, or null. Keys behind connected apps are managed separately.
+async function getOwnKey(c: AppContext, user: User, keyId: ReturnType<FormData['get']>): Promise<ParsedApiKey | null> {
+  if (typeof keyId !== 'string' || !keyId) return null;
+  const key = await c.get('db').getApiKey(keyId);
+  return key && key.user_id === user.id && !key.revoked_at && !key.oauth_client_id ? key : null;
+}
+
+export async function handleAccountApiKeyCreate(c: AppContext) {
+  const result = await readKeyForm(c);
+  if (result instanceof Response) return result;
+  const { user, form } = result;
+
+  const name = String(form.get('name') || '').trim().slice(0, 50);
+  const allowed = API_KEY_SCOPES.map(({ scope }) => scope);
+  const scopes = [...new Set(form.getAll('scopes'))].filter((s): s is ApiKeyScope =>
+    allowed.includes(s as ApiKeyScope)
+  );
+  const expiresInDays = String(form.get('expires_in_days') || '');
+
+  if (!name || scopes.length === 0 || !EXPIRY_OPTIONS.includes(expiresInDays)) {
+    return c.html(
+      <InvalidApiKeyRequest user={user} message="Give the key a name and choose at least one scope." />,
+      400
+    );
+  }
+
+  const db = c.get('db');
+  const activeKeys = await db.listApiKeys(user.id);
+  if (activeKeys.length >= MAX_ACTIVE_KEYS) {
+    return c.html(
+      <InvalidApiKeyRequest user={user} message={`You can have up to ${MAX_ACTIVE_KEYS} API keys. Revoke one first.`} />,
+      400
+    );
+  }
+
+  const created = await db.createApiKey({
+    userId: user.id,
+    name,
+    tier: 'standard',
+    scopes,
+    expiresAt: expiresInDays ? expiryFromDays(Number(expiresInDays)) : undefined,
+  });
+  await holdNewApiKey(c, created.key);
+
+  return c.redirect('/account#api-keys');
+}
+
+// Rotating replaces a key with a new one on the same settings, then revokes the old one
+export async function handleAccountApiKeyRotate(c: AppContext) {
+  const result = await readKeyForm(c);
+  if (result instanceof Response) return result;
+  const { user, form } = result;
+
+  const key = await getOwnKey(c, user, form.get('key_id'));
+  if (!key) {
+    return c.redirect('/account#api-keys');
+  }
+
+  // The replacement would inherit the expiry and be dead on arrival
+  if (isExpired(key)) {
+    return c.html(
+      <InvalidApiKeyRequest user={user} message="This key has expired and can't be rotated. Revoke it and create a new key instead." />,
+      400
+    );
+  }
+
+  const db = c.get('db');
+  const created = await db.createApiKey({
+    userId: user.id,
+    name: key.name,
+    tier: key.tier,
+    scopes: key.scopes,
+    rateLimitRpm: key.rate_limit_rpm ?? undefined,
+    expiresAt: key.expires_at ?? undefined,
+  });
+  await db.revokeApiKey(key.id);
+  await holdNewApiKey(c, created.key);
+
+  return c.redirect('/account#api-keys');
+}
+
+export async function handleAccountApiKeyRevoke(c: AppContext) {
+  const result = await readKeyForm(c);
+  if (result instanceof Response) return result;
+  const { user, form } = result;
+
+  const key = await getOwnKey(c, user, form.get('key_id'));
+  if (key) {
+    await c.get('db').revokeApiKey(key.id);
+  }
+
+  return c.redirect('/account#api-keys');
+}
+
+// Revoking a connected app revokes the key it acts through and deletes its tokens
+export async function handleAccountConnectedAppRevoke(c: AppContext) {
+  const result = await readKeyForm(c);
+  if (result instanceof Response) return result;
+  const { user, form } = result;
+
+  const keyId = form.get('key_id');
+  if (typeof keyId === 'string' && keyId) {
+    await c.get('db').revokeOAuthAuthorization(user.id, keyId);
+  }
+
+  return c.redirect('/account#connected-apps');
+}
@@ -0,0 +1,96 @@
+// Account data export downloads
+// URLs: /account/export/json, /account/export/csv/:table
+
+import type { Context } from 'hono';
+import { ErrorPage } from '../../components/ui';
+import type { Bindings, Variables } from '../../types';
+import { buildAccountExport, isExportTable, toCsv } from '../../utils/account-export';
+
+type AppContext = Context<{ Bindings: Bindings; Variables: Variables }>;
+
+// Exports query every table for the user, so keep them to a handful per hour
+const EXPORT_WINDOW_MS = 60 * 60 * 1000;
+const MAX_EXPORTS_PER_WINDOW = 20;
+
+/**
+ * Count this export against the user's hourly allowance. Returns a 429 page
+ * once it's used up; KV errors let the export through.
+ */
+async function checkExportRateLimit(c: AppContext, userId: string): Promise<Response | null> {
+  const windowStart = Math.floor(Date.now() / EXPORT_WINDOW_MS);
+  const key = `ratelimit:export:${userId}:${windowStart}`;
+
+  try {
+    const currentCount = await c.env.CACHE.get(key);
+    const count = currentCount ? parseInt(currentCount, 10) : 0;
+
+    if (count >= MAX_EXPORTS_PER_WINDOW) {
+      const retryAfter = Math.ceil(((windowStart + 1) * EXPORT_WINDOW_MS - Date.now()) / 1000);
+      c.header('Retry-After', retryAfter.toString());
+      return c.html(
+        <ErrorPage
+          title="Too Many Exports"
+          message={`You can download up to ${MAX_EXPORTS_PER_WINDOW} exports an hour.`}
+          suggestion={`Please try again in ${Math.ceil(retryAfter / 60)} minutes.`}
+        />,
+        429
+      );
+    }
+
+    await c.env.CACHE.put(key, (count + 1).toString(), {
+      expirationTtl: Math.ceil(EXPORT_WINDOW_MS / 1000) + 1,
+    });
+  } catch (error) {
+    console.error('[Account Export] Rate limit error:', error);
+  }
+
+  return null;
+}
+
+function exportFileName(username: string | null, extension: string): string {
+  const date = new Date().toISOString().slice(0, 10);
+  return `listentomore-${username || 'account'}-${date}.${extension}`;
+}
+
+export async function handleAccountExportJson(c: AppContext) {
+  const currentUser = c.get('currentUser');
+
+  if (!currentUser) {
+    return c.redirect('/login?next=/account');
+  }
+
+  const limited = await checkExportRateLimit(c, currentUser.id);
+  if (limited) return limited;
+
+  const data = await buildAccountExport(c.get('db'), c.env.CACHE, currentUser);
+
+  return c.body(JSON.stringify(data, null, 2), 200, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Content-Disposition': `attachment; filename="${exportFileName(currentUser.username, 'json')}"`,
+    'Cache-Control': 'no-store',
+  });
+}
+
+export async function handleAccountExportCsv(c: AppContext) {
+  const currentUser = c.get('currentUser');
+
+  if (!currentUser) {
+    return c.redirect('/login?next=/account');
+  }
+
+  const table = c.req.param('table');
+  if (!isExportTable(table)) {
+    return c.html(<ErrorPage title="Not Found" message="There is no export with that name." />, 404);
+  }
+
+  const limited = await checkExportRateLimit(c, currentUser.id);
+  if (limited) return limited;
+
+  const data = await buildAccountExport(c.get('db'), c.env.CACHE, currentUser);
+
+  return c.body(toCsv(data[table]), 200, {
+    'Content-Type': 'text/csv; charset=utf-8',
+    'Content-Disposition': `attachment; filename="${exportFileName(currentUser.username, `${table}.csv`)}"`,
+    'Cache-Control': 'no-store',
+  });
+}
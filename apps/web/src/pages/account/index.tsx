@@ -2,20 +2,70 @@
 // URL: /account
 
 import type { Context } from 'hono';
-import type { User } from '@listentomore/db';
+import type { OAuthAuthorization, ParsedApiKey, ParsedSpotifyImport, Session, User } from '@listentomore/db';
+import { validateListenBrainzToken } from '@listentomore/listenbrainz';
 import { Layout } from '../../components/layout';
+import { MAX_IMPORT_CHUNK_SIZE } from '../../utils/spotify-history';
+import { EXPORT_TABLES } from '../../utils/account-export';
+import { generateCsrfToken, verifyCsrfToken } from '../../utils/csrf';
+import { describeUserAgent } from '../../utils/user-agent';
+import { ApiKeysSection, ConnectedAppsSection, takeNewApiKey } from './api-keys';
+import { WebhooksSection, getWebhooksWithDeliveries, takeNewWebhookSecret, type WebhookWithDeliveries } from './webhooks';
 import type { Bindings, Variables } from '../../types';
 
 interface AccountPageProps {
   user: User;
+  discogsEnabled: boolean;
+  listenbrainzError?: string | null;
+  spotifyImports: ParsedSpotifyImport[];
+  sessions: Session[];
+  currentSessionId: string | null;
+  csrfToken: string;
+  apiKeys: ParsedApiKey[];
+  newApiKey: string | null;
+  connectedApps: OAuthAuthorization[];
+  webhooks: WebhookWithDeliveries[];
+  newWebhookSecret: string | null;
+  internalToken?: string;
 }
 
-function AccountPage({ user }: AccountPageProps) {
+const LISTENBRAINZ_ERRORS: Record<string, string> = {
+  invalid: 'That ListenBrainz token was not accepted. Copy it again from your ListenBrainz settings.',
+  unavailable: 'ListenBrainz could not be reached. Please try again in a moment.',
+};
+
+// Dates from D1 are either ISO strings or SQLite datetime('now') values (UTC, no zone)
+function formatDate(iso: string | null): string {
+  if (!iso) return '';
+  return new Date(iso.includes('T') ? iso : `${iso.replace(' ', 'T')}Z`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function AccountPage({
+  user,
+  discogsEnabled,
+  listenbrainzError,
+  spotifyImports,
+  sessions,
+  currentSessionId,
+  csrfToken,
+  apiKeys,
+  newApiKey,
+  connectedApps,
+  webhooks,
+  newWebhookSecret,
+  internalToken,
+}: AccountPageProps) {
   return (
     <Layout
       title="Account Settings"
       description="Manage your ListenToMore account settings"
       currentUser={user}
+      internalToken={internalToken}
     >
       <div style={{ maxWidth: '600px', margin: '2rem auto', padding: '0 1rem' }}>
         <h1>Account Settings</h1>
@@ -98,6 +148,185 @@ function AccountPage({ user }: AccountPageProps) {
           <p class="text-muted" style={{ fontSize: '0.85rem', marginTop: '0.5rem' }}>
             Your Last.fm account is used for authentication and cannot be disconnected.
           </p>
+
+          <div style={{ marginTop: '1.5rem', display: 'flex', alignItems: 'center', gap: '1rem' }}>
+            <span style={{ fontSize: '1.5rem' }}>🧠</span>
+            <div>
+              <strong>ListenBrainz</strong>
+              {user.listenbrainz_username ? (
+                <p class="text-muted" style={{ margin: '0.25rem 0 0 0' }}>
+                  Connected as{' '}
+                  <a href={`https://listenbrainz.org/user/${user.listenbrainz_username}/`} target="_blank" rel="noopener noreferrer">
+                    @{user.listenbrainz_username}
+                  </a>
+                </p>
+              ) : (
+                <p class="text-muted" style={{ margin: '0.25rem 0 0 0' }}>
+                  Not connected
+                </p>
+              )}
+            </div>
+          </div>
+          {listenbrainzError && (
+            <p style={{ color: '#c00', fontSize: '0.9rem', margin: '0.75rem 0 0 0' }}>{listenbrainzError}</p>
+          )}
+          {user.listenbrainz_username ? (
+            <>
+              <form method="post" action="/account/listening-source" style={{ marginTop: '0.75rem' }}>
+                <p class="text-muted" style={{ fontSize: '0.85rem', margin: '0 0 0.5rem 0' }}>
+                  Choose where your stats, likes, insights and home page listens come from.
+                </p>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', cursor: 'pointer', marginBottom: '0.25rem' }}>
+                  <input type="radio" name="listening_source" value="lastfm" checked={user.listening_source !== 'listenbrainz'} />
+                  Last.fm
+                </label>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', cursor: 'pointer', marginBottom: '0.75rem' }}>
+                  <input type="radio" name="listening_source" value="listenbrainz" checked={user.listening_source === 'listenbrainz'} />
+                  ListenBrainz
+                </label>
+                <button type="submit" class="button">
+                  Save Listening Source
+                </button>
+              </form>
+              <form method="post" action="/account/listenbrainz/disconnect" style={{ marginTop: '0.75rem' }}>
+                <button type="submit" class="button">
+                  Disconnect ListenBrainz
+                </button>
+              </form>
+            </>
+          ) : (
+            <form method="post" action="/account/listenbrainz" style={{ marginTop: '0.75rem' }}>
+              <p class="text-muted" style={{ fontSize: '0.85rem', margin: '0 0 0.75rem 0' }}>
+                Use ListenBrainz instead of (or alongside) Last.fm for your listening data. Paste your user token from{' '}
+                <a href="https://listenbrainz.org/settings/" target="_blank" rel="noopener noreferrer">
+                  ListenBrainz settings
+                </a>
+                {' '}to verify the account. The token is not stored.
+              </p>
+              <input
+                type="password"
+                name="token"
+                required
+                autocomplete="off"
+                placeholder="ListenBrainz user token"
+                style={{
+                  width: '100%',
+                  padding: '0.75rem',
+                  borderRadius: '8px',
+                  border: '1px solid rgba(var(--c-base-rgb), 0.2)',
+                  backgroundColor: 'var(--c-bg)',
+                  color: 'var(--c-base)',
+                  fontSize: '1rem',
+                  marginBottom: '0.75rem',
+                }}
+              />
+              <button type="submit" class="button">
+                Connect ListenBrainz
+              </button>
+            </form>
+          )}
+
+          {discogsEnabled && (
+            <>
+              <div style={{ marginTop: '1.5rem', display: 'flex', alignItems: 'center', gap: '1rem' }}>
+                <span style={{ fontSize: '1.5rem' }}>💿</span>
+                <div>
+                  <strong>Discogs</strong>
+                  {user.discogs_username ? (
+                    <p class="text-muted" style={{ margin: '0.25rem 0 0 0' }}>
+                      Connected as{' '}
+                      <a href={`https://www.discogs.com/user/${user.discogs_username}`} target="_blank" rel="noopener noreferrer">
+                        @{user.discogs_username}
+                      </a>
+                      {' · '}
+                      <a href={`/u/${user.username}/collection`}>View collection</a>
+                    </p>
+                  ) : (
+                    <p class="text-muted" style={{ margin: '0.25rem 0 0 0' }}>
+                      Not connected
+                    </p>
+                  )}
+                </div>
+              </div>
+              {user.discogs_username ? (
+                <form method="post" action="/account/discogs/disconnect" style={{ marginTop: '0.75rem' }}>
+                  <p class="text-muted" style={{ fontSize: '0.85rem', margin: '0 0 0.75rem 0' }}>
+                    Disconnecting removes your synced collection from ListenToMore.
+                  </p>
+                  <button type="submit" class="button">
+                    Disconnect Discogs
+                  </button>
+                </form>
+              ) : (
+                <div style={{ marginTop: '0.75rem' }}>
+                  <p class="text-muted" style={{ fontSize: '0.85rem', margin: '0 0 0.75rem 0' }}>
+                    Connect Discogs to browse your record collection on your profile. It syncs once a day.
+                  </p>
+                  <a href="/auth/discogs" class="button">
+                    Connect Discogs
+                  </a>
+                </div>
+              )}
+            </>
+          )}
+        </section>
+
+        {/* Spotify History Section */}
+        <section style={{ marginTop: '3rem' }}>
+          <h2 style={{ borderBottom: '1px solid rgba(var(--c-base-rgb), 0.1)', paddingBottom: '0.5rem' }}>
+            Spotify History
+          </h2>
+
+          <p class="text-muted" style={{ fontSize: '0.9rem', marginTop: '1rem' }}>
+            Add listening from before you used Last.fm. Request your extended streaming history from{' '}
+            <a href="https://www.spotify.com/account/privacy/" target="_blank" rel="noopener noreferrer">
+              Spotify's privacy settings
+            </a>
+            , then choose the <code>Streaming_History_Audio_*.json</code> (or older <code>endsong_*.json</code>) files.
+            Plays already scrobbled to Last.fm are skipped, as are podcasts and plays under 30 seconds.
+          </p>
+
+          <div id="spotify-import" style={{ marginTop: '1rem' }}>
+            <input
+              type="file"
+              id="spotify-import-files"
+              accept=".json,application/json"
+              multiple
+              style={{ marginBottom: '0.75rem', display: 'block' }}
+            />
+            <button type="button" id="spotify-import-start" class="button">
+              Import Plays
+            </button>
+            <p id="spotify-import-status" class="text-muted" style={{ fontSize: '0.9rem', margin: '0.75rem 0 0 0' }}></p>
+          </div>
+
+          {spotifyImports.length > 0 && (
+            <>
+              <ul style={{ listStyle: 'none', padding: 0, margin: '1.5rem 0 0 0' }}>
+                {spotifyImports.map((spotifyImport) => (
+                  <li style={{ marginBottom: '0.75rem' }}>
+                    <strong>{formatDate(spotifyImport.created_at)}</strong>
+                    <span class="text-muted" style={{ fontSize: '0.9rem' }}>
+                      {' · '}
+                      {spotifyImport.plays_imported.toLocaleString('en-US')} plays added
+                      {spotifyImport.duplicates > 0 && `, ${spotifyImport.duplicates.toLocaleString('en-US')} already on Last.fm`}
+                      {spotifyImport.oldest_played_at &&
+                        spotifyImport.newest_played_at &&
+                        ` (${formatDate(spotifyImport.oldest_played_at)} to ${formatDate(spotifyImport.newest_played_at)})`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              <form method="post" action="/account/spotify-history/delete" style={{ marginTop: '0.75rem' }}>
+                <p class="text-muted" style={{ fontSize: '0.85rem', margin: '0 0 0.75rem 0' }}>
+                  Removing imported plays leaves your Last.fm history untouched.
+                </p>
+                <button type="submit" class="button button--secondary">
+                  Remove Imported Plays
+                </button>
+              </form>
+            </>
+          )}
         </section>
 
         {/* Privacy Section */}
@@ -149,6 +378,94 @@ function AccountPage({ user }: AccountPageProps) {
           </form>
         </section>
 
+        {/* Active Sessions Section */}
+        <section style={{ marginTop: '3rem' }}>
+          <h2 style={{ borderBottom: '1px solid rgba(var(--c-base-rgb), 0.1)', paddingBottom: '0.5rem' }}>
+            Active Sessions
+          </h2>
+
+          <p class="text-muted" style={{ fontSize: '0.9rem', marginTop: '1rem' }}>
+            Devices signed in to your account. Sign out any you don't recognise or no longer use.
+          </p>
+
+          <ul style={{ listStyle: 'none', padding: 0, margin: '1rem 0 0 0' }}>
+            {sessions.map((session) => {
+              const isCurrent = session.id === currentSessionId;
+              return (
+                <li
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'space-between',
+                    gap: '1rem',
+                    padding: '0.75rem 0',
+                    borderBottom: '1px solid rgba(var(--c-base-rgb), 0.1)',
+                  }}
+                >
+                  <div>
+                    <strong>{describeUserAgent(session.user_agent)}</strong>
+                    {isCurrent && <span class="text-muted"> · This device</span>}
+                    <p class="text-muted" style={{ margin: '0.25rem 0 0 0', fontSize: '0.85rem' }}>
+                      {isCurrent ? 'Active now' : `Last active ${formatDate(session.last_active_at)}`}
+                      {session.ip_address && ` · ${session.ip_address}`}
+                      {` · Signed in ${formatDate(session.created_at)}`}
+                    </p>
+                  </div>
+                  <form method="post" action="/account/sessions/revoke" style={{ margin: 0 }}>
+                    <input type="hidden" name="csrf_token" value={csrfToken} />
+                    <input type="hidden" name="session_id" value={session.id} />
+                    <button type="submit" class="button button--small button--secondary">
+                      {isCurrent ? 'Sign out this device' : 'Sign out'}
+                    </button>
+                  </form>
+                </li>
+              );
+            })}
+          </ul>
+
+          {sessions.some((session) => session.id !== currentSessionId) && (
+            <form method="post" action="/account/sessions/revoke-others" style={{ marginTop: '1rem' }}>
+              <input type="hidden" name="csrf_token" value={csrfToken} />
+              <button type="submit" class="button">
+                Sign Out Everywhere Else
+              </button>
+            </form>
+          )}
+        </section>
+
+        <ApiKeysSection apiKeys={apiKeys} newApiKey={newApiKey} csrfToken={csrfToken} />
+
+        <ConnectedAppsSection authorizations={connectedApps} csrfToken={csrfToken} />
+
+        <WebhooksSection webhooks={webhooks} newSecret={newWebhookSecret} csrfToken={csrfToken} />
+
+        {/* Data Export Section */}
+        <section style={{ marginTop: '3rem' }}>
+          <h2 style={{ borderBottom: '1px solid rgba(var(--c-base-rgb), 0.1)', paddingBottom: '0.5rem' }}>
+            Your Data
+          </h2>
+
+          <p class="text-muted" style={{ fontSize: '0.9rem', marginTop: '1rem' }}>
+            Download everything ListenToMore stores about you: your profile, sessions, API keys and their usage,
+            Discogs collection, saved insights and Spotify imports. Passwords, tokens and key hashes are never included.
+          </p>
+
+          <a href="/account/export/json" class="button">
+            Download JSON
+          </a>
+
+          <p class="text-muted" style={{ fontSize: '0.9rem', margin: '1rem 0 0.5rem 0' }}>
+            Or download a single table as CSV:
+          </p>
+          <ul style={{ margin: 0, paddingLeft: '1.25rem', fontSize: '0.9rem' }}>
+            {EXPORT_TABLES.map((table) => (
+              <li>
+                <a href={`/account/export/csv/${table}`}>{table}.csv</a>
+              </li>
+            ))}
+          </ul>
+        </section>
+
         {/* Danger Zone */}
         <section style={{ marginTop: '3rem', marginBottom: '3rem' }}>
           <h2 style={{ borderBottom: '1px solid rgba(var(--c-base-rgb), 0.1)', paddingBottom: '0.5rem', color: '#c00' }}>
@@ -179,6 +496,113 @@ function AccountPage({ user }: AccountPageProps) {
         </section>
       </div>
 
+      {/* Spotify History Import Script - files are parsed in the browser and uploaded in chunks */}
+      <script
+        dangerouslySetInnerHTML={{
+          __html: `
+            (function() {
+              var input = document.getElementById('spotify-import-files');
+              var btn = document.getElementById('spotify-import-start');
+              var status = document.getElementById('spotify-import-status');
+              if (!input || !btn || !status) return;
+
+              var CHUNK_SIZE = ${MAX_IMPORT_CHUNK_SIZE};
+
+              function finish(message) {
+                status.textContent = message;
+                btn.disabled = false;
+                btn.textContent = 'Import Plays';
+              }
+
+              function postJson(url, body) {
+                return internalFetch(url, {
+                  method: 'POST',
+                  headers: { 'Content-Type': 'application/json' },
+                  body: JSON.stringify(body)
+                }).then(function(r) { return r.json(); });
+              }
+
+              // Keep only the fields the import uses; the export has many more per entry
+              function strip(entry) {
+                return {
+                  ts: entry.ts,
+                  ms_played: entry.ms_played,
+                  master_metadata_track_name: entry.master_metadata_track_name,
+                  master_metadata_album_artist_name: entry.master_metadata_album_artist_name,
+                  master_metadata_album_album_name: entry.master_metadata_album_album_name,
+                  spotify_track_uri: entry.spotify_track_uri
+                };
+              }
+
+              function readFile(file) {
+                return file.text().then(function(text) {
+                  var data = JSON.parse(text);
+                  if (!Array.isArray(data)) throw new Error(file.name + ' is not a streaming history file');
+                  return data.map(strip);
+                });
+              }
+
+              btn.addEventListener('click', function() {
+                var files = Array.prototype.slice.call(input.files || []);
+                if (files.length === 0) {
+                  status.textContent = 'Choose one or more streaming history files first.';
+                  return;
+                }
+
+                btn.disabled = true;
+                btn.textContent = 'Importing...';
+                status.textContent = 'Reading files...';
+
+                var totals = { imported: 0, duplicates: 0, skipped: 0 };
+                var entries = [];
+
+                Promise.all(files.map(readFile))
+                  .then(function(lists) {
+                    lists.forEach(function(list) { entries = entries.concat(list); });
+                    return postJson('/api/internal/spotify-import-start', {
+                      files: files.map(function(f) { return f.name; })
+                    });
+                  })
+                  .then(function(data) {
+                    if (data.error) throw new Error(data.error);
+                    var importId = data.data.id;
+                    var offset = 0;
+
+                    function next() {
+                      if (offset >= entries.length) return Promise.resolve();
+                      var chunk = entries.slice(offset, offset + CHUNK_SIZE);
+                      status.textContent = 'Importing ' + Math.min(offset + chunk.length, entries.length).toLocaleString() +
+                        ' of ' + entries.length.toLocaleString() + ' streams...';
+                      return postJson('/api/internal/spotify-import-chunk', { importId: importId, entries: chunk })
+                        .then(function(result) {
+                          if (result.error) throw new Error(result.error);
+                          totals.imported += result.data.imported;
+                          totals.duplicates += result.data.duplicates;
+                          totals.skipped += result.data.skipped;
+                          offset += chunk.length;
+                          return next();
+                        });
+                    }
+
+                    return next();
+                  })
+                  .then(function() {
+                    finish('Added ' + totals.imported.toLocaleString() + ' plays. ' +
+                      totals.duplicates.toLocaleString() + ' were already on Last.fm and ' +
+                      totals.skipped.toLocaleString() + ' were skipped.');
+                    setTimeout(function() { window.location.reload(); }, 2000);
+                  })
+                  .catch(function(e) {
+                    console.error('Spotify import error:', e);
+                    var imported = totals.imported > 0 ? ' ' + totals.imported.toLocaleString() + ' plays were added before it stopped.' : '';
+                    finish((e && e.message ? e.message : 'Import failed. Please try again.') + imported);
+                  });
+              });
+            })();
+          `,
+        }}
+      />
+
       {/* Delete Account Confirmation Script */}
       <script
         dangerouslySetInnerHTML={{
@@ -219,7 +643,40 @@ export async function handleAccount(c: Context<{ Bindings: Bindings; Variables:
     return c.redirect('/login?next=/account');
   }
 
-  return c.html(<AccountPage user={currentUser} />);
+  const discogsEnabled = Boolean(c.env.DISCOGS_CONSUMER_KEY && c.env.DISCOGS_CONSUMER_SECRET);
+  const listenbrainzError = LISTENBRAINZ_ERRORS[c.req.query('listenbrainz') || ''] || null;
+  const db = c.get('db');
+  const currentSessionId = c.get('sessionId');
+  const [spotifyImports, sessions, apiKeys, newApiKey, connectedApps, webhooks, newWebhookSecret] = await Promise.all([
+    db.getSpotifyImports(currentUser.id),
+    db.getSessionsByUser(currentUser.id),
+    db.listApiKeys(currentUser.id),
+    takeNewApiKey(c),
+    db.listOAuthAuthorizations(currentUser.id),
+    getWebhooksWithDeliveries(c, currentUser),
+    takeNewWebhookSecret(c),
+  ]);
+  const now = new Date();
+  const activeSessions = sessions.filter((session) => new Date(session.expires_at) > now);
+  const csrfToken = currentSessionId ? await generateCsrfToken(c.env.INTERNAL_API_SECRET, currentSessionId) : '';
+
+  return c.html(
+    <AccountPage
+      user={currentUser}
+      discogsEnabled={discogsEnabled}
+      listenbrainzError={listenbrainzError}
+      spotifyImports={spotifyImports}
+      sessions={activeSessions}
+      currentSessionId={currentSessionId}
+      csrfToken={csrfToken}
+      apiKeys={apiKeys}
+      newApiKey={newApiKey}
+      connectedApps={connectedApps}
+      webhooks={webhooks}
+      newWebhookSecret={newWebhookSecret}
+      internalToken={c.get('internalToken') as string}
+    />
+  );
 }
 
 export async function handleAccountProfile(c: Context<{ Bindings: Bindings; Variables: Variables }>) {
@@ -262,6 +719,169 @@ export async function handleAccountPrivacy(c: Context<{ Bindings: Bindings; Vari
   return c.redirect('/account');
 }
 
+export async function handleAccountDiscogsDisconnect(c: Context<{ Bindings: Bindings; Variables: Variables }>) {
+  const currentUser = c.get('currentUser');
+
+  if (!currentUser) {
+    return c.redirect('/login');
+  }
+
+  const db = c.get('db');
+  await db.updateUser(currentUser.id, {
+    discogs_username: null,
+    discogs_oauth_token: null,
+    discogs_oauth_token_secret: null,
+  });
+  await db.deleteReleases(currentUser.id);
+  await db.deleteSyncState(currentUser.id);
+
+  return c.redirect('/account');
+}
+
+export async function handleAccountListenBrainzConnect(c: Context<{ Bindings: Bindings; Variables: Variables }>) {
+  const currentUser = c.get('currentUser');
+
+  if (!currentUser) {
+    return c.redirect('/login');
+  }
+
+  const formData = await c.req.formData();
+  const token = ((formData.get('token') as string | null) || '').trim();
+  if (!token) {
+    return c.redirect('/account?listenbrainz=invalid');
+  }
+
+  let listenbrainzUsername: string | null;
+  try {
+    listenbrainzUsername = await validateListenBrainzToken(token);
+  } catch (error) {
+    console.error('[ListenBrainz] Token validation failed:', error);
+    return c.redirect('/account?listenbrainz=unavailable');
+  }
+
+  if (!listenbrainzUsername) {
+    return c.redirect('/account?listenbrainz=invalid');
+  }
+
+  const db = c.get('db');
+  await db.updateUser(currentUser.id, { listenbrainz_username: listenbrainzUsername });
+
+  return c.redirect('/account');
+}
+
+export async function handleAccountListenBrainzDisconnect(c: Context<{ Bindings: Bindings; Variables: Variables }>) {
+  const currentUser = c.get('currentUser');
+
+  if (!currentUser) {
+    return c.redirect('/login');
+  }
+
+  // Fall back to Last.fm so listening data keeps working
+  const db = c.get('db');
+  await db.updateUser(currentUser.id, {
+    listenbrainz_username: null,
+    listening_source: 'lastfm',
+  });
+
+  return c.redirect('/account');
+}
+
+export async function handleAccountListeningSource(c: Context<{ Bindings: Bindings; Variables: Variables }>) {
+  const currentUser = c.get('currentUser');
+
+  if (!currentUser) {
+    return c.redirect('/login');
+  }
+
+  const formData = await c.req.formData();
+  const source = formData.get('listening_source');
+
+  // ListenBrainz can only be chosen once an account is linked
+  if (source === 'lastfm' || (source === 'listenbrainz' && currentUser.listenbrainz_username)) {
+    const db = c.get('db');
+    await db.updateUser(currentUser.id, { listening_source: source });
+  }
+
+  return c.redirect('/account');
+}
+
+export async function handleAccountSpotifyHistoryDelete(c: Context<{ Bindings: Bindings; Variables: Variables }>) {
+  const currentUser = c.get('currentUser');
+
+  if (!currentUser) {
+    return c.redirect('/login');
+  }
+
+  // Only imported plays go; the Last.fm scrobble archive stays as it is
+  const db = c.get('db');
+  await db.deleteScrobblesBySource(currentUser.id, 'spotify');
+  await db.deleteSpotifyImports(currentUser.id);
+
+  return c.redirect('/account');
+}
+
+function InvalidSessionRequest({ user }: { user: User }) {
+  return (
+    <Layout title="Error" currentUser={user}>
+      <div style={{ maxWidth: '600px', margin: '2rem auto', padding: '0 1rem' }}>
+        <h1 style={{ color: '#c00' }}>Invalid Request</h1>
+        <p>This form has expired. Please sign out devices from your account settings page.</p>
+        <a href="/account" class="button" style={{ marginTop: '1rem', display: 'inline-block' }}>
+          Back to Account Settings
+        </a>
+      </div>
+    </Layout>
+  );
+}
+
+export async function handleAccountSessionRevoke(c: Context<{ Bindings: Bindings; Variables: Variables }>) {
+  const currentUser = c.get('currentUser');
+
+  if (!currentUser) {
+    return c.redirect('/login');
+  }
+
+  const formData = await c.req.formData();
+  const currentSessionId = c.get('sessionId');
+  if (!(await verifyCsrfToken(formData.get('csrf_token'), c.env.INTERNAL_API_SECRET, currentSessionId))) {
+    return c.html(<InvalidSessionRequest user={currentUser} />, 403);
+  }
+
+  const sessionId = formData.get('session_id');
+  if (typeof sessionId !== 'string' || !sessionId) {
+    return c.redirect('/account');
+  }
+
+  const db = c.get('db');
+
+  // Signing out this device works like the regular sign out
+  if (sessionId === currentSessionId) {
+    const { destroySession } = await import('../../utils/session');
+    await destroySession(c, db);
+    return c.redirect('/');
+  }
+
+  await db.deleteUserSession(currentUser.id, sessionId);
+  return c.redirect('/account');
+}
+
+export async function handleAccountSessionsRevokeOthers(c: Context<{ Bindings: Bindings; Variables: Variables }>) {
+  const currentUser = c.get('currentUser');
+
+  if (!currentUser) {
+    return c.redirect('/login');
+  }
+
+  const formData = await c.req.formData();
+  const currentSessionId = c.get('sessionId');
+  if (!currentSessionId || !(await verifyCsrfToken(formData.get('csrf_token'), c.env.INTERNAL_API_SECRET, currentSessionId))) {
+    return c.html(<InvalidSessionRequest user={currentUser} />, 403);
+  }
+
+  await c.get('db').deleteOtherUserSessions(currentUser.id, currentSessionId);
+  return c.redirect('/account');
+}
+
 export async function handleAccountDelete(c: Context<{ Bindings: Bindings; Variables: Variables }>) {
   const currentUser = c.get('currentUser');
 
@@ -0,0 +1,312 @@
+// Webhooks on the account page
+// URLs: POST /account/webhooks, /account/webhooks/enable, /account/webhooks/delete
+
+import type { Context } from 'hono';
+import { WEBHOOK_EVENTS, type ParsedWebhook, type User, type WebhookDelivery } from '@listentomore/db';
+import { Layout } from '../../components/layout';
+import type { Bindings, Variables } from '../../types';
+import { verifyCsrfToken } from '../../utils/csrf';
+import {
+  MAX_WEBHOOKS_PER_USER,
+  WEBHOOK_DISABLE_AFTER_FAILURES,
+  WEBHOOK_EVENT_LABELS,
+  generateWebhookSecret,
+  isValidWebhookUrl,
+  parseWebhookEvents,
+} from '../../utils/webhooks';
+
+type AppContext = Context<{ Bindings: Bindings; Variables: Variables }>;
+
+// Deliveries shown per webhook
+const RECENT_DELIVERIES = 5;
+// A new signing secret is held for one page view after creation, then dropped
+const NEW_SECRET_TTL_SECONDS = 300;
+
+function newSecretCacheKey(sessionId: string): string {
+  return `account:new-webhook-secret:${sessionId}`;
+}
+
+// D1 dates are SQLite datetime values (UTC, no zone)
+function formatDeliveryTime(value: string): string {
+  return new Date(`${value.replace(' ', 'T')}Z`).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: 'UTC',
+    timeZoneName: 'short',
+  });
+}
+
+export interface WebhookWithDeliveries {
+  webhook: ParsedWebhook;
+  deliveries: WebhookDelivery[];
+}
+
+interface WebhooksSectionProps {
+  webhooks: WebhookWithDeliveries[];
+  newSecret: string | null;
+  csrfToken: string;
+}
+
+function DeliveryStatus({ delivery }: { delivery: WebhookDelivery }) {
+  if (delivery.status === 'succeeded') return <span>Delivered</span>;
+  if (delivery.status === 'failed') return <span style={{ color: '#c00' }}>Failed ({delivery.error})</span>;
+  return <span>Retrying ({delivery.error})</span>;
+}
+
+export function WebhooksSection({ webhooks, newSecret, csrfToken }: WebhooksSectionProps) {
+  return (
+    <section id="webhooks" style={{ marginTop: '3rem' }}>
+      <h2 style={{ borderBottom: '1px solid rgba(var(--c-base-rgb), 0.1)', paddingBottom: '0.5rem' }}>
+        Webhooks
+      </h2>
+
+      <p class="text-muted" style={{ fontSize: '0.9rem', marginTop: '1rem' }}>
+        Get a signed POST when you start playing a new track or a new weekly insight is ready. See the{' '}
+        <a href="https://github.com/rianvdm/listentomore/blob/main/docs/API.md#webhooks">API docs</a> for the
+        payloads and how to check signatures. Now-playing events are only sent while your profile is public.
+      </p>
+
+      {newSecret && (
+        <div
+          style={{
+            margin: '1rem 0',
+            padding: '1rem',
+            borderRadius: '8px',
+            border: '1px solid var(--c-accent)',
+          }}
+        >
+          <strong>Your webhook signing secret</strong>
+          <p style={{ margin: '0.5rem 0', wordBreak: 'break-all' }}>
+            <code id="new-webhook-secret">{newSecret}</code>
+          </p>
+          <p class="text-muted" style={{ fontSize: '0.85rem', margin: 0 }}>
+            Copy it now. It won't be shown again.
+          </p>
+        </div>
+      )}
+
+      {webhooks.length > 0 && (
+        <ul style={{ listStyle: 'none', padding: 0, margin: '1rem 0 0 0' }}>
+          {webhooks.map(({ webhook, deliveries }) => (
+            <li style={{ padding: '0.75rem 0', borderBottom: '1px solid rgba(var(--c-base-rgb), 0.1)' }}>
+              <code style={{ wordBreak: 'break-all' }}>{webhook.url}</code>
+              {!webhook.enabled && (
+                <span style={{ color: '#c00' }}>
+                  {' '}
+                  · {webhook.disabled_at ? `Disabled after ${WEBHOOK_DISABLE_AFTER_FAILURES} failed deliveries` : 'Disabled'}
+                </span>
+              )}
+              <p class="text-muted" style={{ margin: '0.25rem 0 0.5rem 0', fontSize: '0.85rem' }}>
+                {webhook.events.join(', ')}
+                {webhook.last_delivery_at && ` · Last delivery ${formatDeliveryTime(webhook.last_delivery_at)}`}
+              </p>
+              {deliveries.length > 0 && (
+                <details style={{ marginBottom: '0.5rem', fontSize: '0.85rem' }}>
+                  <summary>Recent deliveries</summary>
+                  <ul style={{ margin: '0.5rem 0 0 0' }}>
+                    {deliveries.map((delivery) => (
+                      <li>
+                        {formatDeliveryTime(delivery.created_at)} · {delivery.event} · <DeliveryStatus delivery={delivery} />
+                        {delivery.attempts > 1 && ` · ${delivery.attempts} attempts`}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+              <div style={{ display: 'flex', gap: '0.5rem' }}>
+                {!webhook.enabled && (
+                  <form method="post" action="/account/webhooks/enable" style={{ margin: 0 }}>
+                    <input type="hidden" name="csrf_token" value={csrfToken} />
+                    <input type="hidden" name="webhook_id" value={webhook.id} />
+                    <button type="submit" class="button button--small button--secondary">
+                      Re-enable
+                    </button>
+                  </form>
+                )}
+                <form method="post" action="/account/webhooks/delete" style={{ margin: 0 }}>
+                  <input type="hidden" name="csrf_token" value={csrfToken} />
+                  <input type="hidden" name="webhook_id" value={webhook.id} />
+                  <button type="submit" class="button button--small button--secondary">
+                    Delete
+                  </button>
+                </form>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {webhooks.length < MAX_WEBHOOKS_PER_USER ? (
+        <form method="post" action="/account/webhooks" style={{ marginTop: '1.5rem' }}>
+          <input type="hidden" name="csrf_token" value={csrfToken} />
+          <label for="webhook-url" style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+            New webhook
+          </label>
+          <input
+            type="url"
+            id="webhook-url"
+            name="url"
+            placeholder="https://example.com/listentomore-hook"
+            required
+            style={{
+              width: '100%',
+              padding: '0.75rem',
+              borderRadius: '8px',
+              border: '1px solid rgba(var(--c-base-rgb), 0.2)',
+              backgroundColor: 'var(--c-bg)',
+              color: 'var(--c-base)',
+              fontSize: '1rem',
+              marginBottom: '0.75rem',
+            }}
+          />
+          {WEBHOOK_EVENTS.map((event) => (
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem' }}>
+              <input type="checkbox" name="events" value={event} checked />
+              {WEBHOOK_EVENT_LABELS[event]}
+            </label>
+          ))}
+          <div>
+            <button type="submit" class="button">
+              Add Webhook
+            </button>
+          </div>
+        </form>
+      ) : (
+        <p class="text-muted" style={{ fontSize: '0.9rem', marginTop: '1rem' }}>
+          You have {MAX_WEBHOOKS_PER_USER} webhooks. Delete one to add another.
+        </p>
+      )}
+    </section>
+  );
+}
+
+/**
+ * The user's webhooks with their most recent deliveries
+ */
+export async function getWebhooksWithDeliveries(c: AppContext, user: User): Promise<WebhookWithDeliveries[]> {
+  const db = c.get('db');
+  const webhooks = await db.listWebhooks(user.id);
+  return Promise.all(
+    webhooks.map(async (webhook) => ({
+      webhook,
+      deliveries: await db.listWebhookDeliveries(webhook.id, RECENT_DELIVERIES),
+    }))
+  );
+}
+
+/**
+ * Take the signing secret of a webhook created in this session, if any. It is
+ * deleted on read so the secret is only shown once.
+ */
+export async function takeNewWebhookSecret(c: AppContext): Promise<string | null> {
+  const sessionId = c.get('sessionId');
+  if (!sessionId) return null;
+
+  const cacheKey = newSecretCacheKey(sessionId);
+  const secret = await c.env.CACHE.get(cacheKey);
+  if (secret) {
+    await c.env.CACHE.delete(cacheKey);
+  }
+  return secret;
+}
+
+function InvalidWebhookRequest({ user, message }: { user: User; message: string }) {
+  return (
+    <Layout title="Error" currentUser={user}>
+      <div style={{ maxWidth: '600px', margin: '2rem auto', padding: '0 1rem' }}>
+        <h1 style={{ color: '#c00' }}>Invalid Request</h1>
+        <p>{message}</p>
+        <a href="/account#webhooks" class="button" style={{ marginTop: '1rem', display: 'inline-block' }}>
+          Back to Account Settings
+        </a>
+      </div>
+    </Layout>
+  );
+}
+
+/**
+ * Signed-in user and form data for a webhook action, or the response to send when
+ * the user is signed out or the CSRF token doesn't match
+ */
+async function readWebhookForm(c: AppContext): Promise<{ user: User; form: FormData } | Response> {
+  const currentUser = c.get('currentUser');
+  if (!currentUser) {
+    return c.redirect('/login');
+  }
+
+  const form = await c.req.formData();
+  if (!(await verifyCsrfToken(form.get('csrf_token'), c.env.INTERNAL_API_SECRET, c.get('sessionId')))) {
+    return c.html(
+      <InvalidWebhookRequest user={currentUser} message="This form has expired. Please manage webhooks from your account settings page." />,
+      403
+    );
+  }
+
+  return { user: currentUser, form };
+}
+
+// A webhook belonging to the user, or null
+async function getOwnWebhook(c: AppContext, user: User, webhookId: ReturnType<FormData['get']>): Promise<ParsedWebhook | null> {
+  if (typeof webhookId !== 'string' || !webhookId) return null;
+  const webhook = await c.get('db').getWebhook(webhookId);
+  return webhook && webhook.user_id === user.id ? webhook : null;
+}
+
+export async function handleAccountWebhookCreate(c: AppContext) {
+  const result = await readWebhookForm(c);
+  if (result instanceof Response) return result;
+  const { user, form } = result;
+
+  const url = String(form.get('url') || '').trim();
+  const events = parseWebhookEvents(form.getAll('events'));
+
+  if (!isValidWebhookUrl(url) || !events) {
+    return c.html(
+      <InvalidWebhookRequest user={user} message="Enter a public https URL and choose at least one event." />,
+      400
+    );
+  }
+
+  const db = c.get('db');
+  const existing = await db.listWebhooks(user.id);
+  if (existing.length >= MAX_WEBHOOKS_PER_USER) {
+    return c.html(
+      <InvalidWebhookRequest user={user} message={`You can have up to ${MAX_WEBHOOKS_PER_USER} webhooks. Delete one first.`} />,
+      400
+    );
+  }
+
+  const secret = generateWebhookSecret();
+  await db.createWebhook({ userId: user.id, url, secret, events });
+  await c.env.CACHE.put(newSecretCacheKey(c.get('sessionId')!), secret, { expirationTtl: NEW_SECRET_TTL_SECONDS });
+
+  return c.redirect('/account#webhooks');
+}
+
+export async function handleAccountWebhookEnable(c: AppContext) {
+  const result = await readWebhookForm(c);
+  if (result instanceof Response) return result;
+  const { user, form } = result;
+
+  const webhook = await getOwnWebhook(c, user, form.get('webhook_id'));
+  if (webhook) {
+    await c.get('db').updateWebhook(webhook.id, { enabled: true });
+  }
+
+  return c.redirect('/account#webhooks');
+}
+
+export async function handleAccountWebhookDelete(c: AppContext) {
+  const result = await readWebhookForm(c);
+  if (result instanceof Response) return result;
+  const { user, form } = result;
+
+  const webhookId = form.get('webhook_id');
+  if (typeof webhookId === 'string' && webhookId) {
+    await c.get('db').deleteWebhook(user.id, webhookId);
+  }
+
+  return c.redirect('/account#webhooks');
+}
@@ -4,9 +4,9 @@
 import type { Context } from 'hono';
 import type { User } from '@listentomore/db';
 import { Layout } from '../../components/layout';
-import { RateLimitedPage, SignInGate } from '../../components/ui';
+import { LoveButton, RateLimitedPage, SignInGate } from '../../components/ui';
 import type { SpotifyService } from '@listentomore/spotify';
-import { enrichLinksScript } from '../../utils/client-scripts';
+import { enrichLinksScript, loveButtonsScript } from '../../utils/client-scripts';
 
 interface AlbumData {
   id: string;
@@ -17,6 +17,12 @@ interface AlbumData {
   releaseYear?: string;
   genres: string[];
   spotifyUrl: string;
+  tracks: Array<{ name: string; artist: string; duration: number }>;
+}
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
 }
 
 interface AlbumDetailProps {
@@ -123,11 +129,38 @@ export function AlbumDetailPage({ album, error, internalToken, currentUser }: Al
             </div>
           </SignInGate>
         </section>
+
+        {album.tracks.length > 0 && (
+          <section id="tracklist" style={{ marginTop: '2rem' }}>
+            <h3>Tracklist</h3>
+            {currentUser && (
+              <div id="album-scrobble" class="album-scrobble">
+                <button type="button" id="album-scrobble-start" class="button button--small">
+                  🎧 I just listened to this
+                </button>
+                <div id="album-scrobble-panel"></div>
+              </div>
+            )}
+            <ol class="tracklist">
+              {album.tracks.map((track) => (
+                <li>
+                  {currentUser && <LoveButton artist={track.artist} track={track.name} />}
+                  <span class="tracklist-name">
+                    {track.name}
+                    {track.artist !== album.artist && <span class="text-muted"> ({track.artist})</span>}
+                  </span>
+                  <span class="text-muted tracklist-duration">{formatDuration(track.duration)}</span>
+                </li>
+              ))}
+            </ol>
+          </section>
+        )}
       </main>
 
       {/* Progressive loading script */}
       <script dangerouslySetInnerHTML={{ __html: `
         ${enrichLinksScript}
+        ${loveButtonsScript}
 
         (function() {
           var albumId = ${JSON.stringify(album.id)};
@@ -153,6 +186,90 @@ export function AlbumDetailPage({ album, error, internalToken, currentUser }: Al
               document.getElementById('streaming-links').innerHTML = '<a href="' + spotifyUrl + '" target="_blank" rel="noopener noreferrer">Spotify ↗</a>';
             });
 
+          // Hearts on the tracklist (signed-in users only)
+          initLoveButtons('tracklist');
+
+          // "I just listened to this": preview back-dated scrobbles, then submit on confirm
+          var scrobbleStart = document.getElementById('album-scrobble-start');
+          var scrobblePanel = document.getElementById('album-scrobble-panel');
+          var scrobbleFinishedAt = null;
+
+          function escapeHtml(text) {
+            var div = document.createElement('div');
+            div.textContent = text;
+            return div.innerHTML;
+          }
+
+          function resetScrobble(message) {
+            scrobbleFinishedAt = null;
+            scrobbleStart.disabled = false;
+            scrobblePanel.innerHTML = message ? '<p class="text-muted">' + escapeHtml(message) + '</p>' : '';
+          }
+
+          function confirmScrobble(button) {
+            button.disabled = true;
+            button.textContent = 'Scrobbling...';
+            internalFetch('/api/internal/album-scrobble', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ albumId: albumId, finishedAt: scrobbleFinishedAt })
+            })
+              .then(function(r) { return r.json(); })
+              .then(function(data) {
+                if (data.error) {
+                  resetScrobble(data.error);
+                  if (data.reauth) promptLastfmReauth(data.error);
+                  return;
+                }
+                var result = data.data;
+                var message = 'Scrobbled ' + result.accepted + ' track' + (result.accepted === 1 ? '' : 's') + ' to Last.fm.';
+                if (result.ignored > 0) message += ' Last.fm ignored ' + result.ignored + '.';
+                resetScrobble(message);
+              })
+              .catch(function(e) {
+                console.error('Album scrobble error:', e);
+                resetScrobble('Unable to scrobble this album. Please try again.');
+              });
+          }
+
+          if (scrobbleStart) {
+            scrobbleStart.addEventListener('click', function() {
+              scrobbleStart.disabled = true;
+              scrobblePanel.innerHTML = '<p class="text-muted">Loading preview...</p>';
+              internalFetch('/api/internal/album-scrobble-preview?albumId=' + encodeURIComponent(albumId), { cache: 'no-store' })
+                .then(function(r) { return r.json(); })
+                .then(function(data) {
+                  if (data.error) throw new Error(data.error);
+                  var preview = data.data;
+                  if (preview.scrobbles.length === 0) {
+                    resetScrobble('This album has no tracks long enough to scrobble.');
+                    return;
+                  }
+                  scrobbleFinishedAt = preview.finishedAt;
+                  var html = '<p class="text-muted">These plays will be added to Last.fm, ending now:</p><ol class="tracklist">';
+                  preview.scrobbles.forEach(function(s) {
+                    var time = new Date(s.timestamp * 1000).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+                    html += '<li><span class="tracklist-name">' + escapeHtml(s.track) + '</span>';
+                    html += '<span class="text-muted tracklist-duration">' + time + '</span></li>';
+                  });
+                  html += '</ol><p>';
+                  html += '<button type="button" id="album-scrobble-confirm" class="button button--small">Scrobble ' + preview.scrobbles.length + ' track' + (preview.scrobbles.length === 1 ? '' : 's') + '</button> ';
+                  html += '<button type="button" id="album-scrobble-cancel" class="button button--small button--secondary">Cancel</button></p>';
+                  scrobblePanel.innerHTML = html;
+                  document.getElementById('album-scrobble-confirm').addEventListener('click', function() {
+                    confirmScrobble(this);
+                  });
+                  document.getElementById('album-scrobble-cancel').addEventListener('click', function() {
+                    resetScrobble();
+                  });
+                })
+                .catch(function(e) {
+                  console.error('Album scrobble preview error:', e);
+                  resetScrobble('Unable to load the scrobble preview.');
+                });
+            });
+          }
+
           // AI features - only fetch for authenticated users
           if (window.__IS_AUTHENTICATED__) {
             // Fetch AI summary
@@ -227,6 +344,11 @@ export async function handleAlbumDetail(c: Context) {
       releaseYear: albumData.releaseDate?.split('-')[0],
       genres: albumData.genres || [],
       spotifyUrl: albumData.url,
+      tracks: (albumData.trackList || []).map((track) => ({
+        name: track.name,
+        artist: track.artists[0] || albumData.artist,
+        duration: track.duration,
+      })),
     };
 
     return c.html(<AlbumDetailPage album={album} internalToken={internalToken} currentUser={currentUser} />);
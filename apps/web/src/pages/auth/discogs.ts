@@ -0,0 +1,109 @@
+// Discogs authentication handlers
+// Implements the Discogs OAuth 1.0a flow for connecting a collection to an existing account
+
+import type { Context } from 'hono';
+import type { Bindings, Variables } from '../../types';
+import { DiscogsService } from '@listentomore/discogs';
+
+const REQUEST_TOKEN_TTL_SECONDS = 15 * 60;
+
+interface PendingDiscogsAuth {
+  userId: string;
+  secret: string;
+}
+
+function getDiscogsService(c: Context<{ Bindings: Bindings; Variables: Variables }>): DiscogsService | null {
+  if (!c.env.DISCOGS_CONSUMER_KEY || !c.env.DISCOGS_CONSUMER_SECRET) {
+    console.error('DISCOGS_CONSUMER_KEY/DISCOGS_CONSUMER_SECRET not configured');
+    return null;
+  }
+  return new DiscogsService(c.get('db'), {
+    consumerKey: c.env.DISCOGS_CONSUMER_KEY,
+    consumerSecret: c.env.DISCOGS_CONSUMER_SECRET,
+  });
+}
+
+/**
+ * Step 1: Get a request token and redirect to Discogs for authorization
+ * GET /auth/discogs
+ */
+export async function handleDiscogsAuth(c: Context<{ Bindings: Bindings; Variables: Variables }>) {
+  const currentUser = c.get('currentUser');
+  if (!currentUser) {
+    return c.redirect('/login?next=/account');
+  }
+
+  const discogs = getDiscogsService(c);
+  if (!discogs) {
+    return c.redirect('/account?error=discogs_unavailable');
+  }
+
+  const callbackUrl = `${new URL(c.req.url).origin}/auth/discogs/callback`;
+
+  try {
+    const requestToken = await discogs.oauth.getRequestToken(callbackUrl);
+
+    // The request token secret is needed to sign the access token exchange
+    const pending: PendingDiscogsAuth = { userId: currentUser.id, secret: requestToken.secret };
+    await c.env.CACHE.put(`discogs-oauth:${requestToken.token}`, JSON.stringify(pending), {
+      expirationTtl: REQUEST_TOKEN_TTL_SECONDS,
+    });
+
+    return c.redirect(discogs.oauth.getAuthorizeUrl(requestToken.token));
+  } catch (error) {
+    console.error('Discogs request token failed:', error);
+    return c.redirect('/account?error=discogs_failed');
+  }
+}
+
+/**
+ * Step 2: Handle callback from Discogs, store the access token and username
+ * GET /auth/discogs/callback
+ */
+export async function handleDiscogsCallback(c: Context<{ Bindings: Bindings; Variables: Variables }>) {
+  const currentUser = c.get('currentUser');
+  if (!currentUser) {
+    return c.redirect('/login?next=/account');
+  }
+
+  const token = c.req.query('oauth_token');
+  const verifier = c.req.query('oauth_verifier');
+
+  // User declined on Discogs, or the callback was hit directly
+  if (!token || !verifier) {
+    return c.redirect('/account?error=discogs_denied');
+  }
+
+  const discogs = getDiscogsService(c);
+  if (!discogs) {
+    return c.redirect('/account?error=discogs_unavailable');
+  }
+
+  const cacheKey = `discogs-oauth:${token}`;
+  const pending = await c.env.CACHE.get<PendingDiscogsAuth>(cacheKey, 'json');
+  await c.env.CACHE.delete(cacheKey);
+
+  // The request token must have been issued to the same signed-in user
+  if (!pending || pending.userId !== currentUser.id) {
+    return c.redirect('/account?error=discogs_expired');
+  }
+
+  try {
+    const accessToken = await discogs.oauth.getAccessToken({ token, secret: pending.secret }, verifier);
+    const discogsUsername = await discogs.getIdentity(accessToken);
+
+    const db = c.get('db');
+    await db.updateUser(currentUser.id, {
+      discogs_username: discogsUsername,
+      discogs_oauth_token: accessToken.token,
+      discogs_oauth_token_secret: accessToken.secret,
+    });
+
+    console.log(`Discogs connected: ${currentUser.username} (Discogs: ${discogsUsername})`);
+  } catch (error) {
+    console.error('Discogs access token exchange failed:', error);
+    return c.redirect('/account?error=discogs_failed');
+  }
+
+  return c.redirect('/account');
+}
@@ -3,7 +3,7 @@
 
 import type { Context } from 'hono';
 import type { Bindings, Variables } from '../../types';
-import { lastfmSignature } from '../../utils/md5';
+import { lastfmSignature } from '@listentomore/lastfm';
 import { createSession } from '../../utils/session';
 import type { Database } from '@listentomore/db';
 
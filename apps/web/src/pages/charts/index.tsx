@@ -0,0 +1,324 @@
+// Community charts page - top artists and albums across all public profiles
+// URL: /charts?chart=weekly|monthly&period=YYYY-Www|YYYY-MM
+
+import type { Context } from 'hono';
+import { Layout } from '../../components/layout';
+import { enrichLinksScript } from '../../utils/client-scripts';
+import {
+  formatChartPeriod,
+  isChartPeriod,
+  previousChartPeriod,
+  withMovement,
+  type ChartMovement,
+  type ChartRow,
+} from '../../utils/community-charts';
+import type { CommunityChartType, Database, User } from '@listentomore/db';
+
+const CHART_OPTIONS: Array<{ key: CommunityChartType; label: string }> = [
+  { key: 'weekly', label: 'Weekly' },
+  { key: 'monthly', label: 'Monthly' },
+];
+
+const BACKUP_IMAGE_URL = 'https://file.elezea.com/noun-no-image.png';
+
+interface ChartsPageProps {
+  chart: CommunityChartType;
+  period: string | null;
+  rows: ChartRow[];
+  periods: string[];
+  internalToken?: string;
+  currentUser?: User | null;
+}
+
+function chartHref(chart: CommunityChartType, period?: string): string {
+  const params = new URLSearchParams();
+  if (chart !== 'weekly') params.set('chart', chart);
+  if (period) params.set('period', period);
+  const query = params.toString();
+  return query ? `/charts?${query}` : '/charts';
+}
+
+function Movement({ movement }: { movement: ChartMovement | null }) {
+  if (!movement) return <span class="chart-move" />;
+
+  switch (movement.type) {
+    case 'new':
+      return <span class="chart-move chart-move-new">NEW</span>;
+    case 'same':
+      return (
+        <span class="chart-move chart-move-same" title="No change">
+          –
+        </span>
+      );
+    default:
+      return (
+        <span
+          class={`chart-move chart-move-${movement.type}`}
+          title={`${movement.type === 'up' ? 'Up' : 'Down'} ${movement.by}`}
+        >
+          {movement.type === 'up' ? '▲' : '▼'} {movement.by}
+        </span>
+      );
+  }
+}
+
+// Direct Spotify links when the cron matched the entry, otherwise search links that enrichLinks resolves
+function artistHref(name: string, spotifyId?: string | null): string {
+  return spotifyId ? `/artist/${spotifyId}` : `/artist?q=${encodeURIComponent(name)}`;
+}
+
+function ChartList({ id, rows }: { id: string; rows: ChartRow[] }) {
+  return (
+    <ol class="community-chart" id={id}>
+      {rows.map((row) => {
+        const href =
+          row.kind === 'artist'
+            ? artistHref(row.name, row.spotify_id)
+            : row.spotify_id
+              ? `/album/${row.spotify_id}`
+              : `/album?q=${encodeURIComponent(`${row.artist} ${row.name}`)}`;
+
+        return (
+          <li class="community-chart-row">
+            <span class="chart-rank">{row.rank}</span>
+            <Movement movement={row.movement} />
+            <a href={href} class="chart-image-link" data-artist={row.artist ?? undefined} data-album={row.kind === 'album' ? row.name : undefined}>
+              <img src={row.image_url || BACKUP_IMAGE_URL} alt={row.name} class="chart-image" loading="lazy" />
+            </a>
+            <div class="chart-details">
+              <a href={href} class="chart-name" data-artist={row.artist ?? undefined} data-album={row.kind === 'album' ? row.name : undefined}>
+                {row.name}
+              </a>
+              {row.artist && (
+                <a href={artistHref(row.artist)} class="chart-artist">
+                  {row.artist}
+                </a>
+              )}
+              <span class="chart-counts text-muted">
+                {row.listeners} {row.listeners === 1 ? 'listener' : 'listeners'} · {row.plays.toLocaleString('en-US')}{' '}
+                {row.plays === 1 ? 'play' : 'plays'}
+              </span>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+export function ChartsPage({ chart, period, rows, periods, internalToken, currentUser }: ChartsPageProps) {
+  const albums = rows.filter((row) => row.kind === 'album');
+  const artists = rows.filter((row) => row.kind === 'artist');
+  const periodLabel = period ? formatChartPeriod(chart, period) : null;
+
+  return (
+    <Layout
+      title={periodLabel ? `Community Charts: ${periodLabel}` : 'Community Charts'}
+      description="The most played artists and albums across all public Listen To More profiles"
+      url={`https://listentomore.com${chartHref(chart, period ?? undefined)}`}
+      internalToken={internalToken}
+      currentUser={currentUser}
+    >
+      <header>
+        <h1>Community Charts</h1>
+      </header>
+
+      <main>
+        <div class="time-toggle-container">
+          <div class="time-toggle">
+            {CHART_OPTIONS.map((option) => (
+              <a href={chartHref(option.key)} class={`time-toggle-btn${option.key === chart ? ' active' : ''}`}>
+                {option.label}
+              </a>
+            ))}
+          </div>
+        </div>
+
+        {period ? (
+          <section id="community-charts">
+            <p class="text-center">
+              <strong>{periodLabel}</strong>
+              <br />
+              <span class="text-muted">
+                Ranked by how many public listeners have each one in their top 50, then by plays.
+              </span>
+            </p>
+
+            <div class="community-charts-grid">
+              <div>
+                <h2>💿 Top Albums</h2>
+                <ChartList id="community-chart-albums" rows={albums} />
+              </div>
+              <div>
+                <h2>👩‍🎤 Top Artists</h2>
+                <ChartList id="community-chart-artists" rows={artists} />
+              </div>
+            </div>
+          </section>
+        ) : (
+          <p class="text-center text-muted">
+            The first {chart} chart is still being tallied. Check back after the {chart === 'weekly' ? 'week' : 'month'} wraps
+            up.
+          </p>
+        )}
+
+        {periods.length > 1 && (
+          <section id="community-charts-history" style={{ marginTop: '3em' }}>
+            <h2>📚 Past Charts</h2>
+            <ul class="community-charts-history">
+              {periods.map((p) => (
+                <li>
+                  {p === period ? <strong>{formatChartPeriod(chart, p)}</strong> : <a href={chartHref(chart, p)}>{formatChartPeriod(chart, p)}</a>}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </main>
+
+      {period && (
+        <script
+          dangerouslySetInnerHTML={{
+            __html: `
+        ${enrichLinksScript}
+        enrichLinks('community-chart-albums');
+        enrichLinks('community-chart-artists');
+      `,
+          }}
+        />
+      )}
+
+      <style
+        dangerouslySetInnerHTML={{
+          __html: `
+        a.time-toggle-btn {
+          display: inline-flex;
+          align-items: center;
+          text-decoration: none;
+        }
+
+        .community-charts-grid {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(320px, 1fr));
+          gap: 2rem;
+        }
+
+        .community-chart {
+          list-style: none;
+          padding: 0;
+          margin: 0;
+        }
+
+        .community-chart-row {
+          display: flex;
+          align-items: center;
+          gap: 0.75rem;
+          padding: 0.5rem 0;
+          border-bottom: 1px solid rgba(var(--c-base-rgb), 0.1);
+        }
+
+        .chart-rank {
+          width: 1.75rem;
+          text-align: right;
+          font-weight: 700;
+          font-size: 1.1rem;
+        }
+
+        .chart-move {
+          width: 2.5rem;
+          font-size: 0.8rem;
+          text-align: center;
+          white-space: nowrap;
+        }
+
+        .chart-move-up { color: #2e9e4f; }
+        .chart-move-down { color: #d0453a; }
+        .chart-move-same { color: var(--text-muted, #888); }
+
+        .chart-move-new {
+          color: var(--c-accent);
+          font-weight: 700;
+        }
+
+        .chart-image {
+          width: 48px;
+          height: 48px;
+          object-fit: cover;
+          border-radius: 4px;
+          display: block;
+        }
+
+        .chart-details {
+          display: flex;
+          flex-direction: column;
+          min-width: 0;
+        }
+
+        .chart-name {
+          font-weight: 600;
+        }
+
+        .chart-artist,
+        .chart-counts {
+          font-size: 0.85rem;
+        }
+
+        .community-charts-history {
+          list-style: none;
+          padding: 0;
+          margin: 1rem 0 0;
+        }
+
+        .community-charts-history li {
+          padding: 0.5rem 0;
+          border-bottom: 1px solid rgba(var(--c-base-rgb), 0.1);
+        }
+      `,
+        }}
+      />
+    </Layout>
+  );
+}
+
+// Route handler
+export async function handleCharts(c: Context) {
+  const db = c.get('db') as Database;
+  const internalToken = c.get('internalToken') as string;
+  const currentUser = c.get('currentUser') as User | null;
+
+  const chart: CommunityChartType = c.req.query('chart') === 'monthly' ? 'monthly' : 'weekly';
+  const requested = c.req.query('period');
+  const periods = await db.getCommunityChartPeriods(chart);
+
+  if (requested && !isChartPeriod(chart, requested)) {
+    return c.redirect(chartHref(chart));
+  }
+
+  const period = requested ?? periods[0] ?? null;
+  if (!period) {
+    return c.html(
+      <ChartsPage chart={chart} period={null} rows={[]} periods={[]} internalToken={internalToken} currentUser={currentUser} />
+    );
+  }
+
+  const [entries, previous] = await Promise.all([
+    db.getCommunityChart(chart, period),
+    db.getCommunityChart(chart, previousChartPeriod(chart, period)),
+  ]);
+
+  // Unknown periods fall back to the latest chart
+  if (entries.length === 0) {
+    return c.redirect(chartHref(chart));
+  }
+
+  return c.html(
+    <ChartsPage
+      chart={chart}
+      period={period}
+      rows={withMovement(entries, previous)}
+      periods={periods}
+      internalToken={internalToken}
+      currentUser={currentUser}
+    />
+  );
+}
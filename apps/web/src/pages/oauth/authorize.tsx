@@ -0,0 +1,222 @@
+// OAuth 2.0 authorization endpoint and consent page (authorization code + PKCE)
+// URLs: GET /oauth/authorize (consent page), POST /oauth/authorize (allow or deny)
+
+import type { Context } from 'hono';
+import type { ApiKeyScope, ParsedOAuthClient, User } from '@listentomore/db';
+import { Layout } from '../../components/layout';
+import type { Bindings, Variables } from '../../types';
+import { generateCsrfToken, verifyCsrfToken } from '../../utils/csrf';
+import {
+  AUTHORIZATION_CODE_TTL_SECONDS,
+  generateAuthorizationCode,
+  hashToken,
+  isValidCodeChallenge,
+  parseScopes,
+  sqliteDateFromNow,
+} from '../../utils/oauth';
+import { API_KEY_SCOPES } from '../account/api-keys';
+
+type AppContext = Context<{ Bindings: Bindings; Variables: Variables }>;
+
+interface AuthorizeRequest {
+  client: ParsedOAuthClient;
+  redirectUri: string;
+  scopes: ApiKeyScope[];
+  state: string;
+  codeChallenge: string;
+}
+
+type AuthorizeParams = Record<string, string | undefined>;
+
+// A valid request, an error redirect back to the app, or an error to show here
+// (when the client or redirect URI can't be trusted with a redirect)
+type AuthorizeResult = { request: AuthorizeRequest } | { redirect: string } | { error: string };
+
+function redirectWith(redirectUri: string, params: Record<string, string>): string {
+  const url = new URL(redirectUri);
+  for (const [key, value] of Object.entries(params)) {
+    if (value) url.searchParams.set(key, value);
+  }
+  return url.toString();
+}
+
+/**
+ * Validate authorization request parameters
+ */
+async function readAuthorizeRequest(c: AppContext, params: AuthorizeParams): Promise<AuthorizeResult> {
+  const client = params.client_id ? await c.get('db').getOAuthClient(params.client_id) : null;
+  if (!client) {
+    return { error: 'Unknown application.' };
+  }
+
+  // The redirect URI may be omitted only when the app registered exactly one
+  const redirectUri = params.redirect_uri ?? (client.redirect_uris.length === 1 ? client.redirect_uris[0] : undefined);
+  if (!redirectUri || !client.redirect_uris.includes(redirectUri)) {
+    return { error: 'The redirect URI does not match the application.' };
+  }
+
+  const state = params.state ?? '';
+  const fail = (error: string, description: string) => ({
+    redirect: redirectWith(redirectUri, { error, error_description: description, state }),
+  });
+
+  if (params.response_type !== 'code') {
+    return fail('unsupported_response_type', 'Only response_type=code is supported');
+  }
+  if (params.code_challenge_method !== 'S256' || !params.code_challenge || !isValidCodeChallenge(params.code_challenge)) {
+    return fail('invalid_request', 'PKCE with code_challenge_method=S256 is required');
+  }
+  const scopes = parseScopes(params.scope);
+  if (!scopes) {
+    return fail('invalid_scope', `Supported scopes: ${API_KEY_SCOPES.map(({ scope }) => scope).join(' ')}`);
+  }
+
+  return { request: { client, redirectUri, scopes, state, codeChallenge: params.code_challenge } };
+}
+
+function AuthorizeError({ user, message }: { user: User | null; message: string }) {
+  return (
+    <Layout title="Authorization Error" currentUser={user}>
+      <div style={{ maxWidth: '600px', margin: '2rem auto', padding: '0 1rem' }}>
+        <h1 style={{ color: '#c00' }}>Invalid Request</h1>
+        <p>{message}</p>
+        <p class="text-muted">Please contact the developer of the app you were trying to connect.</p>
+        <a href="/" class="button" style={{ marginTop: '1rem', display: 'inline-block' }}>
+          Go Home
+        </a>
+      </div>
+    </Layout>
+  );
+}
+
+interface ConsentPageProps {
+  user: User;
+  request: AuthorizeRequest;
+  csrfToken: string;
+}
+
+function ConsentPage({ user, request, csrfToken }: ConsentPageProps) {
+  const { client, redirectUri, scopes, state, codeChallenge } = request;
+
+  return (
+    <Layout title={`Authorize ${client.name}`} currentUser={user}>
+      <div style={{ maxWidth: '500px', margin: '4rem auto', padding: '0 1rem' }}>
+        <h1 style={{ marginBottom: '1rem' }}>Authorize {client.name}</h1>
+
+        <p>
+          <strong>{client.name}</strong> wants to use your ListenToMore account (@{user.username}). It will be able
+          to:
+        </p>
+        <ul>
+          {API_KEY_SCOPES.filter(({ scope }) => scopes.includes(scope)).map(({ label }) => (
+            <li>{label}</li>
+          ))}
+        </ul>
+
+        <p class="text-muted" style={{ fontSize: '0.9rem' }}>
+          You'll be sent back to {new URL(redirectUri).host}. You can revoke access at any time from your{' '}
+          <a href="/account#connected-apps">account settings</a>.
+        </p>
+
+        <form method="post" action="/oauth/authorize" style={{ display: 'flex', gap: '0.5rem', marginTop: '1.5rem' }}>
+          <input type="hidden" name="csrf_token" value={csrfToken} />
+          <input type="hidden" name="response_type" value="code" />
+          <input type="hidden" name="client_id" value={client.id} />
+          <input type="hidden" name="redirect_uri" value={redirectUri} />
+          <input type="hidden" name="scope" value={scopes.join(' ')} />
+          <input type="hidden" name="state" value={state} />
+          <input type="hidden" name="code_challenge" value={codeChallenge} />
+          <input type="hidden" name="code_challenge_method" value="S256" />
+          <button type="submit" name="decision" value="allow" class="button">
+            Allow
+          </button>
+          <button type="submit" name="decision" value="deny" class="button button--secondary">
+            Deny
+          </button>
+        </form>
+      </div>
+    </Layout>
+  );
+}
+
+export async function handleOAuthAuthorize(c: AppContext) {
+  const currentUser = c.get('currentUser');
+
+  const result = await readAuthorizeRequest(c, c.req.query());
+  if ('error' in result) {
+    return c.html(<AuthorizeError user={currentUser} message={result.error} />, 400);
+  }
+  if ('redirect' in result) {
+    return c.redirect(result.redirect);
+  }
+
+  if (!currentUser) {
+    const url = new URL(c.req.url);
+    return c.redirect(`/login?next=${encodeURIComponent(url.pathname + url.search)}`);
+  }
+
+  const csrfToken = await generateCsrfToken(c.env.INTERNAL_API_SECRET, c.get('sessionId')!);
+  return c.html(<ConsentPage user={currentUser} request={result.request} csrfToken={csrfToken} />);
+}
+
+export async function handleOAuthAuthorizeDecision(c: AppContext) {
+  const currentUser = c.get('currentUser');
+  if (!currentUser) {
+    return c.redirect('/login');
+  }
+
+  const form = await c.req.parseBody();
+  const params: AuthorizeParams = {};
+  for (const [key, value] of Object.entries(form)) {
+    if (typeof value === 'string') params[key] = value;
+  }
+
+  if (!(await verifyCsrfToken(params.csrf_token, c.env.INTERNAL_API_SECRET, c.get('sessionId')))) {
+    return c.html(<AuthorizeError user={currentUser} message="This form has expired. Please try connecting the app again." />, 403);
+  }
+
+  const result = await readAuthorizeRequest(c, params);
+  if ('error' in result) {
+    return c.html(<AuthorizeError user={currentUser} message={result.error} />, 400);
+  }
+  if ('redirect' in result) {
+    return c.redirect(result.redirect);
+  }
+
+  const { client, redirectUri, scopes, state, codeChallenge } = result.request;
+  if (params.decision !== 'allow') {
+    return c.redirect(redirectWith(redirectUri, { error: 'access_denied', state }));
+  }
+
+  // The app acts through one API key per user; granting more scopes later widens it
+  const db = c.get('db');
+  let apiKey = await db.getOAuthApiKey(currentUser.id, client.id);
+  if (apiKey) {
+    const merged = [...new Set([...apiKey.scopes, ...scopes])];
+    if (merged.length !== apiKey.scopes.length) {
+      await db.updateApiKeyScopes(apiKey.id, merged);
+    }
+  } else {
+    const created = await db.createApiKey({
+      userId: currentUser.id,
+      name: client.name,
+      tier: 'standard',
+      scopes,
+      oauthClientId: client.id,
+    });
+    apiKey = created.record;
+  }
+
+  const code = generateAuthorizationCode();
+  await db.createOAuthCode({
+    codeHash: await hashToken(code),
+    clientId: client.id,
+    apiKeyId: apiKey.id,
+    redirectUri,
+    scopes,
+    codeChallenge,
+    expiresAt: sqliteDateFromNow(AUTHORIZATION_CODE_TTL_SECONDS),
+  });
+
+  return c.redirect(redirectWith(redirectUri, { code, state }));
+}
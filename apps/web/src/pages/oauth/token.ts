@@ -0,0 +1,210 @@
+// OAuth 2.0 JSON endpoints for third-party apps
+// URLs: POST /oauth/register (RFC 7591), POST /oauth/token, POST /oauth/revoke (RFC 7009),
+// GET /.well-known/oauth-authorization-server (RFC 8414)
+
+import type { Context } from 'hono';
+import type { ApiKeyScope, ParsedOAuthClient } from '@listentomore/db';
+import type { Bindings, Variables } from '../../types';
+import {
+  OAUTH_SCOPES,
+  generateClientSecret,
+  hashToken,
+  isPast,
+  isValidRedirectUri,
+  issueTokens,
+  parseScopes,
+  verifyPkce,
+} from '../../utils/oauth';
+
+type AppContext = Context<{ Bindings: Bindings; Variables: Variables }>;
+
+const TOKEN_ENDPOINT_AUTH_METHODS = ['none', 'client_secret_basic', 'client_secret_post'];
+const MAX_REDIRECT_URIS = 5;
+
+function oauthError(c: AppContext, error: string, description: string, status: 400 | 401 = 400) {
+  return c.json({ error, error_description: description }, status);
+}
+
+/**
+ * Read client credentials from HTTP Basic auth or the form body, and check the
+ * secret for confidential clients. Public clients rely on PKCE instead.
+ */
+async function authenticateClient(
+  c: AppContext,
+  body: Record<string, string | File>
+): Promise<ParsedOAuthClient | Response> {
+  let clientId = typeof body.client_id === 'string' ? body.client_id : undefined;
+  let clientSecret = typeof body.client_secret === 'string' ? body.client_secret : undefined;
+
+  const authorization = c.req.header('Authorization');
+  if (authorization?.startsWith('Basic ')) {
+    try {
+      const [id, secret] = atob(authorization.slice(6)).split(':');
+      clientId = decodeURIComponent(id);
+      clientSecret = decodeURIComponent(secret ?? '');
+    } catch {
+      return oauthError(c, 'invalid_client', 'Malformed Basic authorization header', 401);
+    }
+  }
+
+  const client = clientId ? await c.get('db').getOAuthClient(clientId) : null;
+  if (!client) {
+    return oauthError(c, 'invalid_client', 'Unknown client', 401);
+  }
+  if (client.client_secret_hash && (!clientSecret || (await hashToken(clientSecret)) !== client.client_secret_hash)) {
+    return oauthError(c, 'invalid_client', 'Client authentication failed', 401);
+  }
+  return client;
+}
+
+// POST /oauth/register - Dynamic client registration
+export async function handleOAuthRegister(c: AppContext) {
+  let metadata: { client_name?: unknown; redirect_uris?: unknown; token_endpoint_auth_method?: unknown };
+  try {
+    metadata = await c.req.json();
+  } catch {
+    return oauthError(c, 'invalid_client_metadata', 'Request body must be JSON');
+  }
+
+  const name = typeof metadata.client_name === 'string' ? metadata.client_name.trim().slice(0, 100) : '';
+  const authMethod = metadata.token_endpoint_auth_method ?? 'client_secret_basic';
+  const redirectUris = metadata.redirect_uris;
+
+  if (!name) {
+    return oauthError(c, 'invalid_client_metadata', 'client_name is required');
+  }
+  if (typeof authMethod !== 'string' || !TOKEN_ENDPOINT_AUTH_METHODS.includes(authMethod)) {
+    return oauthError(c, 'invalid_client_metadata', `token_endpoint_auth_method must be one of: ${TOKEN_ENDPOINT_AUTH_METHODS.join(', ')}`);
+  }
+  if (
+    !Array.isArray(redirectUris) ||
+    redirectUris.length === 0 ||
+    redirectUris.length > MAX_REDIRECT_URIS ||
+    !redirectUris.every((uri) => typeof uri === 'string' && isValidRedirectUri(uri))
+  ) {
+    return oauthError(
+      c,
+      'invalid_redirect_uri',
+      `redirect_uris must be 1-${MAX_REDIRECT_URIS} https URLs (http is allowed for localhost)`
+    );
+  }
+
+  const clientSecret = authMethod === 'none' ? null : generateClientSecret();
+  const client = await c.get('db').createOAuthClient({
+    name,
+    redirectUris: redirectUris as string[],
+    clientSecretHash: clientSecret ? await hashToken(clientSecret) : undefined,
+  });
+
+  c.header('Cache-Control', 'no-store');
+  return c.json(
+    {
+      client_id: client.id,
+      ...(clientSecret && { client_secret: clientSecret, client_secret_expires_at: 0 }),
+      client_id_issued_at: Math.floor(Date.now() / 1000),
+      client_name: client.name,
+      redirect_uris: client.redirect_uris,
+      token_endpoint_auth_method: authMethod,
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+    },
+    201
+  );
+}
+
+// POST /oauth/token - Exchange an authorization code or refresh token for tokens
+export async function handleOAuthToken(c: AppContext) {
+  c.header('Cache-Control', 'no-store');
+  const body = await c.req.parseBody();
+  const field = (name: string) => (typeof body[name] === 'string' ? (body[name] as string) : '');
+
+  const client = await authenticateClient(c, body);
+  if (client instanceof Response) return client;
+
+  const db = c.get('db');
+  const grantType = field('grant_type');
+
+  if (grantType === 'authorization_code') {
+    const code = field('code');
+    const verifier = field('code_verifier');
+    const redirectUri = field('redirect_uri');
+    // Every authorization request carries a redirect_uri, so the exchange must repeat it (RFC 6749 §4.1.3)
+    if (!code || !verifier || !redirectUri) {
+      return oauthError(c, 'invalid_request', 'code, code_verifier and redirect_uri are required');
+    }
+
+    const stored = await db.consumeOAuthCode(await hashToken(code), client.id);
+    if (
+      !stored ||
+      isPast(stored.expires_at) ||
+      redirectUri !== stored.redirect_uri ||
+      !(await verifyPkce(verifier, stored.code_challenge))
+    ) {
+      return oauthError(c, 'invalid_grant', 'The authorization code is invalid, expired or already used');
+    }
+
+    return c.json(
+      await issueTokens(db, {
+        clientId: client.id,
+        apiKeyId: stored.api_key_id,
+        scopes: JSON.parse(stored.scopes) as ApiKeyScope[],
+      })
+    );
+  }
+
+  if (grantType === 'refresh_token') {
+    const refreshToken = field('refresh_token');
+    if (!refreshToken) {
+      return oauthError(c, 'invalid_request', 'refresh_token is required');
+    }
+
+    const stored = await db.consumeOAuthRefreshToken(await hashToken(refreshToken), client.id);
+    const apiKey = stored ? await db.getApiKey(stored.api_key_id) : null;
+    if (!stored || isPast(stored.refresh_expires_at) || !apiKey || apiKey.revoked_at) {
+      return oauthError(c, 'invalid_grant', 'The refresh token is invalid, expired or revoked');
+    }
+
+    // A refresh may narrow the granted scopes, never widen them
+    const granted = JSON.parse(stored.scopes) as ApiKeyScope[];
+    const requested = field('scope') ? parseScopes(field('scope')) : granted;
+    if (!requested || !requested.every((scope) => granted.includes(scope))) {
+      return oauthError(c, 'invalid_scope', 'Requested scopes exceed the original grant');
+    }
+
+    return c.json(await issueTokens(db, { clientId: client.id, apiKeyId: stored.api_key_id, scopes: requested }));
+  }
+
+  return oauthError(c, 'unsupported_grant_type', 'Supported grant types: authorization_code, refresh_token');
+}
+
+// POST /oauth/revoke - Revoke an access or refresh token (and its pair)
+export async function handleOAuthRevoke(c: AppContext) {
+  const body = await c.req.parseBody();
+  const client = await authenticateClient(c, body);
+  if (client instanceof Response) return client;
+
+  if (typeof body.token === 'string' && body.token) {
+    await c.get('db').revokeOAuthToken(await hashToken(body.token), client.id);
+  }
+
+  // Per RFC 7009, unknown tokens are not an error
+  return c.body(null, 200);
+}
+
+// GET /.well-known/oauth-authorization-server - Authorization server metadata
+export function handleOAuthMetadata(c: AppContext) {
+  const origin = new URL(c.req.url).origin;
+  return c.json({
+    issuer: origin,
+    authorization_endpoint: `${origin}/oauth/authorize`,
+    token_endpoint: `${origin}/oauth/token`,
+    registration_endpoint: `${origin}/oauth/register`,
+    revocation_endpoint: `${origin}/oauth/revoke`,
+    scopes_supported: OAUTH_SCOPES,
+    response_types_supported: ['code'],
+    grant_types_supported: ['authorization_code', 'refresh_token'],
+    code_challenge_methods_supported: ['S256'],
+    token_endpoint_auth_methods_supported: TOKEN_ENDPOINT_AUTH_METHODS,
+    revocation_endpoint_auth_methods_supported: TOKEN_ENDPOINT_AUTH_METHODS,
+  });
+}
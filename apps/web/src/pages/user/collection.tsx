@@ -0,0 +1,453 @@
+// User collection page - browse and filter a user's synced Discogs collection
+// URL: /u/:username/collection
+
+import type { Context } from 'hono';
+import { Layout } from '../../components/layout';
+import { UserProfileNav } from '../../components/layout/UserProfileNav';
+import { UserProfileHeader } from '../../components/layout/UserProfileHeader';
+import { FilterDropdown, Input, Button, TrackCard } from '../../components/ui';
+import { parseDiscogsRelease } from '@listentomore/db';
+import type { Database, DiscogsRelease, User } from '@listentomore/db';
+import type { CollectionRelease, CollectionStats } from '@listentomore/shared';
+
+const PAGE_SIZE = 48;
+const TOP_ARTISTS_LIMIT = 5;
+
+type CollectionSort = 'date_added' | 'year' | 'artist';
+
+const SORT_OPTIONS: Array<{ value: CollectionSort; label: string }> = [
+  { value: 'date_added', label: 'Recently added' },
+  { value: 'year', label: 'Release year' },
+  { value: 'artist', label: 'Artist' },
+];
+
+interface CollectionFilters {
+  q: string;
+  genre: string;
+  style: string;
+  format: string;
+  decade: string;
+  sort: CollectionSort;
+  page: number;
+}
+
+// Convert a D1 row into the shared collection shape
+function toCollectionRelease(row: DiscogsRelease): CollectionRelease {
+  const release = parseDiscogsRelease(row);
+  return {
+    id: release.id,
+    instanceId: release.instance_id ?? 0,
+    title: release.title,
+    artist: release.artist,
+    year: release.year,
+    originalYear: release.original_year,
+    format: release.format ?? '',
+    label: release.label,
+    genres: release.genres,
+    styles: release.styles,
+    masterGenres: release.master_genres,
+    masterStyles: release.master_styles,
+    imageUrl: release.image_url,
+    discogsUrl: release.discogs_url ?? `https://www.discogs.com/release/${release.id}`,
+    dateAdded: release.date_added ?? '',
+    rating: release.rating,
+    masterId: release.master_id,
+    masterEnriched: release.master_enriched === 1,
+  };
+}
+
+// Master genres/styles are more accurate than per-pressing ones, so prefer them once enriched
+function releaseGenres(release: CollectionRelease): string[] {
+  return release.masterGenres.length > 0 ? release.masterGenres : release.genres;
+}
+
+function releaseStyles(release: CollectionRelease): string[] {
+  return release.masterStyles.length > 0 ? release.masterStyles : release.styles;
+}
+
+function releaseFormats(release: CollectionRelease): string[] {
+  return release.format
+    .split(',')
+    .map((format) => format.trim())
+    .filter(Boolean);
+}
+
+function releaseDecade(release: CollectionRelease): string | null {
+  const year = release.originalYear || release.year;
+  return year ? `${Math.floor(year / 10) * 10}s` : null;
+}
+
+function buildCollectionStats(releases: CollectionRelease[], lastUpdated: string): CollectionStats {
+  const genres = new Set<string>();
+  const styles = new Set<string>();
+  const formats = new Set<string>();
+  const releasesByDecade: Record<string, number> = {};
+  const artistCounts = new Map<string, number>();
+
+  for (const release of releases) {
+    releaseGenres(release).forEach((genre) => genres.add(genre));
+    releaseStyles(release).forEach((style) => styles.add(style));
+    releaseFormats(release).forEach((format) => formats.add(format));
+
+    const decade = releaseDecade(release);
+    if (decade) {
+      releasesByDecade[decade] = (releasesByDecade[decade] || 0) + 1;
+    }
+
+    artistCounts.set(release.artist, (artistCounts.get(release.artist) || 0) + 1);
+  }
+
+  const topArtists = Array.from(artistCounts.entries())
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, TOP_ARTISTS_LIMIT);
+
+  return {
+    totalReleases: releases.length,
+    uniqueGenres: Array.from(genres).sort(),
+    uniqueStyles: Array.from(styles).sort(),
+    uniqueFormats: Array.from(formats).sort(),
+    releasesByDecade,
+    topArtists,
+    lastUpdated,
+  };
+}
+
+function filterCollection(releases: CollectionRelease[], filters: CollectionFilters): CollectionRelease[] {
+  const query = filters.q.toLowerCase();
+
+  return releases.filter((release) => {
+    if (query) {
+      const haystack = `${release.artist} ${release.title} ${release.label ?? ''}`.toLowerCase();
+      if (!haystack.includes(query)) return false;
+    }
+    if (filters.genre && !releaseGenres(release).includes(filters.genre)) return false;
+    if (filters.style && !releaseStyles(release).includes(filters.style)) return false;
+    if (filters.format && !releaseFormats(release).includes(filters.format)) return false;
+    if (filters.decade && releaseDecade(release) !== filters.decade) return false;
+    return true;
+  });
+}
+
+function sortCollection(releases: CollectionRelease[], sort: CollectionSort): CollectionRelease[] {
+  const sorted = [...releases];
+  switch (sort) {
+    case 'year':
+      // Newest first; releases without a year go last
+      return sorted.sort(
+        (a, b) => (b.originalYear || b.year || 0) - (a.originalYear || a.year || 0)
+      );
+    case 'artist':
+      return sorted.sort(
+        (a, b) => a.artist.localeCompare(b.artist) || a.title.localeCompare(b.title)
+      );
+    default:
+      return sorted.sort((a, b) => b.dateAdded.localeCompare(a.dateAdded));
+  }
+}
+
+function parseFilters(c: Context): CollectionFilters {
+  const sort = c.req.query('sort') as CollectionSort | undefined;
+  const page = parseInt(c.req.query('page') || '1', 10);
+
+  return {
+    q: (c.req.query('q') || '').trim(),
+    genre: c.req.query('genre') || '',
+    style: c.req.query('style') || '',
+    format: c.req.query('format') || '',
+    decade: c.req.query('decade') || '',
+    sort: SORT_OPTIONS.some((option) => option.value === sort) ? sort! : 'date_added',
+    page: Number.isFinite(page) && page > 0 ? page : 1,
+  };
+}
+
+// Build a collection URL preserving the current filters, with optional overrides
+function collectionUrl(username: string, filters: CollectionFilters, overrides: Partial<CollectionFilters> = {}): string {
+  const merged = { ...filters, ...overrides };
+  const params = new URLSearchParams();
+  if (merged.q) params.set('q', merged.q);
+  if (merged.genre) params.set('genre', merged.genre);
+  if (merged.style) params.set('style', merged.style);
+  if (merged.format) params.set('format', merged.format);
+  if (merged.decade) params.set('decade', merged.decade);
+  if (merged.sort !== 'date_added') params.set('sort', merged.sort);
+  if (merged.page > 1) params.set('page', String(merged.page));
+  const query = params.toString();
+  return `/u/${encodeURIComponent(username)}/collection${query ? `?${query}` : ''}`;
+}
+
+function toOptions(values: string[], allLabel: string): Array<{ value: string; label: string }> {
+  return [{ value: '', label: allLabel }, ...values.map((value) => ({ value, label: value }))];
+}
+
+interface UserCollectionPageProps {
+  username: string;
+  lastfmUsername: string;
+  profileImage?: string;
+  bio?: string | null;
+  releases: CollectionRelease[];
+  totalMatches: number;
+  stats: CollectionStats;
+  filters: CollectionFilters;
+  internalToken?: string;
+  currentUser?: User | null;
+  isOwner?: boolean;
+  profileVisibility?: 'public' | 'private';
+}
+
+export function UserCollectionPage({
+  username,
+  lastfmUsername,
+  profileImage,
+  bio,
+  releases,
+  totalMatches,
+  stats,
+  filters,
+  internalToken,
+  currentUser,
+  isOwner,
+  profileVisibility,
+}: UserCollectionPageProps) {
+  const hasCollection = stats.totalReleases > 0;
+  const totalPages = Math.max(1, Math.ceil(totalMatches / PAGE_SIZE));
+  const decades = Object.keys(stats.releasesByDecade).sort();
+  const isFiltered = !!(filters.q || filters.genre || filters.style || filters.format || filters.decade);
+
+  return (
+    <Layout
+      title={`${username}'s Collection`}
+      description={`Browse ${username}'s record collection`}
+      url={`https://listentomore.com/u/${username}/collection`}
+      image={profileImage}
+      internalToken={internalToken}
+      currentUser={currentUser}
+    >
+      <UserProfileHeader username={username} lastfmUsername={lastfmUsername} profileImage={profileImage} bio={bio} />
+      <UserProfileNav username={username} activePage="collection" />
+
+      {isOwner && profileVisibility === 'private' && (
+        <div class="notice notice-info" style={{ marginBottom: '1.5rem', padding: '1rem', backgroundColor: 'rgba(var(--c-accent-rgb), 0.1)', borderRadius: '8px', textAlign: 'center' }}>
+          🔒 Only you can see your profile. Go to <a href="/account">Account Settings</a> to make it public.
+        </div>
+      )}
+
+      <main>
+        <section id="collection">
+          <h2>💿 Collection</h2>
+
+          {hasCollection ? (
+            <>
+              {/* Stats header */}
+              <div id="collection-stats" class="text-center">
+                <p>
+                  <strong>{stats.totalReleases.toLocaleString()} releases</strong> across{' '}
+                  {stats.uniqueGenres.length} genres and {stats.uniqueStyles.length} styles
+                  {stats.uniqueFormats.length > 0 && <> ({stats.uniqueFormats.join(', ')})</>}
+                </p>
+                {stats.topArtists.length > 0 && (
+                  <p>
+                    Most collected:{' '}
+                    {stats.topArtists.map((artist, index) => (
+                      <>
+                        {index > 0 && ', '}
+                        <a href={`/artist?q=${encodeURIComponent(artist.name)}`}>{artist.name}</a> ({artist.count})
+                      </>
+                    ))}
+                  </p>
+                )}
+                {decades.length > 0 && (
+                  <p class="text-muted">
+                    {decades.map((decade) => `${decade}: ${stats.releasesByDecade[decade]}`).join(' · ')}
+                  </p>
+                )}
+                <p class="text-muted">Last updated {stats.lastUpdated}</p>
+              </div>
+
+              {/* Filters */}
+              <form method="get" action={`/u/${username}/collection`} id="collection-filters">
+                <div class="search-form">
+                  <Input type="search" name="q" placeholder="Search artist, title or label..." value={filters.q} />
+                  <Button type="submit">Search</Button>
+                </div>
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1rem', justifyContent: 'center' }}>
+                  <FilterDropdown label="Genre" id="genre-filter" name="genre" value={filters.genre} options={toOptions(stats.uniqueGenres, 'All genres')} autoSubmit />
+                  <FilterDropdown label="Style" id="style-filter" name="style" value={filters.style} options={toOptions(stats.uniqueStyles, 'All styles')} autoSubmit />
+                  <FilterDropdown label="Format" id="format-filter" name="format" value={filters.format} options={toOptions(stats.uniqueFormats, 'All formats')} autoSubmit />
+                  <FilterDropdown label="Decade" id="decade-filter" name="decade" value={filters.decade} options={toOptions(decades, 'All decades')} autoSubmit />
+                  <FilterDropdown label="Sort by" id="sort-filter" name="sort" value={filters.sort} options={SORT_OPTIONS} autoSubmit />
+                </div>
+              </form>
+
+              <p class="text-center">
+                <strong>
+                  {isFiltered
+                    ? `${totalMatches.toLocaleString()} of ${stats.totalReleases.toLocaleString()} releases match`
+                    : `Showing all ${stats.totalReleases.toLocaleString()} releases`}
+                </strong>
+                {isFiltered && (
+                  <>
+                    {' '}
+                    · <a href={`/u/${username}/collection`}>Clear filters</a>
+                  </>
+                )}
+              </p>
+
+              {releases.length > 0 ? (
+                <div class="track-grid" id="collection-releases">
+                  {releases.map((release) => (
+                    <TrackCard
+                      imageUrl={release.imageUrl || undefined}
+                      artist={release.artist}
+                      name={release.title}
+                      href={release.discogsUrl}
+                      subtitle={[release.originalYear || release.year, release.format].filter(Boolean).join(' · ')}
+                    />
+                  ))}
+                </div>
+              ) : (
+                <p class="text-center text-muted">No releases match these filters.</p>
+              )}
+
+              {totalPages > 1 && (
+                <p class="text-center" style={{ marginTop: '2rem' }}>
+                  {filters.page > 1 && (
+                    <a href={collectionUrl(username, filters, { page: filters.page - 1 })} class="button button--secondary">
+                      ← Previous
+                    </a>
+                  )}{' '}
+                  <span class="text-muted">
+                    Page {filters.page} of {totalPages}
+                  </span>{' '}
+                  {filters.page < totalPages && (
+                    <a href={collectionUrl(username, filters, { page: filters.page + 1 })} class="button button--secondary">
+                      Next →
+                    </a>
+                  )}
+                </p>
+              )}
+            </>
+          ) : (
+            <p class="text-center text-muted">
+              {isOwner ? (
+                <>
+                  Your Discogs collection has not been synced yet. Connect Discogs in{' '}
+                  <a href="/account">Account Settings</a>; the first sync runs within a few minutes.
+                </>
+              ) : (
+                `${username} hasn't synced a Discogs collection yet.`
+              )}
+            </p>
+          )}
+        </section>
+      </main>
+    </Layout>
+  );
+}
+
+// Private profile page - shown when profile is private and viewer is not owner
+function PrivateProfile({ username, currentUser }: { username: string; currentUser?: User | null }) {
+  return (
+    <Layout
+      title="Private Profile"
+      currentUser={currentUser}
+    >
+      <div class="text-center" style={{ paddingTop: '4rem' }}>
+        <h1 style={{ fontSize: '3rem', marginBottom: '0.5rem' }}>🔒 Private Profile</h1>
+        <p>
+          <strong>{username}</strong> has chosen to keep their listening stats private.
+        </p>
+        {!currentUser && (
+          <p style={{ marginTop: '1.5rem' }}>
+            <a href="/login" class="button">Sign In</a>
+          </p>
+        )}
+      </div>
+    </Layout>
+  );
+}
+
+// 404 page for user not found
+function UserNotFound({ username }: { username: string }) {
+  return (
+    <Layout title="User Not Found">
+      <div class="text-center" style={{ paddingTop: '4rem' }}>
+        <h1 style={{ fontSize: '3rem', marginBottom: '0.5rem' }}>User not found</h1>
+        <p>
+          No user with username "<strong>{username}</strong>" exists in our system.
+        </p>
+        <p style={{ marginTop: '1rem', maxWidth: '500px', marginLeft: 'auto', marginRight: 'auto' }}>
+          Want to create your own profile?{' '}
+          <a href="/login">Sign in with Last.fm</a> to track your listening stats and get personalized recommendations.
+        </p>
+        <p class="mt-2">
+          <a href="/stats" class="button">Try Another Username</a>
+        </p>
+      </div>
+    </Layout>
+  );
+}
+
+// Route handler
+export async function handleUserCollection(c: Context) {
+  const username = c.req.param('username');
+  const db = c.get('db') as Database;
+  const internalToken = c.get('internalToken') as string;
+  const currentUser = c.get('currentUser') as User | null;
+
+  // Look up user by lastfm_username first (canonical), then fall back to username
+  let user = await db.getUserByLastfmUsername(username);
+  if (!user) {
+    user = await db.getUserByUsername(username);
+  }
+
+  if (!user || !user.lastfm_username) {
+    return c.html(<UserNotFound username={username} />, 404);
+  }
+
+  const isOwner = currentUser?.id === user.id;
+
+  // Check privacy - if private and not the owner, show private profile page
+  if (user.profile_visibility === 'private' && !isOwner) {
+    return c.html(
+      <PrivateProfile username={user.lastfm_username} currentUser={currentUser} />
+    );
+  }
+
+  const { LastfmService } = await import('@listentomore/lastfm');
+  const lastfm = new LastfmService({
+    apiKey: c.env.LASTFM_API_KEY,
+    username: user.lastfm_username,
+    cache: c.env.CACHE,
+  });
+
+  const [rows, userInfo] = await Promise.all([
+    db.getAllReleases(user.id),
+    lastfm.getUserInfo().catch(() => null),
+  ]);
+
+  const collection = rows.map(toCollectionRelease);
+  const lastUpdated = rows.reduce<string>((latest, row) => (row.updated_at > latest ? row.updated_at : latest), '');
+  const stats = buildCollectionStats(collection, lastUpdated);
+
+  const filters = parseFilters(c);
+  const matches = sortCollection(filterCollection(collection, filters), filters.sort);
+  const start = (filters.page - 1) * PAGE_SIZE;
+
+  return c.html(
+    <UserCollectionPage
+      username={user.username || user.lastfm_username}
+      lastfmUsername={user.lastfm_username}
+      profileImage={userInfo?.image || undefined}
+      bio={user.bio}
+      releases={matches.slice(start, start + PAGE_SIZE)}
+      totalMatches={matches.length}
+      stats={stats}
+      filters={filters}
+      internalToken={internalToken}
+      currentUser={currentUser}
+      isOwner={isOwner}
+      profileVisibility={user.profile_visibility}
+    />
+  );
+}
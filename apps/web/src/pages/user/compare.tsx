@@ -0,0 +1,343 @@
+// Taste compatibility page - how two users' top artists and albums overlap
+// URL: /u/:username/compare/:other
+
+import type { Context } from 'hono';
+import { Layout } from '../../components/layout';
+import { SignInGate } from '../../components/ui';
+import { enrichLinksScript } from '../../utils/client-scripts';
+import type { TimePeriod } from '@listentomore/lastfm';
+import type { Database, User } from '@listentomore/db';
+
+const PERIOD_LABELS: Partial<Record<TimePeriod, string>> = {
+  '1month': 'Past month',
+  '6month': 'Past 6 months',
+  overall: 'All time',
+};
+
+interface UserComparePageProps {
+  username: string;
+  otherUsername: string;
+  internalToken?: string;
+  currentUser?: User | null;
+}
+
+export function UserComparePage({ username, otherUsername, internalToken, currentUser }: UserComparePageProps) {
+  return (
+    <Layout
+      title={`${username} × ${otherUsername}`}
+      description={`How similar is ${username}'s taste in music to ${otherUsername}'s?`}
+      url={`https://listentomore.com/u/${username}/compare/${otherUsername}`}
+      internalToken={internalToken}
+      currentUser={currentUser}
+    >
+      <main>
+        <section id="taste-compare">
+          <h1 class="text-center">
+            <a href={`/u/${username}`}>{username}</a> × <a href={`/u/${otherUsername}`}>{otherUsername}</a>
+          </h1>
+
+          <div id="compare-summary">
+            <div class="loading-container">
+              <span class="spinner">↻</span>
+              <span class="loading-text">Comparing your listening...</span>
+            </div>
+          </div>
+
+          {/* Filled in and shown once the comparison has loaded */}
+          <div id="compare-details" style={{ display: 'none' }}>
+            <SignInGate currentUser={currentUser ?? null} currentPath={`/u/${username}/compare/${otherUsername}`}>
+              <div id="compare-blurb" class="ai-summary">
+                <p class="text-muted">
+                  <span class="loading-inline">Working out what you'd bond over...</span>
+                </p>
+              </div>
+            </SignInGate>
+
+            <h2 style={{ marginTop: '3em' }}>🤝 Shared Favorites</h2>
+            <div id="compare-shared"></div>
+
+            <h2 style={{ marginTop: '3em' }}>🎁 Unique Picks</h2>
+            <p class="text-center">
+              <strong>Favorites only one of them plays. A good place to start swapping records.</strong>
+            </p>
+            <div class="compare-unique" id="compare-unique"></div>
+          </div>
+        </section>
+      </main>
+
+      <script
+        dangerouslySetInnerHTML={{
+          __html: `
+        ${enrichLinksScript}
+
+        (function() {
+          var username = ${JSON.stringify(username)};
+          var other = ${JSON.stringify(otherUsername)};
+          var periodLabels = ${JSON.stringify(PERIOD_LABELS)};
+          var pairQuery = 'username=' + encodeURIComponent(username) + '&other=' + encodeURIComponent(other);
+
+          function escapeHtml(str) {
+            var div = document.createElement('div');
+            div.textContent = str;
+            return div.innerHTML;
+          }
+
+          function albumHref(album) {
+            return '/album?q=' + encodeURIComponent(album.artist + ' ' + album.name);
+          }
+
+          function renderArtistList(artists) {
+            var html = '<ul>';
+            artists.forEach(function(artist) {
+              html += '<li><a href="/artist?q=' + encodeURIComponent(artist.name) + '">' + escapeHtml(artist.name) + '</a></li>';
+            });
+            return html + '</ul>';
+          }
+
+          function renderAlbumList(albums) {
+            var html = '<ul>';
+            albums.forEach(function(album) {
+              html += '<li><a href="' + albumHref(album) + '">' + escapeHtml(album.name) + '</a> by ' +
+                '<a href="/artist?q=' + encodeURIComponent(album.artist) + '">' + escapeHtml(album.artist) + '</a></li>';
+            });
+            return html + '</ul>';
+          }
+
+          function renderAlbumGrid(albums) {
+            var html = '<div class="track-grid" id="compare-shared-albums">';
+            albums.forEach(function(album) {
+              html += '<a href="' + albumHref(album) + '"><div class="track">';
+              if (album.image) {
+                html += '<img src="' + escapeHtml(album.image) + '" alt="' + escapeHtml(album.name + ' by ' + album.artist) + '" class="track-image" loading="lazy" onerror="this.onerror=null;this.src=\\'https://file.elezea.com/noun-no-image.png\\'"/>';
+              }
+              html += '<div class="track-content">' +
+                '<p class="track-artist">' + escapeHtml(album.artist) + '</p>' +
+                '<p class="track-name">' + escapeHtml(album.name) + '</p>' +
+                '</div></div></a>';
+            });
+            return html + '</div>';
+          }
+
+          function renderUniquePicks(name, picks) {
+            var html = '<div class="compare-unique-column"><h3>Only <a href="/u/' + encodeURIComponent(name) + '">' + escapeHtml(name) + '</a></h3>';
+            if (picks.artists.length > 0 || picks.albums.length > 0) {
+              html += renderArtistList(picks.artists) + renderAlbumList(picks.albums);
+            } else {
+              html += '<p class="text-muted">Nothing the other doesn&#39;t also play.</p>';
+            }
+            return html + '</div>';
+          }
+
+          function renderComparison(comparison) {
+            var html = '<p class="compare-score text-center"><strong>' + comparison.score + '%</strong><br />' +
+              '<span class="text-muted">taste overlap</span></p><div class="compare-periods">';
+            comparison.periods.forEach(function(period) {
+              html += '<div class="compare-period">' +
+                '<p class="compare-period-value">' + (period.score === null ? '–' : period.score + '%') + '</p>' +
+                '<p class="compare-period-label text-muted">' + escapeHtml(periodLabels[period.period] || period.period) + '</p>' +
+                '</div>';
+            });
+            document.getElementById('compare-summary').innerHTML = html + '</div>';
+
+            var shared = comparison.shared;
+            var sharedEl = document.getElementById('compare-shared');
+            if (shared.artists.length > 0 || shared.albums.length > 0) {
+              sharedEl.innerHTML =
+                (shared.artists.length > 0 ? renderArtistList(shared.artists) : '') +
+                (shared.albums.length > 0 ? renderAlbumGrid(shared.albums) : '');
+            } else {
+              sharedEl.innerHTML = '<p class="text-center text-muted">No favorites in common yet.</p>';
+            }
+
+            document.getElementById('compare-unique').innerHTML =
+              renderUniquePicks(username, comparison.unique.user) + renderUniquePicks(other, comparison.unique.other);
+            document.getElementById('compare-details').style.display = '';
+
+            enrichLinks('compare-shared-albums');
+            enrichLinks('compare-unique');
+          }
+
+          function fetchBlurb() {
+            // Blurb is gated behind sign-in, so the container only exists for signed-in viewers
+            if (!document.getElementById('compare-blurb')) return;
+
+            internalFetch('/api/internal/user-compare-blurb?' + pairQuery)
+              .then(function(r) { return r.json(); })
+              .then(function(data) {
+                var el = document.getElementById('compare-blurb');
+                if (!el) return;
+
+                if (data.error) {
+                  throw new Error(data.error);
+                }
+
+                if (data.sparse) {
+                  el.innerHTML = '';
+                  return;
+                }
+
+                el.innerHTML = marked.parse(data.data.content);
+                enrichLinks('compare-blurb');
+              })
+              .catch(function(err) {
+                console.error('Taste compatibility blurb error:', err);
+                var el = document.getElementById('compare-blurb');
+                if (el) {
+                  el.innerHTML = '<p class="text-muted">Unable to write this up right now. Please try again later.</p>';
+                }
+              });
+          }
+
+          internalFetch('/api/internal/user-compare?' + pairQuery)
+            .then(function(r) { return r.json(); })
+            .then(function(result) {
+              if (result.error) {
+                throw new Error(result.error);
+              }
+
+              var comparison = result.data;
+              var hasData = comparison.periods.some(function(p) { return p.score !== null; });
+              if (!hasData) {
+                document.getElementById('compare-summary').innerHTML =
+                  '<p class="text-center text-muted">Not enough listening to compare yet.</p>';
+                return;
+              }
+
+              renderComparison(comparison);
+              fetchBlurb();
+            })
+            .catch(function(err) {
+              console.error('Taste comparison error:', err);
+              var el = document.getElementById('compare-summary');
+              if (el) {
+                el.innerHTML = '<p class="text-center text-muted">Unable to compare these profiles right now. Please try again later.</p>';
+              }
+            });
+        })();
+      `,
+        }}
+      />
+
+      <style
+        dangerouslySetInnerHTML={{
+          __html: `
+        .compare-score strong {
+          font-size: 3rem;
+          color: var(--c-accent);
+        }
+
+        .compare-periods {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(140px, 1fr));
+          gap: 1rem;
+          margin: 1.5rem 0 2rem;
+        }
+
+        .compare-period {
+          text-align: center;
+          padding: 1rem;
+          border-radius: 8px;
+          background-color: rgba(var(--c-accent-rgb), 0.1);
+        }
+
+        .compare-period-value {
+          font-size: 1.5rem;
+          font-weight: 700;
+          margin: 0;
+        }
+
+        .compare-period-label {
+          margin: 0.25rem 0 0 0;
+          font-size: 0.9rem;
+        }
+
+        .compare-unique {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(260px, 1fr));
+          gap: 2rem;
+        }
+      `,
+        }}
+      />
+    </Layout>
+  );
+}
+
+// 404 page for user not found
+function UserNotFound({ username }: { username: string }) {
+  return (
+    <Layout title="User Not Found">
+      <div class="text-center" style={{ paddingTop: '4rem' }}>
+        <h1 style={{ fontSize: '3rem', marginBottom: '0.5rem' }}>User not found</h1>
+        <p>
+          No user with username "<strong>{username}</strong>" exists in our system.
+        </p>
+        <p class="mt-2">
+          <a href="/stats" class="button">Try Another Username</a>
+        </p>
+      </div>
+    </Layout>
+  );
+}
+
+// Private profile page - shown when either profile is private and the viewer doesn't own it
+function PrivateProfile({ username, currentUser }: { username: string; currentUser?: User | null }) {
+  return (
+    <Layout title="Private Profile" description="This profile is private" currentUser={currentUser}>
+      <div class="text-center" style={{ paddingTop: '4rem' }}>
+        <h1 style={{ fontSize: '3rem', marginBottom: '0.5rem' }}>🔒 Private Profile</h1>
+        <p>
+          <strong>{username}</strong> has chosen to keep their listening stats private.
+        </p>
+        {!currentUser && (
+          <p style={{ marginTop: '1.5rem' }}>
+            <a href="/login" class="button">Sign In</a>
+          </p>
+        )}
+      </div>
+    </Layout>
+  );
+}
+
+// Look up user by lastfm_username first (canonical), then fall back to username
+async function findUser(db: Database, username: string): Promise<User | null> {
+  const user = (await db.getUserByLastfmUsername(username)) ?? (await db.getUserByUsername(username));
+  return user?.lastfm_username ? user : null;
+}
+
+// Route handler - both profiles must be visible to the viewer
+export async function handleUserCompare(c: Context) {
+  const username = c.req.param('username');
+  const otherUsername = c.req.param('other');
+  const db = c.get('db') as Database;
+  const internalToken = c.get('internalToken') as string;
+  const currentUser = c.get('currentUser') as User | null;
+
+  const [user, other] = await Promise.all([findUser(db, username), findUser(db, otherUsername)]);
+  if (!user) {
+    return c.html(<UserNotFound username={username} />, 404);
+  }
+  if (!other) {
+    return c.html(<UserNotFound username={otherUsername} />, 404);
+  }
+
+  for (const profile of [user, other]) {
+    if (profile.profile_visibility === 'private' && currentUser?.id !== profile.id) {
+      return c.html(<PrivateProfile username={profile.lastfm_username!} currentUser={currentUser} />);
+    }
+  }
+
+  const profileUsername = user.username || user.lastfm_username!;
+  if (user.id === other.id) {
+    return c.redirect(`/u/${profileUsername}`);
+  }
+
+  return c.html(
+    <UserComparePage
+      username={profileUsername}
+      otherUsername={other.username || other.lastfm_username!}
+      internalToken={internalToken}
+      currentUser={currentUser}
+    />
+  );
+}
@@ -0,0 +1,158 @@
+// User feeds - Atom and JSON Feed versions of a profile's listening, likes and weekly insights
+// URLs: /u/:username/feed.{xml,json}, /u/:username/likes/feed.{xml,json}, /u/:username/insights/feed.{xml,json}
+
+import type { Context } from 'hono';
+import { SITE_CONFIG } from '@listentomore/config';
+import { parseWeeklyInsights, type Database, type User } from '@listentomore/db';
+import { feedResponse, type Feed, type FeedFormat, type FeedItem } from '../../utils/feeds';
+import { formatIsoWeekRange } from '../../utils/iso-week';
+import { getListeningProvider, LISTENING_SOURCE_LABELS } from '../../utils/listening-provider';
+
+// Items per feed
+const FEED_ITEM_LIMIT = 30;
+
+interface FeedOwner {
+  user: User;
+  /** Username used in profile URLs */
+  profileUsername: string;
+  isPrivate: boolean;
+}
+
+function feedFormat(c: Context): FeedFormat {
+  return c.req.path.endsWith('.json') ? 'json' : 'atom';
+}
+
+/**
+ * The profile a feed belongs to, or the response to send when it doesn't exist or
+ * is private. Feed readers don't carry a session, so private feeds only work for
+ * the owner in their own browser.
+ */
+async function getFeedOwner(c: Context): Promise<FeedOwner | Response> {
+  const username = c.req.param('username');
+  const db = c.get('db') as Database;
+  const currentUser = c.get('currentUser') as User | null;
+
+  // Look up user by lastfm_username first (canonical), then fall back to username
+  let user = await db.getUserByLastfmUsername(username);
+  if (!user) {
+    user = await db.getUserByUsername(username);
+  }
+
+  if (!user || !user.lastfm_username) {
+    return c.text('User not found', 404);
+  }
+
+  const isPrivate = user.profile_visibility === 'private';
+  if (isPrivate && currentUser?.id !== user.id) {
+    return c.text('This profile is private', 403);
+  }
+
+  return { user, profileUsername: user.username || user.lastfm_username, isPrivate };
+}
+
+export async function handleUserFeed(c: Context) {
+  const owner = await getFeedOwner(c);
+  if (owner instanceof Response) return owner;
+  const { user, profileUsername } = owner;
+
+  const listening = getListeningProvider(user, c.env)!;
+  const tracks = await listening.provider.getRecentTracks(FEED_ITEM_LIMIT).catch(() => []);
+  const profileUrl = `${SITE_CONFIG.url}/u/${profileUsername}`;
+
+  // The now-playing track has no timestamp yet; it shows up once it's scrobbled
+  const items: FeedItem[] = tracks
+    .filter((track) => track.playedAt)
+    .map((track) => ({
+      id: `${profileUrl}#played-${track.playedAt}`,
+      url: track.url || profileUrl,
+      title: `${track.artist} – ${track.name}`,
+      content: `${profileUsername} listened to ${track.name} by ${track.artist}${track.album ? ` from ${track.album}` : ''}.`,
+      date: track.playedAt!,
+      image: track.image,
+    }));
+
+  const feed: Feed = {
+    title: `${profileUsername}'s listening`,
+    description: `Tracks ${profileUsername} recently played on ${LISTENING_SOURCE_LABELS[listening.source]}`,
+    pagePath: `/u/${profileUsername}`,
+    feedPath: `/u/${profileUsername}/feed`,
+    author: profileUsername,
+    items,
+  };
+
+  return feedResponse(c.req.raw, feed, feedFormat(c), { isPrivate: owner.isPrivate });
+}
+
+export async function handleUserLikesFeed(c: Context) {
+  const owner = await getFeedOwner(c);
+  if (owner instanceof Response) return owner;
+  const { user, profileUsername } = owner;
+
+  const listening = getListeningProvider(user, c.env)!;
+  const lovedTracks = await listening.provider.getLovedTracks(FEED_ITEM_LIMIT).catch(() => []);
+  const likesUrl = `${SITE_CONFIG.url}/u/${profileUsername}/likes`;
+
+  const items: FeedItem[] = lovedTracks
+    .filter((track) => track.likedAt)
+    .map((track) => ({
+      id: `${likesUrl}#loved-${track.likedAt}`,
+      url: track.songUrl || likesUrl,
+      title: `${track.artist} – ${track.title}`,
+      content: `${profileUsername} loved ${track.title} by ${track.artist}.`,
+      date: track.likedAt!,
+      image: track.image,
+    }));
+
+  const feed: Feed = {
+    title: `${profileUsername}'s likes`,
+    description: `Tracks ${profileUsername} loved on ${LISTENING_SOURCE_LABELS[listening.source]}`,
+    pagePath: `/u/${profileUsername}/likes`,
+    feedPath: `/u/${profileUsername}/likes/feed`,
+    author: profileUsername,
+    items,
+  };
+
+  return feedResponse(c.req.raw, feed, feedFormat(c), { isPrivate: owner.isPrivate });
+}
+
+export async function handleUserInsightsFeed(c: Context) {
+  const owner = await getFeedOwner(c);
+  if (owner instanceof Response) return owner;
+  const { user, profileUsername } = owner;
+
+  const db = c.get('db') as Database;
+  const archived = await db.getAllWeeklyInsights(user.id);
+
+  const items: FeedItem[] = archived
+    .filter((insights) => insights.summary)
+    .slice(0, FEED_ITEM_LIMIT)
+    .map((row) => {
+      const insights = parseWeeklyInsights(row);
+      const weekUrl = `${SITE_CONFIG.url}/u/${profileUsername}/insights/${insights.week}`;
+      const recommendations = insights.recommendations.map(
+        (rec) => `- ${rec.albumName} by ${rec.artistName}: ${rec.reason}`
+      );
+
+      return {
+        id: weekUrl,
+        url: weekUrl,
+        title: `Weekly insights: ${formatIsoWeekRange(insights.week)}`,
+        content: recommendations.length > 0
+          ? `${insights.summary}\n\nAlbums to try:\n${recommendations.join('\n')}`
+          : insights.summary!,
+        // D1 dates are SQLite datetime values (UTC, no zone)
+        date: new Date(`${insights.updated_at.replace(' ', 'T')}Z`).toISOString(),
+      };
+    });
+
+  const feed: Feed = {
+    title: `${profileUsername}'s weekly insights`,
+    description: `Weekly listening insights and album recommendations for ${profileUsername}`,
+    pagePath: `/u/${profileUsername}/insights`,
+    feedPath: `/u/${profileUsername}/insights/feed`,
+    author: profileUsername,
+    items,
+  };
+
+  return feedResponse(c.req.raw, feed, feedFormat(c), { isPrivate: owner.isPrivate });
+}
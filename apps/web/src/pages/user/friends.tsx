@@ -0,0 +1,241 @@
+// User friends page - what the user's Last.fm friends are listening to
+// URL: /u/:username/friends
+
+import type { Context } from 'hono';
+import { Layout } from '../../components/layout';
+import { UserProfileNav } from '../../components/layout/UserProfileNav';
+import { UserProfileHeader } from '../../components/layout/UserProfileHeader';
+import { enrichLinksScript } from '../../utils/client-scripts';
+import type { Database, User } from '@listentomore/db';
+
+interface UserFriendsPageProps {
+  username: string;
+  lastfmUsername: string;
+  profileImage?: string;
+  bio?: string | null;
+  internalToken?: string;
+  currentUser?: User | null;
+  isOwner?: boolean;
+  profileVisibility?: 'public' | 'private';
+}
+
+export function UserFriendsPage({
+  username,
+  lastfmUsername,
+  profileImage,
+  bio,
+  internalToken,
+  currentUser,
+  isOwner,
+  profileVisibility,
+}: UserFriendsPageProps) {
+  return (
+    <Layout
+      title={`${username}'s friends`}
+      description={`What ${username}'s Last.fm friends are listening to`}
+      url={`https://listentomore.com/u/${username}/friends`}
+      internalToken={internalToken}
+      currentUser={currentUser}
+    >
+      <UserProfileHeader username={username} lastfmUsername={lastfmUsername} profileImage={profileImage} bio={bio} />
+      <UserProfileNav username={username} activePage="friends" />
+
+      {isOwner && profileVisibility === 'private' && (
+        <div class="notice notice-info" style={{ marginBottom: '1.5rem', padding: '1rem', backgroundColor: 'rgba(var(--c-accent-rgb), 0.1)', borderRadius: '8px', textAlign: 'center' }}>
+          🔒 Only you can see your profile. Go to <a href="/account">Account Settings</a> to make it public.
+        </div>
+      )}
+
+      <main>
+        <section id="friends">
+          <h2>👋 Friends</h2>
+          <p class="text-center">
+            <strong>What {username}'s Last.fm friends are listening to</strong>
+            <br />
+            <span class="text-muted">Friends who are also on ListenToMore are highlighted.</span>
+          </p>
+          <div id="friends-activity">
+            <div class="loading-container">
+              <span class="spinner">↻</span>
+              <span class="loading-text">Checking in with friends...</span>
+            </div>
+          </div>
+        </section>
+      </main>
+
+      {/* Progressive loading - friends' tracks are fetched in throttled batches */}
+      <script dangerouslySetInnerHTML={{ __html: `
+        ${enrichLinksScript}
+
+        (function() {
+          var username = ${JSON.stringify(username)};
+          var lastfmUrl = ${JSON.stringify(`https://www.last.fm/user/${encodeURIComponent(lastfmUsername)}/following`)};
+
+          function escapeHtml(str) {
+            return String(str)
+              .replace(/&/g, '&amp;')
+              .replace(/</g, '&lt;')
+              .replace(/>/g, '&gt;')
+              .replace(/"/g, '&quot;')
+              .replace(/'/g, '&#39;');
+          }
+
+          function timeAgo(iso) {
+            var minutes = Math.round((Date.now() - new Date(iso).getTime()) / 60000);
+            if (minutes < 60) return minutes <= 1 ? 'just now' : minutes + ' minutes ago';
+            var hours = Math.round(minutes / 60);
+            if (hours < 24) return hours === 1 ? '1 hour ago' : hours + ' hours ago';
+            var days = Math.round(hours / 24);
+            return days === 1 ? 'yesterday' : days + ' days ago';
+          }
+
+          function renderFriend(friend, index) {
+            var name = escapeHtml(friend.realname || friend.username);
+            var html = '<div class="track-item' + (friend.profilePath ? ' friend-member' : '') + '" data-index="' + index + '">';
+            html += '<div class="track-item-image">';
+            html += '<img src="' + escapeHtml(friend.track && friend.track.image || friend.image || 'https://file.elezea.com/noun-no-image.png') + '" alt="' + name + '" loading="lazy" onerror="this.onerror=null;this.src=\\'https://file.elezea.com/noun-no-image.png\\'"/>';
+            html += '</div><div class="track-item-content">';
+
+            if (friend.profilePath) {
+              html += '<p><strong><a href="' + escapeHtml(friend.profilePath) + '">' + name + '</a></strong> <span class="friend-member-badge">On ListenToMore</span></p>';
+            } else {
+              html += '<p><strong><a href="' + escapeHtml(friend.url) + '" target="_blank" rel="noopener noreferrer">' + name + '</a></strong></p>';
+            }
+
+            var track = friend.track;
+            if (track) {
+              var when = track.nowPlaying
+                ? '<span style="color: var(--c-accent);">▶ Now playing</span>'
+                : (track.playedAt ? '<span class="text-muted">' + timeAgo(track.playedAt) + '</span>' : '');
+              html += '<p><strong>' + escapeHtml(track.name) + '</strong> by ' +
+                '<a href="/artist?q=' + encodeURIComponent(track.artist) + '">' + escapeHtml(track.artist) + '</a></p>';
+              if (track.album) {
+                html += '<p>From <a href="/album?q=' + encodeURIComponent(track.artist + ' ' + track.album) + '" data-artist="' + escapeHtml(track.artist) + '" data-album="' + escapeHtml(track.album) + '">' + escapeHtml(track.album) + '</a></p>';
+              }
+              html += '<p>' + when + '</p>';
+            } else {
+              html += '<p class="text-muted">No recent listening.</p>';
+            }
+
+            html += '</div></div>';
+            return html;
+          }
+
+          internalFetch('/api/internal/user-friends?username=' + encodeURIComponent(username))
+            .then(function(r) { return r.json(); })
+            .then(function(result) {
+              var container = document.getElementById('friends-activity');
+              if (!container) return;
+
+              if (result.error) {
+                container.innerHTML = '<p class="text-center text-muted">Failed to load friends.</p>';
+                return;
+              }
+
+              var friends = result.data || [];
+              if (friends.length === 0) {
+                container.innerHTML = '<p class="text-center text-muted">No friends yet. <a href="' + lastfmUrl + '" target="_blank" rel="noopener noreferrer">Follow people on Last.fm</a> to see them here!</p>';
+                return;
+              }
+
+              container.innerHTML = '<div class="track-list" id="friends-list">' + friends.map(renderFriend).join('') + '</div>';
+              enrichLinks('friends-list');
+            })
+            .catch(function(err) {
+              console.error('Failed to load friends:', err);
+              var container = document.getElementById('friends-activity');
+              if (container) container.innerHTML = '<p class="text-center text-muted">Failed to load friends.</p>';
+            });
+        })();
+      ` }} />
+    </Layout>
+  );
+}
+
+// Private profile page - shown when profile is private and viewer is not owner
+function PrivateProfile({ username, currentUser }: { username: string; currentUser?: User | null }) {
+  return (
+    <Layout
+      title="Private Profile"
+      currentUser={currentUser}
+    >
+      <div class="text-center" style={{ paddingTop: '4rem' }}>
+        <h1 style={{ fontSize: '3rem', marginBottom: '0.5rem' }}>🔒 Private Profile</h1>
+        <p>
+          <strong>{username}</strong> has chosen to keep their listening stats private.
+        </p>
+        {!currentUser && (
+          <p style={{ marginTop: '1.5rem' }}>
+            <a href="/login" class="button">Sign In</a>
+          </p>
+        )}
+      </div>
+    </Layout>
+  );
+}
+
+// 404 page for user not found
+function UserNotFound({ username }: { username: string }) {
+  return (
+    <Layout title="User Not Found">
+      <div class="text-center" style={{ paddingTop: '4rem' }}>
+        <h1 style={{ fontSize: '3rem', marginBottom: '0.5rem' }}>User not found</h1>
+        <p>
+          No user with username "<strong>{username}</strong>" exists in our system.
+        </p>
+        <p class="mt-2">
+          <a href="/stats" class="button">Try Another Username</a>
+        </p>
+      </div>
+    </Layout>
+  );
+}
+
+// Route handler
+export async function handleUserFriends(c: Context) {
+  const username = c.req.param('username');
+  const db = c.get('db') as Database;
+  const internalToken = c.get('internalToken') as string;
+  const currentUser = c.get('currentUser') as User | null;
+
+  // Look up user by lastfm_username first (canonical), then fall back to username
+  let user = await db.getUserByLastfmUsername(username);
+  if (!user) {
+    user = await db.getUserByUsername(username);
+  }
+
+  if (!user || !user.lastfm_username) {
+    return c.html(<UserNotFound username={username} />, 404);
+  }
+
+  const isOwner = currentUser?.id === user.id;
+
+  // Check privacy - if private and not the owner, show private profile page
+  if (user.profile_visibility === 'private' && !isOwner) {
+    return c.html(
+      <PrivateProfile username={user.lastfm_username} currentUser={currentUser} />
+    );
+  }
+
+  // Friends are always from Last.fm, whichever listening source the user picked
+  const { LastfmService } = await import('@listentomore/lastfm');
+  const lastfm = new LastfmService({
+    apiKey: c.env.LASTFM_API_KEY,
+    username: user.lastfm_username,
+    cache: c.env.CACHE,
+  });
+  const userInfo = await lastfm.getUserInfo().catch(() => null);
+
+  return c.html(
+    <UserFriendsPage
+      username={user.username || user.lastfm_username}
+      lastfmUsername={user.lastfm_username}
+      profileImage={userInfo?.image || undefined}
+      bio={user.bio}
+      internalToken={internalToken}
+      currentUser={currentUser}
+      isOwner={isOwner}
+      profileVisibility={user.profile_visibility}
+    />
+  );
+}
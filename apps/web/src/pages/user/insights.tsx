@@ -1,12 +1,190 @@
 // User insights page - AI-powered listening analysis and recommendations
-// URL: /u/:username/insights
+// URL: /u/:username/insights?period=7day|1month|3month|custom&from=YYYY-MM-DD&to=YYYY-MM-DD
 
 import type { Context } from 'hono';
 import { Layout } from '../../components/layout';
 import { UserProfileNav } from '../../components/layout/UserProfileNav';
 import { UserProfileHeader } from '../../components/layout/UserProfileHeader';
 import { enrichLinksScript } from '../../utils/client-scripts';
-import type { Database, User } from '@listentomore/db';
+import { feedLinks } from '../../utils/feeds';
+import { parseInsightsPeriod, type ResolvedInsightsPeriod } from '../../utils/insights-period';
+import { formatIsoWeekRange, parseIsoWeek } from '../../utils/iso-week';
+import { parseWeeklyInsights, type ArchivedAlbumRecommendation, type Database, type User } from '@listentomore/db';
+
+const PERIOD_OPTIONS = [
+  { key: '7day', label: '7 days' },
+  { key: '1month', label: '1 month' },
+  { key: '3month', label: '3 months' },
+];
+
+// Section heading for each period, e.g. "Your Week in Music"
+function periodHeading(period: ResolvedInsightsPeriod): string {
+  if (period.source === 'archive') {
+    return `Your Music, ${period.span}`;
+  }
+  switch (period.lastfmPeriod) {
+    case '1month':
+      return 'Your Month in Music';
+    case '3month':
+      return 'Your Last 3 Months in Music';
+    default:
+      return 'Your Week in Music';
+  }
+}
+
+// Query string passed along to the internal insights endpoints (empty for the default week)
+function periodQuery(period: ResolvedInsightsPeriod, from?: string, to?: string): string {
+  if (period.source === 'archive') {
+    return `&period=custom&from=${from}&to=${to}`;
+  }
+  return period.lastfmPeriod === '7day' ? '' : `&period=${period.lastfmPeriod}`;
+}
+
+// Shared by the live insights page and archived week permalinks
+const INSIGHTS_STYLES = `
+  .section-header {
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+    gap: 1rem;
+    margin-bottom: 1rem;
+  }
+
+  .section-header h2 {
+    margin: 0;
+  }
+
+  a.time-toggle-btn {
+    display: inline-flex;
+    align-items: center;
+    text-decoration: none;
+  }
+
+  .custom-range-note {
+    font-size: 0.85rem;
+    margin-top: 0.5rem;
+  }
+
+  .insights-history {
+    list-style: none;
+    padding: 0;
+    margin: 1rem 0 0;
+  }
+
+  .insights-history li {
+    padding: 0.5rem 0;
+    border-bottom: 1px solid rgba(var(--c-base-rgb), 0.1);
+  }
+
+  .insights-history-range {
+    color: var(--text-muted, #888);
+    font-size: 0.9rem;
+    margin-left: 0.5rem;
+  }
+
+  .fun-message {
+    font-size: 1.1rem;
+    padding: 2rem;
+    text-align: center;
+  }
+
+  .album-cards {
+    display: grid;
+    grid-template-columns: repeat(auto-fill, minmax(280px, 1fr));
+    gap: 1.5rem;
+    margin-top: 1.5rem;
+  }
+
+  .album-card {
+    display: flex;
+    gap: 1rem;
+    padding: 1rem;
+    background: var(--card-bg, #1a1a1a);
+    border-radius: 8px;
+    transition: transform 0.2s;
+  }
+
+  .album-card:hover {
+    transform: translateY(-2px);
+  }
+
+  .album-card-image-link {
+    flex-shrink: 0;
+  }
+
+  .album-card-image {
+    width: 80px;
+    height: 80px;
+    border-radius: 4px;
+    object-fit: cover;
+  }
+
+  .album-card-content {
+    display: flex;
+    flex-direction: column;
+    gap: 0.25rem;
+    min-width: 0;
+  }
+
+  .album-card-title {
+    font-weight: 600;
+    white-space: nowrap;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    color: var(--text-primary, #fff);
+  }
+
+  .album-card-title:hover {
+    text-decoration: underline;
+  }
+
+  .album-card-artist {
+    color: var(--text-muted, #888);
+    font-size: 0.9rem;
+  }
+
+  .album-card-artist:hover {
+    text-decoration: underline;
+  }
+
+  .album-card-reason {
+    font-size: 0.85rem;
+    color: var(--text-secondary, #aaa);
+    margin-top: 0.25rem;
+    line-height: 1.4;
+    margin-bottom: 0;
+  }
+
+  .button-small {
+    padding: 0.4rem 0.8rem;
+    font-size: 0.85rem;
+  }
+
+  .button-secondary {
+    background: var(--button-secondary-bg, #333);
+    color: var(--button-secondary-text, #fff);
+  }
+
+  .button-secondary:hover:not(:disabled) {
+    background: var(--button-secondary-hover, #444);
+  }
+
+  .button-secondary:disabled {
+    opacity: 0.6;
+    cursor: not-allowed;
+  }
+
+  @media (max-width: 600px) {
+    .album-cards {
+      grid-template-columns: 1fr;
+    }
+
+    .section-header {
+      flex-direction: column;
+      align-items: flex-start;
+    }
+  }
+`;
 
 interface UserInsightsPageProps {
   username: string;
@@ -17,6 +195,12 @@ interface UserInsightsPageProps {
   currentUser?: User | null;
   isOwner: boolean;
   profileVisibility?: 'public' | 'private';
+  period: ResolvedInsightsPeriod;
+  // Custom range dates as entered (YYYY-MM-DD), for the date inputs and API calls
+  customFrom?: string;
+  customTo?: string;
+  // Archived weeks (ISO week keys, newest first)
+  history: string[];
 }
 
 export function UserInsightsPage({
@@ -28,7 +212,15 @@ export function UserInsightsPage({
   currentUser,
   isOwner,
   profileVisibility,
+  period,
+  customFrom,
+  customTo,
+  history,
 }: UserInsightsPageProps) {
+  const basePath = `/u/${username}/insights`;
+  const isCustom = period.source === 'archive';
+  const today = new Date().toISOString().slice(0, 10);
+
   return (
     <Layout
       title={`Insights for ${username}`}
@@ -36,6 +228,7 @@ export function UserInsightsPage({
       url={`https://listentomore.com/u/${username}/insights`}
       internalToken={internalToken}
       currentUser={currentUser}
+      feeds={profileVisibility === 'private' ? undefined : feedLinks(`${username}'s weekly insights`, `/u/${username}/insights/feed`)}
     >
       <UserProfileHeader username={username} lastfmUsername={lastfmUsername} profileImage={profileImage} bio={bio} />
       <UserProfileNav username={username} activePage="insights" />
@@ -47,9 +240,49 @@ export function UserInsightsPage({
       )}
 
       <main>
+        {/* Period Toggle */}
+        <div class="time-toggle-container">
+          <div class="time-toggle" id="time-toggle">
+            {PERIOD_OPTIONS.map((option) => (
+              <a
+                href={option.key === '7day' ? basePath : `${basePath}?period=${option.key}`}
+                class={`time-toggle-btn${period.source === 'lastfm' && period.lastfmPeriod === option.key ? ' active' : ''}`}
+              >
+                {option.label}
+              </a>
+            ))}
+            <button id="custom-toggle" class={`time-toggle-btn${isCustom ? ' active' : ''}`}>
+              Custom
+            </button>
+          </div>
+          <form
+            id="custom-range-form"
+            class="custom-range-form"
+            method="get"
+            action={basePath}
+            style={isCustom ? undefined : { display: 'none' }}
+          >
+            <input type="hidden" name="period" value="custom" />
+            <label>
+              From <input type="date" name="from" value={customFrom} max={today} required />
+            </label>
+            <label>
+              To <input type="date" name="to" value={customTo} max={today} required />
+            </label>
+            <button type="submit" class="button button-small">
+              Apply
+            </button>
+          </form>
+          {isCustom && (
+            <p class="text-muted custom-range-note">
+              Custom ranges use your synced scrobble history, up to a year at a time.
+            </p>
+          )}
+        </div>
+
         <section id="insights">
           <div class="section-header">
-            <h2>🧠 Your Week in Music</h2>
+            <h2>🧠 {periodHeading(period)}</h2>
             {isOwner && (
               <button
                 id="refresh-btn"
@@ -74,6 +307,8 @@ export function UserInsightsPage({
             </div>
           </div>
         </section>
+
+        {history.length > 0 && <InsightsHistory username={username} weeks={history} />}
       </main>
 
       <script
@@ -83,6 +318,7 @@ export function UserInsightsPage({
 
         (function() {
           var username = ${JSON.stringify(username)};
+          var periodParams = ${JSON.stringify(periodQuery(period, customFrom, customTo))};
           var isOwner = ${isOwner};
           var refreshCooldown = 0;
           var refreshInterval = null;
@@ -94,7 +330,7 @@ export function UserInsightsPage({
           }
 
           function loadInsights(refresh) {
-            var refreshParam = refresh ? '&refresh=true' : '';
+            var refreshParam = periodParams + (refresh ? '&refresh=true' : '');
 
             // Show loading states
             document.getElementById('insights-summary').innerHTML =
@@ -226,7 +462,7 @@ export function UserInsightsPage({
             var refreshBtn = document.getElementById('refresh-btn');
             if (refreshBtn) {
               // Check server-side cooldown on page load
-              internalFetch('/api/internal/user-insights-cooldown?username=' + encodeURIComponent(username))
+              internalFetch('/api/internal/user-insights-cooldown?username=' + encodeURIComponent(username) + periodParams)
                 .then(function(r) { return r.json(); })
                 .then(function(data) {
                   if (data.canRefresh) {
@@ -254,6 +490,15 @@ export function UserInsightsPage({
             }
           }
 
+          // Custom range toggle shows the date picker
+          var customToggle = document.getElementById('custom-toggle');
+          if (customToggle) {
+            customToggle.addEventListener('click', function() {
+              var form = document.getElementById('custom-range-form');
+              if (form) form.style.display = form.style.display === 'none' ? '' : 'none';
+            });
+          }
+
           // Initial load
           loadInsights(false);
         })();
@@ -261,126 +506,146 @@ export function UserInsightsPage({
         }}
       />
 
-      <style
-        dangerouslySetInnerHTML={{
-          __html: `
-        .section-header {
-          display: flex;
-          align-items: center;
-          justify-content: space-between;
-          gap: 1rem;
-          margin-bottom: 1rem;
-        }
-
-        .section-header h2 {
-          margin: 0;
-        }
-
-        .fun-message {
-          font-size: 1.1rem;
-          padding: 2rem;
-          text-align: center;
-        }
-
-        .album-cards {
-          display: grid;
-          grid-template-columns: repeat(auto-fill, minmax(280px, 1fr));
-          gap: 1.5rem;
-          margin-top: 1.5rem;
-        }
-
-        .album-card {
-          display: flex;
-          gap: 1rem;
-          padding: 1rem;
-          background: var(--card-bg, #1a1a1a);
-          border-radius: 8px;
-          transition: transform 0.2s;
-        }
-
-        .album-card:hover {
-          transform: translateY(-2px);
-        }
-
-        .album-card-image-link {
-          flex-shrink: 0;
-        }
-
-        .album-card-image {
-          width: 80px;
-          height: 80px;
-          border-radius: 4px;
-          object-fit: cover;
-        }
-
-        .album-card-content {
-          display: flex;
-          flex-direction: column;
-          gap: 0.25rem;
-          min-width: 0;
-        }
-
-        .album-card-title {
-          font-weight: 600;
-          white-space: nowrap;
-          overflow: hidden;
-          text-overflow: ellipsis;
-          color: var(--text-primary, #fff);
-        }
-
-        .album-card-title:hover {
-          text-decoration: underline;
-        }
-
-        .album-card-artist {
-          color: var(--text-muted, #888);
-          font-size: 0.9rem;
-        }
-
-        .album-card-artist:hover {
-          text-decoration: underline;
-        }
-
-        .album-card-reason {
-          font-size: 0.85rem;
-          color: var(--text-secondary, #aaa);
-          margin-top: 0.25rem;
-          line-height: 1.4;
-          margin-bottom: 0;
-        }
-
-        .button-small {
-          padding: 0.4rem 0.8rem;
-          font-size: 0.85rem;
-        }
-
-        .button-secondary {
-          background: var(--button-secondary-bg, #333);
-          color: var(--button-secondary-text, #fff);
-        }
-
-        .button-secondary:hover:not(:disabled) {
-          background: var(--button-secondary-hover, #444);
-        }
-
-        .button-secondary:disabled {
-          opacity: 0.6;
-          cursor: not-allowed;
-        }
-
-        @media (max-width: 600px) {
-          .album-cards {
-            grid-template-columns: 1fr;
-          }
+      <style dangerouslySetInnerHTML={{ __html: INSIGHTS_STYLES }} />
+    </Layout>
+  );
+}
 
-          .section-header {
-            flex-direction: column;
-            align-items: flex-start;
-          }
-        }
-      `,
-        }}
-      />
+// Links to archived weekly insights
+function InsightsHistory({ username, weeks }: { username: string; weeks: string[] }) {
+  return (
+    <section id="insights-history-section" style={{ marginTop: '3em' }}>
+      <h2>📚 Insights History</h2>
+      <ul class="insights-history">
+        {weeks.map((week) => (
+          <li>
+            <a href={`/u/${username}/insights/${week}`}>
+              Week {parseInt(week.slice(6), 10)}, {week.slice(0, 4)}
+            </a>
+            <span class="insights-history-range">{formatIsoWeekRange(week)}</span>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+// Server-rendered version of the album cards the live page builds client-side
+function ArchivedAlbumCards({ albums }: { albums: ArchivedAlbumRecommendation[] }) {
+  return (
+    <div class="album-cards">
+      {albums.map((album) => {
+        const albumHref = album.spotifyId
+          ? `/album/${album.spotifyId}`
+          : `/album?q=${encodeURIComponent(`${album.artistName} ${album.albumName}`)}`;
+        const artistHref = album.artistSpotifyId
+          ? `/artist/${album.artistSpotifyId}`
+          : `/artist?q=${encodeURIComponent(album.artistName)}`;
+
+        return (
+          <div class="album-card">
+            <a href={albumHref} class="album-card-image-link">
+              {album.albumArt ? (
+                <img src={album.albumArt} alt={album.albumName} class="album-card-image" loading="lazy" />
+              ) : (
+                <div class="album-card-image placeholder-image"></div>
+              )}
+            </a>
+            <div class="album-card-content">
+              <a href={albumHref} class="album-card-title">
+                {album.albumName}
+              </a>
+              <a href={artistHref} class="album-card-artist">
+                {album.artistName}
+              </a>
+              <p class="album-card-reason">{album.reason}</p>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+interface UserInsightsWeekPageProps {
+  username: string;
+  lastfmUsername: string;
+  profileImage?: string;
+  bio?: string | null;
+  internalToken?: string;
+  currentUser?: User | null;
+  week: string;
+  summary: string | null;
+  recommendations: ArchivedAlbumRecommendation[];
+  history: string[];
+}
+
+export function UserInsightsWeekPage({
+  username,
+  lastfmUsername,
+  profileImage,
+  bio,
+  internalToken,
+  currentUser,
+  week,
+  summary,
+  recommendations,
+  history,
+}: UserInsightsWeekPageProps) {
+  const range = formatIsoWeekRange(week);
+
+  return (
+    <Layout
+      title={`Insights for ${username}, ${week}`}
+      description={`${username}'s listening insights for ${range}`}
+      url={`https://listentomore.com/u/${username}/insights/${week}`}
+      internalToken={internalToken}
+      currentUser={currentUser}
+    >
+      <UserProfileHeader username={username} lastfmUsername={lastfmUsername} profileImage={profileImage} bio={bio} />
+      <UserProfileNav username={username} activePage="insights" />
+
+      <main>
+        <p>
+          <a href={`/u/${username}/insights`}>← Back to this week's insights</a>
+        </p>
+
+        <section id="insights">
+          <h2>🧠 {range}</h2>
+          {summary ? (
+            <div id="insights-summary" />
+          ) : (
+            <p class="text-muted">No insights were saved for this week.</p>
+          )}
+
+          {recommendations.length > 0 && (
+            <>
+              <h2 style={{ marginTop: '3em' }}>💿 Albums to Explore</h2>
+              <ArchivedAlbumCards albums={recommendations} />
+            </>
+          )}
+        </section>
+
+        {history.length > 0 && <InsightsHistory username={username} weeks={history} />}
+      </main>
+
+      {summary && (
+        <script
+          dangerouslySetInnerHTML={{
+            __html: `
+          ${enrichLinksScript}
+
+          (function() {
+            var summary = ${JSON.stringify(summary).replace(/</g, '\\u003c')};
+            document.getElementById('insights-summary').innerHTML = marked.parse(summary);
+            enrichLinks('insights-summary');
+          })();
+        `,
+          }}
+        />
+      )}
+
+      <style dangerouslySetInnerHTML={{ __html: INSIGHTS_STYLES }} />
     </Layout>
   );
 }
@@ -448,6 +713,23 @@ function PrivateProfile({
   );
 }
 
+// Fetch Last.fm user info for profile picture
+async function getProfileImage(c: Context, lastfmUsername: string): Promise<string | undefined> {
+  try {
+    const { LastfmService } = await import('@listentomore/lastfm');
+    const lastfm = new LastfmService({
+      apiKey: c.env.LASTFM_API_KEY,
+      username: lastfmUsername,
+      cache: c.env.CACHE,
+    });
+    const userInfo = await lastfm.getUserInfo();
+    return userInfo.image || undefined;
+  } catch (error) {
+    console.error('Failed to fetch Last.fm user info:', error);
+    return undefined;
+  }
+}
+
 // Route handler
 export async function handleUserInsights(c: Context) {
   const username = c.req.param('username');
@@ -467,6 +749,12 @@ export async function handleUserInsights(c: Context) {
 
   const isOwner = currentUser?.id === user.id;
 
+  const query = { period: c.req.query('period'), from: c.req.query('from'), to: c.req.query('to') };
+  const period = parseInsightsPeriod(query);
+  if ('error' in period) {
+    return c.redirect(`/u/${user.username || user.lastfm_username}/insights`);
+  }
+
   // Check privacy - if private and not the owner, show private profile page
   if (user.profile_visibility === 'private' && !isOwner) {
     return c.html(
@@ -474,20 +762,10 @@ export async function handleUserInsights(c: Context) {
     );
   }
 
-  // Fetch Last.fm user info for profile picture
-  let profileImage: string | undefined;
-  try {
-    const { LastfmService } = await import('@listentomore/lastfm');
-    const lastfm = new LastfmService({
-      apiKey: c.env.LASTFM_API_KEY,
-      username: user.lastfm_username,
-      cache: c.env.CACHE,
-    });
-    const userInfo = await lastfm.getUserInfo();
-    profileImage = userInfo.image || undefined;
-  } catch (error) {
-    console.error('Failed to fetch Last.fm user info:', error);
-  }
+  const [profileImage, history] = await Promise.all([
+    getProfileImage(c, user.lastfm_username),
+    db.getWeeklyInsightsHistory(user.id),
+  ]);
 
   return c.html(
     <UserInsightsPage
@@ -499,6 +777,64 @@ export async function handleUserInsights(c: Context) {
       currentUser={currentUser}
       isOwner={isOwner}
       profileVisibility={user.profile_visibility}
+      period={period}
+      customFrom={query.from}
+      customTo={query.to}
+      history={history.map((h) => h.week)}
     />
   );
 }
+
+// Route handler for archived weeks: /u/:username/insights/:week (e.g. 2026-W41)
+export async function handleUserInsightsWeek(c: Context) {
+  const username = c.req.param('username');
+  const week = c.req.param('week');
+  const db = c.get('db') as Database;
+  const internalToken = c.get('internalToken') as string;
+  const currentUser = c.get('currentUser') as User | null;
+
+  let user = await db.getUserByLastfmUsername(username);
+  if (!user) {
+    user = await db.getUserByUsername(username);
+  }
+
+  if (!user || !user.lastfm_username) {
+    return c.html(<UserNotFound username={username} />, 404);
+  }
+
+  const isOwner = currentUser?.id === user.id;
+
+  if (user.profile_visibility === 'private' && !isOwner) {
+    return c.html(
+      <PrivateProfile username={user.lastfm_username} currentUser={currentUser} />
+    );
+  }
+
+  const profileUsername = user.username || user.lastfm_username;
+  if (!parseIsoWeek(week)) {
+    return c.redirect(`/u/${profileUsername}/insights`);
+  }
+
+  const [profileImage, archived, history] = await Promise.all([
+    getProfileImage(c, user.lastfm_username),
+    db.getWeeklyInsights(user.id, week),
+    db.getWeeklyInsightsHistory(user.id),
+  ]);
+  const insights = archived ? parseWeeklyInsights(archived) : null;
+
+  return c.html(
+    <UserInsightsWeekPage
+      username={profileUsername}
+      lastfmUsername={user.lastfm_username}
+      profileImage={profileImage}
+      bio={user.bio}
+      internalToken={internalToken}
+      currentUser={currentUser}
+      week={week}
+      summary={insights?.summary ?? null}
+      recommendations={insights?.recommendations ?? []}
+      history={history.map((h) => h.week)}
+    />,
+    insights?.summary ? 200 : 404
+  );
+}
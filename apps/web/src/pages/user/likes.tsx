@@ -5,9 +5,12 @@ import type { Context } from 'hono';
 import { Layout } from '../../components/layout';
 import { UserProfileNav } from '../../components/layout/UserProfileNav';
 import { UserProfileHeader } from '../../components/layout/UserProfileHeader';
-import { enrichLinksScript } from '../../utils/client-scripts';
-import type { Database, User } from '@listentomore/db';
+import { LoveButton } from '../../components/ui';
+import { enrichLinksScript, loveButtonsScript } from '../../utils/client-scripts';
+import { feedLinks } from '../../utils/feeds';
+import type { Database, ListeningSource, User } from '@listentomore/db';
 import type { TopArtist, LovedTrack } from '@listentomore/lastfm';
+import { getListeningProvider, listeningProfileUrl, LISTENING_SOURCE_LABELS } from '../../utils/listening-provider';
 
 interface UserLikesPageProps {
   username: string;
@@ -16,6 +19,8 @@ interface UserLikesPageProps {
   bio?: string | null;
   lovedTracks: LovedTrack[];
   topArtists: TopArtist[];
+  listeningSource: ListeningSource;
+  listeningUsername: string;
   internalToken?: string;
   currentUser?: User | null;
   isOwner?: boolean;
@@ -29,6 +34,8 @@ export function UserLikesPage({
   bio,
   lovedTracks,
   topArtists,
+  listeningSource,
+  listeningUsername,
   internalToken,
   currentUser,
   isOwner,
@@ -36,6 +43,8 @@ export function UserLikesPage({
 }: UserLikesPageProps) {
   const hasLovedTracks = lovedTracks.length > 0;
   const hasTopArtists = topArtists.length > 0;
+  const sourceLabel = LISTENING_SOURCE_LABELS[listeningSource];
+  const sourceProfileUrl = listeningProfileUrl(listeningSource, listeningUsername);
 
   // Get most recent loved track date for display
   const lastUpdated = lovedTracks[0]?.dateLiked || null;
@@ -47,6 +56,7 @@ export function UserLikesPage({
       url={`https://listentomore.com/u/${username}/likes`}
       internalToken={internalToken}
       currentUser={currentUser}
+      feeds={profileVisibility === 'private' ? undefined : feedLinks(`${username}'s likes`, `/u/${username}/likes/feed`)}
     >
       <UserProfileHeader username={username} lastfmUsername={lastfmUsername} profileImage={profileImage} bio={bio} />
       <UserProfileNav username={username} activePage="likes" />
@@ -62,7 +72,7 @@ export function UserLikesPage({
           {/* Loved Tracks Section */}
           <h2>❤️ Recent Favorites</h2>
           <p class="text-center">
-            <strong>Tracks {username} recently loved on Last.fm</strong>
+            <strong>Tracks {username} recently loved on {sourceLabel}</strong>
             {lastUpdated && (
               <>
                 <br />
@@ -86,6 +96,13 @@ export function UserLikesPage({
                   </div>
                   <div class="track-item-content">
                     <p>
+                      {currentUser && (
+                        <LoveButton
+                          artist={track.artist}
+                          track={track.title}
+                          loved={isOwner && listeningSource === 'lastfm' ? true : undefined}
+                        />
+                      )}
                       <strong>{track.title}</strong> by{' '}
                       <a href={`/artist?q=${encodeURIComponent(track.artist)}`}>{track.artist}</a>
                       <span id={`loved-links-${index}`} class="track-links"></span>
@@ -100,8 +117,8 @@ export function UserLikesPage({
           ) : (
             <p class="text-center text-muted">
               No loved tracks found.{' '}
-              <a href={`https://www.last.fm/user/${lastfmUsername}`} target="_blank" rel="noopener noreferrer">
-                Love some tracks on Last.fm
+              <a href={sourceProfileUrl} target="_blank" rel="noopener noreferrer">
+                Love some tracks on {sourceLabel}
               </a>{' '}
               to see them here!
             </p>
@@ -122,8 +139,8 @@ export function UserLikesPage({
           ) : (
             <p class="text-center text-muted">
               We need more listening data to generate recommendations.{' '}
-              <a href={`https://www.last.fm/user/${lastfmUsername}`} target="_blank" rel="noopener noreferrer">
-                Listen to more music on Last.fm
+              <a href={sourceProfileUrl} target="_blank" rel="noopener noreferrer">
+                Listen to more music on {sourceLabel}
               </a>{' '}
               and check back later!
             </p>
@@ -134,6 +151,7 @@ export function UserLikesPage({
       {/* Progressive loading scripts */}
       <script dangerouslySetInnerHTML={{ __html: `
         ${enrichLinksScript}
+        ${loveButtonsScript}
 
         (function() {
           var username = ${JSON.stringify(username)};
@@ -142,6 +160,9 @@ export function UserLikesPage({
           // Enrich artist links with Spotify IDs
           enrichLinks('loved-tracks');
 
+          // Hearts reflect the signed-in viewer's Last.fm loves (already known when the owner's list is from Last.fm)
+          initLoveButtons('loved-tracks');
+
           // Fetch artist sentences and streaming links for loved tracks
           lovedTracks.forEach(function(track, index) {
             // Fetch artist sentence
@@ -304,18 +325,19 @@ export async function handleUserLikes(c: Context) {
     );
   }
 
-  // Create a LastfmService for this user's Last.fm account
+  // Loved tracks and top artists come from the user's listening source; the avatar from Last.fm
   const { LastfmService } = await import('@listentomore/lastfm');
   const lastfm = new LastfmService({
     apiKey: c.env.LASTFM_API_KEY,
     username: user.lastfm_username,
     cache: c.env.CACHE,
   });
+  const listening = getListeningProvider(user, c.env)!;
 
   // Fetch loved tracks, top artists, and user info in parallel
   const [lovedTracks, topArtists, userInfo] = await Promise.all([
-    lastfm.getLovedTracks(5).catch(() => []),
-    lastfm.getTopArtists('7day', 6).catch(() => []),
+    listening.provider.getLovedTracks(5).catch(() => []),
+    listening.provider.getTopArtists('7day', 6).catch(() => []),
     lastfm.getUserInfo().catch(() => null),
   ]);
 
@@ -329,6 +351,8 @@ export async function handleUserLikes(c: Context) {
       bio={user.bio}
       lovedTracks={lovedTracks}
       topArtists={topArtists}
+      listeningSource={listening.source}
+      listeningUsername={listening.username}
       internalToken={internalToken}
       currentUser={currentUser}
       isOwner={isOwner}
@@ -1,4 +1,4 @@
-// User stats page - displays Last.fm listening statistics
+// User stats page - displays listening statistics from Last.fm or ListenBrainz
 // URL: /u/:username
 
 import type { Context } from 'hono';
@@ -6,6 +6,8 @@ import { Layout } from '../../components/layout';
 import { UserProfileNav } from '../../components/layout/UserProfileNav';
 import { UserProfileHeader } from '../../components/layout/UserProfileHeader';
 import { enrichLinksScript } from '../../utils/client-scripts';
+import { feedLinks } from '../../utils/feeds';
+import { getListeningSource } from '../../utils/listening-provider';
 import type { Database, User } from '@listentomore/db';
 import { LastfmService } from '@listentomore/lastfm';
 
@@ -18,9 +20,14 @@ interface UserStatsPageProps {
   currentUser?: User | null;
   isOwner?: boolean;
   profileVisibility?: 'public' | 'private';
+  hasCollection?: boolean;
+  /** Custom date ranges use Last.fm weekly charts, so they're only offered for Last.fm users */
+  customRanges?: boolean;
 }
 
-export function UserStatsPage({ username, lastfmUsername, profileImage, bio, internalToken, currentUser, isOwner, profileVisibility }: UserStatsPageProps) {
+export function UserStatsPage({ username, lastfmUsername, profileImage, bio, internalToken, currentUser, isOwner, profileVisibility, hasCollection, customRanges }: UserStatsPageProps) {
+  const today = new Date().toISOString().slice(0, 10);
+
   return (
     <Layout
       title={`${username}'s Stats`}
@@ -29,10 +36,19 @@ export function UserStatsPage({ username, lastfmUsername, profileImage, bio, int
       image={profileImage}
       internalToken={internalToken}
       currentUser={currentUser}
+      feeds={profileVisibility === 'private' ? undefined : feedLinks(`${username}'s listening`, `/u/${username}/feed`)}
     >
       <UserProfileHeader username={username} lastfmUsername={lastfmUsername} profileImage={profileImage} bio={bio} />
       <UserProfileNav username={username} activePage="stats" />
 
+      {currentUser?.lastfm_username && !isOwner && (
+        <p class="text-center">
+          <a href={`/u/${currentUser.username || currentUser.lastfm_username}/compare/${username}`}>
+            🤝 Compare your taste with {username}
+          </a>
+        </p>
+      )}
+
       {isOwner && profileVisibility === 'private' && (
         <div class="notice notice-info" style={{ marginBottom: '1.5rem', padding: '1rem', backgroundColor: 'rgba(var(--c-accent-rgb), 0.1)', borderRadius: '8px', textAlign: 'center' }}>
           🔒 Only you can see your profile. Go to <a href="/account">Account Settings</a> to make it public.
@@ -55,7 +71,23 @@ export function UserStatsPage({ username, lastfmUsername, profileImage, bio, int
               <button class="time-toggle-btn active" data-period="7day">7 days</button>
               <button class="time-toggle-btn" data-period="1month">1 month</button>
               <button class="time-toggle-btn" data-period="12month">1 year</button>
+              {customRanges && (
+                <button class="time-toggle-btn" data-period="custom">Custom</button>
+              )}
             </div>
+            {customRanges && (
+              <form id="custom-range-form" class="custom-range-form" style={{ display: 'none' }}>
+                <label>
+                  From <input type="date" name="from" max={today} required />
+                </label>
+                <label>
+                  To <input type="date" name="to" max={today} required />
+                </label>
+                <button type="submit" class="button button-small">
+                  Apply
+                </button>
+              </form>
+            )}
           </div>
 
           {/* Top Artists */}
@@ -81,16 +113,64 @@ export function UserStatsPage({ username, lastfmUsername, profileImage, bio, int
               <span class="loading-text">Loading top albums...</span>
             </div>
           </div>
+
+          {/* Top Tracks */}
+          <h2 style={{ marginTop: '4em' }}>🎵 Top Tracks</h2>
+          <p class="text-center" id="top-tracks-subtitle">
+            <strong>Top tracks in the past 7 days.</strong>
+          </p>
+          <div id="top-tracks">
+            <div class="loading-container">
+              <span class="spinner">↻</span>
+              <span class="loading-text">Loading top tracks...</span>
+            </div>
+          </div>
+
+          {/* Genre breakdown */}
+          <h2 style={{ marginTop: '4em' }}>🎼 Genres</h2>
+          <p class="text-center" id="taste-profile-subtitle">
+            <strong>Genres in the past 7 days, based on top artist tags.</strong>
+          </p>
+          <div id="taste-profile">
+            <div class="loading-container">
+              <span class="spinner">↻</span>
+              <span class="loading-text">Loading genres...</span>
+            </div>
+          </div>
         </section>
+
+        {hasCollection && (
+          <section id="unplayed-records">
+            <h2 style={{ marginTop: '4em' }}>💿 Owned but Unplayed</h2>
+            <p class="text-center" id="unplayed-records-subtitle">
+              <strong>Records in the collection with no plays on Last.fm.</strong>
+            </p>
+            <div id="unplayed-records-grid">
+              <div class="loading-container">
+                <span class="spinner">↻</span>
+                <span class="loading-text">Checking the shelf...</span>
+              </div>
+            </div>
+          </section>
+        )}
       </main>
 
-      {/* Progressive loading for stats data - 3 parallel fetches */}
+      {/* Progressive loading for stats data - parallel fetches per section */}
       <script dangerouslySetInnerHTML={{ __html: `
         ${enrichLinksScript}
 
         (function() {
           var username = ${JSON.stringify(username)};
-          var currentPeriod = new URLSearchParams(window.location.search).get('period') || '7day';
+          var params = new URLSearchParams(window.location.search);
+          var currentPeriod = params.get('period') || '7day';
+          var customFrom = params.get('from') || '';
+          var customTo = params.get('to') || '';
+          var customForm = document.getElementById('custom-range-form');
+
+          // The custom range picker is only rendered for Last.fm users
+          if (currentPeriod === 'custom' && (!customForm || !customFrom || !customTo)) {
+            currentPeriod = '7day';
+          }
 
           // Period labels for UI
           var periodLabels = {
@@ -99,6 +179,27 @@ export function UserStatsPage({ username, lastfmUsername, profileImage, bio, int
             '12month': 'year'
           };
 
+          function formatDate(value) {
+            return new Date(value + 'T00:00:00Z').toLocaleDateString('en-US', {
+              month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC'
+            });
+          }
+
+          function periodLabel(period) {
+            if (period === 'custom') {
+              return 'between ' + formatDate(customFrom) + ' and ' + formatDate(customTo);
+            }
+            return 'in the past ' + periodLabels[period];
+          }
+
+          function periodQuery(period) {
+            var query = '&period=' + period;
+            if (period === 'custom') {
+              query += '&from=' + customFrom + '&to=' + customTo;
+            }
+            return query;
+          }
+
           // Initialize toggle state from URL
           function initToggle() {
             var buttons = document.querySelectorAll('.time-toggle-btn');
@@ -108,11 +209,34 @@ export function UserStatsPage({ username, lastfmUsername, profileImage, bio, int
                 btn.classList.add('active');
               }
               btn.addEventListener('click', function() {
+                if (this.dataset.period === 'custom') {
+                  // Pick dates first; the range loads on Apply
+                  customForm.style.display = '';
+                  return;
+                }
                 if (this.dataset.period !== currentPeriod) {
+                  if (customForm) customForm.style.display = 'none';
                   switchPeriod(this.dataset.period);
                 }
               });
             });
+
+            if (customForm) {
+              customForm.elements.from.value = customFrom;
+              customForm.elements.to.value = customTo;
+              if (currentPeriod === 'custom') customForm.style.display = '';
+
+              customForm.addEventListener('submit', function(e) {
+                e.preventDefault();
+                var from = customForm.elements.from.value;
+                var to = customForm.elements.to.value;
+                if (!from || !to) return;
+                // Accept the dates in either order
+                customFrom = from < to ? from : to;
+                customTo = from < to ? to : from;
+                switchPeriod('custom');
+              });
+            }
           }
 
           function switchPeriod(period) {
@@ -121,6 +245,13 @@ export function UserStatsPage({ username, lastfmUsername, profileImage, bio, int
             // Update URL without reload
             var url = new URL(window.location);
             url.searchParams.set('period', period);
+            if (period === 'custom') {
+              url.searchParams.set('from', customFrom);
+              url.searchParams.set('to', customTo);
+            } else {
+              url.searchParams.delete('from');
+              url.searchParams.delete('to');
+            }
             history.pushState({}, '', url);
 
             // Update toggle UI
@@ -138,24 +269,36 @@ export function UserStatsPage({ username, lastfmUsername, profileImage, bio, int
             // Fetch new data
             fetchTopArtists(period);
             fetchTopAlbums(period);
+            fetchTopTracks(period);
+            fetchTasteProfile(period);
           }
 
           function updateSubtitles(period) {
-            var label = periodLabels[period];
+            var label = periodLabel(period);
             var artistsSubtitle = document.getElementById('top-artists-subtitle');
             var albumsSubtitle = document.getElementById('top-albums-subtitle');
+            var tracksSubtitle = document.getElementById('top-tracks-subtitle');
+            var genresSubtitle = document.getElementById('taste-profile-subtitle');
 
             if (artistsSubtitle) {
-              artistsSubtitle.innerHTML = '<strong>Top artists in the past ' + label + '.</strong>';
+              artistsSubtitle.innerHTML = '<strong>Top artists ' + label + '.</strong>';
             }
             if (albumsSubtitle) {
-              albumsSubtitle.innerHTML = '<strong>Top albums in the past ' + label + '.</strong>';
+              albumsSubtitle.innerHTML = '<strong>Top albums ' + label + '.</strong>';
+            }
+            if (tracksSubtitle) {
+              tracksSubtitle.innerHTML = '<strong>Top tracks ' + label + '.</strong>';
+            }
+            if (genresSubtitle) {
+              genresSubtitle.innerHTML = '<strong>Genres ' + label + ', based on top artist tags.</strong>';
             }
           }
 
           function showLoading() {
             var artistsEl = document.getElementById('top-artists');
             var albumsEl = document.getElementById('top-albums');
+            var tracksEl = document.getElementById('top-tracks');
+            var genresEl = document.getElementById('taste-profile');
 
             if (artistsEl) {
               artistsEl.innerHTML = '<div class="loading-container"><span class="spinner">↻</span><span class="loading-text">Loading top artists...</span></div>';
@@ -163,6 +306,18 @@ export function UserStatsPage({ username, lastfmUsername, profileImage, bio, int
             if (albumsEl) {
               albumsEl.innerHTML = '<div class="loading-container"><span class="spinner">↻</span><span class="loading-text">Loading top albums...</span></div>';
             }
+            if (tracksEl) {
+              tracksEl.innerHTML = '<div class="loading-container"><span class="spinner">↻</span><span class="loading-text">Loading top tracks...</span></div>';
+            }
+            if (genresEl) {
+              genresEl.innerHTML = '<div class="loading-container"><span class="spinner">↻</span><span class="loading-text">Loading genres...</span></div>';
+            }
+          }
+
+          // Custom range errors (e.g. a range over a year) are worth showing as-is
+          function loadError(result, fallback) {
+            var message = currentPeriod === 'custom' && result.error ? result.error : fallback;
+            return '<p class="text-center text-muted">' + escapeHtml(message) + '</p>';
           }
 
           function enableToggleButtons() {
@@ -172,14 +327,14 @@ export function UserStatsPage({ username, lastfmUsername, profileImage, bio, int
           }
 
           function fetchTopArtists(period) {
-            internalFetch('/api/internal/user-top-artists?username=' + encodeURIComponent(username) + '&period=' + period)
+            internalFetch('/api/internal/user-top-artists?username=' + encodeURIComponent(username) + periodQuery(period))
               .then(function(r) { return r.json(); })
               .then(function(result) {
                 var artistsEl = document.getElementById('top-artists');
                 if (!artistsEl) return;
 
                 if (result.error) {
-                  artistsEl.innerHTML = '<p class="text-center text-muted">Failed to load top artists.</p>';
+                  artistsEl.innerHTML = loadError(result, 'Failed to load top artists.');
                   return;
                 }
 
@@ -209,14 +364,14 @@ export function UserStatsPage({ username, lastfmUsername, profileImage, bio, int
           }
 
           function fetchTopAlbums(period) {
-            internalFetch('/api/internal/user-top-albums?username=' + encodeURIComponent(username) + '&period=' + period)
+            internalFetch('/api/internal/user-top-albums?username=' + encodeURIComponent(username) + periodQuery(period))
               .then(function(r) { return r.json(); })
               .then(function(result) {
                 var albumsEl = document.getElementById('top-albums');
                 if (!albumsEl) return;
 
                 if (result.error) {
-                  albumsEl.innerHTML = '<p class="text-center text-muted">Failed to load top albums.</p>';
+                  albumsEl.innerHTML = loadError(result, 'Failed to load top albums.');
                   return;
                 }
 
@@ -248,6 +403,65 @@ export function UserStatsPage({ username, lastfmUsername, profileImage, bio, int
               });
           }
 
+          function fetchTopTracks(period) {
+            internalFetch('/api/internal/user-top-tracks?username=' + encodeURIComponent(username) + periodQuery(period))
+              .then(function(r) { return r.json(); })
+              .then(function(result) {
+                var tracksEl = document.getElementById('top-tracks');
+                if (!tracksEl) return;
+
+                if (result.error) {
+                  tracksEl.innerHTML = loadError(result, 'Failed to load top tracks.');
+                  return;
+                }
+
+                var topTracks = result.data;
+                if (topTracks && topTracks.length > 0) {
+                  tracksEl.innerHTML = renderTrackList(topTracks);
+                  enrichLinks('top-tracks');
+                } else {
+                  tracksEl.innerHTML = '<p class="text-center text-muted">No listening data for this period. Try a longer time range!</p>';
+                }
+              })
+              .catch(function(err) {
+                console.error('Failed to load top tracks:', err);
+                var el = document.getElementById('top-tracks');
+                if (el) el.innerHTML = '<p class="text-center text-muted">Failed to load top tracks.</p>';
+              })
+              .finally(function() {
+                enableToggleButtons();
+              });
+          }
+
+          function fetchTasteProfile(period) {
+            internalFetch('/api/internal/user-taste-profile?username=' + encodeURIComponent(username) + periodQuery(period))
+              .then(function(r) { return r.json(); })
+              .then(function(result) {
+                var genresEl = document.getElementById('taste-profile');
+                if (!genresEl) return;
+
+                if (result.error) {
+                  genresEl.innerHTML = loadError(result, 'Failed to load genres.');
+                  return;
+                }
+
+                var genres = result.data;
+                if (genres && genres.length > 0) {
+                  genresEl.innerHTML = renderGenreBreakdown(genres);
+                } else {
+                  genresEl.innerHTML = '<p class="text-center text-muted">No genre tags for these artists. Try a longer time range!</p>';
+                }
+              })
+              .catch(function(err) {
+                console.error('Failed to load genres:', err);
+                var el = document.getElementById('taste-profile');
+                if (el) el.innerHTML = '<p class="text-center text-muted">Failed to load genres.</p>';
+              })
+              .finally(function() {
+                enableToggleButtons();
+              });
+          }
+
           // Fetch recent track (fastest - renders first)
           internalFetch('/api/internal/user-recent-track?username=' + encodeURIComponent(username))
             .then(function(r) { return r.json(); })
@@ -285,6 +499,65 @@ export function UserStatsPage({ username, lastfmUsername, profileImage, bio, int
           updateSubtitles(currentPeriod);
           fetchTopArtists(currentPeriod);
           fetchTopAlbums(currentPeriod);
+          fetchTopTracks(currentPeriod);
+          fetchTasteProfile(currentPeriod);
+
+          // Owned but unplayed (only rendered when the user has a Discogs collection)
+          if (document.getElementById('unplayed-records-grid')) {
+            fetchUnplayedRecords();
+          }
+
+          function fetchUnplayedRecords() {
+            var MAX_SHOWN = 12;
+            internalFetch('/api/internal/user-unplayed-records?username=' + encodeURIComponent(username))
+              .then(function(r) { return r.json(); })
+              .then(function(result) {
+                var gridEl = document.getElementById('unplayed-records-grid');
+                var subtitleEl = document.getElementById('unplayed-records-subtitle');
+                if (!gridEl) return;
+
+                if (result.error) {
+                  gridEl.innerHTML = '<p class="text-center text-muted">Failed to load unplayed records.</p>';
+                  return;
+                }
+
+                var report = result.data;
+                if (!report) {
+                  gridEl.innerHTML = '<p class="text-center text-muted">The collection has not been synced yet.</p>';
+                  return;
+                }
+
+                if (subtitleEl) {
+                  subtitleEl.innerHTML = '<strong>' + report.unplayed.length + ' of ' + report.totalReleases +
+                    ' records in the collection have no plays on Last.fm.</strong>' +
+                    (report.unplayed.length > MAX_SHOWN ? ' Showing the ones on the shelf the longest.' : '') +
+                    ' <a href="/u/' + encodeURIComponent(username) + '/collection">Browse the collection →</a>';
+                }
+
+                if (report.unplayed.length === 0) {
+                  gridEl.innerHTML = '<p class="text-center text-muted">Every record in the collection has been played. Impressive!</p>';
+                  return;
+                }
+
+                gridEl.innerHTML = renderTrackGrid(report.unplayed.slice(0, MAX_SHOWN).map(function(record) {
+                  return {
+                    title: record.title,
+                    subtitle: record.artist,
+                    extra: [record.year, record.format].filter(Boolean).join(' · '),
+                    image: record.image,
+                    href: '/album?q=' + encodeURIComponent(record.artist + ' ' + record.title),
+                    dataArtist: record.artist,
+                    dataAlbum: record.title
+                  };
+                }));
+                enrichLinks('unplayed-records-grid');
+              })
+              .catch(function(err) {
+                console.error('Failed to load unplayed records:', err);
+                var el = document.getElementById('unplayed-records-grid');
+                if (el) el.innerHTML = '<p class="text-center text-muted">Failed to load unplayed records.</p>';
+              });
+          }
 
           function escapeHtml(str) {
             var div = document.createElement('div');
@@ -318,6 +591,37 @@ export function UserStatsPage({ username, lastfmUsername, profileImage, bio, int
             return html;
           }
 
+          // Last.fm has no track artwork, so top tracks are a numbered list rather than a grid
+          function renderTrackList(tracks) {
+            var html = '<ol class="top-tracks-list">';
+            tracks.forEach(function(track) {
+              var name = track.url
+                ? '<a href="' + escapeHtml(track.url) + '" target="_blank" rel="noopener noreferrer"><strong>' + escapeHtml(track.name) + '</strong></a>'
+                : '<strong>' + escapeHtml(track.name) + '</strong>';
+              html += '<li>' + name + ' by ' +
+                '<a href="/artist?q=' + encodeURIComponent(track.artist) + '">' + escapeHtml(track.artist) + '</a>' +
+                ' <span class="text-muted">· ' + track.playcount + ' plays</span></li>';
+            });
+            html += '</ol>';
+            return html;
+          }
+
+          // One bar per genre, sized by its share of the weighted plays
+          function renderGenreBreakdown(genres) {
+            var html = '<ul class="genre-breakdown">';
+            genres.forEach(function(genre) {
+              html += '<li>' +
+                '<div class="genre-breakdown-label">' +
+                '<a href="/genre/' + encodeURIComponent(genre.slug) + '"><strong>' + escapeHtml(genre.name) + '</strong></a>' +
+                ' <span class="text-muted">· ' + genre.share + '%</span></div>' +
+                '<div class="genre-breakdown-bar"><span style="width: ' + genre.share + '%"></span></div>' +
+                '<div class="genre-breakdown-artists text-muted">' + genre.artists.map(escapeHtml).join(', ') + '</div>' +
+                '</li>';
+            });
+            html += '</ul>';
+            return html;
+          }
+
           function fetchArtistSentence(artistName) {
             internalFetch('/api/internal/artist-sentence?name=' + encodeURIComponent(artistName))
               .then(function(r) { return r.json(); })
@@ -441,6 +745,8 @@ export async function handleUserStats(c: Context) {
       currentUser={currentUser}
       isOwner={isOwner}
       profileVisibility={user.profile_visibility}
+      hasCollection={!!user.discogs_username}
+      customRanges={getListeningSource(user)?.source === 'lastfm'}
     />
   );
 }
@@ -0,0 +1,400 @@
+// User year in review page - a calendar year of listening from the scrobble archive
+// URL: /u/:username/year/:year
+
+import type { Context } from 'hono';
+import { Layout } from '../../components/layout';
+import { UserProfileNav } from '../../components/layout/UserProfileNav';
+import { UserProfileHeader } from '../../components/layout/UserProfileHeader';
+import { SignInGate, TrackCard } from '../../components/ui';
+import { enrichLinksScript } from '../../utils/client-scripts';
+import { getYearInReview, isValidReviewYear, FIRST_YEAR, type YearInReview } from '../../utils/year-in-review';
+import type { Database, User } from '@listentomore/db';
+import { LastfmService } from '@listentomore/lastfm';
+
+interface UserYearPageProps {
+  username: string;
+  lastfmUsername: string;
+  profileImage?: string;
+  bio?: string | null;
+  internalToken?: string;
+  currentUser?: User | null;
+  isOwner?: boolean;
+  profileVisibility?: 'public' | 'private';
+  review: YearInReview;
+}
+
+function formatDay(day: string): string {
+  return new Date(`${day}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+function StatTile({ value, label }: { value: string; label: string }) {
+  return (
+    <div class="year-stat">
+      <p class="year-stat-value">{value}</p>
+      <p class="year-stat-label text-muted">{label}</p>
+    </div>
+  );
+}
+
+export function UserYearPage({
+  username,
+  lastfmUsername,
+  profileImage,
+  bio,
+  internalToken,
+  currentUser,
+  isOwner,
+  profileVisibility,
+  review,
+}: UserYearPageProps) {
+  const { year } = review;
+  const currentYear = new Date().getUTCFullYear();
+  const maxMonthlyPlays = Math.max(...review.monthlyPlays.map((m) => m.playcount), 1);
+  const hasPlays = review.totalPlays > 0;
+
+  return (
+    <Layout
+      title={`${username}'s ${year} in Music`}
+      description={`${username}'s year in review for ${year}: top artists, albums, tracks and discoveries`}
+      url={`https://listentomore.com/u/${username}/year/${year}`}
+      image={profileImage}
+      internalToken={internalToken}
+      currentUser={currentUser}
+    >
+      <UserProfileHeader username={username} lastfmUsername={lastfmUsername} profileImage={profileImage} bio={bio} />
+      <UserProfileNav username={username} activePage="year" />
+
+      {isOwner && profileVisibility === 'private' && (
+        <div class="notice notice-info" style={{ marginBottom: '1.5rem', padding: '1rem', backgroundColor: 'rgba(var(--c-accent-rgb), 0.1)', borderRadius: '8px', textAlign: 'center' }}>
+          🔒 Only you can see your profile. Go to <a href="/account">Account Settings</a> to make it public.
+        </div>
+      )}
+
+      <main>
+        <section id="year-in-review">
+          <h2>🗓️ {review.inProgress ? `${year} So Far` : `${year} in Music`}</h2>
+
+          <p class="text-center">
+            {year > FIRST_YEAR && <a href={`/u/${username}/year/${year - 1}`}>← {year - 1}</a>}
+            {year > FIRST_YEAR && year < currentYear && ' · '}
+            {year < currentYear && <a href={`/u/${username}/year/${year + 1}`}>{year + 1} →</a>}
+          </p>
+
+          {!review.historyComplete && (
+            <p class="text-center text-muted">
+              Listening history is still being imported from Last.fm, so these numbers may grow over the next few hours.
+            </p>
+          )}
+
+          {hasPlays ? (
+            <>
+              <div class="year-stats">
+                <StatTile value={review.totalPlays.toLocaleString()} label="plays" />
+                <StatTile value={review.daysListened.toLocaleString()} label="days with music" />
+                {review.newArtistCount !== null && (
+                  <StatTile value={review.newArtistCount.toLocaleString()} label="new artists" />
+                )}
+                {review.longestStreak && (
+                  <StatTile value={`${review.longestStreak.days} days`} label="longest streak" />
+                )}
+                {review.busiestMonth && <StatTile value={review.busiestMonth.label} label="busiest month" />}
+              </div>
+
+              <SignInGate currentUser={currentUser ?? null} currentPath={`/u/${username}/year/${year}`}>
+                <div id="year-narrative" class="ai-summary">
+                  <p class="text-muted">
+                    <span class="loading-inline">Writing the story of your year...</span>
+                  </p>
+                </div>
+              </SignInGate>
+
+              <h2 style={{ marginTop: '3em' }}>👩‍🎤 Top Artists</h2>
+              <ol id="year-top-artists">
+                {review.topArtists.map((artist) => (
+                  <li>
+                    <a href={`/artist?q=${encodeURIComponent(artist.name)}`}>{artist.name}</a>{' '}
+                    <span class="text-muted">({artist.playcount.toLocaleString()} plays)</span>
+                  </li>
+                ))}
+              </ol>
+
+              <h2 style={{ marginTop: '3em' }}>🏆 Top Albums</h2>
+              <div class="track-grid" id="year-top-albums">
+                {review.topAlbums.map((album) => (
+                  <TrackCard
+                    imageUrl={album.image || undefined}
+                    artist={album.artist}
+                    name={album.name}
+                    playcount={album.playcount}
+                    href={`/album?q=${encodeURIComponent(`${album.artist} ${album.name}`)}`}
+                  />
+                ))}
+              </div>
+
+              <h2 style={{ marginTop: '3em' }}>🎵 Top Tracks</h2>
+              <ol id="year-top-tracks">
+                {review.topTracks.map((track) => (
+                  <li>
+                    <strong>{track.name}</strong> by{' '}
+                    <a href={`/artist?q=${encodeURIComponent(track.artist)}`}>{track.artist}</a>{' '}
+                    <span class="text-muted">({track.playcount.toLocaleString()} plays)</span>
+                  </li>
+                ))}
+              </ol>
+
+              {review.newArtists && review.newArtists.length > 0 && (
+                <>
+                  <h2 style={{ marginTop: '3em' }}>🌱 Discoveries</h2>
+                  <p class="text-center">
+                    <strong>Artists first played in {year}.</strong>
+                  </p>
+                  <ul id="year-discoveries">
+                    {review.newArtists.map((artist) => (
+                      <li>
+                        <a href={`/artist?q=${encodeURIComponent(artist.name)}`}>{artist.name}</a>{' '}
+                        <span class="text-muted">
+                          ({artist.playcount.toLocaleString()} plays, first on {formatDay(artist.firstPlayedAt.slice(0, 10))})
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+
+              <h2 style={{ marginTop: '3em' }}>📈 Month by Month</h2>
+              <div class="year-months">
+                {review.monthlyPlays.map((month) => (
+                  <div class="year-month">
+                    <span class="year-month-label">{month.label.slice(0, 3)}</span>
+                    <span class="year-month-bar">
+                      <span style={{ width: `${Math.round((month.playcount / maxMonthlyPlays) * 100)}%` }} />
+                    </span>
+                    <span class="year-month-count text-muted">{month.playcount.toLocaleString()}</span>
+                  </div>
+                ))}
+              </div>
+              {review.longestStreak && (
+                <p class="text-center text-muted">
+                  Longest streak: {review.longestStreak.days} days in a row, {formatDay(review.longestStreak.start)} to{' '}
+                  {formatDay(review.longestStreak.end)}.
+                </p>
+              )}
+            </>
+          ) : (
+            <p class="text-center text-muted">No listening recorded for {year}.</p>
+          )}
+        </section>
+      </main>
+
+      {hasPlays && (
+        <script
+          dangerouslySetInnerHTML={{
+            __html: `
+        ${enrichLinksScript}
+
+        (function() {
+          var username = ${JSON.stringify(username)};
+          var year = ${year};
+
+          function escapeHtml(str) {
+            var div = document.createElement('div');
+            div.textContent = str;
+            return div.innerHTML;
+          }
+
+          // Narrative is gated behind sign-in, so the container only exists for signed-in viewers
+          if (!document.getElementById('year-narrative')) return;
+
+          internalFetch('/api/internal/user-year-narrative?username=' + encodeURIComponent(username) + '&year=' + year)
+            .then(function(r) { return r.json(); })
+            .then(function(data) {
+              var el = document.getElementById('year-narrative');
+              if (!el) return;
+
+              if (data.sparse) {
+                el.innerHTML = '<p class="text-muted">' + escapeHtml(data.message) + '</p>';
+                return;
+              }
+
+              if (data.error) {
+                throw new Error(data.error);
+              }
+
+              el.innerHTML = marked.parse(data.data.content);
+              enrichLinks('year-narrative');
+            })
+            .catch(function(err) {
+              console.error('Year in review narrative error:', err);
+              var el = document.getElementById('year-narrative');
+              if (el) {
+                el.innerHTML = '<p class="text-muted">Unable to write the year in review right now. Please try again later.</p>';
+              }
+            });
+        })();
+      `,
+          }}
+        />
+      )}
+
+      <style
+        dangerouslySetInnerHTML={{
+          __html: `
+        .year-stats {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(140px, 1fr));
+          gap: 1rem;
+          margin: 1.5rem 0 2rem;
+        }
+
+        .year-stat {
+          text-align: center;
+          padding: 1rem;
+          border-radius: 8px;
+          background-color: rgba(var(--c-accent-rgb), 0.1);
+        }
+
+        .year-stat-value {
+          font-size: 1.5rem;
+          font-weight: 700;
+          margin: 0;
+        }
+
+        .year-stat-label {
+          margin: 0.25rem 0 0 0;
+          font-size: 0.9rem;
+        }
+
+        .year-months {
+          display: flex;
+          flex-direction: column;
+          gap: 0.4rem;
+          margin: 1rem 0;
+        }
+
+        .year-month {
+          display: grid;
+          grid-template-columns: 3rem 1fr 4rem;
+          align-items: center;
+          gap: 0.75rem;
+        }
+
+        .year-month-bar {
+          height: 0.75rem;
+          border-radius: 4px;
+          background-color: rgba(var(--c-base-rgb), 0.08);
+          overflow: hidden;
+        }
+
+        .year-month-bar span {
+          display: block;
+          height: 100%;
+          background-color: var(--c-accent);
+        }
+
+        .year-month-count {
+          text-align: right;
+          font-size: 0.85rem;
+        }
+      `,
+        }}
+      />
+    </Layout>
+  );
+}
+
+// 404 page for user not found
+function UserNotFound({ username }: { username: string }) {
+  return (
+    <Layout title="User Not Found">
+      <div class="text-center" style={{ paddingTop: '4rem' }}>
+        <h1 style={{ fontSize: '3rem', marginBottom: '0.5rem' }}>User not found</h1>
+        <p>
+          No user with username "<strong>{username}</strong>" exists in our system.
+        </p>
+        <p class="mt-2">
+          <a href="/stats" class="button">Try Another Username</a>
+        </p>
+      </div>
+    </Layout>
+  );
+}
+
+// Private profile page - shown when profile is private and viewer is not owner
+function PrivateProfile({ username, currentUser }: { username: string; currentUser?: User | null }) {
+  return (
+    <Layout title="Private Profile" description="This profile is private" currentUser={currentUser}>
+      <div class="text-center" style={{ paddingTop: '4rem' }}>
+        <h1 style={{ fontSize: '3rem', marginBottom: '0.5rem' }}>🔒 Private Profile</h1>
+        <p>
+          <strong>{username}</strong> has chosen to keep their listening stats private.
+        </p>
+        {!currentUser && (
+          <p style={{ marginTop: '1.5rem' }}>
+            <a href="/login" class="button">Sign In</a>
+          </p>
+        )}
+      </div>
+    </Layout>
+  );
+}
+
+// Route handler - stats come from D1 (cached per user/year), the AI narrative loads progressively
+export async function handleUserYear(c: Context) {
+  const username = c.req.param('username');
+  const year = parseInt(c.req.param('year'), 10);
+  const db = c.get('db') as Database;
+  const internalToken = c.get('internalToken') as string;
+
+  // Look up user by lastfm_username first (canonical), then fall back to username
+  let user = await db.getUserByLastfmUsername(username);
+  if (!user) {
+    user = await db.getUserByUsername(username);
+  }
+
+  if (!user || !user.lastfm_username) {
+    return c.html(<UserNotFound username={username} />, 404);
+  }
+
+  const currentUser = c.get('currentUser') as User | null;
+  const isOwner = currentUser?.id === user.id;
+
+  // Check privacy - if private and not the owner, show private profile page
+  if (user.profile_visibility === 'private' && !isOwner) {
+    return c.html(<PrivateProfile username={user.lastfm_username} currentUser={currentUser} />);
+  }
+
+  const profileUsername = user.username || user.lastfm_username;
+  if (!isValidReviewYear(year)) {
+    return c.redirect(`/u/${profileUsername}/year/${new Date().getUTCFullYear()}`);
+  }
+
+  const review = await getYearInReview(db, c.env.CACHE, user.id, year);
+
+  // Fetch Last.fm user info for profile picture
+  let profileImage: string | undefined;
+  try {
+    const lastfm = new LastfmService({
+      apiKey: c.env.LASTFM_API_KEY,
+      username: user.lastfm_username,
+      cache: c.env.CACHE,
+    });
+    const userInfo = await lastfm.getUserInfo();
+    profileImage = userInfo.image || undefined;
+  } catch (error) {
+    console.error('Failed to fetch Last.fm user info:', error);
+  }
+
+  return c.html(
+    <UserYearPage
+      username={profileUsername}
+      lastfmUsername={user.lastfm_username}
+      profileImage={profileImage}
+      bio={user.bio}
+      internalToken={internalToken}
+      currentUser={currentUser}
+      isOwner={isOwner}
+      profileVisibility={user.profile_visibility}
+      review={review}
+    />
+  );
+}
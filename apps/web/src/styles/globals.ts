@@ -419,7 +419,7 @@ h4 {
   min-width: 120px;
 }
 
-/* Time Toggle (for user stats page) */
+/* Time Toggle (for user stats and insights pages) */
 .time-toggle-container {
   text-align: center;
   margin: 3em 0 2em;
@@ -470,6 +470,16 @@ h4 {
   }
 }
 
+/* Custom date range picker shown under a time toggle */
+.custom-range-form {
+  display: flex;
+  flex-wrap: wrap;
+  justify-content: center;
+  align-items: center;
+  gap: 0.75rem;
+  margin-top: 1rem;
+}
+
 /* User Profile Subnavigation */
 .profile-nav {
   display: flex;
@@ -503,7 +513,8 @@ h4 {
 
 @media (max-width: 600px) {
   .profile-nav {
-    gap: 1.5rem;
+    flex-wrap: wrap;
+    gap: 0 1.25rem;
   }
 
   .profile-nav-link {
@@ -642,6 +653,75 @@ h4 {
   }
 }
 
+/* Album Tracklist */
+.tracklist {
+  max-width: 800px;
+  padding-left: 1.5rem;
+}
+
+.tracklist li {
+  padding: 0.35rem 0;
+  border-bottom: 1px solid rgba(var(--c-base-rgb), 0.08);
+}
+
+.tracklist-duration {
+  float: right;
+  font-variant-numeric: tabular-nums;
+}
+
+/* Album Scrobble ("I just listened to this") */
+.album-scrobble {
+  max-width: 800px;
+  margin-bottom: 1rem;
+}
+
+.album-scrobble .tracklist {
+  margin-top: 0.5rem;
+}
+
+/* Love Button (Last.fm track.love) */
+.love-btn {
+  background: none;
+  border: none;
+  padding: 0 0.4rem 0 0;
+  cursor: pointer;
+  font-size: 1.1rem;
+  line-height: 1;
+  color: var(--c-base);
+  opacity: 0.5;
+  transition: opacity 0.2s ease, transform 0.1s ease;
+}
+
+.love-btn:hover {
+  opacity: 0.9;
+}
+
+.love-btn.loved {
+  color: var(--c-accent);
+  opacity: 1;
+}
+
+.love-btn:active {
+  transform: scale(1.2);
+}
+
+.love-btn:disabled {
+  cursor: wait;
+}
+
+.track-card-lovable {
+  position: relative;
+}
+
+.track-card-lovable .love-btn {
+  position: absolute;
+  top: 0.5rem;
+  right: 0.25rem;
+  background: rgba(var(--c-bg-rgb), 0.7);
+  border-radius: 50%;
+  padding: 0.3rem;
+}
+
 /* No Wrap Text */
 .no-wrap-text {
   flex: 1;
@@ -749,6 +829,46 @@ h4 {
   font-style: italic;
 }
 
+/* Top Tracks List (numbered, no artwork) */
+.top-tracks-list {
+  max-width: 640px;
+  margin: 0 auto;
+  padding-left: 2em;
+}
+
+.top-tracks-list li {
+  padding: 0.4em 0;
+}
+
+.genre-breakdown {
+  max-width: 640px;
+  margin: 0 auto;
+  padding: 0;
+  list-style: none;
+}
+
+.genre-breakdown li {
+  padding: 0.5em 0;
+}
+
+.genre-breakdown-bar {
+  height: 0.5em;
+  margin: 0.3em 0;
+  background-color: rgba(var(--c-accent-rgb), 0.1);
+  border-radius: 0.25em;
+  overflow: hidden;
+}
+
+.genre-breakdown-bar span {
+  display: block;
+  height: 100%;
+  background-color: var(--c-accent);
+}
+
+.genre-breakdown-artists {
+  font-size: 0.9em;
+}
+
 /* Loading Spinner */
 .spinner {
   display: inline-block;
@@ -1149,6 +1269,20 @@ blockquote {
   50% { opacity: 0.7; }
 }
 
+/* Friends who also have a ListenToMore account */
+.track-item.friend-member .track-item-image img {
+  box-shadow: 0 0 0 3px var(--c-accent);
+}
+
+.friend-member-badge {
+  font-size: 12px;
+  padding: 0.15em 0.6em;
+  border-radius: 1em;
+  background-color: rgba(var(--c-accent-rgb), 0.1);
+  color: var(--c-accent);
+  white-space: nowrap;
+}
+
 @media (max-width: 500px) {
   .track-item {
     flex-direction: column;
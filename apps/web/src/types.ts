@@ -13,6 +13,8 @@ export type Bindings = {
   DB: D1Database;
   // KV Namespaces
   CACHE: KVNamespace;
+  // Durable Objects (per-key API rate limiter; limiting is skipped when unbound)
+  RATE_LIMITER?: DurableObjectNamespace;
   // Environment variables
   SPOTIFY_CLIENT_ID: string;
   SPOTIFY_CLIENT_SECRET: string;
@@ -23,6 +25,9 @@ export type Bindings = {
   LASTFM_SHARED_SECRET?: string;
   LASTFM_USERNAME: string;
   OPENAI_API_KEY: string;
+  // Discogs OAuth app (collection sync); the feature is hidden when unset
+  DISCOGS_CONSUMER_KEY?: string;
+  DISCOGS_CONSUMER_SECRET?: string;
   ANTHROPIC_API_KEY: string;
   YOUTUBE_API_KEY?: string;
   APPLE_TEAM_ID?: string;
@@ -48,6 +53,7 @@ export type Variables = {
   // User session context
   currentUser: User | null;
   isAuthenticated: boolean;
+  sessionId: string | null; // Current session row, for the account page's session list
   // Internal API token (for progressive loading)
   internalToken: string;
 };
@@ -0,0 +1,118 @@
+// Account data export - bundles everything stored about a user into JSON or per-table CSV
+// Secrets (Last.fm session key, Discogs OAuth tokens, session and API key hashes, webhook
+// signing secrets) are left out
+
+import type { AITask } from '@listentomore/config';
+import type { Database, User } from '@listentomore/db';
+
+export const EXPORT_TABLES = [
+  'profile',
+  'sessions',
+  'api_keys',
+  'api_usage',
+  'webhooks',
+  'discogs_releases',
+  'weekly_insights',
+  'spotify_imports',
+  'ai_insights',
+] as const;
+
+export type ExportTable = (typeof EXPORT_TABLES)[number];
+
+export type AccountExport = {
+  exported_at: string;
+} & Record<ExportTable, object[]>;
+
+// AI tasks whose cached results are keyed by the user's Last.fm username
+const USER_AI_TASKS: AITask[] = ['userInsightsSummary', 'userInsightsRecommendations', 'yearInReview'];
+
+const SECRET_USER_FIELDS = ['lastfm_session_key', 'discogs_oauth_token', 'discogs_oauth_token_secret'] as const;
+
+export function isExportTable(value: string): value is ExportTable {
+  return (EXPORT_TABLES as readonly string[]).includes(value);
+}
+
+function withoutSecrets(user: User): Record<string, unknown> {
+  const profile: Record<string, unknown> = { ...user };
+  for (const field of SECRET_USER_FIELDS) {
+    delete profile[field];
+  }
+  return profile;
+}
+
+/**
+ * Cached AI insights for a user, read straight from KV (they expire, so this is
+ * whatever is cached right now)
+ */
+async function getCachedAiInsights(
+  cache: KVNamespace,
+  lastfmUsername: string | null
+): Promise<Array<Record<string, unknown>>> {
+  if (!lastfmUsername) return [];
+
+  const username = lastfmUsername.toLowerCase().trim();
+  const rows: Array<Record<string, unknown>> = [];
+
+  for (const task of USER_AI_TASKS) {
+    const list = await cache.list({ prefix: `ai:${task}:${username}:` });
+    const values = await Promise.all(list.keys.map((key) => cache.get(key.name, 'json')));
+    list.keys.forEach((key, i) => {
+      if (values[i] !== null) {
+        rows.push({ task, key: key.name, result: values[i] });
+      }
+    });
+  }
+
+  return rows;
+}
+
+export async function buildAccountExport(db: Database, cache: KVNamespace, user: User): Promise<AccountExport> {
+  const [sessions, apiKeys, apiUsage, webhooks, releases, weeklyInsights, spotifyImports, aiInsights] = await Promise.all([
+    db.getSessionsByUser(user.id),
+    db.getApiKeysForExport(user.id),
+    db.getApiUsageForUser(user.id),
+    db.listWebhooks(user.id),
+    db.getAllReleases(user.id),
+    db.getAllWeeklyInsights(user.id),
+    db.getSpotifyImports(user.id),
+    getCachedAiInsights(cache, user.lastfm_username),
+  ]);
+
+  return {
+    exported_at: new Date().toISOString(),
+    profile: [withoutSecrets(user)],
+    sessions: sessions.map(({ token_hash: _tokenHash, ...session }) => session),
+    api_keys: apiKeys,
+    api_usage: apiUsage,
+    webhooks: webhooks.map(({ secret: _secret, ...webhook }) => webhook),
+    discogs_releases: releases,
+    weekly_insights: weeklyInsights,
+    spotify_imports: spotifyImports,
+    ai_insights: aiInsights,
+  };
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * RFC 4180 CSV. Columns are the union of the rows' keys in first-seen order;
+ * nested values (arrays, objects) are written as JSON.
+ */
+export function toCsv(rows: object[]): string {
+  const columns: string[] = [];
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!columns.includes(key)) columns.push(key);
+    }
+  }
+
+  const lines = [columns.map(csvCell).join(',')];
+  for (const row of rows) {
+    lines.push(columns.map((column) => csvCell((row as Record<string, unknown>)[column])).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
@@ -0,0 +1,59 @@
+// Album scrobbling - turns a Spotify tracklist into back-dated Last.fm scrobbles
+// Used by "I just listened to this" on the album page (e.g. for vinyl plays)
+
+import type { AlbumDetails } from '@listentomore/spotify';
+import type { ScrobbleInput } from '@listentomore/lastfm';
+
+// Last.fm ignores tracks shorter than 30 seconds
+const MIN_SCROBBLE_DURATION_MS = 30 * 1000;
+// How far back a "just listened" play may have finished
+export const MAX_FINISHED_AGO_MS = 24 * 60 * 60 * 1000;
+// Tolerance for clock drift between the browser preview and the server
+const FUTURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+/**
+ * Back-date one scrobble per track so the album ends at `finishedAt`:
+ * the last track starts one duration before that, and so on back to the first.
+ */
+export function buildAlbumScrobbles(
+  album: Pick<AlbumDetails, 'name' | 'artist' | 'trackList'>,
+  finishedAt: Date
+): ScrobbleInput[] {
+  const scrobbles: ScrobbleInput[] = [];
+  let trackEnd = finishedAt.getTime();
+
+  for (let i = album.trackList.length - 1; i >= 0; i--) {
+    const track = album.trackList[i];
+    const trackStart = trackEnd - track.duration;
+    trackEnd = trackStart;
+
+    if (track.duration < MIN_SCROBBLE_DURATION_MS) continue;
+
+    scrobbles.unshift({
+      artist: track.artists[0] || album.artist,
+      track: track.name,
+      timestamp: Math.floor(trackStart / 1000),
+      album: album.name,
+      albumArtist: album.artist,
+      duration: Math.round(track.duration / 1000),
+      trackNumber: track.number,
+    });
+  }
+
+  return scrobbles;
+}
+
+/**
+ * Parse the finish time sent back from the preview. Returns null if it's not a
+ * date, is in the future, or is further back than MAX_FINISHED_AGO_MS.
+ */
+export function parseFinishedAt(value: unknown, now: Date = new Date()): Date | null {
+  if (typeof value !== 'string') return null;
+
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) return null;
+  if (time > now.getTime() + FUTURE_TOLERANCE_MS) return null;
+  if (time < now.getTime() - MAX_FINISHED_AGO_MS) return null;
+
+  return new Date(time);
+}
@@ -0,0 +1,112 @@
+// API usage analytics - summarizes api_usage_log buckets into per-day, per-endpoint
+// and per-key stats for GET /api/v1/usage, and the cron's retention rollup
+
+import type { ApiUsageBucket, Database } from '@listentomore/db';
+
+// Raw log rows are kept this many days, then rolled into daily aggregates
+export const API_USAGE_RETENTION_DAYS = 30;
+// Longest window the usage endpoint reports on
+export const MAX_USAGE_DAYS = 90;
+export const DEFAULT_USAGE_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface UsageStats {
+  requests: number;
+  errors: number;
+  errorRate: number;
+  avgResponseTimeMs: number | null;
+  p50ResponseTimeMs: number | null;
+  p95ResponseTimeMs: number | null;
+}
+
+export interface UsageSummary {
+  totals: UsageStats;
+  daily: Array<{ date: string } & UsageStats>;
+  endpoints: Array<{ endpoint: string; method: string } & UsageStats>;
+}
+
+// YYYY-MM-DD (UTC) of the first day in a window of `days` days ending today
+export function usageWindowStart(days: number, now: Date = new Date()): string {
+  return new Date(now.getTime() - (days - 1) * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Combine buckets into one set of stats. Counts are exact. A percentile is only
+ * exact for a single bucket (one key, endpoint and day); across buckets it is the
+ * request-weighted mean of the bucket percentiles.
+ */
+function combine(buckets: ApiUsageBucket[]): UsageStats {
+  let requests = 0;
+  let errors = 0;
+  let totalMs = 0;
+  let p50Weighted = 0;
+  let p95Weighted = 0;
+  let timedRequests = 0;
+
+  for (const bucket of buckets) {
+    requests += bucket.request_count;
+    errors += bucket.error_count;
+    totalMs += bucket.total_response_time_ms;
+    if (bucket.p50_response_time_ms !== null && bucket.p95_response_time_ms !== null) {
+      p50Weighted += bucket.p50_response_time_ms * bucket.request_count;
+      p95Weighted += bucket.p95_response_time_ms * bucket.request_count;
+      timedRequests += bucket.request_count;
+    }
+  }
+
+  return {
+    requests,
+    errors,
+    errorRate: requests ? Math.round((errors / requests) * 10000) / 10000 : 0,
+    avgResponseTimeMs: requests ? Math.round(totalMs / requests) : null,
+    p50ResponseTimeMs: timedRequests ? Math.round(p50Weighted / timedRequests) : null,
+    p95ResponseTimeMs: timedRequests ? Math.round(p95Weighted / timedRequests) : null,
+  };
+}
+
+function groupBy(buckets: ApiUsageBucket[], keyOf: (bucket: ApiUsageBucket) => string): Map<string, ApiUsageBucket[]> {
+  const groups = new Map<string, ApiUsageBucket[]>();
+  for (const bucket of buckets) {
+    const key = keyOf(bucket);
+    const group = groups.get(key);
+    if (group) {
+      group.push(bucket);
+    } else {
+      groups.set(key, [bucket]);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Totals, one row per day (oldest first) and one row per endpoint (busiest first)
+ */
+export function summarizeApiUsage(buckets: ApiUsageBucket[]): UsageSummary {
+  const daily = [...groupBy(buckets, (b) => b.day)]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, group]) => ({ date, ...combine(group) }));
+
+  const endpoints = [...groupBy(buckets, (b) => `${b.method} ${b.endpoint}`).values()]
+    .map((group) => ({ endpoint: group[0].endpoint, method: group[0].method, ...combine(group) }))
+    .sort((a, b) => b.requests - a.requests);
+
+  return { totals: combine(buckets), daily, endpoints };
+}
+
+/**
+ * Stats per API key, busiest first. Unauthenticated requests are grouped under a null keyId.
+ */
+export function summarizeApiUsageByKey(buckets: ApiUsageBucket[]): Array<{ keyId: string | null } & UsageStats> {
+  return [...groupBy(buckets, (b) => b.api_key_id ?? '').entries()]
+    .map(([keyId, group]) => ({ keyId: keyId || null, ...combine(group) }))
+    .sort((a, b) => b.requests - a.requests);
+}
+
+/**
+ * Roll log rows older than the retention window into daily aggregates. Only whole
+ * days are rolled up, so a day is never split between the log and the aggregates.
+ */
+export async function rollupApiUsageLog(db: Database, now: Date = new Date()): Promise<number> {
+  return db.rollupApiUsage(usageWindowStart(API_USAGE_RETENTION_DAYS, now));
+}
@@ -114,6 +114,93 @@ function enrichAlbumMentions(containerId) {
 }
 `;
 
+/**
+ * initLoveButtons - Wires up LoveButton (.love-btn) elements inside a container
+ * Looks up the signed-in user's loved state for buttons rendered without one,
+ * then toggles track.love/track.unlove on click. A revoked Last.fm session
+ * prompts the user to sign in with Last.fm again.
+ * Note: Uses internalFetch() which is defined in Layout.tsx and includes the auth token
+ */
+export const loveButtonsScript = `
+function promptLastfmReauth(message) {
+  if (window.confirm(message + '\\n\\nSign in with Last.fm again now?')) {
+    window.location.href = '/auth/lastfm?next=' + encodeURIComponent(window.location.pathname + window.location.search);
+  }
+}
+
+function initLoveButtons(containerId) {
+  var container = document.getElementById(containerId);
+  if (!container || !window.__IS_AUTHENTICATED__) return;
+
+  var buttons = Array.prototype.slice.call(container.querySelectorAll('.love-btn'));
+  if (buttons.length === 0) return;
+
+  function setLoved(btn, loved) {
+    btn.setAttribute('data-loved', String(loved));
+    btn.setAttribute('aria-pressed', String(loved));
+    btn.classList.toggle('loved', loved);
+    btn.textContent = loved ? '♥' : '♡';
+  }
+
+  function postJson(url, body) {
+    return internalFetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+  }
+
+  var unknown = buttons.filter(function(btn) { return !btn.hasAttribute('data-loved'); });
+  if (unknown.length > 0) {
+    postJson('/api/internal/track-loved-status', {
+      tracks: unknown.map(function(btn) {
+        return { artist: btn.getAttribute('data-artist'), track: btn.getAttribute('data-track') };
+      })
+    })
+      .then(function(r) { return r.json(); })
+      .then(function(data) {
+        if (!data.data) return;
+        data.data.forEach(function(loved, i) { setLoved(unknown[i], loved); });
+      })
+      .catch(function() { /* leave hearts empty */ });
+  }
+
+  buttons.forEach(function(btn) {
+    btn.addEventListener('click', function(e) {
+      e.preventDefault();
+      e.stopPropagation();
+      if (btn.disabled) return;
+
+      var wasLoved = btn.getAttribute('data-loved') === 'true';
+      btn.disabled = true;
+      setLoved(btn, !wasLoved);
+
+      postJson('/api/internal/track-love', {
+        artist: btn.getAttribute('data-artist'),
+        track: btn.getAttribute('data-track'),
+        loved: !wasLoved
+      })
+        .then(function(r) { return r.json(); })
+        .then(function(data) {
+          if (data.error) {
+            setLoved(btn, wasLoved);
+            if (data.reauth) {
+              promptLastfmReauth(data.error);
+            } else {
+              console.error('Love track error:', data.error);
+            }
+          }
+        })
+        .catch(function(err) {
+          setLoved(btn, wasLoved);
+          console.error('Love track error:', err);
+        })
+        .finally(function() { btn.disabled = false; });
+    });
+  });
+}
+`;
+
 /**
  * Combined utility scripts - include all common functions
  */
@@ -0,0 +1,265 @@
+// Community charts - top artists and albums across all public users' Last.fm weekly charts
+// Built weekly and monthly by the scheduled() cron, stored in D1 and rendered at /charts
+
+import type { CommunityChartEntry, CommunityChartKind, CommunityChartType, Database } from '@listentomore/db';
+import { WeeklyCharts, type TopAlbum, type TopArtist, type WeeklyChartRange } from '@listentomore/lastfm';
+import type { SpotifyService } from '@listentomore/spotify';
+import { formatIsoWeekRange, getIsoWeek, parseIsoWeek } from './iso-week';
+
+export const CHART_SIZE = 25;
+const USER_LIST_LIMIT = 50;
+const BATCH_SIZE = 4;
+const BATCH_DELAY_MS = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_PATTERN = /^(\d{4})-(0[1-9]|1[0-2])$/;
+
+export type RankedChartEntry = Omit<CommunityChartEntry, 'chart' | 'period' | 'created_at'>;
+
+// Ranged charts carry no artwork, so album images are optional (Spotify fills them in)
+export interface UserTopLists {
+  artists: Array<Pick<TopArtist, 'name' | 'playcount'>>;
+  albums: Array<Pick<TopAlbum, 'artist' | 'name' | 'playcount'> & { image?: string }>;
+}
+
+export type ChartMovement = { type: 'new' } | { type: 'same' } | { type: 'up' | 'down'; by: number };
+
+export interface ChartRow extends CommunityChartEntry {
+  // Null when there is no previous chart to compare against
+  movement: ChartMovement | null;
+}
+
+interface Tally {
+  kind: CommunityChartKind;
+  name: string;
+  artist: string | null;
+  image: string | null;
+  listeners: number;
+  plays: number;
+  score: number;
+}
+
+function monthKey(date: Date): string {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * The chart period that has just ended at `now`: last ISO week for weekly charts,
+ * last calendar month for monthly ones (both UTC)
+ */
+export function chartPeriodFor(chart: CommunityChartType, now: Date = new Date()): string {
+  const yesterday = new Date(now.getTime() - DAY_MS);
+  return chart === 'weekly' ? getIsoWeek(yesterday) : monthKey(yesterday);
+}
+
+export function isChartPeriod(chart: CommunityChartType, value: string): boolean {
+  return chart === 'weekly' ? parseIsoWeek(value) !== null : MONTH_PATTERN.test(value);
+}
+
+/**
+ * The period before a (valid) chart period, for week-over-week or month-over-month movement
+ */
+export function previousChartPeriod(chart: CommunityChartType, period: string): string {
+  if (chart === 'weekly') {
+    const range = parseIsoWeek(period)!;
+    return getIsoWeek(new Date(range.start.getTime() - 7 * DAY_MS));
+  }
+  const [year, month] = period.split('-').map((part) => parseInt(part, 10));
+  return monthKey(new Date(Date.UTC(year, month - 2, 1)));
+}
+
+/**
+ * Exact bounds of a (valid) chart period for Last.fm's ranged charts: Monday to Monday
+ * for weekly charts, the first of the month to the first of the next for monthly ones
+ */
+export function chartRange(chart: CommunityChartType, period: string): WeeklyChartRange {
+  let start: number;
+  let end: number;
+  if (chart === 'weekly') {
+    const range = parseIsoWeek(period)!;
+    start = range.start.getTime();
+    end = range.end.getTime() + DAY_MS;
+  } else {
+    const [year, month] = period.split('-').map((part) => parseInt(part, 10));
+    start = Date.UTC(year, month - 1, 1);
+    end = Date.UTC(year, month, 1);
+  }
+  return { from: start / 1000, to: end / 1000 };
+}
+
+/**
+ * Human label for a chart period, e.g. "Oct 5 – Oct 11, 2026" or "October 2026"
+ */
+export function formatChartPeriod(chart: CommunityChartType, period: string): string {
+  if (chart === 'weekly') return formatIsoWeekRange(period);
+
+  const [year, month] = period.split('-').map((part) => parseInt(part, 10));
+  return new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString('en-US', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function tally<T extends { playcount: number }>(
+  totals: Map<string, Tally>,
+  items: T[],
+  toTally: (item: T) => Pick<Tally, 'kind' | 'name' | 'artist' | 'image'>
+) {
+  const userPlays = items.reduce((sum, item) => sum + item.playcount, 0);
+  if (userPlays === 0) return;
+
+  const seen = new Set<string>();
+  for (const item of items) {
+    const entry = toTally(item);
+    const key = `${entry.artist?.toLowerCase().trim() ?? ''}|${entry.name.toLowerCase().trim()}`;
+    // Last.fm occasionally lists the same name twice with different casing
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const existing = totals.get(key) ?? { ...entry, listeners: 0, plays: 0, score: 0 };
+    existing.listeners += 1;
+    existing.plays += item.playcount;
+    existing.score += 1 + item.playcount / userPlays;
+    existing.image ??= entry.image;
+    totals.set(key, existing);
+  }
+}
+
+function rank(totals: Map<string, Tally>, size: number): RankedChartEntry[] {
+  return [...totals.values()]
+    .sort((a, b) => b.score - a.score || b.plays - a.plays || a.name.localeCompare(b.name))
+    .slice(0, size)
+    .map((entry, i) => ({
+      kind: entry.kind,
+      rank: i + 1,
+      name: entry.name,
+      artist: entry.artist,
+      listeners: entry.listeners,
+      plays: entry.plays,
+      score: Math.round(entry.score * 1000) / 1000,
+      spotify_id: null,
+      image_url: entry.image,
+    }));
+}
+
+/**
+ * Rank artists and albums across users' top lists. Every listener adds one point,
+ * plus the entry's share of that listener's plays, so reach across the community
+ * decides the order and plays break ties between equally shared entries without
+ * letting one heavy scrobbler carry the chart.
+ */
+export function rankCommunityChart(lists: UserTopLists[], size: number = CHART_SIZE): RankedChartEntry[] {
+  const artists = new Map<string, Tally>();
+  const albums = new Map<string, Tally>();
+
+  for (const list of lists) {
+    tally(artists, list.artists, (artist) => ({ kind: 'artist', name: artist.name, artist: null, image: null }));
+    tally(albums, list.albums, (album) => ({
+      kind: 'album',
+      name: album.name,
+      artist: album.artist,
+      image: album.image || null,
+    }));
+  }
+
+  return [...rank(artists, size), ...rank(albums, size)];
+}
+
+function entryKey(entry: Pick<CommunityChartEntry, 'kind' | 'name' | 'artist'>): string {
+  return `${entry.kind}|${entry.artist?.toLowerCase() ?? ''}|${entry.name.toLowerCase()}`;
+}
+
+/**
+ * Attach movement against the previous period's chart
+ */
+export function withMovement(entries: CommunityChartEntry[], previous: CommunityChartEntry[]): ChartRow[] {
+  if (previous.length === 0) {
+    return entries.map((entry) => ({ ...entry, movement: null }));
+  }
+
+  const previousRanks = new Map(previous.map((entry) => [entryKey(entry), entry.rank]));
+
+  return entries.map((entry) => {
+    const before = previousRanks.get(entryKey(entry));
+    let movement: ChartMovement;
+    if (before === undefined) movement = { type: 'new' };
+    else if (before === entry.rank) movement = { type: 'same' };
+    else movement = { type: before > entry.rank ? 'up' : 'down', by: Math.abs(before - entry.rank) };
+    return { ...entry, movement };
+  });
+}
+
+// Fetch every user's charts for the range (batched, rate-limited like the recent tracks cron)
+async function fetchUserTopLists(usernames: string[], apiKey: string, range: WeeklyChartRange): Promise<UserTopLists[]> {
+  const lists: UserTopLists[] = [];
+
+  for (let i = 0; i < usernames.length; i += BATCH_SIZE) {
+    const batch = usernames.slice(i, i + BATCH_SIZE);
+    const results = await Promise.all(
+      batch.map(async (username): Promise<UserTopLists | null> => {
+        try {
+          const charts = new WeeklyCharts({ apiKey, username });
+          const [artists, albums] = await Promise.all([
+            charts.getWeeklyArtistChart(range, USER_LIST_LIMIT),
+            charts.getWeeklyAlbumChart(range, USER_LIST_LIMIT),
+          ]);
+          return { artists, albums };
+        } catch (error) {
+          console.error(`[CRON] Failed to fetch top lists for ${username}:`, error);
+          return null;
+        }
+      })
+    );
+    lists.push(...results.filter((list): list is UserTopLists => list !== null));
+
+    if (i + BATCH_SIZE < usernames.length) {
+      await new Promise((resolve) => setTimeout(resolve, BATCH_DELAY_MS));
+    }
+  }
+
+  return lists;
+}
+
+// Match an entry on Spotify so the chart can link straight to /artist/:id and /album/:id
+async function resolveSpotify(spotify: SpotifyService, entry: RankedChartEntry): Promise<RankedChartEntry> {
+  try {
+    const match =
+      entry.kind === 'artist'
+        ? await spotify.searchArtist(entry.name)
+        : await spotify.searchAlbumByArtist(entry.artist!, entry.name);
+    if (!match) return entry;
+    return { ...entry, spotify_id: match.id, image_url: match.image ?? entry.image_url };
+  } catch (error) {
+    console.error(`[CRON] Failed to match chart entry "${entry.name}" on Spotify:`, error);
+    return entry;
+  }
+}
+
+/**
+ * Build and store the chart for the period that has just ended.
+ * Returns null (and keeps any stored chart) when no user's top lists could be read.
+ */
+export async function buildCommunityChart(
+  db: Database,
+  apiKey: string,
+  spotify: SpotifyService,
+  chart: CommunityChartType,
+  now: Date = new Date()
+): Promise<{ period: string; listeners: number; entries: number } | null> {
+  const period = chartPeriodFor(chart, now);
+  const users = await db.getPublicUsersWithLastfm();
+  const usernames = users.map((user) => user.lastfm_username).filter((name): name is string => !!name);
+
+  const lists = await fetchUserTopLists(usernames, apiKey, chartRange(chart, period));
+  const ranked = rankCommunityChart(lists);
+  if (ranked.length === 0) return null;
+
+  // Sequential to stay well inside Spotify's rate limit
+  const entries: RankedChartEntry[] = [];
+  for (const entry of ranked) {
+    entries.push(await resolveSpotify(spotify, entry));
+  }
+
+  await db.saveCommunityChart(chart, period, entries);
+  return { period, listeners: lists.length, entries: entries.length };
+}
@@ -0,0 +1,52 @@
+// CSRF tokens for account forms
+// A token is an HMAC-SHA256 of the session id, so it's valid for that session only and needs no storage
+
+/**
+ * Import an HMAC-SHA256 key for the given usage.
+ */
+async function importKey(secret: string, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    [usage]
+  );
+}
+
+function csrfMessage(sessionId: string): Uint8Array {
+  return new TextEncoder().encode(`csrf:${sessionId}`);
+}
+
+/**
+ * Generate the CSRF token for a session
+ */
+export async function generateCsrfToken(secret: string, sessionId: string): Promise<string> {
+  const key = await importKey(secret, 'sign');
+  const sigBuffer = await crypto.subtle.sign('HMAC', key, csrfMessage(sessionId));
+  return Array.from(new Uint8Array(sigBuffer))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Check a submitted CSRF token against the current session.
+ * Uses crypto.subtle.verify for constant-time comparison.
+ */
+export async function verifyCsrfToken(token: unknown, secret: string, sessionId: string | null): Promise<boolean> {
+  if (typeof token !== 'string' || !sessionId || !/^[0-9a-f]{64}$/.test(token)) {
+    return false;
+  }
+
+  const sigBytes = new Uint8Array(token.length / 2);
+  for (let i = 0; i < sigBytes.length; i++) {
+    sigBytes[i] = parseInt(token.slice(i * 2, i * 2 + 2), 16);
+  }
+
+  try {
+    const key = await importKey(secret, 'verify');
+    return await crypto.subtle.verify('HMAC', key, sigBytes, csrfMessage(sessionId));
+  } catch {
+    return false;
+  }
+}
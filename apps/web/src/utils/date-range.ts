@@ -0,0 +1,55 @@
+// Custom date ranges from YYYY-MM-DD query parameters, shared by the insights and stats pages
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_CUSTOM_RANGE_DAYS = 366;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface CustomDateRange {
+  fromDate: string; // YYYY-MM-DD as given
+  toDate: string;
+  from: number; // ms, start of fromDate (UTC)
+  to: number; // ms, start of the day after toDate (UTC), exclusive
+}
+
+export function formatRangeDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function parseDate(value: string | undefined): number | null {
+  if (!value || !DATE_PATTERN.test(value)) return null;
+  const time = Date.parse(`${value}T00:00:00Z`);
+  // Rejects impossible dates like 2026-02-31, which Date.parse rolls over
+  return Number.isNaN(time) || new Date(time).toISOString().slice(0, 10) !== value ? null : time;
+}
+
+/**
+ * Validate a from/to pair of YYYY-MM-DD dates (both inclusive): the range can't
+ * end in the future or span more than MAX_CUSTOM_RANGE_DAYS
+ */
+export function parseCustomDateRange(
+  fromDate: string | undefined,
+  toDate: string | undefined,
+  now: Date = new Date()
+): CustomDateRange | { error: string } {
+  const from = parseDate(fromDate);
+  const to = parseDate(toDate);
+  if (from === null || to === null) {
+    return { error: 'Custom periods need from and to dates (YYYY-MM-DD)' };
+  }
+  if (from > to) {
+    return { error: 'The from date must be on or before the to date' };
+  }
+  if (to > now.getTime()) {
+    return { error: 'Custom periods cannot end in the future' };
+  }
+  if ((to - from) / DAY_MS + 1 > MAX_CUSTOM_RANGE_DAYS) {
+    return { error: `Custom periods can cover at most ${MAX_CUSTOM_RANGE_DAYS} days` };
+  }
+
+  return { fromDate: fromDate!, toDate: toDate!, from, to: to + DAY_MS };
+}
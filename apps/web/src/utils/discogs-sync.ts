@@ -0,0 +1,45 @@
+// Discogs collection sync and master-release enrichment
+// Runs from the scheduled() cron; collections resync once a day, a few users per run
+
+import type { Database } from '@listentomore/db';
+import { DiscogsService } from '@listentomore/discogs';
+
+const USERS_PER_RUN = 2;
+const ENRICHMENT_BATCH = 25;
+
+export async function syncDiscogs(
+  db: Database,
+  consumerKey: string,
+  consumerSecret: string
+): Promise<void> {
+  const discogs = new DiscogsService(db, { consumerKey, consumerSecret });
+  const users = await db.getUsersWithDiscogs();
+  let synced = 0;
+
+  // Sequential on purpose: Discogs allows 60 authenticated requests per minute per app
+  for (const user of users) {
+    if (synced >= USERS_PER_RUN) break;
+
+    try {
+      const result = await discogs.syncCollection(user);
+      if (result.skipped) continue;
+
+      synced++;
+      console.log(
+        `[CRON] Discogs sync for ${user.discogs_username}: ${result.pagesFetched} pages, ${result.releasesSynced} releases, ${result.releasesRemoved} removed (${result.complete ? 'complete' : 'partial'})`
+      );
+    } catch (error) {
+      synced++;
+      console.error(`[CRON] Discogs sync failed for ${user.discogs_username}:`, error);
+    }
+  }
+
+  try {
+    const result = await discogs.enrichReleases(ENRICHMENT_BATCH);
+    if (result.mastersEnriched > 0 || result.mastersMissing > 0) {
+      console.log(`[CRON] Discogs enrichment: ${result.mastersEnriched} masters enriched, ${result.mastersMissing} missing`);
+    }
+  } catch (error) {
+    console.error('[CRON] Discogs enrichment failed:', error);
+  }
+}
@@ -0,0 +1,181 @@
+// Feed rendering - Atom 1.0 and JSON Feed 1.1 from the same feed description,
+// plus conditional GET handling so feed readers can poll cheaply
+
+import { SITE_CONFIG } from '@listentomore/config';
+import { generateETag } from '@listentomore/shared';
+
+export type FeedFormat = 'atom' | 'json';
+
+export interface FeedItem {
+  id: string;
+  url: string;
+  title: string;
+  /** Plain text body (insight summaries are Markdown, which reads fine as text) */
+  content: string;
+  /** ISO 8601 */
+  date: string;
+  image?: string | null;
+}
+
+export interface Feed {
+  title: string;
+  description: string;
+  /** Page the feed mirrors, relative to the site root */
+  pagePath: string;
+  /** Feed path without extension, e.g. /u/alice/likes/feed */
+  feedPath: string;
+  author: string;
+  items: FeedItem[];
+}
+
+export interface FeedLink {
+  title: string;
+  href: string;
+  type: string;
+}
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+};
+
+const FEED_EXTENSIONS: Record<FeedFormat, string> = {
+  atom: 'xml',
+  json: 'json',
+};
+
+// Readers are told to poll at most this often
+const FEED_MAX_AGE_SECONDS = 300;
+
+function absoluteUrl(path: string): string {
+  return `${SITE_CONFIG.url}${path}`;
+}
+
+function feedUrl(feed: Feed, format: FeedFormat): string {
+  return absoluteUrl(`${feed.feedPath}.${FEED_EXTENSIONS[format]}`);
+}
+
+/**
+ * Autodiscovery links for a page's Atom and JSON feeds
+ */
+export function feedLinks(title: string, feedPath: string): FeedLink[] {
+  return [
+    { title, href: `${feedPath}.xml`, type: 'application/atom+xml' },
+    { title, href: `${feedPath}.json`, type: 'application/feed+json' },
+  ];
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Control characters other than tab and newlines are not allowed in XML
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+// Newest item date, or null for an empty feed
+export function feedUpdatedAt(feed: Feed): Date | null {
+  const times = feed.items.map((item) => Date.parse(item.date)).filter((time) => !Number.isNaN(time));
+  return times.length > 0 ? new Date(Math.max(...times)) : null;
+}
+
+export function renderAtomFeed(feed: Feed): string {
+  const updated = (feedUpdatedAt(feed) ?? new Date(0)).toISOString();
+  const entries = feed.items.map(
+    (item) => `  <entry>
+    <id>${escapeXml(item.id)}</id>
+    <title>${escapeXml(item.title)}</title>
+    <link rel="alternate" href="${escapeXml(item.url)}"/>
+    <updated>${item.date}</updated>
+    <content type="text">${escapeXml(item.content)}</content>
+  </entry>`
+  );
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(feedUrl(feed, 'atom'))}</id>`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(feedUrl(feed, 'atom'))}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(absoluteUrl(feed.pagePath))}"/>`,
+    `  <updated>${updated}</updated>`,
+    `  <author><name>${escapeXml(feed.author)}</name></author>`,
+    `  <generator uri="${SITE_CONFIG.url}">${escapeXml(SITE_CONFIG.name)}</generator>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+export function renderJsonFeed(feed: Feed): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    description: feed.description,
+    home_page_url: absoluteUrl(feed.pagePath),
+    feed_url: feedUrl(feed, 'json'),
+    authors: [{ name: feed.author }],
+    items: feed.items.map((item) => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      content_text: item.content,
+      date_published: item.date,
+      ...(item.image ? { image: item.image } : {}),
+    })),
+  });
+}
+
+/**
+ * Render a feed and answer conditional requests. The ETag covers the rendered
+ * body; Last-Modified is the newest item. Feeds of private profiles (only ever
+ * served to their owner) are kept out of shared caches.
+ */
+export async function feedResponse(
+  request: Request,
+  feed: Feed,
+  format: FeedFormat,
+  options: { isPrivate?: boolean } = {}
+): Promise<Response> {
+  const body = format === 'atom' ? renderAtomFeed(feed) : renderJsonFeed(feed);
+  const etag = await generateETag(body);
+  const updatedAt = feedUpdatedAt(feed);
+
+  const headers: Record<string, string> = {
+    'Content-Type': FEED_CONTENT_TYPES[format],
+    'Cache-Control': `${options.isPrivate ? 'private' : 'public'}, max-age=${FEED_MAX_AGE_SECONDS}`,
+    ETag: etag,
+  };
+  if (updatedAt) {
+    headers['Last-Modified'] = updatedAt.toUTCString();
+  }
+
+  if (isNotModified(request, etag, updatedAt)) {
+    return new Response(null, { status: 304, headers });
+  }
+  return new Response(body, { status: 200, headers });
+}
+
+// If-None-Match takes precedence over If-Modified-Since when both are sent
+function isNotModified(request: Request, etag: string, updatedAt: Date | null): boolean {
+  const ifNoneMatch = request.headers.get('If-None-Match');
+  if (ifNoneMatch) {
+    return ifNoneMatch
+      .split(',')
+      .map((value) => value.trim().replace(/^W\//, ''))
+      .some((value) => value === etag || value === '*');
+  }
+
+  const ifModifiedSince = request.headers.get('If-Modified-Since');
+  if (ifModifiedSince && updatedAt) {
+    const since = Date.parse(ifModifiedSince);
+    // HTTP dates have second precision
+    return !Number.isNaN(since) && Math.floor(updatedAt.getTime() / 1000) <= Math.floor(since / 1000);
+  }
+
+  return false;
+}
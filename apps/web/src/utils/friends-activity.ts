@@ -0,0 +1,69 @@
+// Last.fm friends activity - each friend's now-playing or most recent track for the profile Friends tab
+// Friends' tracks are fetched in small batches with a pause in between, like the cron's recent tracks pre-warm
+
+import type { Database } from '@listentomore/db';
+import { RecentTracks, type LastfmFriend, type RecentTrack } from '@listentomore/lastfm';
+
+export const MAX_FRIENDS = 24;
+const BATCH_SIZE = 4;
+const BATCH_DELAY_MS = 1000;
+
+export interface FriendActivity {
+  username: string; // Last.fm username
+  realname: string;
+  url: string; // Last.fm profile
+  image: string | null;
+  track: RecentTrack | null;
+  // ListenToMore profile path when the friend has a public account here
+  profilePath: string | null;
+}
+
+/**
+ * Fetch the most recent track for each friend and look up which of them have
+ * ListenToMore accounts. Friends listening right now come first, then the most
+ * recently active; friends whose tracks couldn't be fetched go last.
+ */
+export async function getFriendsActivity(
+  db: Database,
+  apiKey: string,
+  friends: LastfmFriend[]
+): Promise<FriendActivity[]> {
+  const activity: FriendActivity[] = [];
+  const totalBatches = Math.ceil(friends.length / BATCH_SIZE);
+
+  for (let batchIndex = 0; batchIndex < totalBatches; batchIndex++) {
+    const batch = friends.slice(batchIndex * BATCH_SIZE, (batchIndex + 1) * BATCH_SIZE);
+
+    const batchResults = await Promise.all(
+      batch.map(async (friend) => {
+        const [track, member] = await Promise.all([
+          new RecentTracks({ apiKey, username: friend.username }).getMostRecentTrack().catch((error) => {
+            console.error(`Failed to fetch recent track for friend ${friend.username}:`, error);
+            return null;
+          }),
+          db.getUserByLastfmUsername(friend.username),
+        ]);
+
+        // Private profiles stay anonymous, same as on the community feed
+        const profilePath = member && member.profile_visibility !== 'private'
+          ? `/u/${member.username || member.lastfm_username}`
+          : null;
+
+        return { ...friend, track, profilePath };
+      })
+    );
+
+    activity.push(...batchResults);
+
+    // Delay before next batch (except for the last one)
+    if (batchIndex < totalBatches - 1) {
+      await new Promise((resolve) => setTimeout(resolve, BATCH_DELAY_MS));
+    }
+  }
+
+  return activity.sort((a, b) => {
+    if (!a.track || !b.track) return a.track ? -1 : b.track ? 1 : 0;
+    if (a.track.nowPlaying !== b.track.nowPlaying) return a.track.nowPlaying ? -1 : 1;
+    return (b.track.playedAt || '').localeCompare(a.track.playedAt || '');
+  });
+}
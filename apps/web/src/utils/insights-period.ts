@@ -0,0 +1,56 @@
+// Insights period parsing - preset Last.fm periods or a custom date range from the scrobble archive
+
+import { WEEKLY_INSIGHTS_PERIOD, type InsightsPeriod } from '@listentomore/ai';
+import { formatRangeDate, parseCustomDateRange } from './date-range';
+
+export type InsightsPresetPeriod = '7day' | '1month' | '3month';
+
+export type ResolvedInsightsPeriod = InsightsPeriod &
+  (
+    | { source: 'lastfm'; lastfmPeriod: InsightsPresetPeriod }
+    // ISO timestamps, `from` inclusive, `to` exclusive
+    | { source: 'archive'; from: string; to: string }
+  );
+
+const PRESETS: Record<InsightsPresetPeriod, InsightsPeriod> = {
+  '7day': WEEKLY_INSIGHTS_PERIOD,
+  '1month': { key: '1month', label: 'in the past 30 days', span: 'the past 30 days', noun: 'month' },
+  '3month': { key: '3month', label: 'in the past 3 months', span: 'the past 3 months', noun: 'three months' },
+};
+
+/**
+ * Resolve the `period` (and for custom ranges `from`/`to`, YYYY-MM-DD inclusive)
+ * query parameters. Defaults to the past week.
+ */
+export function parseInsightsPeriod(
+  params: { period?: string; from?: string; to?: string },
+  now: Date = new Date()
+): ResolvedInsightsPeriod | { error: string } {
+  const period = params.period || '7day';
+
+  if (period in PRESETS) {
+    const preset = period as InsightsPresetPeriod;
+    return { ...PRESETS[preset], source: 'lastfm', lastfmPeriod: preset };
+  }
+
+  if (period !== 'custom') {
+    return { error: 'Invalid period parameter. Must be one of: 7day, 1month, 3month, custom' };
+  }
+
+  const range = parseCustomDateRange(params.from, params.to, now);
+  if ('error' in range) {
+    return range;
+  }
+
+  const { fromDate, toDate } = range;
+
+  return {
+    key: `${fromDate}_${toDate}`,
+    label: `between ${formatRangeDate(fromDate)} and ${formatRangeDate(toDate)}`,
+    span: `${formatRangeDate(fromDate)} to ${formatRangeDate(toDate)}`,
+    noun: 'stretch',
+    source: 'archive',
+    from: new Date(range.from).toISOString(),
+    to: new Date(range.to).toISOString(),
+  };
+}
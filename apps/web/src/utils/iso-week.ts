@@ -0,0 +1,60 @@
+// ISO 8601 week helpers (weeks start on Monday, week 1 contains the year's first Thursday)
+// Used to key the weekly insights archive, e.g. 2026-W41
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_PATTERN = /^(\d{4})-W(\d{2})$/;
+
+/**
+ * ISO week for a date, in UTC, formatted as YYYY-Www
+ */
+export function getIsoWeek(date: Date = new Date()): string {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  // Shift to the Thursday of this week; its year is the ISO week-numbering year
+  day.setUTCDate(day.getUTCDate() + 3 - ((day.getUTCDay() + 6) % 7));
+  const year = day.getUTCFullYear();
+  const week = Math.floor((day.getTime() - Date.UTC(year, 0, 1)) / DAY_MS / 7) + 1;
+  return `${year}-W${String(week).padStart(2, '0')}`;
+}
+
+function isoWeekMonday(year: number, week: number): Date {
+  const jan4 = new Date(Date.UTC(year, 0, 4));
+  const week1Monday = Date.UTC(year, 0, 4 - ((jan4.getUTCDay() + 6) % 7));
+  return new Date(week1Monday + (week - 1) * 7 * DAY_MS);
+}
+
+/**
+ * Parse a YYYY-Www string into its Monday-to-Sunday dates (UTC midnight).
+ * Returns null for malformed strings and week numbers the year doesn't have.
+ */
+export function parseIsoWeek(value: string): { start: Date; end: Date } | null {
+  const match = WEEK_PATTERN.exec(value);
+  if (!match) return null;
+
+  const year = parseInt(match[1], 10);
+  const week = parseInt(match[2], 10);
+  if (week < 1 || week > 53) return null;
+
+  const start = isoWeekMonday(year, week);
+  // Week 53 only exists in some years; it would otherwise roll into next year's week 1
+  if (getIsoWeek(start) !== value) return null;
+
+  return { start, end: new Date(start.getTime() + 6 * DAY_MS) };
+}
+
+/**
+ * Human label for an ISO week, e.g. "Oct 5 – Oct 11, 2026"
+ */
+export function formatIsoWeekRange(value: string): string {
+  const range = parseIsoWeek(value);
+  if (!range) return value;
+
+  const format = (date: Date, withYear: boolean) =>
+    date.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      ...(withYear ? { year: 'numeric' } : {}),
+      timeZone: 'UTC',
+    });
+
+  return `${format(range.start, false)} – ${format(range.end, true)}`;
+}
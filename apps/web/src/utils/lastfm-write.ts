@@ -0,0 +1,88 @@
+// Last.fm writes on a user's behalf - shared by the internal track API (signed-in
+// users) and the v1 API (key owners). Writes use the session key stored at sign-in;
+// revoked keys ask the user to sign in again.
+
+import type { Context } from 'hono';
+import { LastfmService, LastfmSessionError, LastfmWriteClient } from '@listentomore/lastfm';
+import type { User } from '@listentomore/db';
+import type { Bindings, Variables } from '../types';
+
+type AppContext = Context<{ Bindings: Bindings; Variables: Variables }>;
+
+// Loved tracks looked up for heart state (older loves beyond this show as not loved)
+export const LOVED_LOOKUP_LIMIT = 1000;
+// Cached loved track lists to drop after a love/unlove (likes page + lookup)
+const LOVED_CACHE_LIMITS = [5, LOVED_LOOKUP_LIMIT];
+
+export const REAUTH_MESSAGE = 'Your Last.fm session has expired. Sign in with Last.fm again to continue.';
+
+export function getUserLastfm(c: AppContext, user: User): LastfmService {
+  return new LastfmService({
+    apiKey: c.env.LASTFM_API_KEY,
+    username: user.lastfm_username!,
+    cache: c.env.CACHE,
+  });
+}
+
+// Write client for the user, or the JSON error to send back
+export function getWriteClient(c: AppContext, user: User): LastfmWriteClient | Response {
+  if (!c.env.LASTFM_SHARED_SECRET) {
+    console.error('LASTFM_SHARED_SECRET not configured');
+    return c.json({ error: 'Last.fm updates are not available right now' }, 503);
+  }
+
+  if (!user.lastfm_session_key || !user.lastfm_username) {
+    return c.json({ error: REAUTH_MESSAGE, reauth: true }, 401);
+  }
+
+  return new LastfmWriteClient({
+    apiKey: c.env.LASTFM_API_KEY,
+    sharedSecret: c.env.LASTFM_SHARED_SECRET,
+    sessionKey: user.lastfm_session_key,
+  });
+}
+
+// Map a failed Last.fm write onto a response; revoked sessions prompt a fresh sign-in
+export async function writeErrorResponse(
+  c: AppContext,
+  user: User,
+  error: unknown,
+  logPrefix: string
+): Promise<Response> {
+  if (error instanceof LastfmSessionError) {
+    // Forget the dead key so we stop using it; signing in again stores a fresh one
+    console.warn(`${logPrefix} Last.fm session rejected for ${user.lastfm_username}`);
+    await c.get('db').updateUser(user.id, { lastfm_session_key: null });
+    return c.json({ error: REAUTH_MESSAGE, reauth: true }, 401);
+  }
+  console.error(`${logPrefix} Last.fm write failed:`, error);
+  return c.json({ error: 'Failed to update Last.fm' }, 502);
+}
+
+/**
+ * Love or unlove a track, then drop the user's cached loved track lists
+ */
+export async function setTrackLoved(
+  c: AppContext,
+  user: User,
+  track: { artist: string; track: string; loved: boolean },
+  logPrefix: string
+): Promise<Response | null> {
+  const client = getWriteClient(c, user);
+  if (client instanceof Response) {
+    return client;
+  }
+
+  try {
+    if (track.loved) {
+      await client.loveTrack(track.artist, track.track);
+    } else {
+      await client.unloveTrack(track.artist, track.track);
+    }
+  } catch (error) {
+    return writeErrorResponse(c, user, error, logPrefix);
+  }
+
+  await getUserLastfm(c, user).lovedTracks.clearCache(LOVED_CACHE_LIMITS);
+  return null;
+}
@@ -0,0 +1,79 @@
+// Listening data provider - Last.fm or ListenBrainz, chosen per user on /account
+// Both services return the same RecentTrack/TopAlbum/TopArtist/TopTrack/LovedTrack shapes
+
+import {
+  LastfmService,
+  type LovedTrack,
+  type RecentTrack,
+  type TimePeriod,
+  type TopAlbum,
+  type TopArtist,
+  type TopTrack,
+} from '@listentomore/lastfm';
+import { ListenBrainzService } from '@listentomore/listenbrainz';
+import type { Database, ListeningSource, User } from '@listentomore/db';
+import { withImportedPlays } from './spotify-history';
+
+export interface ListeningProvider {
+  getRecentTracks(limit?: number): Promise<RecentTrack[]>;
+  getMostRecentTrack(): Promise<RecentTrack | null>;
+  getTopAlbums(period?: TimePeriod, limit?: number): Promise<TopAlbum[]>;
+  /** `includeDetails: false` skips Last.fm's per-artist lookups (image, tags, bio); ListenBrainz ignores it */
+  getTopArtists(period?: TimePeriod, limit?: number, includeDetails?: boolean): Promise<TopArtist[]>;
+  getTopTracks(period?: TimePeriod, limit?: number): Promise<TopTrack[]>;
+  getLovedTracks(limit?: number): Promise<LovedTrack[]>;
+}
+
+export interface UserListening {
+  source: ListeningSource;
+  /** Username on the source service */
+  username: string;
+  provider: ListeningProvider;
+}
+
+export const LISTENING_SOURCE_LABELS: Record<ListeningSource, string> = {
+  lastfm: 'Last.fm',
+  listenbrainz: 'ListenBrainz',
+};
+
+export function listeningProfileUrl(source: ListeningSource, username: string): string {
+  return source === 'listenbrainz'
+    ? `https://listenbrainz.org/user/${encodeURIComponent(username)}/`
+    : `https://www.last.fm/user/${encodeURIComponent(username)}`;
+}
+
+/**
+ * The source a user's listening data comes from. ListenBrainz only applies once
+ * an account is linked; everyone else (and any unlinked choice) uses Last.fm.
+ */
+export function getListeningSource(
+  user: Pick<User, 'lastfm_username' | 'listenbrainz_username' | 'listening_source'>
+): { source: ListeningSource; username: string } | null {
+  if (user.listening_source === 'listenbrainz' && user.listenbrainz_username) {
+    return { source: 'listenbrainz', username: user.listenbrainz_username };
+  }
+  if (user.lastfm_username) {
+    return { source: 'lastfm', username: user.lastfm_username };
+  }
+  return null;
+}
+
+/**
+ * Provider for a user's listening source. Passing `db` folds plays imported from
+ * Spotify streaming history into Last.fm top lists.
+ */
+export function getListeningProvider(
+  user: Pick<User, 'id' | 'lastfm_username' | 'listenbrainz_username' | 'listening_source'>,
+  env: { LASTFM_API_KEY: string; CACHE?: KVNamespace },
+  db?: Database
+): UserListening | null {
+  const listening = getListeningSource(user);
+  if (!listening) return null;
+
+  if (listening.source === 'listenbrainz') {
+    return { ...listening, provider: new ListenBrainzService({ username: listening.username, cache: env.CACHE }) };
+  }
+
+  const lastfm = new LastfmService({ apiKey: env.LASTFM_API_KEY, username: listening.username, cache: env.CACHE });
+  return { ...listening, provider: db ? withImportedPlays(lastfm, db, user.id) : lastfm };
+}
@@ -0,0 +1,145 @@
+// OAuth 2.0 helpers - token generation and hashing, PKCE (S256) verification,
+// scope and redirect URI validation, and issuing access/refresh token pairs
+
+import type { ApiKeyScope, Database } from '@listentomore/db';
+
+export const OAUTH_SCOPES: ApiKeyScope[] = ['read', 'write', 'ai'];
+export const ACCESS_TOKEN_TTL_SECONDS = 60 * 60;
+export const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+export const AUTHORIZATION_CODE_TTL_SECONDS = 10 * 60;
+
+// Token prefixes make leaked credentials easy to recognize, like ltm_ for API keys
+const ACCESS_TOKEN_PREFIX = 'ltmat_';
+const REFRESH_TOKEN_PREFIX = 'ltmrt_';
+const CLIENT_SECRET_PREFIX = 'ltmcs_';
+
+// RFC 7636: 43-128 characters from the unreserved set
+const CODE_VERIFIER_PATTERN = /^[A-Za-z0-9\-._~]{43,128}$/;
+const CODE_CHALLENGE_PATTERN = /^[A-Za-z0-9\-_]{43}$/;
+
+export interface OAuthTokenResponse {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  refresh_token: string;
+  scope: string;
+}
+
+function randomHex(bytes: number): string {
+  const values = new Uint8Array(bytes);
+  crypto.getRandomValues(values);
+  return Array.from(values)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export function generateAuthorizationCode(): string {
+  return randomHex(32);
+}
+
+export function generateClientSecret(): string {
+  return `${CLIENT_SECRET_PREFIX}${randomHex(32)}`;
+}
+
+export function isAccessToken(token: string): boolean {
+  return token.startsWith(ACCESS_TOKEN_PREFIX);
+}
+
+/**
+ * SHA-256 hash of a token, hex encoded. Only hashes are stored in D1.
+ */
+export async function hashToken(token: string): Promise<string> {
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(hash))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+export function isValidCodeChallenge(challenge: string): boolean {
+  return CODE_CHALLENGE_PATTERN.test(challenge);
+}
+
+/**
+ * Check a PKCE code verifier against the S256 challenge sent to /oauth/authorize
+ */
+export async function verifyPkce(verifier: string, challenge: string): Promise<boolean> {
+  if (!CODE_VERIFIER_PATTERN.test(verifier)) {
+    return false;
+  }
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return base64UrlEncode(new Uint8Array(digest)) === challenge;
+}
+
+/**
+ * Parse a space-delimited scope parameter. Defaults to read when omitted;
+ * returns null if any scope is unknown.
+ */
+export function parseScopes(scope: string | undefined): ApiKeyScope[] | null {
+  const requested = [...new Set((scope || 'read').split(' ').filter(Boolean))];
+  if (requested.length === 0 || !requested.every((s) => OAUTH_SCOPES.includes(s as ApiKeyScope))) {
+    return null;
+  }
+  return requested as ApiKeyScope[];
+}
+
+/**
+ * Redirect URIs must be absolute https URLs (or http on a loopback address, for
+ * local tools) without a fragment
+ */
+export function isValidRedirectUri(uri: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    return false;
+  }
+  if (url.hash) return false;
+  if (url.protocol === 'https:') return true;
+  return url.protocol === 'http:' && ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname);
+}
+
+// SQLite datetime format, so expiry columns compare correctly against datetime('now')
+export function sqliteDateFromNow(seconds: number): string {
+  return new Date(Date.now() + seconds * 1000).toISOString().replace('T', ' ').slice(0, 19);
+}
+
+// D1 dates are SQLite datetime values (UTC, no zone)
+export function isPast(sqliteDate: string): boolean {
+  return new Date(`${sqliteDate.replace(' ', 'T')}Z`) <= new Date();
+}
+
+/**
+ * Create and store a new access/refresh token pair for an authorization
+ */
+export async function issueTokens(
+  db: Database,
+  grant: { clientId: string; apiKeyId: string; scopes: ApiKeyScope[] }
+): Promise<OAuthTokenResponse> {
+  const accessToken = `${ACCESS_TOKEN_PREFIX}${randomHex(32)}`;
+  const refreshToken = `${REFRESH_TOKEN_PREFIX}${randomHex(32)}`;
+
+  await db.createOAuthTokens({
+    clientId: grant.clientId,
+    apiKeyId: grant.apiKeyId,
+    accessTokenHash: await hashToken(accessToken),
+    refreshTokenHash: await hashToken(refreshToken),
+    scopes: grant.scopes,
+    accessExpiresAt: sqliteDateFromNow(ACCESS_TOKEN_TTL_SECONDS),
+    refreshExpiresAt: sqliteDateFromNow(REFRESH_TOKEN_TTL_SECONDS),
+  });
+
+  return {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: ACCESS_TOKEN_TTL_SECONDS,
+    refresh_token: refreshToken,
+    scope: grant.scopes.join(' '),
+  };
+}
@@ -0,0 +1,172 @@
+// Incremental Last.fm scrobble history sync into D1
+// Runs from the scheduled() cron; each run advances a few users by a bounded number of pages
+
+import type { Database, User, ScrobbleSyncStatus } from '@listentomore/db';
+import { RecentTracks } from '@listentomore/lastfm';
+
+const PAGE_SIZE = 200; // Last.fm maximum for user.getrecenttracks
+const USERS_PER_RUN = 4;
+const PAGES_PER_USER = 5;
+
+export interface ScrobbleSyncResult {
+  userId: string;
+  pagesFetched: number;
+  inserted: number;
+  status: ScrobbleSyncStatus;
+}
+
+/**
+ * Advance one user's scrobble sync by up to `maxPages` pages.
+ *
+ * Each sync works through a frozen time window so Last.fm's pagination stays
+ * stable while new plays arrive. The first window covers the user's entire
+ * history (the backfill); once it completes, later windows start from the
+ * newest stored play. Progress is saved after every page, so an error or an
+ * exhausted page budget resumes from the same cursor on the next run.
+ */
+export async function syncUserScrobbles(
+  db: Database,
+  user: User,
+  apiKey: string,
+  maxPages: number = PAGES_PER_USER
+): Promise<ScrobbleSyncResult> {
+  if (!user.lastfm_username) {
+    throw new Error(`User ${user.id} has no Last.fm username`);
+  }
+
+  const recentTracks = new RecentTracks({ apiKey, username: user.lastfm_username });
+  const state = await db.ensureScrobbleSyncState(user.id);
+  const backfillDone = state.backfill_completed_at !== null;
+  const inProgressStatus: ScrobbleSyncStatus = backfillDone ? 'synced' : 'backfilling';
+
+  let windowFrom = state.window_from;
+  let windowTo = state.window_to;
+  let page = state.cursor_page;
+  let totalPages = state.total_pages;
+
+  if (windowTo === null) {
+    // `from` is inclusive, so the newest stored play is fetched again; INSERT OR IGNORE drops it
+    windowFrom = state.newest_played_at
+      ? Math.floor(new Date(state.newest_played_at).getTime() / 1000)
+      : null;
+    windowTo = Math.floor(Date.now() / 1000);
+    page = 1;
+    totalPages = 0;
+    await db.updateScrobbleSyncState(user.id, {
+      status: inProgressStatus,
+      window_from: windowFrom,
+      window_to: windowTo,
+      cursor_page: page,
+      total_pages: totalPages,
+    });
+  }
+
+  let newest = state.newest_played_at;
+  let oldest = state.oldest_played_at;
+  let pagesFetched = 0;
+  let inserted = 0;
+  let windowComplete = false;
+
+  try {
+    while (pagesFetched < maxPages) {
+      const result = await recentTracks.getRecentTracksPage({
+        page,
+        limit: PAGE_SIZE,
+        from: windowFrom ?? undefined,
+        to: windowTo,
+      });
+      pagesFetched++;
+      totalPages = result.totalPages;
+
+      const plays = result.tracks.filter(
+        (track): track is typeof track & { playedAt: string } => !track.nowPlaying && !!track.playedAt
+      );
+      inserted += await db.insertScrobbles(
+        user.id,
+        plays.map((track) => ({
+          artist: track.artist,
+          album: track.album || null,
+          track: track.name,
+          url: track.url || null,
+          image_url: track.image,
+          played_at: track.playedAt,
+        }))
+      );
+
+      for (const play of plays) {
+        if (!newest || play.playedAt > newest) newest = play.playedAt;
+        if (!oldest || play.playedAt < oldest) oldest = play.playedAt;
+      }
+
+      if (page >= totalPages) {
+        windowComplete = true;
+        break;
+      }
+      page++;
+
+      await db.updateScrobbleSyncState(user.id, {
+        cursor_page: page,
+        total_pages: totalPages,
+        newest_played_at: newest,
+        oldest_played_at: oldest,
+      });
+    }
+  } catch (error) {
+    await db.updateScrobbleSyncState(user.id, {
+      status: 'error',
+      error_message: error instanceof Error ? error.message : String(error),
+      last_sync_at: new Date().toISOString(),
+    });
+    throw error;
+  }
+
+  const now = new Date().toISOString();
+
+  if (windowComplete) {
+    await db.updateScrobbleSyncState(user.id, {
+      status: 'synced',
+      window_from: null,
+      window_to: null,
+      cursor_page: 1,
+      total_pages: 0,
+      newest_played_at: newest,
+      oldest_played_at: oldest,
+      backfill_completed_at: state.backfill_completed_at ?? now,
+      last_sync_at: now,
+      error_message: null,
+    });
+  } else {
+    await db.updateScrobbleSyncState(user.id, {
+      status: inProgressStatus,
+      last_sync_at: now,
+      error_message: null,
+    });
+  }
+
+  return {
+    userId: user.id,
+    pagesFetched,
+    inserted,
+    status: windowComplete ? 'synced' : inProgressStatus,
+  };
+}
+
+/**
+ * Sync the least recently synced users. Called from the scheduled() cron.
+ */
+export async function syncScrobbles(db: Database, apiKey: string): Promise<void> {
+  const users = await db.getUsersDueForScrobbleSync(USERS_PER_RUN);
+  console.log(`[CRON] Scrobble sync: ${users.length} users due`);
+
+  // Sequential on purpose: each user already makes several Last.fm requests in a row
+  for (const user of users) {
+    try {
+      const result = await syncUserScrobbles(db, user, apiKey);
+      console.log(
+        `[CRON] Scrobble sync for ${user.lastfm_username}: ${result.pagesFetched} pages, ${result.inserted} new plays (${result.status})`
+      );
+    } catch (error) {
+      console.error(`[CRON] Scrobble sync failed for ${user.lastfm_username}:`, error);
+    }
+  }
+}
@@ -49,12 +49,12 @@ export async function createSession(
 }
 
 /**
- * Validate the session cookie and return the user if valid
+ * Validate the session cookie and return the user and session id if valid
  */
 export async function validateSession(
   c: Context,
   db: Database
-): Promise<User | null> {
+): Promise<{ user: User; sessionId: string } | null> {
   const token = getCookie(c, SESSION_COOKIE);
   if (!token) return null;
 
@@ -76,7 +76,8 @@ export async function validateSession(
   // Update last_active_at (fire and forget)
   db.updateSessionActivity(session.id);
 
-  return db.getUser(session.user_id);
+  const user = await db.getUser(session.user_id);
+  return user ? { user, sessionId: session.id } : null;
 }
 
 /**
@@ -0,0 +1,300 @@
+// Spotify streaming history import - parses the extended streaming history export
+// (endsong_*.json / Streaming_History_Audio_*.json) into plays for the D1 scrobble archive,
+// and merges imported plays into Last.fm top lists for stats and insights
+
+import type { TimePeriod, TopAlbum, TopArtist, TopTrack } from '@listentomore/lastfm';
+import type { Database, Scrobble } from '@listentomore/db';
+import type { ListeningProvider } from './listening-provider';
+
+// Same threshold Last.fm uses for a play to count as a scrobble
+const MIN_PLAY_MS = 30 * 1000;
+// Plays of the same track this close together are treated as the same listen
+export const DUPLICATE_WINDOW_MS = 10 * 60 * 1000;
+// Entries accepted per upload request; the browser splits files into chunks this size
+export const MAX_IMPORT_CHUNK_SIZE = 2000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BACKUP_IMAGE_URL = 'https://file.elezea.com/noun-no-image.png';
+
+const FILE_NAME_PATTERN = /^(endsong_\d+|Streaming_History_Audio_[\w-]+)\.json$/i;
+
+// Days covered by each Last.fm period, for querying imported plays over the same window
+const PERIOD_DAYS: Record<Exclude<TimePeriod, 'overall'>, number> = {
+  '7day': 7,
+  '1month': 30,
+  '3month': 90,
+  '6month': 180,
+  '12month': 365,
+};
+
+/** The fields we keep from each streaming history entry (the browser strips the rest) */
+export interface StreamingHistoryEntry {
+  ts?: unknown; // ISO time the stream ended
+  ms_played?: unknown;
+  master_metadata_track_name?: unknown;
+  master_metadata_album_artist_name?: unknown;
+  master_metadata_album_album_name?: unknown;
+  spotify_track_uri?: unknown;
+}
+
+export type ImportedPlay = Pick<Scrobble, 'artist' | 'album' | 'track' | 'url' | 'image_url' | 'played_at'>;
+
+export function isStreamingHistoryFileName(name: string): boolean {
+  return FILE_NAME_PATTERN.test(name);
+}
+
+function trackKey(artist: string, track: string): string {
+  return `${artist.trim().toLowerCase()}|${track.trim().toLowerCase()}`;
+}
+
+function spotifyTrackUrl(uri: unknown): string | null {
+  if (typeof uri !== 'string') return null;
+  const match = uri.match(/^spotify:track:([A-Za-z0-9]+)$/);
+  return match ? `https://open.spotify.com/track/${match[1]}` : null;
+}
+
+/**
+ * Turn raw history entries into plays. Podcasts and videos (no track metadata)
+ * and streams under 30 seconds are skipped. Spotify records when a stream
+ * ended; plays are stored by start time to line up with Last.fm scrobbles.
+ */
+export function normalizeStreamingHistory(entries: StreamingHistoryEntry[]): {
+  plays: ImportedPlay[];
+  skipped: number;
+} {
+  const plays: ImportedPlay[] = [];
+  const seen = new Set<string>();
+  let skipped = 0;
+
+  for (const entry of entries) {
+    const track = entry?.master_metadata_track_name;
+    const artist = entry?.master_metadata_album_artist_name;
+    const msPlayed = entry?.ms_played;
+    const endedAt = typeof entry?.ts === 'string' ? Date.parse(entry.ts) : NaN;
+
+    if (
+      typeof track !== 'string' ||
+      typeof artist !== 'string' ||
+      !track.trim() ||
+      !artist.trim() ||
+      typeof msPlayed !== 'number' ||
+      msPlayed < MIN_PLAY_MS ||
+      Number.isNaN(endedAt)
+    ) {
+      skipped++;
+      continue;
+    }
+
+    const startedAt = Math.floor((endedAt - msPlayed) / 1000) * 1000;
+    const play: ImportedPlay = {
+      artist: artist.trim(),
+      album: typeof entry.master_metadata_album_album_name === 'string' ? entry.master_metadata_album_album_name.trim() || null : null,
+      track: track.trim(),
+      url: spotifyTrackUrl(entry.spotify_track_uri),
+      image_url: null,
+      played_at: new Date(startedAt).toISOString(),
+    };
+
+    // The same stream can appear in overlapping exports
+    const key = `${play.played_at}|${trackKey(play.artist, play.track)}`;
+    if (seen.has(key)) {
+      skipped++;
+      continue;
+    }
+    seen.add(key);
+    plays.push(play);
+  }
+
+  return { plays, skipped };
+}
+
+/**
+ * Split plays into new ones and ones already stored (Last.fm scrobbles or an
+ * earlier import). A stored play matches at most one imported play: the closest
+ * one of the same artist and track within DUPLICATE_WINDOW_MS.
+ */
+export function partitionDuplicatePlays(
+  plays: ImportedPlay[],
+  existing: Array<Pick<Scrobble, 'artist' | 'track' | 'played_at'>>
+): { fresh: ImportedPlay[]; duplicates: number } {
+  const stored = new Map<string, number[]>();
+  for (const play of existing) {
+    const key = trackKey(play.artist, play.track);
+    const times = stored.get(key) ?? [];
+    times.push(Date.parse(play.played_at));
+    stored.set(key, times);
+  }
+
+  const fresh: ImportedPlay[] = [];
+  let duplicates = 0;
+
+  for (const play of plays) {
+    const times = stored.get(trackKey(play.artist, play.track));
+    const time = Date.parse(play.played_at);
+
+    let closest = -1;
+    if (times) {
+      for (let i = 0; i < times.length; i++) {
+        const distance = Math.abs(times[i] - time);
+        if (distance <= DUPLICATE_WINDOW_MS && (closest === -1 || distance < Math.abs(times[closest] - time))) {
+          closest = i;
+        }
+      }
+    }
+
+    if (closest === -1) {
+      fresh.push(play);
+    } else {
+      times!.splice(closest, 1);
+      duplicates++;
+    }
+  }
+
+  return { fresh, duplicates };
+}
+
+/** ISO range covered by a Last.fm period, ending now */
+export function periodRange(period: TimePeriod, now: Date = new Date()): { from: string; to: string } {
+  const from = period === 'overall' ? new Date(0) : new Date(now.getTime() - PERIOD_DAYS[period] * DAY_MS);
+  return { from: from.toISOString(), to: now.toISOString() };
+}
+
+/**
+ * Add imported play counts to a Last.fm top artists list. Artists only in the
+ * import are appended without Last.fm details; the list is re-sorted by plays.
+ */
+export function mergeTopArtists(
+  artists: TopArtist[],
+  imported: Array<{ artist: string; plays: number }>,
+  limit: number
+): TopArtist[] {
+  const merged = artists.map((a) => ({ ...a }));
+  const byName = new Map(merged.map((a) => [a.name.toLowerCase(), a]));
+
+  for (const row of imported) {
+    const match = byName.get(row.artist.toLowerCase());
+    if (match) {
+      match.playcount += row.plays;
+    } else {
+      const artist: TopArtist = {
+        name: row.artist,
+        playcount: row.plays,
+        url: `https://www.last.fm/music/${encodeURIComponent(row.artist)}`,
+        image: BACKUP_IMAGE_URL,
+        tags: [],
+        bio: '',
+      };
+      merged.push(artist);
+      byName.set(row.artist.toLowerCase(), artist);
+    }
+  }
+
+  return merged.sort((a, b) => b.playcount - a.playcount).slice(0, limit);
+}
+
+export function mergeTopAlbums(
+  albums: TopAlbum[],
+  imported: Array<{ artist: string; album: string; plays: number; image_url: string | null }>,
+  limit: number
+): TopAlbum[] {
+  const merged = albums.map((a) => ({ ...a }));
+  const byKey = new Map(merged.map((a) => [trackKey(a.artist, a.name), a]));
+
+  for (const row of imported) {
+    const key = trackKey(row.artist, row.album);
+    const match = byKey.get(key);
+    if (match) {
+      match.playcount += row.plays;
+    } else {
+      const artistUrl = `https://www.last.fm/music/${encodeURIComponent(row.artist)}`;
+      const album: TopAlbum = {
+        artist: row.artist,
+        artistUrl,
+        name: row.album,
+        playcount: row.plays,
+        albumUrl: `${artistUrl}/${encodeURIComponent(row.album)}`,
+        image: row.image_url || BACKUP_IMAGE_URL,
+      };
+      merged.push(album);
+      byKey.set(key, album);
+    }
+  }
+
+  return merged.sort((a, b) => b.playcount - a.playcount).slice(0, limit);
+}
+
+export function mergeTopTracks(
+  tracks: TopTrack[],
+  imported: Array<{ artist: string; track: string; plays: number }>,
+  limit: number
+): TopTrack[] {
+  const merged = tracks.map((t) => ({ ...t }));
+  const byKey = new Map(merged.map((t) => [trackKey(t.artist, t.name), t]));
+
+  for (const row of imported) {
+    const key = trackKey(row.artist, row.track);
+    const match = byKey.get(key);
+    if (match) {
+      match.playcount += row.plays;
+    } else {
+      const artistUrl = `https://www.last.fm/music/${encodeURIComponent(row.artist)}`;
+      const track: TopTrack = {
+        artist: row.artist,
+        artistUrl,
+        name: row.track,
+        playcount: row.plays,
+        url: `${artistUrl}/_/${encodeURIComponent(row.track)}`,
+      };
+      merged.push(track);
+      byKey.set(key, track);
+    }
+  }
+
+  return merged.sort((a, b) => b.playcount - a.playcount).slice(0, limit);
+}
+
+/**
+ * Wrap a Last.fm provider so top artists, albums and tracks include plays imported from
+ * Spotify over the same period. Imported plays never overlap stored Last.fm plays
+ * (duplicates are dropped at import), so counts can simply be added.
+ */
+export function withImportedPlays(provider: ListeningProvider, db: Database, userId: string): ListeningProvider {
+  return {
+    getRecentTracks: (limit) => provider.getRecentTracks(limit),
+    getMostRecentTrack: () => provider.getMostRecentTrack(),
+    getLovedTracks: (limit) => provider.getLovedTracks(limit),
+
+    async getTopArtists(period = '7day', limit = 6, includeDetails) {
+      const [artists, imported] = await Promise.all([
+        provider.getTopArtists(period, limit, includeDetails),
+        db.getTopScrobbledArtists(userId, periodRange(period), limit, 'spotify').catch((error) => {
+          console.error('[Spotify Import] Failed to load imported top artists:', error);
+          return [];
+        }),
+      ]);
+      return imported.length > 0 ? mergeTopArtists(artists, imported, limit) : artists;
+    },
+
+    async getTopAlbums(period = '7day', limit = 6) {
+      const [albums, imported] = await Promise.all([
+        provider.getTopAlbums(period, limit),
+        db.getTopScrobbledAlbums(userId, periodRange(period), limit, 'spotify').catch((error) => {
+          console.error('[Spotify Import] Failed to load imported top albums:', error);
+          return [];
+        }),
+      ]);
+      return imported.length > 0 ? mergeTopAlbums(albums, imported, limit) : albums;
+    },
+
+    async getTopTracks(period = '7day', limit = 10) {
+      const [tracks, imported] = await Promise.all([
+        provider.getTopTracks(period, limit),
+        db.getTopScrobbledTracks(userId, periodRange(period), limit, 'spotify').catch((error) => {
+          console.error('[Spotify Import] Failed to load imported top tracks:', error);
+          return [];
+        }),
+      ]);
+      return imported.length > 0 ? mergeTopTracks(tracks, imported, limit) : tracks;
+    },
+  };
+}
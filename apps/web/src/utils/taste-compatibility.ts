@@ -0,0 +1,259 @@
+// Taste compatibility - how much two users' top artists and albums overlap across several periods
+// Used by /u/:username/compare/:other and the internal compare endpoints
+
+import { CACHE_CONFIG, getTtlSeconds } from '@listentomore/config';
+import type { TasteCompatibilityData } from '@listentomore/ai';
+import type { TimePeriod, TopAlbum, TopArtist } from '@listentomore/lastfm';
+import type { ListeningProvider } from './listening-provider';
+
+export const COMPARE_PERIODS: TimePeriod[] = ['1month', '6month', 'overall'];
+const COMPARE_LIST_LIMIT = 20;
+const PICKS_LIMIT = 6;
+
+// Artists are only shown by name, so the lists skip Last.fm's per-artist detail lookups
+export interface ComparedArtist {
+  name: string;
+}
+
+export interface ComparedAlbum {
+  name: string;
+  artist: string;
+  image: string | null;
+}
+
+export interface PeriodOverlap {
+  period: TimePeriod;
+  // Percentages, 0-100; null when either user has no plays in the period
+  score: number | null;
+  artists: number | null;
+  albums: number | null;
+}
+
+export interface TastePicks {
+  artists: ComparedArtist[];
+  albums: ComparedAlbum[];
+}
+
+export interface TasteComparison {
+  // Average of the periods both users have plays in, 0-100
+  score: number;
+  periods: PeriodOverlap[];
+  shared: TastePicks;
+  unique: { user: TastePicks; other: TastePicks };
+}
+
+export interface PeriodTopLists {
+  period: TimePeriod;
+  artists: TopArtist[];
+  albums: TopAlbum[];
+}
+
+interface Weighted<T> {
+  item: T;
+  weight: number;
+}
+
+function artistKey(artist: TopArtist): string {
+  return artist.name.toLowerCase().trim();
+}
+
+function albumKey(album: TopAlbum): string {
+  return `${album.artist.toLowerCase().trim()}|${album.name.toLowerCase().trim()}`;
+}
+
+// Each item's share of the list's plays
+function shares<T extends { playcount: number }>(items: T[], key: (item: T) => string): Map<string, Weighted<T>> {
+  const total = items.reduce((sum, item) => sum + item.playcount, 0);
+  const result = new Map<string, Weighted<T>>();
+  if (total === 0) return result;
+
+  for (const item of items) {
+    const k = key(item);
+    const existing = result.get(k);
+    result.set(k, { item: existing?.item ?? item, weight: (existing?.weight ?? 0) + item.playcount / total });
+  }
+  return result;
+}
+
+/**
+ * Overlap of two play-share distributions (Bhattacharyya coefficient): 1 when both
+ * users split their plays the same way, 0 when they share nothing. Sharing a
+ * favorite counts for more than sharing something either of them barely plays.
+ */
+function overlap<T>(a: Map<string, Weighted<T>>, b: Map<string, Weighted<T>>): number | null {
+  if (a.size === 0 || b.size === 0) return null;
+
+  let sum = 0;
+  for (const [k, { weight }] of a) {
+    const other = b.get(k);
+    if (other) sum += Math.sqrt(weight * other.weight);
+  }
+  return Math.round(Math.min(sum, 1) * 100);
+}
+
+// Add a period's shares into the running all-period totals
+function accumulate<T>(totals: Map<string, Weighted<T>>, period: Map<string, Weighted<T>>) {
+  for (const [k, { item, weight }] of period) {
+    const existing = totals.get(k);
+    totals.set(k, { item: existing?.item ?? item, weight: (existing?.weight ?? 0) + weight });
+  }
+}
+
+function byWeight<T>(entries: Array<Weighted<T>>): T[] {
+  return entries
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, PICKS_LIMIT)
+    .map((entry) => entry.item);
+}
+
+function shared<T>(a: Map<string, Weighted<T>>, b: Map<string, Weighted<T>>): T[] {
+  const both: Array<Weighted<T>> = [];
+  for (const [k, entry] of a) {
+    const other = b.get(k);
+    // Rank shared picks by the smaller weight so both users actually care about them
+    if (other) both.push({ item: entry.item, weight: Math.min(entry.weight, other.weight) });
+  }
+  return byWeight(both);
+}
+
+function unique<T>(a: Map<string, Weighted<T>>, b: Map<string, Weighted<T>>): T[] {
+  return byWeight([...a.entries()].filter(([k]) => !b.has(k)).map(([, entry]) => entry));
+}
+
+function toArtist(artist: TopArtist): ComparedArtist {
+  return { name: artist.name };
+}
+
+function toAlbum(album: TopAlbum): ComparedAlbum {
+  return { name: album.name, artist: album.artist, image: album.image || null };
+}
+
+/**
+ * Compare two users' top lists. Both arrays hold the same periods in the same order.
+ * Shared and unique picks are taken across all periods, so a long-time favorite
+ * and a recent obsession both count.
+ */
+export function compareTopLists(user: PeriodTopLists[], other: PeriodTopLists[]): TasteComparison {
+  const totals = {
+    user: { artists: new Map<string, Weighted<TopArtist>>(), albums: new Map<string, Weighted<TopAlbum>>() },
+    other: { artists: new Map<string, Weighted<TopArtist>>(), albums: new Map<string, Weighted<TopAlbum>>() },
+  };
+
+  const periods: PeriodOverlap[] = user.map((lists, i) => {
+    const userArtists = shares(lists.artists, artistKey);
+    const userAlbums = shares(lists.albums, albumKey);
+    const otherArtists = shares(other[i].artists, artistKey);
+    const otherAlbums = shares(other[i].albums, albumKey);
+
+    accumulate(totals.user.artists, userArtists);
+    accumulate(totals.user.albums, userAlbums);
+    accumulate(totals.other.artists, otherArtists);
+    accumulate(totals.other.albums, otherAlbums);
+
+    const artists = overlap(userArtists, otherArtists);
+    const albums = overlap(userAlbums, otherAlbums);
+    const scores = [artists, albums].filter((s): s is number => s !== null);
+
+    return {
+      period: lists.period,
+      score: scores.length > 0 ? Math.round(scores.reduce((sum, s) => sum + s, 0) / scores.length) : null,
+      artists,
+      albums,
+    };
+  });
+
+  const scored = periods.map((p) => p.score).filter((s): s is number => s !== null);
+
+  return {
+    score: scored.length > 0 ? Math.round(scored.reduce((sum, s) => sum + s, 0) / scored.length) : 0,
+    periods,
+    shared: {
+      artists: shared(totals.user.artists, totals.other.artists).map(toArtist),
+      albums: shared(totals.user.albums, totals.other.albums).map(toAlbum),
+    },
+    unique: {
+      user: {
+        artists: unique(totals.user.artists, totals.other.artists).map(toArtist),
+        albums: unique(totals.user.albums, totals.other.albums).map(toAlbum),
+      },
+      other: {
+        artists: unique(totals.other.artists, totals.user.artists).map(toArtist),
+        albums: unique(totals.other.albums, totals.user.albums).map(toAlbum),
+      },
+    },
+  };
+}
+
+// Failed lists count as empty so the comparison still renders; `complete` is false if any failed
+async function fetchTopLists(provider: ListeningProvider): Promise<{ lists: PeriodTopLists[]; complete: boolean }> {
+  let complete = true;
+  const failed = () => {
+    complete = false;
+    return [];
+  };
+
+  const lists = await Promise.all(
+    COMPARE_PERIODS.map(async (period) => {
+      const [artists, albums] = await Promise.all([
+        provider.getTopArtists(period, COMPARE_LIST_LIMIT, false).catch(failed),
+        provider.getTopAlbums(period, COMPARE_LIST_LIMIT).catch(failed),
+      ]);
+      return { period, artists, albums };
+    })
+  );
+  return { lists, complete };
+}
+
+/**
+ * Compare two users, cached per (ordered) pair of user IDs. Comparisons built
+ * while a list failed to load are returned but not cached.
+ */
+export async function getTasteComparison(
+  cache: KVNamespace,
+  user: { id: string; provider: ListeningProvider },
+  other: { id: string; provider: ListeningProvider }
+): Promise<TasteComparison> {
+  const cacheKey = `taste-compare:${user.id}:${other.id}`;
+  const cached = await cache.get<TasteComparison>(cacheKey, 'json');
+  if (cached) {
+    return cached;
+  }
+
+  const [userLists, otherLists] = await Promise.all([fetchTopLists(user.provider), fetchTopLists(other.provider)]);
+  const comparison = compareTopLists(userLists.lists, otherLists.lists);
+
+  if (userLists.complete && otherLists.complete) {
+    await cache.put(cacheKey, JSON.stringify(comparison), {
+      expirationTtl: getTtlSeconds(CACHE_CONFIG.lastfm.tasteCompatibility),
+    });
+  }
+
+  return comparison;
+}
+
+/**
+ * The comparison in the shape the "what you'd bond over" prompt takes
+ */
+export function tasteCompatibilityData(
+  comparison: TasteComparison,
+  username: string,
+  otherUsername: string
+): TasteCompatibilityData {
+  const names = (albums: ComparedAlbum[]) => albums.map((a) => ({ name: a.name, artist: a.artist }));
+
+  return {
+    score: comparison.score,
+    sharedArtists: comparison.shared.artists.map((a) => a.name),
+    sharedAlbums: names(comparison.shared.albums),
+    user: {
+      username,
+      uniqueArtists: comparison.unique.user.artists.map((a) => a.name),
+      uniqueAlbums: names(comparison.unique.user.albums),
+    },
+    other: {
+      username: otherUsername,
+      uniqueArtists: comparison.unique.other.artists.map((a) => a.name),
+      uniqueAlbums: names(comparison.unique.other.albums),
+    },
+  };
+}
@@ -0,0 +1,95 @@
+// Tag-based taste profile - a user's genre breakdown from their top artists' Last.fm tags
+// Each artist's plays are split across its tags, and tags are folded into the genre slugs in data/genres
+
+import type { ArtistTag, LastfmService } from '@listentomore/lastfm';
+import { slugToDisplayName, tagToGenreSlug, type GenreSlug } from '../data/genres';
+
+export const TASTE_PROFILE_ARTIST_LIMIT = 15;
+const TASTE_PROFILE_GENRE_LIMIT = 8;
+const ARTISTS_PER_GENRE = 3;
+
+export interface TasteProfileArtist {
+  name: string;
+  playcount: number;
+}
+
+export interface TasteGenre {
+  slug: GenreSlug;
+  name: string;
+  // Percentage of the weighted plays, rounded
+  share: number;
+  // The artists contributing most to this genre
+  artists: string[];
+}
+
+/**
+ * Weight each artist's genre tags by their play count. An artist's plays are split
+ * across its genres in proportion to the tag weights, so an artist tagged mostly
+ * "jazz" and a little "soul" counts mostly towards jazz. Artists with no tags that
+ * map to a genre are left out of the totals.
+ */
+export function buildTasteProfile(
+  artists: Array<TasteProfileArtist & { tags: ArtistTag[] }>,
+  limit: number = TASTE_PROFILE_GENRE_LIMIT
+): TasteGenre[] {
+  const scores = new Map<GenreSlug, { score: number; artists: Array<{ name: string; score: number }> }>();
+  let total = 0;
+
+  for (const artist of artists) {
+    // Several tags can land on the same genre ("hip hop", "rap"); keep the strongest
+    const weights = new Map<GenreSlug, number>();
+    for (const tag of artist.tags) {
+      const slug = tagToGenreSlug(tag.name);
+      if (slug && tag.count > (weights.get(slug) ?? 0)) {
+        weights.set(slug, tag.count);
+      }
+    }
+
+    const tagTotal = [...weights.values()].reduce((sum, count) => sum + count, 0);
+    if (tagTotal === 0 || artist.playcount <= 0) continue;
+
+    for (const [slug, count] of weights) {
+      const score = (artist.playcount * count) / tagTotal;
+      const genre = scores.get(slug) ?? { score: 0, artists: [] };
+      genre.score += score;
+      genre.artists.push({ name: artist.name, score });
+      scores.set(slug, genre);
+    }
+    total += artist.playcount;
+  }
+
+  if (total === 0) return [];
+
+  return [...scores.entries()]
+    .map(([slug, genre]) => ({
+      slug,
+      name: slugToDisplayName(slug),
+      share: Math.round((genre.score / total) * 100),
+      artists: genre.artists
+        .sort((a, b) => b.score - a.score)
+        .slice(0, ARTISTS_PER_GENRE)
+        .map((a) => a.name),
+    }))
+    .filter((genre) => genre.share > 0)
+    .sort((a, b) => b.share - a.share)
+    .slice(0, limit);
+}
+
+/**
+ * Fetch top tags for each artist (cached for 30 days) and build the profile
+ */
+export async function getTasteProfile(
+  lastfm: LastfmService,
+  artists: TasteProfileArtist[]
+): Promise<TasteGenre[]> {
+  const tags = await Promise.all(
+    artists.map((artist) =>
+      lastfm.getArtistTopTags(artist.name).catch((error) => {
+        console.error(`Error fetching top tags for ${artist.name}:`, error);
+        return [] as ArtistTag[];
+      })
+    )
+  );
+
+  return buildTasteProfile(artists.map((artist, i) => ({ ...artist, tags: tags[i] })));
+}
@@ -0,0 +1,144 @@
+// "Owned but unplayed" report - joins a user's Discogs collection with their Last.fm album plays
+// Titles and artists differ between the two services, so they are reconciled with fuzzy matching
+
+import type { DiscogsRelease } from '@listentomore/db';
+import type { LastfmService, TopAlbum } from '@listentomore/lastfm';
+import { similarity, normalizeString } from '@listentomore/streaming-links';
+
+const ARTIST_MATCH_THRESHOLD = 0.85;
+const TITLE_MATCH_THRESHOLD = 0.85;
+const MAX_TOP_ALBUM_PAGES = 5; // 5,000 albums; anything further down has a handful of plays at most
+
+export interface UnplayedRecord {
+  id: number;
+  title: string;
+  artist: string;
+  year: number | null;
+  format: string | null;
+  image: string | null;
+  discogsUrl: string;
+  dateAdded: string | null;
+}
+
+export interface UnplayedReport {
+  totalReleases: number;
+  playedReleases: number;
+  unplayed: UnplayedRecord[];
+  albumsScanned: number;
+  // False when the user's album history was longer than we page through
+  complete: boolean;
+}
+
+/**
+ * Page through a user's all-time top albums (most played first)
+ */
+export async function fetchAllTopAlbums(
+  lastfm: LastfmService,
+  maxPages: number = MAX_TOP_ALBUM_PAGES
+): Promise<{ albums: TopAlbum[]; complete: boolean }> {
+  const albums: TopAlbum[] = [];
+  let page = 1;
+  let totalPages = 1;
+
+  while (page <= totalPages && page <= maxPages) {
+    const result = await lastfm.topAlbums.getTopAlbumsPage('overall', page);
+    albums.push(...result.albums);
+    totalPages = result.totalPages;
+    if (result.albums.length === 0) break;
+    page++;
+  }
+
+  return { albums, complete: page > totalPages };
+}
+
+function artistKey(name: string): string {
+  const key = normalizeString(name).replace(/^the /, '');
+  // Discogs credits compilations to "Various", Last.fm to "Various Artists"
+  return key === 'various' ? 'various artists' : key;
+}
+
+/**
+ * Index Last.fm albums by normalized artist so each release only compares
+ * titles against that artist's albums
+ */
+function indexByArtist(albums: TopAlbum[]): Map<string, TopAlbum[]> {
+  const index = new Map<string, TopAlbum[]>();
+  for (const album of albums) {
+    const key = artistKey(album.artist);
+    const list = index.get(key);
+    if (list) {
+      list.push(album);
+    } else {
+      index.set(key, [album]);
+    }
+  }
+  return index;
+}
+
+function findArtistAlbums(index: Map<string, TopAlbum[]>, artist: string): TopAlbum[] {
+  // Discogs joins multiple credited artists with ", "
+  const keys = artist.split(', ').map(artistKey).filter(Boolean);
+  const exact = keys.flatMap((key) => index.get(key) ?? []);
+  if (exact.length > 0) return exact;
+
+  // Fuzzy fallback for spelling differences ("Beyonce" vs "Beyoncé", "&" vs "and")
+  const matches: TopAlbum[] = [];
+  for (const key of keys) {
+    for (const [candidate, albums] of index) {
+      // Cheap length check first; Levenshtein on every pair is too slow for large libraries
+      if (Math.abs(candidate.length - key.length) > Math.max(candidate.length, key.length) * (1 - ARTIST_MATCH_THRESHOLD)) continue;
+      if (similarity(candidate, key) >= ARTIST_MATCH_THRESHOLD) {
+        matches.push(...albums);
+      }
+    }
+  }
+  return matches;
+}
+
+/**
+ * Total Last.fm plays for a release. Several Last.fm entries can match one
+ * release (e.g. "Album" and "Album (Deluxe Edition)"), so their plays are summed.
+ */
+function releasePlaycount(index: Map<string, TopAlbum[]>, release: DiscogsRelease): number {
+  return findArtistAlbums(index, release.artist)
+    .filter((album) => similarity(album.name, release.title) >= TITLE_MATCH_THRESHOLD)
+    .reduce((sum, album) => sum + album.playcount, 0);
+}
+
+/**
+ * Build the report. Unplayed records are ordered by how long they have been
+ * on the shelf, oldest additions first.
+ */
+export function buildUnplayedReport(
+  releases: DiscogsRelease[],
+  albums: TopAlbum[],
+  complete: boolean
+): UnplayedReport {
+  const index = indexByArtist(albums);
+  const unplayed: UnplayedRecord[] = [];
+
+  for (const release of releases) {
+    if (releasePlaycount(index, release) > 0) continue;
+
+    unplayed.push({
+      id: release.id,
+      title: release.title,
+      artist: release.artist,
+      year: release.original_year ?? release.year,
+      format: release.format,
+      image: release.image_url,
+      discogsUrl: release.discogs_url ?? `https://www.discogs.com/release/${release.id}`,
+      dateAdded: release.date_added,
+    });
+  }
+
+  unplayed.sort((a, b) => (a.dateAdded ?? '').localeCompare(b.dateAdded ?? ''));
+
+  return {
+    totalReleases: releases.length,
+    playedReleases: releases.length - unplayed.length,
+    unplayed,
+    albumsScanned: albums.length,
+    complete,
+  };
+}
@@ -0,0 +1,219 @@
+// Webhook delivery - signed JSON POSTs for now-playing changes and new weekly insights
+// The first attempt is made right away; failures are retried by the cron with backoff,
+// and a webhook is disabled after too many deliveries in a row fail
+
+import { WEBHOOK_EVENTS, type Database, type ParsedWebhook, type WebhookDelivery, type WebhookEvent } from '@listentomore/db';
+import { fetchWithTimeout } from '@listentomore/shared';
+
+// Minutes to wait before each retry; a delivery gets one attempt plus one per entry
+export const WEBHOOK_RETRY_DELAYS_MINUTES = [5, 15, 60, 240, 720];
+export const WEBHOOK_MAX_ATTEMPTS = WEBHOOK_RETRY_DELAYS_MINUTES.length + 1;
+// Deliveries in a row that use up every retry before the webhook is disabled
+export const WEBHOOK_DISABLE_AFTER_FAILURES = 10;
+export const MAX_WEBHOOKS_PER_USER = 5;
+export const WEBHOOK_DELIVERY_RETENTION_DAYS = 30;
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+const WEBHOOK_SECRET_PREFIX = 'whsec_';
+// Deliveries retried per cron run
+const RETRY_BATCH_SIZE = 50;
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  'now_playing.changed': 'Now playing – a new track starts playing',
+  'insights.weekly': 'Weekly insights – a new weekly insight is generated',
+};
+
+export interface WebhookPayload<T = unknown> {
+  id: string;
+  type: WebhookEvent;
+  created_at: string;
+  data: T;
+}
+
+export interface NowPlayingTrack {
+  artist: string;
+  album: string;
+  track: string;
+  image: string | null;
+}
+
+export function generateWebhookSecret(): string {
+  const values = new Uint8Array(24);
+  crypto.getRandomValues(values);
+  return `${WEBHOOK_SECRET_PREFIX}${Array.from(values)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')}`;
+}
+
+/**
+ * Webhook URLs must be https and point at a public host
+ */
+export function isValidWebhookUrl(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:' || url.username || url.password) return false;
+  const host = url.hostname.toLowerCase();
+  return host !== 'localhost' && !host.endsWith('.localhost') && !/^[\d.]+$/.test(host) && !host.startsWith('[');
+}
+
+/**
+ * HMAC-SHA256 of `${timestamp}.${body}`, hex encoded. Receivers recompute it with
+ * their secret and compare against the v1 value in X-ListenToMore-Signature.
+ */
+export async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${body}`));
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// SQLite datetime format, so next_attempt_at compares correctly against datetime('now')
+function sqliteDateFromNow(minutes: number): string {
+  return new Date(Date.now() + minutes * 60 * 1000).toISOString().replace('T', ' ').slice(0, 19);
+}
+
+/**
+ * Whether the now-playing track differs from the one seen on the previous poll
+ */
+export function nowPlayingChanged(
+  previous: (NowPlayingTrack & { nowPlaying: boolean }) | null,
+  current: NowPlayingTrack & { nowPlaying: boolean }
+): boolean {
+  if (!current.nowPlaying) return false;
+  if (!previous?.nowPlaying) return true;
+  return previous.artist !== current.artist || previous.track !== current.track;
+}
+
+/**
+ * POST a delivery to its webhook and record the outcome. Failed attempts are
+ * scheduled for a retry until WEBHOOK_MAX_ATTEMPTS is reached.
+ */
+export async function attemptWebhookDelivery(
+  db: Database,
+  webhook: ParsedWebhook,
+  delivery: WebhookDelivery
+): Promise<boolean> {
+  const attempts = delivery.attempts + 1;
+  const timestamp = Math.floor(Date.now() / 1000);
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    const signature = await signWebhookPayload(webhook.secret, timestamp, delivery.payload);
+    const response = await fetchWithTimeout(webhook.url, {
+      method: 'POST',
+      timeout: WEBHOOK_TIMEOUT_MS,
+      redirect: 'manual',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'ListenToMore-Webhooks/1.0',
+        'X-ListenToMore-Event': delivery.event,
+        'X-ListenToMore-Delivery': delivery.id,
+        'X-ListenToMore-Signature': `t=${timestamp},v1=${signature}`,
+      },
+      body: delivery.payload,
+    });
+    responseStatus = response.status;
+    if (!response.ok) {
+      error = `HTTP ${response.status}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const succeeded = error === null;
+  const exhausted = !succeeded && attempts >= WEBHOOK_MAX_ATTEMPTS;
+
+  await db.recordWebhookAttempt(
+    delivery,
+    {
+      status: succeeded ? 'succeeded' : exhausted ? 'failed' : 'pending',
+      attempts,
+      nextAttemptAt: succeeded || exhausted ? null : sqliteDateFromNow(WEBHOOK_RETRY_DELAYS_MINUTES[attempts - 1]),
+      responseStatus,
+      error: error?.slice(0, 500) ?? null,
+    },
+    WEBHOOK_DISABLE_AFTER_FAILURES
+  );
+
+  if (!succeeded) {
+    console.warn(`[Webhooks] Delivery ${delivery.id} to webhook ${webhook.id} failed (attempt ${attempts}): ${error}`);
+  }
+  return succeeded;
+}
+
+/**
+ * Queue an event for each of the user's webhooks subscribed to it and make the
+ * first delivery attempt. Returns the number of webhooks notified.
+ */
+export async function dispatchWebhookEvent<T>(
+  db: Database,
+  userId: string,
+  event: WebhookEvent,
+  data: T
+): Promise<number> {
+  const webhooks = await db.getWebhooksForEvent(userId, event);
+
+  await Promise.all(
+    webhooks.map(async (webhook) => {
+      const id = crypto.randomUUID();
+      const payload: WebhookPayload<T> = { id, type: event, created_at: new Date().toISOString(), data };
+      const delivery = await db.createWebhookDelivery({
+        id,
+        webhookId: webhook.id,
+        event,
+        payload: JSON.stringify(payload),
+      });
+      await attemptWebhookDelivery(db, webhook, delivery);
+    })
+  );
+
+  return webhooks.length;
+}
+
+/**
+ * Retry deliveries whose backoff has elapsed (run from the cron)
+ */
+export async function retryWebhookDeliveries(db: Database): Promise<{ attempted: number; succeeded: number }> {
+  const due = await db.getDueWebhookDeliveries(RETRY_BATCH_SIZE);
+  let succeeded = 0;
+
+  // Webhooks are re-read per delivery: one may be disabled partway through the batch
+  for (const delivery of due) {
+    const webhook = await db.getWebhook(delivery.webhook_id);
+    if (webhook?.enabled && (await attemptWebhookDelivery(db, webhook, delivery))) {
+      succeeded++;
+    }
+  }
+
+  return { attempted: due.length, succeeded };
+}
+
+/**
+ * Drop finished delivery logs older than the retention window
+ */
+export async function pruneWebhookDeliveryLog(db: Database, now: Date = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - WEBHOOK_DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  return db.pruneWebhookDeliveries(cutoff.toISOString().slice(0, 10));
+}
+
+/**
+ * Keep known events from submitted values; null if none are known
+ */
+export function parseWebhookEvents(values: unknown[]): WebhookEvent[] | null {
+  const events = [...new Set(values)].filter((value): value is WebhookEvent =>
+    WEBHOOK_EVENTS.includes(value as WebhookEvent)
+  );
+  return events.length > 0 ? events : null;
+}
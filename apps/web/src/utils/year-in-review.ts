@@ -0,0 +1,156 @@
+// Year in review stats computed from the D1 scrobble archive
+// Results are cached in KV per user and year; the in-progress year refreshes more often
+
+import { CACHE_CONFIG, getTtlSeconds } from '@listentomore/config';
+import type { Database } from '@listentomore/db';
+
+const TOP_LIMIT = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Last.fm (Audioscrobbler) started recording plays in 2002
+export const FIRST_YEAR = 2002;
+
+export interface YearInReview {
+  year: number;
+  inProgress: boolean;
+  totalPlays: number;
+  daysListened: number;
+  topArtists: Array<{ name: string; playcount: number }>;
+  topAlbums: Array<{ name: string; artist: string; playcount: number; image: string | null }>;
+  topTracks: Array<{ name: string; artist: string; playcount: number }>;
+  // Null when the archive doesn't reach back before this year, so "new" can't be told apart
+  newArtists: Array<{ name: string; playcount: number; firstPlayedAt: string }> | null;
+  newArtistCount: number | null;
+  monthlyPlays: Array<{ month: string; label: string; playcount: number }>;
+  busiestMonth: { month: string; label: string; playcount: number } | null;
+  longestStreak: { days: number; start: string; end: string } | null;
+  // False while the scrobble backfill has not reached the start of this year yet
+  historyComplete: boolean;
+  generatedAt: string;
+}
+
+/**
+ * True for calendar years that can have scrobbles (Last.fm's start through this year)
+ */
+export function isValidReviewYear(year: number, now: Date = new Date()): boolean {
+  return Number.isInteger(year) && year >= FIRST_YEAR && year <= now.getUTCFullYear();
+}
+
+function monthLabel(year: number, monthIndex: number): string {
+  return new Date(Date.UTC(year, monthIndex, 1)).toLocaleString('en-US', { month: 'long', timeZone: 'UTC' });
+}
+
+/**
+ * Longest run of consecutive UTC days with at least one play.
+ * `days` must be sorted ascending (YYYY-MM-DD).
+ */
+export function findLongestStreak(days: string[]): { days: number; start: string; end: string } | null {
+  if (days.length === 0) return null;
+
+  let best = { days: 1, start: days[0], end: days[0] };
+  let runStart = days[0];
+  let runLength = 1;
+
+  for (let i = 1; i < days.length; i++) {
+    const gap = Date.parse(`${days[i]}T00:00:00Z`) - Date.parse(`${days[i - 1]}T00:00:00Z`);
+    if (gap === DAY_MS) {
+      runLength++;
+    } else {
+      runStart = days[i];
+      runLength = 1;
+    }
+
+    if (runLength > best.days) {
+      best = { days: runLength, start: runStart, end: days[i] };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Compute the year in review for a user from their scrobble archive
+ */
+export async function buildYearInReview(db: Database, userId: string, year: number): Promise<YearInReview> {
+  const range = {
+    from: new Date(Date.UTC(year, 0, 1)).toISOString(),
+    to: new Date(Date.UTC(year + 1, 0, 1)).toISOString(),
+  };
+
+  const [syncState, totalPlays, topArtists, topAlbums, topTracks, dailyCounts] = await Promise.all([
+    db.getScrobbleSyncState(userId),
+    db.getScrobbleCount(userId, range),
+    db.getTopScrobbledArtists(userId, range, TOP_LIMIT),
+    db.getTopScrobbledAlbums(userId, range, TOP_LIMIT),
+    db.getTopScrobbledTracks(userId, range, TOP_LIMIT),
+    db.getScrobbleDailyCounts(userId, range),
+  ]);
+
+  const historyComplete =
+    !!syncState?.backfill_completed_at ||
+    (!!syncState?.oldest_played_at && syncState.oldest_played_at < range.from);
+
+  const discoveries = historyComplete
+    ? await db.getNewScrobbledArtists(userId, range, TOP_LIMIT)
+    : null;
+
+  const monthlyPlays = Array.from({ length: 12 }, (_, monthIndex) => ({
+    month: `${year}-${String(monthIndex + 1).padStart(2, '0')}`,
+    label: monthLabel(year, monthIndex),
+    playcount: 0,
+  }));
+  for (const { day, plays } of dailyCounts) {
+    monthlyPlays[parseInt(day.slice(5, 7), 10) - 1].playcount += plays;
+  }
+
+  const busiestMonth = monthlyPlays.reduce<YearInReview['busiestMonth']>(
+    (best, month) => (month.playcount > 0 && (!best || month.playcount > best.playcount) ? month : best),
+    null
+  );
+
+  return {
+    year,
+    inProgress: year === new Date().getUTCFullYear(),
+    totalPlays,
+    daysListened: dailyCounts.length,
+    topArtists: topArtists.map((a) => ({ name: a.artist, playcount: a.plays })),
+    topAlbums: topAlbums.map((a) => ({ name: a.album, artist: a.artist, playcount: a.plays, image: a.image_url })),
+    topTracks: topTracks.map((t) => ({ name: t.track, artist: t.artist, playcount: t.plays })),
+    newArtists: discoveries
+      ? discoveries.artists.map((a) => ({ name: a.artist, playcount: a.plays, firstPlayedAt: a.first_played_at }))
+      : null,
+    newArtistCount: discoveries ? discoveries.total : null,
+    monthlyPlays,
+    busiestMonth,
+    longestStreak: findLongestStreak(dailyCounts.map((d) => d.day)),
+    historyComplete,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Cached wrapper around buildYearInReview
+ */
+export async function getYearInReview(
+  db: Database,
+  cache: KVNamespace,
+  userId: string,
+  year: number
+): Promise<YearInReview> {
+  const cacheKey = `year-in-review:${userId}:${year}`;
+  const cached = await cache.get<YearInReview>(cacheKey, 'json');
+  if (cached) {
+    return cached;
+  }
+
+  const review = await buildYearInReview(db, userId, year);
+
+  // Finished, fully imported years are stable; anything else keeps filling in
+  const ttl =
+    review.inProgress || !review.historyComplete
+      ? CACHE_CONFIG.yearInReview.currentYear
+      : CACHE_CONFIG.yearInReview.pastYear;
+  await cache.put(cacheKey, JSON.stringify(review), { expirationTtl: getTtlSeconds(ttl) });
+
+  return review;
+}
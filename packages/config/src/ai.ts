@@ -181,6 +181,27 @@ export const AI_TASKS = {
     reasoning: 'low',
     verbosity: 'low',
   },
+
+  yearInReview: {
+    provider: 'openai',
+    model: 'gpt-5.6-terra',
+    maxTokens: 4000,
+    temperature: 1,
+    // A finished, fully imported year never changes. The in-progress year and
+    // years the backfill hasn't reached pass a shorter TTL at the call site.
+    cacheTtlDays: 365,
+    reasoning: 'low',
+  },
+
+  tasteCompatibility: {
+    provider: 'openai',
+    model: 'gpt-5.6-terra',
+    maxTokens: 1000,
+    temperature: 1,
+    cacheTtlDays: 7, // Top lists drift week to week
+    reasoning: 'low',
+    verbosity: 'low',
+  },
 } as const satisfies Record<string, AITaskConfig>;
 
 export type AITask = keyof typeof AI_TASKS;
@@ -208,6 +229,10 @@ export const RATE_LIMITS = {
     maxRetries: 2,
     retryDelayMs: 1000,
   },
+  discogs: {
+    requestsPerMinute: 60, // Authenticated limit (25 unauthenticated)
+    requestDelayMs: 1000,
+  },
 } as const;
 
 /**
@@ -16,20 +16,42 @@ export const CACHE_CONFIG = {
     artistDetail: { ttlDays: 30 },
     topAlbums: { ttlHours: 1 },
     topArtists: { ttlHours: 1 },
+    topTracks: { ttlHours: 1 },
     recentTracks: { ttlMinutes: 0 }, // No caching - always live
+    recentTracksRange: { ttlDays: 1 }, // Scrobble pages for a range that has already ended
+    weeklyChartList: { ttlDays: 1 },
+    weeklyChart: { ttlDays: 30 }, // Charts for a range that has already ended
+    openWeeklyChart: { ttlHours: 1 }, // The latest chart, or a range that runs up to now
     lovedTracks: { ttlHours: 1 },
     userListens: { ttlMinutes: 7 }, // Aggregated recent listens for home page (cron pre-warms every 5 min)
     userRecommendations: { ttlHours: 6 }, // Personalized artist recommendations
+    tasteProfile: { ttlHours: 6 }, // Genre breakdown from top artists' tags
+    tasteCompatibility: { ttlHours: 6 }, // Overlap between two users' top lists
     userInfo: { ttlDays: 30 }, // User profile info (avatar, playcount, etc)
+    friends: { ttlHours: 6 },
+    friendsActivity: { ttlMinutes: 5 }, // Friends' recent tracks, fetched in throttled batches
+  },
+
+  listenbrainz: {
+    topAlbums: { ttlHours: 1 },
+    topArtists: { ttlHours: 1 },
+    topTracks: { ttlHours: 1 },
+    lovedTracks: { ttlHours: 1 },
   },
 
   userInsights: {
     refreshCooldown: { ttlMinutes: 5 }, // Rate limit for refresh button
   },
 
+  yearInReview: {
+    pastYear: { ttlDays: 30 }, // Stats for a finished year only change if the archive backfills further
+    currentYear: { ttlHours: 6 },
+  },
+
   discogs: {
     collection: { ttlHours: 8 },
     master: { ttlDays: 90 },
+    unplayedReport: { ttlHours: 6 }, // Collection vs. Last.fm plays; the collection itself syncs daily
   },
 
   songlink: {
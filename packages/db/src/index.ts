@@ -7,13 +7,59 @@ import type {
   Session,
   DiscogsSyncState,
   DiscogsRelease,
+  Scrobble,
+  ScrobbleSource,
+  ScrobbleSyncState,
+  SpotifyImport,
+  ParsedSpotifyImport,
+  WeeklyInsights,
+  ArchivedAlbumRecommendation,
   RateLimit,
   ApiKey,
+  ApiUsageLog,
+  ApiUsageBucket,
   ApiKeyTier,
   ApiKeyScope,
   ParsedApiKey,
+  OAuthClient,
+  ParsedOAuthClient,
+  OAuthAuthorizationCode,
+  OAuthToken,
+  OAuthAuthorization,
+  Webhook,
+  ParsedWebhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  CommunityChartType,
+  CommunityChartEntry,
 } from './schema';
-import { parseApiKey, TIER_RATE_LIMITS } from './schema';
+import { parseApiKey, parseOAuthClient, parseSpotifyImport, parseWebhook, TIER_DAILY_QUOTAS, TIER_RATE_LIMITS } from './schema';
+
+/**
+ * SELECT that groups api_usage_log rows matching a WHERE clause into daily
+ * buckets. Percentiles are nearest-rank: the smallest response time whose rank
+ * within the bucket reaches 50% / 95% of its requests.
+ */
+function usageBucketsFromLog(where: string): string {
+  return `SELECT day, api_key_id, endpoint, method,
+            COUNT(*) AS request_count,
+            SUM(CASE WHEN status_code >= 400 THEN 1 ELSE 0 END) AS error_count,
+            SUM(ms) AS total_response_time_ms,
+            MIN(CASE WHEN rn >= n * 0.5 THEN ms END) AS p50_response_time_ms,
+            MIN(CASE WHEN rn >= n * 0.95 THEN ms END) AS p95_response_time_ms
+          FROM (
+            SELECT date(created_at) AS day, api_key_id, endpoint, method, status_code,
+              COALESCE(response_time_ms, 0) AS ms,
+              ROW_NUMBER() OVER (
+                PARTITION BY date(created_at), api_key_id, endpoint, method
+                ORDER BY COALESCE(response_time_ms, 0)
+              ) AS rn,
+              COUNT(*) OVER (PARTITION BY date(created_at), api_key_id, endpoint, method) AS n
+            FROM api_usage_log WHERE ${where}
+          )
+          GROUP BY day, api_key_id, endpoint, method`;
+}
 
 // Database client wrapper
 export class Database {
@@ -52,6 +98,17 @@ export class Database {
     return result.results;
   }
 
+  async getUsersWithDiscogs(): Promise<User[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT * FROM users
+         WHERE discogs_username IS NOT NULL
+         AND discogs_oauth_token IS NOT NULL`
+      )
+      .all<User>();
+    return result.results;
+  }
+
   async getUserByLastfmUsername(lastfmUsername: string): Promise<User | null> {
     return this.db
       .prepare('SELECT * FROM users WHERE LOWER(lastfm_username) = LOWER(?)')
@@ -93,7 +150,7 @@ export class Database {
 
   async updateUser(
     id: string,
-    data: Partial<Pick<User, 'email' | 'lastfm_username' | 'lastfm_session_key' | 'discogs_username' | 'spotify_connected' | 'display_name' | 'avatar_url' | 'bio' | 'profile_visibility' | 'last_login_at' | 'login_count'>>
+    data: Partial<Pick<User, 'email' | 'lastfm_username' | 'lastfm_session_key' | 'listenbrainz_username' | 'listening_source' | 'discogs_username' | 'discogs_oauth_token' | 'discogs_oauth_token_secret' | 'spotify_connected' | 'display_name' | 'avatar_url' | 'bio' | 'profile_visibility' | 'last_login_at' | 'login_count'>>
   ): Promise<void> {
     const fields: string[] = [];
     const values: unknown[] = [];
@@ -110,10 +167,26 @@ export class Database {
       fields.push('lastfm_session_key = ?');
       values.push(data.lastfm_session_key);
     }
+    if (data.listenbrainz_username !== undefined) {
+      fields.push('listenbrainz_username = ?');
+      values.push(data.listenbrainz_username);
+    }
+    if (data.listening_source !== undefined) {
+      fields.push('listening_source = ?');
+      values.push(data.listening_source);
+    }
     if (data.discogs_username !== undefined) {
       fields.push('discogs_username = ?');
       values.push(data.discogs_username);
     }
+    if (data.discogs_oauth_token !== undefined) {
+      fields.push('discogs_oauth_token = ?');
+      values.push(data.discogs_oauth_token);
+    }
+    if (data.discogs_oauth_token_secret !== undefined) {
+      fields.push('discogs_oauth_token_secret = ?');
+      values.push(data.discogs_oauth_token_secret);
+    }
     if (data.spotify_connected !== undefined) {
       fields.push('spotify_connected = ?');
       values.push(data.spotify_connected);
@@ -228,6 +301,26 @@ export class Database {
       .run();
   }
 
+  /**
+   * Delete one of a user's sessions; ids belonging to other users are ignored
+   */
+  async deleteUserSession(userId: string, id: string): Promise<void> {
+    await this.db
+      .prepare('DELETE FROM sessions WHERE id = ? AND user_id = ?')
+      .bind(id, userId)
+      .run();
+  }
+
+  /**
+   * Delete all of a user's sessions except the one given (sign out everywhere else)
+   */
+  async deleteOtherUserSessions(userId: string, keepSessionId: string): Promise<void> {
+    await this.db
+      .prepare('DELETE FROM sessions WHERE user_id = ? AND id != ?')
+      .bind(userId, keepSessionId)
+      .run();
+  }
+
   async deleteExpiredSessions(): Promise<void> {
     await this.db
       .prepare("DELETE FROM sessions WHERE expires_at < datetime('now')")
@@ -249,6 +342,24 @@ export class Database {
       .first<DiscogsSyncState>();
   }
 
+  /**
+   * Get a user's Discogs sync state (keyed by user ID), creating an idle row if none exists
+   */
+  async ensureSyncState(userId: string): Promise<DiscogsSyncState> {
+    await this.db
+      .prepare('INSERT OR IGNORE INTO discogs_sync_state (id, user_id) VALUES (?, ?)')
+      .bind(userId, userId)
+      .run();
+    return (await this.getSyncState(userId))!;
+  }
+
+  async deleteSyncState(id: string): Promise<void> {
+    await this.db
+      .prepare('DELETE FROM discogs_sync_state WHERE id = ?')
+      .bind(id)
+      .run();
+  }
+
   async updateSyncState(
     id: string,
     data: Partial<
@@ -261,6 +372,9 @@ export class Database {
         | 'last_full_sync'
         | 'last_enrichment_sync'
         | 'error_message'
+        | 'sync_started_at'
+        | 'releases_synced'
+        | 'collection_items'
       >
     >
   ): Promise<void> {
@@ -295,6 +409,18 @@ export class Database {
       fields.push('error_message = ?');
       values.push(data.error_message);
     }
+    if (data.sync_started_at !== undefined) {
+      fields.push('sync_started_at = ?');
+      values.push(data.sync_started_at);
+    }
+    if (data.releases_synced !== undefined) {
+      fields.push('releases_synced = ?');
+      values.push(data.releases_synced);
+    }
+    if (data.collection_items !== undefined) {
+      fields.push('collection_items = ?');
+      values.push(data.collection_items);
+    }
 
     if (fields.length === 0) return;
 
@@ -316,7 +442,7 @@ export class Database {
           format, label, genres, styles, master_genres, master_styles,
           image_url, discogs_url, date_added, rating, master_id, master_enriched
         ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-        ON CONFLICT(id) DO UPDATE SET
+        ON CONFLICT(user_id, id) DO UPDATE SET
           instance_id = excluded.instance_id,
           title = excluded.title,
           artist = excluded.artist,
@@ -380,6 +506,14 @@ export class Database {
     return result.results;
   }
 
+  async getAllReleases(userId: string): Promise<DiscogsRelease[]> {
+    const result = await this.db
+      .prepare('SELECT * FROM discogs_releases WHERE user_id = ? ORDER BY date_added DESC')
+      .bind(userId)
+      .all<DiscogsRelease>();
+    return result.results;
+  }
+
   async getReleasesNeedingEnrichment(limit: number = 100): Promise<DiscogsRelease[]> {
     const result = await this.db
       .prepare(
@@ -392,6 +526,45 @@ export class Database {
     return result.results;
   }
 
+  /**
+   * Record master-release metadata on every release that shares the master
+   */
+  async updateMasterEnrichment(
+    masterId: number,
+    data: { master_genres: string | null; master_styles: string | null; original_year: number | null }
+  ): Promise<void> {
+    await this.db
+      .prepare(
+        `UPDATE discogs_releases SET
+          master_genres = ?,
+          master_styles = ?,
+          original_year = COALESCE(?, original_year),
+          master_enriched = 1,
+          updated_at = datetime('now')
+        WHERE master_id = ?`
+      )
+      .bind(data.master_genres, data.master_styles, data.original_year, masterId)
+      .run();
+  }
+
+  /**
+   * Remove releases that were not seen by a sync that started at `since` (ISO timestamp)
+   */
+  async deleteReleasesNotUpdatedSince(userId: string, since: string): Promise<number> {
+    const result = await this.db
+      .prepare('DELETE FROM discogs_releases WHERE user_id = ? AND updated_at < datetime(?)')
+      .bind(userId, since)
+      .run();
+    return result.meta?.changes ?? 0;
+  }
+
+  async deleteReleases(userId: string): Promise<void> {
+    await this.db
+      .prepare('DELETE FROM discogs_releases WHERE user_id = ?')
+      .bind(userId)
+      .run();
+  }
+
   async getReleaseCount(userId: string = 'default'): Promise<number> {
     const result = await this.db
       .prepare('SELECT COUNT(*) as count FROM discogs_releases WHERE user_id = ?')
@@ -400,202 +573,744 @@ export class Database {
     return result?.count ?? 0;
   }
 
-  // Rate limits
-  async getRateLimit(service: RateLimit['service']): Promise<RateLimit | null> {
-    return this.db
-      .prepare('SELECT * FROM rate_limits WHERE service = ?')
-      .bind(service)
-      .first<RateLimit>();
-  }
+  // Scrobble history
+  /**
+   * Insert scrobbles for a user, skipping plays that are already stored.
+   * Returns the number of rows actually inserted.
+   */
+  async insertScrobbles(
+    userId: string,
+    scrobbles: Array<Pick<Scrobble, 'artist' | 'album' | 'track' | 'url' | 'image_url' | 'played_at'>>,
+    source: ScrobbleSource = 'lastfm'
+  ): Promise<number> {
+    if (scrobbles.length === 0) return 0;
 
-  async updateRateLimit(
-    service: RateLimit['service'],
-    data: { requestsRemaining: number; windowResetAt?: string }
-  ): Promise<void> {
-    await this.db
-      .prepare(
-        `UPDATE rate_limits
-         SET requests_remaining = ?, window_reset_at = ?, updated_at = datetime('now')
-         WHERE service = ?`
+    const statement = this.db.prepare(
+      `INSERT OR IGNORE INTO scrobbles (user_id, artist, album, track, url, image_url, played_at, source)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    const results = await this.db.batch(
+      scrobbles.map((s) =>
+        statement.bind(userId, s.artist, s.album, s.track, s.url, s.image_url, s.played_at, source)
       )
-      .bind(data.requestsRemaining, data.windowResetAt || null, service)
-      .run();
+    );
+    return results.reduce((total, result) => total + (result.meta?.changes ?? 0), 0);
   }
 
-  // API Key management
-
   /**
-   * Create a new API key
-   * Returns the raw key (only returned once!) and the stored record
+   * Get a user's scrobbles, newest first, optionally within an ISO date range
    */
-  async createApiKey(data: {
-    userId?: string;
-    name?: string;
-    tier?: ApiKeyTier;
-    scopes?: ApiKeyScope[];
-    rateLimitRpm?: number;
-    expiresAt?: string;
-  }): Promise<{ key: string; record: ParsedApiKey }> {
-    // Generate a random key: ltm_<32 random hex chars>
-    const randomBytes = new Uint8Array(16);
-    crypto.getRandomValues(randomBytes);
-    const randomHex = Array.from(randomBytes)
-      .map((b) => b.toString(16).padStart(2, '0'))
-      .join('');
-    const rawKey = `ltm_${randomHex}`;
-    const keyPrefix = rawKey.substring(0, 8);
-
-    // Hash the key for storage
-    const encoder = new TextEncoder();
-    const keyData = encoder.encode(rawKey);
-    const hashBuffer = await crypto.subtle.digest('SHA-256', keyData);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    const keyHash = hashArray.map((b) => b.toString(16).padStart(2, '0')).join('');
+  async getScrobbles(
+    userId: string,
+    options: { from?: string; to?: string; limit?: number; offset?: number } = {}
+  ): Promise<Scrobble[]> {
+    const { from, to, limit = 50, offset = 0 } = options;
+    const conditions = ['user_id = ?'];
+    const values: unknown[] = [userId];
 
-    const tier = data.tier || 'standard';
-    const scopes = JSON.stringify(data.scopes || ['read']);
+    if (from) {
+      conditions.push('played_at >= ?');
+      values.push(from);
+    }
+    if (to) {
+      conditions.push('played_at < ?');
+      values.push(to);
+    }
 
     const result = await this.db
       .prepare(
-        `INSERT INTO api_keys (user_id, key_hash, key_prefix, name, tier, scopes, rate_limit_rpm, expires_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-         RETURNING *`
-      )
-      .bind(
-        data.userId || null,
-        keyHash,
-        keyPrefix,
-        data.name || 'Default',
-        tier,
-        scopes,
-        data.rateLimitRpm || null,
-        data.expiresAt || null
+        `SELECT * FROM scrobbles WHERE ${conditions.join(' AND ')}
+         ORDER BY played_at DESC LIMIT ? OFFSET ?`
       )
-      .first<ApiKey>();
-
-    if (!result) {
-      throw new Error('Failed to create API key');
-    }
-
-    return {
-      key: rawKey,
-      record: parseApiKey(result),
-    };
+      .bind(...values, limit, offset)
+      .all<Scrobble>();
+    return result.results;
   }
 
   /**
-   * Validate an API key and return the parsed record if valid
-   * Also updates last_used_at timestamp
+   * Artist, track and time of every stored play in an ISO range, for matching imported plays against
    */
-  async validateApiKey(rawKey: string): Promise<ParsedApiKey | null> {
-    // Hash the provided key
-    const encoder = new TextEncoder();
-    const keyData = encoder.encode(rawKey);
-    const hashBuffer = await crypto.subtle.digest('SHA-256', keyData);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    const keyHash = hashArray.map((b) => b.toString(16).padStart(2, '0')).join('');
-
-    // Look up by hash
-    const apiKey = await this.db
+  async getScrobbleKeys(
+    userId: string,
+    range: { from: string; to: string }
+  ): Promise<Array<Pick<Scrobble, 'artist' | 'track' | 'played_at'>>> {
+    const result = await this.db
       .prepare(
-        `SELECT * FROM api_keys
-         WHERE key_hash = ?
-         AND revoked_at IS NULL
-         AND (expires_at IS NULL OR expires_at > datetime('now'))`
+        `SELECT artist, track, played_at FROM scrobbles
+         WHERE user_id = ? AND played_at >= ? AND played_at < ?`
       )
-      .bind(keyHash)
-      .first<ApiKey>();
+      .bind(userId, range.from, range.to)
+      .all<Pick<Scrobble, 'artist' | 'track' | 'played_at'>>();
+    return result.results;
+  }
 
-    if (!apiKey) {
-      return null;
+  async deleteScrobblesBySource(userId: string, source: ScrobbleSource): Promise<number> {
+    const result = await this.db
+      .prepare('DELETE FROM scrobbles WHERE user_id = ? AND source = ?')
+      .bind(userId, source)
+      .run();
+    return result.meta?.changes ?? 0;
+  }
+
+  async getScrobbleCount(userId: string, options: { from?: string; to?: string } = {}): Promise<number> {
+    const conditions = ['user_id = ?'];
+    const values: unknown[] = [userId];
+
+    if (options.from) {
+      conditions.push('played_at >= ?');
+      values.push(options.from);
+    }
+    if (options.to) {
+      conditions.push('played_at < ?');
+      values.push(options.to);
     }
 
-    // Update last_used_at (fire and forget)
-    this.db
-      .prepare("UPDATE api_keys SET last_used_at = datetime('now') WHERE id = ?")
-      .bind(apiKey.id)
-      .run();
+    const result = await this.db
+      .prepare(`SELECT COUNT(*) as count FROM scrobbles WHERE ${conditions.join(' AND ')}`)
+      .bind(...values)
+      .first<{ count: number }>();
+    return result?.count ?? 0;
+  }
 
-    return parseApiKey(apiKey);
+  // Scrobble aggregates (ranges are ISO timestamps, `from` inclusive, `to` exclusive;
+  // pass a source to count only plays from the Last.fm sync or from Spotify imports)
+  async getTopScrobbledArtists(
+    userId: string,
+    range: { from: string; to: string },
+    limit: number = 10,
+    source?: ScrobbleSource
+  ): Promise<Array<{ artist: string; plays: number }>> {
+    const result = await this.db
+      .prepare(
+        `SELECT artist, COUNT(*) as plays FROM scrobbles
+         WHERE user_id = ? AND played_at >= ? AND played_at < ?${source ? ' AND source = ?' : ''}
+         GROUP BY artist ORDER BY plays DESC, artist ASC LIMIT ?`
+      )
+      .bind(userId, range.from, range.to, ...(source ? [source] : []), limit)
+      .all<{ artist: string; plays: number }>();
+    return result.results;
   }
 
-  /**
-   * Get API key by ID (for management purposes)
-   */
-  async getApiKey(id: string): Promise<ParsedApiKey | null> {
-    const apiKey = await this.db
-      .prepare('SELECT * FROM api_keys WHERE id = ?')
-      .bind(id)
-      .first<ApiKey>();
+  async getTopScrobbledAlbums(
+    userId: string,
+    range: { from: string; to: string },
+    limit: number = 10,
+    source?: ScrobbleSource
+  ): Promise<Array<{ artist: string; album: string; plays: number; image_url: string | null }>> {
+    const result = await this.db
+      .prepare(
+        `SELECT artist, album, COUNT(*) as plays, MAX(image_url) as image_url FROM scrobbles
+         WHERE user_id = ? AND played_at >= ? AND played_at < ? AND album IS NOT NULL AND album != ''${source ? ' AND source = ?' : ''}
+         GROUP BY artist, album ORDER BY plays DESC, album ASC LIMIT ?`
+      )
+      .bind(userId, range.from, range.to, ...(source ? [source] : []), limit)
+      .all<{ artist: string; album: string; plays: number; image_url: string | null }>();
+    return result.results;
+  }
 
-    return apiKey ? parseApiKey(apiKey) : null;
+  async getScrobbleSourceCount(userId: string, source: ScrobbleSource, range: { from: string; to: string }): Promise<number> {
+    const result = await this.db
+      .prepare(
+        `SELECT COUNT(*) as count FROM scrobbles
+         WHERE user_id = ? AND source = ? AND played_at >= ? AND played_at < ?`
+      )
+      .bind(userId, source, range.from, range.to)
+      .first<{ count: number }>();
+    return result?.count ?? 0;
+  }
+
+  async getTopScrobbledTracks(
+    userId: string,
+    range: { from: string; to: string },
+    limit: number = 10,
+    source?: ScrobbleSource
+  ): Promise<Array<{ artist: string; track: string; plays: number }>> {
+    const result = await this.db
+      .prepare(
+        `SELECT artist, track, COUNT(*) as plays FROM scrobbles
+         WHERE user_id = ? AND played_at >= ? AND played_at < ?${source ? ' AND source = ?' : ''}
+         GROUP BY artist, track ORDER BY plays DESC, track ASC LIMIT ?`
+      )
+      .bind(userId, range.from, range.to, ...(source ? [source] : []), limit)
+      .all<{ artist: string; track: string; plays: number }>();
+    return result.results;
   }
 
   /**
-   * List API keys for a user
+   * Plays per UTC day (YYYY-MM-DD), only for days with at least one play
    */
-  async listApiKeys(userId: string): Promise<ParsedApiKey[]> {
+  async getScrobbleDailyCounts(
+    userId: string,
+    range: { from: string; to: string }
+  ): Promise<Array<{ day: string; plays: number }>> {
     const result = await this.db
       .prepare(
-        `SELECT * FROM api_keys
-         WHERE user_id = ? AND revoked_at IS NULL
-         ORDER BY created_at DESC`
+        `SELECT substr(played_at, 1, 10) as day, COUNT(*) as plays FROM scrobbles
+         WHERE user_id = ? AND played_at >= ? AND played_at < ?
+         GROUP BY day ORDER BY day ASC`
       )
-      .bind(userId)
-      .all<ApiKey>();
-
-    return result.results.map(parseApiKey);
+      .bind(userId, range.from, range.to)
+      .all<{ day: string; plays: number }>();
+    return result.results;
   }
 
   /**
-   * Revoke an API key
+   * Artists played in the range that have no stored plays before it.
+   * Only meaningful once the archive reaches back past `range.from`.
    */
-  async revokeApiKey(id: string): Promise<void> {
-    await this.db
-      .prepare("UPDATE api_keys SET revoked_at = datetime('now') WHERE id = ?")
-      .bind(id)
-      .run();
+  async getNewScrobbledArtists(
+    userId: string,
+    range: { from: string; to: string },
+    limit: number = 10
+  ): Promise<{ total: number; artists: Array<{ artist: string; plays: number; first_played_at: string }> }> {
+    const newArtistsQuery = `FROM scrobbles s
+         WHERE s.user_id = ? AND s.played_at >= ? AND s.played_at < ?
+         AND NOT EXISTS (
+           SELECT 1 FROM scrobbles earlier
+           WHERE earlier.user_id = s.user_id AND earlier.artist = s.artist AND earlier.played_at < ?
+         )`;
+
+    const [artists, total] = await Promise.all([
+      this.db
+        .prepare(
+          `SELECT s.artist as artist, COUNT(*) as plays, MIN(s.played_at) as first_played_at ${newArtistsQuery}
+           GROUP BY s.artist ORDER BY plays DESC, s.artist ASC LIMIT ?`
+        )
+        .bind(userId, range.from, range.to, range.from, limit)
+        .all<{ artist: string; plays: number; first_played_at: string }>(),
+      this.db
+        .prepare(`SELECT COUNT(DISTINCT s.artist) as count ${newArtistsQuery}`)
+        .bind(userId, range.from, range.to, range.from)
+        .first<{ count: number }>(),
+    ]);
+
+    return { total: total?.count ?? 0, artists: artists.results };
+  }
+
+  // Scrobble sync state
+  async getScrobbleSyncState(userId: string): Promise<ScrobbleSyncState | null> {
+    return this.db
+      .prepare('SELECT * FROM scrobble_sync_state WHERE user_id = ?')
+      .bind(userId)
+      .first<ScrobbleSyncState>();
   }
 
   /**
-   * Increment request count for an API key
+   * Get the sync state for a user, creating a pending row if none exists
    */
-  async incrementApiKeyUsage(id: string): Promise<void> {
+  async ensureScrobbleSyncState(userId: string): Promise<ScrobbleSyncState> {
     await this.db
-      .prepare('UPDATE api_keys SET request_count = request_count + 1 WHERE id = ?')
-      .bind(id)
+      .prepare('INSERT OR IGNORE INTO scrobble_sync_state (user_id) VALUES (?)')
+      .bind(userId)
       .run();
+    return (await this.getScrobbleSyncState(userId))!;
   }
 
-  /**
-   * Log API usage for analytics
-   */
-  async logApiUsage(data: {
-    apiKeyId?: string;
-    endpoint: string;
-    method?: string;
-    statusCode?: number;
-    ipAddress?: string;
-    userAgent?: string;
-    responseTimeMs?: number;
-  }): Promise<void> {
-    await this.db
-      .prepare(
-        `INSERT INTO api_usage_log (api_key_id, endpoint, method, status_code, ip_address, user_agent, response_time_ms)
-         VALUES (?, ?, ?, ?, ?, ?, ?)`
-      )
-      .bind(
-        data.apiKeyId || null,
-        data.endpoint,
-        data.method || 'GET',
-        data.statusCode || null,
-        data.ipAddress || null,
-        data.userAgent || null,
+  async updateScrobbleSyncState(
+    userId: string,
+    data: Partial<Omit<ScrobbleSyncState, 'user_id' | 'updated_at'>>
+  ): Promise<void> {
+    const fields: string[] = [];
+    const values: unknown[] = [];
+
+    if (data.status !== undefined) {
+      fields.push('status = ?');
+      values.push(data.status);
+    }
+    if (data.window_from !== undefined) {
+      fields.push('window_from = ?');
+      values.push(data.window_from);
+    }
+    if (data.window_to !== undefined) {
+      fields.push('window_to = ?');
+      values.push(data.window_to);
+    }
+    if (data.cursor_page !== undefined) {
+      fields.push('cursor_page = ?');
+      values.push(data.cursor_page);
+    }
+    if (data.total_pages !== undefined) {
+      fields.push('total_pages = ?');
+      values.push(data.total_pages);
+    }
+    if (data.oldest_played_at !== undefined) {
+      fields.push('oldest_played_at = ?');
+      values.push(data.oldest_played_at);
+    }
+    if (data.newest_played_at !== undefined) {
+      fields.push('newest_played_at = ?');
+      values.push(data.newest_played_at);
+    }
+    if (data.backfill_completed_at !== undefined) {
+      fields.push('backfill_completed_at = ?');
+      values.push(data.backfill_completed_at);
+    }
+    if (data.last_sync_at !== undefined) {
+      fields.push('last_sync_at = ?');
+      values.push(data.last_sync_at);
+    }
+    if (data.error_message !== undefined) {
+      fields.push('error_message = ?');
+      values.push(data.error_message);
+    }
+
+    if (fields.length === 0) return;
+
+    fields.push("updated_at = datetime('now')");
+    values.push(userId);
+
+    await this.db
+      .prepare(`UPDATE scrobble_sync_state SET ${fields.join(', ')} WHERE user_id = ?`)
+      .bind(...values)
+      .run();
+  }
+
+  /**
+   * Get users with Last.fm linked, least recently synced first (never-synced users lead)
+   */
+  async getUsersDueForScrobbleSync(limit: number): Promise<User[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT users.* FROM users
+         LEFT JOIN scrobble_sync_state s ON s.user_id = users.id
+         WHERE users.lastfm_username IS NOT NULL
+         ORDER BY s.last_sync_at IS NOT NULL, s.last_sync_at ASC
+         LIMIT ?`
+      )
+      .bind(limit)
+      .all<User>();
+    return result.results;
+  }
+
+  // Spotify streaming history imports
+  async createSpotifyImport(userId: string, files: string[]): Promise<ParsedSpotifyImport> {
+    const result = await this.db
+      .prepare('INSERT INTO spotify_imports (user_id, files) VALUES (?, ?) RETURNING *')
+      .bind(userId, JSON.stringify(files))
+      .first<SpotifyImport>();
+
+    if (!result) {
+      throw new Error('Failed to create Spotify import');
+    }
+
+    return parseSpotifyImport(result);
+  }
+
+  async getSpotifyImport(id: string, userId: string): Promise<ParsedSpotifyImport | null> {
+    const result = await this.db
+      .prepare('SELECT * FROM spotify_imports WHERE id = ? AND user_id = ?')
+      .bind(id, userId)
+      .first<SpotifyImport>();
+    return result ? parseSpotifyImport(result) : null;
+  }
+
+  async getSpotifyImports(userId: string): Promise<ParsedSpotifyImport[]> {
+    const result = await this.db
+      .prepare('SELECT * FROM spotify_imports WHERE user_id = ? ORDER BY created_at DESC')
+      .bind(userId)
+      .all<SpotifyImport>();
+    return result.results.map(parseSpotifyImport);
+  }
+
+  /**
+   * Add one chunk's counts to an import and widen its played_at range
+   */
+  async recordSpotifyImportChunk(
+    id: string,
+    data: { imported: number; duplicates: number; skipped: number; oldest: string | null; newest: string | null }
+  ): Promise<void> {
+    await this.db
+      .prepare(
+        `UPDATE spotify_imports SET
+           plays_imported = plays_imported + ?,
+           duplicates = duplicates + ?,
+           skipped = skipped + ?,
+           oldest_played_at = CASE WHEN ? IS NOT NULL AND (oldest_played_at IS NULL OR ? < oldest_played_at) THEN ? ELSE oldest_played_at END,
+           newest_played_at = CASE WHEN ? IS NOT NULL AND (newest_played_at IS NULL OR ? > newest_played_at) THEN ? ELSE newest_played_at END,
+           updated_at = datetime('now')
+         WHERE id = ?`
+      )
+      .bind(
+        data.imported,
+        data.duplicates,
+        data.skipped,
+        data.oldest,
+        data.oldest,
+        data.oldest,
+        data.newest,
+        data.newest,
+        data.newest,
+        id
+      )
+      .run();
+  }
+
+  async deleteSpotifyImports(userId: string): Promise<void> {
+    await this.db
+      .prepare('DELETE FROM spotify_imports WHERE user_id = ?')
+      .bind(userId)
+      .run();
+  }
+
+  // Weekly insights archive. Insights pages re-save on every view (usually from
+  // the AI cache), so rows are only written when the content actually changed.
+
+  /**
+   * Archive a week's summary. Returns true when it is the week's first summary;
+   * the write itself decides, so concurrent views can't both claim it.
+   */
+  async saveWeeklyInsightsSummary(userId: string, week: string, summary: string): Promise<boolean> {
+    const first = await this.db
+      .prepare(
+        `INSERT INTO weekly_insights (user_id, week, summary) VALUES (?, ?, ?)
+         ON CONFLICT(user_id, week) DO UPDATE SET summary = excluded.summary, updated_at = datetime('now')
+         WHERE weekly_insights.summary IS NULL`
+      )
+      .bind(userId, week, summary)
+      .run();
+    if (first.meta.changes === 1) return true;
+
+    // A refreshed summary replaces the archived one
+    await this.db
+      .prepare(
+        `UPDATE weekly_insights SET summary = ?, updated_at = datetime('now')
+         WHERE user_id = ? AND week = ? AND summary IS NOT ?`
+      )
+      .bind(summary, userId, week, summary)
+      .run();
+    return false;
+  }
+
+  async saveWeeklyInsightsRecommendations(
+    userId: string,
+    week: string,
+    recommendations: ArchivedAlbumRecommendation[]
+  ): Promise<void> {
+    await this.db
+      .prepare(
+        `INSERT INTO weekly_insights (user_id, week, recommendations) VALUES (?, ?, ?)
+         ON CONFLICT(user_id, week) DO UPDATE SET recommendations = excluded.recommendations, updated_at = datetime('now')
+         WHERE weekly_insights.recommendations IS NOT excluded.recommendations`
+      )
+      .bind(userId, week, JSON.stringify(recommendations))
+      .run();
+  }
+
+  async getWeeklyInsights(userId: string, week: string): Promise<WeeklyInsights | null> {
+    return this.db
+      .prepare('SELECT * FROM weekly_insights WHERE user_id = ? AND week = ?')
+      .bind(userId, week)
+      .first<WeeklyInsights>();
+  }
+
+  /**
+   * List a user's archived weeks that have a summary, newest first
+   */
+  async getWeeklyInsightsHistory(
+    userId: string,
+    limit: number = 52
+  ): Promise<Array<Pick<WeeklyInsights, 'week' | 'updated_at'>>> {
+    const result = await this.db
+      .prepare(
+        `SELECT week, updated_at FROM weekly_insights
+         WHERE user_id = ? AND summary IS NOT NULL
+         ORDER BY week DESC LIMIT ?`
+      )
+      .bind(userId, limit)
+      .all<Pick<WeeklyInsights, 'week' | 'updated_at'>>();
+    return result.results;
+  }
+
+  async getAllWeeklyInsights(userId: string): Promise<WeeklyInsights[]> {
+    const result = await this.db
+      .prepare('SELECT * FROM weekly_insights WHERE user_id = ? ORDER BY week DESC')
+      .bind(userId)
+      .all<WeeklyInsights>();
+    return result.results;
+  }
+
+  // Rate limits
+  async getRateLimit(service: RateLimit['service']): Promise<RateLimit | null> {
+    return this.db
+      .prepare('SELECT * FROM rate_limits WHERE service = ?')
+      .bind(service)
+      .first<RateLimit>();
+  }
+
+  async updateRateLimit(
+    service: RateLimit['service'],
+    data: { requestsRemaining: number; windowResetAt?: string }
+  ): Promise<void> {
+    await this.db
+      .prepare(
+        `UPDATE rate_limits
+         SET requests_remaining = ?, window_reset_at = ?, updated_at = datetime('now')
+         WHERE service = ?`
+      )
+      .bind(data.requestsRemaining, data.windowResetAt || null, service)
+      .run();
+  }
+
+  // API Key management
+
+  /**
+   * Create a new API key
+   * Returns the raw key (only returned once!) and the stored record
+   */
+  async createApiKey(data: {
+    userId?: string;
+    name?: string;
+    tier?: ApiKeyTier;
+    scopes?: ApiKeyScope[];
+    rateLimitRpm?: number;
+    expiresAt?: string;
+    oauthClientId?: string;
+  }): Promise<{ key: string; record: ParsedApiKey }> {
+    // Generate a random key: ltm_<32 random hex chars>
+    const randomBytes = new Uint8Array(16);
+    crypto.getRandomValues(randomBytes);
+    const randomHex = Array.from(randomBytes)
+      .map((b) => b.toString(16).padStart(2, '0'))
+      .join('');
+    const rawKey = `ltm_${randomHex}`;
+    const keyPrefix = rawKey.substring(0, 8);
+
+    // Hash the key for storage
+    const encoder = new TextEncoder();
+    const keyData = encoder.encode(rawKey);
+    const hashBuffer = await crypto.subtle.digest('SHA-256', keyData);
+    const hashArray = Array.from(new Uint8Array(hashBuffer));
+    const keyHash = hashArray.map((b) => b.toString(16).padStart(2, '0')).join('');
+
+    const tier = data.tier || 'standard';
+    const scopes = JSON.stringify(data.scopes || ['read']);
+
+    const result = await this.db
+      .prepare(
+        `INSERT INTO api_keys (user_id, key_hash, key_prefix, name, tier, scopes, rate_limit_rpm, expires_at, oauth_client_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+         RETURNING *`
+      )
+      .bind(
+        data.userId || null,
+        keyHash,
+        keyPrefix,
+        data.name || 'Default',
+        tier,
+        scopes,
+        data.rateLimitRpm || null,
+        data.expiresAt || null,
+        data.oauthClientId || null
+      )
+      .first<ApiKey>();
+
+    if (!result) {
+      throw new Error('Failed to create API key');
+    }
+
+    return {
+      key: rawKey,
+      record: parseApiKey(result),
+    };
+  }
+
+  /**
+   * Validate an API key and return the parsed record if valid
+   * Also updates last_used_at timestamp
+   */
+  async validateApiKey(rawKey: string): Promise<ParsedApiKey | null> {
+    // Hash the provided key
+    const encoder = new TextEncoder();
+    const keyData = encoder.encode(rawKey);
+    const hashBuffer = await crypto.subtle.digest('SHA-256', keyData);
+    const hashArray = Array.from(new Uint8Array(hashBuffer));
+    const keyHash = hashArray.map((b) => b.toString(16).padStart(2, '0')).join('');
+
+    // Look up by hash
+    const apiKey = await this.db
+      .prepare(
+        `SELECT * FROM api_keys
+         WHERE key_hash = ?
+         AND revoked_at IS NULL
+         AND (expires_at IS NULL OR expires_at > datetime('now'))`
+      )
+      .bind(keyHash)
+      .first<ApiKey>();
+
+    if (!apiKey) {
+      return null;
+    }
+
+    // Update last_used_at (fire and forget)
+    this.db
+      .prepare("UPDATE api_keys SET last_used_at = datetime('now') WHERE id = ?")
+      .bind(apiKey.id)
+      .run();
+
+    return parseApiKey(apiKey);
+  }
+
+  /**
+   * Get API key by ID (for management purposes)
+   */
+  async getApiKey(id: string): Promise<ParsedApiKey | null> {
+    const apiKey = await this.db
+      .prepare('SELECT * FROM api_keys WHERE id = ?')
+      .bind(id)
+      .first<ApiKey>();
+
+    return apiKey ? parseApiKey(apiKey) : null;
+  }
+
+  /**
+   * Get several API keys by ID, including revoked ones (for usage reports)
+   */
+  async getApiKeysByIds(ids: string[]): Promise<ParsedApiKey[]> {
+    if (ids.length === 0) return [];
+    const result = await this.db
+      .prepare(`SELECT * FROM api_keys WHERE id IN (${ids.map(() => '?').join(', ')})`)
+      .bind(...ids)
+      .all<ApiKey>();
+    return result.results.map(parseApiKey);
+  }
+
+  /**
+   * List API keys for a user (excluding keys that back OAuth app authorizations)
+   */
+  async listApiKeys(userId: string): Promise<ParsedApiKey[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT * FROM api_keys
+         WHERE user_id = ? AND revoked_at IS NULL AND oauth_client_id IS NULL
+         ORDER BY created_at DESC`
+      )
+      .bind(userId)
+      .all<ApiKey>();
+
+    return result.results.map(parseApiKey);
+  }
+
+  /**
+   * All of a user's API keys, including revoked ones, without the key hash (for account export)
+   */
+  async getApiKeysForExport(userId: string): Promise<Array<Omit<ApiKey, 'key_hash'>>> {
+    const result = await this.db
+      .prepare(
+        `SELECT id, user_id, key_prefix, name, tier, scopes, rate_limit_rpm, request_count,
+                last_used_at, created_at, expires_at, revoked_at, oauth_client_id
+         FROM api_keys WHERE user_id = ? ORDER BY created_at DESC`
+      )
+      .bind(userId)
+      .all<Omit<ApiKey, 'key_hash'>>();
+    return result.results;
+  }
+
+  /**
+   * Usage log entries for all of a user's API keys, newest first
+   */
+  async getApiUsageForUser(userId: string): Promise<ApiUsageLog[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT l.* FROM api_usage_log l
+         JOIN api_keys k ON k.id = l.api_key_id
+         WHERE k.user_id = ?
+         ORDER BY l.created_at DESC`
+      )
+      .bind(userId)
+      .all<ApiUsageLog>();
+    return result.results;
+  }
+
+  /**
+   * Revoke an API key
+   */
+  async revokeApiKey(id: string): Promise<void> {
+    await this.db
+      .prepare("UPDATE api_keys SET revoked_at = datetime('now') WHERE id = ?")
+      .bind(id)
+      .run();
+  }
+
+  /**
+   * Increment request count for an API key
+   */
+  async incrementApiKeyUsage(id: string): Promise<void> {
+    await this.db
+      .prepare('UPDATE api_keys SET request_count = request_count + 1 WHERE id = ?')
+      .bind(id)
+      .run();
+  }
+
+  /**
+   * Log API usage for analytics
+   */
+  async logApiUsage(data: {
+    apiKeyId?: string;
+    endpoint: string;
+    method?: string;
+    statusCode?: number;
+    ipAddress?: string;
+    userAgent?: string;
+    responseTimeMs?: number;
+  }): Promise<void> {
+    await this.db
+      .prepare(
+        `INSERT INTO api_usage_log (api_key_id, endpoint, method, status_code, ip_address, user_agent, response_time_ms)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        data.apiKeyId || null,
+        data.endpoint,
+        data.method || 'GET',
+        data.statusCode || null,
+        data.ipAddress || null,
+        data.userAgent || null,
         data.responseTimeMs || null
       )
       .run();
   }
 
+  /**
+   * Daily usage buckets (per key, endpoint and method) since a YYYY-MM-DD day,
+   * from raw log rows plus the rolled-up daily aggregates. Omit apiKeyId for all keys.
+   */
+  async getApiUsageBuckets(options: { since: string; apiKeyId?: string }): Promise<ApiUsageBucket[]> {
+    const keyCondition = options.apiKeyId ? ' AND api_key_id = ?' : '';
+    const keyBinding = options.apiKeyId ? [options.apiKeyId] : [];
+
+    const result = await this.db
+      .prepare(
+        `${usageBucketsFromLog(`created_at >= ?${keyCondition}`)}
+         UNION ALL
+         SELECT day, api_key_id, endpoint, method, request_count, error_count, total_response_time_ms,
+                p50_response_time_ms, p95_response_time_ms
+         FROM api_usage_daily WHERE day >= ?${keyCondition}
+         ORDER BY day`
+      )
+      .bind(options.since, ...keyBinding, options.since, ...keyBinding)
+      .all<ApiUsageBucket>();
+    return result.results;
+  }
+
+  /**
+   * Roll raw usage log rows from before a YYYY-MM-DD day into api_usage_daily and
+   * delete them. Runs as one batch so rows are never counted twice or lost.
+   * Returns the number of raw rows rolled up.
+   */
+  async rollupApiUsage(before: string): Promise<number> {
+    const [, deleted] = await this.db.batch([
+      this.db
+        .prepare(
+          `INSERT INTO api_usage_daily (day, api_key_id, endpoint, method, request_count, error_count,
+                                        total_response_time_ms, p50_response_time_ms, p95_response_time_ms)
+           ${usageBucketsFromLog('created_at < ?')}`
+        )
+        .bind(before),
+      this.db.prepare('DELETE FROM api_usage_log WHERE created_at < ?').bind(before),
+    ]);
+    return deleted.meta?.changes ?? 0;
+  }
+
   /**
    * Get the effective rate limit for an API key (or default tier limit)
    */
@@ -605,4 +1320,501 @@ export class Database {
     }
     return apiKey.rate_limit_rpm ?? TIER_RATE_LIMITS[apiKey.tier];
   }
+
+  /**
+   * Get the daily request quota for an API key (or the public tier quota)
+   */
+  getEffectiveDailyQuota(apiKey: ParsedApiKey | null): number {
+    return TIER_DAILY_QUOTAS[apiKey?.tier ?? 'public'];
+  }
+
+  // OAuth
+
+  async createOAuthClient(data: {
+    name: string;
+    redirectUris: string[];
+    clientSecretHash?: string;
+  }): Promise<ParsedOAuthClient> {
+    const result = await this.db
+      .prepare(
+        `INSERT INTO oauth_clients (name, redirect_uris, client_secret_hash)
+         VALUES (?, ?, ?)
+         RETURNING *`
+      )
+      .bind(data.name, JSON.stringify(data.redirectUris), data.clientSecretHash || null)
+      .first<OAuthClient>();
+
+    if (!result) {
+      throw new Error('Failed to create OAuth client');
+    }
+    return parseOAuthClient(result);
+  }
+
+  async getOAuthClient(id: string): Promise<ParsedOAuthClient | null> {
+    const client = await this.db
+      .prepare('SELECT * FROM oauth_clients WHERE id = ?')
+      .bind(id)
+      .first<OAuthClient>();
+    return client ? parseOAuthClient(client) : null;
+  }
+
+  /**
+   * The active API key that backs a user's authorization of an app, if any
+   */
+  async getOAuthApiKey(userId: string, clientId: string): Promise<ParsedApiKey | null> {
+    const apiKey = await this.db
+      .prepare(
+        `SELECT * FROM api_keys
+         WHERE user_id = ? AND oauth_client_id = ? AND revoked_at IS NULL`
+      )
+      .bind(userId, clientId)
+      .first<ApiKey>();
+    return apiKey ? parseApiKey(apiKey) : null;
+  }
+
+  async updateApiKeyScopes(id: string, scopes: ApiKeyScope[]): Promise<void> {
+    await this.db
+      .prepare('UPDATE api_keys SET scopes = ? WHERE id = ?')
+      .bind(JSON.stringify(scopes), id)
+      .run();
+  }
+
+  /**
+   * Apps a user has authorized, newest first
+   */
+  async listOAuthAuthorizations(userId: string): Promise<OAuthAuthorization[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT k.id AS api_key_id, c.id AS client_id, c.name AS client_name, k.scopes,
+                k.created_at AS authorized_at, k.last_used_at
+         FROM api_keys k
+         JOIN oauth_clients c ON c.id = k.oauth_client_id
+         WHERE k.user_id = ? AND k.revoked_at IS NULL
+         ORDER BY k.created_at DESC`
+      )
+      .bind(userId)
+      .all<Omit<OAuthAuthorization, 'scopes'> & { scopes: string }>();
+    return result.results.map((row) => ({ ...row, scopes: JSON.parse(row.scopes) }));
+  }
+
+  async createOAuthCode(data: {
+    codeHash: string;
+    clientId: string;
+    apiKeyId: string;
+    redirectUri: string;
+    scopes: ApiKeyScope[];
+    codeChallenge: string;
+    expiresAt: string;
+  }): Promise<void> {
+    await this.db
+      .prepare(
+        `INSERT INTO oauth_authorization_codes (code_hash, client_id, api_key_id, redirect_uri, scopes, code_challenge, expires_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        data.codeHash,
+        data.clientId,
+        data.apiKeyId,
+        data.redirectUri,
+        JSON.stringify(data.scopes),
+        data.codeChallenge,
+        data.expiresAt
+      )
+      .run();
+  }
+
+  /**
+   * Delete and return an authorization code, so each code can be exchanged once.
+   * Only the client the code was issued to can consume it. Returns expired codes
+   * too; the caller checks expires_at.
+   */
+  async consumeOAuthCode(codeHash: string, clientId: string): Promise<OAuthAuthorizationCode | null> {
+    return this.db
+      .prepare('DELETE FROM oauth_authorization_codes WHERE code_hash = ? AND client_id = ? RETURNING *')
+      .bind(codeHash, clientId)
+      .first<OAuthAuthorizationCode>();
+  }
+
+  async createOAuthTokens(data: {
+    clientId: string;
+    apiKeyId: string;
+    accessTokenHash: string;
+    refreshTokenHash: string;
+    scopes: ApiKeyScope[];
+    accessExpiresAt: string;
+    refreshExpiresAt: string;
+  }): Promise<void> {
+    await this.db
+      .prepare(
+        `INSERT INTO oauth_tokens (client_id, api_key_id, access_token_hash, refresh_token_hash, scopes, access_expires_at, refresh_expires_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        data.clientId,
+        data.apiKeyId,
+        data.accessTokenHash,
+        data.refreshTokenHash,
+        JSON.stringify(data.scopes),
+        data.accessExpiresAt,
+        data.refreshExpiresAt
+      )
+      .run();
+  }
+
+  /**
+   * Validate an OAuth access token and return the API key it acts through, with
+   * scopes narrowed to those granted to the token
+   */
+  async validateOAuthAccessToken(accessTokenHash: string): Promise<ParsedApiKey | null> {
+    const row = await this.db
+      .prepare(
+        `SELECT k.*, t.scopes AS token_scopes FROM oauth_tokens t
+         JOIN api_keys k ON k.id = t.api_key_id
+         WHERE t.access_token_hash = ?
+         AND t.access_expires_at > datetime('now')
+         AND k.revoked_at IS NULL`
+      )
+      .bind(accessTokenHash)
+      .first<ApiKey & { token_scopes: string }>();
+
+    if (!row) {
+      return null;
+    }
+
+    const { token_scopes, ...apiKey } = row;
+    const parsed = parseApiKey(apiKey);
+    const tokenScopes: ApiKeyScope[] = JSON.parse(token_scopes);
+
+    // Update last_used_at (fire and forget)
+    this.db
+      .prepare("UPDATE api_keys SET last_used_at = datetime('now') WHERE id = ?")
+      .bind(parsed.id)
+      .run();
+
+    return { ...parsed, scopes: parsed.scopes.filter((scope) => tokenScopes.includes(scope)) };
+  }
+
+  /**
+   * Delete and return the token pair for a refresh token, so each refresh token
+   * can be used once. Only the client the token was issued to can consume it.
+   * Returns expired tokens too; the caller checks refresh_expires_at.
+   */
+  async consumeOAuthRefreshToken(refreshTokenHash: string, clientId: string): Promise<OAuthToken | null> {
+    return this.db
+      .prepare('DELETE FROM oauth_tokens WHERE refresh_token_hash = ? AND client_id = ? RETURNING *')
+      .bind(refreshTokenHash, clientId)
+      .first<OAuthToken>();
+  }
+
+  /**
+   * Revoke the token pair an access or refresh token belongs to (RFC 7009).
+   * Only the client the token was issued to can revoke it.
+   */
+  async revokeOAuthToken(tokenHash: string, clientId: string): Promise<void> {
+    await this.db
+      .prepare(
+        `DELETE FROM oauth_tokens
+         WHERE (access_token_hash = ? OR refresh_token_hash = ?) AND client_id = ?`
+      )
+      .bind(tokenHash, tokenHash, clientId)
+      .run();
+  }
+
+  /**
+   * Revoke an app's access for a user: its backing API key and all its tokens
+   */
+  async revokeOAuthAuthorization(userId: string, apiKeyId: string): Promise<void> {
+    await this.db.batch([
+      this.db
+        .prepare(
+          `UPDATE api_keys SET revoked_at = datetime('now')
+           WHERE id = ? AND user_id = ? AND oauth_client_id IS NOT NULL`
+        )
+        .bind(apiKeyId, userId),
+      this.db
+        .prepare(
+          `DELETE FROM oauth_tokens
+           WHERE api_key_id = (SELECT id FROM api_keys WHERE id = ? AND user_id = ?)`
+        )
+        .bind(apiKeyId, userId),
+    ]);
+  }
+
+  // Webhooks
+
+  async createWebhook(data: {
+    userId: string;
+    apiKeyId?: string;
+    url: string;
+    secret: string;
+    events: WebhookEvent[];
+  }): Promise<ParsedWebhook> {
+    const result = await this.db
+      .prepare(
+        `INSERT INTO webhooks (user_id, api_key_id, url, secret, events)
+         VALUES (?, ?, ?, ?, ?)
+         RETURNING *`
+      )
+      .bind(data.userId, data.apiKeyId || null, data.url, data.secret, JSON.stringify(data.events))
+      .first<Webhook>();
+
+    if (!result) {
+      throw new Error('Failed to create webhook');
+    }
+    return parseWebhook(result);
+  }
+
+  async getWebhook(id: string): Promise<ParsedWebhook | null> {
+    const webhook = await this.db
+      .prepare('SELECT * FROM webhooks WHERE id = ?')
+      .bind(id)
+      .first<Webhook>();
+    return webhook ? parseWebhook(webhook) : null;
+  }
+
+  async listWebhooks(userId: string): Promise<ParsedWebhook[]> {
+    const result = await this.db
+      .prepare('SELECT * FROM webhooks WHERE user_id = ? ORDER BY created_at DESC')
+      .bind(userId)
+      .all<Webhook>();
+    return result.results.map(parseWebhook);
+  }
+
+  /**
+   * Change a webhook's events or enabled state. Re-enabling clears the failure count.
+   * Changing only the events leaves queued retries alone.
+   */
+  async updateWebhook(id: string, data: { events?: WebhookEvent[]; enabled?: boolean }): Promise<void> {
+    const fields: string[] = [];
+    const values: unknown[] = [];
+
+    if (data.events !== undefined) {
+      fields.push('events = ?');
+      values.push(JSON.stringify(data.events));
+    }
+    if (data.enabled !== undefined) {
+      fields.push('enabled = ?');
+      values.push(data.enabled ? 1 : 0);
+      if (data.enabled) {
+        fields.push('consecutive_failures = 0', 'disabled_at = NULL');
+      }
+    }
+
+    if (fields.length === 0) return;
+
+    values.push(id);
+    const statements = [this.db.prepare(`UPDATE webhooks SET ${fields.join(', ')} WHERE id = ?`).bind(...values)];
+    // Disabling fails queued retries. Re-enabling fails leftovers first, while the webhook still reads as disabled
+    if (data.enabled === false) {
+      statements.push(this.cancelPendingWebhookDeliveries(id));
+    } else if (data.enabled === true) {
+      statements.unshift(this.cancelPendingWebhookDeliveries(id));
+    }
+    await this.db.batch(statements);
+  }
+
+  // Fail a disabled webhook's queued deliveries so re-enabling it doesn't replay stale events
+  private cancelPendingWebhookDeliveries(webhookId: string): D1PreparedStatement {
+    return this.db
+      .prepare(
+        `UPDATE webhook_deliveries
+         SET status = 'failed', next_attempt_at = NULL, error = 'Webhook disabled', updated_at = datetime('now')
+         WHERE webhook_id = ? AND status = 'pending'
+           AND (SELECT enabled FROM webhooks WHERE id = ?) = 0`
+      )
+      .bind(webhookId, webhookId);
+  }
+
+  async deleteWebhook(userId: string, id: string): Promise<void> {
+    await this.db
+      .prepare('DELETE FROM webhooks WHERE id = ? AND user_id = ?')
+      .bind(id, userId)
+      .run();
+  }
+
+  /**
+   * Enabled webhooks subscribed to an event, for one user
+   */
+  async getWebhooksForEvent(userId: string, event: WebhookEvent): Promise<ParsedWebhook[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT * FROM webhooks
+         WHERE user_id = ? AND enabled = 1
+           AND EXISTS (SELECT 1 FROM json_each(webhooks.events) WHERE value = ?)`
+      )
+      .bind(userId, event)
+      .all<Webhook>();
+    return result.results.map(parseWebhook);
+  }
+
+  /**
+   * Users with at least one enabled webhook for an event
+   */
+  async getWebhookUserIds(event: WebhookEvent): Promise<string[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT DISTINCT user_id FROM webhooks
+         WHERE enabled = 1
+           AND EXISTS (SELECT 1 FROM json_each(webhooks.events) WHERE value = ?)`
+      )
+      .bind(event)
+      .all<{ user_id: string }>();
+    return result.results.map((row) => row.user_id);
+  }
+
+  async createWebhookDelivery(data: {
+    id: string;
+    webhookId: string;
+    event: WebhookEvent;
+    payload: string;
+  }): Promise<WebhookDelivery> {
+    const result = await this.db
+      .prepare(
+        `INSERT INTO webhook_deliveries (id, webhook_id, event, payload, next_attempt_at)
+         VALUES (?, ?, ?, ?, datetime('now'))
+         RETURNING *`
+      )
+      .bind(data.id, data.webhookId, data.event, data.payload)
+      .first<WebhookDelivery>();
+
+    if (!result) {
+      throw new Error('Failed to create webhook delivery');
+    }
+    return result;
+  }
+
+  /**
+   * Pending deliveries whose next attempt is due, oldest first. Deliveries for
+   * disabled webhooks wait until the webhook is re-enabled.
+   */
+  async getDueWebhookDeliveries(limit: number): Promise<WebhookDelivery[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT d.* FROM webhook_deliveries d
+         JOIN webhooks w ON w.id = d.webhook_id
+         WHERE d.status = 'pending' AND d.next_attempt_at <= datetime('now') AND w.enabled = 1
+         ORDER BY d.next_attempt_at
+         LIMIT ?`
+      )
+      .bind(limit)
+      .all<WebhookDelivery>();
+    return result.results;
+  }
+
+  /**
+   * Record one delivery attempt. A delivery that ends (succeeded, or failed after its
+   * last retry) also updates the webhook's failure streak, disabling it once the streak
+   * reaches disableAfterFailures.
+   */
+  async recordWebhookAttempt(
+    delivery: Pick<WebhookDelivery, 'id' | 'webhook_id'>,
+    attempt: {
+      status: WebhookDeliveryStatus;
+      attempts: number;
+      nextAttemptAt: string | null;
+      responseStatus: number | null;
+      error: string | null;
+    },
+    disableAfterFailures: number
+  ): Promise<void> {
+    const statements = [
+      this.db
+        .prepare(
+          `UPDATE webhook_deliveries
+           SET status = ?, attempts = ?, next_attempt_at = ?, response_status = ?, error = ?, updated_at = datetime('now')
+           WHERE id = ?`
+        )
+        .bind(attempt.status, attempt.attempts, attempt.nextAttemptAt, attempt.responseStatus, attempt.error, delivery.id),
+    ];
+
+    if (attempt.status === 'succeeded') {
+      statements.push(
+        this.db
+          .prepare(
+            `UPDATE webhooks SET consecutive_failures = 0, last_delivery_at = datetime('now') WHERE id = ?`
+          )
+          .bind(delivery.webhook_id)
+      );
+    } else if (attempt.status === 'failed') {
+      statements.push(
+        this.db
+          .prepare(
+            `UPDATE webhooks
+             SET consecutive_failures = consecutive_failures + 1,
+                 enabled = CASE WHEN consecutive_failures + 1 >= ? THEN 0 ELSE enabled END,
+                 disabled_at = CASE WHEN consecutive_failures + 1 >= ? AND enabled = 1 THEN datetime('now') ELSE disabled_at END,
+                 last_delivery_at = datetime('now')
+             WHERE id = ?`
+          )
+          .bind(disableAfterFailures, disableAfterFailures, delivery.webhook_id),
+        this.cancelPendingWebhookDeliveries(delivery.webhook_id)
+      );
+    }
+
+    await this.db.batch(statements);
+  }
+
+  async listWebhookDeliveries(webhookId: string, limit: number = 20): Promise<WebhookDelivery[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT * FROM webhook_deliveries
+         WHERE webhook_id = ?
+         ORDER BY created_at DESC
+         LIMIT ?`
+      )
+      .bind(webhookId, limit)
+      .all<WebhookDelivery>();
+    return result.results;
+  }
+
+  /**
+   * Delete finished delivery logs created before a date (YYYY-MM-DD)
+   */
+  async pruneWebhookDeliveries(before: string): Promise<number> {
+    const result = await this.db
+      .prepare(`DELETE FROM webhook_deliveries WHERE status != 'pending' AND created_at < ?`)
+      .bind(before)
+      .run();
+    return result.meta.changes ?? 0;
+  }
+
+  // Community charts
+  /**
+   * Store a chart period's ranked entries, replacing any earlier run for the same period
+   */
+  async saveCommunityChart(
+    chart: CommunityChartType,
+    period: string,
+    entries: Array<Omit<CommunityChartEntry, 'chart' | 'period' | 'created_at'>>
+  ): Promise<void> {
+    const insert = this.db.prepare(
+      `INSERT INTO community_charts (chart, period, kind, rank, name, artist, listeners, plays, score, spotify_id, image_url)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    await this.db.batch([
+      this.db.prepare('DELETE FROM community_charts WHERE chart = ? AND period = ?').bind(chart, period),
+      ...entries.map((e) =>
+        insert.bind(chart, period, e.kind, e.rank, e.name, e.artist, e.listeners, e.plays, e.score, e.spotify_id, e.image_url)
+      ),
+    ]);
+  }
+
+  async getCommunityChart(chart: CommunityChartType, period: string): Promise<CommunityChartEntry[]> {
+    const result = await this.db
+      .prepare('SELECT * FROM community_charts WHERE chart = ? AND period = ? ORDER BY kind, rank')
+      .bind(chart, period)
+      .all<CommunityChartEntry>();
+    return result.results;
+  }
+
+  /**
+   * List the stored periods of a chart, newest first
+   */
+  async getCommunityChartPeriods(chart: CommunityChartType, limit: number = 12): Promise<string[]> {
+    const result = await this.db
+      .prepare('SELECT DISTINCT period FROM community_charts WHERE chart = ? ORDER BY period DESC LIMIT ?')
+      .bind(chart, limit)
+      .all<{ period: string }>();
+    return result.results.map((row) => row.period);
+  }
 }
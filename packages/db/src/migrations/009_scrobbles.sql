@@ -0,0 +1,38 @@
+-- Migration: 009_scrobbles.sql
+-- Persistent per-user scrobble history, synced incrementally from Last.fm
+
+CREATE TABLE IF NOT EXISTS scrobbles (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  artist TEXT NOT NULL,
+  album TEXT,
+  track TEXT NOT NULL,
+  url TEXT,
+  image_url TEXT,
+  played_at TEXT NOT NULL, -- ISO 8601 (UTC)
+  created_at TEXT DEFAULT (datetime('now')),
+  UNIQUE(user_id, played_at, artist, track)
+);
+
+CREATE INDEX IF NOT EXISTS idx_scrobbles_user_played ON scrobbles(user_id, played_at DESC);
+
+-- One row per user. A sync "window" is a frozen [window_from, window_to] range
+-- (unix seconds, matching Last.fm's from/to params) that is paged through with
+-- cursor_page across cron runs. The first window is the full backfill; later
+-- windows start at newest_played_at to pick up new plays.
+CREATE TABLE IF NOT EXISTS scrobble_sync_state (
+  user_id TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  status TEXT DEFAULT 'pending', -- pending, backfilling, synced, error
+  window_from INTEGER,
+  window_to INTEGER,
+  cursor_page INTEGER DEFAULT 1,
+  total_pages INTEGER DEFAULT 0,
+  oldest_played_at TEXT,
+  newest_played_at TEXT,
+  backfill_completed_at TEXT,
+  last_sync_at TEXT,
+  error_message TEXT,
+  updated_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_scrobble_sync_last ON scrobble_sync_state(last_sync_at);
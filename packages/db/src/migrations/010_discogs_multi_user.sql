@@ -0,0 +1,43 @@
+-- Migration: 010_discogs_multi_user.sql
+-- Make Discogs collections per-user and store Discogs OAuth credentials
+
+-- 1. Discogs OAuth access token (obtained via /auth/discogs)
+ALTER TABLE users ADD COLUMN discogs_oauth_token TEXT;
+ALTER TABLE users ADD COLUMN discogs_oauth_token_secret TEXT;
+
+-- 2. Recreate discogs_releases keyed by (user_id, id)
+-- The release ID alone is not unique once more than one user owns the same pressing
+CREATE TABLE discogs_releases_new (
+  id INTEGER NOT NULL, -- Discogs release ID
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  instance_id INTEGER,
+  title TEXT NOT NULL,
+  artist TEXT NOT NULL,
+  year INTEGER,
+  original_year INTEGER,
+  format TEXT,
+  label TEXT,
+  genres TEXT,
+  styles TEXT,
+  master_genres TEXT,
+  master_styles TEXT,
+  image_url TEXT,
+  discogs_url TEXT,
+  date_added TEXT,
+  rating INTEGER,
+  master_id INTEGER,
+  master_enriched INTEGER DEFAULT 0,
+  created_at TEXT DEFAULT (datetime('now')),
+  updated_at TEXT DEFAULT (datetime('now')),
+  PRIMARY KEY (user_id, id)
+);
+
+INSERT INTO discogs_releases_new SELECT * FROM discogs_releases WHERE user_id IS NOT NULL;
+DROP TABLE discogs_releases;
+ALTER TABLE discogs_releases_new RENAME TO discogs_releases;
+CREATE INDEX idx_discogs_added ON discogs_releases(user_id, date_added DESC);
+CREATE INDEX idx_discogs_master ON discogs_releases(master_id) WHERE master_enriched = 0;
+
+-- 3. Track when the current collection sync started, so releases removed
+-- from the Discogs collection can be pruned once the sync completes
+ALTER TABLE discogs_sync_state ADD COLUMN sync_started_at TEXT;
@@ -0,0 +1,4 @@
+-- Migration: 011_scrobble_artist_index.sql
+-- Index for per-artist lookups in scrobble history (first plays / new-artist discoveries)
+
+CREATE INDEX IF NOT EXISTS idx_scrobbles_user_artist ON scrobbles(user_id, artist, played_at);
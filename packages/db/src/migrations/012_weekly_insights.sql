@@ -0,0 +1,12 @@
+-- Migration: 012_weekly_insights.sql
+-- Archive of generated weekly insights, one row per user and ISO week (e.g. 2026-W41)
+
+CREATE TABLE IF NOT EXISTS weekly_insights (
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  week TEXT NOT NULL, -- ISO 8601 week, YYYY-Www
+  summary TEXT, -- Markdown
+  recommendations TEXT, -- JSON array of album recommendations
+  created_at TEXT DEFAULT (datetime('now')),
+  updated_at TEXT DEFAULT (datetime('now')),
+  PRIMARY KEY (user_id, week)
+);
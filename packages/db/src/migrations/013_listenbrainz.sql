@@ -0,0 +1,10 @@
+-- Migration: 013_listenbrainz.sql
+-- Link a ListenBrainz account and choose which service powers listening data
+
+-- ListenBrainz username, verified with the user's token when linking (the token itself is not stored)
+ALTER TABLE users ADD COLUMN listenbrainz_username TEXT;
+
+-- Source for stats, likes, insights and the home feed: 'lastfm' or 'listenbrainz'
+ALTER TABLE users ADD COLUMN listening_source TEXT DEFAULT 'lastfm';
+
+UPDATE users SET listening_source = 'lastfm' WHERE listening_source IS NULL;
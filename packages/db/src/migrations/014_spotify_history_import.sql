@@ -0,0 +1,25 @@
+-- Migration: 014_spotify_history_import.sql
+-- Spotify extended streaming history imports, stored alongside the Last.fm scrobble archive
+
+-- Where a stored play came from: 'lastfm' (scrobble sync) or 'spotify' (history import)
+ALTER TABLE scrobbles ADD COLUMN source TEXT DEFAULT 'lastfm';
+
+UPDATE scrobbles SET source = 'lastfm' WHERE source IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_scrobbles_user_source ON scrobbles(user_id, source, played_at);
+
+-- One row per import (a set of files uploaded together); counts grow as chunks arrive
+CREATE TABLE IF NOT EXISTS spotify_imports (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  files TEXT NOT NULL, -- JSON array of uploaded file names
+  plays_imported INTEGER DEFAULT 0,
+  duplicates INTEGER DEFAULT 0,
+  skipped INTEGER DEFAULT 0, -- podcasts, videos and plays under 30 seconds
+  oldest_played_at TEXT,
+  newest_played_at TEXT,
+  created_at TEXT DEFAULT (datetime('now')),
+  updated_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_spotify_imports_user ON spotify_imports(user_id, created_at DESC);
@@ -0,0 +1,19 @@
+-- Migration: 015_api_usage_daily.sql
+-- Daily API usage aggregates. Raw api_usage_log rows older than the retention
+-- window are rolled up here by the cron, then deleted.
+
+CREATE TABLE IF NOT EXISTS api_usage_daily (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  day TEXT NOT NULL, -- YYYY-MM-DD (UTC)
+  api_key_id TEXT REFERENCES api_keys(id) ON DELETE SET NULL, -- NULL = unauthenticated
+  endpoint TEXT NOT NULL,
+  method TEXT DEFAULT 'GET',
+  request_count INTEGER NOT NULL,
+  error_count INTEGER NOT NULL, -- status 400 and above
+  total_response_time_ms INTEGER NOT NULL,
+  p50_response_time_ms INTEGER,
+  p95_response_time_ms INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_daily_key_day ON api_usage_daily(api_key_id, day DESC);
+CREATE INDEX IF NOT EXISTS idx_usage_daily_day ON api_usage_daily(day DESC);
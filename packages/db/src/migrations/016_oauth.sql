@@ -0,0 +1,45 @@
+-- Migration: 016_oauth.sql
+-- OAuth 2.0 authorization server (authorization code + PKCE) for third-party apps.
+-- Each app a user authorizes is backed by an api_keys row, so scopes, tiers, rate
+-- limits and usage logging work the same for bearer tokens as for ltm_ keys.
+
+-- Registered apps. Public clients (no secret) must use PKCE; all clients do.
+CREATE TABLE IF NOT EXISTS oauth_clients (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))), -- client_id
+  name TEXT NOT NULL,
+  redirect_uris TEXT NOT NULL, -- JSON array of exact-match redirect URIs
+  client_secret_hash TEXT, -- SHA-256 of the secret; NULL for public clients
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+-- The API key an app acts through, one per user and app
+ALTER TABLE api_keys ADD COLUMN oauth_client_id TEXT REFERENCES oauth_clients(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_oauth_client ON api_keys(user_id, oauth_client_id);
+
+-- Single-use authorization codes (10 minute lifetime)
+CREATE TABLE IF NOT EXISTS oauth_authorization_codes (
+  code_hash TEXT PRIMARY KEY,
+  client_id TEXT NOT NULL REFERENCES oauth_clients(id) ON DELETE CASCADE,
+  api_key_id TEXT NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  redirect_uri TEXT NOT NULL,
+  scopes TEXT NOT NULL, -- JSON array of ApiKeyScope
+  code_challenge TEXT NOT NULL, -- S256
+  expires_at TEXT NOT NULL,
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+-- Access and refresh token pairs. Refresh tokens rotate on use.
+CREATE TABLE IF NOT EXISTS oauth_tokens (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  client_id TEXT NOT NULL REFERENCES oauth_clients(id) ON DELETE CASCADE,
+  api_key_id TEXT NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  access_token_hash TEXT NOT NULL UNIQUE,
+  refresh_token_hash TEXT NOT NULL UNIQUE,
+  scopes TEXT NOT NULL, -- JSON array of ApiKeyScope
+  access_expires_at TEXT NOT NULL,
+  refresh_expires_at TEXT NOT NULL,
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_oauth_tokens_key ON oauth_tokens(api_key_id);
@@ -0,0 +1,36 @@
+-- Migration: 017_webhooks.sql
+-- Webhooks: signed JSON POSTs when a user's now-playing track changes or a new
+-- weekly insight is generated, with a delivery log for retries and debugging.
+
+CREATE TABLE IF NOT EXISTS webhooks (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  api_key_id TEXT REFERENCES api_keys(id) ON DELETE SET NULL, -- Set when registered through the API
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL, -- HMAC signing secret; kept in plain text because every delivery is signed with it
+  events TEXT NOT NULL, -- JSON array of WebhookEvent
+  enabled INTEGER NOT NULL DEFAULT 1,
+  consecutive_failures INTEGER NOT NULL DEFAULT 0, -- Deliveries in a row that used up every retry
+  disabled_at TEXT, -- Set when auto-disabled after repeated failures
+  last_delivery_at TEXT,
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhooks_user ON webhooks(user_id);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id TEXT PRIMARY KEY, -- Also the event id in the payload, so receivers can dedupe retries
+  webhook_id TEXT NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+  event TEXT NOT NULL,
+  payload TEXT NOT NULL, -- JSON body, identical on every attempt
+  status TEXT NOT NULL DEFAULT 'pending', -- pending, succeeded, failed
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TEXT, -- When a pending delivery is next retried
+  response_status INTEGER, -- HTTP status of the latest attempt
+  error TEXT, -- Failure reason of the latest attempt
+  created_at TEXT DEFAULT (datetime('now')),
+  updated_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at);
@@ -0,0 +1,19 @@
+-- Migration: 018_community_charts.sql
+-- Community charts: top artists and albums across all public users' Last.fm top lists,
+-- one ranked list per chart period, kept for history and week-over-week movement.
+
+CREATE TABLE IF NOT EXISTS community_charts (
+  chart TEXT NOT NULL, -- weekly, monthly
+  period TEXT NOT NULL, -- ISO 8601 week (YYYY-Www) for weekly charts, YYYY-MM for monthly
+  kind TEXT NOT NULL, -- artist, album
+  rank INTEGER NOT NULL,
+  name TEXT NOT NULL, -- Artist or album name
+  artist TEXT, -- Album artist; NULL for artist entries
+  listeners INTEGER NOT NULL, -- Public users with the entry in their top list
+  plays INTEGER NOT NULL, -- Plays summed across those users
+  score REAL NOT NULL,
+  spotify_id TEXT, -- For /artist/:id and /album/:id links; NULL when no match was found
+  image_url TEXT,
+  created_at TEXT DEFAULT (datetime('now')),
+  PRIMARY KEY (chart, period, kind, rank)
+);
@@ -0,0 +1,7 @@
+-- Migration: 019_discogs_sync_counts.sql
+-- Count collection items across the runs of a Discogs sync, so releases are only
+-- pruned when the sync saw the whole collection. Items removed mid-sync shift later
+-- items onto pages that were already fetched, and those must not be deleted.
+
+ALTER TABLE discogs_sync_state ADD COLUMN releases_synced INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE discogs_sync_state ADD COLUMN collection_items INTEGER; -- Total Discogs reported when the sync started
@@ -1,12 +1,19 @@
 // Database schema type definitions for ListenToMore D1 database
 
+// Which service powers a user's listening data (stats, likes, insights, home feed)
+export type ListeningSource = 'lastfm' | 'listenbrainz';
+
 export interface User {
   id: string;
   username: string | null;
   email: string | null;
   lastfm_username: string | null;
   lastfm_session_key: string | null;
+  listenbrainz_username: string | null;
+  listening_source: ListeningSource;
   discogs_username: string | null;
+  discogs_oauth_token: string | null;
+  discogs_oauth_token_secret: string | null;
   spotify_connected: number;
   display_name: string | null;
   avatar_url: string | null;
@@ -41,6 +48,9 @@ export interface DiscogsSyncState {
   enrichment_cursor: number;
   status: DiscogsSyncStatus;
   error_message: string | null;
+  sync_started_at: string | null;
+  releases_synced: number; // Collection items stored since sync_started_at
+  collection_items: number | null; // Collection size Discogs reported on the sync's first page
   updated_at: string;
 }
 
@@ -68,6 +78,70 @@ export interface DiscogsRelease {
   updated_at: string;
 }
 
+// Where a stored play came from: the Last.fm scrobble sync or a Spotify streaming history import
+export type ScrobbleSource = 'lastfm' | 'spotify';
+
+export interface Scrobble {
+  id: number;
+  user_id: string;
+  artist: string;
+  album: string | null;
+  track: string;
+  url: string | null;
+  image_url: string | null;
+  played_at: string;
+  source: ScrobbleSource;
+  created_at: string;
+}
+
+export interface SpotifyImport {
+  id: string;
+  user_id: string;
+  files: string; // JSON array of file names
+  plays_imported: number;
+  duplicates: number;
+  skipped: number;
+  oldest_played_at: string | null;
+  newest_played_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ScrobbleSyncStatus = 'pending' | 'backfilling' | 'synced' | 'error';
+
+export interface ScrobbleSyncState {
+  user_id: string;
+  status: ScrobbleSyncStatus;
+  window_from: number | null; // Unix seconds
+  window_to: number | null; // Unix seconds
+  cursor_page: number;
+  total_pages: number;
+  oldest_played_at: string | null;
+  newest_played_at: string | null;
+  backfill_completed_at: string | null;
+  last_sync_at: string | null;
+  error_message: string | null;
+  updated_at: string;
+}
+
+export interface WeeklyInsights {
+  user_id: string;
+  week: string; // ISO 8601 week, e.g. 2026-W41
+  summary: string | null; // Markdown
+  recommendations: string | null; // JSON array of ArchivedAlbumRecommendation
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ArchivedAlbumRecommendation {
+  albumName: string;
+  artistName: string;
+  reason: string;
+  spotifyId: string | null;
+  albumArt: string | null;
+  artistSpotifyId: string | null;
+}
+
 export interface RateLimit {
   service: 'discogs' | 'spotify' | 'openai';
   requests_remaining: number;
@@ -93,6 +167,7 @@ export interface ApiKey {
   created_at: string;
   expires_at: string | null;
   revoked_at: string | null;
+  oauth_client_id: string | null; // Set for keys that back an OAuth app authorization
 }
 
 export interface ApiUsageLog {
@@ -107,6 +182,20 @@ export interface ApiUsageLog {
   created_at: string;
 }
 
+// API usage for one key, endpoint and method on one day, from raw log rows or
+// the api_usage_daily rollup
+export interface ApiUsageBucket {
+  day: string; // YYYY-MM-DD (UTC)
+  api_key_id: string | null;
+  endpoint: string;
+  method: string;
+  request_count: number;
+  error_count: number;
+  total_response_time_ms: number;
+  p50_response_time_ms: number | null;
+  p95_response_time_ms: number | null;
+}
+
 // Parsed API key with scopes as array
 export interface ParsedApiKey extends Omit<ApiKey, 'scopes'> {
   scopes: ApiKeyScope[];
@@ -127,6 +216,13 @@ export const TIER_RATE_LIMITS: Record<ApiKeyTier, number> = {
   premium: 300,  // High-volume access
 };
 
+// Daily request quotas per tier (per UTC day)
+export const TIER_DAILY_QUOTAS: Record<ApiKeyTier, number> = {
+  public: 500,
+  standard: 10_000,
+  premium: 100_000,
+};
+
 // Helper types for parsed JSON fields
 export interface ParsedDiscogsRelease extends Omit<DiscogsRelease, 'genres' | 'styles' | 'master_genres' | 'master_styles'> {
   genres: string[];
@@ -145,3 +241,149 @@ export function parseDiscogsRelease(release: DiscogsRelease): ParsedDiscogsRelea
     master_styles: release.master_styles ? JSON.parse(release.master_styles) : [],
   };
 }
+
+export interface ParsedWeeklyInsights extends Omit<WeeklyInsights, 'recommendations'> {
+  recommendations: ArchivedAlbumRecommendation[];
+}
+
+// Parse the recommendations JSON from WeeklyInsights
+export function parseWeeklyInsights(insights: WeeklyInsights): ParsedWeeklyInsights {
+  return {
+    ...insights,
+    recommendations: insights.recommendations ? JSON.parse(insights.recommendations) : [],
+  };
+}
+
+export interface ParsedSpotifyImport extends Omit<SpotifyImport, 'files'> {
+  files: string[];
+}
+
+// Parse the file names JSON from SpotifyImport
+export function parseSpotifyImport(spotifyImport: SpotifyImport): ParsedSpotifyImport {
+  return {
+    ...spotifyImport,
+    files: spotifyImport.files ? JSON.parse(spotifyImport.files) : [],
+  };
+}
+
+// OAuth 2.0 types
+export interface OAuthClient {
+  id: string;
+  name: string;
+  redirect_uris: string; // JSON array
+  client_secret_hash: string | null;
+  created_at: string;
+}
+
+export interface ParsedOAuthClient extends Omit<OAuthClient, 'redirect_uris'> {
+  redirect_uris: string[];
+}
+
+// Parse the redirect URIs JSON from OAuthClient
+export function parseOAuthClient(client: OAuthClient): ParsedOAuthClient {
+  return {
+    ...client,
+    redirect_uris: client.redirect_uris ? JSON.parse(client.redirect_uris) : [],
+  };
+}
+
+export interface OAuthAuthorizationCode {
+  code_hash: string;
+  client_id: string;
+  api_key_id: string;
+  redirect_uri: string;
+  scopes: string; // JSON array of ApiKeyScope
+  code_challenge: string;
+  expires_at: string;
+  created_at: string;
+}
+
+export interface OAuthToken {
+  id: string;
+  client_id: string;
+  api_key_id: string;
+  access_token_hash: string;
+  refresh_token_hash: string;
+  scopes: string; // JSON array of ApiKeyScope
+  access_expires_at: string;
+  refresh_expires_at: string;
+  created_at: string;
+}
+
+// An app a user has authorized, for the account page
+export interface OAuthAuthorization {
+  api_key_id: string;
+  client_id: string;
+  client_name: string;
+  scopes: ApiKeyScope[];
+  authorized_at: string;
+  last_used_at: string | null;
+}
+
+// Webhook types
+export type WebhookEvent = 'now_playing.changed' | 'insights.weekly';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['now_playing.changed', 'insights.weekly'];
+
+export interface Webhook {
+  id: string;
+  user_id: string;
+  api_key_id: string | null;
+  url: string;
+  secret: string;
+  events: string; // JSON array of WebhookEvent
+  enabled: number;
+  consecutive_failures: number;
+  disabled_at: string | null;
+  last_delivery_at: string | null;
+  created_at: string;
+}
+
+export interface ParsedWebhook extends Omit<Webhook, 'events' | 'enabled'> {
+  events: WebhookEvent[];
+  enabled: boolean;
+}
+
+// Parse the events JSON and enabled flag from Webhook
+export function parseWebhook(webhook: Webhook): ParsedWebhook {
+  return {
+    ...webhook,
+    events: webhook.events ? JSON.parse(webhook.events) : [],
+    enabled: webhook.enabled === 1,
+  };
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  webhook_id: string;
+  event: WebhookEvent;
+  payload: string; // JSON body
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  response_status: number | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Community chart types
+export type CommunityChartType = 'weekly' | 'monthly';
+export type CommunityChartKind = 'artist' | 'album';
+
+export interface CommunityChartEntry {
+  chart: CommunityChartType;
+  period: string; // ISO 8601 week (2026-W42) for weekly charts, YYYY-MM for monthly
+  kind: CommunityChartKind;
+  rank: number;
+  name: string;
+  artist: string | null; // Album artist; null for artist entries
+  listeners: number;
+  plays: number;
+  score: number;
+  spotify_id: string | null;
+  image_url: string | null;
+  created_at: string;
+}
@@ -6,6 +6,9 @@ import { AnthropicClient } from './anthropic';
 import { AICache } from './cache';
 import { AIRateLimiter } from './rate-limit';
 import type { ChatClient } from './types';
+import type { YearInReviewData } from './prompts/year-in-review';
+import type { TasteCompatibilityData } from './prompts/taste-compatibility';
+import type { InsightsPeriod } from './prompts/insights-period';
 
 // Re-export common types from types.ts
 export type {
@@ -53,6 +56,14 @@ export {
   containsForbiddenConstruction,
   USER_INSIGHTS_PROMPT_VERSION,
   generateUserInsightsRecommendations,
+  WEEKLY_INSIGHTS_PERIOD,
+  insightsPeriodCacheParams,
+  generateYearInReviewNarrative,
+  buildYearInReviewMessages,
+  YEAR_IN_REVIEW_PROMPT_VERSION,
+  generateTasteCompatibilityBlurb,
+  buildTasteCompatibilityMessages,
+  TASTE_COMPATIBILITY_PROMPT_VERSION,
   type ArtistSummaryResult,
   type AlbumDetailResult,
   type GenreSummaryResult,
@@ -66,6 +77,12 @@ export {
   type UserInsightsRecommendationsResult,
   type AlbumRecommendation,
   type InsightsListeningData,
+  type InsightsPeriod,
+  type YearInReviewNarrativeResult,
+  type YearInReviewData,
+  type TasteCompatibilityResult,
+  type TasteCompatibilityData,
+  type TasteCompatibilityListener,
 } from './prompts';
 
 export interface AIServiceConfig {
@@ -221,8 +238,9 @@ export class AIService {
       topArtists: Array<{ name: string; playcount: number }>;
       topAlbums: Array<{ name: string; artist: string; playcount: number }>;
       recentTracks: Array<{ name: string; artist: string }>;
-      weeklyPlayCount: number;
+      playCount: number;
       historicalArtists: Array<{ name: string }>;
+      period?: InsightsPeriod;
     }
   ) {
     const { generateUserInsightsSummary } = await import(
@@ -242,6 +260,7 @@ export class AIService {
       topAlbums: Array<{ name: string; artist: string; playcount: number }>;
       recentTracks: Array<{ name: string; artist: string }>;
       historicalArtists: Array<{ name: string }>;
+      period?: InsightsPeriod;
     }
   ) {
     const { generateUserInsightsRecommendations } = await import(
@@ -250,4 +269,22 @@ export class AIService {
     const client = this.getClientForTask('userInsightsRecommendations');
     return generateUserInsightsRecommendations(username, listeningData, client, this.cache);
   }
+
+  /**
+   * Generate a year in review narrative (provider determined by config)
+   */
+  async getYearInReviewNarrative(username: string, data: YearInReviewData) {
+    const { generateYearInReviewNarrative } = await import('./prompts/year-in-review');
+    const client = this.getClientForTask('yearInReview');
+    return generateYearInReviewNarrative(username, data, client, this.cache);
+  }
+
+  /**
+   * Generate a "what you'd bond over" blurb for two users (provider determined by config)
+   */
+  async getTasteCompatibilityBlurb(data: TasteCompatibilityData) {
+    const { generateTasteCompatibilityBlurb } = await import('./prompts/taste-compatibility');
+    const client = this.getClientForTask('tasteCompatibility');
+    return generateTasteCompatibilityBlurb(data, client, this.cache);
+  }
 }
@@ -35,6 +35,12 @@ export {
   type AlbumRecommendationsResult,
 } from './album-recommendations';
 
+export {
+  WEEKLY_INSIGHTS_PERIOD,
+  insightsPeriodCacheParams,
+  type InsightsPeriod,
+} from './insights-period';
+
 export {
   generateUserInsightsSummary,
   buildUserInsightsMessages,
@@ -49,3 +55,20 @@ export {
   type UserInsightsRecommendationsResult,
   type AlbumRecommendation,
 } from './user-insights-recommendations';
+
+export {
+  generateYearInReviewNarrative,
+  buildYearInReviewMessages,
+  YEAR_IN_REVIEW_PROMPT_VERSION,
+  type YearInReviewNarrativeResult,
+  type YearInReviewData,
+} from './year-in-review';
+
+export {
+  generateTasteCompatibilityBlurb,
+  buildTasteCompatibilityMessages,
+  TASTE_COMPATIBILITY_PROMPT_VERSION,
+  type TasteCompatibilityResult,
+  type TasteCompatibilityData,
+  type TasteCompatibilityListener,
+} from './taste-compatibility';
@@ -0,0 +1,27 @@
+// Listening period for user insights prompts (weekly, monthly, quarterly or a custom date range)
+
+export interface InsightsPeriod {
+  /** Stable identifier used in cache and cooldown keys, e.g. '7day' or '2026-01-01_2026-02-15' */
+  key: string;
+  /** Qualifier for list headings: "Top artists this week", "Top artists in the past 30 days" */
+  label: string;
+  /** The span as a noun phrase: "the past week", "Jan 1 to Feb 15, 2026" */
+  span: string;
+  /** Short noun for the period in instructions: "week", "month", "stretch" */
+  noun: string;
+}
+
+export const WEEKLY_INSIGHTS_PERIOD: InsightsPeriod = {
+  key: '7day',
+  label: 'this week',
+  span: 'the past week',
+  noun: 'week',
+};
+
+/**
+ * Extra cache key segments for a period. The weekly period keeps the original
+ * un-suffixed keys so existing cached summaries stay valid.
+ */
+export function insightsPeriodCacheParams(period: InsightsPeriod): string[] {
+  return period.key === WEEKLY_INSIGHTS_PERIOD.key ? [] : [period.key];
+}
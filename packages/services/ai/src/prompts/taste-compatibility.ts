@@ -0,0 +1,114 @@
+// Taste compatibility prompt - a short "what you'd bond over" blurb for two users' overlapping taste
+
+import { getTaskConfig } from '@listentomore/config';
+import type { ChatClient, ChatMessage, AIResponseMetadata } from '../types';
+import type { AICache } from '../cache';
+
+export interface TasteCompatibilityResult {
+  content: string;
+  metadata?: AIResponseMetadata;
+}
+
+export interface TasteCompatibilityListener {
+  username: string;
+  /** Favorites the other user doesn't share */
+  uniqueArtists: string[];
+  uniqueAlbums: Array<{ name: string; artist: string }>;
+}
+
+export interface TasteCompatibilityData {
+  /** Overlap score, 0-100 */
+  score: number;
+  sharedArtists: string[];
+  sharedAlbums: Array<{ name: string; artist: string }>;
+  user: TasteCompatibilityListener;
+  other: TasteCompatibilityListener;
+}
+
+/** Bump when the prompt changes so cached blurbs don't linger. */
+export const TASTE_COMPATIBILITY_PROMPT_VERSION = 'v1';
+
+const SYSTEM_PROMPT =
+  "You introduce two music fans to each other. You've seen what they both listen to, and you tell them in a few sentences what they'd talk about first and what each could play for the other. You are specific about artists and records, warm, and never gushing.";
+
+function formatAlbums(albums: Array<{ name: string; artist: string }>): string {
+  return albums.map((a) => `- ${a.name} by ${a.artist}`).join('\n') || '- (none)';
+}
+
+/**
+ * Build the chat messages for a taste compatibility blurb.
+ * Pure — no cache, no client.
+ */
+export function buildTasteCompatibilityMessages(data: TasteCompatibilityData): ChatMessage[] {
+  const { user, other } = data;
+
+  const userPrompt = `${user.username} and ${other.username} have a taste overlap score of ${data.score} out of 100.
+
+Artists they share:
+${data.sharedArtists.map((a) => `- ${a}`).join('\n') || '- (none)'}
+
+Albums they share:
+${formatAlbums(data.sharedAlbums)}
+
+Only ${user.username} listens to:
+${user.uniqueArtists.map((a) => `- ${a}`).join('\n') || '- (none)'}
+${formatAlbums(user.uniqueAlbums)}
+
+Only ${other.username} listens to:
+${other.uniqueArtists.map((a) => `- ${a}`).join('\n') || '- (none)'}
+${formatAlbums(other.uniqueAlbums)}
+
+Write one short paragraph (3 to 4 sentences) addressed to both of them by name. Say what they'd bond over, then suggest one record from each side the other should hear and why it would land. ${data.sharedArtists.length === 0 ? 'They share nothing yet, so find the bridge between their tastes instead.' : ''}
+
+Hard rules:
+- NEVER contrast by negation ("It's not X, it's Y", "not X but Y"). State the point directly.
+- No em dashes, no clichés, and don't mention the score.`;
+
+  return [
+    { role: 'system', content: SYSTEM_PROMPT },
+    { role: 'user', content: userPrompt },
+  ];
+}
+
+/**
+ * Generate a "what you'd bond over" blurb for two users
+ */
+export async function generateTasteCompatibilityBlurb(
+  data: TasteCompatibilityData,
+  client: ChatClient,
+  cache: AICache
+): Promise<TasteCompatibilityResult> {
+  // The same pair gets the same blurb whichever profile the comparison starts from
+  const pair = [data.user.username, data.other.username].map((u) => u.toLowerCase().trim()).sort();
+
+  // Check cache first
+  const cached = await cache.get<TasteCompatibilityResult>(
+    'tasteCompatibility',
+    ...pair,
+    TASTE_COMPATIBILITY_PROMPT_VERSION
+  );
+  if (cached) {
+    return cached;
+  }
+
+  const config = getTaskConfig('tasteCompatibility');
+
+  const response = await client.chatCompletion({
+    model: config.model,
+    messages: buildTasteCompatibilityMessages(data),
+    maxTokens: config.maxTokens,
+    temperature: config.temperature,
+    reasoning: config.reasoning,
+    verbosity: config.verbosity,
+  });
+
+  const result: TasteCompatibilityResult = {
+    content: response.content,
+    metadata: response.metadata,
+  };
+
+  // Cache the result (without metadata)
+  await cache.set('tasteCompatibility', [...pair, TASTE_COMPATIBILITY_PROMPT_VERSION], { content: response.content });
+
+  return result;
+}
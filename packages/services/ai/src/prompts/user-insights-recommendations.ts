@@ -3,6 +3,7 @@
 import { getTaskConfig } from '@listentomore/config';
 import type { ChatClient, AIResponseMetadata } from '../types';
 import type { AICache } from '../cache';
+import { WEEKLY_INSIGHTS_PERIOD, insightsPeriodCacheParams, type InsightsPeriod } from './insights-period';
 
 export interface AlbumRecommendation {
   albumName: string;
@@ -12,6 +13,7 @@ export interface AlbumRecommendation {
 
 export interface UserInsightsRecommendationsResult {
   recommendations: AlbumRecommendation[];
+  generatedAt?: string; // ISO timestamp; missing on recommendations cached before it was recorded
   metadata?: AIResponseMetadata;
 }
 
@@ -20,6 +22,8 @@ export interface ListeningData {
   topAlbums: Array<{ name: string; artist: string; playcount: number }>;
   recentTracks: Array<{ name: string; artist: string }>;
   historicalArtists: Array<{ name: string }>;
+  /** Defaults to the past week */
+  period?: InsightsPeriod;
 }
 
 /**
@@ -54,7 +58,7 @@ function parseRecommendations(content: string): AlbumRecommendation[] {
 }
 
 /**
- * Generate personalized album recommendations based on 7-day listening
+ * Generate personalized album recommendations based on a period of listening (7 days by default)
  */
 export async function generateUserInsightsRecommendations(
   username: string,
@@ -63,11 +67,13 @@ export async function generateUserInsightsRecommendations(
   cache: AICache
 ): Promise<UserInsightsRecommendationsResult> {
   const normalizedUsername = username.toLowerCase().trim();
+  const { topArtists, topAlbums, recentTracks, historicalArtists, period = WEEKLY_INSIGHTS_PERIOD } = listeningData;
+  const cacheParams = [normalizedUsername, ...insightsPeriodCacheParams(period)];
 
   // Check cache first
   const cached = await cache.get<UserInsightsRecommendationsResult>(
     'userInsightsRecommendations',
-    normalizedUsername
+    ...cacheParams
   );
   if (cached) {
     return cached;
@@ -75,8 +81,6 @@ export async function generateUserInsightsRecommendations(
 
   const config = getTaskConfig('userInsightsRecommendations');
 
-  const { topArtists, topAlbums, recentTracks, historicalArtists } = listeningData;
-
   const historicalNames = new Set(historicalArtists.map((a) => a.name.toLowerCase()));
   const annotatedArtists = topArtists.slice(0, 5).map((a) => ({
     ...a,
@@ -85,12 +89,12 @@ export async function generateUserInsightsRecommendations(
   const topAlbumsSlice = topAlbums.slice(0, 5);
   const recentTracksSlice = recentTracks.slice(0, 30);
 
-  const prompt = `Recommend exactly 4 albums that extend what this person is into right now. Read their week carefully, pick up on the thread or mood they're in, and suggest albums that push that thread forward — either by deepening it or opening an adjacent door.
+  const prompt = `Recommend exactly 4 albums that extend what this person is into right now. Read their ${period.noun} carefully, pick up on the thread or mood they're in, and suggest albums that push that thread forward — either by deepening it or opening an adjacent door.
 
-Top artists this week:
+Top artists ${period.label}:
 ${annotatedArtists.map((a) => `- ${a.name}: ${a.playcount} plays${a.isRegular ? ' (familiar)' : ' (new for them)'}`).join('\n')}
 
-Top albums this week:
+Top albums ${period.label}:
 ${topAlbumsSlice.map((a) => `- ${a.name} by ${a.artist}: ${a.playcount} plays`).join('\n')}
 
 Recent tracks (most recent first):
@@ -99,12 +103,12 @@ ${recentTracksSlice.map((t) => `- ${t.name} — ${t.artist}`).join('\n') || '- (
 Their rotation over the past 6 months (for exclusion only, NOT for framing the recs): ${historicalArtists.map((a) => a.name).join(', ') || 'none on record'}
 
 Rules:
-- Anchor on THIS WEEK. Extend the thread or mood they're in right now. Don't design recommendations around their historical taste.
+- Anchor on ${period.span.toUpperCase()}. Extend the thread or mood they're in right now. Don't design recommendations around their historical taste.
 - Use the 6-month rotation only to avoid recommending artists they already listen to regularly.
-- Recommend albums by artists NOT in their 6-month rotation and NOT in their top 5 this week.
+- Recommend albums by artists NOT in their 6-month rotation and NOT in their top 5 ${period.label}.
 - Each album must actually exist and be available on Spotify. Do not invent titles.
-- The four recommendations should cover different angles of this week's thread — don't give four variations of the same vibe.
-- Each reason should name the specific connection to this week: a particular artist, album, track, or mood they're sitting in right now.
+- The four recommendations should cover different angles of this ${period.noun}'s thread — don't give four variations of the same vibe.
+- Each reason should name the specific connection to ${period.span}: a particular artist, album, track, or mood they're sitting in.
 
 Format each recommendation EXACTLY as:
 **Album Name by Artist Name**: One sentence naming the specific connection.
@@ -121,7 +125,7 @@ Just the 4 formatted recommendations, one per line.`;
       {
         role: 'system',
         content:
-          "You're a music expert who recommends albums someone will actually want to hear. You read their listening carefully — what they're deep in this week, what's on rotation for them historically, what's new vs familiar — and you pick four albums that each connect to something specific in that picture. You don't repeat what they already listen to. You name the connection in plain language. You only recommend albums that actually exist and are available on Spotify.",
+          "You're a music expert who recommends albums someone will actually want to hear. You read their listening carefully — what they're deep in lately, what's on rotation for them historically, what's new vs familiar — and you pick four albums that each connect to something specific in that picture. You don't repeat what they already listen to. You name the connection in plain language. You only recommend albums that actually exist and are available on Spotify.",
       },
       { role: 'user', content: prompt },
     ],
@@ -141,12 +145,14 @@ Just the 4 formatted recommendations, one per line.`;
 
   const result: UserInsightsRecommendationsResult = {
     recommendations,
+    generatedAt: new Date().toISOString(),
     metadata: response.metadata,
   };
 
   // Cache the result (without metadata)
-  await cache.set('userInsightsRecommendations', [normalizedUsername], {
+  await cache.set('userInsightsRecommendations', cacheParams, {
     recommendations: result.recommendations,
+    generatedAt: result.generatedAt,
   });
 
   return result;
@@ -3,9 +3,11 @@
 import { getTaskConfig } from '@listentomore/config';
 import type { ChatClient, ChatMessage, AIResponseMetadata } from '../types';
 import type { AICache } from '../cache';
+import { WEEKLY_INSIGHTS_PERIOD, insightsPeriodCacheParams, type InsightsPeriod } from './insights-period';
 
 export interface UserInsightsSummaryResult {
   content: string;
+  generatedAt?: string; // ISO timestamp; missing on summaries cached before it was recorded
   metadata?: AIResponseMetadata;
 }
 
@@ -13,8 +15,10 @@ export interface ListeningData {
   topArtists: Array<{ name: string; playcount: number }>;
   topAlbums: Array<{ name: string; artist: string; playcount: number }>;
   recentTracks: Array<{ name: string; artist: string }>;
-  weeklyPlayCount: number;
+  playCount: number;
   historicalArtists: Array<{ name: string }>;
+  /** Defaults to the past week */
+  period?: InsightsPeriod;
 }
 
 /** Bump when the prompt changes so cached cold summaries don't linger. */
@@ -89,7 +93,7 @@ Underneath it, the usual ambient names were all there: Nils Frahm at 31, plus Ó
 Then the weird ones, which are the fun part. Evanescence (Beautiful Lie, How Do I Heal), Michael Jackson, and Chris de Burgh all showed up the same week as Stars of the Lid. No notes. That's a healthy week.`;
 
 /**
- * Build the chat messages for the weekly insights summary.
+ * Build the chat messages for the insights summary.
  * Pure — no cache, no client. Shared by generate + the A/B route.
  */
 export function buildUserInsightsMessages(
@@ -99,8 +103,9 @@ export function buildUserInsightsMessages(
     topArtists,
     topAlbums,
     recentTracks,
-    weeklyPlayCount,
+    playCount,
     historicalArtists,
+    period = WEEKLY_INSIGHTS_PERIOD,
   } = listeningData;
 
   const historicalNames = new Set(
@@ -115,14 +120,14 @@ export function buildUserInsightsMessages(
   const topAlbumsSlice = topAlbums.slice(0, 5);
   const recentTracksSlice = recentTracks.slice(0, 30);
 
-  const userPrompt = `Here's someone's listening from the past week. Find the one thing about it that's genuinely interesting — the pattern a friend who knows their taste would call out, not a recap.
+  const userPrompt = `Here's someone's listening from ${period.span}. Find the one thing about it that's genuinely interesting — the pattern a friend who knows their taste would call out, not a recap.
 
-Total plays this week: ${weeklyPlayCount}
+Total plays ${period.label}: ${playCount}
 
-Top artists this week:
+Top artists ${period.label}:
 ${topArtistsSlice.map((a) => `- ${a.name}: ${a.playcount} plays${a.isRegular ? ' (familiar)' : ' (new for them)'}`).join('\n')}
 
-Top albums this week:
+Top albums ${period.label}:
 ${topAlbumsSlice.map((a) => `- ${a.name} by ${a.artist}: ${a.playcount} plays`).join('\n')}
 
 Recent tracks (most recent first):
@@ -131,8 +136,8 @@ ${recentTracksSlice.map((t) => `- ${t.name} — ${t.artist}`).join('\n') || '- (
 Their rotation over the past 6 months: ${historicalArtists.map((a) => a.name).join(', ') || 'none on record'}
 
 ${FEW_SHOT_EXAMPLES}
-
-Now write theirs. 2 to 3 short paragraphs, second person. React to the music with at least one real opinion about a song or record, not a description of the listener. Name specific artists, albums, or tracks, and use the familiar/new flags. If the week is mostly their usual rotation, say so plainly, then find the small thing still worth noting.
+${period.noun === WEEKLY_INSIGHTS_PERIOD.noun ? '' : `\nThe examples cover a week; theirs covers ${period.span}, so write about the whole ${period.noun}.\n`}
+Now write theirs. 2 to 3 short paragraphs, second person. React to the music with at least one real opinion about a song or record, not a description of the listener. Name specific artists, albums, or tracks, and use the familiar/new flags. If the ${period.noun} is mostly their usual rotation, say so plainly, then find the small thing still worth noting.
 
 Hard rules:
 - NEVER contrast by negation. Do not set up a claim by denying its opposite first — in ANY form. Banned: "It's not X, it's Y", "That's not X, that's Y", "You're not X, you're Y", "X isn't Y, it's Z", "not X but Y", "not X — Y", "less like X, more like Y". State the point directly and positively instead. For example, do NOT write "That's not a stray discovery, that's a whole new direction" — just write "That's a whole new direction." This is the single most important rule.
@@ -174,7 +179,7 @@ const SCRUB_INSTRUCTION =
   'The summary below uses the "not X, it\'s Y" construction, which is banned. Rewrite ONLY the sentence(s) that use it so they state the point directly and positively, with no negation-then-correction. This construction takes many forms — all banned: "It\'s not X, it\'s Y", "That\'s not X, that\'s Y", "You\'re not X, you\'re Y", "X isn\'t Y, it\'s Z", "not X but Y", "not X — Y", "less like X, more like Y". Keep every other sentence word-for-word identical. Preserve the paragraphs, the facts, and the casual second-person voice. Return only the rewritten summary — no preamble, no explanation.';
 
 /**
- * Generate a personalized summary of user's 7-day listening patterns
+ * Generate a personalized summary of a user's listening over a period (7 days by default)
  */
 export async function generateUserInsightsSummary(
   username: string,
@@ -183,13 +188,14 @@ export async function generateUserInsightsSummary(
   cache: AICache
 ): Promise<UserInsightsSummaryResult> {
   const normalizedUsername = username.toLowerCase().trim();
+  const cacheParams = [
+    normalizedUsername,
+    ...insightsPeriodCacheParams(listeningData.period ?? WEEKLY_INSIGHTS_PERIOD),
+    USER_INSIGHTS_PROMPT_VERSION,
+  ];
 
   // Check cache first
-  const cached = await cache.get<UserInsightsSummaryResult>(
-    'userInsightsSummary',
-    normalizedUsername,
-    USER_INSIGHTS_PROMPT_VERSION
-  );
+  const cached = await cache.get<UserInsightsSummaryResult>('userInsightsSummary', ...cacheParams);
   if (cached) {
     return cached;
   }
@@ -239,12 +245,14 @@ export async function generateUserInsightsSummary(
 
   const result: UserInsightsSummaryResult = {
     content,
+    generatedAt: new Date().toISOString(),
     metadata: response.metadata,
   };
 
   // Cache the result (without metadata)
-  await cache.set('userInsightsSummary', [normalizedUsername, USER_INSIGHTS_PROMPT_VERSION], {
+  await cache.set('userInsightsSummary', cacheParams, {
     content,
+    generatedAt: result.generatedAt,
   });
 
   return result;
@@ -0,0 +1,132 @@
+// Year in review prompt - generates a narrative recap of a user's calendar year of listening
+
+import { getTaskConfig } from '@listentomore/config';
+import type { ChatClient, ChatMessage, AIResponseMetadata } from '../types';
+import type { AICache } from '../cache';
+
+export interface YearInReviewNarrativeResult {
+  content: string;
+  metadata?: AIResponseMetadata;
+}
+
+export interface YearInReviewData {
+  year: number;
+  totalPlays: number;
+  daysListened: number;
+  topArtists: Array<{ name: string; playcount: number }>;
+  topAlbums: Array<{ name: string; artist: string; playcount: number }>;
+  topTracks: Array<{ name: string; artist: string; playcount: number }>;
+  /** Null when the archive doesn't reach back far enough to tell what was new */
+  newArtists: Array<{ name: string; playcount: number }> | null;
+  newArtistCount: number | null;
+  busiestMonth: { month: string; playcount: number } | null;
+  longestStreak: { days: number; start: string; end: string } | null;
+  /** True while the year is still in progress */
+  inProgress: boolean;
+  /** False while the scrobble backfill has not reached the start of the year yet */
+  historyComplete: boolean;
+}
+
+/** Bump when the prompt changes so cached narratives don't linger. */
+export const YEAR_IN_REVIEW_PROMPT_VERSION = 'v1';
+
+// Cached narratives for a year that is still running, or whose history is still
+// being imported, go stale quickly
+const IN_PROGRESS_TTL_SECONDS = 24 * 60 * 60;
+
+const SYSTEM_PROMPT =
+  "You're a friend who has watched someone's listening all year and is writing them the recap. You care about the records and songs themselves: which ones defined the year, what they found, where they went deep. You talk about the music with someone whose taste you know, warmly and specifically, without hype.";
+
+/**
+ * Build the chat messages for a year in review narrative.
+ * Pure — no cache, no client.
+ */
+export function buildYearInReviewMessages(data: YearInReviewData): ChatMessage[] {
+  const yearLabel = data.inProgress ? `${data.year} so far` : `${data.year}`;
+
+  const discoveries =
+    data.newArtists === null
+      ? 'Unknown (their history before this year is not available)'
+      : data.newArtists.length > 0
+        ? `${data.newArtistCount} artists they had never played before. The biggest:\n${data.newArtists.map((a) => `- ${a.name}: ${a.playcount} plays`).join('\n')}`
+        : 'None';
+
+  const userPrompt = `Here's someone's listening for ${yearLabel}. Write their year in review.
+
+Total plays: ${data.totalPlays} across ${data.daysListened} days
+Busiest month: ${data.busiestMonth ? `${data.busiestMonth.month} (${data.busiestMonth.playcount} plays)` : 'n/a'}
+Longest listening streak: ${data.longestStreak ? `${data.longestStreak.days} days in a row (${data.longestStreak.start} to ${data.longestStreak.end})` : 'n/a'}
+
+Top artists:
+${data.topArtists.map((a) => `- ${a.name}: ${a.playcount} plays`).join('\n') || '- (none)'}
+
+Top albums:
+${data.topAlbums.map((a) => `- ${a.name} by ${a.artist}: ${a.playcount} plays`).join('\n') || '- (none)'}
+
+Top tracks:
+${data.topTracks.map((t) => `- ${t.name} — ${t.artist}: ${t.playcount} plays`).join('\n') || '- (none)'}
+
+New artists this year: ${discoveries}
+
+Write 3 to 4 short paragraphs, second person. Open with what defined the year, then the discoveries, then one observation about how they listened (the busy month, the streak, where they went deep). Name specific artists, albums, and tracks, and have at least one real opinion about a record. ${data.inProgress ? 'The year is not over, so write it as a look at the year so far.' : ''}
+
+Hard rules:
+- NEVER contrast by negation ("It's not X, it's Y", "not X but Y", "less like X, more like Y"). State the point directly.
+- At most 3 em dashes in the whole thing.
+- No clichés, no recommendations, no restating the numbers as a list. Use numbers only where they make a point.`;
+
+  return [
+    { role: 'system', content: SYSTEM_PROMPT },
+    { role: 'user', content: userPrompt },
+  ];
+}
+
+/**
+ * Generate a narrative recap of a user's year in music
+ */
+export async function generateYearInReviewNarrative(
+  username: string,
+  data: YearInReviewData,
+  client: ChatClient,
+  cache: AICache
+): Promise<YearInReviewNarrativeResult> {
+  const normalizedUsername = username.toLowerCase().trim();
+  const year = String(data.year);
+
+  // Check cache first
+  const cached = await cache.get<YearInReviewNarrativeResult>(
+    'yearInReview',
+    normalizedUsername,
+    year,
+    YEAR_IN_REVIEW_PROMPT_VERSION
+  );
+  if (cached) {
+    return cached;
+  }
+
+  const config = getTaskConfig('yearInReview');
+
+  const response = await client.chatCompletion({
+    model: config.model,
+    messages: buildYearInReviewMessages(data),
+    maxTokens: config.maxTokens,
+    temperature: config.temperature,
+    reasoning: config.reasoning,
+    verbosity: config.verbosity,
+  });
+
+  const result: YearInReviewNarrativeResult = {
+    content: response.content,
+    metadata: response.metadata,
+  };
+
+  // Cache the result (without metadata)
+  await cache.set(
+    'yearInReview',
+    [normalizedUsername, year, YEAR_IN_REVIEW_PROMPT_VERSION],
+    { content: response.content },
+    data.inProgress || !data.historyComplete ? { ttlSeconds: IN_PROGRESS_TTL_SECONDS } : undefined
+  );
+
+  return result;
+}
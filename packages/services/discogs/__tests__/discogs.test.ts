@@ -0,0 +1,359 @@
+// ABOUTME: Tests for the Discogs service against a local fake Discogs HTTP server.
+// ABOUTME: Covers the OAuth handshake, resumable collection sync, pruning and enrichment.
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Database, DiscogsRelease, DiscogsSyncState, User } from '@listentomore/db';
+import { DiscogsService } from '../src/index';
+
+// ---------------------------------------------------------------------------
+// Fake Discogs server
+// ---------------------------------------------------------------------------
+
+interface FakeDiscogs {
+  collection: Array<{ id: number; masterId: number; title: string; artist: string }>;
+  masters: Record<number, { year: number; genres: string[]; styles: string[] }>;
+  authHeaders: string[];
+  rateLimitCollectionPage: number | null;
+}
+
+const fake: FakeDiscogs = {
+  collection: [],
+  masters: {},
+  authHeaders: [],
+  rateLimitCollectionPage: null,
+};
+
+function handle(req: IncomingMessage, res: ServerResponse) {
+  const url = new URL(req.url!, 'http://localhost');
+  const auth = req.headers.authorization ?? '';
+  fake.authHeaders.push(auth);
+
+  const send = (status: number, body: unknown, type = 'application/json') => {
+    res.writeHead(status, { 'Content-Type': type });
+    res.end(typeof body === 'string' ? body : JSON.stringify(body));
+  };
+
+  if (req.headers['user-agent']?.startsWith('ListenToMore') !== true) {
+    return send(403, { message: 'User-Agent required' });
+  }
+
+  if (url.pathname === '/oauth/request_token' && req.method === 'POST') {
+    return send(200, 'oauth_token=req-token&oauth_token_secret=req-secret&oauth_callback_confirmed=true', 'text/plain');
+  }
+  if (url.pathname === '/oauth/access_token' && req.method === 'POST') {
+    if (!auth.includes('oauth_verifier="the-verifier"') || !auth.includes('oauth_signature="consumer-secret%26req-secret"')) {
+      return send(401, { message: 'Invalid verifier' });
+    }
+    return send(200, 'oauth_token=access-token&oauth_token_secret=access-secret', 'text/plain');
+  }
+  if (url.pathname === '/oauth/identity') {
+    return send(200, { id: 1, username: 'crate_digger' });
+  }
+
+  const collectionMatch = url.pathname.match(/^\/users\/([^/]+)\/collection\/folders\/0\/releases$/);
+  if (collectionMatch) {
+    const page = parseInt(url.searchParams.get('page') ?? '1', 10);
+    if (fake.rateLimitCollectionPage === page) {
+      return send(429, { message: 'You are making requests too quickly.' });
+    }
+    const perPage = parseInt(url.searchParams.get('per_page') ?? '50', 10);
+    const pages = Math.max(1, Math.ceil(fake.collection.length / perPage));
+    const items = fake.collection.slice((page - 1) * perPage, page * perPage);
+    return send(200, {
+      pagination: { page, pages, per_page: perPage, items: fake.collection.length },
+      releases: items.map((item, index) => ({
+        id: item.id,
+        instance_id: 1000 + item.id,
+        date_added: `2025-01-${String(index + 1).padStart(2, '0')}T00:00:00-08:00`,
+        rating: 0,
+        basic_information: {
+          id: item.id,
+          master_id: item.masterId,
+          title: item.title,
+          year: 2001,
+          thumb: '',
+          cover_image: `https://img.example/${item.id}.jpg`,
+          artists: [{ name: item.artist }],
+          labels: [{ name: 'Label' }],
+          formats: [{ name: 'Vinyl' }, { name: 'Vinyl' }],
+          genres: ['Electronic'],
+          styles: [],
+        },
+      })),
+    });
+  }
+
+  const masterMatch = url.pathname.match(/^\/masters\/(\d+)$/);
+  if (masterMatch) {
+    const master = fake.masters[parseInt(masterMatch[1], 10)];
+    return master ? send(200, { id: parseInt(masterMatch[1], 10), ...master }) : send(404, { message: 'Master not found' });
+  }
+
+  send(404, { message: 'Not found' });
+}
+
+// ---------------------------------------------------------------------------
+// In-memory stand-in for the D1-backed Database
+// ---------------------------------------------------------------------------
+
+function createFakeDb() {
+  const releases = new Map<string, DiscogsRelease>();
+  const syncStates = new Map<string, DiscogsSyncState>();
+  const now = () => new Date().toISOString();
+
+  const db = {
+    releases,
+    syncStates,
+    async ensureSyncState(userId: string) {
+      if (!syncStates.has(userId)) {
+        syncStates.set(userId, {
+          id: userId,
+          user_id: userId,
+          last_full_sync: null,
+          last_enrichment_sync: null,
+          current_page: 0,
+          total_pages: 0,
+          enrichment_cursor: 0,
+          status: 'idle',
+          error_message: null,
+          sync_started_at: null,
+          releases_synced: 0,
+          collection_items: null,
+          updated_at: now(),
+        });
+      }
+      return syncStates.get(userId)!;
+    },
+    async updateSyncState(id: string, data: Partial<DiscogsSyncState>) {
+      syncStates.set(id, { ...syncStates.get(id)!, ...data });
+    },
+    async upsertRelease(row: Omit<DiscogsRelease, 'created_at' | 'updated_at'>) {
+      const key = `${row.user_id}:${row.id}`;
+      const existing = releases.get(key);
+      releases.set(key, {
+        ...row,
+        master_genres: row.master_genres ?? existing?.master_genres ?? null,
+        master_styles: row.master_styles ?? existing?.master_styles ?? null,
+        original_year: row.original_year ?? existing?.original_year ?? null,
+        master_enriched: existing?.master_enriched ?? row.master_enriched,
+        created_at: existing?.created_at ?? now(),
+        updated_at: now(),
+      });
+    },
+    async deleteReleasesNotUpdatedSince(userId: string, since: string) {
+      let removed = 0;
+      for (const [key, row] of releases) {
+        if (row.user_id === userId && row.updated_at < since) {
+          releases.delete(key);
+          removed++;
+        }
+      }
+      return removed;
+    },
+    async getReleasesNeedingEnrichment(limit: number) {
+      return Array.from(releases.values())
+        .filter((row) => row.master_enriched === 0 && row.master_id !== null)
+        .slice(0, limit);
+    },
+    async updateMasterEnrichment(
+      masterId: number,
+      data: { master_genres: string | null; master_styles: string | null; original_year: number | null }
+    ) {
+      for (const row of releases.values()) {
+        if (row.master_id === masterId) {
+          Object.assign(row, {
+            master_genres: data.master_genres,
+            master_styles: data.master_styles,
+            original_year: data.original_year ?? row.original_year,
+            master_enriched: 1,
+          });
+        }
+      }
+    },
+  };
+  return db;
+}
+
+const user = {
+  id: 'user-1',
+  discogs_username: 'crate_digger',
+  discogs_oauth_token: 'access-token',
+  discogs_oauth_token_secret: 'access-secret',
+} as User;
+
+// ---------------------------------------------------------------------------
+
+describe('DiscogsService', () => {
+  let server: Server;
+  let baseUrl: string;
+  let db: ReturnType<typeof createFakeDb>;
+  let service: DiscogsService;
+
+  beforeAll(async () => {
+    server = createServer(handle);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    fake.collection = Array.from({ length: 250 }, (_, i) => ({
+      id: i + 1,
+      masterId: (i % 3) + 1,
+      title: `Record ${i + 1}`,
+      artist: i === 0 ? 'Nirvana (2)' : 'Artist',
+    }));
+    fake.masters = {
+      1: { year: 1969, genres: ['Jazz'], styles: ['Modal'] },
+      2: { year: 1977, genres: ['Rock'], styles: ['Punk'] },
+    };
+    fake.authHeaders = [];
+    fake.rateLimitCollectionPage = null;
+    db = createFakeDb();
+    service = new DiscogsService(db as unknown as Database, {
+      consumerKey: 'consumer-key',
+      consumerSecret: 'consumer-secret',
+      apiBaseUrl: baseUrl,
+      siteBaseUrl: 'https://discogs.example',
+      requestDelayMs: 0,
+    });
+  });
+
+  describe('OAuth', () => {
+    it('completes the request token -> access token -> identity handshake', async () => {
+      const requestToken = await service.oauth.getRequestToken('https://listentomore.com/auth/discogs/callback');
+      expect(requestToken).toEqual({ token: 'req-token', secret: 'req-secret' });
+      expect(fake.authHeaders[0]).toContain('oauth_callback="https%3A%2F%2Flistentomore.com%2Fauth%2Fdiscogs%2Fcallback"');
+      expect(fake.authHeaders[0]).toContain('oauth_signature_method="PLAINTEXT"');
+
+      expect(service.oauth.getAuthorizeUrl(requestToken.token)).toBe('https://discogs.example/oauth/authorize?oauth_token=req-token');
+
+      const accessToken = await service.oauth.getAccessToken(requestToken, 'the-verifier');
+      expect(accessToken).toEqual({ token: 'access-token', secret: 'access-secret' });
+
+      expect(await service.getIdentity(accessToken)).toBe('crate_digger');
+    });
+
+    it('rejects a bad verifier', async () => {
+      await expect(
+        service.oauth.getAccessToken({ token: 'req-token', secret: 'req-secret' }, 'wrong')
+      ).rejects.toThrow('Failed to get access token (401)');
+    });
+  });
+
+  describe('syncCollection', () => {
+    it('pages through the collection and resumes from the stored cursor', async () => {
+      const first = await service.syncCollection(user, { maxPages: 2 });
+      expect(first).toMatchObject({ pagesFetched: 2, releasesSynced: 200, complete: false });
+      expect(db.syncStates.get('user-1')).toMatchObject({ status: 'syncing', current_page: 3, total_pages: 3 });
+
+      const second = await service.syncCollection(user, { maxPages: 2 });
+      expect(second).toMatchObject({ pagesFetched: 1, releasesSynced: 50, complete: true });
+      expect(db.releases.size).toBe(250);
+      expect(db.syncStates.get('user-1')).toMatchObject({ status: 'idle', current_page: 0, sync_started_at: null });
+      expect(db.syncStates.get('user-1')!.last_full_sync).not.toBeNull();
+    });
+
+    it('maps collection items onto release rows', async () => {
+      await service.syncCollection(user);
+
+      const row = db.releases.get('user-1:1')!;
+      expect(row).toMatchObject({
+        artist: 'Nirvana',
+        format: 'Vinyl',
+        genres: '["Electronic"]',
+        image_url: 'https://img.example/1.jpg',
+        discogs_url: 'https://www.discogs.com/release/1',
+        master_id: 1,
+        master_enriched: 0,
+      });
+    });
+
+    it('skips users synced within the last day unless forced', async () => {
+      await service.syncCollection(user);
+
+      expect((await service.syncCollection(user)).skipped).toBe(true);
+      expect((await service.syncCollection(user, { force: true })).skipped).toBe(false);
+    });
+
+    it('removes releases that left the collection', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      try {
+        await service.syncCollection(user);
+        fake.collection = fake.collection.slice(0, 10);
+        vi.setSystemTime(Date.now() + 60_000);
+
+        const result = await service.syncCollection(user, { force: true });
+
+        expect(result.releasesRemoved).toBe(240);
+        expect(db.releases.size).toBe(10);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('skips the prune when releases leave the collection mid-sync, then resyncs', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      try {
+        await service.syncCollection(user);
+        vi.setSystemTime(Date.now() + 60_000);
+
+        await service.syncCollection(user, { maxPages: 2, force: true });
+        // Removing the first 20 shifts records 201-220 onto page 2, which was already fetched
+        fake.collection = fake.collection.slice(20);
+        vi.setSystemTime(Date.now() + 60_000);
+
+        const partial = await service.syncCollection(user, { maxPages: 2 });
+
+        expect(partial).toMatchObject({ pagesFetched: 1, releasesSynced: 30, releasesRemoved: 0, complete: false });
+        expect(db.releases.has('user-1:201')).toBe(true);
+        expect(db.syncStates.get('user-1')).toMatchObject({ status: 'idle', current_page: 0, last_full_sync: null });
+
+        const resync = await service.syncCollection(user);
+
+        expect(resync).toMatchObject({ releasesSynced: 230, releasesRemoved: 20, complete: true });
+        expect(db.releases.size).toBe(230);
+        expect(db.releases.has('user-1:1')).toBe(false);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('records rate limits and resumes on the same page', async () => {
+      fake.rateLimitCollectionPage = 2;
+
+      await expect(service.syncCollection(user)).rejects.toThrow('Rate limit exceeded for Discogs');
+      expect(db.syncStates.get('user-1')).toMatchObject({ status: 'error', current_page: 2 });
+
+      fake.rateLimitCollectionPage = null;
+      const result = await service.syncCollection(user);
+
+      expect(result).toMatchObject({ pagesFetched: 2, complete: true });
+      expect(db.releases.size).toBe(250);
+    });
+  });
+
+  describe('enrichReleases', () => {
+    it('fills master fields once per master and marks missing masters', async () => {
+      await service.syncCollection(user);
+
+      const result = await service.enrichReleases(250);
+
+      expect(result).toEqual({ mastersEnriched: 2, mastersMissing: 1 });
+      expect(db.releases.get('user-1:1')).toMatchObject({
+        master_id: 1,
+        master_genres: '["Jazz"]',
+        original_year: 1969,
+        master_enriched: 1,
+      });
+      expect(db.releases.get('user-1:3')).toMatchObject({ master_id: 3, master_genres: null, master_enriched: 1 });
+      expect(await db.getReleasesNeedingEnrichment(250)).toHaveLength(0);
+      expect(fake.authHeaders.at(-1)).toBe('Discogs key=consumer-key, secret=consumer-secret');
+    });
+  });
+});
@@ -0,0 +1,41 @@
+// ABOUTME: Maps Discogs collection items onto discogs_releases rows.
+// ABOUTME: Master-level fields are left empty here and filled by the enrichment pass.
+
+import type { DiscogsRelease } from '@listentomore/db';
+import type { DiscogsCollectionItem } from './types';
+
+export type ReleaseRow = Omit<DiscogsRelease, 'created_at' | 'updated_at'>;
+
+/**
+ * Discogs disambiguates artists with a numeric suffix, e.g. "Nirvana (2)"
+ */
+function cleanArtistName(name: string): string {
+  return name.replace(/\s\(\d+\)$/, '');
+}
+
+export function toReleaseRow(userId: string, item: DiscogsCollectionItem): ReleaseRow {
+  const info = item.basic_information;
+  const formats = Array.from(new Set(info.formats.map((format) => format.name)));
+
+  return {
+    id: info.id,
+    user_id: userId,
+    instance_id: item.instance_id,
+    title: info.title,
+    artist: info.artists.map((artist) => cleanArtistName(artist.name)).join(', '),
+    year: info.year || null,
+    original_year: null,
+    format: formats.length > 0 ? formats.join(', ') : null,
+    label: info.labels[0]?.name ?? null,
+    genres: JSON.stringify(info.genres ?? []),
+    styles: JSON.stringify(info.styles ?? []),
+    master_genres: null,
+    master_styles: null,
+    image_url: info.cover_image || info.thumb || null,
+    discogs_url: `https://www.discogs.com/release/${info.id}`,
+    date_added: item.date_added,
+    rating: item.rating || null,
+    master_id: info.master_id || null,
+    master_enriched: 0,
+  };
+}
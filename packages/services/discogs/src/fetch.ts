@@ -0,0 +1,41 @@
+// ABOUTME: Fetch wrapper for the Discogs API.
+// ABOUTME: Sets the required User-Agent and surfaces 429s as RateLimitError so passes can stop early.
+
+import { fetchWithTimeout, RateLimitError } from '@listentomore/shared';
+
+export const DISCOGS_API_BASE = 'https://api.discogs.com';
+export const DISCOGS_SITE_BASE = 'https://www.discogs.com';
+const USER_AGENT = 'ListenToMore/1.0 (https://listentomore.com)';
+
+/**
+ * Make a request to the Discogs API.
+ *
+ * Discogs rejects requests without a User-Agent and rate limits per minute
+ * (60 authenticated, 25 anonymous). A 429 is thrown as RateLimitError so a
+ * sync or enrichment pass can stop and resume on the next cron run.
+ */
+export async function discogsFetch(
+  url: string,
+  options: { authorization: string; method?: 'GET' | 'POST'; contentType?: string }
+): Promise<Response> {
+  const headers: Record<string, string> = {
+    'User-Agent': USER_AGENT,
+    Authorization: options.authorization,
+  };
+  if (options.contentType) {
+    headers['Content-Type'] = options.contentType;
+  }
+
+  const response = await fetchWithTimeout(url, {
+    method: options.method ?? 'GET',
+    timeout: 'fast',
+    headers,
+  });
+
+  if (response.status === 429) {
+    console.error(`[Discogs] 429 Rate Limited for ${url}`);
+    throw new RateLimitError('Discogs', 60);
+  }
+
+  return response;
+}
@@ -0,0 +1,257 @@
+// ABOUTME: Discogs service - OAuth, collection sync into D1 and master-release enrichment.
+// ABOUTME: Both passes are resumable and bounded so they can run from the scheduled() cron.
+
+import { RATE_LIMITS } from '@listentomore/config';
+import { ExternalApiError } from '@listentomore/shared';
+import type { Database, User } from '@listentomore/db';
+import { discogsFetch, DISCOGS_API_BASE, DISCOGS_SITE_BASE } from './fetch';
+import { DiscogsOAuth } from './oauth';
+import { toReleaseRow } from './collection';
+import type {
+  DiscogsAccessToken,
+  DiscogsCollectionResponse,
+  DiscogsIdentityResponse,
+  DiscogsMasterResponse,
+  DiscogsServiceConfig,
+  CollectionSyncResult,
+  EnrichmentResult,
+} from './types';
+
+export { DiscogsOAuth } from './oauth';
+export { toReleaseRow } from './collection';
+export type {
+  DiscogsAccessToken,
+  DiscogsServiceConfig,
+  DiscogsCollectionItem,
+  CollectionSyncResult,
+  EnrichmentResult,
+} from './types';
+
+const COLLECTION_PAGE_SIZE = 100; // Discogs maximum
+const FULL_SYNC_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export class DiscogsService {
+  public readonly oauth: DiscogsOAuth;
+  private apiBaseUrl: string;
+  private requestDelayMs: number;
+
+  constructor(
+    private db: Database,
+    private config: DiscogsServiceConfig
+  ) {
+    this.apiBaseUrl = config.apiBaseUrl ?? DISCOGS_API_BASE;
+    this.requestDelayMs = config.requestDelayMs ?? RATE_LIMITS.discogs.requestDelayMs;
+    this.oauth = new DiscogsOAuth(
+      config.consumerKey,
+      config.consumerSecret,
+      this.apiBaseUrl,
+      config.siteBaseUrl ?? DISCOGS_SITE_BASE
+    );
+  }
+
+  /**
+   * Look up the Discogs username that an access token belongs to
+   */
+  async getIdentity(token: DiscogsAccessToken): Promise<string> {
+    const response = await discogsFetch(`${this.apiBaseUrl}/oauth/identity`, {
+      authorization: this.oauth.authorizationHeader(token),
+    });
+
+    if (!response.ok) {
+      throw new ExternalApiError('Discogs', `Failed to fetch identity (${response.status})`, response.status);
+    }
+
+    const data = (await response.json()) as DiscogsIdentityResponse;
+    return data.username;
+  }
+
+  /**
+   * Page through a user's collection into discogs_releases.
+   *
+   * A full sync runs at most once a day. Progress is stored in
+   * discogs_sync_state after every page, so a sync that hits `maxPages`, a
+   * rate limit or an error resumes from the same page on the next call. When
+   * the last page is stored, releases not seen since the sync started are
+   * removed (they were deleted from the Discogs collection) - but only if the
+   * sync stored as many items as the collection held throughout. Items removed
+   * mid-sync shift later ones onto pages already fetched; those were never
+   * seen, so the prune is skipped and the next run starts a fresh sync.
+   */
+  async syncCollection(
+    user: User,
+    options: { maxPages?: number; force?: boolean } = {}
+  ): Promise<CollectionSyncResult> {
+    const { maxPages = 5, force = false } = options;
+    const token = this.getUserToken(user);
+    const state = await this.db.ensureSyncState(user.id);
+
+    const result: CollectionSyncResult = {
+      pagesFetched: 0,
+      releasesSynced: 0,
+      releasesRemoved: 0,
+      complete: false,
+      skipped: false,
+    };
+
+    const resuming =
+      (state.status === 'syncing' || state.status === 'error') &&
+      state.current_page > 0 &&
+      state.sync_started_at !== null;
+
+    let page = state.current_page;
+    let totalPages = state.total_pages;
+    let startedAt = state.sync_started_at;
+    let synced = resuming ? state.releases_synced : 0;
+    let collectionItems = resuming ? state.collection_items : null;
+    let reportedItems = 0;
+
+    if (!resuming) {
+      const lastSync = state.last_full_sync ? new Date(state.last_full_sync).getTime() : 0;
+      if (!force && Date.now() - lastSync < FULL_SYNC_INTERVAL_MS) {
+        result.skipped = true;
+        return result;
+      }
+
+      page = 1;
+      totalPages = 0;
+      startedAt = new Date().toISOString();
+      await this.db.updateSyncState(user.id, {
+        status: 'syncing',
+        current_page: page,
+        total_pages: totalPages,
+        sync_started_at: startedAt,
+        releases_synced: 0,
+        collection_items: null,
+        error_message: null,
+      });
+    }
+
+    try {
+      while (result.pagesFetched < maxPages) {
+        if (result.pagesFetched > 0) await this.delay();
+
+        // Oldest first, so releases added mid-sync land on later pages instead of shifting earlier ones
+        const url = `${this.apiBaseUrl}/users/${encodeURIComponent(user.discogs_username!)}/collection/folders/0/releases?page=${page}&per_page=${COLLECTION_PAGE_SIZE}&sort=added&sort_order=asc`;
+        const response = await discogsFetch(url, {
+          authorization: this.oauth.authorizationHeader(token),
+        });
+
+        if (!response.ok) {
+          throw new ExternalApiError('Discogs', `Failed to fetch collection page ${page} (${response.status})`, response.status);
+        }
+
+        const data = (await response.json()) as DiscogsCollectionResponse;
+        for (const item of data.releases) {
+          await this.db.upsertRelease(toReleaseRow(user.id, item));
+        }
+
+        result.pagesFetched++;
+        result.releasesSynced += data.releases.length;
+        synced += data.releases.length;
+        totalPages = data.pagination.pages;
+        reportedItems = data.pagination.items;
+        collectionItems ??= reportedItems;
+
+        if (page >= totalPages) {
+          result.complete = true;
+          break;
+        }
+
+        page++;
+        await this.db.updateSyncState(user.id, {
+          current_page: page,
+          total_pages: totalPages,
+          releases_synced: synced,
+          collection_items: collectionItems,
+        });
+      }
+    } catch (error) {
+      await this.db.updateSyncState(user.id, {
+        status: 'error',
+        error_message: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+
+    if (result.complete) {
+      const sawWholeCollection = synced === collectionItems && synced === reportedItems;
+      if (sawWholeCollection) {
+        result.releasesRemoved = await this.db.deleteReleasesNotUpdatedSince(user.id, startedAt!);
+      } else {
+        // Clearing last_full_sync below makes the next run start over
+        result.complete = false;
+      }
+      await this.db.updateSyncState(user.id, {
+        status: 'idle',
+        current_page: 0,
+        total_pages: totalPages,
+        last_full_sync: sawWholeCollection ? new Date().toISOString() : null,
+        sync_started_at: null,
+        releases_synced: 0,
+        collection_items: null,
+        error_message: null,
+      });
+    } else {
+      await this.db.updateSyncState(user.id, { status: 'syncing', error_message: null });
+    }
+
+    return result;
+  }
+
+  /**
+   * Fill master_genres/master_styles/original_year from master releases.
+   *
+   * Works across all users: one master lookup updates every release that
+   * shares it. Masters that no longer exist are marked enriched with empty
+   * fields so they are not retried forever.
+   */
+  async enrichReleases(limit: number = 25): Promise<EnrichmentResult> {
+    const releases = await this.db.getReleasesNeedingEnrichment(limit);
+    const masterIds = Array.from(new Set(releases.map((release) => release.master_id!)));
+    const result: EnrichmentResult = { mastersEnriched: 0, mastersMissing: 0 };
+
+    for (const [index, masterId] of masterIds.entries()) {
+      if (index > 0) await this.delay();
+
+      const response = await discogsFetch(`${this.apiBaseUrl}/masters/${masterId}`, {
+        authorization: `Discogs key=${this.config.consumerKey}, secret=${this.config.consumerSecret}`,
+      });
+
+      if (response.status === 404) {
+        await this.db.updateMasterEnrichment(masterId, {
+          master_genres: null,
+          master_styles: null,
+          original_year: null,
+        });
+        result.mastersMissing++;
+        continue;
+      }
+
+      if (!response.ok) {
+        throw new ExternalApiError('Discogs', `Failed to fetch master ${masterId} (${response.status})`, response.status);
+      }
+
+      const master = (await response.json()) as DiscogsMasterResponse;
+      await this.db.updateMasterEnrichment(masterId, {
+        master_genres: JSON.stringify(master.genres ?? []),
+        master_styles: JSON.stringify(master.styles ?? []),
+        original_year: master.year || null,
+      });
+      result.mastersEnriched++;
+    }
+
+    return result;
+  }
+
+  private getUserToken(user: User): DiscogsAccessToken {
+    if (!user.discogs_username || !user.discogs_oauth_token || !user.discogs_oauth_token_secret) {
+      throw new Error(`User ${user.id} has not connected Discogs`);
+    }
+    return { token: user.discogs_oauth_token, secret: user.discogs_oauth_token_secret };
+  }
+
+  private delay(): Promise<void> {
+    if (this.requestDelayMs <= 0) return Promise.resolve();
+    return new Promise((resolve) => setTimeout(resolve, this.requestDelayMs));
+  }
+}
@@ -0,0 +1,95 @@
+// ABOUTME: Discogs OAuth 1.0a flow (request token -> authorize -> access token).
+// ABOUTME: Uses the PLAINTEXT signature method, which Discogs supports over HTTPS.
+
+import { ExternalApiError } from '@listentomore/shared';
+import { discogsFetch } from './fetch';
+import type { DiscogsAccessToken } from './types';
+
+function percentEncode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (ch) => `%${ch.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+export class DiscogsOAuth {
+  constructor(
+    private consumerKey: string,
+    private consumerSecret: string,
+    private apiBaseUrl: string,
+    private siteBaseUrl: string
+  ) {}
+
+  /**
+   * Build an OAuth Authorization header. With PLAINTEXT the signature is
+   * simply `consumer_secret&token_secret`.
+   */
+  authorizationHeader(
+    token?: DiscogsAccessToken | null,
+    extra: Record<string, string> = {}
+  ): string {
+    const params: Record<string, string> = {
+      oauth_consumer_key: this.consumerKey,
+      oauth_nonce: crypto.randomUUID().replace(/-/g, ''),
+      oauth_signature: `${this.consumerSecret}&${token?.secret ?? ''}`,
+      oauth_signature_method: 'PLAINTEXT',
+      oauth_timestamp: Math.floor(Date.now() / 1000).toString(),
+      oauth_version: '1.0',
+      ...extra,
+    };
+    if (token) {
+      params.oauth_token = token.token;
+    }
+
+    return (
+      'OAuth ' +
+      Object.entries(params)
+        .map(([key, value]) => `${key}="${percentEncode(value)}"`)
+        .join(', ')
+    );
+  }
+
+  /**
+   * Step 1: Get a temporary request token
+   */
+  async getRequestToken(callbackUrl: string): Promise<DiscogsAccessToken> {
+    const response = await discogsFetch(`${this.apiBaseUrl}/oauth/request_token`, {
+      method: 'POST',
+      contentType: 'application/x-www-form-urlencoded',
+      authorization: this.authorizationHeader(null, { oauth_callback: callbackUrl }),
+    });
+    return this.parseTokenResponse(response, 'request token');
+  }
+
+  /**
+   * Step 2: URL to send the user to for authorization
+   */
+  getAuthorizeUrl(requestToken: string): string {
+    return `${this.siteBaseUrl}/oauth/authorize?oauth_token=${encodeURIComponent(requestToken)}`;
+  }
+
+  /**
+   * Step 3: Exchange the authorized request token + verifier for an access token
+   */
+  async getAccessToken(requestToken: DiscogsAccessToken, verifier: string): Promise<DiscogsAccessToken> {
+    const response = await discogsFetch(`${this.apiBaseUrl}/oauth/access_token`, {
+      method: 'POST',
+      contentType: 'application/x-www-form-urlencoded',
+      authorization: this.authorizationHeader(requestToken, { oauth_verifier: verifier }),
+    });
+    return this.parseTokenResponse(response, 'access token');
+  }
+
+  private async parseTokenResponse(response: Response, label: string): Promise<DiscogsAccessToken> {
+    if (!response.ok) {
+      throw new ExternalApiError('Discogs', `Failed to get ${label} (${response.status})`, response.status);
+    }
+
+    const params = new URLSearchParams(await response.text());
+    const token = params.get('oauth_token');
+    const secret = params.get('oauth_token_secret');
+
+    if (!token || !secret) {
+      throw new ExternalApiError('Discogs', `Malformed ${label} response`);
+    }
+
+    return { token, secret };
+  }
+}
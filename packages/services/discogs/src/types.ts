@@ -0,0 +1,75 @@
+// ABOUTME: Type definitions for Discogs API responses and service configuration.
+// ABOUTME: Only the fields the collection sync and enrichment actually read are typed.
+
+export interface DiscogsAccessToken {
+  token: string;
+  secret: string;
+}
+
+export interface DiscogsServiceConfig {
+  consumerKey: string;
+  consumerSecret: string;
+  /** Override the API origin (e.g. a local fake Discogs server in tests) */
+  apiBaseUrl?: string;
+  /** Override the site origin used for the OAuth authorize page */
+  siteBaseUrl?: string;
+  /** Delay between consecutive requests in a sync or enrichment pass */
+  requestDelayMs?: number;
+}
+
+export interface DiscogsPagination {
+  page: number;
+  pages: number;
+  per_page: number;
+  items: number;
+}
+
+export interface DiscogsCollectionItem {
+  id: number;
+  instance_id: number;
+  date_added: string;
+  rating: number;
+  basic_information: {
+    id: number;
+    master_id: number;
+    title: string;
+    year: number;
+    thumb: string;
+    cover_image: string;
+    artists: Array<{ name: string; anv?: string }>;
+    labels: Array<{ name: string }>;
+    formats: Array<{ name: string; descriptions?: string[] }>;
+    genres: string[];
+    styles: string[];
+  };
+}
+
+export interface DiscogsCollectionResponse {
+  pagination: DiscogsPagination;
+  releases: DiscogsCollectionItem[];
+}
+
+export interface DiscogsMasterResponse {
+  id: number;
+  year: number;
+  genres?: string[];
+  styles?: string[];
+}
+
+export interface DiscogsIdentityResponse {
+  id: number;
+  username: string;
+}
+
+export interface CollectionSyncResult {
+  pagesFetched: number;
+  releasesSynced: number;
+  releasesRemoved: number;
+  complete: boolean;
+  skipped: boolean;
+}
+
+export interface EnrichmentResult {
+  mastersEnriched: number;
+  mastersMissing: number;
+}
@@ -1,5 +1,5 @@
 // ABOUTME: Last.fm artist detail functionality.
-// ABOUTME: Fetches artist info, tags, similar artists, and bio.
+// ABOUTME: Fetches artist info, tags, similar artists, bio, top albums and weighted top tags.
 
 import { CACHE_CONFIG, getTtlSeconds } from '@listentomore/config';
 import { fetchWithTimeout } from '@listentomore/shared';
@@ -22,6 +22,11 @@ export interface ArtistTopAlbum {
   url: string;
 }
 
+export interface ArtistTag {
+  name: string; // Lowercased
+  count: number; // Relative weight from Last.fm, 100 for the artist's top tag
+}
+
 interface LastfmArtistInfoResponse {
   artist: {
     name: string;
@@ -56,6 +61,17 @@ interface LastfmTopAlbumsResponse {
   message?: string;
 }
 
+interface LastfmTopTagsResponse {
+  toptags?: {
+    tag: Array<{
+      name: string;
+      count: number | string;
+    }>;
+  };
+  error?: number;
+  message?: string;
+}
+
 export interface LastfmConfig {
   apiKey: string;
   username: string;
@@ -165,4 +181,41 @@ export class ArtistDetails {
 
     return results;
   }
+
+  async getTopTags(artistName: string, limit: number = 10): Promise<ArtistTag[]> {
+    // Normalize artist name for cache key
+    const cacheKey = `lastfm:artistTopTags:${artistName.toLowerCase().trim()}:${limit}`;
+
+    // Check cache first
+    if (this.cache) {
+      const cached = await this.cache.get(cacheKey, 'json');
+      if (cached) {
+        return cached as ArtistTag[];
+      }
+    }
+
+    const url = `${LASTFM_API_BASE}/?method=artist.getTopTags&artist=${encodeURIComponent(artistName)}&api_key=${encodeURIComponent(this.config.apiKey)}&format=json&autocorrect=1`;
+
+    const response = await fetchWithTimeout(url, { timeout: 'fast' });
+    const data = (await response.json()) as LastfmTopTagsResponse;
+
+    if (data.error) {
+      throw new Error(data.message || `Failed to fetch top tags for: ${artistName}`);
+    }
+
+    // Same filtering as artist detail tags: drop "seen live" and tags with numbers (years, decades)
+    const results = (data.toptags?.tag || [])
+      .map((tag) => ({ name: tag.name.toLowerCase().trim(), count: Number(tag.count) || 0 }))
+      .filter((tag) => tag.name && tag.name !== 'seen live' && !/\d/.test(tag.name) && tag.count > 0)
+      .slice(0, limit);
+
+    // Cache result (use same TTL as artist detail)
+    if (this.cache) {
+      await this.cache.put(cacheKey, JSON.stringify(results), {
+        expirationTtl: getTtlSeconds(CACHE_CONFIG.lastfm.artistDetail),
+      });
+    }
+
+    return results;
+  }
 }
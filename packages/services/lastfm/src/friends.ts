@@ -0,0 +1,80 @@
+// ABOUTME: Last.fm friends list functionality with caching.
+// ABOUTME: Fetches the users a Last.fm user follows and is followed by.
+
+import { CACHE_CONFIG, getTtlSeconds } from '@listentomore/config';
+import { fetchWithTimeout } from '@listentomore/shared';
+
+const LASTFM_API_BASE = 'https://ws.audioscrobbler.com/2.0';
+
+export interface LastfmFriend {
+  username: string;
+  realname: string;
+  url: string;
+  image: string | null;
+}
+
+interface LastfmFriendsResponse {
+  friends?: {
+    user: Array<{
+      name: string;
+      realname?: string;
+      url: string;
+      image?: Array<{ '#text': string; size: string }>;
+    }>;
+  };
+  error?: number;
+  message?: string;
+}
+
+export interface LastfmConfig {
+  apiKey: string;
+  username: string;
+}
+
+export class Friends {
+  constructor(
+    private config: LastfmConfig,
+    private cache?: KVNamespace
+  ) {}
+
+  async getFriends(limit: number = 50): Promise<LastfmFriend[]> {
+    // Check cache first
+    const cacheKey = `lastfm:friends:${this.config.username.toLowerCase()}:${limit}`;
+    if (this.cache) {
+      const cached = await this.cache.get(cacheKey, 'json');
+      if (cached) {
+        return cached as LastfmFriend[];
+      }
+    }
+
+    const url = `${LASTFM_API_BASE}/?method=user.getfriends&user=${encodeURIComponent(this.config.username)}&api_key=${encodeURIComponent(this.config.apiKey)}&limit=${limit}&format=json`;
+
+    const response = await fetchWithTimeout(url, { timeout: 'fast' });
+
+    if (!response.ok) {
+      throw new Error(`Last.fm API responded with status ${response.status}`);
+    }
+
+    const data = (await response.json()) as LastfmFriendsResponse;
+
+    if (data.error) {
+      throw new Error(data.message || `Failed to fetch friends for: ${this.config.username}`);
+    }
+
+    const results = (data.friends?.user || []).map((friend) => ({
+      username: friend.name,
+      realname: friend.realname || '',
+      url: friend.url,
+      image: friend.image?.find((img) => img.size === 'extralarge')?.['#text'] || null,
+    }));
+
+    // Cache results
+    if (this.cache) {
+      await this.cache.put(cacheKey, JSON.stringify(results), {
+        expirationTtl: getTtlSeconds(CACHE_CONFIG.lastfm.friends),
+      });
+    }
+
+    return results;
+  }
+}
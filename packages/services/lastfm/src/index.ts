@@ -3,21 +3,35 @@
 import { RecentTracks } from './recent-tracks';
 import { TopAlbums, type TimePeriod } from './top-albums';
 import { TopArtists } from './top-artists';
+import { TopTracks } from './top-tracks';
+import { WeeklyCharts, type WeeklyChartRange } from './weekly-charts';
 import { ArtistDetails } from './artist-detail';
 import { LovedTracks } from './loved-tracks';
 import { UserInfo } from './user-info';
+import { Friends } from './friends';
 
 export { RecentTracks } from './recent-tracks';
-export type { RecentTrack } from './recent-tracks';
+export type { RecentTrack, RecentTracksPage, RecentTracksPageOptions, RecentTracksRange } from './recent-tracks';
 
 export { TopAlbums } from './top-albums';
-export type { TopAlbum, TimePeriod } from './top-albums';
+export type { TopAlbum, TopAlbumsPage, TimePeriod } from './top-albums';
 
 export { TopArtists } from './top-artists';
 export type { TopArtist } from './top-artists';
 
+export { TopTracks } from './top-tracks';
+export type { TopTrack } from './top-tracks';
+
+export { WeeklyCharts } from './weekly-charts';
+export type {
+  WeeklyChartRange,
+  WeeklyArtistChartEntry,
+  WeeklyAlbumChartEntry,
+  WeeklyTrackChartEntry,
+} from './weekly-charts';
+
 export { ArtistDetails } from './artist-detail';
-export type { ArtistDetail, ArtistTopAlbum } from './artist-detail';
+export type { ArtistDetail, ArtistTopAlbum, ArtistTag } from './artist-detail';
 
 export { LovedTracks } from './loved-tracks';
 export type { LovedTrack } from './loved-tracks';
@@ -25,6 +39,14 @@ export type { LovedTrack } from './loved-tracks';
 export { UserInfo } from './user-info';
 export type { UserInfoData } from './user-info';
 
+export { Friends } from './friends';
+export type { LastfmFriend } from './friends';
+
+export { LastfmWriteClient, LastfmSessionError, SCROBBLE_BATCH_SIZE } from './write-client';
+export type { LastfmWriteConfig, ScrobbleInput, ScrobbleResult } from './write-client';
+
+export { lastfmSignature } from './signature';
+
 export interface LastfmConfig {
   apiKey: string;
   username: string;
@@ -36,20 +58,30 @@ export class LastfmService {
   public readonly recentTracks: RecentTracks;
   public readonly topAlbums: TopAlbums;
   public readonly topArtists: TopArtists;
+  public readonly topTracks: TopTracks;
+  public readonly weeklyCharts: WeeklyCharts;
   public readonly artistDetails: ArtistDetails;
   public readonly lovedTracks: LovedTracks;
   public readonly userInfo: UserInfo;
+  public readonly friends: Friends;
 
   constructor(config: LastfmConfig) {
-    this.recentTracks = new RecentTracks(config);
+    this.recentTracks = new RecentTracks(config, config.cache);
     this.topAlbums = new TopAlbums(config, config.cache);
     this.topArtists = new TopArtists(config, config.cache);
+    this.topTracks = new TopTracks(config, config.cache);
+    this.weeklyCharts = new WeeklyCharts(config, config.cache);
     this.artistDetails = new ArtistDetails(config, config.cache);
     this.lovedTracks = new LovedTracks(config, config.cache);
     this.userInfo = new UserInfo(config, config.cache);
+    this.friends = new Friends(config, config.cache);
   }
 
   // Convenience methods
+  async getRecentTracks(limit: number = 10) {
+    return this.recentTracks.getRecentTracks(limit);
+  }
+
   async getMostRecentTrack() {
     return this.recentTracks.getMostRecentTrack();
   }
@@ -58,12 +90,36 @@ export class LastfmService {
     return this.recentTracks.getCurrentlyPlaying();
   }
 
+  async getRecentTracksInRange(from: number, to: number, maxPages?: number) {
+    return this.recentTracks.getRecentTracksInRange(from, to, maxPages);
+  }
+
   async getTopAlbums(period: TimePeriod = '1month', limit: number = 6) {
     return this.topAlbums.getTopAlbums(period, limit);
   }
 
-  async getTopArtists(period: TimePeriod = '7day', limit: number = 6) {
-    return this.topArtists.getTopArtists(period, limit);
+  async getTopArtists(period: TimePeriod = '7day', limit: number = 6, includeDetails: boolean = true) {
+    return this.topArtists.getTopArtists(period, limit, includeDetails);
+  }
+
+  async getTopTracks(period: TimePeriod = '7day', limit: number = 10) {
+    return this.topTracks.getTopTracks(period, limit);
+  }
+
+  async getWeeklyChartList() {
+    return this.weeklyCharts.getWeeklyChartList();
+  }
+
+  async getWeeklyArtistChart(range?: WeeklyChartRange, limit?: number) {
+    return this.weeklyCharts.getWeeklyArtistChart(range, limit);
+  }
+
+  async getWeeklyAlbumChart(range?: WeeklyChartRange, limit?: number) {
+    return this.weeklyCharts.getWeeklyAlbumChart(range, limit);
+  }
+
+  async getWeeklyTrackChart(range?: WeeklyChartRange, limit?: number) {
+    return this.weeklyCharts.getWeeklyTrackChart(range, limit);
   }
 
   async getArtistDetail(artistName: string, username?: string) {
@@ -74,6 +130,10 @@ export class LastfmService {
     return this.artistDetails.getTopAlbums(artistName, limit);
   }
 
+  async getArtistTopTags(artistName: string, limit: number = 10) {
+    return this.artistDetails.getTopTags(artistName, limit);
+  }
+
   async getLovedTracks(limit: number = 10) {
     return this.lovedTracks.getLovedTracks(limit);
   }
@@ -81,4 +141,8 @@ export class LastfmService {
   async getUserInfo() {
     return this.userInfo.getUserInfo();
   }
+
+  async getFriends(limit: number = 50) {
+    return this.friends.getFriends(limit);
+  }
 }
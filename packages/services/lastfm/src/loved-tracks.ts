@@ -10,6 +10,8 @@ export interface LovedTrack {
   title: string;
   artist: string;
   dateLiked: string;
+  /** ISO 8601 timestamp of when the track was loved, if known */
+  likedAt: string | null;
   image: string | null;
   songUrl: string;
 }
@@ -37,9 +39,13 @@ export class LovedTracks {
     private cache?: KVNamespace
   ) {}
 
+  private cacheKey(limit: number): string {
+    return `lastfm:lovedtracks:${this.config.username}:${limit}`;
+  }
+
   async getLovedTracks(limit: number = 10): Promise<LovedTrack[]> {
     // Check cache first
-    const cacheKey = `lastfm:lovedtracks:${this.config.username}:${limit}`;
+    const cacheKey = this.cacheKey(limit);
     if (this.cache) {
       const cached = await this.cache.get(cacheKey, 'json');
       if (cached) {
@@ -64,6 +70,7 @@ export class LovedTracks {
       dateLiked: track.date?.uts
         ? new Date(parseInt(track.date.uts) * 1000).toLocaleDateString()
         : '',
+      likedAt: track.date?.uts ? new Date(parseInt(track.date.uts) * 1000).toISOString() : null,
       image: track.image?.find((img) => img.size === 'extralarge')?.['#text'] || null,
       songUrl: track.url,
     }));
@@ -77,4 +84,12 @@ export class LovedTracks {
 
     return results;
   }
+
+  /**
+   * Drop cached loved tracks after a love/unlove (one cache entry per limit)
+   */
+  async clearCache(limits: number[]): Promise<void> {
+    if (!this.cache) return;
+    await Promise.all(limits.map((limit) => this.cache!.delete(this.cacheKey(limit))));
+  }
 }
@@ -1,6 +1,7 @@
 // ABOUTME: Last.fm recent tracks functionality.
-// ABOUTME: Fetches user's recently played tracks including now playing.
+// ABOUTME: Fetches user's recently played tracks including now playing, and paged history for a time range.
 
+import { CACHE_CONFIG, getTtlSeconds } from '@listentomore/config';
 import { fetchWithTimeout } from '@listentomore/shared';
 
 const LASTFM_API_BASE = 'https://ws.audioscrobbler.com/2.0';
@@ -26,16 +27,46 @@ interface LastfmRecentTracksResponse {
       '@attr'?: { nowplaying: string };
       date?: { uts: string };
     }>;
+    '@attr'?: {
+      page: string;
+      perPage: string;
+      totalPages: string;
+      total: string;
+    };
   };
 }
 
+export interface RecentTracksPage {
+  tracks: RecentTrack[];
+  page: number;
+  totalPages: number;
+  total: number;
+}
+
+export interface RecentTracksPageOptions {
+  page?: number;
+  limit?: number; // Last.fm max is 200
+  from?: number; // Unix seconds, inclusive
+  to?: number; // Unix seconds
+}
+
+export interface RecentTracksRange {
+  tracks: RecentTrack[];
+  total: number;
+  /** False when the range had more pages than were fetched */
+  complete: boolean;
+}
+
 export interface LastfmConfig {
   apiKey: string;
   username: string;
 }
 
 export class RecentTracks {
-  constructor(private config: LastfmConfig) {}
+  constructor(
+    private config: LastfmConfig,
+    private cache?: KVNamespace
+  ) {}
 
   async getRecentTracks(limit: number = 10): Promise<RecentTrack[]> {
     const url = `${LASTFM_API_BASE}/?method=user.getrecenttracks&user=${encodeURIComponent(this.config.username)}&api_key=${encodeURIComponent(this.config.apiKey)}&limit=${limit}&format=json`;
@@ -47,17 +78,77 @@ export class RecentTracks {
     }
 
     const data = (await response.json()) as LastfmRecentTracksResponse;
-    const tracks = data.recenttracks?.track || [];
+    return this.mapTracks(data);
+  }
 
-    return tracks.map((track) => ({
-      artist: track.artist['#text'] || '',
-      album: track.album['#text'] || '',
-      name: track.name,
-      url: track.url,
-      image: track.image?.find((img) => img.size === 'extralarge')?.['#text'] || null,
-      nowPlaying: track['@attr']?.nowplaying === 'true',
-      playedAt: track.date?.uts ? new Date(parseInt(track.date.uts) * 1000).toISOString() : null,
-    }));
+  /**
+   * Fetch a single page of scrobble history, optionally bounded by a time range.
+   * Used for paging through a user's full history (newest first).
+   */
+  async getRecentTracksPage(options: RecentTracksPageOptions = {}): Promise<RecentTracksPage> {
+    const { page = 1, limit = 200, from, to } = options;
+
+    // Only pages of a range that has already ended are cached; anything up to now is live
+    const cacheKey =
+      to !== undefined && to * 1000 < Date.now()
+        ? `lastfm:recenttracks:${this.config.username}:${from ?? 0}-${to}:${limit}:page:${page}`
+        : null;
+    if (this.cache && cacheKey) {
+      const cached = await this.cache.get(cacheKey, 'json');
+      if (cached) {
+        return cached as RecentTracksPage;
+      }
+    }
+
+    let url = `${LASTFM_API_BASE}/?method=user.getrecenttracks&user=${encodeURIComponent(this.config.username)}&api_key=${encodeURIComponent(this.config.apiKey)}&limit=${limit}&page=${page}&format=json`;
+    if (from !== undefined) url += `&from=${from}`;
+    if (to !== undefined) url += `&to=${to}`;
+
+    const response = await fetchWithTimeout(url, { timeout: 'fast' });
+
+    if (!response.ok) {
+      throw new Error(`Last.fm API responded with status ${response.status}`);
+    }
+
+    const data = (await response.json()) as LastfmRecentTracksResponse;
+    const attr = data.recenttracks?.['@attr'];
+
+    const result: RecentTracksPage = {
+      tracks: this.mapTracks(data),
+      page: attr ? parseInt(attr.page, 10) : page,
+      totalPages: attr ? parseInt(attr.totalPages, 10) : 0,
+      total: attr ? parseInt(attr.total, 10) : 0,
+    };
+
+    // Cache results
+    if (this.cache && cacheKey) {
+      await this.cache.put(cacheKey, JSON.stringify(result), {
+        expirationTtl: getTtlSeconds(CACHE_CONFIG.lastfm.recentTracksRange),
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Every scrobble between `from` and `to` (Unix seconds), newest first, walking
+   * up to `maxPages` pages of 200. The now-playing track is left out.
+   */
+  async getRecentTracksInRange(from: number, to: number, maxPages: number = 10): Promise<RecentTracksRange> {
+    const tracks: RecentTrack[] = [];
+    let page = 1;
+    let totalPages = 1;
+    let total = 0;
+
+    while (page <= totalPages && page <= maxPages) {
+      const result = await this.getRecentTracksPage({ page, from, to });
+      tracks.push(...result.tracks.filter((track) => !track.nowPlaying));
+      totalPages = result.totalPages;
+      total = result.total;
+      page++;
+    }
+
+    return { tracks, total, complete: page > totalPages };
   }
 
   async getMostRecentTrack(): Promise<RecentTrack | null> {
@@ -70,4 +161,18 @@ export class RecentTracks {
     const track = tracks[0];
     return track?.nowPlaying ? track : null;
   }
+
+  private mapTracks(data: LastfmRecentTracksResponse): RecentTrack[] {
+    const tracks = data.recenttracks?.track || [];
+
+    return tracks.map((track) => ({
+      artist: track.artist['#text'] || '',
+      album: track.album['#text'] || '',
+      name: track.name,
+      url: track.url,
+      image: track.image?.find((img) => img.size === 'extralarge')?.['#text'] || null,
+      nowPlaying: track['@attr']?.nowplaying === 'true',
+      playedAt: track.date?.uts ? new Date(parseInt(track.date.uts) * 1000).toISOString() : null,
+    }));
+  }
 }
@@ -1,5 +1,5 @@
-// MD5 implementation for Last.fm API signatures
-// Last.fm requires MD5 for API method signatures (legacy API)
+// ABOUTME: MD5 implementation and api_sig generation for signed Last.fm API calls.
+// ABOUTME: Last.fm requires MD5 for API method signatures (legacy API).
 
 /**
  * Simple MD5 implementation for Cloudflare Workers
@@ -18,6 +18,13 @@ export interface TopAlbum {
   image: string;
 }
 
+export interface TopAlbumsPage {
+  albums: TopAlbum[];
+  page: number;
+  totalPages: number;
+  total: number;
+}
+
 interface LastfmTopAlbumsResponse {
   topalbums: {
     album: Array<{
@@ -27,6 +34,12 @@ interface LastfmTopAlbumsResponse {
       url: string;
       image: Array<{ '#text': string; size: string }>;
     }>;
+    '@attr'?: {
+      page: string;
+      perPage: string;
+      totalPages: string;
+      total: string;
+    };
   };
 }
 
@@ -60,16 +73,7 @@ export class TopAlbums {
     }
 
     const data = (await response.json()) as LastfmTopAlbumsResponse;
-    const albums = data.topalbums?.album || [];
-
-    const results = albums.map((album) => ({
-      artist: album.artist.name,
-      artistUrl: album.artist.url,
-      name: album.name,
-      playcount: parseInt(album.playcount, 10),
-      albumUrl: album.url,
-      image: album.image?.find((img) => img.size === 'extralarge')?.['#text'] || BACKUP_IMAGE_URL,
-    }));
+    const results = this.mapAlbums(data);
 
     // Cache results
     if (this.cache) {
@@ -80,4 +84,59 @@ export class TopAlbums {
 
     return results;
   }
+
+  /**
+   * Fetch a single page of top albums, for walking a user's full album history
+   * (most played first). Last.fm allows up to 1000 albums per page.
+   */
+  async getTopAlbumsPage(period: TimePeriod = 'overall', page: number = 1, limit: number = 1000): Promise<TopAlbumsPage> {
+    // Check cache first
+    const cacheKey = `lastfm:topalbums:${this.config.username}:${period}:${limit}:page:${page}`;
+    if (this.cache) {
+      const cached = await this.cache.get(cacheKey, 'json');
+      if (cached) {
+        return cached as TopAlbumsPage;
+      }
+    }
+
+    const url = `${LASTFM_API_BASE}/?method=user.gettopalbums&user=${encodeURIComponent(this.config.username)}&api_key=${encodeURIComponent(this.config.apiKey)}&period=${period}&limit=${limit}&page=${page}&format=json`;
+
+    const response = await fetchWithTimeout(url, { timeout: 'slow' });
+
+    if (!response.ok) {
+      throw new Error(`Last.fm API responded with status ${response.status}`);
+    }
+
+    const data = (await response.json()) as LastfmTopAlbumsResponse;
+    const attr = data.topalbums?.['@attr'];
+
+    const result: TopAlbumsPage = {
+      albums: this.mapAlbums(data),
+      page: attr ? parseInt(attr.page, 10) : page,
+      totalPages: attr ? parseInt(attr.totalPages, 10) : 0,
+      total: attr ? parseInt(attr.total, 10) : 0,
+    };
+
+    // Cache results
+    if (this.cache) {
+      await this.cache.put(cacheKey, JSON.stringify(result), {
+        expirationTtl: getTtlSeconds(CACHE_CONFIG.lastfm.topAlbums),
+      });
+    }
+
+    return result;
+  }
+
+  private mapAlbums(data: LastfmTopAlbumsResponse): TopAlbum[] {
+    const albums = data.topalbums?.album || [];
+
+    return albums.map((album) => ({
+      artist: album.artist.name,
+      artistUrl: album.artist.url,
+      name: album.name,
+      playcount: parseInt(album.playcount, 10),
+      albumUrl: album.url,
+      image: album.image?.find((img) => img.size === 'extralarge')?.['#text'] || BACKUP_IMAGE_URL,
+    }));
+  }
 }
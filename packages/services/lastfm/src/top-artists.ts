@@ -60,8 +60,8 @@ export class TopArtists {
     limit: number = 6,
     includeDetails: boolean = true
   ): Promise<TopArtist[]> {
-    // Check cache first
-    const cacheKey = `lastfm:topartists:${this.config.username}:${period}:${limit}`;
+    // Check cache first (lists without details are cached apart so they never stand in for full ones)
+    const cacheKey = `lastfm:topartists:${this.config.username}:${period}:${limit}${includeDetails ? '' : ':bare'}`;
     if (this.cache) {
       const cached = await this.cache.get(cacheKey, 'json');
       if (cached) {
@@ -0,0 +1,79 @@
+// ABOUTME: Last.fm top tracks functionality with caching.
+// ABOUTME: Fetches user's most played tracks for various time periods.
+
+import { CACHE_CONFIG, getTtlSeconds } from '@listentomore/config';
+import { fetchWithTimeout } from '@listentomore/shared';
+import type { TimePeriod } from './top-albums';
+
+const LASTFM_API_BASE = 'https://ws.audioscrobbler.com/2.0';
+
+// Last.fm no longer serves track artwork, so top tracks carry no image
+export interface TopTrack {
+  artist: string;
+  artistUrl: string;
+  name: string;
+  playcount: number;
+  url: string;
+}
+
+interface LastfmTopTracksResponse {
+  toptracks: {
+    track: Array<{
+      artist: { name: string; url: string };
+      name: string;
+      playcount: string;
+      url: string;
+    }>;
+  };
+}
+
+export interface LastfmConfig {
+  apiKey: string;
+  username: string;
+}
+
+export class TopTracks {
+  constructor(
+    private config: LastfmConfig,
+    private cache?: KVNamespace
+  ) {}
+
+  async getTopTracks(period: TimePeriod = '7day', limit: number = 10): Promise<TopTrack[]> {
+    // Check cache first
+    const cacheKey = `lastfm:toptracks:${this.config.username}:${period}:${limit}`;
+    if (this.cache) {
+      const cached = await this.cache.get(cacheKey, 'json');
+      if (cached) {
+        return cached as TopTrack[];
+      }
+    }
+
+    const url = `${LASTFM_API_BASE}/?method=user.gettoptracks&user=${encodeURIComponent(this.config.username)}&api_key=${encodeURIComponent(this.config.apiKey)}&period=${period}&limit=${limit}&format=json`;
+
+    const response = await fetchWithTimeout(url, { timeout: 'fast' });
+
+    if (!response.ok) {
+      throw new Error(`Last.fm API responded with status ${response.status}`);
+    }
+
+    const data = (await response.json()) as LastfmTopTracksResponse;
+    const tracks = data.toptracks?.track || [];
+
+    const results = tracks.map((track) => ({
+      artist: track.artist.name,
+      artistUrl: track.artist.url,
+      name: track.name,
+      playcount: parseInt(track.playcount, 10),
+      url: track.url,
+    }));
+
+    // Cache results
+    if (this.cache) {
+      await this.cache.put(cacheKey, JSON.stringify(results), {
+        expirationTtl: getTtlSeconds(CACHE_CONFIG.lastfm.topTracks),
+      });
+    }
+
+    return results;
+  }
+}
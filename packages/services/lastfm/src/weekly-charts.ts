@@ -0,0 +1,176 @@
+// ABOUTME: Last.fm weekly charts (artists, albums, tracks) with caching.
+// ABOUTME: Charts cover a from/to range in Unix seconds; without one Last.fm returns the latest week.
+
+import { CACHE_CONFIG, getTtlSeconds } from '@listentomore/config';
+import { fetchWithTimeout } from '@listentomore/shared';
+
+const LASTFM_API_BASE = 'https://ws.audioscrobbler.com/2.0';
+
+export interface WeeklyChartRange {
+  from: number; // Unix seconds
+  to: number; // Unix seconds
+}
+
+export interface WeeklyArtistChartEntry {
+  rank: number;
+  name: string;
+  playcount: number;
+  url: string;
+}
+
+export interface WeeklyAlbumChartEntry {
+  rank: number;
+  artist: string;
+  name: string;
+  playcount: number;
+  url: string;
+}
+
+export interface WeeklyTrackChartEntry {
+  rank: number;
+  artist: string;
+  name: string;
+  playcount: number;
+  url: string;
+}
+
+interface LastfmChartEntry {
+  name: string;
+  playcount: string;
+  url: string;
+  artist?: { '#text': string };
+  '@attr'?: { rank: string };
+}
+
+interface LastfmWeeklyChartListResponse {
+  weeklychartlist: {
+    chart: Array<{ from: string; to: string }>;
+  };
+}
+
+type LastfmWeeklyChartResponse = Record<string, Record<string, LastfmChartEntry[] | undefined> | undefined>;
+
+// API method, response key and entry key for each chart type
+const CHART_TYPES = {
+  artist: { method: 'user.getweeklyartistchart', response: 'weeklyartistchart', entry: 'artist' },
+  album: { method: 'user.getweeklyalbumchart', response: 'weeklyalbumchart', entry: 'album' },
+  track: { method: 'user.getweeklytrackchart', response: 'weeklytrackchart', entry: 'track' },
+} as const;
+
+type ChartType = keyof typeof CHART_TYPES;
+
+export interface LastfmConfig {
+  apiKey: string;
+  username: string;
+}
+
+export class WeeklyCharts {
+  constructor(
+    private config: LastfmConfig,
+    private cache?: KVNamespace
+  ) {}
+
+  /**
+   * The week ranges Last.fm has charts for, oldest first
+   */
+  async getWeeklyChartList(): Promise<WeeklyChartRange[]> {
+    // Check cache first
+    const cacheKey = `lastfm:weeklychartlist:${this.config.username}`;
+    if (this.cache) {
+      const cached = await this.cache.get(cacheKey, 'json');
+      if (cached) {
+        return cached as WeeklyChartRange[];
+      }
+    }
+
+    const data = await this.fetch<LastfmWeeklyChartListResponse>('user.getweeklychartlist');
+    const results = (data.weeklychartlist?.chart || []).map((chart) => ({
+      from: parseInt(chart.from, 10),
+      to: parseInt(chart.to, 10),
+    }));
+
+    // Cache results
+    if (this.cache) {
+      await this.cache.put(cacheKey, JSON.stringify(results), {
+        expirationTtl: getTtlSeconds(CACHE_CONFIG.lastfm.weeklyChartList),
+      });
+    }
+
+    return results;
+  }
+
+  async getWeeklyArtistChart(range?: WeeklyChartRange, limit: number = 10): Promise<WeeklyArtistChartEntry[]> {
+    const entries = await this.getChart('artist', range, limit);
+    return entries.map((entry, index) => ({
+      rank: this.rank(entry, index),
+      name: entry.name,
+      playcount: parseInt(entry.playcount, 10),
+      url: entry.url,
+    }));
+  }
+
+  async getWeeklyAlbumChart(range?: WeeklyChartRange, limit: number = 10): Promise<WeeklyAlbumChartEntry[]> {
+    const entries = await this.getChart('album', range, limit);
+    return entries.map((entry, index) => ({
+      rank: this.rank(entry, index),
+      artist: entry.artist?.['#text'] || '',
+      name: entry.name,
+      playcount: parseInt(entry.playcount, 10),
+      url: entry.url,
+    }));
+  }
+
+  async getWeeklyTrackChart(range?: WeeklyChartRange, limit: number = 10): Promise<WeeklyTrackChartEntry[]> {
+    const entries = await this.getChart('track', range, limit);
+    return entries.map((entry, index) => ({
+      rank: this.rank(entry, index),
+      artist: entry.artist?.['#text'] || '',
+      name: entry.name,
+      playcount: parseInt(entry.playcount, 10),
+      url: entry.url,
+    }));
+  }
+
+  // Raw chart entries, cached per range. Charts for a range that has ended don't change.
+  private async getChart(type: ChartType, range: WeeklyChartRange | undefined, limit: number): Promise<LastfmChartEntry[]> {
+    const chart = CHART_TYPES[type];
+    const cacheKey = `lastfm:${chart.response}:${this.config.username}:${range ? `${range.from}-${range.to}` : 'latest'}:${limit}`;
+    if (this.cache) {
+      const cached = await this.cache.get(cacheKey, 'json');
+      if (cached) {
+        return cached as LastfmChartEntry[];
+      }
+    }
+
+    const params = range ? `&from=${range.from}&to=${range.to}` : '';
+    const data = await this.fetch<LastfmWeeklyChartResponse>(chart.method, params);
+    // The charts have no limit parameter and list everything played in the range
+    const results = (data[chart.response]?.[chart.entry] || []).slice(0, limit);
+
+    // Cache results
+    if (this.cache) {
+      const ended = range !== undefined && range.to * 1000 < Date.now();
+      await this.cache.put(cacheKey, JSON.stringify(results), {
+        expirationTtl: getTtlSeconds(ended ? CACHE_CONFIG.lastfm.weeklyChart : CACHE_CONFIG.lastfm.openWeeklyChart),
+      });
+    }
+
+    return results;
+  }
+
+  private rank(entry: LastfmChartEntry, index: number): number {
+    return entry['@attr']?.rank ? parseInt(entry['@attr'].rank, 10) : index + 1;
+  }
+
+  private async fetch<T>(method: string, params: string = ''): Promise<T> {
+    const url = `${LASTFM_API_BASE}/?method=${method}&user=${encodeURIComponent(this.config.username)}&api_key=${encodeURIComponent(this.config.apiKey)}${params}&format=json`;
+
+    const response = await fetchWithTimeout(url, { timeout: 'fast' });
+
+    if (!response.ok) {
+      throw new Error(`Last.fm API responded with status ${response.status}`);
+    }
+
+    return (await response.json()) as T;
+  }
+}
@@ -0,0 +1,131 @@
+// ABOUTME: Signed Last.fm write client using a user's stored session key.
+// ABOUTME: Supports track.love/unlove and batched track.scrobble; revoked sessions surface as LastfmSessionError.
+
+import { AppError, ExternalApiError, fetchWithTimeout } from '@listentomore/shared';
+import { lastfmSignature } from './signature';
+
+const LASTFM_API_BASE = 'https://ws.audioscrobbler.com/2.0/';
+
+// Last.fm error codes that mean the session key is no longer usable:
+// 4 = authentication failed, 9 = invalid session key (revoked or expired)
+const SESSION_ERROR_CODES = new Set([4, 9]);
+
+// Last.fm accepts at most 50 scrobbles per track.scrobble call
+export const SCROBBLE_BATCH_SIZE = 50;
+
+export interface LastfmWriteConfig {
+  apiKey: string;
+  sharedSecret: string;
+  sessionKey: string;
+}
+
+export interface ScrobbleInput {
+  artist: string;
+  track: string;
+  /** Unix seconds (UTC) when the track started playing */
+  timestamp: number;
+  album?: string;
+  albumArtist?: string;
+  /** Seconds */
+  duration?: number;
+  trackNumber?: number;
+}
+
+export interface ScrobbleResult {
+  accepted: number;
+  ignored: number;
+}
+
+interface LastfmScrobbleResponse {
+  scrobbles?: {
+    '@attr'?: { accepted: number | string; ignored: number | string };
+  };
+}
+
+/**
+ * Thrown when Last.fm rejects the session key; the user needs to sign in with Last.fm again
+ */
+export class LastfmSessionError extends AppError {
+  constructor(message: string = 'Last.fm session is invalid or has been revoked') {
+    super(message, 'LASTFM_SESSION_INVALID', 401);
+    this.name = 'LastfmSessionError';
+  }
+}
+
+export class LastfmWriteClient {
+  constructor(private config: LastfmWriteConfig) {}
+
+  async loveTrack(artist: string, track: string): Promise<void> {
+    await this.call('track.love', { artist, track });
+  }
+
+  async unloveTrack(artist: string, track: string): Promise<void> {
+    await this.call('track.unlove', { artist, track });
+  }
+
+  /**
+   * Scrobble plays in batches of 50, in the order given
+   */
+  async scrobbleTracks(scrobbles: ScrobbleInput[]): Promise<ScrobbleResult> {
+    const result: ScrobbleResult = { accepted: 0, ignored: 0 };
+
+    for (let start = 0; start < scrobbles.length; start += SCROBBLE_BATCH_SIZE) {
+      const params: Record<string, string> = {};
+      scrobbles.slice(start, start + SCROBBLE_BATCH_SIZE).forEach((scrobble, i) => {
+        params[`artist[${i}]`] = scrobble.artist;
+        params[`track[${i}]`] = scrobble.track;
+        params[`timestamp[${i}]`] = String(scrobble.timestamp);
+        if (scrobble.album) params[`album[${i}]`] = scrobble.album;
+        if (scrobble.albumArtist) params[`albumArtist[${i}]`] = scrobble.albumArtist;
+        if (scrobble.duration) params[`duration[${i}]`] = String(scrobble.duration);
+        if (scrobble.trackNumber) params[`trackNumber[${i}]`] = String(scrobble.trackNumber);
+      });
+
+      const data = (await this.call('track.scrobble', params)) as LastfmScrobbleResponse | null;
+      const attr = data?.scrobbles?.['@attr'];
+      result.accepted += Number(attr?.accepted ?? 0);
+      result.ignored += Number(attr?.ignored ?? 0);
+    }
+
+    return result;
+  }
+
+  /**
+   * POST a signed method call. `format` is excluded from the signature, as Last.fm expects.
+   */
+  protected async call(method: string, params: Record<string, string>): Promise<unknown> {
+    const signed: Record<string, string> = {
+      ...params,
+      method,
+      api_key: this.config.apiKey,
+      sk: this.config.sessionKey,
+    };
+    const body = new URLSearchParams({
+      ...signed,
+      api_sig: lastfmSignature(signed, this.config.sharedSecret),
+      format: 'json',
+    });
+
+    const response = await fetchWithTimeout(LASTFM_API_BASE, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: body.toString(),
+      timeout: 'fast',
+    });
+
+    const data = (await response.json().catch(() => null)) as { error?: number; message?: string } | null;
+
+    if (data?.error) {
+      if (SESSION_ERROR_CODES.has(data.error)) {
+        throw new LastfmSessionError(data.message);
+      }
+      throw new ExternalApiError('Last.fm', `${method} failed: ${data.message ?? data.error}`, response.status);
+    }
+
+    if (!response.ok) {
+      throw new ExternalApiError('Last.fm', `${method} responded with status ${response.status}`, response.status);
+    }
+
+    return data;
+  }
+}
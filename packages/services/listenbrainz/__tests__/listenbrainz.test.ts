@@ -0,0 +1,178 @@
+// ABOUTME: Tests for the ListenBrainz service - listens, stats, loved tracks and token validation.
+// ABOUTME: Verifies responses are mapped onto the same shapes as the Last.fm service.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ListenBrainzService, validateListenBrainzToken } from '../src/index';
+
+/**
+ * Creates a mock KVNamespace for testing
+ */
+function createMockKV(): KVNamespace {
+  const store = new Map<string, string>();
+
+  return {
+    get: vi.fn(async (key: string, type?: string) => {
+      const value = store.get(key);
+      if (value === undefined) return null;
+      return type === 'json' ? JSON.parse(value) : value;
+    }),
+    put: vi.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+    delete: vi.fn(async (key: string) => {
+      store.delete(key);
+    }),
+  } as unknown as KVNamespace;
+}
+
+function setupFetchMock(handlers: Array<{ pattern: RegExp; response: unknown; status?: number }>) {
+  const mockFetch = vi.fn(async (url: string | URL | Request) => {
+    const urlString = url instanceof Request ? url.url : url.toString();
+    const handler = handlers.find((h) => h.pattern.test(urlString));
+    const status = handler ? (handler.status ?? 200) : 404;
+
+    return {
+      ok: status >= 200 && status < 300,
+      status,
+      json: vi.fn().mockResolvedValue(handler?.response ?? { error: 'Not found' }),
+      headers: new Headers(),
+    } as unknown as Response;
+  });
+
+  globalThis.fetch = mockFetch as typeof fetch;
+  return mockFetch;
+}
+
+const mapping = {
+  recording_mbid: 'rec-1',
+  caa_id: 12345,
+  caa_release_mbid: 'rel-1',
+};
+
+describe('ListenBrainzService', () => {
+  let cache: KVNamespace;
+  let service: ListenBrainzService;
+
+  beforeEach(() => {
+    cache = createMockKV();
+    service = new ListenBrainzService({ username: 'lb-user', cache });
+  });
+
+  it('puts the playing-now listen ahead of submitted listens', async () => {
+    setupFetchMock([
+      {
+        pattern: /\/user\/lb-user\/playing-now/,
+        response: {
+          payload: { count: 1, listens: [{ playing_now: true, track_metadata: { artist_name: 'Siiga', track_name: 'Now' } }] },
+        },
+      },
+      {
+        pattern: /\/user\/lb-user\/listens\?count=2/,
+        response: {
+          payload: {
+            count: 1,
+            listens: [
+              {
+                listened_at: 1760900000,
+                track_metadata: { artist_name: 'Brian Eno', track_name: 'An Ending', release_name: 'Apollo', mbid_mapping: mapping },
+              },
+            ],
+          },
+        },
+      },
+    ]);
+
+    const tracks = await service.getRecentTracks(2);
+
+    expect(tracks).toEqual([
+      { artist: 'Siiga', album: '', name: 'Now', url: '', image: null, nowPlaying: true, playedAt: null },
+      {
+        artist: 'Brian Eno',
+        album: 'Apollo',
+        name: 'An Ending',
+        url: 'https://musicbrainz.org/recording/rec-1',
+        image: 'https://coverartarchive.org/release/rel-1/12345-500.jpg',
+        nowPlaying: false,
+        playedAt: new Date(1760900000 * 1000).toISOString(),
+      },
+    ]);
+  });
+
+  it('maps Last.fm periods onto stats ranges and caches top albums', async () => {
+    const mockFetch = setupFetchMock([
+      {
+        pattern: /\/stats\/user\/lb-user\/releases\?range=quarter&count=5/,
+        response: {
+          payload: {
+            releases: [
+              { artist_name: 'Brian Eno', artist_mbids: ['art-1'], release_name: 'Apollo', release_mbid: 'rel-1', listen_count: 9 },
+            ],
+          },
+        },
+      },
+    ]);
+
+    const albums = await service.getTopAlbums('3month', 5);
+    await service.getTopAlbums('3month', 5);
+
+    expect(albums).toEqual([
+      {
+        artist: 'Brian Eno',
+        artistUrl: 'https://musicbrainz.org/artist/art-1',
+        name: 'Apollo',
+        playcount: 9,
+        albumUrl: 'https://musicbrainz.org/release/rel-1',
+        image: 'https://file.elezea.com/noun-no-image.png',
+      },
+    ]);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(cache.put).toHaveBeenCalledWith('listenbrainz:topalbums:lb-user:3month:5', expect.any(String), expect.any(Object));
+  });
+
+  it('returns no top artists while stats are still being calculated', async () => {
+    setupFetchMock([{ pattern: /\/stats\/user\/lb-user\/artists/, response: null, status: 204 }]);
+
+    expect(await service.getTopArtists('7day', 6)).toEqual([]);
+  });
+
+  it('maps loved recordings and skips feedback without metadata', async () => {
+    setupFetchMock([
+      {
+        pattern: /\/feedback\/user\/lb-user\/get-feedback\?score=1&count=5&metadata=true/,
+        response: {
+          feedback: [
+            { created: 1760900000, recording_mbid: 'rec-1', score: 1, track_metadata: { artist_name: 'Siiga', track_name: 'Tide', mbid_mapping: mapping } },
+            { created: 1760800000, recording_mbid: null, score: 1, track_metadata: null },
+          ],
+        },
+      },
+    ]);
+
+    const loved = await service.getLovedTracks(5);
+
+    expect(loved).toHaveLength(1);
+    expect(loved[0]).toMatchObject({
+      title: 'Tide',
+      artist: 'Siiga',
+      image: 'https://coverartarchive.org/release/rel-1/12345-500.jpg',
+      songUrl: 'https://musicbrainz.org/recording/rec-1',
+    });
+  });
+});
+
+describe('validateListenBrainzToken', () => {
+  it('returns the username for a valid token', async () => {
+    const mockFetch = setupFetchMock([{ pattern: /\/validate-token/, response: { valid: true, user_name: 'lb-user' } }]);
+
+    expect(await validateListenBrainzToken('abc')).toBe('lb-user');
+    expect(mockFetch.mock.calls[0][1]).toMatchObject({ headers: { Authorization: 'Token abc' } });
+  });
+
+  it('returns null for invalid or malformed tokens', async () => {
+    setupFetchMock([{ pattern: /\/validate-token/, response: { valid: false } }]);
+    expect(await validateListenBrainzToken('abc')).toBeNull();
+
+    setupFetchMock([{ pattern: /\/validate-token/, response: { error: 'Invalid token' }, status: 400 }]);
+    expect(await validateListenBrainzToken('abc')).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+// ABOUTME: Fetch wrapper and shared helpers for the ListenBrainz API.
+// ABOUTME: Maps Last.fm time periods onto stats ranges and builds Cover Art Archive / MusicBrainz URLs.
+
+import { fetchWithTimeout, RateLimitError } from '@listentomore/shared';
+import type { TimePeriod } from '@listentomore/lastfm';
+
+export const LISTENBRAINZ_API_BASE = 'https://api.listenbrainz.org/1';
+export const BACKUP_IMAGE_URL = 'https://file.elezea.com/noun-no-image.png';
+const USER_AGENT = 'ListenToMore/1.0 (https://listentomore.com)';
+
+export interface ListenBrainzConfig {
+  username: string;
+}
+
+/** MusicBrainz mapping ListenBrainz attaches to listens, stats and feedback */
+export interface ListenBrainzMbidMapping {
+  recording_mbid?: string;
+  release_mbid?: string;
+  caa_id?: number;
+  caa_release_mbid?: string;
+  artist_mbids?: string[];
+}
+
+export interface ListenBrainzTrackMetadata {
+  artist_name: string;
+  track_name: string;
+  release_name?: string;
+  mbid_mapping?: ListenBrainzMbidMapping | null;
+}
+
+// ListenBrainz stats ranges are calendar based ("week" is last week), the closest match to Last.fm's rolling periods
+const STATS_RANGES: Record<TimePeriod, string> = {
+  '7day': 'week',
+  '1month': 'month',
+  '3month': 'quarter',
+  '6month': 'half_yearly',
+  '12month': 'year',
+  overall: 'all_time',
+};
+
+export function statsRange(period: TimePeriod): string {
+  return STATS_RANGES[period];
+}
+
+/**
+ * GET a ListenBrainz API path. Returns null for 204 No Content, which the
+ * stats endpoints send while a user's statistics haven't been calculated yet.
+ */
+export async function listenbrainzFetch<T>(path: string, token?: string): Promise<T | null> {
+  const headers: Record<string, string> = { 'User-Agent': USER_AGENT };
+  if (token) {
+    headers.Authorization = `Token ${token}`;
+  }
+
+  const response = await fetchWithTimeout(`${LISTENBRAINZ_API_BASE}${path}`, { timeout: 'fast', headers });
+
+  if (response.status === 429) {
+    const retryAfter = parseInt(response.headers.get('X-RateLimit-Reset-In') || '10', 10);
+    throw new RateLimitError('ListenBrainz', retryAfter);
+  }
+
+  if (response.status === 204) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error(`ListenBrainz API responded with status ${response.status}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+export function coverArtUrl(mapping: ListenBrainzMbidMapping | null | undefined): string | null {
+  const releaseMbid = mapping?.caa_release_mbid;
+  if (!releaseMbid || !mapping?.caa_id) return null;
+  return `https://coverartarchive.org/release/${releaseMbid}/${mapping.caa_id}-500.jpg`;
+}
+
+export function musicbrainzUrl(type: 'artist' | 'release' | 'recording', mbid: string | null | undefined): string {
+  return mbid ? `https://musicbrainz.org/${type}/${mbid}` : '';
+}
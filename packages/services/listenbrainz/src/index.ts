@@ -0,0 +1,70 @@
+// ABOUTME: ListenBrainz service - an alternate listening-data source to Last.fm.
+// ABOUTME: Exposes recent tracks, top albums/artists/tracks and loved tracks in the Last.fm shapes.
+
+import type { TimePeriod } from '@listentomore/lastfm';
+import { RecentTracks } from './recent-tracks';
+import { TopAlbums } from './top-albums';
+import { TopArtists } from './top-artists';
+import { TopTracks } from './top-tracks';
+import { LovedTracks } from './loved-tracks';
+
+export type { RecentTrack, TopAlbum, TopArtist, TopTrack, LovedTrack, TimePeriod } from '@listentomore/lastfm';
+
+export { RecentTracks } from './recent-tracks';
+export { TopAlbums } from './top-albums';
+export { TopArtists } from './top-artists';
+export { TopTracks } from './top-tracks';
+export { LovedTracks } from './loved-tracks';
+export { validateListenBrainzToken } from './validate-token';
+export { LISTENBRAINZ_API_BASE } from './fetch';
+
+export interface ListenBrainzServiceConfig {
+  username: string;
+  cache?: KVNamespace;
+}
+
+// Convenience class that combines all ListenBrainz functionality, mirroring LastfmService
+export class ListenBrainzService {
+  public readonly recentTracks: RecentTracks;
+  public readonly topAlbums: TopAlbums;
+  public readonly topArtists: TopArtists;
+  public readonly topTracks: TopTracks;
+  public readonly lovedTracks: LovedTracks;
+
+  constructor(config: ListenBrainzServiceConfig) {
+    this.recentTracks = new RecentTracks(config);
+    this.topAlbums = new TopAlbums(config, config.cache);
+    this.topArtists = new TopArtists(config, config.cache);
+    this.topTracks = new TopTracks(config, config.cache);
+    this.lovedTracks = new LovedTracks(config, config.cache);
+  }
+
+  // Convenience methods
+  async getRecentTracks(limit: number = 10) {
+    return this.recentTracks.getRecentTracks(limit);
+  }
+
+  async getMostRecentTrack() {
+    return this.recentTracks.getMostRecentTrack();
+  }
+
+  async getCurrentlyPlaying() {
+    return this.recentTracks.getCurrentlyPlaying();
+  }
+
+  async getTopAlbums(period: TimePeriod = '1month', limit: number = 6) {
+    return this.topAlbums.getTopAlbums(period, limit);
+  }
+
+  async getTopArtists(period: TimePeriod = '7day', limit: number = 6) {
+    return this.topArtists.getTopArtists(period, limit);
+  }
+
+  async getTopTracks(period: TimePeriod = '7day', limit: number = 10) {
+    return this.topTracks.getTopTracks(period, limit);
+  }
+
+  async getLovedTracks(limit: number = 10) {
+    return this.lovedTracks.getLovedTracks(limit);
+  }
+}
@@ -0,0 +1,67 @@
+// ABOUTME: ListenBrainz loved recordings (feedback score 1) with caching.
+// ABOUTME: Returned in the same LovedTrack shape as Last.fm's loved tracks.
+
+import { CACHE_CONFIG, getTtlSeconds } from '@listentomore/config';
+import type { LovedTrack } from '@listentomore/lastfm';
+import {
+  coverArtUrl,
+  listenbrainzFetch,
+  musicbrainzUrl,
+  type ListenBrainzConfig,
+  type ListenBrainzTrackMetadata,
+} from './fetch';
+
+interface ListenBrainzFeedbackResponse {
+  feedback: Array<{
+    created: number;
+    recording_mbid?: string | null;
+    score: number;
+    track_metadata?: ListenBrainzTrackMetadata | null;
+  }>;
+}
+
+export class LovedTracks {
+  constructor(
+    private config: ListenBrainzConfig,
+    private cache?: KVNamespace
+  ) {}
+
+  async getLovedTracks(limit: number = 10): Promise<LovedTrack[]> {
+    // Check cache first
+    const cacheKey = `listenbrainz:lovedtracks:${this.config.username}:${limit}`;
+    if (this.cache) {
+      const cached = await this.cache.get(cacheKey, 'json');
+      if (cached) {
+        return cached as LovedTrack[];
+      }
+    }
+
+    const data = await listenbrainzFetch<ListenBrainzFeedbackResponse>(
+      `/feedback/user/${encodeURIComponent(this.config.username)}/get-feedback?score=1&count=${limit}&metadata=true`
+    );
+
+    // Feedback without metadata can't be shown (the recording isn't mapped to MusicBrainz)
+    const results = (data?.feedback || [])
+      .filter((item) => item.track_metadata?.track_name)
+      .map((item) => {
+        const meta = item.track_metadata!;
+        return {
+          title: meta.track_name,
+          artist: meta.artist_name || '',
+          dateLiked: item.created ? new Date(item.created * 1000).toLocaleDateString() : '',
+          likedAt: item.created ? new Date(item.created * 1000).toISOString() : null,
+          image: coverArtUrl(meta.mbid_mapping),
+          songUrl: musicbrainzUrl('recording', item.recording_mbid ?? meta.mbid_mapping?.recording_mbid),
+        };
+      });
+
+    // Cache results
+    if (this.cache) {
+      await this.cache.put(cacheKey, JSON.stringify(results), {
+        expirationTtl: getTtlSeconds(CACHE_CONFIG.listenbrainz.lovedTracks),
+      });
+    }
+
+    return results;
+  }
+}
@@ -0,0 +1,69 @@
+// ABOUTME: ListenBrainz recent listens, in the same RecentTrack shape as Last.fm.
+// ABOUTME: Merges the playing-now listen in front of submitted listens, like Last.fm's recent tracks.
+
+import type { RecentTrack } from '@listentomore/lastfm';
+import {
+  coverArtUrl,
+  listenbrainzFetch,
+  musicbrainzUrl,
+  type ListenBrainzConfig,
+  type ListenBrainzTrackMetadata,
+} from './fetch';
+
+interface ListenBrainzListensResponse {
+  payload: {
+    count: number;
+    listens: Array<{
+      listened_at?: number;
+      playing_now?: boolean;
+      track_metadata: ListenBrainzTrackMetadata;
+    }>;
+  };
+}
+
+export class RecentTracks {
+  constructor(private config: ListenBrainzConfig) {}
+
+  async getRecentTracks(limit: number = 10): Promise<RecentTrack[]> {
+    const user = encodeURIComponent(this.config.username);
+    const [playingNow, listens] = await Promise.all([
+      listenbrainzFetch<ListenBrainzListensResponse>(`/user/${user}/playing-now`),
+      listenbrainzFetch<ListenBrainzListensResponse>(`/user/${user}/listens?count=${limit}`),
+    ]);
+
+    const tracks = [
+      ...this.mapListens(playingNow, true),
+      ...this.mapListens(listens, false),
+    ];
+
+    return tracks.slice(0, limit);
+  }
+
+  async getMostRecentTrack(): Promise<RecentTrack | null> {
+    const tracks = await this.getRecentTracks(1);
+    return tracks[0] || null;
+  }
+
+  async getCurrentlyPlaying(): Promise<RecentTrack | null> {
+    const tracks = await this.getRecentTracks(1);
+    const track = tracks[0];
+    return track?.nowPlaying ? track : null;
+  }
+
+  private mapListens(data: ListenBrainzListensResponse | null, nowPlaying: boolean): RecentTrack[] {
+    const listens = data?.payload?.listens || [];
+
+    return listens.map((listen) => {
+      const meta = listen.track_metadata;
+      return {
+        artist: meta.artist_name || '',
+        album: meta.release_name || '',
+        name: meta.track_name,
+        url: musicbrainzUrl('recording', meta.mbid_mapping?.recording_mbid),
+        image: coverArtUrl(meta.mbid_mapping),
+        nowPlaying,
+        playedAt: !nowPlaying && listen.listened_at ? new Date(listen.listened_at * 1000).toISOString() : null,
+      };
+    });
+  }
+}
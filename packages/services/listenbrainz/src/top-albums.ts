@@ -0,0 +1,70 @@
+// ABOUTME: ListenBrainz top releases with caching, in the same TopAlbum shape as Last.fm.
+// ABOUTME: Reads the precomputed user stats; returns an empty list until ListenBrainz has calculated them.
+
+import { CACHE_CONFIG, getTtlSeconds } from '@listentomore/config';
+import type { TimePeriod, TopAlbum } from '@listentomore/lastfm';
+import {
+  BACKUP_IMAGE_URL,
+  coverArtUrl,
+  listenbrainzFetch,
+  musicbrainzUrl,
+  statsRange,
+  type ListenBrainzConfig,
+} from './fetch';
+
+interface ListenBrainzReleasesResponse {
+  payload: {
+    releases: Array<{
+      artist_name: string;
+      artist_mbids?: string[];
+      release_name: string;
+      release_mbid?: string | null;
+      listen_count: number;
+      caa_id?: number | null;
+      caa_release_mbid?: string | null;
+    }>;
+  };
+}
+
+export class TopAlbums {
+  constructor(
+    private config: ListenBrainzConfig,
+    private cache?: KVNamespace
+  ) {}
+
+  async getTopAlbums(period: TimePeriod = '1month', limit: number = 6): Promise<TopAlbum[]> {
+    // Check cache first
+    const cacheKey = `listenbrainz:topalbums:${this.config.username}:${period}:${limit}`;
+    if (this.cache) {
+      const cached = await this.cache.get(cacheKey, 'json');
+      if (cached) {
+        return cached as TopAlbum[];
+      }
+    }
+
+    const data = await listenbrainzFetch<ListenBrainzReleasesResponse>(
+      `/stats/user/${encodeURIComponent(this.config.username)}/releases?range=${statsRange(period)}&count=${limit}`
+    );
+    const releases = data?.payload?.releases || [];
+
+    const results = releases.map((release) => ({
+      artist: release.artist_name,
+      artistUrl: musicbrainzUrl('artist', release.artist_mbids?.[0]),
+      name: release.release_name,
+      playcount: release.listen_count,
+      albumUrl: musicbrainzUrl('release', release.release_mbid),
+      image:
+        coverArtUrl({ caa_id: release.caa_id ?? undefined, caa_release_mbid: release.caa_release_mbid ?? undefined }) ||
+        BACKUP_IMAGE_URL,
+    }));
+
+    // Cache results
+    if (this.cache) {
+      await this.cache.put(cacheKey, JSON.stringify(results), {
+        expirationTtl: getTtlSeconds(CACHE_CONFIG.listenbrainz.topAlbums),
+      });
+    }
+
+    return results;
+  }
+}
@@ -0,0 +1,58 @@
+// ABOUTME: ListenBrainz top artists with caching, in the same TopArtist shape as Last.fm.
+// ABOUTME: ListenBrainz has no artist images, tags or bios, so those fields are left empty.
+
+import { CACHE_CONFIG, getTtlSeconds } from '@listentomore/config';
+import type { TimePeriod, TopArtist } from '@listentomore/lastfm';
+import { BACKUP_IMAGE_URL, listenbrainzFetch, musicbrainzUrl, statsRange, type ListenBrainzConfig } from './fetch';
+
+interface ListenBrainzArtistsResponse {
+  payload: {
+    artists: Array<{
+      artist_name: string;
+      artist_mbid?: string | null;
+      artist_mbids?: string[];
+      listen_count: number;
+    }>;
+  };
+}
+
+export class TopArtists {
+  constructor(
+    private config: ListenBrainzConfig,
+    private cache?: KVNamespace
+  ) {}
+
+  async getTopArtists(period: TimePeriod = '7day', limit: number = 6): Promise<TopArtist[]> {
+    // Check cache first
+    const cacheKey = `listenbrainz:topartists:${this.config.username}:${period}:${limit}`;
+    if (this.cache) {
+      const cached = await this.cache.get(cacheKey, 'json');
+      if (cached) {
+        return cached as TopArtist[];
+      }
+    }
+
+    const data = await listenbrainzFetch<ListenBrainzArtistsResponse>(
+      `/stats/user/${encodeURIComponent(this.config.username)}/artists?range=${statsRange(period)}&count=${limit}`
+    );
+    const artists = data?.payload?.artists || [];
+
+    const results = artists.map((artist) => ({
+      name: artist.artist_name,
+      playcount: artist.listen_count,
+      url: musicbrainzUrl('artist', artist.artist_mbid ?? artist.artist_mbids?.[0]),
+      image: BACKUP_IMAGE_URL,
+      tags: [],
+      bio: '',
+    }));
+
+    // Cache results
+    if (this.cache) {
+      await this.cache.put(cacheKey, JSON.stringify(results), {
+        expirationTtl: getTtlSeconds(CACHE_CONFIG.listenbrainz.topArtists),
+      });
+    }
+
+    return results;
+  }
+}
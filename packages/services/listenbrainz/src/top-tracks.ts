@@ -0,0 +1,58 @@
+// ABOUTME: ListenBrainz top recordings with caching, in the same TopTrack shape as Last.fm.
+// ABOUTME: Reads the precomputed user stats; returns an empty list until ListenBrainz has calculated them.
+
+import { CACHE_CONFIG, getTtlSeconds } from '@listentomore/config';
+import type { TimePeriod, TopTrack } from '@listentomore/lastfm';
+import { listenbrainzFetch, musicbrainzUrl, statsRange, type ListenBrainzConfig } from './fetch';
+
+interface ListenBrainzRecordingsResponse {
+  payload: {
+    recordings: Array<{
+      artist_name: string;
+      artist_mbids?: string[];
+      track_name: string;
+      recording_mbid?: string | null;
+      listen_count: number;
+    }>;
+  };
+}
+
+export class TopTracks {
+  constructor(
+    private config: ListenBrainzConfig,
+    private cache?: KVNamespace
+  ) {}
+
+  async getTopTracks(period: TimePeriod = '7day', limit: number = 10): Promise<TopTrack[]> {
+    // Check cache first
+    const cacheKey = `listenbrainz:toptracks:${this.config.username}:${period}:${limit}`;
+    if (this.cache) {
+      const cached = await this.cache.get(cacheKey, 'json');
+      if (cached) {
+        return cached as TopTrack[];
+      }
+    }
+
+    const data = await listenbrainzFetch<ListenBrainzRecordingsResponse>(
+      `/stats/user/${encodeURIComponent(this.config.username)}/recordings?range=${statsRange(period)}&count=${limit}`
+    );
+    const recordings = data?.payload?.recordings || [];
+
+    const results = recordings.map((recording) => ({
+      artist: recording.artist_name,
+      artistUrl: musicbrainzUrl('artist', recording.artist_mbids?.[0]),
+      name: recording.track_name,
+      playcount: recording.listen_count,
+      url: musicbrainzUrl('recording', recording.recording_mbid),
+    }));
+
+    // Cache results
+    if (this.cache) {
+      await this.cache.put(cacheKey, JSON.stringify(results), {
+        expirationTtl: getTtlSeconds(CACHE_CONFIG.listenbrainz.topTracks),
+      });
+    }
+
+    return results;
+  }
+}
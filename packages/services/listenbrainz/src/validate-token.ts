@@ -0,0 +1,25 @@
+// ABOUTME: ListenBrainz user token validation, used to link an account.
+// ABOUTME: Proves the user owns the account; resolves the token to its ListenBrainz username.
+
+import { listenbrainzFetch } from './fetch';
+
+interface ListenBrainzValidateTokenResponse {
+  valid: boolean;
+  user_name?: string;
+}
+
+/**
+ * Returns the ListenBrainz username a user token belongs to, or null if the token is invalid
+ */
+export async function validateListenBrainzToken(token: string): Promise<string | null> {
+  try {
+    const data = await listenbrainzFetch<ListenBrainzValidateTokenResponse>('/validate-token', token);
+    return data?.valid && data.user_name ? data.user_name : null;
+  } catch (error) {
+    // ListenBrainz answers malformed tokens with 400/401
+    if (error instanceof Error && /status 40[01]/.test(error.message)) {
+      return null;
+    }
+    throw error;
+  }
+}
@@ -18,6 +18,7 @@ export type { TrackMetadata, AlbumMetadata, StreamingLinksResult, ProviderResult
 export { AppleMusicProvider, type AppleMusicConfig, type AppleMusicTrackData, type AppleMusicAlbumData } from './providers/apple-music';
 export { YouTubeProvider } from './providers/youtube';
 export { parseStreamingUrl, isSupportedUrl, type ParsedUrl, type ContentType, type StreamingPlatform } from './url-parser';
+export { similarity, normalizeString } from './matching';
 
 // Backward compatibility type matching songlink service
 export interface StreamingLinks {